@@ -1,6 +1,23 @@
 import { Stack } from "expo-router";
+import { useEffect } from "react";
+import { recoverBrightness } from "../lib/brightnessService";
+import { loadLanguage } from "../lib/i18n";
+import { loadScreenCalibration } from "../lib/screenCalibration";
+import { loadStrideCalibration } from "../lib/stepPlacement";
+import { loadVoiceSettings } from "../lib/voiceService";
 
 export default function RootLayout() {
+  // Optotype sizing reads the stored card calibration synchronously;
+  // the saved language, voice settings and stride replace the defaults once read.
+  // A brightness left at a test's level by a crash is put back first.
+  useEffect(() => {
+    recoverBrightness();
+    loadScreenCalibration();
+    loadStrideCalibration();
+    loadLanguage();
+    loadVoiceSettings();
+  }, []);
+
   return (
     <Stack>
       <Stack.Screen name="index" options={{ headerShown: false }} />
@@ -12,6 +29,10 @@ export default function RootLayout() {
         name="visual-acuity"
         options={{ headerShown: false, gestureEnabled: false }}
       />
+      <Stack.Screen
+        name="contrast-sensitivity"
+        options={{ headerShown: false, gestureEnabled: false }}
+      />
       <Stack.Screen
         name="color-vision"
         options={{ headerShown: false, gestureEnabled: false }}
@@ -20,10 +41,26 @@ export default function RootLayout() {
         name="astigmatism"
         options={{ headerShown: false, gestureEnabled: false }}
       />
+      <Stack.Screen
+        name="amsler"
+        options={{ headerShown: false, gestureEnabled: false }}
+      />
+      <Stack.Screen
+        name="remote-controller"
+        options={{ headerShown: false, gestureEnabled: false }}
+      />
       <Stack.Screen
         name="clinics"
         options={{ headerShown: false }}
       />
+      <Stack.Screen
+        name="history"
+        options={{ headerShown: false }}
+      />
+      <Stack.Screen
+        name="results"
+        options={{ headerShown: false }}
+      />
     </Stack>
   );
 }
@@ -1,39 +1,39 @@
 import { useRouter } from 'expo-router';
 import React from 'react';
 import { ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useI18n } from '../lib/i18n';
 
 export default function AboutScreen() {
   const router = useRouter();
+  const { t } = useI18n();
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.header}>
         <Text style={styles.headerEmoji}>👁️</Text>
         <Text style={styles.title}>VisionCheck Kenya</Text>
-        <Text style={styles.version}>Version 1.0.0</Text>
+        <Text style={styles.version}>{t('about.version', { version: '1.0.0' })}</Text>
       </View>
 
       <View style={styles.card}>
-        <Text style={styles.cardTitle}>About</Text>
+        <Text style={styles.cardTitle}>{t('about.title')}</Text>
         <Text style={styles.body}>
-          VisionCheck Kenya is a mobile vision screening tool designed to make basic eye testing
-          accessible to everyone in Kenya and beyond. It is not a substitute for a professional
-          eye examination.
+          {t('about.body')}
         </Text>
       </View>
 
       <View style={styles.card}>
-        <Text style={styles.cardTitle}>Tests Included</Text>
-        <Text style={styles.body}>• Visual Acuity (Snellen + Jaeger)</Text>
-        <Text style={styles.body}>• Colour Vision (Ishihara plates)</Text>
-        <Text style={styles.body}>• Astigmatism (Fan chart)</Text>
+        <Text style={styles.cardTitle}>{t('about.testsTitle')}</Text>
+        <Text style={styles.body}>{t('about.testVA')}</Text>
+        <Text style={styles.body}>{t('about.testCV')}</Text>
+        <Text style={styles.body}>{t('about.testAstig')}</Text>
       </View>
 
       <View style={styles.disclaimer}>
         <Text style={styles.disclaimerText}>
-          ⚠️ This app is for screening purposes only. Please visit a qualified optometrist for
-          a comprehensive eye examination.
+          {t('about.disclaimer')}
         </Text>
+
       </View>
     </ScrollView>
   );
@@ -0,0 +1,41 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import AmslerGridTest from '../components/VisionTests/AmslerGridTest';
+import PatientPrompt from '../components/VisionTests/PatientPrompt';
+import { saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type { AmslerResults } from '../lib/screeningSession';
+
+export default function AmslerScreen() {
+  const router = useRouter();
+  const { t } = useI18n();
+  // Null until the patient prompt is answered
+  const [patientLabel, setPatientLabel] = useState<string | null>(null);
+
+  const handleComplete = (results: AmslerResults) => {
+    saveSession({
+      source: 'amsler',
+      patientLabel,
+      visualAcuity: null,
+      contrastSensitivity: null,
+      colorVision: null,
+      astigmatism: null,
+      amsler: results,
+    });
+  };
+
+  const handleExit = () => {
+    router.back();
+  };
+
+  if (patientLabel === null) {
+    return <PatientPrompt testTitle={t('amsler.title')} onContinue={setPatientLabel} onExit={handleExit} />;
+  }
+
+  return (
+    <AmslerGridTest
+      onComplete={handleComplete}
+      onExit={handleExit}
+    />
+  );
+}
@@ -1,17 +1,37 @@
 import { useRouter } from 'expo-router';
+import { useState } from 'react';
 import AstigmatismTest from '../components/VisionTests/AstigmatismTest';
+import PatientPrompt from '../components/VisionTests/PatientPrompt';
+import { saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type { AstigmatismResults } from '../lib/screeningSession';
 
 export default function AstigmatismScreen() {
   const router = useRouter();
+  const { t } = useI18n();
+  // Null until the patient prompt is answered
+  const [patientLabel, setPatientLabel] = useState<string | null>(null);
 
-  const handleComplete = (results: any) => {
-    console.log('Astigmatism Test results:', JSON.stringify(results, null, 2));
+  const handleComplete = (results: AstigmatismResults) => {
+    saveSession({
+      source: 'astigmatism',
+      patientLabel,
+      visualAcuity: null,
+      contrastSensitivity: null,
+      colorVision: null,
+      astigmatism: results,
+      amsler: null,
+    });
   };
 
   const handleExit = () => {
     router.back();
   };
 
+  if (patientLabel === null) {
+    return <PatientPrompt testTitle={t('astig.title')} onContinue={setPatientLabel} onExit={handleExit} />;
+  }
+
   return (
     <AstigmatismTest
       onComplete={handleComplete}
@@ -16,6 +16,7 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import { t, useI18n, type TranslationKey } from '../lib/i18n';
 
 // ─── TYPES ───────────────────────────────────────────────────────────
 interface Clinic {
@@ -28,7 +29,7 @@ interface Clinic {
   distance?: number;
   phone?: string;
   hours?: string;
-  services: string[];
+  services: TranslationKey[];
 }
 
 // ─── HELPERS ─────────────────────────────────────────────────────────
@@ -55,13 +56,13 @@ const formatDistance = (km: number): string => {
 const getCategoryInfo = (cat: Clinic['category']): { label: string; color: string; bg: string; icon: string } => {
   switch (cat) {
     case 'hospital':
-      return { label: 'Hospital', color: '#1565C0', bg: '#E3F2FD', icon: '🏥' };
+      return { label: t('clinics.hospital'), color: '#1565C0', bg: '#E3F2FD', icon: '🏥' };
     case 'optical':
-      return { label: 'Optical', color: '#6A1B9A', bg: '#F3E5F5', icon: '👓' };
+      return { label: t('clinics.optical'), color: '#6A1B9A', bg: '#F3E5F5', icon: '👓' };
     case 'specialist':
-      return { label: 'Eye Clinic', color: '#00838F', bg: '#E0F7FA', icon: '👁️' };
+      return { label: t('clinics.eyeClinic'), color: '#00838F', bg: '#E0F7FA', icon: '👁️' };
     case 'community':
-      return { label: 'Health Centre', color: '#2E7D32', bg: '#E8F5E9', icon: '🏨' };
+      return { label: t('clinics.healthCentre'), color: '#2E7D32', bg: '#E8F5E9', icon: '🏨' };
   }
 };
 
@@ -107,29 +108,30 @@ const classifyPlace = (tags: Record<string, string>): Clinic['category'] => {
   return 'community';
 };
 
-const inferServices = (tags: Record<string, string>, category: Clinic['category']): string[] => {
-  const services: string[] = [];
+/** Services are kept as catalogue keys so they follow the current language */
+const inferServices = (tags: Record<string, string>, category: Clinic['category']): TranslationKey[] => {
+  const services: TranslationKey[] = [];
   const name = (tags['name'] ?? '').toLowerCase();
 
   switch (category) {
     case 'hospital':
-      services.push('Eye exams', 'Emergency eye care');
-      if (name.includes('teaching') || name.includes('referral')) services.push('Specialist referrals');
+      services.push('clinics.svcEyeExams', 'clinics.svcEmergency');
+      if (name.includes('teaching') || name.includes('referral')) services.push('clinics.svcReferrals');
       break;
     case 'optical':
-      services.push('Prescription glasses', 'Contact lenses', 'Eye exams');
+      services.push('clinics.svcGlasses', 'clinics.svcContacts', 'clinics.svcEyeExams');
       break;
     case 'specialist':
-      services.push('Eye exams', 'Vision screening');
-      if (name.includes('laser') || name.includes('lasik')) services.push('LASIK surgery');
+      services.push('clinics.svcEyeExams', 'clinics.svcScreening');
+      if (name.includes('laser') || name.includes('lasik')) services.push('clinics.svcLasik');
       break;
     case 'community':
-      services.push('General health', 'Basic eye screening');
+      services.push('clinics.svcGeneral', 'clinics.svcBasicScreening');
       break;
   }
 
-  if (tags['healthcare:speciality']?.includes('ophthalmology')) services.push('Ophthalmology');
-  if (tags['healthcare:speciality']?.includes('optometry')) services.push('Optometry');
+  if (tags['healthcare:speciality']?.includes('ophthalmology')) services.push('clinics.svcOphthalmology');
+  if (tags['healthcare:speciality']?.includes('optometry')) services.push('clinics.svcOptometry');
 
   return [...new Set(services)];
 };
@@ -148,7 +150,7 @@ const reverseGeocodeAddress = async (lat: number, lng: number): Promise<string>
       if (parts.length > 0) return parts.join(', ');
     }
   } catch { /* fall through */ }
-  return 'Location available on map';
+  return t('clinics.onMap');
 };
 
 const fetchNearbyClinics = async (lat: number, lng: number, radiusKm: number = 30): Promise<Clinic[]> => {
@@ -243,17 +245,18 @@ out center body;
 // ─── FILTER OPTIONS ──────────────────────────────────────────────────
 type FilterCategory = 'all' | 'hospital' | 'optical' | 'specialist' | 'community';
 
-const FILTER_OPTIONS: { key: FilterCategory; label: string }[] = [
-  { key: 'all', label: 'All' },
-  { key: 'hospital', label: '🏥 Hospitals' },
-  { key: 'optical', label: '👓 Optical' },
-  { key: 'specialist', label: '👁️ Eye Clinics' },
-  { key: 'community', label: '🏨 Health Centres' },
+const FILTER_OPTIONS: { key: FilterCategory; label: TranslationKey }[] = [
+  { key: 'all', label: 'clinics.filterAll' },
+  { key: 'hospital', label: 'clinics.filterHospitals' },
+  { key: 'optical', label: 'clinics.filterOptical' },
+  { key: 'specialist', label: 'clinics.filterEyeClinics' },
+  { key: 'community', label: 'clinics.filterHealthCentres' },
 ];
 
 // ─── COMPONENT ───────────────────────────────────────────────────────
 export default function ClinicsScreen() {
   const router = useRouter();
+  const { t } = useI18n();
 
   // Location state
   const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -316,7 +319,7 @@ export default function ClinicsScreen() {
       const enabled = await Location.hasServicesEnabledAsync();
       if (!enabled) {
         setLocationStatus('unavailable');
-        setLocationError('Location services are turned off on your device.');
+        setLocationError(t('clinics.servicesOff'));
         return;
       }
     } catch { /* continue */ }
@@ -325,12 +328,12 @@ export default function ClinicsScreen() {
       const { status } = await Location.requestForegroundPermissionsAsync();
       if (status !== 'granted') {
         setLocationStatus('denied');
-        setLocationError('Location permission was denied.');
+        setLocationError(t('clinics.permissionDenied'));
         return;
       }
     } catch {
       setLocationStatus('error');
-      setLocationError('Could not request location permission.');
+      setLocationError(t('clinics.permissionFailed'));
       return;
     }
 
@@ -355,22 +358,22 @@ export default function ClinicsScreen() {
           else if (geo.subregion) parts.push(geo.subregion);
           if (geo.city) parts.push(geo.city);
           else if (geo.region) parts.push(geo.region);
-          setLocationName(parts.length > 0 ? parts.join(', ') : 'Your current location');
+          setLocationName(parts.length > 0 ? parts.join(', ') : t('clinics.currentLocation'));
         } else {
-          setLocationName('Your current location');
+          setLocationName(t('clinics.currentLocation'));
         }
       } catch {
-        setLocationName('Your current location');
+        setLocationName(t('clinics.currentLocation'));
       }
 
       setLocationStatus('granted');
     } catch (e: any) {
       if (e?.message === 'timeout') {
         setLocationStatus('timeout');
-        setLocationError('GPS took too long. You may be indoors or have weak signal.');
+        setLocationError(t('clinics.gpsTimeout'));
       } else {
         setLocationStatus('error');
-        setLocationError('Could not determine your location.');
+        setLocationError(t('clinics.locationFailed'));
       }
     }
   };
@@ -392,7 +395,7 @@ export default function ClinicsScreen() {
       setClinicsStatus('done');
     } catch {
       setClinicsStatus('error');
-      setClinicsError('Could not fetch nearby clinics. Check your internet connection.');
+      setClinicsError(t('clinics.fetchFailed'));
     }
   };
 
@@ -407,9 +410,9 @@ export default function ClinicsScreen() {
   const getTimeSinceLocation = (): string => {
     if (!locationTimestamp) return '';
     const secs = Math.floor((Date.now() - locationTimestamp) / 1000);
-    if (secs < 60) return 'just now';
-    if (secs < 3600) return `${Math.floor(secs / 60)}m ago`;
-    return `${Math.floor(secs / 3600)}h ago`;
+    if (secs < 60) return t('clinics.justNow');
+    if (secs < 3600) return t('clinics.minutesAgo', { count: Math.floor(secs / 60) });
+    return t('clinics.hoursAgo', { count: Math.floor(secs / 3600) });
   };
 
   const hasLocationError =
@@ -427,11 +430,11 @@ export default function ClinicsScreen() {
       filtered = filtered.filter(c =>
         c.name.toLowerCase().includes(q) ||
         c.address.toLowerCase().includes(q) ||
-        c.services.some(s => s.toLowerCase().includes(q))
+        c.services.some(s => t(s).toLowerCase().includes(q))
       );
     }
     return filtered;
-  }, [clinics, searchQuery, activeFilter])();
+  }, [clinics, searchQuery, activeFilter, t])();
 
   // ─── Clinic card ────────────────────────────
   const renderClinicCard = ({ item, index }: { item: Clinic; index: number }) => {
@@ -470,11 +473,11 @@ export default function ClinicsScreen() {
         {isExpanded && (
           <View style={styles.expandedSection}>
             <View style={styles.servicesContainer}>
-              <Text style={styles.servicesTitle}>Services</Text>
+              <Text style={styles.servicesTitle}>{t('clinics.services')}</Text>
               <View style={styles.servicesTags}>
                 {item.services.map((s, i) => (
                   <View key={i} style={styles.serviceTag}>
-                    <Text style={styles.serviceTagText}>{s}</Text>
+                    <Text style={styles.serviceTagText}>{t(s)}</Text>
                   </View>
                 ))}
               </View>
@@ -484,18 +487,18 @@ export default function ClinicsScreen() {
 
             <View style={styles.clinicActions}>
               <TouchableOpacity style={styles.directionsBtn} onPress={() => openDirections(item)}>
-                <Text style={styles.directionsBtnText}>🗺️ Directions</Text>
+                <Text style={styles.directionsBtnText}>{t('clinics.directions')}</Text>
               </TouchableOpacity>
               {item.phone && (
                 <TouchableOpacity style={styles.callBtn} onPress={() => callPhone(item.phone!)}>
-                  <Text style={styles.callBtnText}>📞 Call</Text>
+                  <Text style={styles.callBtnText}>{t('clinics.call')}</Text>
                 </TouchableOpacity>
               )}
             </View>
           </View>
         )}
 
-        {!isExpanded && <Text style={styles.tapHint}>Tap for details & directions</Text>}
+        {!isExpanded && <Text style={styles.tapHint}>{t('clinics.tapHint')}</Text>}
       </TouchableOpacity>
     );
   };
@@ -509,15 +512,15 @@ export default function ClinicsScreen() {
           <Text style={styles.backArrowText}>←</Text>
         </TouchableOpacity>
         <Text style={styles.headerEmoji}>🏥</Text>
-        <Text style={styles.headerTitle}>Find Eye Clinics</Text>
+        <Text style={styles.headerTitle}>{t('clinics.title')}</Text>
         <Text style={styles.headerSubtitle}>
           {clinicsStatus === 'done' && locationName
-            ? `${visibleClinics.length} nearest to ${locationName}`
+            ? t('clinics.nearestTo', { count: visibleClinics.length, place: locationName })
             : clinicsStatus === 'done'
-            ? `${visibleClinics.length} clinics near you`
+            ? t('clinics.nearYou', { count: visibleClinics.length })
             : clinicsStatus === 'loading'
-            ? 'Searching for nearby clinics…'
-            : 'Enable location to find clinics near you'}
+            ? t('clinics.searching')
+            : t('clinics.enableLocation')}
         </Text>
       </View>
 
@@ -528,7 +531,7 @@ export default function ClinicsScreen() {
             <Text style={styles.searchIcon}>🔍</Text>
             <TextInput
               style={styles.searchInput}
-              placeholder="Filter results..."
+              placeholder={t('clinics.filterPlaceholder')}
               placeholderTextColor="#9E9E9E"
               value={searchQuery}
               onChangeText={setSearchQuery}
@@ -555,7 +558,7 @@ export default function ClinicsScreen() {
                 onPress={() => setActiveFilter(f.key)}
               >
                 <Text style={[styles.filterChipText, activeFilter === f.key && styles.filterChipTextActive]}>
-                  {f.label}
+                  {t(f.label)}
                 </Text>
               </TouchableOpacity>
             ))}
@@ -573,36 +576,36 @@ export default function ClinicsScreen() {
             <View style={styles.statusCardText}>
               <Text style={styles.statusCardTitle}>
                 {locationStatus === 'requesting-permission'
-                  ? 'Requesting location access…'
+                  ? t('clinics.requesting')
                   : locationStatus === 'acquiring-gps'
-                  ? 'Acquiring GPS signal…'
-                  : 'Identifying your area…'}
+                  ? t('clinics.acquiring')
+                  : t('clinics.identifying')}
               </Text>
               <Text style={styles.statusCardDesc}>
                 {locationStatus === 'requesting-permission'
-                  ? 'Please allow location permission when prompted'
+                  ? t('clinics.requestingDesc')
                   : locationStatus === 'acquiring-gps'
-                  ? 'Finding your coordinates via satellite'
-                  : 'Resolving your address for nearby results'}
+                  ? t('clinics.acquiringDesc')
+                  : t('clinics.identifyingDesc')}
               </Text>
             </View>
           </View>
           <View style={styles.stepsRow}>
             <View style={[styles.step, locationStatus !== 'requesting-permission' && styles.stepDone]}>
               <Text style={styles.stepIcon}>{locationStatus === 'requesting-permission' ? '🔄' : '✅'}</Text>
-              <Text style={styles.stepLabel}>Permission</Text>
+              <Text style={styles.stepLabel}>{t('clinics.stepPermission')}</Text>
             </View>
             <View style={styles.stepLine} />
             <View style={[styles.step, locationStatus === 'reverse-geocoding' && styles.stepDone]}>
               <Text style={styles.stepIcon}>
                 {locationStatus === 'acquiring-gps' ? '🔄' : locationStatus === 'reverse-geocoding' ? '✅' : '⏳'}
               </Text>
-              <Text style={styles.stepLabel}>GPS</Text>
+              <Text style={styles.stepLabel}>{t('clinics.stepGps')}</Text>
             </View>
             <View style={styles.stepLine} />
             <View style={styles.step}>
               <Text style={styles.stepIcon}>{locationStatus === 'reverse-geocoding' ? '🔄' : '⏳'}</Text>
-              <Text style={styles.stepLabel}>Address</Text>
+              <Text style={styles.stepLabel}>{t('clinics.stepAddress')}</Text>
             </View>
           </View>
         </Animated.View>
@@ -616,9 +619,9 @@ export default function ClinicsScreen() {
               <ActivityIndicator size="small" color="#00ACC1" />
             </View>
             <View style={styles.statusCardText}>
-              <Text style={styles.statusCardTitle}>Searching nearby clinics…</Text>
+              <Text style={styles.statusCardTitle}>{t('clinics.searchingNearby')}</Text>
               <Text style={styles.statusCardDesc}>
-                Finding eye care facilities within {searchRadius} km
+                {t('clinics.findingWithin', { radius: searchRadius })}
               </Text>
             </View>
           </View>
@@ -632,10 +635,10 @@ export default function ClinicsScreen() {
             <Text style={styles.locationSuccessPin}>📍</Text>
             <View>
               <Text style={styles.locationSuccessName} numberOfLines={1}>
-                {locationName || 'Your location'}
+                {locationName || t('clinics.yourLocation')}
               </Text>
               <Text style={styles.locationSuccessTime}>
-                Updated {getTimeSinceLocation()} · within {searchRadius} km
+                {t('clinics.updated', { time: getTimeSinceLocation(), radius: searchRadius })}
               </Text>
             </View>
           </View>
@@ -657,30 +660,30 @@ export default function ClinicsScreen() {
             </Text>
             <View style={styles.errorTextBlock}>
               <Text style={styles.errorTitle}>
-                {locationStatus === 'denied' ? 'Location Permission Denied'
-                  : locationStatus === 'unavailable' ? 'Location Services Off'
-                  : locationStatus === 'timeout' ? 'GPS Signal Timeout'
-                  : 'Location Error'}
+                {locationStatus === 'denied' ? t('clinics.deniedTitle')
+                  : locationStatus === 'unavailable' ? t('clinics.offTitle')
+                  : locationStatus === 'timeout' ? t('clinics.timeoutTitle')
+                  : t('clinics.errorTitle')}
               </Text>
               <Text style={styles.errorDesc}>{locationError}</Text>
             </View>
           </View>
           <View style={styles.errorActions}>
             <TouchableOpacity style={styles.retryBtn} onPress={() => { setClinicsStatus('idle'); requestLocation(); }}>
-              <Text style={styles.retryBtnText}>🔄 Try Again</Text>
+              <Text style={styles.retryBtnText}>{t('clinics.tryAgain')}</Text>
             </TouchableOpacity>
             {(locationStatus === 'denied' || locationStatus === 'unavailable') && (
               <TouchableOpacity style={styles.settingsBtn} onPress={openDeviceSettings}>
-                <Text style={styles.settingsBtnText}>⚙️ Open Settings</Text>
+                <Text style={styles.settingsBtnText}>{t('clinics.openSettings')}</Text>
               </TouchableOpacity>
             )}
           </View>
-          <Text style={styles.errorHint}>Location is required to find clinics near you.</Text>
+          <Text style={styles.errorHint}>{t('clinics.locationRequired')}</Text>
           <TouchableOpacity
             style={styles.fallbackGoogleBtn}
             onPress={() => openGoogleMapsSearch(-1.2921, 36.8219, 'eye clinic hospital optician')}
           >
-            <Text style={styles.fallbackGoogleBtnText}>🗺️ Search Google Maps Instead</Text>
+            <Text style={styles.fallbackGoogleBtnText}>{t('clinics.searchGoogle')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -691,20 +694,20 @@ export default function ClinicsScreen() {
           <View style={styles.errorTop}>
             <Text style={styles.errorIcon}>🌐</Text>
             <View style={styles.errorTextBlock}>
-              <Text style={styles.errorTitle}>Network Error</Text>
+              <Text style={styles.errorTitle}>{t('clinics.networkError')}</Text>
               <Text style={styles.errorDesc}>{clinicsError}</Text>
             </View>
           </View>
           <View style={styles.errorActions}>
             <TouchableOpacity style={styles.retryBtn} onPress={() => location && loadClinics(location.lat, location.lng)}>
-              <Text style={styles.retryBtnText}>🔄 Retry</Text>
+              <Text style={styles.retryBtnText}>{t('clinics.retry')}</Text>
             </TouchableOpacity>
             {location && (
               <TouchableOpacity
                 style={styles.settingsBtn}
                 onPress={() => openGoogleMapsSearch(location.lat, location.lng, 'eye clinic hospital optician')}
               >
-                <Text style={styles.settingsBtnText}>🗺️ Google Maps</Text>
+                <Text style={styles.settingsBtnText}>{t('clinics.googleMaps')}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -724,10 +727,9 @@ export default function ClinicsScreen() {
               {clinics.length === 0 ? (
                 <>
                   <Text style={styles.emptyEmoji}>📍</Text>
-                  <Text style={styles.emptyTitle}>No clinics found nearby</Text>
+                  <Text style={styles.emptyTitle}>{t('clinics.noneFound')}</Text>
                   <Text style={styles.emptyDesc}>
-                    We couldn't find eye care facilities within {searchRadius} km.{'\n'}
-                    Try expanding the search or use Google Maps.
+                    {t('clinics.noneFoundDesc', { radius: searchRadius })}
                   </Text>
                   {location && (
                     <View style={styles.emptyActions}>
@@ -740,14 +742,14 @@ export default function ClinicsScreen() {
                             loadClinics(location.lat, location.lng, r);
                           }}
                         >
-                          <Text style={styles.emptyActionBtnText}>🔍 Search wider ({searchRadius + 30} km)</Text>
+                          <Text style={styles.emptyActionBtnText}>{t('clinics.searchWider', { radius: searchRadius + 30 })}</Text>
                         </TouchableOpacity>
                       )}
                       <TouchableOpacity
                         style={styles.emptyGoogleBtn}
                         onPress={() => openGoogleMapsSearch(location.lat, location.lng, 'eye clinic hospital optician')}
                       >
-                        <Text style={styles.emptyGoogleBtnText}>🗺️ Open Google Maps</Text>
+                        <Text style={styles.emptyGoogleBtnText}>{t('clinics.openGoogle')}</Text>
                       </TouchableOpacity>
                     </View>
                   )}
@@ -755,9 +757,9 @@ export default function ClinicsScreen() {
               ) : (
                 <>
                   <Text style={styles.emptyEmoji}>🔍</Text>
-                  <Text style={styles.emptyTitle}>No matches</Text>
+                  <Text style={styles.emptyTitle}>{t('clinics.noMatches')}</Text>
                   <Text style={styles.emptyDesc}>
-                    {searchQuery.trim() ? `No results for "${searchQuery}".` : 'Try changing the filter.'}
+                    {searchQuery.trim() ? t('clinics.noResultsFor', { query: searchQuery }) : t('clinics.changeFilter')}
                   </Text>
                 </>
               )}
@@ -769,7 +771,10 @@ export default function ClinicsScreen() {
             <View style={styles.footer}>
               <View style={styles.resultsContext}>
                 <Text style={styles.resultsContextText}>
-                  {visibleClinics.length} clinic{visibleClinics.length !== 1 ? 's' : ''} within {searchRadius} km
+                  {t(visibleClinics.length === 1 ? 'clinics.withinOne' : 'clinics.withinMany', {
+                    count: visibleClinics.length,
+                    radius: searchRadius,
+                  })}
                 </Text>
               </View>
 
@@ -779,16 +784,17 @@ export default function ClinicsScreen() {
                   onPress={() => openGoogleMapsSearch(location.lat, location.lng, 'eye clinic hospital optician')}
                 >
                   <Text style={styles.googleMapsBtnEmoji}>🗺️</Text>
-                  <Text style={styles.googleMapsBtnTitle}>Find More on Google Maps</Text>
+                  <Text style={styles.googleMapsBtnTitle}>{t('clinics.findMore')}</Text>
                   <Text style={styles.googleMapsBtnDesc}>
-                    Search for additional eye clinics, opticians & hospitals near you
+                    {t('clinics.findMoreDesc')}
                   </Text>
                 </TouchableOpacity>
               )}
 
               <View style={styles.disclaimer}>
                 <Text style={styles.disclaimerText}>
-                  ℹ️ Results sourced from OpenStreetMap. Information may be incomplete — always call ahead to confirm.
+                  {t('clinics.disclaimer')}
+
                 </Text>
               </View>
             </View>
@@ -1,17 +1,37 @@
 import { useRouter } from 'expo-router';
+import { useState } from 'react';
 import ColorVisionTest from '../components/VisionTests/ColorVisionTest';
+import PatientPrompt from '../components/VisionTests/PatientPrompt';
+import { saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type { ColorVisionResults } from '../lib/screeningSession';
 
 export default function ColorVisionScreen() {
   const router = useRouter();
+  const { t } = useI18n();
+  // Null until the patient prompt is answered
+  const [patientLabel, setPatientLabel] = useState<string | null>(null);
 
-  const handleComplete = (results: any) => {
-    console.log('Color Vision Test results:', JSON.stringify(results, null, 2));
+  const handleComplete = (results: ColorVisionResults) => {
+    saveSession({
+      source: 'color-vision',
+      patientLabel,
+      visualAcuity: null,
+      contrastSensitivity: null,
+      colorVision: results,
+      astigmatism: null,
+      amsler: null,
+    });
   };
 
   const handleExit = () => {
     router.back();
   };
 
+  if (patientLabel === null) {
+    return <PatientPrompt testTitle={t('cv.title')} onContinue={setPatientLabel} onExit={handleExit} />;
+  }
+
   return (
     <ColorVisionTest
       onComplete={handleComplete}
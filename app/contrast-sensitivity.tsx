@@ -0,0 +1,42 @@
+import { useRouter } from 'expo-router';
+import { useState } from 'react';
+import ContrastSensitivityTest from '../components/VisionTests/ContrastSensitivityTest';
+import PatientPrompt from '../components/VisionTests/PatientPrompt';
+import { saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type { ContrastSensitivityResults } from '../lib/screeningSession';
+
+export default function ContrastSensitivityScreen() {
+  const router = useRouter();
+  const { t } = useI18n();
+  // Null until the patient prompt is answered
+  const [patientLabel, setPatientLabel] = useState<string | null>(null);
+
+  const handleComplete = (results: ContrastSensitivityResults) => {
+    saveSession({
+      source: 'contrast-sensitivity',
+      patientLabel,
+      age: results.age,
+      visualAcuity: null,
+      contrastSensitivity: results,
+      colorVision: null,
+      astigmatism: null,
+      amsler: null,
+    });
+  };
+
+  const handleExit = () => {
+    router.back();
+  };
+
+  if (patientLabel === null) {
+    return <PatientPrompt testTitle={t('cs.title')} onContinue={setPatientLabel} onExit={handleExit} />;
+  }
+
+  return (
+    <ContrastSensitivityTest
+      onComplete={handleComplete}
+      onExit={handleExit}
+    />
+  );
+}
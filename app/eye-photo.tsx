@@ -2,13 +2,17 @@ import { useRouter } from 'expo-router';
 import React from 'react';
 import { StyleSheet, Text, View } from 'react-native';
 
+import { useI18n } from '../lib/i18n';
+
 export default function EyePhotoScreen() {
   const router = useRouter();
+  const { t } = useI18n();
 
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>📷 Eye Photo Capture</Text>
-      <Text style={styles.body}>This screen will allow you to capture an eye photo for AI analysis.</Text>
+      <Text style={styles.title}>{t('eyePhoto.title')}</Text>
+      <Text style={styles.body}>{t('eyePhoto.body')}</Text>
+
     </View>
   );
 }
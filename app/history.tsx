@@ -1,20 +1,524 @@
-import { useRouter } from 'expo-router';
-import React from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { formatLogCS } from '../components/VisionTests/ContrastSensitivityTest';
+import {
+  formatLogMAR,
+  formatNearLevel,
+  formatPinholeAcuity,
+  formatReadingAdd,
+} from '../components/VisionTests/VisualAcuityTest';
+import { CONTRAST_CATEGORY_LABELS } from '../lib/contrastSensitivity';
+import { deleteSession, listSessions } from '../lib/historyService';
+import { t, useI18n } from '../lib/i18n';
+import type { ScreeningSession } from '../lib/screeningSession';
 
+// ─── HELPERS ─────────────────────────────────────────────────────────
+const formatDate = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.toLocaleDateString()} • ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+const getSourceLabel = (source: ScreeningSession['source']): string => {
+  switch (source) {
+    case 'suite': return t('common.completeScreening');
+    case 'visual-acuity': return t('common.visualAcuity');
+    case 'contrast-sensitivity': return t('common.contrastSensitivity');
+    case 'color-vision': return t('common.colorVision');
+    case 'astigmatism': return t('common.astigmatism');
+    case 'amsler': return t('common.amsler');
+  }
+};
+
+const summariseVA = (session: ScreeningSession): string | null => {
+  const d = session.visualAcuity?.distanceVision;
+  if (!d) return null;
+  return t('history.vaSummary', { right: d.rightEye?.acuity ?? '—', left: d.leftEye?.acuity ?? '—' });
+};
+
+const summariseCS = (session: ScreeningSession): string | null => {
+  const cs = session.contrastSensitivity;
+  if (!cs) return null;
+  return t('history.csSummary', { result: t(CONTRAST_CATEGORY_LABELS[cs.overall]) });
+};
+
+const summariseCV = (session: ScreeningSession): string | null => {
+  const cv = session.colorVision;
+  if (!cv) return null;
+  return t('suite.cvQuick', {
+    score: cv.score,
+    type: cv.deficiencyType === 'normal' ? t('common.normal') : cv.deficiencyType,
+  });
+};
+
+const summariseAstig = (session: ScreeningSession): string | null => {
+  const a = session.astigmatism;
+  if (!a) return null;
+  return t(`astig.${a.overallSuspicion}`);
+};
+
+const summariseAmsler = (session: ScreeningSession): string | null => {
+  const a = session.amsler;
+  if (!a) return null;
+  return t('history.amslerSummary', { result: t(`amsler.${a.overall}`) });
+};
+
+// ─── COMPONENT ───────────────────────────────────────────────────────
 export default function HistoryScreen() {
   const router = useRouter();
+  const { t } = useI18n();
+  const [sessions, setSessions] = useState<ScreeningSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<ScreeningSession | null>(null);
+
+  // Reload whenever the screen regains focus (e.g. after finishing a test)
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+      listSessions().then(list => {
+        if (!active) return;
+        setSessions(list);
+        setLoading(false);
+      });
+      return () => { active = false; };
+    }, [])
+  );
+
+  const confirmDelete = (session: ScreeningSession) => {
+    Alert.alert(
+      t('history.deleteTitle'),
+      t('history.deleteBody', {
+        patient: session.patientLabel ?? t('common.unnamedPatient'),
+        date: formatDate(session.createdAt),
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await deleteSession(session.id))) {
+              Alert.alert(t('history.deleteFailedTitle'), t('history.deleteFailedBody'));
+              return;
+            }
+            setSessions(prev => prev.filter(s => s.id !== session.id));
+            setSelected(null);
+          },
+        },
+      ],
+    );
+  };
+
+  const normalisedQuery = query.trim().toLowerCase();
+  const visible = normalisedQuery
+    ? sessions.filter(s => (s.patientLabel ?? '').toLowerCase().includes(normalisedQuery))
+    : sessions;
+
+  // ===== DETAIL VIEW =====
+  if (selected) {
+    const va = selected.visualAcuity;
+    const cs = selected.contrastSensitivity;
+    const cv = selected.colorVision;
+    const astig = selected.astigmatism;
+    const amsler = selected.amsler;
+
+    return (
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          <View style={styles.headerBanner}>
+            <TouchableOpacity style={styles.backArrow} onPress={() => setSelected(null)}>
+              <Text style={styles.backArrowText}>←</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerEmoji}>📋</Text>
+            <Text style={styles.headerTitle}>{selected.patientLabel ?? t('common.unnamedPatient')}</Text>
+            <Text style={styles.headerSubtitle}>{formatDate(selected.createdAt)}</Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('results.va')}</Text>
+            {va ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.distance')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {va.distanceVision?.rightEye?.acuity ?? '—'} / {va.distanceVision?.leftEye?.acuity ?? '—'}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.logMAR')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {va.distanceVision?.rightEye ? formatLogMAR(va.distanceVision.rightEye.logMAR) : '—'}
+                    {' / '}
+                    {va.distanceVision?.leftEye ? formatLogMAR(va.distanceVision.leftEye.logMAR) : '—'}
+                  </Text>
+                </View>
+                {(va.distanceVision?.rightEye?.pinhole || va.distanceVision?.leftEye?.pinhole) && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('history.pinhole')}</Text>
+                    <Text style={styles.summaryValue}>
+                      {va.distanceVision.rightEye?.pinhole ? formatPinholeAcuity(va.distanceVision.rightEye.pinhole) : '—'}
+                      {' / '}
+                      {va.distanceVision.leftEye?.pinhole ? formatPinholeAcuity(va.distanceVision.leftEye.pinhole) : '—'}
+                    </Text>
+                  </View>
+                )}
+                {va.spectacleVision && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('history.withGlasses')}</Text>
+                    <Text style={styles.summaryValue}>
+                      {va.spectacleVision.rightEye?.acuity ?? '—'} / {va.spectacleVision.leftEye?.acuity ?? '—'}
+                    </Text>
+                  </View>
+                )}
+                {va.binocularVision && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('history.bothEyes')}</Text>
+                    <Text style={styles.summaryValue}>{va.binocularVision.acuity}</Text>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.near')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {va.nearVision?.rightEye ? formatNearLevel(va.nearVision.rightEye) : '—'}
+                    {' / '}
+                    {va.nearVision?.leftEye ? formatNearLevel(va.nearVision.leftEye) : '—'}
+                  </Text>
+                </View>
+                {va.readingAdd && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('history.readingAdd')}</Text>
+                    <Text style={styles.summaryValue}>{formatReadingAdd(va.readingAdd.add)}</Text>
+                  </View>
+                )}
+                {va.readingSpeed && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('history.readingSpeed')}</Text>
+                    <Text style={styles.summaryValue}>{t('reading.wpm', { wpm: va.readingSpeed.maxReadingSpeed })}</Text>
+                  </View>
+                )}
+                {va.diagnosis && (
+                  <Text style={styles.detailNote}>{va.diagnosis.condition}</Text>
+                )}
+              </>
+            ) : (
+              <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('results.cs')}</Text>
+            {cs ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.logCS')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {cs.rightEye ? formatLogCS(cs.rightEye.logCS) : '—'}
+                    {' / '}
+                    {cs.leftEye ? formatLogCS(cs.leftEye.logCS) : '—'}
+                  </Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.result')}</Text>
+                  <Text style={styles.summaryValue}>{t(CONTRAST_CATEGORY_LABELS[cs.overall])}</Text>
+                </View>
+                <Text style={styles.detailNote}>{cs.recommendation}</Text>
+              </>
+            ) : (
+              <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+            )}
+          </View>
 
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('results.cv')}</Text>
+            {cv ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.score')}</Text>
+                  <Text style={styles.summaryValue}>{cv.correctCount}/{cv.totalPlates} ({cv.score}%)</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.result')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {cv.deficiencyType === 'normal'
+                      ? t('common.normal')
+                      : t('history.cvResult', {
+                          type: cv.deficiencyType,
+                          severity: cv.severity === 'none' ? '—' : t(`cv.severity.${cv.severity}`),
+                        })}
+                  </Text>
+                </View>
+              </>
+            ) : (
+              <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('results.astig')}</Text>
+            {astig ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.rightEye')}</Text>
+                  <Text style={styles.summaryValue}>{astig.rightEye ? t(`astig.${astig.rightEye.severity}`) : '—'}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.leftEye')}</Text>
+                  <Text style={styles.summaryValue}>{astig.leftEye ? t(`astig.${astig.leftEye.severity}`) : '—'}</Text>
+                </View>
+                <Text style={styles.detailNote}>{astig.recommendation}</Text>
+              </>
+            ) : (
+              <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('results.amsler')}</Text>
+            {amsler ? (
+              <>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.rightEye')}</Text>
+                  <Text style={styles.summaryValue}>{amsler.rightEye ? t(`amsler.${amsler.rightEye.severity}`) : '—'}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.leftEye')}</Text>
+                  <Text style={styles.summaryValue}>{amsler.leftEye ? t(`amsler.${amsler.leftEye.severity}`) : '—'}</Text>
+                </View>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('history.amslerMarked')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {amsler.rightEye?.marks.length ?? '—'} / {amsler.leftEye?.marks.length ?? '—'}
+                  </Text>
+                </View>
+                <Text style={styles.detailNote}>{amsler.recommendation}</Text>
+              </>
+            ) : (
+              <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('history.device')}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('history.platform')}</Text>
+              <Text style={styles.summaryValue}>{selected.device.platform} {selected.device.osVersion}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('history.screen')}</Text>
+              <Text style={styles.summaryValue}>
+                {selected.device.screenWidth}×{selected.device.screenHeight} dp @{selected.device.pixelRatio}x
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('history.appVersion')}</Text>
+              <Text style={styles.summaryValue}>{selected.device.appVersion}</Text>
+            </View>
+          </View>
+        </ScrollView>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity
+            style={styles.primaryBtn}
+            onPress={() => router.push({ pathname: '/results', params: { id: selected.id } })}
+          >
+            <Text style={styles.primaryBtnText}>{t('common.viewFullResults')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.deleteBtn} onPress={() => confirmDelete(selected)}>
+            <Text style={styles.deleteBtnText}>{t('history.deleteRecord')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== LIST VIEW =====
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>📋 Test History</Text>
-      <Text style={styles.body}>Your past vision screening results will appear here.</Text>
+    <View style={styles.screenFlex}>
+      <View style={styles.headerBanner}>
+        <TouchableOpacity style={styles.backArrow} onPress={() => router.back()}>
+          <Text style={styles.backArrowText}>←</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerEmoji}>📊</Text>
+        <Text style={styles.headerTitle}>{t('history.title')}</Text>
+        <Text style={styles.headerSubtitle}>
+          {t(sessions.length === 1 ? 'history.countOne' : 'history.countMany', { count: sessions.length })}
+        </Text>
+      </View>
+
+      <View style={styles.searchBox}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('history.search')}
+          placeholderTextColor="#9E9E9E"
+          autoCorrect={false}
+        />
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#00ACC1" />
+        </View>
+      ) : visible.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={styles.emptyEmoji}>📋</Text>
+          <Text style={styles.emptyText}>
+            {t(sessions.length === 0 ? 'history.empty' : 'history.noMatch')}
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          {visible.map(session => {
+            const lines = [
+              summariseVA(session),
+              summariseCS(session),
+              summariseCV(session),
+              summariseAstig(session),
+              summariseAmsler(session),
+            ].filter(Boolean);
+            return (
+              <TouchableOpacity
+                key={session.id}
+                style={styles.sessionCard}
+                onPress={() => setSelected(session)}
+                onLongPress={() => confirmDelete(session)}
+                activeOpacity={0.8}
+              >
+                <View style={styles.sessionHeader}>
+                  <Text style={styles.sessionPatient}>{session.patientLabel ?? t('common.unnamedPatient')}</Text>
+
+                  <Text style={styles.sessionSource}>{getSourceLabel(session.source)}</Text>
+                </View>
+                <Text style={styles.sessionDate}>{formatDate(session.createdAt)}</Text>
+                {lines.map(line => (
+                  <Text key={line} style={styles.sessionLine}>• {line}</Text>
+                ))}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
     </View>
   );
 }
 
+// ─── STYLES ──────────────────────────────────────────────────────────
 const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: '#F5F5F5', alignItems: 'center', justifyContent: 'center', padding: 24 },
-  title: { fontSize: 22, fontWeight: '700', color: '#212121', marginBottom: 12 },
-  body: { fontSize: 15, color: '#616161', textAlign: 'center', lineHeight: 22 },
+  screen: { flex: 1, backgroundColor: '#F5F5F5' },
+  screenFlex: { flex: 1, backgroundColor: '#F5F5F5' },
+  screenContent: { paddingBottom: 20 },
+  centered: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+
+  headerBanner: {
+    backgroundColor: '#00ACC1',
+    paddingTop: 50,
+    paddingBottom: 25,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  backArrow: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 10,
+  },
+  backArrowText: { fontSize: 20, color: '#FFFFFF', fontWeight: 'bold' },
+  headerEmoji: { fontSize: 44, marginBottom: 8 },
+  headerTitle: { fontSize: 24, fontWeight: 'bold', color: '#FFFFFF', textAlign: 'center' },
+  headerSubtitle: { fontSize: 14, color: 'rgba(255,255,255,0.85)', marginTop: 4, textAlign: 'center' },
+
+  searchBox: { paddingHorizontal: 16, paddingTop: 16 },
+  searchInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#212121',
+  },
+
+  emptyEmoji: { fontSize: 44, marginBottom: 12 },
+  emptyText: { fontSize: 15, color: '#616161', textAlign: 'center', lineHeight: 22 },
+
+  sessionCard: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 14,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  sessionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sessionPatient: { fontSize: 16, fontWeight: '700', color: '#212121', flex: 1, marginRight: 8 },
+  sessionSource: { fontSize: 11, fontWeight: '700', color: '#00838F' },
+  sessionDate: { fontSize: 12, color: '#9E9E9E', marginTop: 2, marginBottom: 6 },
+  sessionLine: { fontSize: 13, color: '#616161', lineHeight: 19 },
+
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 14,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: { fontSize: 18, fontWeight: '700', color: '#212121', marginBottom: 12 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 },
+  summaryLabel: { fontSize: 14, color: '#616161' },
+  summaryValue: { fontSize: 14, fontWeight: '600', color: '#212121', flexShrink: 1, textAlign: 'right' },
+  detailNote: { fontSize: 13, color: '#424242', lineHeight: 19, marginTop: 8 },
+  mutedText: { fontSize: 14, color: '#9E9E9E' },
+
+  bottomBtnContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 36,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  primaryBtn: {
+    backgroundColor: '#00ACC1',
+    width: '80%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryBtnText: { fontSize: 17, fontWeight: 'bold', color: '#FFFFFF' },
+  deleteBtn: {
+    width: '80%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#C62828',
+  },
+  deleteBtnText: { fontSize: 17, fontWeight: 'bold', color: '#C62828' },
 });
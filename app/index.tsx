@@ -10,8 +10,18 @@ import {
   View
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { LANGUAGES, useI18n, type TranslationKey } from '../lib/i18n';
+import { setVoiceSettings, useVoiceSettings, VOICE_RATES, type VoiceSettings } from '../lib/voiceService';
+
+const VOICE_OPTIONS: { label: TranslationKey; settings: VoiceSettings }[] = [
+  { label: 'home.voiceOff', settings: { enabled: false, rate: VOICE_RATES.normal } },
+  { label: 'home.voiceOn', settings: { enabled: true, rate: VOICE_RATES.normal } },
+  { label: 'home.voiceSlow', settings: { enabled: true, rate: VOICE_RATES.slow } },
+];
 
 export default function Index() {
+  const { t, language, setLanguage } = useI18n();
+  const voice = useVoiceSettings();
   const [showStickyHeader, setShowStickyHeader] = useState(false);
 
   const handleScroll = (event: any) => {
@@ -28,6 +38,10 @@ export default function Index() {
     router.push('/visual-acuity');
   };
 
+  const handleContrastSensitivity = () => {
+    router.push('/contrast-sensitivity');
+  };
+
   const handleColorVision = () => {
     router.push('/color-vision');
   };
@@ -36,6 +50,10 @@ export default function Index() {
     router.push('/astigmatism');
   };
 
+  const handleAmsler = () => {
+    router.push('/amsler');
+  };
+
   const handleEyePhotoOnly = () => {
     router.push('/eye-photo');
   };
@@ -48,6 +66,10 @@ export default function Index() {
     router.push('/clinics');
   };
 
+  const handleRemoteController = () => {
+    router.push('/remote-controller');
+  };
+
   const handleLearnMore = () => {
     router.push('/about');
   };
@@ -83,69 +105,128 @@ export default function Index() {
           />
           <Text style={styles.title}>VisionCheck Kenya</Text>
           <Text style={styles.subtitle}>
-            Bringing eye screening to every smartphone
+            {t('home.subtitle')}
           </Text>
         </View>
 
+        {/* Language picker */}
+        <View style={styles.languageRow}>
+          <Text style={styles.languageLabel}>🌐 {t('home.language')}</Text>
+          <View style={styles.languageOptions}>
+            {LANGUAGES.map(option => (
+              <TouchableOpacity
+                key={option.code}
+                style={[styles.languageBtn, language === option.code && styles.languageBtnActive]}
+                onPress={() => setLanguage(option.code)}
+              >
+                <Text style={[styles.languageBtnText, language === option.code && styles.languageBtnTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Spoken guidance during tests */}
+        <View style={styles.languageRow}>
+          <Text style={styles.languageLabel}>🔊 {t('home.voice')}</Text>
+          <View style={styles.languageOptions}>
+            {VOICE_OPTIONS.map(option => {
+              const active = option.settings.enabled
+                ? voice.enabled && voice.rate === option.settings.rate
+                : !voice.enabled;
+              return (
+                <TouchableOpacity
+                  key={option.label}
+                  style={[styles.languageBtn, active && styles.languageBtnActive]}
+                  onPress={() => setVoiceSettings(option.settings)}
+                >
+                  <Text style={[styles.languageBtnText, active && styles.languageBtnTextActive]}>
+                    {t(option.label)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         {/* Main Action Card */}
         <View style={styles.mainCard}>
-          <Text style={styles.cardTitle}>Quick Vision Screening</Text>
+          <Text style={styles.cardTitle}>{t('home.quickTitle')}</Text>
           <Text style={styles.cardDescription}>
-            Complete a comprehensive eye screening in just 5 minutes
+            {t('home.quickDesc')}
           </Text>
           <TouchableOpacity style={styles.primaryButton} onPress={handleStartTest}>
-            <Text style={styles.primaryButtonText}>Start Test Now</Text>
+            <Text style={styles.primaryButtonText}>{t('home.startTest')}</Text>
           </TouchableOpacity>
         </View>
 
         {/* Features Grid */}
         <View style={styles.featuresContainer}>
-          <Text style={styles.sectionTitle}>What We Test</Text>
+          <Text style={styles.sectionTitle}>{t('home.whatWeTest')}</Text>
           
           <View style={styles.featuresGrid}>
             <TouchableOpacity style={styles.featureCard} onPress={handleVisualAcuity}>
               <Text style={styles.featureIcon}>👓</Text>
-              <Text style={styles.featureTitle}>Visual Acuity</Text>
+              <Text style={styles.featureTitle}>{t('common.visualAcuity')}</Text>
               <Text style={styles.featureDescription}>
-                Test clarity of vision for both eyes
+                {t('home.vaDesc')}
               </Text>
-              <Text style={styles.featureTap}>Tap to test →</Text>
+              <Text style={styles.featureTap}>{t('home.tapToTest')}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.featureCard} onPress={handleContrastSensitivity}>
+              <Text style={styles.featureIcon}>◐</Text>
+              <Text style={styles.featureTitle}>{t('common.contrastSensitivity')}</Text>
+              <Text style={styles.featureDescription}>
+                {t('home.csDesc')}
+              </Text>
+              <Text style={styles.featureTap}>{t('home.tapToTest')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.featureCard} onPress={handleColorVision}>
               <Text style={styles.featureIcon}>🎨</Text>
-              <Text style={styles.featureTitle}>Color Vision</Text>
+              <Text style={styles.featureTitle}>{t('common.colorVision')}</Text>
               <Text style={styles.featureDescription}>
-                Screen for color blindness
+                {t('home.cvDesc')}
               </Text>
-              <Text style={styles.featureTap}>Tap to test →</Text>
+              <Text style={styles.featureTap}>{t('home.tapToTest')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.featureCard} onPress={handleAstigmatism}>
               <Text style={styles.featureIcon}>◎</Text>
-              <Text style={styles.featureTitle}>Astigmatism</Text>
+              <Text style={styles.featureTitle}>{t('common.astigmatism')}</Text>
+              <Text style={styles.featureDescription}>
+                {t('home.astigDesc')}
+              </Text>
+              <Text style={styles.featureTap}>{t('home.tapToTest')}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.featureCard} onPress={handleAmsler}>
+              <Text style={styles.featureIcon}>▦</Text>
+              <Text style={styles.featureTitle}>{t('common.amsler')}</Text>
               <Text style={styles.featureDescription}>
-                Detect corneal irregularities
+                {t('home.amslerDesc')}
               </Text>
-              <Text style={styles.featureTap}>Tap to test →</Text>
+              <Text style={styles.featureTap}>{t('home.tapToTest')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.featureCard} onPress={handleEyePhotoOnly}>
               <Text style={styles.featureIcon}>🔍</Text>
-              <Text style={styles.featureTitle}>Eye Photos</Text>
+              <Text style={styles.featureTitle}>{t('home.photosTitle')}</Text>
               <Text style={styles.featureDescription}>
-                AI analysis of eye health
+                {t('home.photosDesc')}
               </Text>
-              <Text style={styles.featureTap}>Tap to try →</Text>
+              <Text style={styles.featureTap}>{t('home.tapToTry')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.featureCard} onPress={handleFindClinics}>
               <Text style={styles.featureIcon}>🏥</Text>
-              <Text style={styles.featureTitle}>Find Clinics</Text>
+              <Text style={styles.featureTitle}>{t('home.clinicsTitle')}</Text>
               <Text style={styles.featureDescription}>
-                Locate nearby eye care
+                {t('home.clinicsDesc')}
               </Text>
-              <Text style={styles.featureTap}>Tap to search →</Text>
+              <Text style={styles.featureTap}>{t('home.tapToSearch')}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -156,29 +237,35 @@ export default function Index() {
             style={styles.secondaryButton}
             onPress={handleViewHistory}
           >
-            <Text style={styles.secondaryButtonText}>📊 View Test History</Text>
+            <Text style={styles.secondaryButtonText}>{t('home.history')}</Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={styles.secondaryButton}
             onPress={handleFindClinics}
           >
-            <Text style={styles.secondaryButtonText}>🗺️ Find Eye Clinics</Text>
+            <Text style={styles.secondaryButtonText}>{t('home.clinics')}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.secondaryButton}
+            onPress={handleRemoteController}
+          >
+            <Text style={styles.secondaryButtonText}>{t('home.remote')}</Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={styles.secondaryButton}
             onPress={handleLearnMore}
           >
-            <Text style={styles.secondaryButtonText}>ℹ️ About VisionCheck</Text>
+            <Text style={styles.secondaryButtonText}>{t('home.about')}</Text>
           </TouchableOpacity>
         </View>
 
         {/* Info Banner */}
         <View style={styles.infoBanner}>
           <Text style={styles.infoBannerText}>
-            💡 Over 4 million Kenyans have undiagnosed vision problems. 
-            Early screening can make a huge difference!
+            {t('home.banner')}
           </Text>
         </View>
       </ScrollView>
@@ -266,7 +353,43 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 3,
   },
+  languageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  languageLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333333',
+  },
+  languageOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  languageBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    backgroundColor: '#FFFFFF',
+  },
+  languageBtnActive: {
+    backgroundColor: '#00ACC1',
+  },
+  languageBtnText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00ACC1',
+  },
+  languageBtnTextActive: {
+    color: '#FFFFFF',
+  },
   mainCard: {
+
     backgroundColor: '#FFFFFF',
     margin: 20,
     padding: 20,
@@ -0,0 +1,12 @@
+import { useRouter } from 'expo-router';
+import RemoteController from '../components/VisionTests/RemoteController';
+
+export default function RemoteControllerScreen() {
+  const router = useRouter();
+
+  const handleExit = () => {
+    router.back();
+  };
+
+  return <RemoteController onExit={handleExit} />;
+}
@@ -1,21 +1,664 @@
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { getAmslerOverall, getAmslerRecommendation } from '../components/VisionTests/AmslerGridTest';
+import { getOverallSuspicion, getRecommendation } from '../components/VisionTests/AstigmatismTest';
+import { diagnose, getDeficiencyLabel } from '../components/VisionTests/ColorVisionTest';
+import { formatLogCS, getContrastRecommendation } from '../components/VisionTests/ContrastSensitivityTest';
+import {
+  formatLogMAR,
+  formatLogMARInterval,
+  formatNearLevel,
+  formatPinhole,
+  formatReadingAdd,
+  getAcuityRating,
+  getChartName,
+  getNearRating,
+  getSpectacleAssessment,
+  getWhoCategory,
+  interpretResults,
+  type SpectacleAssessment,
+} from '../components/VisionTests/VisualAcuityTest';
+import { CONTRAST_CATEGORY_LABELS } from '../lib/contrastSensitivity';
+import { getSession } from '../lib/historyService';
+import { t, useI18n, type TranslationKey } from '../lib/i18n';
+import { READY_MADE_LABELS } from '../lib/presbyopia';
+import { formatPrintSize, needsLowVisionReferral, READING_SPEED_CATEGORY_LABELS } from '../lib/readingSpeed';
+import type {
+  AcuityDiagnosis,
+  AmslerSeverity,
+  AstigmatismSeverity,
+  ContrastCategory,
+  DeficiencyType,
+  ReadingSpeedResults,
+  ReliabilityGrade,
+  ScreeningSession,
+} from '../lib/screeningSession';
+import { RELIABILITY_GRADE_LABELS, RELIABILITY_ISSUE_LABELS } from '../lib/sessionQuality';
 
+// ─── REFERRAL URGENCY ────────────────────────────────────────────────
+//
+// Each test produces its own recommendation; the results page combines
+// them into one referral level so a health worker can act on it at a
+// glance.  The most urgent finding across all tests wins.
+//
+//   urgent  — see an eye care professional as soon as possible
+//   soon    — book an examination within about a month
+//   routine — non-urgent check, or retest in 3–6 months
+//   none    — no referral needed, routine checkups every 1–2 years
+
+type UrgencyLevel = 'none' | 'routine' | 'soon' | 'urgent';
+
+const URGENCY_ORDER: UrgencyLevel[] = ['none', 'routine', 'soon', 'urgent'];
+
+const URGENCY_INFO: Record<UrgencyLevel, { label: TranslationKey; emoji: string; color: string; bg: string }> = {
+  none:    { label: 'results.noReferral', emoji: '✅', color: '#2E7D32', bg: '#E8F5E9' },
+  routine: { label: 'results.routine',    emoji: '🗓️', color: '#F9A825', bg: '#FFFDE7' },
+  soon:    { label: 'results.soon',       emoji: '⚠️', color: '#E65100', bg: '#FFF3E0' },
+  urgent:  { label: 'results.urgent',     emoji: '🚨', color: '#C62828', bg: '#FFEBEE' },
+};
+
+interface Finding {
+  urgency: UrgencyLevel;
+  reason: string;
+}
+
+const getAcuityFinding = (diagnosis: AcuityDiagnosis): Finding => {
+  if (diagnosis.urgency === 'urgent') return { urgency: 'urgent', reason: diagnosis.condition };
+  if (diagnosis.urgency === 'within_1_month') return { urgency: 'soon', reason: diagnosis.condition };
+  if (diagnosis.code === 'normal') return { urgency: 'none', reason: diagnosis.condition };
+  return { urgency: 'routine', reason: diagnosis.condition };
+};
+
+// Glasses that leave an eye below 6/12 need re-checking, not an urgent visit
+const getSpectacleFinding = (assessment: SpectacleAssessment): Finding => ({
+  urgency: assessment.adequate ? 'none' : 'routine',
+  reason: assessment.label,
+});
+
+// Slow reading is a functional loss a low-vision service can help with, not an emergency
+const getReadingSpeedFinding = (readingSpeed: ReadingSpeedResults): Finding =>
+  needsLowVisionReferral(readingSpeed)
+    ? { urgency: 'routine', reason: t('results.readingSlow') }
+    : { urgency: 'none', reason: t('results.readingFluent') };
+
+// Reduced contrast often comes before any loss of acuity in cataract and glaucoma
+const getContrastFinding = (overall: ContrastCategory): Finding => {
+  switch (overall) {
+    case 'severe': return { urgency: 'soon', reason: t('results.csSevere') };
+    case 'reduced': return { urgency: 'routine', reason: t('results.csReduced') };
+    default: return { urgency: 'none', reason: t('results.csNormal') };
+  }
+};
+
+const getColorFinding = (deficiencyType: DeficiencyType): Finding => {
+  if (deficiencyType === 'normal') return { urgency: 'none', reason: t('results.cvNormal') };
+  // Blue-yellow defects are rarely inherited and can signal eye disease
+  if (deficiencyType === 'tritan') return { urgency: 'soon', reason: t('results.cvBlueYellow') };
+  return { urgency: 'routine', reason: t('results.cvRedGreen') };
+};
+
+const getAstigmatismFinding = (overall: AstigmatismSeverity): Finding => {
+  switch (overall) {
+    case 'significant': return { urgency: 'soon', reason: t('results.astigSignificant') };
+    case 'moderate': return { urgency: 'routine', reason: t('results.astigModerate') };
+    case 'mild': return { urgency: 'routine', reason: t('results.astigMild') };
+    default: return { urgency: 'none', reason: t('results.astigNone') };
+  }
+};
+
+// New central distortion can be wet macular degeneration, treatable only if seen quickly
+const getAmslerFinding = (overall: AmslerSeverity): Finding => {
+  switch (overall) {
+    case 'significant': return { urgency: 'urgent', reason: t('results.amslerSignificant') };
+    case 'mild': return { urgency: 'soon', reason: t('results.amslerMild') };
+    default: return { urgency: 'none', reason: t('results.amslerNone') };
+  }
+};
+
+const combineFindings = (findings: Finding[]): UrgencyLevel =>
+  findings.reduce<UrgencyLevel>(
+    (worst, f) => (URGENCY_ORDER.indexOf(f.urgency) > URGENCY_ORDER.indexOf(worst) ? f.urgency : worst),
+    'none',
+  );
+
+const RELIABILITY_COLORS: Record<ReliabilityGrade, string> = {
+  good: '#2E7D32',
+  fair: '#F9A825',
+  poor: '#C62828',
+};
+
+const getSeverityColor = (severity: string): string => {
+  switch (severity) {
+    case 'none':
+    case 'normal': return '#2E7D32';
+    case 'mild':
+    case 'reduced': return '#F9A825';
+    case 'moderate': return '#E65100';
+    case 'strong':
+    case 'significant':
+    case 'severe': return '#C62828';
+    default: return '#757575';
+  }
+};
+
+const formatDate = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.toLocaleDateString()} • ${d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// ─── COMPONENT ───────────────────────────────────────────────────────
 export default function ResultsScreen() {
   const router = useRouter();
-  const params = useLocalSearchParams();
+  const { t } = useI18n();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const sessionId = typeof params.id === 'string' ? params.id : null;
+
+  const [session, setSession] = useState<ScreeningSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    if (!sessionId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    getSession(sessionId).then(found => {
+      if (!active) return;
+      setSession(found);
+      setLoading(false);
+    });
+    return () => { active = false; };
+  }, [sessionId]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) router.back();
+    else router.replace('/');
+  };
+
+  // ===== LOADING =====
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#00ACC1" />
+      </View>
+    );
+  }
+
+  // ===== NOT FOUND =====
+  if (!session) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.emptyEmoji}>🩺</Text>
+        <Text style={styles.emptyTitle}>{t('results.notFound')}</Text>
+        <Text style={styles.emptyText}>
+          {t(sessionId ? 'results.deleted' : 'results.noneSelected')}
+        </Text>
+        <TouchableOpacity style={[styles.primaryBtn, { marginTop: 24 }]} onPress={() => router.replace('/history')}>
+          <Text style={styles.primaryBtnText}>{t('results.goHistory')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  // ─── Interpret each test ──────────────────────
+  const va = session.visualAcuity;
+  const cs = session.contrastSensitivity;
+  const cv = session.colorVision;
+  const astig = session.astigmatism;
+  const amsler = session.amsler;
+
+  const vaDiagnosis = va ? interpretResults(va.distanceVision, va.nearVision, va.optotype, va.age) : null;
+  const vaWho = va ? getWhoCategory(va.distanceVision, va.spectacleVision) : null;
+  const vaSpectacles = va ? getSpectacleAssessment(va.distanceVision, va.spectacleVision) : null;
+  const cvDiagnosis = cv ? diagnose(cv.plateResults) : null;
+  const astigOverall = astig ? getOverallSuspicion(astig.rightEye, astig.leftEye) : null;
+  const astigRecommendation = astig && astigOverall ? getRecommendation(astigOverall, astig.rightEye, astig.leftEye) : null;
+  const amslerOverall = amsler ? getAmslerOverall(amsler.rightEye, amsler.leftEye) : null;
+
+  const findings: Finding[] = [];
+  if (vaDiagnosis) findings.push(getAcuityFinding(vaDiagnosis));
+  if (vaSpectacles) findings.push(getSpectacleFinding(vaSpectacles));
+  if (va?.readingSpeed) findings.push(getReadingSpeedFinding(va.readingSpeed));
+  if (cs) findings.push(getContrastFinding(cs.overall));
+  if (cvDiagnosis) findings.push(getColorFinding(cvDiagnosis.deficiencyType));
+  if (astigOverall) findings.push(getAstigmatismFinding(astigOverall));
+  if (amslerOverall) findings.push(getAmslerFinding(amslerOverall));
+
+  const urgency = combineFindings(findings);
+  const urgencyInfo = URGENCY_INFO[urgency];
+  const concerns = findings.filter(f => f.urgency !== 'none');
 
   return (
-    <View style={styles.container}>
-      <Text style={styles.title}>🩺 Results</Text>
-      <Text style={styles.body}>Your vision screening results will be displayed here.</Text>
+    <View style={styles.screenFlex}>
+      <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+        <View style={[styles.headerBanner, { backgroundColor: urgencyInfo.color }]}>
+          <TouchableOpacity style={styles.backArrow} onPress={handleBack}>
+            <Text style={styles.backArrowText}>←</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerEmoji}>{urgencyInfo.emoji}</Text>
+          <Text style={styles.headerTitle}>{session.patientLabel ?? t('results.title')}</Text>
+          <Text style={styles.headerSubtitle}>{formatDate(session.createdAt)}</Text>
+        </View>
+
+        {/* Overall referral */}
+        <View style={[styles.card, styles.urgencyCard, { borderLeftColor: urgencyInfo.color, backgroundColor: urgencyInfo.bg }]}>
+          <Text style={styles.sectionLabel}>{t('results.urgency')}</Text>
+          <Text style={[styles.urgencyLabel, { color: urgencyInfo.color }]}>{t(urgencyInfo.label)}</Text>
+          {concerns.length > 0 ? (
+            concerns.map(c => (
+              <Text key={c.reason} style={styles.bodyText}>• {c.reason}</Text>
+            ))
+          ) : (
+            <Text style={styles.bodyText}>
+              {t('results.allNormal')}
+            </Text>
+          )}
+        </View>
+
+        {/* Session reliability — whether a poor score reflects the eye or the session */}
+        {session.reliability && (
+          <View style={[styles.card, styles.urgencyCard, { borderLeftColor: RELIABILITY_COLORS[session.reliability.grade] }]}>
+            <Text style={styles.sectionLabel}>{t('results.reliability')}</Text>
+            <Text style={[styles.reliabilityLabel, { color: RELIABILITY_COLORS[session.reliability.grade] }]}>
+              {t(RELIABILITY_GRADE_LABELS[session.reliability.grade])}
+            </Text>
+            {session.reliability.issues.length > 0 ? (
+              session.reliability.issues.map(issue => (
+                <Text key={issue} style={styles.bodyText}>• {t(RELIABILITY_ISSUE_LABELS[issue])}</Text>
+              ))
+            ) : (
+              <Text style={styles.bodyText}>{t('results.reliabilityNoIssues')}</Text>
+            )}
+          </View>
+        )}
+
+        {/* Visual acuity */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('results.va')}</Text>
+          {va && vaDiagnosis ? (
+            <>
+              <Text style={styles.subTitle}>
+                {t('results.distance', { chart: getChartName(va.optotype) })}
+              </Text>
+              {(['rightEye', 'leftEye'] as const).map(eye => {
+                const result = va.distanceVision?.[eye];
+                const rating = result ? getAcuityRating(result.acuity) : null;
+                return (
+                  <React.Fragment key={`d-${eye}`}>
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                      <Text style={[styles.summaryValue, rating && { color: rating.color }]}>
+                        {result
+                          ? `${result.acuity} — ${rating?.label} · ${
+                              result.interval
+                                ? t('common.logMARInterval', {
+                                    value: formatLogMAR(result.logMAR),
+                                    interval: formatLogMARInterval(result.interval),
+                                  })
+                                : t('common.logMAR', { value: formatLogMAR(result.logMAR) })
+                            }`
+                          : '—'}
+                      </Text>
+                    </View>
+                    {result?.pinhole && (
+                      <View style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>{t('results.pinhole')}</Text>
+                        <Text style={styles.summaryValue}>{formatPinhole(result.pinhole)}</Text>
+                      </View>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+
+              {vaWho && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.who')}</Text>
+                  <Text style={[styles.summaryValue, { color: vaWho.color }]}>
+                    {vaWho.category} — {vaWho.label}
+                  </Text>
+                </View>
+              )}
+
+              {vaSpectacles && va.spectacleVision && (
+                <>
+                  <Text style={styles.subTitle}>{t('results.withGlasses')}</Text>
+                  {(['rightEye', 'leftEye'] as const).map(eye => (
+                    <View key={`s-${eye}`} style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                      <Text style={styles.summaryValue}>{va.spectacleVision?.[eye]?.acuity ?? '—'}</Text>
+                    </View>
+                  ))}
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('results.glassesVerdict')}</Text>
+                    <Text style={[styles.summaryValue, { color: vaSpectacles.color }]}>{vaSpectacles.label}</Text>
+                  </View>
+                  <Text style={styles.bodyText}>{vaSpectacles.detail}</Text>
+                </>
+              )}
+
+              {va.binocularVision && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>
+                    {t(va.binocularVision.withSpectacles ? 'results.binocularGlasses' : 'results.binocular')}
+                  </Text>
+                  <Text style={styles.summaryValue}>{va.binocularVision.acuity}</Text>
+                </View>
+              )}
+
+              {va.optotype !== 'lea' && (
+                <>
+                  <Text style={styles.subTitle}>{t('results.near')}</Text>
+                  {(['rightEye', 'leftEye'] as const).map(eye => {
+                    const result = va.nearVision?.[eye];
+                    const rating = result ? getNearRating(result) : null;
+                    return (
+                      <View key={`n-${eye}`} style={styles.summaryRow}>
+                        <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                        <Text style={[styles.summaryValue, rating && { color: rating.color }]}>
+                          {result ? `${formatNearLevel(result)} (${result.equivalent}) — ${rating?.label}` : '—'}
+                        </Text>
+                      </View>
+                    );
+                  })}
+                </>
+              )}
+
+              {va.readingAdd && (
+                <>
+                  <Text style={styles.subTitle}>{t('results.readingGlasses')}</Text>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('results.readingAdd')}</Text>
+                    <Text style={styles.summaryValue}>{formatReadingAdd(va.readingAdd.add)}</Text>
+                  </View>
+                  <Text style={styles.bodyText}>
+                    {t(READY_MADE_LABELS[va.readingAdd.readyMade], { add: formatReadingAdd(va.readingAdd.add) })}
+                  </Text>
+                </>
+              )}
+
+              {va.readingSpeed && (
+                <>
+                  <Text style={styles.subTitle}>{t('results.readingSpeed')}</Text>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('results.maxReadingSpeed')}</Text>
+                    <Text style={styles.summaryValue}>{t('reading.wpm', { wpm: va.readingSpeed.maxReadingSpeed })}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('results.criticalPrint')}</Text>
+                    <Text style={styles.summaryValue}>
+                      {va.readingSpeed.criticalPrintSize !== null ? formatPrintSize(va.readingSpeed.criticalPrintSize) : '—'}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('results.readingAcuity')}</Text>
+                    <Text style={styles.summaryValue}>
+                      {va.readingSpeed.readingAcuity !== null
+                        ? t('reading.logMAR', { value: va.readingSpeed.readingAcuity.toFixed(2) })
+                        : '—'}
+                    </Text>
+                  </View>
+                  <Text style={styles.bodyText}>{t(READING_SPEED_CATEGORY_LABELS[va.readingSpeed.category])}</Text>
+                </>
+              )}
+
+              <View style={styles.divider} />
+              <Text style={[styles.findingTitle, { color: vaDiagnosis.color }]}>{vaDiagnosis.condition}</Text>
+              <Text style={styles.bodyText}>{vaDiagnosis.description}</Text>
+              <Text style={styles.recommendText}>{vaDiagnosis.recommendation}</Text>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+          )}
+        </View>
+
+        {/* Contrast sensitivity */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('results.cs')}</Text>
+          {cs ? (
+            <>
+              {(['rightEye', 'leftEye'] as const).map(eye => {
+                const result = cs[eye];
+                return (
+                  <View key={`c-${eye}`} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                    <Text style={[styles.summaryValue, result && { color: getSeverityColor(result.category) }]}>
+                      {result
+                        ? `${result.atCeiling ? '≥ ' : ''}${formatLogCS(result.logCS)} — ${t(CONTRAST_CATEGORY_LABELS[result.category])}`
+                        : '—'}
+                    </Text>
+                  </View>
+                );
+              })}
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('results.csNorm')}</Text>
+                <Text style={styles.summaryValue}>
+                  {cs.age === null ? formatLogCS(cs.normalLimit) : t('results.csNormAge', { limit: formatLogCS(cs.normalLimit), age: cs.age })}
+                </Text>
+              </View>
+              <View style={styles.divider} />
+              <Text style={styles.bodyText}>{getContrastRecommendation(cs.overall)}</Text>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+          )}
+        </View>
+
+        {/* Color vision */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('results.cv')}</Text>
+          {cv && cvDiagnosis ? (
+            <>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('results.platesCorrect')}</Text>
+                <Text style={styles.summaryValue}>{cv.correctCount}/{cv.totalPlates} ({cv.score}%)</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('common.result')}</Text>
+                <Text style={[styles.summaryValue, { color: getSeverityColor(cvDiagnosis.severity) }]}>
+                  {getDeficiencyLabel(cvDiagnosis.deficiencyType)}
+                </Text>
+              </View>
+              {cvDiagnosis.severity !== 'none' && (
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('common.severity')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {t(`cv.severity.${cvDiagnosis.severity as Exclude<typeof cvDiagnosis.severity, 'none'>}`)}
+                  </Text>
+                </View>
+              )}
+              <Text style={styles.footNote}>{t('results.bothEyes')}</Text>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+          )}
+        </View>
+
+        {/* Astigmatism */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('results.astig')}</Text>
+          {astig && astigOverall ? (
+            <>
+              {(['rightEye', 'leftEye'] as const).map(eye => {
+                const result = astig[eye];
+                return (
+                  <View key={`a-${eye}`} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                    <Text style={[styles.summaryValue, result && { color: getSeverityColor(result.severity) }]}>
+                      {result
+                        ? `${t(`astig.${result.severity}`)}${result.suspectedAxis !== null ? t('results.axis', { axis: result.suspectedAxis }) : ''}${result.consistent ? '' : t('results.inconsistent')}`
+                        : '—'}
+                    </Text>
+                  </View>
+                );
+              })}
+              <View style={styles.divider} />
+              <Text style={styles.bodyText}>{astigRecommendation}</Text>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+          )}
+        </View>
+
+        {/* Amsler grid */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('results.amsler')}</Text>
+          {amsler && amslerOverall ? (
+            <>
+              {(['rightEye', 'leftEye'] as const).map(eye => {
+                const result = amsler[eye];
+                return (
+                  <View key={`m-${eye}`} style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t(eye === 'rightEye' ? 'common.rightEye' : 'common.leftEye')}</Text>
+                    <Text style={[styles.summaryValue, result && { color: getSeverityColor(result.severity) }]}>
+                      {result
+                        ? `${t(`amsler.${result.severity}`)}${result.centralInvolvement ? t('results.amslerCentral') : ''}`
+                        : '—'}
+                    </Text>
+                  </View>
+                );
+              })}
+              <View style={styles.divider} />
+              <Text style={styles.bodyText}>{getAmslerRecommendation(amslerOverall)}</Text>
+            </>
+          ) : (
+            <Text style={styles.mutedText}>{t('common.notTested')}</Text>
+          )}
+        </View>
+
+        <View style={styles.disclaimer}>
+          <Text style={styles.disclaimerText}>
+            {t('suite.disclaimer')}
+          </Text>
+        </View>
+
+        {urgency !== 'none' && (
+          <TouchableOpacity
+            style={styles.findClinicsCard}
+            onPress={() => router.push('/clinics')}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.findClinicsEmoji}>🏥</Text>
+            <View style={styles.findClinicsTextBlock}>
+              <Text style={styles.findClinicsTitle}>{t('common.findClinics')}</Text>
+              <Text style={styles.findClinicsDesc}>{t('results.clinicsDesc')}</Text>
+
+            </View>
+            <Text style={styles.findClinicsArrow}>→</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
     </View>
   );
 }
 
+// ─── STYLES ──────────────────────────────────────────────────────────
 const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: '#F5F5F5', alignItems: 'center', justifyContent: 'center', padding: 24 },
-  title: { fontSize: 22, fontWeight: '700', color: '#212121', marginBottom: 12 },
-  body: { fontSize: 15, color: '#616161', textAlign: 'center', lineHeight: 22 },
+  screen: { flex: 1, backgroundColor: '#F5F5F5' },
+  screenFlex: { flex: 1, backgroundColor: '#F5F5F5' },
+  screenContent: { paddingBottom: 36 },
+  centered: { flex: 1, backgroundColor: '#F5F5F5', alignItems: 'center', justifyContent: 'center', padding: 24 },
+
+  emptyEmoji: { fontSize: 44, marginBottom: 12 },
+  emptyTitle: { fontSize: 22, fontWeight: '700', color: '#212121', marginBottom: 12 },
+  emptyText: { fontSize: 15, color: '#616161', textAlign: 'center', lineHeight: 22 },
+
+  headerBanner: {
+    backgroundColor: '#00ACC1',
+    paddingTop: 50,
+    paddingBottom: 25,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  backArrow: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 10,
+  },
+  backArrowText: { fontSize: 20, color: '#FFFFFF', fontWeight: 'bold' },
+  headerEmoji: { fontSize: 44, marginBottom: 8 },
+  headerTitle: { fontSize: 24, fontWeight: 'bold', color: '#FFFFFF', textAlign: 'center' },
+  headerSubtitle: { fontSize: 14, color: 'rgba(255,255,255,0.85)', marginTop: 4, textAlign: 'center' },
+
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 14,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: { fontSize: 18, fontWeight: '700', color: '#212121', marginBottom: 12 },
+  subTitle: { fontSize: 13, fontWeight: '700', color: '#00838F', marginTop: 6, marginBottom: 2 },
+  bodyText: { fontSize: 15, color: '#424242', lineHeight: 22 },
+  mutedText: { fontSize: 14, color: '#9E9E9E' },
+  footNote: { fontSize: 12, color: '#9E9E9E', marginTop: 8 },
+  divider: { height: StyleSheet.hairlineWidth, backgroundColor: '#E0E0E0', marginVertical: 12 },
+
+  urgencyCard: { borderLeftWidth: 4 },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#616161',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 6,
+  },
+  urgencyLabel: { fontSize: 22, fontWeight: '800', marginBottom: 8 },
+  reliabilityLabel: { fontSize: 18, fontWeight: '800', marginBottom: 6 },
+
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 },
+  summaryLabel: { fontSize: 14, color: '#616161' },
+  summaryValue: { fontSize: 14, fontWeight: '600', color: '#212121', flexShrink: 1, textAlign: 'right', marginLeft: 12 },
+
+  findingTitle: { fontSize: 16, fontWeight: '700', marginBottom: 6 },
+  recommendText: { fontSize: 14, color: '#00695C', lineHeight: 20, marginTop: 8 },
+
+  primaryBtn: {
+    backgroundColor: '#00ACC1',
+    width: '80%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryBtnText: { fontSize: 17, fontWeight: 'bold', color: '#FFFFFF' },
+
+  disclaimer: { marginHorizontal: 16, marginTop: 20, padding: 14, backgroundColor: '#FFF3E0', borderRadius: 10 },
+  disclaimerText: { fontSize: 13, color: '#E65100', lineHeight: 19, textAlign: 'center' },
+
+  findClinicsCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    backgroundColor: '#E0F7FA',
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: '#00ACC1',
+  },
+  findClinicsEmoji: { fontSize: 32, marginRight: 14 },
+  findClinicsTextBlock: { flex: 1 },
+  findClinicsTitle: { fontSize: 16, fontWeight: '700', color: '#00838F', marginBottom: 3 },
+  findClinicsDesc: { fontSize: 13, color: '#4DB6AC', lineHeight: 18 },
+  findClinicsArrow: { fontSize: 22, fontWeight: '700', color: '#00ACC1', marginLeft: 8 },
 });
@@ -1,42 +1,74 @@
 import { useRouter } from 'expo-router';
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     Animated,
     ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
+import AmslerGridTest from '../components/VisionTests/AmslerGridTest';
 import AstigmatismTest from '../components/VisionTests/AstigmatismTest';
 import ColorVisionTest from '../components/VisionTests/ColorVisionTest';
+import ContrastSensitivityTest from '../components/VisionTests/ContrastSensitivityTest';
 import VisualAcuityTest from '../components/VisionTests/VisualAcuityTest';
+import { CONTRAST_CATEGORY_LABELS } from '../lib/contrastSensitivity';
+import { parseAge, saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type {
+    AmslerResults,
+    AstigmatismResults,
+    ColorVisionResults,
+    ContrastSensitivityResults,
+    VisualAcuityResults,
+} from '../lib/screeningSession';
 
 // ─── TYPES ───────────────────────────────────────────────────────────
 type SuitePhase =
   | 'overview'
   | 'visual-acuity'
+  | 'transition-contrast'
+  | 'contrast-sensitivity'
   | 'transition-color'
   | 'color-vision'
   | 'transition-astigmatism'
   | 'astigmatism'
+  | 'transition-amsler'
+  | 'amsler'
   | 'summary';
 
-interface TestStatus {
+interface TestStatus<T> {
   completed: boolean;
   skipped: boolean;
-  results: any;
+  results: T | null;
 }
 
+// Only onComplete marks a test completed; leaving it without results counts as skipping it
+const markExited = <T,>(prev: TestStatus<T>): TestStatus<T> =>
+  prev.completed ? prev : { completed: false, skipped: true, results: null };
+
 // ─── COMPONENT ───────────────────────────────────────────────────────
 export default function TestSuiteScreen() {
   const router = useRouter();
+  const { t } = useI18n();
   const [phase, setPhase] = useState<SuitePhase>('overview');
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
-  const [visualAcuity, setVisualAcuity] = useState<TestStatus>({ completed: false, skipped: false, results: null });
-  const [colorVision, setColorVision] = useState<TestStatus>({ completed: false, skipped: false, results: null });
-  const [astigmatism, setAstigmatism] = useState<TestStatus>({ completed: false, skipped: false, results: null });
+  const [visualAcuity, setVisualAcuity] = useState<TestStatus<VisualAcuityResults>>({ completed: false, skipped: false, results: null });
+  const [contrastSensitivity, setContrastSensitivity] = useState<TestStatus<ContrastSensitivityResults>>({ completed: false, skipped: false, results: null });
+  const [colorVision, setColorVision] = useState<TestStatus<ColorVisionResults>>({ completed: false, skipped: false, results: null });
+  const [astigmatism, setAstigmatism] = useState<TestStatus<AstigmatismResults>>({ completed: false, skipped: false, results: null });
+  const [amsler, setAmsler] = useState<TestStatus<AmslerResults>>({ completed: false, skipped: false, results: null });
+
+  // Optional patient name / ID so the record can be found again in History
+  const [patientLabel, setPatientLabel] = useState('');
+  // Asked once here and passed to every test that scores against it
+  const [ageText, setAgeText] = useState('');
+  const age = parseAge(ageText);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+  const hasSavedRef = useRef(false);
 
   // ─── Navigation helpers ──────────────────────
   const handleExit = () => {
@@ -44,32 +76,37 @@ export default function TestSuiteScreen() {
   };
 
   // ─── Visual Acuity handlers ──────────────────
-  const handleVAComplete = (results: any) => {
+  const handleVAComplete = (results: VisualAcuityResults) => {
     setVisualAcuity({ completed: true, skipped: false, results });
   };
 
   const handleVAExit = () => {
-    // When user exits VA test, move to transition screen
-    if (!visualAcuity.completed) {
-      setVisualAcuity(prev => ({ ...prev, completed: true }));
-    }
+    setVisualAcuity(markExited);
+    setPhase('transition-contrast');
+  };
+
+  // ─── Contrast sensitivity handlers ───────────
+  const handleCSComplete = (results: ContrastSensitivityResults) => {
+    setContrastSensitivity({ completed: true, skipped: false, results });
+  };
+
+  const handleCSExit = () => {
+    setContrastSensitivity(markExited);
     setPhase('transition-color');
   };
 
-  const handleSkipVA = () => {
-    setVisualAcuity({ completed: false, skipped: true, results: null });
+  const handleSkipCS = () => {
+    setContrastSensitivity({ completed: false, skipped: true, results: null });
     setPhase('transition-color');
   };
 
   // ─── Color Vision handlers ───────────────────
-  const handleCVComplete = (results: any) => {
+  const handleCVComplete = (results: ColorVisionResults) => {
     setColorVision({ completed: true, skipped: false, results });
   };
 
   const handleCVExit = () => {
-    if (!colorVision.completed) {
-      setColorVision(prev => ({ ...prev, completed: true }));
-    }
+    setColorVision(markExited);
     setPhase('transition-astigmatism');
   };
 
@@ -79,34 +116,96 @@ export default function TestSuiteScreen() {
   };
 
   // ─── Astigmatism handlers ────────────────────
-  const handleAstigComplete = (results: any) => {
+  const handleAstigComplete = (results: AstigmatismResults) => {
     setAstigmatism({ completed: true, skipped: false, results });
   };
 
   const handleAstigExit = () => {
-    if (!astigmatism.completed) {
-      setAstigmatism(prev => ({ ...prev, completed: true }));
-    }
-    setPhase('summary');
+    setAstigmatism(markExited);
+    setPhase('transition-amsler');
   };
 
   const handleSkipAstig = () => {
     setAstigmatism({ completed: false, skipped: true, results: null });
+    setPhase('transition-amsler');
+  };
+
+  // ─── Amsler grid handlers ────────────────────
+  const handleAmslerComplete = (results: AmslerResults) => {
+    setAmsler({ completed: true, skipped: false, results });
+  };
+
+  const handleAmslerExit = () => {
+    setAmsler(markExited);
+    setPhase('summary');
+  };
+
+  const handleSkipAmsler = () => {
+    setAmsler({ completed: false, skipped: true, results: null });
     setPhase('summary');
   };
 
   // ─── Count completed tests ───────────────────
-  const completedCount = [visualAcuity, colorVision, astigmatism].filter(t => t.completed && !t.skipped).length;
-  const skippedCount = [visualAcuity, colorVision, astigmatism].filter(t => t.skipped).length;
-  const totalTests = 3;
+  const testStatuses = [visualAcuity, contrastSensitivity, colorVision, astigmatism, amsler];
+  const completedCount = testStatuses.filter(s => s.completed && !s.skipped).length;
+  const skippedCount = testStatuses.filter(s => s.skipped).length;
+  const totalTests = testStatuses.length;
+
+  // ─── Persist the session once the summary is reached ──
+  useEffect(() => {
+    if (phase !== 'summary' || hasSavedRef.current || completedCount === 0) return;
+    hasSavedRef.current = true;
+    saveSession({
+      source: 'suite',
+      patientLabel,
+      age,
+      visualAcuity: visualAcuity.results,
+      contrastSensitivity: contrastSensitivity.results,
+      colorVision: colorVision.results,
+      astigmatism: astigmatism.results,
+      amsler: amsler.results,
+    }).then(saved => setSavedSessionId(saved?.id ?? null));
+  }, [
+    phase,
+    completedCount,
+    patientLabel,
+    age,
+    visualAcuity.results,
+    contrastSensitivity.results,
+    colorVision.results,
+    astigmatism.results,
+    amsler.results,
+  ]);
 
   // ─── Get status badge ────────────────────────
-  const getStatusBadge = (status: TestStatus) => {
-    if (status.completed && !status.skipped) return { label: 'Completed', color: '#2E7D32', bg: '#E8F5E9' };
-    if (status.skipped) return { label: 'Skipped', color: '#F57C00', bg: '#FFF3E0' };
-    return { label: 'Pending', color: '#757575', bg: '#F5F5F5' };
+  const getStatusBadge = (status: TestStatus<unknown>) => {
+    if (status.completed && !status.skipped) return { label: t('suite.completed'), color: '#2E7D32', bg: '#E8F5E9' };
+    if (status.skipped) return { label: t('suite.skipped'), color: '#F57C00', bg: '#FFF3E0' };
+    return { label: t('suite.pending'), color: '#757575', bg: '#F5F5F5' };
   };
 
+  // ─── Progress dots on transition screens ─────
+  // Earlier tests show how they ended; the test up next is highlighted
+  const renderProgressDots = (activeIndex: number) => (
+    <View style={styles.progressDots}>
+      {testStatuses.map((status, idx) => {
+        const color = idx === activeIndex ? '#00ACC1'
+          : idx > activeIndex ? '#E0E0E0'
+          : status.skipped ? '#F57C00'
+          : status.completed ? '#2E7D32'
+          : '#E0E0E0';
+        return (
+          <React.Fragment key={idx}>
+            {idx > 0 && (
+              <View style={[styles.progressDotLine, idx > activeIndex && { backgroundColor: '#E0E0E0' }]} />
+            )}
+            <View style={[styles.progressDot, { backgroundColor: color }]} />
+          </React.Fragment>
+        );
+      })}
+    </View>
+  );
+
   // ===== OVERVIEW SCREEN =====
   if (phase === 'overview') {
     return (
@@ -117,14 +216,41 @@ export default function TestSuiteScreen() {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>🏥</Text>
-            <Text style={styles.headerTitle}>Complete Eye Screening</Text>
-            <Text style={styles.headerSubtitle}>3 tests • ~10 minutes total</Text>
+            <Text style={styles.headerTitle}>{t('suite.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('suite.subtitle')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Your Screening Plan</Text>
+            <Text style={styles.cardTitle}>{t('suite.plan')}</Text>
             <Text style={styles.bodyText}>
-              We'll guide you through three clinically-standard tests in sequence. You can skip any test you'd like.
+              {t('suite.planBody')}
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('common.patient')}</Text>
+            <TextInput
+              style={styles.patientInput}
+              value={patientLabel}
+              onChangeText={setPatientLabel}
+              placeholder={t('common.patientPlaceholder')}
+              placeholderTextColor="#9E9E9E"
+              autoCorrect={false}
+            />
+            <Text style={styles.patientHint}>
+              {t('common.patientHint')}
+            </Text>
+            <TextInput
+              style={[styles.patientInput, styles.ageInput]}
+              value={ageText}
+              onChangeText={text => setAgeText(text.replace(/[^0-9]/g, ''))}
+              placeholder={t('suite.agePlaceholder')}
+              placeholderTextColor="#9E9E9E"
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.patientHint}>
+              {t('suite.ageHint')}
             </Text>
           </View>
 
@@ -135,11 +261,11 @@ export default function TestSuiteScreen() {
                 <Text style={styles.testPlanNumberText}>1</Text>
               </View>
               <View style={styles.testPlanInfo}>
-                <Text style={styles.testPlanTitle}>👓 Visual Acuity</Text>
+                <Text style={styles.testPlanTitle}>{t('suite.vaTitle')}</Text>
                 <Text style={styles.testPlanDesc}>
-                  Distance & near vision clarity • Snellen & Jaeger standard
+                  {t('suite.vaDesc')}
                 </Text>
-                <Text style={styles.testPlanTime}>~5 min</Text>
+                <Text style={styles.testPlanTime}>{t('suite.minutes5')}</Text>
               </View>
             </View>
           </View>
@@ -151,11 +277,11 @@ export default function TestSuiteScreen() {
                 <Text style={styles.testPlanNumberText}>2</Text>
               </View>
               <View style={styles.testPlanInfo}>
-                <Text style={styles.testPlanTitle}>🎨 Color Vision</Text>
+                <Text style={styles.testPlanTitle}>{t('suite.csTitle')}</Text>
                 <Text style={styles.testPlanDesc}>
-                  Red-green & blue-yellow screening • Ishihara 14-plate
+                  {t('suite.csDesc')}
                 </Text>
-                <Text style={styles.testPlanTime}>~3 min</Text>
+                <Text style={styles.testPlanTime}>{t('suite.minutes3')}</Text>
               </View>
             </View>
           </View>
@@ -167,18 +293,50 @@ export default function TestSuiteScreen() {
                 <Text style={styles.testPlanNumberText}>3</Text>
               </View>
               <View style={styles.testPlanInfo}>
-                <Text style={styles.testPlanTitle}>◎ Astigmatism</Text>
+                <Text style={styles.testPlanTitle}>{t('suite.cvTitle')}</Text>
+                <Text style={styles.testPlanDesc}>
+                  {t('suite.cvDesc')}
+                </Text>
+                <Text style={styles.testPlanTime}>{t('suite.minutes3')}</Text>
+              </View>
+            </View>
+          </View>
+
+          {/* Test 4 */}
+          <View style={styles.testPlanCard}>
+            <View style={styles.testPlanRow}>
+              <View style={styles.testPlanNumber}>
+                <Text style={styles.testPlanNumberText}>4</Text>
+              </View>
+              <View style={styles.testPlanInfo}>
+                <Text style={styles.testPlanTitle}>{t('suite.astigTitle')}</Text>
+                <Text style={styles.testPlanDesc}>
+                  {t('suite.astigDesc')}
+                </Text>
+                <Text style={styles.testPlanTime}>{t('suite.minutes3')}</Text>
+              </View>
+            </View>
+          </View>
+
+          {/* Test 5 */}
+          <View style={styles.testPlanCard}>
+            <View style={styles.testPlanRow}>
+              <View style={styles.testPlanNumber}>
+                <Text style={styles.testPlanNumberText}>5</Text>
+              </View>
+              <View style={styles.testPlanInfo}>
+                <Text style={styles.testPlanTitle}>{t('suite.amslerTitle')}</Text>
                 <Text style={styles.testPlanDesc}>
-                  Directional focus balance • Astigmatic dial method
+                  {t('suite.amslerDesc')}
                 </Text>
-                <Text style={styles.testPlanTime}>~3 min</Text>
+                <Text style={styles.testPlanTime}>{t('suite.minutes3')}</Text>
               </View>
             </View>
           </View>
 
           <View style={styles.tipBox}>
             <Text style={styles.tipText}>
-              💡 You can skip any test and return to it later from the home screen. Each test can also be run independently.
+              {t('suite.tip')}
             </Text>
           </View>
         </ScrollView>
@@ -188,7 +346,7 @@ export default function TestSuiteScreen() {
             style={styles.primaryBtn}
             onPress={() => setPhase('visual-acuity')}
           >
-            <Text style={styles.primaryBtnText}>Begin Screening</Text>
+            <Text style={styles.primaryBtnText}>{t('suite.begin')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -199,49 +357,101 @@ export default function TestSuiteScreen() {
   if (phase === 'visual-acuity') {
     // If already completed (user pressed Done and came back), go to transition
     if (visualAcuity.completed) {
-      setPhase('transition-color');
+      setPhase('transition-contrast');
       return null;
     }
 
     return (
       <VisualAcuityTest
+        age={age}
         onComplete={handleVAComplete}
         onExit={handleVAExit}
       />
     );
   }
 
-  // ===== TRANSITION: VA → COLOR VISION =====
-  if (phase === 'transition-color') {
-    const vaBadge = getStatusBadge(visualAcuity);
+  // ===== TRANSITION: VA → CONTRAST SENSITIVITY =====
+  if (phase === 'transition-contrast') {
+    return (
+      <View style={styles.screenFlex}>
+        <View style={styles.transitionBanner}>
+          <Text style={styles.transitionCheckmark}>✓</Text>
+          <Text style={styles.transitionTitle}>
+            {t(visualAcuity.skipped ? 'suite.vaSkipped' : 'suite.vaComplete')}
+          </Text>
+        </View>
+
+        <View style={styles.transitionBody}>
+          <View style={styles.transitionCard}>
+            <Text style={styles.transitionNextLabel}>{t('suite.upNext')}</Text>
+            <Text style={styles.transitionNextEmoji}>◐</Text>
+            <Text style={styles.transitionNextTitle}>{t('suite.csNextTitle')}</Text>
+            <Text style={styles.transitionNextDesc}>
+              {t('suite.csNextDesc')}
+            </Text>
+            <Text style={styles.transitionNextTime}>{t('suite.threeMinutes')}</Text>
+          </View>
+
+          {renderProgressDots(1)}
+        </View>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity
+            style={styles.primaryBtn}
+            onPress={() => setPhase('contrast-sensitivity')}
+          >
+            <Text style={styles.primaryBtnText}>{t('suite.startCs')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.ghostBtn}
+            onPress={handleSkipCS}
+          >
+            <Text style={styles.ghostBtnText}>{t('suite.skipTest')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== CONTRAST SENSITIVITY TEST =====
+  if (phase === 'contrast-sensitivity') {
+    if (contrastSensitivity.completed) {
+      setPhase('transition-color');
+      return null;
+    }
 
+    return (
+      <ContrastSensitivityTest
+        age={age}
+        onComplete={handleCSComplete}
+        onExit={handleCSExit}
+      />
+    );
+  }
+
+  // ===== TRANSITION: CONTRAST → COLOR VISION =====
+  if (phase === 'transition-color') {
     return (
       <View style={styles.screenFlex}>
         <View style={styles.transitionBanner}>
           <Text style={styles.transitionCheckmark}>✓</Text>
           <Text style={styles.transitionTitle}>
-            {visualAcuity.skipped ? 'Visual Acuity Skipped' : 'Visual Acuity Complete'}
+            {t(contrastSensitivity.skipped ? 'suite.csSkipped' : 'suite.csComplete')}
           </Text>
         </View>
 
         <View style={styles.transitionBody}>
           <View style={styles.transitionCard}>
-            <Text style={styles.transitionNextLabel}>Up Next</Text>
+            <Text style={styles.transitionNextLabel}>{t('suite.upNext')}</Text>
             <Text style={styles.transitionNextEmoji}>🎨</Text>
-            <Text style={styles.transitionNextTitle}>Color Vision Test</Text>
+            <Text style={styles.transitionNextTitle}>{t('suite.cvNextTitle')}</Text>
             <Text style={styles.transitionNextDesc}>
-              Identify numbers hidden in colored dot patterns. Tests for red-green and blue-yellow color vision deficiencies.
+              {t('suite.cvNextDesc')}
             </Text>
-            <Text style={styles.transitionNextTime}>~3 minutes</Text>
+            <Text style={styles.transitionNextTime}>{t('suite.threeMinutes')}</Text>
           </View>
 
-          <View style={styles.progressDots}>
-            <View style={[styles.progressDot, { backgroundColor: visualAcuity.skipped ? '#F57C00' : '#2E7D32' }]} />
-            <View style={[styles.progressDotLine]} />
-            <View style={[styles.progressDot, { backgroundColor: '#00ACC1' }]} />
-            <View style={[styles.progressDotLine, { backgroundColor: '#E0E0E0' }]} />
-            <View style={[styles.progressDot, { backgroundColor: '#E0E0E0' }]} />
-          </View>
+          {renderProgressDots(2)}
         </View>
 
         <View style={styles.bottomBtnContainer}>
@@ -249,13 +459,13 @@ export default function TestSuiteScreen() {
             style={styles.primaryBtn}
             onPress={() => setPhase('color-vision')}
           >
-            <Text style={styles.primaryBtnText}>Start Color Vision Test</Text>
+            <Text style={styles.primaryBtnText}>{t('suite.startCv')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.ghostBtn}
             onPress={handleSkipCV}
           >
-            <Text style={styles.ghostBtnText}>Skip This Test</Text>
+            <Text style={styles.ghostBtnText}>{t('suite.skipTest')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -284,28 +494,22 @@ export default function TestSuiteScreen() {
         <View style={styles.transitionBanner}>
           <Text style={styles.transitionCheckmark}>✓</Text>
           <Text style={styles.transitionTitle}>
-            {colorVision.skipped ? 'Color Vision Skipped' : 'Color Vision Complete'}
+            {t(colorVision.skipped ? 'suite.cvSkipped' : 'suite.cvComplete')}
           </Text>
         </View>
 
         <View style={styles.transitionBody}>
           <View style={styles.transitionCard}>
-            <Text style={styles.transitionNextLabel}>Final Test</Text>
+            <Text style={styles.transitionNextLabel}>{t('suite.upNext')}</Text>
             <Text style={styles.transitionNextEmoji}>◎</Text>
-            <Text style={styles.transitionNextTitle}>Astigmatism Screening</Text>
+            <Text style={styles.transitionNextTitle}>{t('suite.astigNextTitle')}</Text>
             <Text style={styles.transitionNextDesc}>
-              Look at a dial of radiating lines and identify any that appear darker or clearer. Tests for directional focus imbalance.
+              {t('suite.astigNextDesc')}
             </Text>
-            <Text style={styles.transitionNextTime}>~3 minutes</Text>
+            <Text style={styles.transitionNextTime}>{t('suite.threeMinutes')}</Text>
           </View>
 
-          <View style={styles.progressDots}>
-            <View style={[styles.progressDot, { backgroundColor: visualAcuity.skipped ? '#F57C00' : visualAcuity.completed ? '#2E7D32' : '#E0E0E0' }]} />
-            <View style={[styles.progressDotLine]} />
-            <View style={[styles.progressDot, { backgroundColor: colorVision.skipped ? '#F57C00' : '#2E7D32' }]} />
-            <View style={[styles.progressDotLine]} />
-            <View style={[styles.progressDot, { backgroundColor: '#00ACC1' }]} />
-          </View>
+          {renderProgressDots(3)}
         </View>
 
         <View style={styles.bottomBtnContainer}>
@@ -313,13 +517,13 @@ export default function TestSuiteScreen() {
             style={styles.primaryBtn}
             onPress={() => setPhase('astigmatism')}
           >
-            <Text style={styles.primaryBtnText}>Start Astigmatism Test</Text>
+            <Text style={styles.primaryBtnText}>{t('suite.startAstig')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.ghostBtn}
             onPress={handleSkipAstig}
           >
-            <Text style={styles.ghostBtnText}>Skip This Test</Text>
+            <Text style={styles.ghostBtnText}>{t('suite.skipTest')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -341,31 +545,105 @@ export default function TestSuiteScreen() {
     );
   }
 
+  // ===== TRANSITION: ASTIGMATISM → AMSLER GRID =====
+  if (phase === 'transition-amsler') {
+    return (
+      <View style={styles.screenFlex}>
+        <View style={styles.transitionBanner}>
+          <Text style={styles.transitionCheckmark}>✓</Text>
+          <Text style={styles.transitionTitle}>
+            {t(astigmatism.skipped ? 'suite.astigSkipped' : 'suite.astigComplete')}
+          </Text>
+        </View>
+
+        <View style={styles.transitionBody}>
+          <View style={styles.transitionCard}>
+            <Text style={styles.transitionNextLabel}>{t('suite.finalTest')}</Text>
+            <Text style={styles.transitionNextEmoji}>▦</Text>
+            <Text style={styles.transitionNextTitle}>{t('suite.amslerNextTitle')}</Text>
+            <Text style={styles.transitionNextDesc}>
+              {t('suite.amslerNextDesc')}
+            </Text>
+            <Text style={styles.transitionNextTime}>{t('suite.threeMinutes')}</Text>
+          </View>
+
+          {renderProgressDots(4)}
+        </View>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity
+            style={styles.primaryBtn}
+            onPress={() => setPhase('amsler')}
+          >
+            <Text style={styles.primaryBtnText}>{t('suite.startAmsler')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.ghostBtn}
+            onPress={handleSkipAmsler}
+          >
+            <Text style={styles.ghostBtnText}>{t('suite.skipTest')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== AMSLER GRID TEST =====
+  if (phase === 'amsler') {
+    if (amsler.completed) {
+      setPhase('summary');
+      return null;
+    }
+
+    return (
+      <AmslerGridTest
+        onComplete={handleAmslerComplete}
+        onExit={handleAmslerExit}
+      />
+    );
+  }
+
   // ===== SUMMARY SCREEN =====
   if (phase === 'summary') {
     const vaBadge = getStatusBadge(visualAcuity);
+    const csBadge = getStatusBadge(contrastSensitivity);
     const cvBadge = getStatusBadge(colorVision);
     const astBadge = getStatusBadge(astigmatism);
+    const amslerBadge = getStatusBadge(amsler);
 
     // Extract key results for quick display
     const vaQuickResult = visualAcuity.results
-      ? `RE: ${visualAcuity.results?.distanceResults?.rightEye?.acuity ?? '—'} / LE: ${visualAcuity.results?.distanceResults?.leftEye?.acuity ?? '—'}`
+      ? t('suite.vaQuick', {
+          right: visualAcuity.results.distanceVision.rightEye?.acuity ?? '—',
+          left: visualAcuity.results.distanceVision.leftEye?.acuity ?? '—',
+        })
+      : null;
+
+    const csQuickResult = contrastSensitivity.results
+      ? t(CONTRAST_CATEGORY_LABELS[contrastSensitivity.results.overall])
       : null;
 
     const cvQuickResult = colorVision.results
-      ? `${colorVision.results.score}% — ${colorVision.results.deficiencyType === 'normal' ? 'Normal' : colorVision.results.deficiencyType}`
+      ? t('suite.cvQuick', {
+          score: colorVision.results.score,
+          type: colorVision.results.deficiencyType === 'normal' ? t('common.normal') : colorVision.results.deficiencyType,
+        })
       : null;
 
     const astigQuickResult = astigmatism.results
-      ? astigmatism.results.overallSuspicion === 'none'
-        ? 'No astigmatism detected'
-        : `${astigmatism.results.overallSuspicion.charAt(0).toUpperCase() + astigmatism.results.overallSuspicion.slice(1)} suspicion`
+      ? t(`astig.${astigmatism.results.overallSuspicion}`)
+      : null;
+
+    const amslerQuickResult = amsler.results
+      ? t(`amsler.${amsler.results.overall}`)
       : null;
 
     const allClear = completedCount > 0
-      && (!visualAcuity.completed || (visualAcuity.results?.distanceResults?.rightEye?.decimal >= 0.5 && visualAcuity.results?.distanceResults?.leftEye?.decimal >= 0.5))
+      && (!visualAcuity.results || ((visualAcuity.results.distanceVision.rightEye?.decimal ?? 1) >= 0.5 && (visualAcuity.results.distanceVision.leftEye?.decimal ?? 1) >= 0.5))
+      && (!contrastSensitivity.completed || contrastSensitivity.results?.overall === 'normal')
       && (!colorVision.completed || colorVision.results?.deficiencyType === 'normal')
-      && (!astigmatism.completed || astigmatism.results?.overallSuspicion === 'none');
+      && (!astigmatism.completed || astigmatism.results?.overallSuspicion === 'none')
+      && (!amsler.completed || amsler.results?.overall === 'none');
 
     const hasAnyConcern = !allClear && completedCount > 0;
 
@@ -381,15 +659,19 @@ export default function TestSuiteScreen() {
             <Text style={styles.headerEmoji}>
               {completedCount === 0 ? '📋' : allClear ? '✅' : '⚠️'}
             </Text>
-            <Text style={styles.headerTitle}>Screening Complete</Text>
+            <Text style={styles.headerTitle}>{t('suite.complete')}</Text>
             <Text style={styles.headerSubtitle}>
-              {completedCount} of {totalTests} tests completed{skippedCount > 0 ? ` • ${skippedCount} skipped` : ''}
+              {t(skippedCount > 0 ? 'suite.progressSkipped' : 'suite.progress', {
+                completed: completedCount,
+                total: totalTests,
+                skipped: skippedCount,
+              })}
             </Text>
           </View>
 
           {/* Quick overview */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Results Summary</Text>
+            <Text style={styles.cardTitle}>{t('suite.resultsSummary')}</Text>
 
             {/* Visual Acuity */}
             <View style={styles.summaryTestRow}>
@@ -397,12 +679,12 @@ export default function TestSuiteScreen() {
                 <Text style={{ fontSize: 24 }}>👓</Text>
               </View>
               <View style={styles.summaryTestInfo}>
-                <Text style={styles.summaryTestName}>Visual Acuity</Text>
+                <Text style={styles.summaryTestName}>{t('common.visualAcuity')}</Text>
                 {vaQuickResult ? (
                   <Text style={styles.summaryTestResult}>{vaQuickResult}</Text>
                 ) : (
                   <Text style={[styles.summaryTestResult, { color: '#9E9E9E' }]}>
-                    {visualAcuity.skipped ? 'Skipped' : 'Not completed'}
+                    {t(visualAcuity.skipped ? 'common.skipped' : 'common.notCompleted')}
                   </Text>
                 )}
               </View>
@@ -413,18 +695,40 @@ export default function TestSuiteScreen() {
 
             <View style={styles.thinDivider} />
 
+            {/* Contrast Sensitivity */}
+            <View style={styles.summaryTestRow}>
+              <View style={styles.summaryTestIcon}>
+                <Text style={{ fontSize: 24 }}>◐</Text>
+              </View>
+              <View style={styles.summaryTestInfo}>
+                <Text style={styles.summaryTestName}>{t('common.contrastSensitivity')}</Text>
+                {csQuickResult ? (
+                  <Text style={styles.summaryTestResult}>{csQuickResult}</Text>
+                ) : (
+                  <Text style={[styles.summaryTestResult, { color: '#9E9E9E' }]}>
+                    {t(contrastSensitivity.skipped ? 'common.skipped' : 'common.notCompleted')}
+                  </Text>
+                )}
+              </View>
+              <View style={[styles.summaryBadge, { backgroundColor: csBadge.bg }]}>
+                <Text style={[styles.summaryBadgeText, { color: csBadge.color }]}>{csBadge.label}</Text>
+              </View>
+            </View>
+
+            <View style={styles.thinDivider} />
+
             {/* Color Vision */}
             <View style={styles.summaryTestRow}>
               <View style={styles.summaryTestIcon}>
                 <Text style={{ fontSize: 24 }}>🎨</Text>
               </View>
               <View style={styles.summaryTestInfo}>
-                <Text style={styles.summaryTestName}>Color Vision</Text>
+                <Text style={styles.summaryTestName}>{t('common.colorVision')}</Text>
                 {cvQuickResult ? (
                   <Text style={styles.summaryTestResult}>{cvQuickResult}</Text>
                 ) : (
                   <Text style={[styles.summaryTestResult, { color: '#9E9E9E' }]}>
-                    {colorVision.skipped ? 'Skipped' : 'Not completed'}
+                    {t(colorVision.skipped ? 'common.skipped' : 'common.notCompleted')}
                   </Text>
                 )}
               </View>
@@ -441,12 +745,12 @@ export default function TestSuiteScreen() {
                 <Text style={{ fontSize: 24 }}>◎</Text>
               </View>
               <View style={styles.summaryTestInfo}>
-                <Text style={styles.summaryTestName}>Astigmatism</Text>
+                <Text style={styles.summaryTestName}>{t('common.astigmatism')}</Text>
                 {astigQuickResult ? (
                   <Text style={styles.summaryTestResult}>{astigQuickResult}</Text>
                 ) : (
                   <Text style={[styles.summaryTestResult, { color: '#9E9E9E' }]}>
-                    {astigmatism.skipped ? 'Skipped' : 'Not completed'}
+                    {t(astigmatism.skipped ? 'common.skipped' : 'common.notCompleted')}
                   </Text>
                 )}
               </View>
@@ -454,6 +758,28 @@ export default function TestSuiteScreen() {
                 <Text style={[styles.summaryBadgeText, { color: astBadge.color }]}>{astBadge.label}</Text>
               </View>
             </View>
+
+            <View style={styles.thinDivider} />
+
+            {/* Amsler grid */}
+            <View style={styles.summaryTestRow}>
+              <View style={styles.summaryTestIcon}>
+                <Text style={{ fontSize: 24 }}>▦</Text>
+              </View>
+              <View style={styles.summaryTestInfo}>
+                <Text style={styles.summaryTestName}>{t('common.amsler')}</Text>
+                {amslerQuickResult ? (
+                  <Text style={styles.summaryTestResult}>{amslerQuickResult}</Text>
+                ) : (
+                  <Text style={[styles.summaryTestResult, { color: '#9E9E9E' }]}>
+                    {t(amsler.skipped ? 'common.skipped' : 'common.notCompleted')}
+                  </Text>
+                )}
+              </View>
+              <View style={[styles.summaryBadge, { backgroundColor: amslerBadge.bg }]}>
+                <Text style={[styles.summaryBadgeText, { color: amslerBadge.color }]}>{amslerBadge.label}</Text>
+              </View>
+            </View>
           </View>
 
           {/* Overall assessment */}
@@ -461,27 +787,33 @@ export default function TestSuiteScreen() {
             borderLeftColor: completedCount === 0 ? '#757575' : allClear ? '#2E7D32' : '#E65100',
           }]}>
             <Text style={styles.cardTitle}>
-              {allClear ? 'Overall Assessment' : hasAnyConcern ? '⚠️ Overall Assessment' : 'Assessment'}
+              {allClear ? t('suite.overall') : hasAnyConcern ? t('suite.overallWarning') : t('common.assessment')}
             </Text>
 
             {completedCount === 0 ? (
               <Text style={styles.bodyText}>
-                All tests were skipped. No screening data available. Consider running individual tests from the home screen.
+                {t('suite.allSkipped')}
               </Text>
             ) : allClear ? (
               <Text style={styles.bodyText}>
-                All completed tests show results within normal range. No immediate vision concerns detected. Continue routine eye checkups every 1–2 years.
+                {t('suite.allClear')}
               </Text>
             ) : (
               <Text style={styles.bodyText}>
-                One or more tests flagged potential concerns. We recommend consulting an eye care professional for a comprehensive examination. Detailed results for each test are shown above.
+                {t('suite.concern')}
+              </Text>
+            )}
+
+            {savedSessionId && (
+              <Text style={styles.savedNote}>
+                {patientLabel.trim() ? t('suite.savedFor', { name: patientLabel.trim() }) : t('suite.saved')}
               </Text>
             )}
 
             {skippedCount > 0 && (
               <View style={[styles.tipBox, { marginTop: 12 }]}>
                 <Text style={styles.tipText}>
-                  💡 You skipped {skippedCount} test{skippedCount > 1 ? 's' : ''}. You can run {skippedCount > 1 ? 'them' : 'it'} individually from the home screen at any time.
+                  {t(skippedCount > 1 ? 'suite.skippedMany' : 'suite.skippedOne', { count: skippedCount })}
                 </Text>
               </View>
             )}
@@ -490,7 +822,7 @@ export default function TestSuiteScreen() {
           {/* Disclaimer */}
           <View style={styles.disclaimer}>
             <Text style={styles.disclaimerText}>
-              ⚠️ This is a screening tool, not a medical diagnosis. Results may vary with device, lighting, and testing conditions. Consult a qualified eye care professional for definitive assessment and treatment.
+              {t('suite.disclaimer')}
             </Text>
           </View>
 
@@ -502,13 +834,13 @@ export default function TestSuiteScreen() {
           >
             <Text style={styles.findClinicsEmoji}>🏥</Text>
             <View style={styles.findClinicsTextBlock}>
-              <Text style={styles.findClinicsTitle}>Find Nearby Eye Clinics</Text>
+              <Text style={styles.findClinicsTitle}>{t('common.findClinics')}</Text>
               <Text style={styles.findClinicsDesc}>
                 {hasAnyConcern
-                  ? 'Get your results reviewed by a professional near you'
+                  ? t('suite.clinicsConcern')
                   : skippedCount > 0
-                  ? 'Complete your screening with a professional eye exam'
-                  : 'Locate eye care professionals in your area'}
+                  ? t('suite.clinicsSkipped')
+                  : t('suite.clinicsDefault')}
               </Text>
             </View>
             <Text style={styles.findClinicsArrow}>→</Text>
@@ -516,11 +848,20 @@ export default function TestSuiteScreen() {
         </ScrollView>
 
         <View style={styles.bottomBtnContainer}>
+          {savedSessionId && (
+            <TouchableOpacity
+              style={[styles.primaryBtn, { marginBottom: 12 }]}
+              onPress={() => router.push({ pathname: '/results', params: { id: savedSessionId } })}
+            >
+              <Text style={styles.primaryBtnText}>{t('common.viewFullResults')}</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
-            style={styles.primaryBtn}
+            style={savedSessionId ? styles.ghostBtn : styles.primaryBtn}
             onPress={handleExit}
           >
-            <Text style={styles.primaryBtnText}>Return Home</Text>
+            <Text style={savedSessionId ? styles.ghostBtnText : styles.primaryBtnText}>{t('suite.returnHome')}</Text>
+
           </TouchableOpacity>
         </View>
       </View>
@@ -618,6 +959,32 @@ const styles = StyleSheet.create({
     marginVertical: 12,
   },
 
+  // ── Patient ──
+  patientInput: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  patientHint: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    marginTop: 8,
+  },
+  ageInput: {
+    marginTop: 16,
+  },
+  savedNote: {
+    fontSize: 13,
+    color: '#2E7D32',
+    fontWeight: '600',
+    marginTop: 12,
+  },
+
   // ── Test Plan Cards ──
   testPlanCard: {
     backgroundColor: '#FFFFFF',
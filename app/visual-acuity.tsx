@@ -1,17 +1,49 @@
 import { useRouter } from 'expo-router';
+import { useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import PatientPrompt from '../components/VisionTests/PatientPrompt';
 import VisualAcuityTest from '../components/VisionTests/VisualAcuityTest';
+import { saveSession } from '../lib/historyService';
+import { useI18n } from '../lib/i18n';
+import type { VisualAcuityResults } from '../lib/screeningSession';
 
 export default function VisualAcuityScreen() {
   const router = useRouter();
+  const { t } = useI18n();
+  // Null until the patient prompt is answered
+  const [patientLabel, setPatientLabel] = useState<string | null>(null);
+  // The results screen's Save button may be tapped twice before the write lands
+  const hasSavedRef = useRef(false);
 
-  const handleComplete = (results: any) => {
-    console.log('Visual Acuity Test results:', JSON.stringify(results, null, 2));
+  const handleComplete = async (results: VisualAcuityResults) => {
+    if (hasSavedRef.current) return;
+    hasSavedRef.current = true;
+    const saved = await saveSession({
+      source: 'visual-acuity',
+      patientLabel,
+      age: results.age,
+      visualAcuity: results,
+      contrastSensitivity: null,
+      colorVision: null,
+      astigmatism: null,
+      amsler: null,
+    });
+    if (!saved) {
+      hasSavedRef.current = false;
+      Alert.alert(t('history.saveFailedTitle'), t('history.saveFailedBody'));
+      return;
+    }
+    router.replace({ pathname: '/results', params: { id: saved.id } });
   };
 
   const handleExit = () => {
     router.back();
   };
 
+  if (patientLabel === null) {
+    return <PatientPrompt testTitle={t('va.title')} onContinue={setPatientLabel} onExit={handleExit} />;
+  }
+
   return (
     <VisualAcuityTest
       onComplete={handleComplete}
@@ -0,0 +1,94 @@
+/**
+ * AmbientLightCheck.tsx
+ * ---------------------
+ * Live room-lighting check (lib/ambientLight.ts), shown on the setup
+ * screen of the acuity, contrast and colour tests.  Warns while the room is too
+ * dark or too bright for the test, and reports each reading so the
+ * test can record the lighting it started under.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import {
+  AMBIENT_LIGHT_LIMITS,
+  AMBIENT_LIGHT_STATUS_LABELS,
+  useAmbientLight,
+  type AmbientLightTest,
+} from '../../lib/ambientLight';
+import { useI18n } from '../../lib/i18n';
+import type { AmbientLightReading, AmbientLightStatus } from '../../lib/screeningSession';
+
+// ─── Props ───────────────────────────────────────────────────────────
+
+interface Props {
+  test: AmbientLightTest;
+  onReading?: (reading: AmbientLightReading) => void;
+}
+
+const STATUS_COLORS: Record<AmbientLightStatus, string> = {
+  'too-dark': '#C62828',
+  'ok': '#2E7D32',
+  'too-bright': '#E65100',
+};
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function AmbientLightCheck({ test, onReading }: Props) {
+  const { t } = useI18n();
+  const { reading, available } = useAmbientLight(test);
+  const { minLux, maxLux } = AMBIENT_LIGHT_LIMITS[test];
+
+  // Read through a ref so the parent's callback identity does not re-run the effect
+  const onReadingRef = useRef(onReading);
+  onReadingRef.current = onReading;
+
+  useEffect(() => {
+    if (reading) onReadingRef.current?.(reading);
+  }, [reading]);
+
+  if (available === false) {
+    return (
+      <View style={st.box}>
+        <Text style={st.title}>{t('light.title')}</Text>
+        <Text style={st.body}>{t('light.noSensor')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[st.box, reading && { borderColor: STATUS_COLORS[reading.status] }]}>
+      <Text style={st.title}>{t('light.title')}</Text>
+      {reading ? (
+        <>
+          <Text style={[st.status, { color: STATUS_COLORS[reading.status] }]}>
+            {t(AMBIENT_LIGHT_STATUS_LABELS[reading.status])} · {t('light.lux', { lux: reading.lux })}
+          </Text>
+          {reading.status === 'too-dark' && <Text style={st.body}>{t('light.tooDarkAdvice')}</Text>}
+          {reading.status === 'too-bright' && <Text style={st.body}>{t('light.tooBrightAdvice')}</Text>}
+        </>
+      ) : (
+        <Text style={st.body}>{t('light.measuring')}</Text>
+      )}
+      <Text style={st.range}>{t('light.range', { min: minLux, max: maxLux })}</Text>
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const st = StyleSheet.create({
+  box: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 14,
+    padding: 18,
+    borderWidth: 2,
+    borderColor: '#B2EBF2',
+  },
+  title: { fontSize: 15, fontWeight: '700', color: '#00838F', marginBottom: 8 },
+  status: { fontSize: 18, fontWeight: '800', marginBottom: 6 },
+  body: { fontSize: 14, color: '#424242', lineHeight: 21, marginBottom: 6 },
+  range: { fontSize: 12, color: '#757575' },
+});
@@ -0,0 +1,914 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    BackHandler,
+    Dimensions,
+    PanResponder,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import Svg, { Circle, Line, Rect } from 'react-native-svg';
+import { BRIGHTNESS_POLICIES, useBrightnessPolicy } from '../../lib/brightnessService';
+import { t, useI18n } from '../../lib/i18n';
+import { getDpPerMm, mmToDp } from '../../lib/screenCalibration';
+import type {
+  AmslerFinding,
+  AmslerMark,
+  AmslerResults,
+  AmslerSeverity,
+  Eye,
+  EyeAmslerResult,
+} from '../../lib/screeningSession';
+import { useQualityRecorder } from '../../lib/sessionQuality';
+import { useVoiceGuidance, type VoicePromptKey } from '../../lib/voiceService';
+import {
+  BottomButtons,
+  Card,
+  CoverEyePrompt,
+  Disclaimer,
+  Divider,
+  EyeBanner,
+  HeaderBanner,
+  InfoRow,
+  LimitRow,
+  MiniResultCard,
+  ProgressBar,
+  StepRow,
+  SummaryRow,
+  SwitchEyePrompt,
+  TestPage,
+  TipBox,
+  testStyles,
+} from './TestLayout';
+
+// ─── TYPES ───────────────────────────────────────────────────────────
+type TestPhase =
+  | 'welcome'
+  | 'setup'
+  | 'test-instructions'
+  | 'centre-check'
+  | 'test'
+  | 'switch-eye'
+  | 'results';
+
+interface Props {
+  onComplete?: (results: AmslerResults) => void;
+  onExit?: () => void;
+}
+
+// Marks being drawn, keyed by "col,row"
+type MarkMap = Record<string, AmslerFinding>;
+
+// Where the hardware back button goes from each phase
+const PREVIOUS_PHASE: Record<TestPhase, TestPhase | 'exit'> = {
+  'welcome': 'exit',
+  'setup': 'welcome',
+  'test-instructions': 'setup',
+  'centre-check': 'test-instructions',
+  'test': 'centre-check',
+  'switch-eye': 'test',
+  'results': 'test',
+};
+
+// What is said on entering each phase
+function getPhasePrompts(phase: TestPhase, eye: Eye): VoicePromptKey[] {
+  switch (phase) {
+    case 'welcome': return ['voice.amsler.welcome'];
+    case 'setup': return ['voice.amsler.setup'];
+    case 'test-instructions': return [eye === 'right' ? 'voice.coverLeftEye' : 'voice.coverRightEye'];
+    case 'centre-check': return ['voice.amsler.centre'];
+    case 'test': return ['voice.amsler.mark'];
+    case 'switch-eye': return ['voice.rightEyeDone', 'voice.coverRightEye'];
+    case 'results': return ['voice.amsler.complete', 'voice.resultsOnScreen'];
+  }
+}
+
+// ─── SCREEN DIMENSIONS ──────────────────────────────────────────────
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+// ─── AMSLER GRID CONFIGURATION ──────────────────────────────────────
+//
+// Clinical standard (Amsler chart 1): a 10 cm square of 20 × 20
+// squares with a central fixation dot, viewed at about 30 cm so that
+// each 5 mm square subtends 1° and the whole grid the central 20° of
+// the visual field — the macula.
+//
+// The grid is drawn at that physical size using the per-device card
+// calibration.  Narrow screens shrink the squares, and the viewing
+// distance shrinks with them so each square still subtends 1°.
+const GRID_SQUARES = 20;
+const SQUARE_MM = 5;
+const GRID_LINE_MM = 0.3;
+
+// Marks within this many squares of fixation fall in the central 10°
+const CENTRAL_RADIUS_SQUARES = 5;
+
+const getSquareSize = (): number =>
+  Math.min(mmToDp(SQUARE_MM), (SCREEN_WIDTH - 32) / GRID_SQUARES);
+
+/** Side of one square as drawn on this screen, in mm. */
+const getSquareMm = (): number => Math.round((getSquareSize() / getDpPerMm()) * 10) / 10;
+
+/** Distance in cm at which a square of `squareMm` subtends 1°. */
+export const getViewingDistanceCm = (squareMm: number): number =>
+  Math.round(squareMm / Math.tan(Math.PI / 180) / 10);
+
+const markKey = (col: number, row: number): string => `${col},${row}`;
+
+const toMarks = (map: MarkMap): AmslerMark[] =>
+  Object.entries(map).map(([key, finding]) => {
+    const [col, row] = key.split(',').map(Number);
+    return { col, row, finding };
+  });
+
+const toMarkMap = (marks: AmslerMark[]): MarkMap =>
+  Object.fromEntries(marks.map(m => [markKey(m.col, m.row), m.finding]));
+
+// ─── INTERPRETATION LOGIC ───────────────────────────────────────────
+//
+// Amsler screening logic:
+//   - All lines straight, centre dot seen → normal
+//   - Wavy or blurred lines away from the centre only → mild; may be
+//     early or longstanding macular change
+//   - Any missing area, any distortion within the central 10°, or a
+//     centre dot that cannot be seen → significant.  New central
+//     distortion is the warning sign of wet macular degeneration,
+//     which is treatable only if caught within days to weeks.
+
+const isCentral = ({ col, row }: Pick<AmslerMark, 'col' | 'row'>): boolean =>
+  Math.abs(col + 0.5 - GRID_SQUARES / 2) <= CENTRAL_RADIUS_SQUARES &&
+  Math.abs(row + 0.5 - GRID_SQUARES / 2) <= CENTRAL_RADIUS_SQUARES;
+
+const interpretEyeResult = (sawCentreDot: boolean, marks: AmslerMark[]): EyeAmslerResult => {
+  const centralInvolvement = marks.some(isCentral);
+
+  let severity: AmslerSeverity;
+  if (!sawCentreDot || centralInvolvement || marks.some(m => m.finding === 'missing')) {
+    severity = 'significant';
+  } else if (marks.length > 0) {
+    severity = 'mild';
+  } else {
+    severity = 'none';
+  }
+
+  return { sawCentreDot, marks, centralInvolvement, severity };
+};
+
+export const getAmslerOverall = (
+  right: EyeAmslerResult | null,
+  left: EyeAmslerResult | null,
+): AmslerSeverity => {
+  const severityOrder = ['none', 'mild', 'significant'] as const;
+  const rIdx = severityOrder.indexOf(right?.severity ?? 'none');
+  const lIdx = severityOrder.indexOf(left?.severity ?? 'none');
+  return severityOrder[Math.max(rIdx, lIdx)];
+};
+
+export const getAmslerRecommendation = (overall: AmslerSeverity): string => {
+  if (overall === 'none') {
+    return t('amsler.recNone');
+  }
+  if (overall === 'mild') {
+    return t('amsler.recMild');
+  }
+  return t('amsler.recSignificant');
+};
+
+const FINDING_COLORS: Record<AmslerFinding, string> = {
+  distorted: 'rgba(249,168,37,0.55)',
+  missing: 'rgba(198,40,40,0.55)',
+};
+
+// ─── COMPONENT ───────────────────────────────────────────────────────
+export default function AmslerGridTest({ onComplete, onExit }: Props) {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<TestPhase>('welcome');
+  const [currentEye, setCurrentEye] = useState<Eye>('right');
+
+  // Marks on the grid for the eye being tested
+  const [marks, setMarks] = useState<MarkMap>({});
+  const [brush, setBrush] = useState<AmslerFinding>('distorted');
+  const [sawCentreDot, setSawCentreDot] = useState(true);
+
+  // Final results
+  const [rightResult, setRightResult] = useState<EyeAmslerResult | null>(null);
+  const [leftResult, setLeftResult] = useState<EyeAmslerResult | null>(null);
+
+  const squareSize = getSquareSize();
+  const squareMm = getSquareMm();
+  const viewingDistanceCm = getViewingDistanceCm(squareMm);
+
+  useVoiceGuidance(getPhasePrompts(phase, currentEye));
+
+  // ─── Session quality ────────────────────────
+  // Each eye's grid starts the response clock; the answer is "Done"
+  const quality = useQualityRecorder();
+  useEffect(() => {
+    if (phase === 'centre-check') quality.present();
+  }, [quality, phase, currentEye]);
+
+  // Held across both eyes, so the grid never flickers between them
+  const brightnessHeld = phase !== 'welcome' && phase !== 'setup' && phase !== 'results';
+  useBrightnessPolicy(brightnessHeld ? BRIGHTNESS_POLICIES.amsler : null, quality.brightness);
+
+  // ─── System back button handling ─────────────
+  useEffect(() => {
+    const handler = BackHandler.addEventListener('hardwareBackPress', () => {
+      quality.backPress();
+      const prev = PREVIOUS_PHASE[phase];
+      if (prev === 'exit') {
+        onExit?.();
+      } else {
+        setPhase(prev);
+      }
+      return true;
+    });
+    return () => handler.remove();
+  }, [phase, onExit, quality]);
+
+  // ─── Tracing on the grid ────────────────────
+  // A touch that starts on a square already marked with the current
+  // brush erases along its path; any other touch paints.  A tap is a
+  // one-square trace, so tapping toggles a square.
+  const marksRef = useRef(marks);
+  marksRef.current = marks;
+  const brushRef = useRef(brush);
+  brushRef.current = brush;
+  const squareSizeRef = useRef(squareSize);
+  squareSizeRef.current = squareSize;
+  const strokeRef = useRef<{ erase: boolean; lastKey: string | null }>({ erase: false, lastKey: null });
+
+  const squareAt = (x: number, y: number): string | null => {
+    const col = Math.floor(x / squareSizeRef.current);
+    const row = Math.floor(y / squareSizeRef.current);
+    if (col < 0 || row < 0 || col >= GRID_SQUARES || row >= GRID_SQUARES) return null;
+    return markKey(col, row);
+  };
+
+  const paintSquare = (key: string | null) => {
+    const stroke = strokeRef.current;
+    if (!key || key === stroke.lastKey) return;
+    stroke.lastKey = key;
+    setMarks(prev => {
+      if (stroke.erase) {
+        if (!(key in prev)) return prev;
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      }
+      return prev[key] === brushRef.current ? prev : { ...prev, [key]: brushRef.current };
+    });
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (evt) => {
+        const key = squareAt(evt.nativeEvent.locationX, evt.nativeEvent.locationY);
+        strokeRef.current = {
+          erase: !!key && marksRef.current[key] === brushRef.current,
+          lastKey: null,
+        };
+        paintSquare(key);
+      },
+      onPanResponderMove: (evt) => {
+        paintSquare(squareAt(evt.nativeEvent.locationX, evt.nativeEvent.locationY));
+      },
+      onPanResponderTerminationRequest: () => false,
+    }),
+  ).current;
+
+  // ─── Finish one eye ─────────────────────────
+  const handleEyeDone = (finalMarks: MarkMap) => {
+    quality.answer();
+    const result = interpretEyeResult(sawCentreDot, toMarks(finalMarks));
+    if (currentEye === 'right') {
+      setRightResult(result);
+      setMarks({});
+      setCurrentEye('left');
+      setPhase('switch-eye');
+    } else {
+      setLeftResult(result);
+      finishTest(rightResult!, result);
+    }
+  };
+
+  const finishTest = (right: EyeAmslerResult, left: EyeAmslerResult) => {
+    setPhase('results');
+    onComplete?.(getResults(right, left));
+  };
+
+  const getResults = (
+    right: EyeAmslerResult | null = rightResult,
+    left: EyeAmslerResult | null = leftResult,
+  ): AmslerResults => {
+    const overall = getAmslerOverall(right, left);
+    return {
+      rightEye: right,
+      leftEye: left,
+      overall,
+      recommendation: getAmslerRecommendation(overall),
+      gridSquareMm: squareMm,
+      viewingDistanceCm,
+      quality: quality.summary(),
+    };
+  };
+
+  const resetTest = () => {
+    setCurrentEye('right');
+    setMarks({});
+    setBrush('distorted');
+    setSawCentreDot(true);
+    setRightResult(null);
+    setLeftResult(null);
+    setPhase('test-instructions');
+  };
+
+  const getSeverityColor = (severity: AmslerSeverity): string => {
+    switch (severity) {
+      case 'none': return '#2E7D32';
+      case 'mild': return '#F9A825';
+      case 'significant': return '#C62828';
+    }
+  };
+
+  // ─── RENDER: Amsler Grid SVG ────────────────
+  const renderGrid = (size: number, gridMarks: MarkMap, interactive: boolean) => {
+    const gridSize = size * GRID_SQUARES;
+    const center = gridSize / 2;
+    const strokeWidth = Math.max(1, mmToDp(GRID_LINE_MM) * (size / squareSize));
+    const lines = Array.from({ length: GRID_SQUARES + 1 }, (_, i) => i * size);
+
+    return (
+      <View style={styles.gridContainer}>
+        <Svg width={gridSize} height={gridSize} viewBox={`0 0 ${gridSize} ${gridSize}`}>
+          <Rect x={0} y={0} width={gridSize} height={gridSize} fill="#FFFFFF" />
+
+          {/* Marked squares, under the lines */}
+          {toMarks(gridMarks).map(({ col, row, finding }) => (
+            <Rect
+              key={markKey(col, row)}
+              x={col * size}
+              y={row * size}
+              width={size}
+              height={size}
+              fill={FINDING_COLORS[finding]}
+            />
+          ))}
+
+          {lines.map(pos => (
+            <React.Fragment key={pos}>
+              <Line x1={pos} y1={0} x2={pos} y2={gridSize} stroke="#212121" strokeWidth={strokeWidth} />
+              <Line x1={0} y1={pos} x2={gridSize} y2={pos} stroke="#212121" strokeWidth={strokeWidth} />
+            </React.Fragment>
+          ))}
+
+          {/* Center fixation dot */}
+          <Circle cx={center} cy={center} r={Math.max(3, size * 0.3)} fill="#212121" />
+        </Svg>
+
+        {interactive && (
+          <View
+            style={[styles.traceOverlay, { width: gridSize, height: gridSize }]}
+            {...panResponder.panHandlers}
+          />
+        )}
+      </View>
+    );
+  };
+
+  // ===== WELCOME SCREEN =====
+  if (phase === 'welcome') {
+    return (
+      <TestPage footer={<BottomButtons label={t('common.startScreening')} onPress={() => setPhase('setup')} />}>
+        <HeaderBanner emoji="▦" title={t('amsler.title')} subtitle={t('amsler.subtitle')} onBack={onExit} />
+
+        <Card title={t('amsler.whatIs')}>
+          <InfoRow icon="👁️" label={t('amsler.maculaLabel')} description={t('amsler.maculaDesc')} />
+          <Divider />
+          <InfoRow icon="▦" label={t('amsler.howLabel')} description={t('amsler.howDesc')} />
+          <Divider />
+          <InfoRow icon="⏱️" label={t('amsler.durationLabel')} description={t('amsler.durationDesc')} />
+        </Card>
+
+        <Card title={t('common.clinicalStandard')}>
+          <Text style={testStyles.bodyText}>{t('amsler.clinicalBody')}</Text>
+          <TipBox>{t('amsler.clinicalTip')}</TipBox>
+        </Card>
+      </TestPage>
+    );
+  }
+
+  // ===== SETUP SCREEN =====
+  if (phase === 'setup') {
+    return (
+      <TestPage footer={<BottomButtons label={t('common.beginTest')} onPress={resetTest} />}>
+        <HeaderBanner
+          emoji="💡"
+          title={t('common.setupInstructions')}
+          subtitle={t('common.optimalConditions')}
+          onBack={() => setPhase('welcome')}
+        />
+
+        <Card title={t('common.environmentSetup')}>
+          <StepRow marker="1">{t('amsler.setupStep1')}</StepRow>
+          <StepRow marker="2">{t('amsler.setupStep2', { cm: viewingDistanceCm })}</StepRow>
+          <StepRow marker="3">{t('amsler.setupStep3')}</StepRow>
+        </Card>
+
+        <Card title={t('amsler.procedure')}>
+          <StepRow marker="•" color="#00838F">{t('amsler.procStep1')}</StepRow>
+          <StepRow marker="👆" color="#00838F">{t('amsler.procStep2')}</StepRow>
+          <StepRow marker="✓" color="#00838F">{t('amsler.procStep3')}</StepRow>
+          <TipBox>{t('amsler.procTip')}</TipBox>
+        </Card>
+      </TestPage>
+    );
+  }
+
+  // ===== TEST INSTRUCTIONS (per eye) =====
+  if (phase === 'test-instructions') {
+    const isRight = currentEye === 'right';
+    return (
+      <View style={testStyles.screenFlex}>
+        <EyeBanner
+          title={t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
+          subtitle={t(isRight ? 'astig.coverLeftShort' : 'astig.coverRightShort')}
+        />
+
+        <CoverEyePrompt
+          title={t(isRight ? 'astig.coverLeftTitle' : 'astig.coverRightTitle')}
+          description={t('amsler.coverDesc', {
+            eye: t(isRight ? 'astig.eyeLeft' : 'astig.eyeRight'),
+            cm: viewingDistanceCm,
+          })}
+          hint={t('amsler.instructionHint')}
+        />
+
+        <BottomButtons
+          label={t('amsler.showGrid')}
+          onPress={() => {
+            setMarks({});
+            setSawCentreDot(true);
+            setPhase('centre-check');
+          }}
+        />
+      </View>
+    );
+  }
+
+  // ===== CENTRE DOT CHECK =====
+  if (phase === 'centre-check') {
+    const isRight = currentEye === 'right';
+    return (
+      <View style={[testStyles.screen, testStyles.testScreen]}>
+        <EyeBanner
+          title={t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
+          subtitle={t(isRight ? 'astig.leftCovered' : 'astig.rightCovered')}
+        />
+
+        <View style={styles.gridArea}>
+          {renderGrid(squareSize, {}, false)}
+        </View>
+
+        <View style={testStyles.testBottomSection}>
+          <Text style={testStyles.questionText}>{t('amsler.centreQuestion')}</Text>
+          <View style={styles.actionRow}>
+            <TouchableOpacity
+              style={styles.equalBtn}
+              onPress={() => {
+                setSawCentreDot(false);
+                setPhase('test');
+              }}
+            >
+              <Text style={styles.equalBtnText}>{t('common.no')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.submitBtn}
+              onPress={() => {
+                setSawCentreDot(true);
+                setPhase('test');
+              }}
+            >
+              <Text style={styles.submitBtnText}>{t('common.yes')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== MAIN TEST SCREEN =====
+  if (phase === 'test') {
+    const isRight = currentEye === 'right';
+    const markCount = Object.keys(marks).length;
+
+    return (
+      <View style={[testStyles.screen, testStyles.testScreen]}>
+        <EyeBanner
+          title={t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
+          subtitle={t(isRight ? 'astig.leftCovered' : 'astig.rightCovered')}
+        />
+        <ProgressBar percent={isRight ? 25 : 75} />
+
+        {/* Grid area */}
+        <View style={styles.gridArea}>
+          {renderGrid(squareSize, marks, true)}
+        </View>
+
+        {/* Bottom section */}
+        <View style={testStyles.testBottomSection}>
+          <Text style={testStyles.questionText}>{t('amsler.markQuestion')}</Text>
+
+          <View style={styles.brushRow}>
+            {(['distorted', 'missing'] as const).map(finding => (
+              <TouchableOpacity
+                key={finding}
+                style={[styles.brushChip, brush === finding && styles.brushChipActive]}
+                onPress={() => setBrush(finding)}
+              >
+                <View style={[styles.brushSwatch, { backgroundColor: FINDING_COLORS[finding] }]} />
+                <Text style={[styles.brushText, brush === finding && styles.brushTextActive]}>
+                  {t(finding === 'distorted' ? 'amsler.brushDistorted' : 'amsler.brushMissing')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {markCount > 0 && (
+            <Text style={styles.selectedInfo}>
+              {t(markCount === 1 ? 'amsler.markedOne' : 'amsler.markedMany', { count: markCount })}
+            </Text>
+          )}
+
+          <View style={styles.actionRow}>
+            {markCount === 0 ? (
+              <TouchableOpacity style={styles.equalBtn} onPress={() => handleEyeDone({})}>
+                <Text style={styles.equalBtnText}>{t('amsler.allStraight')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity style={styles.equalBtn} onPress={() => setMarks({})}>
+                <Text style={styles.equalBtnText}>{t('amsler.clear')}</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.submitBtn, markCount === 0 && styles.submitBtnDisabled]}
+              onPress={() => handleEyeDone(marks)}
+              disabled={markCount === 0}
+            >
+              <Text style={[styles.submitBtnText, markCount === 0 && styles.submitBtnTextDisabled]}>
+                {t('common.done')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== SWITCH EYE SCREEN =====
+  if (phase === 'switch-eye') {
+    return (
+      <View style={testStyles.screenFlex}>
+        <EyeBanner title={t('common.rightEyeComplete')} subtitle={t('common.nowTestingLeft')} />
+
+        <SwitchEyePrompt title={t('common.switchEyes')} description={t('amsler.switchDesc')}>
+          {rightResult && (
+            <MiniResultCard
+              title={t('common.rightEyeResult')}
+              color={getSeverityColor(rightResult.severity)}
+              text={rightResult.marks.length === 0
+                ? t('amsler.miniNone')
+                : t(rightResult.marks.length === 1 ? 'amsler.markedOne' : 'amsler.markedMany', {
+                    count: rightResult.marks.length,
+                  })}
+            />
+          )}
+        </SwitchEyePrompt>
+
+        <BottomButtons label={t('common.testLeftEye')} onPress={() => setPhase('test-instructions')} />
+      </View>
+    );
+  }
+
+  // ===== RESULTS SCREEN =====
+  if (phase === 'results') {
+    const results = getResults();
+    const severityColor = getSeverityColor(results.overall);
+    // Two maps side by side inside a card
+    const mapSquareSize = (SCREEN_WIDTH - 32 - 40 - 12) / 2 / GRID_SQUARES;
+
+    const renderEyeResult = (eye: Eye, result: EyeAmslerResult | null) => {
+      if (!result) return null;
+      const distorted = result.marks.filter(m => m.finding === 'distorted').length;
+      const missing = result.marks.length - distorted;
+
+      return (
+        <View style={styles.eyeResultBlock}>
+          <View style={styles.eyeResultHeader}>
+            <Text style={styles.eyeResultLabel}>{t(eye === 'right' ? 'astig.rightOD' : 'astig.leftOS')}</Text>
+            <Text style={[styles.eyeResultSeverity, { color: getSeverityColor(result.severity) }]}>
+              {t(`amsler.${result.severity}`)}
+            </Text>
+          </View>
+          {!result.sawCentreDot && (
+            <Text style={styles.eyeResultDetail}>{t('amsler.noCentreDot')}</Text>
+          )}
+          {result.marks.length === 0 ? (
+            <Text style={styles.eyeResultDetail}>{t('amsler.allStraightResult')}</Text>
+          ) : (
+            <>
+              <Text style={styles.eyeResultDetail}>
+                {t('amsler.markCounts', { distorted, missing })}
+              </Text>
+              {result.centralInvolvement && (
+                <Text style={[styles.eyeResultDetail, { color: '#C62828' }]}>
+                  {t('amsler.centralInvolved')}
+                </Text>
+              )}
+            </>
+          )}
+        </View>
+      );
+    };
+
+    return (
+      <TestPage
+        footer={
+          <BottomButtons
+            label={t('common.done')}
+            onPress={() => onExit?.()}
+            ghostLabel={t('common.retakeTest')}
+            onGhostPress={resetTest}
+          />
+        }
+      >
+        <HeaderBanner
+          emoji={results.overall === 'none' ? '✅' : '⚠️'}
+          title={t('amsler.resultsTitle')}
+          subtitle={t('amsler.subtitle')}
+          onBack={onExit}
+          color={results.overall === 'none' ? '#2E7D32' : '#E65100'}
+        />
+
+        {/* Overall result */}
+        <Card title={t('common.overallAssessment')}>
+          <View style={styles.overallResultBox}>
+            <View style={[styles.overallIndicator, { borderColor: severityColor }]}>
+              <Text style={[styles.overallLabel, { color: severityColor }]}>
+                {t(`amsler.${results.overall}`)}
+              </Text>
+            </View>
+          </View>
+        </Card>
+
+        {/* Per-eye results */}
+        <Card title={t('common.eyeByEye')}>
+          {renderEyeResult('right', results.rightEye)}
+          <Divider />
+          {renderEyeResult('left', results.leftEye)}
+        </Card>
+
+        {/* Distortion maps */}
+        <Card title={t('amsler.mapTitle')}>
+          <View style={styles.mapRow}>
+            {([['right', results.rightEye], ['left', results.leftEye]] as const).map(([eye, result]) => (
+              <View key={eye} style={styles.mapBlock}>
+                {renderGrid(mapSquareSize, toMarkMap(result?.marks ?? []), false)}
+                <Text style={styles.mapLabel}>{t(eye === 'right' ? 'common.rightEye' : 'common.leftEye')}</Text>
+              </View>
+            ))}
+          </View>
+          <View style={styles.legendRow}>
+            <View style={[styles.brushSwatch, { backgroundColor: FINDING_COLORS.distorted }]} />
+            <Text style={styles.legendText}>{t('amsler.brushDistorted')}</Text>
+            <View style={[styles.brushSwatch, { backgroundColor: FINDING_COLORS.missing }]} />
+            <Text style={styles.legendText}>{t('amsler.brushMissing')}</Text>
+          </View>
+        </Card>
+
+        {/* Diagnosis & recommendation */}
+        <Card
+          title={results.overall === 'none' ? t('common.assessment') : t('common.assessmentWarning')}
+          style={[testStyles.diagnosisCard, { borderLeftColor: severityColor }]}
+        >
+          <Text style={testStyles.diagnosisText}>{results.recommendation}</Text>
+
+          {results.overall !== 'none' && (
+            <>
+              <View style={{ height: 12 }} />
+              <Text style={testStyles.recommendTitle}>{t('common.whatThisMeans')}</Text>
+              <Text style={testStyles.recommendText}>
+                {t('amsler.whatMeansBody')}
+              </Text>
+            </>
+          )}
+        </Card>
+
+        {/* Methodology */}
+        <Card title={t('common.methodology')}>
+          <SummaryRow label={t('common.testMethod')} value={t('amsler.testMethodValue')} />
+          <SummaryRow label={t('amsler.grid')} value={t('amsler.gridValue', { mm: results.gridSquareMm })} />
+          <SummaryRow
+            label={t('amsler.viewingDistance')}
+            value={t('amsler.viewingDistanceValue', { cm: results.viewingDistanceCm })}
+          />
+          <SummaryRow label={t('common.eyesTested')} value={t('common.eyesTestedMonocular')} />
+        </Card>
+
+        {/* What this test cannot do */}
+        <Card title={t('common.limitations')}>
+          <LimitRow icon="❌" text={t('amsler.limit1')} />
+          <LimitRow icon="❌" text={t('amsler.limit2')} />
+          <Divider />
+          <LimitRow icon="✅" text={t('amsler.can1')} />
+          <LimitRow icon="✅" text={t('amsler.can2')} />
+        </Card>
+
+        <Disclaimer>{t('amsler.disclaimer')}</Disclaimer>
+      </TestPage>
+    );
+  }
+
+  return null;
+}
+
+// ─── STYLES ──────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  // ── Grid Display ──
+  gridArea: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  gridContainer: {
+    position: 'relative',
+    backgroundColor: '#FFFFFF',
+  },
+  traceOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+
+  // ── Test Controls ──
+  selectedInfo: {
+    fontSize: 13,
+    color: '#00838F',
+    textAlign: 'center',
+    marginBottom: 10,
+    fontWeight: '500',
+  },
+  brushRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 10,
+  },
+  brushChip: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  brushChipActive: {
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    backgroundColor: '#E0F7FA',
+  },
+  brushSwatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 3,
+    marginRight: 8,
+  },
+  brushText: {
+    fontSize: 14,
+    color: '#616161',
+    fontWeight: '500',
+  },
+  brushTextActive: {
+    color: '#00838F',
+    fontWeight: '700',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  equalBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#80DEEA',
+  },
+  equalBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#00838F',
+  },
+  submitBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    backgroundColor: '#00ACC1',
+    borderRadius: 12,
+    alignItems: 'center',
+    shadowColor: '#00ACC1',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  submitBtnDisabled: {
+    backgroundColor: '#E0E0E0',
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  submitBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  submitBtnTextDisabled: {
+    color: '#9E9E9E',
+  },
+
+  // ── Results ──
+  overallResultBox: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  overallIndicator: {
+    borderWidth: 3,
+    borderRadius: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+  },
+  overallLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+
+  eyeResultBlock: {
+    paddingVertical: 8,
+  },
+  eyeResultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  eyeResultLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#424242',
+  },
+  eyeResultSeverity: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  eyeResultDetail: {
+    fontSize: 14,
+    color: '#616161',
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+
+  // ── Distortion Maps ──
+  mapRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  mapBlock: {
+    alignItems: 'center',
+  },
+  mapLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#616161',
+    marginTop: 6,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 12,
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#616161',
+    marginRight: 16,
+  },
+});
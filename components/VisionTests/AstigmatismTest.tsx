@@ -10,9 +10,19 @@ import {
     View
 } from 'react-native';
 import Svg, { Circle, Line } from 'react-native-svg';
+import { BRIGHTNESS_POLICIES, useBrightnessPolicy } from '../../lib/brightnessService';
+import { mmToDp } from '../../lib/screenCalibration';
+import type {
+  AstigmatismResults,
+  AstigmatismSeverity,
+  Eye,
+  EyeAstigmatismResult,
+} from '../../lib/screeningSession';
+import { t, useI18n } from '../../lib/i18n';
+import { useQualityRecorder } from '../../lib/sessionQuality';
+import { useVoiceGuidance, type VoicePromptKey } from '../../lib/voiceService';
 
 // ─── TYPES ───────────────────────────────────────────────────────────
-type Eye = 'right' | 'left';
 type TestPhase =
   | 'welcome'
   | 'setup'
@@ -22,32 +32,45 @@ type TestPhase =
   | 'switch-eye'
   | 'results';
 
-interface EyeAstigmatismResult {
-  selectedAngles: number[];      // Angles the user said looked darker/clearer
-  isUniform: boolean;            // True = all lines equally clear
-  suspectedAxis: number | null;  // Estimated axis in degrees (perpendicular to darkest line)
-  severity: 'none' | 'mild' | 'moderate' | 'significant';
-  consistent: boolean;           // Was the repeat test consistent with the first?
-}
-
-interface TestResults {
-  rightEye: EyeAstigmatismResult | null;
-  leftEye: EyeAstigmatismResult | null;
-  overallSuspicion: 'none' | 'mild' | 'moderate' | 'significant';
-  recommendation: string;
-}
+// Where the system back button goes from each phase
+const PREVIOUS_PHASE: Record<TestPhase, TestPhase | 'exit'> = {
+  'welcome': 'exit',
+  'setup': 'welcome',
+  'test-instructions': 'setup',
+  'test': 'test-instructions',
+  'confirm': 'test',
+  'switch-eye': 'test',
+  'results': 'test',
+};
 
 interface Props {
-  onComplete?: (results: TestResults) => void;
+  onComplete?: (results: AstigmatismResults) => void;
   onExit?: () => void;
 }
 
+// What is said on entering each phase; the dial prompt changes for the confirmation round
+function getPhasePrompts(phase: TestPhase, eye: Eye, round: 1 | 2): VoicePromptKey[] {
+  switch (phase) {
+    case 'welcome': return ['voice.astig.welcome'];
+    case 'setup': return ['voice.astig.setup'];
+    case 'test-instructions': return [eye === 'right' ? 'voice.coverLeftEye' : 'voice.coverRightEye'];
+    case 'test': return [round === 1 ? 'voice.astig.look' : 'voice.astig.lookAgain'];
+    case 'confirm': return ['voice.astig.confirm'];
+    case 'switch-eye': return ['voice.rightEyeDone', 'voice.coverRightEye'];
+    case 'results': return ['voice.astig.complete', 'voice.resultsOnScreen'];
+  }
+}
+
 // ─── SCREEN DIMENSIONS ──────────────────────────────────────────────
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-// Dial should be large enough to see clearly but fit comfortably
-// Target ~5–7 cm on screen. On most phones, width - 64 achieves this.
-const DIAL_SIZE = Math.min(SCREEN_WIDTH - 48, 360);
+// Dial is drawn at a fixed physical size — 6 cm across with 0.4 mm
+// lines — using the per-device card calibration, so the spokes subtend
+// the same angle at 40 cm on every phone.  Narrow screens clamp it.
+const DIAL_DIAMETER_MM = 60;
+const DIAL_LINE_MM = 0.4;
+
+const getDialSize = (): number => Math.round(Math.min(SCREEN_WIDTH - 48, mmToDp(DIAL_DIAMETER_MM)));
 
 // ─── ASTIGMATIC DIAL CONFIGURATION ──────────────────────────────────
 //
@@ -143,7 +166,7 @@ const interpretEyeResult = (
   const suspectedAxis = (avgAngle + 90) % 180;
 
   // Severity based on number of lines selected and consistency
-  let severity: 'none' | 'mild' | 'moderate' | 'significant';
+  let severity: AstigmatismSeverity;
   if (firstPass.length === 1 && consistent) {
     severity = 'mild';
   } else if (firstPass.length <= 2 && consistent) {
@@ -199,40 +222,41 @@ const averageAngles = (angles: number[]): number => {
   return (mean / 2) % 180;
 };
 
-const getOverallSuspicion = (
+export const getOverallSuspicion = (
   right: EyeAstigmatismResult | null,
   left: EyeAstigmatismResult | null,
-): 'none' | 'mild' | 'moderate' | 'significant' => {
+): AstigmatismSeverity => {
   const severityOrder = ['none', 'mild', 'moderate', 'significant'] as const;
   const rIdx = severityOrder.indexOf(right?.severity ?? 'none');
   const lIdx = severityOrder.indexOf(left?.severity ?? 'none');
   return severityOrder[Math.max(rIdx, lIdx)];
 };
 
-const getRecommendation = (
-  overall: 'none' | 'mild' | 'moderate' | 'significant',
+export const getRecommendation = (
+  overall: AstigmatismSeverity,
   right: EyeAstigmatismResult | null,
   left: EyeAstigmatismResult | null,
 ): string => {
   if (overall === 'none') {
-    return 'No signs of astigmatism detected. Your vision appears to focus evenly in all directions. Continue routine eye checkups every 1–2 years.';
+    return t('astig.recNone');
   }
   if (overall === 'mild') {
     const inconsistent = (right && !right.consistent) || (left && !left.consistent);
     if (inconsistent) {
-      return 'Results were slightly inconsistent. This could be due to eye fatigue or testing conditions. Consider retesting after resting your eyes, or visit an eye care professional if you notice distorted or stretched vision.';
+      return t('astig.recInconsistent');
     }
-    return 'Mild directional focus difference detected. This may indicate a small amount of astigmatism. While often not vision-affecting, consider an optometric examination if you experience headaches, eye strain, or difficulty with fine detail.';
+    return t('astig.recMild');
   }
   if (overall === 'moderate') {
-    return 'Moderate directional focus imbalance detected in one or both eyes. This is consistent with astigmatism that may benefit from corrective lenses. We recommend visiting an optometrist for a comprehensive refraction test with a Jackson Cross Cylinder to determine the exact prescription.';
+    return t('astig.recModerate');
   }
   // significant
-  return 'Significant directional focus imbalance detected. This strongly suggests astigmatism that likely affects your daily vision. Please visit an eye care professional promptly for a full refraction assessment. Corrective glasses or contact lenses (toric lenses) can substantially improve your vision clarity.';
+  return t('astig.recSignificant');
 };
 
 // ─── COMPONENT ───────────────────────────────────────────────────────
 export default function AstigmatismTest({ onComplete, onExit }: Props) {
+  const { t } = useI18n();
   const [phase, setPhase] = useState<TestPhase>('welcome');
   const [currentEye, setCurrentEye] = useState<Eye>('right');
   const [testRound, setTestRound] = useState<1 | 2>(1); // 1 = first pass, 2 = confirmation pass
@@ -251,6 +275,19 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
   const [rightResult, setRightResult] = useState<EyeAstigmatismResult | null>(null);
   const [leftResult, setLeftResult] = useState<EyeAstigmatismResult | null>(null);
 
+  useVoiceGuidance(getPhasePrompts(phase, currentEye, testRound));
+
+  // ─── Session quality ────────────────────────
+  // Each round of the dial starts the response clock
+  const quality = useQualityRecorder();
+  useEffect(() => {
+    if (phase === 'test') quality.present();
+  }, [quality, phase, currentEye, testRound]);
+
+  // Held across both eyes' rounds, so the dial never flickers between them
+  const brightnessHeld = phase !== 'welcome' && phase !== 'setup' && phase !== 'results';
+  useBrightnessPolicy(brightnessHeld ? BRIGHTNESS_POLICIES.astigmatism : null, quality.brightness);
+
   // ─── Animations ─────────────────────────────
   // Reset fade to fully visible whenever we enter the test phase
   useEffect(() => {
@@ -269,19 +306,10 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
   }, [fadeAnim]);
 
   // ─── System back button handling ─────────────
-  const previousPhaseMap: Record<TestPhase, TestPhase | 'exit'> = {
-    'welcome': 'exit',
-    'setup': 'welcome',
-    'test-instructions': 'setup',
-    'test': 'test-instructions',
-    'confirm': 'test',
-    'switch-eye': 'test',
-    'results': 'test',
-  };
-
   useEffect(() => {
     const handler = BackHandler.addEventListener('hardwareBackPress', () => {
-      const prev = previousPhaseMap[phase];
+      quality.backPress();
+      const prev = PREVIOUS_PHASE[phase];
       if (prev === 'exit') {
         onExit?.();
       } else {
@@ -290,7 +318,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
       return true;
     });
     return () => handler.remove();
-  }, [phase]);
+  }, [phase, onExit, quality]);
 
   // ─── Toggle a line angle ────────────────────
   const toggleAngle = (angle: number) => {
@@ -303,6 +331,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
   // ─── Submit current round ───────────────────
   const handleSubmitRound = () => {
+    quality.answer();
     if (currentEye === 'right') {
       if (testRound === 1) {
         setRightEyeRound1([...selectedAngles]);
@@ -340,6 +369,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
   // ─── "All Lines Equal" shortcut ─────────────
   const handleAllEqual = () => {
+    quality.answer();
     if (currentEye === 'right') {
       if (testRound === 1) {
         setRightEyeRound1([]);
@@ -375,11 +405,12 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
     const overall = getOverallSuspicion(right, left);
     const recommendation = getRecommendation(overall, right, left);
 
-    const finalResults: TestResults = {
+    const finalResults: AstigmatismResults = {
       rightEye: right,
       leftEye: left,
       overallSuspicion: overall,
       recommendation,
+      quality: quality.summary(),
     };
 
     setPhase('results');
@@ -387,7 +418,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
   };
 
   // ─── Compute results for display ────────────
-  const getResults = (): TestResults => {
+  const getResults = (): AstigmatismResults => {
     const overall = getOverallSuspicion(rightResult, leftResult);
     const recommendation = getRecommendation(overall, rightResult, leftResult);
     return {
@@ -395,6 +426,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
       leftEye: leftResult,
       overallSuspicion: overall,
       recommendation,
+      quality: quality.summary(),
     };
   };
 
@@ -410,11 +442,11 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
   const getSeverityLabel = (severity: string): string => {
     switch (severity) {
-      case 'none': return 'No Astigmatism Detected';
-      case 'mild': return 'Mild Suspicion';
-      case 'moderate': return 'Moderate Suspicion';
-      case 'significant': return 'Significant Suspicion';
-      default: return 'Unknown';
+      case 'none': return t('astig.none');
+      case 'mild': return t('astig.mild');
+      case 'moderate': return t('astig.moderate');
+      case 'significant': return t('astig.significant');
+      default: return t('astig.unknown');
     }
   };
 
@@ -424,15 +456,16 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
   // ─── RENDER: Astigmatic Dial SVG ───────────
   const renderDial = (interactive: boolean, highlightAngles: number[] = []) => {
-    const center = DIAL_SIZE / 2;
-    const radius = DIAL_SIZE / 2 - 16;
+    const dialSize = getDialSize();
+    const center = dialSize / 2;
+    const radius = dialSize / 2 - 16;
     const lineLength = radius * 0.85;
-    const strokeWidth = 2.5;
+    const strokeWidth = mmToDp(DIAL_LINE_MM);
 
     return (
       <View style={styles.dialWrapper}>
         <View style={styles.dialContainer}>
-          <Svg width={DIAL_SIZE} height={DIAL_SIZE} viewBox={`0 0 ${DIAL_SIZE} ${DIAL_SIZE}`}>
+          <Svg width={dialSize} height={dialSize} viewBox={`0 0 ${dialSize} ${dialSize}`}>
             {/* Background circle — very light gray for contrast */}
             <Circle
               cx={center}
@@ -480,7 +513,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
         {/* Interactive tap zones */}
         {interactive && (
-          <View style={[styles.tapZoneOverlay, { width: DIAL_SIZE, height: DIAL_SIZE }]}>
+          <View style={[styles.tapZoneOverlay, { width: dialSize, height: dialSize }]}>
             {LINE_ANGLES.map((angle) => {
               const rad = (angle * Math.PI) / 180;
               const isSelected = selectedAngles.includes(angle);
@@ -549,19 +582,19 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               </TouchableOpacity>
             )}
             <Text style={styles.headerEmoji}>◎</Text>
-            <Text style={styles.headerTitle}>Astigmatism Screening</Text>
-            <Text style={styles.headerSubtitle}>Astigmatic Dial Test</Text>
+            <Text style={styles.headerTitle}>{t('astig.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('astig.subtitle')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>What Is Astigmatism?</Text>
+            <Text style={styles.cardTitle}>{t('astig.whatIs')}</Text>
 
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>👁️</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>Uneven Focus</Text>
+                <Text style={styles.infoLabel}>{t('astig.unevenLabel')}</Text>
                 <Text style={styles.infoDesc}>
-                  Astigmatism means the eye doesn't focus light evenly in all directions. Some angles appear sharper while others look blurry or distorted.
+                  {t('astig.unevenDesc')}
                 </Text>
               </View>
             </View>
@@ -571,9 +604,9 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>📐</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>How We Test</Text>
+                <Text style={styles.infoLabel}>{t('astig.howLabel')}</Text>
                 <Text style={styles.infoDesc}>
-                  You'll look at a dial with lines radiating in all directions, like a clock. If some lines look darker or clearer than others, it may indicate astigmatism.
+                  {t('astig.howDesc')}
                 </Text>
               </View>
             </View>
@@ -583,22 +616,22 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>⏱️</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>3–4 Minutes</Text>
+                <Text style={styles.infoLabel}>{t('astig.durationLabel')}</Text>
                 <Text style={styles.infoDesc}>
-                  Each eye tested separately, with a confirmation round for accuracy. Quick and non-invasive.
+                  {t('astig.durationDesc')}
                 </Text>
               </View>
             </View>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Clinical Standard</Text>
+            <Text style={styles.cardTitle}>{t('common.clinicalStandard')}</Text>
             <Text style={styles.bodyText}>
-              Based on the Astigmatic Dial (Clock Dial) method — the most widely used clinical screening tool for astigmatism. Uses 12 equally-spaced meridian lines at 15° intervals.
+              {t('astig.clinicalBody')}
             </Text>
             <View style={styles.tipBox}>
               <Text style={styles.tipText}>
-                🔬 This is a screening tool that detects directional focus differences. It does NOT measure prescription power — only an optometrist with a Jackson Cross Cylinder can do that.
+                {t('astig.clinicalTip')}
               </Text>
             </View>
           </View>
@@ -606,7 +639,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
         <View style={styles.bottomBtnContainer}>
           <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('setup')}>
-            <Text style={styles.primaryBtnText}>Start Screening</Text>
+            <Text style={styles.primaryBtnText}>{t('common.startScreening')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -623,51 +656,51 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>💡</Text>
-            <Text style={styles.headerTitle}>Setup Instructions</Text>
-            <Text style={styles.headerSubtitle}>Optimal Conditions for Accurate Results</Text>
+            <Text style={styles.headerTitle}>{t('common.setupInstructions')}</Text>
+            <Text style={styles.headerSubtitle}>{t('common.optimalConditions')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Environment Setup</Text>
+            <Text style={styles.cardTitle}>{t('common.environmentSetup')}</Text>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>1</Text></View>
               <Text style={styles.stepText}>
-                Hold your phone at arm's length (~50–75 cm) or the same distance used for your visual acuity test
+                {t('astig.setupStep1')}
               </Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>2</Text></View>
               <Text style={styles.stepText}>
-                Set screen brightness to maximum — glare or dim screens can hide astigmatism
+                {t('astig.setupStep2')}
               </Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>3</Text></View>
               <Text style={styles.stepText}>
-                Ensure neutral indoor lighting — avoid direct sunlight or shadows on the screen
+                {t('astig.setupStep3')}
               </Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>4</Text></View>
               <Text style={styles.stepText}>
-                If you normally wear glasses for distance, wear them during the test
+                {t('astig.setupStep4')}
               </Text>
             </View>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Testing Procedure</Text>
+            <Text style={styles.cardTitle}>{t('astig.procedure')}</Text>
 
             <View style={styles.stepRow}>
               <View style={[styles.stepCircle, { backgroundColor: '#00838F' }]}>
                 <Text style={styles.stepNumber}>👁️</Text>
               </View>
               <Text style={styles.stepText}>
-                Cover your LEFT eye first. We'll test the RIGHT eye, then switch.
+                {t('astig.procStep1')}
               </Text>
             </View>
 
@@ -676,7 +709,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
                 <Text style={styles.stepNumber}>👆</Text>
               </View>
               <Text style={styles.stepText}>
-                Look at the center red dot. Then tap any lines that appear darker, thicker, or clearer than the others.
+                {t('astig.procStep2')}
               </Text>
             </View>
 
@@ -685,13 +718,13 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
                 <Text style={styles.stepNumber}>✓</Text>
               </View>
               <Text style={styles.stepText}>
-                If all lines look equally clear, tap "All Lines Equal". You'll be asked to confirm your answer once.
+                {t('astig.procStep3')}
               </Text>
             </View>
 
             <View style={styles.tipBox}>
               <Text style={styles.tipText}>
-                ⚠️ Focus on the center dot, not on individual lines. Let your peripheral awareness judge which lines stand out. Don't squint — use your natural relaxed vision.
+                {t('astig.procTip')}
               </Text>
             </View>
           </View>
@@ -713,7 +746,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               setPhase('test-instructions');
             }}
           >
-            <Text style={styles.primaryBtnText}>Begin Test</Text>
+            <Text style={styles.primaryBtnText}>{t('common.beginTest')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -727,10 +760,10 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
       <View style={styles.screenFlex}>
         <View style={styles.eyeBanner}>
           <Text style={styles.eyeBannerText}>
-            {isRight ? 'Right Eye (OD)' : 'Left Eye (OS)'}
+            {t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
           </Text>
           <Text style={styles.eyeBannerSub}>
-            {isRight ? 'Cover your LEFT eye' : 'Cover your RIGHT eye'}
+            {t(isRight ? 'astig.coverLeftShort' : 'astig.coverRightShort')}
           </Text>
         </View>
 
@@ -740,11 +773,10 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               {isRight ? '🫣' : '🫣'}
             </Text>
             <Text style={styles.coverEyeTitle}>
-              {isRight ? 'Cover Your Left Eye' : 'Cover Your Right Eye'}
+              {t(isRight ? 'astig.coverLeftTitle' : 'astig.coverRightTitle')}
             </Text>
             <Text style={styles.coverEyeDesc}>
-              Use your palm or an occluder to gently cover your {isRight ? 'left' : 'right'} eye.
-              Do not press on the eye — just block the vision.
+              {t('astig.coverDesc', { eye: t(isRight ? 'astig.eyeLeft' : 'astig.eyeRight') })}
             </Text>
           </View>
 
@@ -753,8 +785,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
           </View>
 
           <Text style={styles.instructionHint}>
-            Focus on the red center dot.{'\n'}
-            Tap any lines that look darker, thicker, or clearer.
+            {t('astig.instructionHint')}
           </Text>
         </View>
 
@@ -767,7 +798,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
             }}
           >
             <Text style={styles.primaryBtnText}>
-              I'm Ready — Show the Dial
+              {t('astig.showDial')}
             </Text>
           </TouchableOpacity>
         </View>
@@ -778,7 +809,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
   // ===== MAIN TEST SCREEN =====
   if (phase === 'test') {
     const isRight = currentEye === 'right';
-    const roundLabel = testRound === 1 ? 'First Look' : 'Confirmation';
+    const roundLabel = t(testRound === 1 ? 'astig.firstLook' : 'astig.confirmation');
     const progress = currentEye === 'right'
       ? (testRound === 1 ? 25 : 50)
       : (testRound === 1 ? 75 : 95);
@@ -788,10 +819,10 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
         {/* Header */}
         <View style={styles.eyeBanner}>
           <Text style={styles.eyeBannerText}>
-            {isRight ? 'Right Eye (OD)' : 'Left Eye (OS)'} — {roundLabel}
+            {t('astig.eyeRound', { eye: t(isRight ? 'astig.rightOD' : 'astig.leftOS'), round: roundLabel })}
           </Text>
           <Text style={styles.eyeBannerSub}>
-            {isRight ? 'Left eye covered' : 'Right eye covered'}
+            {t(isRight ? 'astig.leftCovered' : 'astig.rightCovered')}
           </Text>
         </View>
 
@@ -813,15 +844,15 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
         {/* Bottom section */}
         <View style={styles.testBottomSection}>
           <Text style={styles.questionText}>
-            {testRound === 1
-              ? 'Tap any lines that appear darker or clearer'
-              : 'Confirm: tap the darker/clearer lines again'
-            }
+            {t(testRound === 1 ? 'astig.round1Question' : 'astig.round2Question')}
           </Text>
 
           {selectedAngles.length > 0 && (
             <Text style={styles.selectedInfo}>
-              {selectedAngles.length} line{selectedAngles.length !== 1 ? 's' : ''} selected: {selectedAngles.sort((a, b) => a - b).map(a => `${a}°`).join(', ')}
+              {t(selectedAngles.length === 1 ? 'astig.selectedOne' : 'astig.selectedMany', {
+                count: selectedAngles.length,
+                angles: selectedAngles.sort((a, b) => a - b).map(a => `${a}°`).join(', '),
+              })}
             </Text>
           )}
 
@@ -830,7 +861,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               style={[styles.equalBtn]}
               onPress={handleAllEqual}
             >
-              <Text style={styles.equalBtnText}>All Lines Equal</Text>
+              <Text style={styles.equalBtnText}>{t('astig.allEqual')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
@@ -845,7 +876,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
                 styles.submitBtnText,
                 selectedAngles.length === 0 && styles.submitBtnTextDisabled,
               ]}>
-                {testRound === 1 ? 'Next →' : 'Confirm →'}
+                {t(testRound === 1 ? 'astig.next' : 'astig.confirm')}
               </Text>
             </TouchableOpacity>
           </View>
@@ -863,23 +894,23 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
       <View style={styles.screenFlex}>
         <View style={styles.eyeBanner}>
           <Text style={styles.eyeBannerText}>
-            {isRight ? 'Right Eye (OD)' : 'Left Eye (OS)'} — Confirm
+            {t('astig.eyeConfirm', { eye: t(isRight ? 'astig.rightOD' : 'astig.leftOS') })}
           </Text>
-          <Text style={styles.eyeBannerSub}>Repeat the test for accuracy</Text>
+          <Text style={styles.eyeBannerSub}>{t('astig.repeat')}</Text>
         </View>
 
         <View style={styles.confirmBody}>
-          <Text style={styles.confirmTitle}>Confirmation Round</Text>
+          <Text style={styles.confirmTitle}>{t('astig.confirmTitle')}</Text>
           <Text style={styles.confirmDesc}>
             {firstPassAngles.length === 0
-              ? 'You reported all lines looked equal. Let\'s verify — look at the dial again and confirm whether all lines truly appear the same.'
-              : `You identified ${firstPassAngles.length} darker line${firstPassAngles.length !== 1 ? 's' : ''}. Now look at the dial again with fresh eyes and tell us what you see.`
+              ? t('astig.confirmEqual')
+              : t(firstPassAngles.length === 1 ? 'astig.confirmOne' : 'astig.confirmMany', { count: firstPassAngles.length })
             }
           </Text>
 
           <View style={styles.tipBox}>
             <Text style={styles.tipText}>
-              💡 This repeat helps ensure accuracy. Blink a few times and refocus on the center dot before proceeding.
+              {t('astig.confirmTip')}
             </Text>
           </View>
         </View>
@@ -892,7 +923,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               setPhase('test');
             }}
           >
-            <Text style={styles.primaryBtnText}>Show Dial Again</Text>
+            <Text style={styles.primaryBtnText}>{t('astig.showAgain')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -904,29 +935,31 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
     return (
       <View style={styles.screenFlex}>
         <View style={styles.eyeBanner}>
-          <Text style={styles.eyeBannerText}>Right Eye Complete ✓</Text>
-          <Text style={styles.eyeBannerSub}>Now testing the left eye</Text>
+          <Text style={styles.eyeBannerText}>{t('astig.rightComplete')}</Text>
+          <Text style={styles.eyeBannerSub}>{t('astig.nowLeft')}</Text>
         </View>
 
         <View style={styles.switchBody}>
           <View style={styles.switchCard}>
             <Text style={styles.switchEmoji}>👁️</Text>
-            <Text style={styles.switchTitle}>Switch Eyes</Text>
+            <Text style={styles.switchTitle}>{t('astig.switchEyes')}</Text>
             <Text style={styles.switchDesc}>
-              Now cover your RIGHT eye and keep your LEFT eye open.
+              {t('astig.switchDesc')}
             </Text>
             <Text style={styles.switchHint}>
-              Take a moment to rest your eyes before continuing.
+              {t('astig.switchHint')}
             </Text>
           </View>
 
           {rightResult && (
             <View style={styles.miniResultCard}>
-              <Text style={styles.miniResultTitle}>Right Eye Result</Text>
+              <Text style={styles.miniResultTitle}>{t('astig.rightResult')}</Text>
               <Text style={[styles.miniResultText, { color: getSeverityColor(rightResult.severity) }]}>
                 {rightResult.isUniform
-                  ? 'All lines appeared equal — no astigmatism signs'
-                  : `${rightResult.selectedAngles.length} direction${rightResult.selectedAngles.length !== 1 ? 's' : ''} appeared darker`}
+                  ? t('astig.miniEqual')
+                  : t(rightResult.selectedAngles.length === 1 ? 'astig.miniOne' : 'astig.miniMany', {
+                      count: rightResult.selectedAngles.length,
+                    })}
               </Text>
             </View>
           )}
@@ -941,7 +974,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               setPhase('test-instructions');
             }}
           >
-            <Text style={styles.primaryBtnText}>Test Left Eye</Text>
+            <Text style={styles.primaryBtnText}>{t('astig.testLeft')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -956,7 +989,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
     const renderEyeResult = (eye: 'right' | 'left', result: EyeAstigmatismResult | null) => {
       if (!result) return null;
-      const eyeLabel = eye === 'right' ? 'Right Eye (OD)' : 'Left Eye (OS)';
+      const eyeLabel = t(eye === 'right' ? 'astig.rightOD' : 'astig.leftOS');
       const color = getSeverityColor(result.severity);
 
       return (
@@ -970,22 +1003,22 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
           {result.isUniform ? (
             <Text style={styles.eyeResultDetail}>
-              All lines appeared equally clear — no directional focus difference detected.
+              {t('astig.uniform')}
             </Text>
           ) : (
             <>
               <Text style={styles.eyeResultDetail}>
-                Darker lines reported at: {result.selectedAngles.sort((a, b) => a - b).map(a => `${a}°`).join(', ')}
+                {t('astig.darkerAt', { angles: result.selectedAngles.sort((a, b) => a - b).map(a => `${a}°`).join(', ') })}
               </Text>
               {result.suspectedAxis !== null && (
                 <Text style={styles.eyeResultDetail}>
-                  Suspected astigmatic axis: ~{result.suspectedAxis}°
+                  {t('astig.axis', { axis: result.suspectedAxis })}
                 </Text>
               )}
               <Text style={[styles.eyeResultConsistency, {
                 color: result.consistent ? '#2E7D32' : '#E65100',
               }]}>
-                {result.consistent ? '✓ Consistent across both rounds' : '⚠ Inconsistent between rounds — retest recommended'}
+                {t(result.consistent ? 'astig.consistent' : 'astig.inconsistent')}
               </Text>
             </>
           )}
@@ -1005,13 +1038,13 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               </TouchableOpacity>
             )}
             <Text style={styles.headerEmoji}>{emoji}</Text>
-            <Text style={styles.headerTitle}>Astigmatism Results</Text>
-            <Text style={styles.headerSubtitle}>Astigmatic Dial Screening</Text>
+            <Text style={styles.headerTitle}>{t('astig.resultsTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('astig.resultsSubtitle')}</Text>
           </View>
 
           {/* Overall result */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Overall Assessment</Text>
+            <Text style={styles.cardTitle}>{t('astig.overall')}</Text>
             <View style={styles.overallResultBox}>
               <View style={[styles.overallIndicator, { borderColor: severityColor }]}>
                 <Text style={[styles.overallLabel, { color: severityColor }]}>
@@ -1023,7 +1056,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
           {/* Per-eye results */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Eye-by-Eye Results</Text>
+            <Text style={styles.cardTitle}>{t('astig.eyeByEye')}</Text>
             {renderEyeResult('right', results.rightEye)}
             <View style={styles.divider} />
             {renderEyeResult('left', results.leftEye)}
@@ -1032,9 +1065,9 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
           {/* Visual summary with highlighted dial */}
           {(results.rightEye && !results.rightEye.isUniform) || (results.leftEye && !results.leftEye.isUniform) ? (
             <View style={styles.card}>
-              <Text style={styles.cardTitle}>Affected Meridians</Text>
+              <Text style={styles.cardTitle}>{t('astig.affected')}</Text>
               <Text style={styles.bodyText}>
-                Lines that appeared darker are highlighted in orange below. The astigmatic axis is perpendicular to these lines.
+                {t('astig.affectedBody')}
               </Text>
               <View style={{ marginTop: 12, alignItems: 'center' }}>
                 {renderDial(
@@ -1051,16 +1084,16 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
           {/* Diagnosis & recommendation */}
           <View style={[styles.card, styles.diagnosisCard, { borderLeftColor: severityColor }]}>
             <Text style={styles.cardTitle}>
-              {results.overallSuspicion === 'none' ? 'Assessment' : '⚠️ Assessment'}
+              {results.overallSuspicion === 'none' ? t('common.assessment') : t('common.assessmentWarning')}
             </Text>
             <Text style={styles.diagnosisText}>{results.recommendation}</Text>
 
             {results.overallSuspicion !== 'none' && (
               <>
                 <View style={{ height: 12 }} />
-                <Text style={styles.recommendTitle}>What This Means</Text>
+                <Text style={styles.recommendTitle}>{t('astig.whatMeans')}</Text>
                 <Text style={styles.recommendText}>
-                  Some lines on the dial appeared darker or clearer than others. This suggests the eye may not be focusing light equally in all directions. An optometrist can precisely measure the degree and axis of astigmatism and, if needed, prescribe cylindrical corrective lenses.
+                  {t('astig.whatMeansBody')}
                 </Text>
               </>
             )}
@@ -1068,63 +1101,63 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
 
           {/* Methodology */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Methodology</Text>
+            <Text style={styles.cardTitle}>{t('common.methodology')}</Text>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Test Method</Text>
-              <Text style={styles.summaryValue}>Astigmatic Dial</Text>
+              <Text style={styles.summaryLabel}>{t('astig.testMethod')}</Text>
+              <Text style={styles.summaryValue}>{t('astig.testMethodValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Meridians Tested</Text>
-              <Text style={styles.summaryValue}>12 (every 15°)</Text>
+              <Text style={styles.summaryLabel}>{t('astig.meridians')}</Text>
+              <Text style={styles.summaryValue}>{t('astig.meridiansValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Eyes Tested</Text>
-              <Text style={styles.summaryValue}>Both (monocular)</Text>
+              <Text style={styles.summaryLabel}>{t('astig.eyesTested')}</Text>
+              <Text style={styles.summaryValue}>{t('astig.eyesTestedValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Confirmation</Text>
-              <Text style={styles.summaryValue}>2 rounds per eye</Text>
+              <Text style={styles.summaryLabel}>{t('astig.confirmation')}</Text>
+              <Text style={styles.summaryValue}>{t('astig.confirmationValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Standard</Text>
-              <Text style={styles.summaryValue}>ISO 8596 principles</Text>
+              <Text style={styles.summaryLabel}>{t('astig.standard')}</Text>
+              <Text style={styles.summaryValue}>{t('astig.standardValue')}</Text>
             </View>
           </View>
 
           {/* What this test cannot do */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Limitations</Text>
+            <Text style={styles.cardTitle}>{t('astig.limitations')}</Text>
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>❌</Text>
-              <Text style={styles.limitText}>Cannot measure cylinder power (diopters)</Text>
+              <Text style={styles.limitText}>{t('astig.limit1')}</Text>
             </View>
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>❌</Text>
-              <Text style={styles.limitText}>Cannot prescribe corrective lenses</Text>
+              <Text style={styles.limitText}>{t('astig.limit2')}</Text>
             </View>
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>❌</Text>
-              <Text style={styles.limitText}>Cannot replace a clinical refraction test</Text>
+              <Text style={styles.limitText}>{t('astig.limit3')}</Text>
             </View>
             <View style={styles.divider} />
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>✅</Text>
-              <Text style={styles.limitText}>Can reliably screen for astigmatism</Text>
+              <Text style={styles.limitText}>{t('astig.can1')}</Text>
             </View>
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>✅</Text>
-              <Text style={styles.limitText}>Can flag patients needing referral</Text>
+              <Text style={styles.limitText}>{t('astig.can2')}</Text>
             </View>
             <View style={styles.limitRow}>
               <Text style={styles.limitIcon}>✅</Text>
-              <Text style={styles.limitText}>Suitable for community & school screening</Text>
+              <Text style={styles.limitText}>{t('astig.can3')}</Text>
             </View>
           </View>
 
           {/* Disclaimer */}
           <View style={styles.disclaimer}>
             <Text style={styles.disclaimerText}>
-              ⚠️ This is a screening tool, not a medical diagnosis. Smartphone screens, ambient lighting, and viewing distance can affect results. Consult a qualified eye care professional for definitive astigmatism assessment and prescription.
+              {t('astig.disclaimer')}
             </Text>
           </View>
         </ScrollView>
@@ -1134,7 +1167,7 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
             style={styles.primaryBtn}
             onPress={() => onExit?.()}
           >
-            <Text style={styles.primaryBtnText}>Done</Text>
+            <Text style={styles.primaryBtnText}>{t('common.done')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.ghostBtn}
@@ -1151,7 +1184,8 @@ export default function AstigmatismTest({ onComplete, onExit }: Props) {
               setPhase('test-instructions');
             }}
           >
-            <Text style={styles.ghostBtnText}>Retake Test</Text>
+            <Text style={styles.ghostBtnText}>{t('common.retakeTest')}</Text>
+
           </TouchableOpacity>
         </View>
       </View>
@@ -10,6 +10,17 @@ import {
   View
 } from 'react-native';
 import Svg, { Circle } from 'react-native-svg';
+import type {
+  ColorSeverity,
+  ColorVisionResults,
+  DeficiencyType,
+  PlateResult,
+} from '../../lib/screeningSession';
+import { BRIGHTNESS_POLICIES, useBrightnessPolicy } from '../../lib/brightnessService';
+import { t, useI18n, type TranslationKey } from '../../lib/i18n';
+import { useQualityRecorder } from '../../lib/sessionQuality';
+import { useVoiceGuidance, type VoicePromptKey } from '../../lib/voiceService';
+import AmbientLightCheck from './AmbientLightCheck';
 
 // ─── TYPES ───────────────────────────────────────────────────────────
 type TestPhase =
@@ -18,32 +29,27 @@ type TestPhase =
   | 'test'
   | 'results';
 
-type DeficiencyType = 'protan' | 'deutan' | 'tritan' | 'normal';
-
-interface PlateResult {
-  plateIndex: number;
-  plateNumber: number;
-  userAnswer: string;
-  correctAnswer: string;
-  isCorrect: boolean;
-  category: string;
-}
-
-interface TestResults {
-  totalPlates: number;
-  correctCount: number;
-  incorrectCount: number;
-  score: number;
-  deficiencyType: DeficiencyType;
-  severity: 'none' | 'mild' | 'moderate' | 'strong';
-  plateResults: PlateResult[];
-}
+// Where the system back button goes from each phase
+const PREVIOUS_PHASE: Record<TestPhase, TestPhase | 'exit'> = {
+  'welcome': 'exit',
+  'setup': 'welcome',
+  'test': 'setup',
+  'results': 'test',
+};
 
 interface Props {
-  onComplete?: (results: TestResults) => void;
+  onComplete?: (results: ColorVisionResults) => void;
   onExit?: () => void;
 }
 
+// What is said on entering each phase
+const PHASE_PROMPTS: Record<TestPhase, VoicePromptKey[]> = {
+  welcome: ['voice.cv.welcome'],
+  setup: ['voice.cv.setup'],
+  test: ['voice.cv.test'],
+  results: ['voice.cv.complete', 'voice.resultsOnScreen'],
+};
+
 // ─── SCREEN DIMENSIONS ──────────────────────────────────────────────
 const { width } = Dimensions.get('window');
 const PLATE_SIZE = Math.min(width - 32, 340);
@@ -570,7 +576,7 @@ const generateChoices = (correctAnswer: string, plateIndex: number): string[] =>
 };
 
 // ─── DIAGNOSIS ENGINE ───────────────────────────────────────────────
-const diagnose = (results: PlateResult[]): { deficiencyType: DeficiencyType; severity: 'none' | 'mild' | 'moderate' | 'strong' } => {
+export const diagnose = (results: PlateResult[]): { deficiencyType: DeficiencyType; severity: ColorSeverity } => {
   const totalScreening = results.filter(r => r.category !== 'demonstration');
   const rgPlates = results.filter(r =>
     r.category === 'vanishing' || r.category === 'transformation'
@@ -614,8 +620,25 @@ const diagnose = (results: PlateResult[]): { deficiencyType: DeficiencyType; sev
   return { deficiencyType: defType, severity };
 };
 
+export const getDeficiencyLabel = (type: DeficiencyType): string => {
+  switch (type) {
+    case 'protan': return t('cv.protan');
+    case 'deutan': return t('cv.deutan');
+    case 'tritan': return t('cv.tritan');
+    case 'normal': return t('cv.normal');
+  }
+};
+
+const SEVERITY_LABELS: Record<ColorSeverity, TranslationKey> = {
+  none: 'cv.noDeficiency',
+  mild: 'cv.mildDeficiency',
+  moderate: 'cv.moderateDeficiency',
+  strong: 'cv.strongDeficiency',
+};
+
 // ─── COMPONENT ───────────────────────────────────────────────────────
 export default function ColorVisionTest({ onComplete, onExit }: Props) {
+  const { t } = useI18n();
   const [phase, setPhase] = useState<TestPhase>('welcome');
   const [currentPlateIndex, setCurrentPlateIndex] = useState(0);
   const [plateResults, setPlateResults] = useState<PlateResult[]>([]);
@@ -624,6 +647,18 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
   const currentPlate = ISHIHARA_PLATES[currentPlateIndex];
   const progress = ((currentPlateIndex) / ISHIHARA_PLATES.length) * 100;
 
+  useVoiceGuidance(PHASE_PROMPTS[phase]);
+
+  // ─── Session quality ────────────────────────
+  // Each new plate starts the response clock
+  const quality = useQualityRecorder();
+  useEffect(() => {
+    if (phase === 'test') quality.present();
+  }, [quality, phase, currentPlateIndex]);
+
+  // Plates are shown at the colour-vision level, everything else at the user's own
+  useBrightnessPolicy(phase === 'test' ? BRIGHTNESS_POLICIES.colorVision : null, quality.brightness);
+
   // ─── Memoized dots for current plate ──────────
   const currentDots = useMemo(
     () => generatePlateDots(currentPlate, PLATE_SIZE),
@@ -646,16 +681,10 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
   }, [fadeAnim]);
 
   // ─── System back button handling ─────────────
-  const previousPhaseMap: Record<TestPhase, TestPhase | 'exit'> = {
-    'welcome': 'exit',
-    'setup': 'welcome',
-    'test': 'setup',
-    'results': 'test',
-  };
-
   useEffect(() => {
     const handler = BackHandler.addEventListener('hardwareBackPress', () => {
-      const prev = previousPhaseMap[phase];
+      quality.backPress();
+      const prev = PREVIOUS_PHASE[phase];
       if (prev === 'exit') {
         onExit?.();
       } else {
@@ -664,10 +693,11 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
       return true;
     });
     return () => handler.remove();
-  }, [phase]);
+  }, [phase, onExit, quality]);
 
   // ─── Handle answer ──────────────────────────
   const handleAnswer = (answer: string) => {
+    quality.answer();
     const result: PlateResult = {
       plateIndex: currentPlateIndex,
       plateNumber: currentPlate.id,
@@ -696,7 +726,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
     const diagnosis = diagnose(results);
     const correctCount = results.filter(r => r.isCorrect).length;
 
-    const finalResults: TestResults = {
+    const finalResults: ColorVisionResults = {
       totalPlates: results.length,
       correctCount,
       incorrectCount: results.length - correctCount,
@@ -704,6 +734,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
       deficiencyType: diagnosis.deficiencyType,
       severity: diagnosis.severity,
       plateResults: results,
+      quality: quality.summary(),
     };
 
     setPhase('results');
@@ -711,7 +742,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
   };
 
   // ─── Results computation ──────────────────────
-  const getResults = (): TestResults => {
+  const getResults = (): ColorVisionResults => {
     const diagnosis = diagnose(plateResults);
     const correctCount = plateResults.filter(r => r.isCorrect).length;
     return {
@@ -722,16 +753,9 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
       deficiencyType: diagnosis.deficiencyType,
       severity: diagnosis.severity,
       plateResults,
+      quality: quality.summary(),
     };
-  };
 
-  const getDeficiencyLabel = (type: DeficiencyType): string => {
-    switch (type) {
-      case 'protan': return 'Protanopia (Red-weak)';
-      case 'deutan': return 'Deuteranopia (Green-weak)';
-      case 'tritan': return 'Tritanopia (Blue-yellow)';
-      case 'normal': return 'Normal Color Vision';
-    }
   };
 
   const getSeverityColor = (severity: string): string => {
@@ -762,18 +786,18 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
               </TouchableOpacity>
             )}
             <Text style={styles.headerEmoji}>🎨</Text>
-            <Text style={styles.headerTitle}>Color Vision Test</Text>
-            <Text style={styles.headerSubtitle}>Ishihara Pseudoisochromatic Screening</Text>
+            <Text style={styles.headerTitle}>{t('cv.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('cv.subtitle')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>What We'll Test</Text>
+            <Text style={styles.cardTitle}>{t('common.whatWeTest')}</Text>
 
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>🔴🟢</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>Red-Green Vision</Text>
-                <Text style={styles.infoDesc}>Detects protanopia and deuteranopia — the most common color vision deficiencies (8% of males).</Text>
+                <Text style={styles.infoLabel}>{t('cv.redGreenLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('cv.redGreenDesc')}</Text>
               </View>
             </View>
 
@@ -782,8 +806,8 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>🔵🟡</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>Blue-Yellow Vision</Text>
-                <Text style={styles.infoDesc}>Screens for tritanopia — a rarer condition affecting blue-yellow color perception.</Text>
+                <Text style={styles.infoLabel}>{t('cv.blueYellowLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('cv.blueYellowDesc')}</Text>
               </View>
             </View>
 
@@ -792,20 +816,20 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>⏱️</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>3–5 Minutes</Text>
-                <Text style={styles.infoDesc}>14 Ishihara-style plates. Identify the number hidden in each dot pattern.</Text>
+                <Text style={styles.infoLabel}>{t('cv.durationLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('cv.durationDesc')}</Text>
               </View>
             </View>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Clinical Standard</Text>
+            <Text style={styles.cardTitle}>{t('common.clinicalStandard')}</Text>
             <Text style={styles.bodyText}>
-              Based on the Ishihara 14-plate screening edition, the international standard for color vision testing used by ophthalmologists worldwide.
+              {t('cv.clinicalBody')}
             </Text>
             <View style={styles.tipBox}>
               <Text style={styles.tipText}>
-                🔬 Colors calibrated to CIE 1931 chromaticity standards for accurate pseudoisochromatic testing.
+                {t('cv.clinicalTip')}
               </Text>
             </View>
           </View>
@@ -813,7 +837,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
 
         <View style={styles.bottomBtnContainer}>
           <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('setup')}>
-            <Text style={styles.primaryBtnText}>Start Screening</Text>
+            <Text style={styles.primaryBtnText}>{t('common.startScreening')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -830,48 +854,50 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>💡</Text>
-            <Text style={styles.headerTitle}>Setup Instructions</Text>
-            <Text style={styles.headerSubtitle}>Optimal Conditions for Accurate Results</Text>
+            <Text style={styles.headerTitle}>{t('common.setupInstructions')}</Text>
+            <Text style={styles.headerSubtitle}>{t('common.optimalConditions')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Environment Setup</Text>
+            <Text style={styles.cardTitle}>{t('common.environmentSetup')}</Text>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>1</Text></View>
-              <Text style={styles.stepText}>Set screen brightness to maximum for accurate colors</Text>
+              <Text style={styles.stepText}>{t('cv.setupStep1')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>2</Text></View>
-              <Text style={styles.stepText}>Ensure good indoor lighting (1,000–2,500 lux recommended)</Text>
+              <Text style={styles.stepText}>{t('cv.setupStep2')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>3</Text></View>
-              <Text style={styles.stepText}>Hold phone at 50–75 cm (~arm's length) from your eyes</Text>
+              <Text style={styles.stepText}>{t('cv.setupStep3')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>4</Text></View>
-              <Text style={styles.stepText}>Disable any color filters, night mode, or blue light filters</Text>
+              <Text style={styles.stepText}>{t('cv.setupStep4')}</Text>
             </View>
 
             <View style={styles.tipBox}>
               <Text style={styles.tipText}>
-                ⚠️ Night mode, blue light filters, or screen tints will invalidate the test. Please disable them before proceeding.
+                {t('cv.setupWarning')}
               </Text>
             </View>
           </View>
 
+          <AmbientLightCheck test="colorVision" onReading={quality.ambientLight} />
+
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>How It Works</Text>
+            <Text style={styles.cardTitle}>{t('cv.howItWorks')}</Text>
             <Text style={styles.bodyText}>
-              You'll see circular plates filled with colored dots. A number is hidden within each plate. Tap the number you see, or "Can't See a Number" if you can't identify one.
+              {t('cv.howBody')}
             </Text>
             <View style={styles.divider} />
             <Text style={styles.bodyText}>
-              The first plate is a demonstration — everyone should be able to read it. This confirms your screen is displaying colors correctly.
+              {t('cv.howDemo')}
             </Text>
           </View>
         </ScrollView>
@@ -885,7 +911,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
               setPhase('test');
             }}
           >
-            <Text style={styles.primaryBtnText}>Begin Test</Text>
+            <Text style={styles.primaryBtnText}>{t('common.beginTest')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -899,14 +925,14 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
         {/* Header banner */}
         <View style={styles.eyeBanner}>
           <Text style={styles.eyeBannerText}>
-            Plate {currentPlateIndex + 1} of {ISHIHARA_PLATES.length}
+            {t('cv.plateOf', { current: currentPlateIndex + 1, total: ISHIHARA_PLATES.length })}
           </Text>
           <Text style={styles.eyeBannerSub}>
             {currentPlate.category === 'demonstration'
-              ? 'Demonstration Plate'
+              ? t('cv.demoPlate')
               : currentPlate.category === 'tritan'
-                ? 'Blue-Yellow Screening'
-                : 'Red-Green Screening'}
+                ? t('cv.blueYellowScreening')
+                : t('cv.redGreenScreening')}
           </Text>
         </View>
 
@@ -949,7 +975,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
 
         {/* Fixed bottom: question, choices, can't-see */}
         <View style={styles.testBottomSection}>
-          <Text style={styles.questionText}>What number do you see?</Text>
+          <Text style={styles.questionText}>{t('cv.question')}</Text>
 
           <View style={styles.choicesGrid}>
             {choices.map((choice, idx) => (
@@ -964,7 +990,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
           </View>
 
           <TouchableOpacity style={styles.cantSeeBtn} onPress={handleCantSee}>
-            <Text style={styles.cantSeeBtnText}>Can't See a Number</Text>
+            <Text style={styles.cantSeeBtnText}>{t('cv.cantSee')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -989,19 +1015,19 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
               </TouchableOpacity>
             )}
             <Text style={styles.headerEmoji}>{emoji}</Text>
-            <Text style={styles.headerTitle}>Color Vision Results</Text>
-            <Text style={styles.headerSubtitle}>Ishihara 14-Plate Screening</Text>
+            <Text style={styles.headerTitle}>{t('cv.resultsTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('cv.resultsSubtitle')}</Text>
           </View>
 
           {/* Score card */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Overall Score</Text>
+            <Text style={styles.cardTitle}>{t('cv.overallScore')}</Text>
 
             <View style={styles.scoreCircleContainer}>
               <View style={[styles.scoreCircle, { borderColor: severityColor }]}>
                 <Text style={[styles.scoreNumber, { color: severityColor }]}>{results.score}%</Text>
                 <Text style={styles.scoreLabel}>
-                  {results.correctCount}/{results.totalPlates} correct
+                  {t('cv.correctOf', { correct: results.correctCount, total: results.totalPlates })}
                 </Text>
               </View>
             </View>
@@ -1009,31 +1035,31 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
             <View style={styles.divider} />
 
             <View style={styles.resultRow}>
-              <Text style={styles.resultEyeLabel}>Classification</Text>
+              <Text style={styles.resultEyeLabel}>{t('cv.classification')}</Text>
               <Text style={[styles.resultAcuity, { color: severityColor, fontSize: 16 }]}>
                 {getDeficiencyLabel(results.deficiencyType)}
               </Text>
             </View>
 
             <View style={styles.resultRow}>
-              <Text style={styles.resultEyeLabel}>Severity</Text>
+              <Text style={styles.resultEyeLabel}>{t('common.severity')}</Text>
               <Text style={[styles.resultRating, { color: severityColor }]}>
-                {results.severity === 'none' ? 'No deficiency' : `${results.severity.charAt(0).toUpperCase() + results.severity.slice(1)} deficiency`}
+                {t(SEVERITY_LABELS[results.severity])}
               </Text>
             </View>
           </View>
 
           {/* Plate-by-plate breakdown */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Plate-by-Plate Results</Text>
+            <Text style={styles.cardTitle}>{t('cv.plateByPlate')}</Text>
             {results.plateResults.map((pr, idx) => (
               <View key={idx}>
                 <View style={styles.plateResultRow}>
                   <View style={styles.plateResultLeft}>
-                    <Text style={styles.plateResultNum}>Plate {pr.plateNumber}</Text>
+                    <Text style={styles.plateResultNum}>{t('cv.plate', { number: pr.plateNumber })}</Text>
                     <Text style={styles.plateResultCategory}>
-                      {pr.category === 'demonstration' ? 'Demo' :
-                       pr.category === 'tritan' ? 'Blue-Yellow' : 'Red-Green'}
+                      {pr.category === 'demonstration' ? t('cv.catDemo') :
+                       pr.category === 'tritan' ? t('cv.catBlueYellow') : t('cv.catRedGreen')}
                     </Text>
                   </View>
                   <View style={styles.plateResultRight}>
@@ -1043,7 +1069,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
                     <Text style={[styles.plateResultStatus, {
                       color: pr.isCorrect ? '#2E7D32' : '#C62828',
                     }]}>
-                      {pr.isCorrect ? '✓ Correct' : `✗ (was ${pr.correctAnswer})`}
+                      {pr.isCorrect ? t('cv.correct') : t('cv.was', { answer: pr.correctAnswer })}
                     </Text>
                   </View>
                 </View>
@@ -1055,25 +1081,25 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
           {/* Diagnosis card */}
           <View style={[styles.card, styles.diagnosisCard, { borderLeftColor: severityColor }]}>
             <Text style={styles.cardTitle}>
-              {results.deficiencyType === 'normal' ? 'Assessment' : '⚠️ Assessment'}
+              {results.deficiencyType === 'normal' ? t('common.assessment') : t('common.assessmentWarning')}
             </Text>
 
             {results.deficiencyType === 'normal' ? (
               <Text style={styles.diagnosisText}>
-                Your color vision appears normal. You correctly identified numbers across all color axes tested, including red-green and blue-yellow plates. No signs of color vision deficiency were detected.
+                {t('cv.normalBody')}
               </Text>
             ) : (
               <>
                 <Text style={styles.diagnosisText}>
-                  Results suggest a possible {results.severity}{' '}
-                  {results.deficiencyType === 'protan' ? 'protan (red-weak)' :
-                   results.deficiencyType === 'deutan' ? 'deutan (green-weak)' :
-                   'tritan (blue-yellow)'} color vision deficiency.
+                  {t('cv.possible', {
+                    severity: t(`cv.severity.${results.severity as Exclude<ColorSeverity, 'none'>}`),
+                    type: t(`cv.type.${results.deficiencyType as Exclude<DeficiencyType, 'normal'>}`),
+                  })}
                 </Text>
                 <View style={{ height: 12 }} />
-                <Text style={styles.recommendTitle}>Recommendation</Text>
+                <Text style={styles.recommendTitle}>{t('common.recommendation')}</Text>
                 <Text style={styles.recommendText}>
-                  This screening suggests you may have difficulty distinguishing certain colors. Please consult an eye care professional for a comprehensive color vision evaluation using full Ishihara 38-plate or Farnsworth-Munsell 100 Hue tests.
+                  {t('cv.recommendBody')}
                 </Text>
               </>
             )}
@@ -1081,29 +1107,29 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
 
           {/* Methodology */}
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Methodology</Text>
+            <Text style={styles.cardTitle}>{t('common.methodology')}</Text>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Test Standard</Text>
-              <Text style={styles.summaryValue}>Ishihara 14-plate</Text>
+              <Text style={styles.summaryLabel}>{t('cv.testStandard')}</Text>
+              <Text style={styles.summaryValue}>{t('cv.testStandardValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Plate Categories</Text>
-              <Text style={styles.summaryValue}>Demo, Vanishing, Transform</Text>
+              <Text style={styles.summaryLabel}>{t('cv.plateCategories')}</Text>
+              <Text style={styles.summaryValue}>{t('cv.plateCategoriesValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Color Standard</Text>
-              <Text style={styles.summaryValue}>CIE 1931 chromaticity</Text>
+              <Text style={styles.summaryLabel}>{t('cv.colorStandard')}</Text>
+              <Text style={styles.summaryValue}>{t('cv.colorStandardValue')}</Text>
             </View>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Deficiency Types</Text>
-              <Text style={styles.summaryValue}>Protan, Deutan, Tritan</Text>
+              <Text style={styles.summaryLabel}>{t('cv.deficiencyTypes')}</Text>
+              <Text style={styles.summaryValue}>{t('cv.deficiencyTypesValue')}</Text>
             </View>
           </View>
 
           {/* Disclaimer */}
           <View style={styles.disclaimer}>
             <Text style={styles.disclaimerText}>
-              ⚠️ This is a screening tool, not a medical diagnosis. Smartphone screens may not reproduce Ishihara colors with full clinical accuracy. Results may vary with screen calibration, brightness, and ambient lighting. Consult a qualified eye care professional for definitive testing.
+              {t('cv.disclaimer')}
             </Text>
           </View>
         </ScrollView>
@@ -1113,7 +1139,7 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
             style={styles.primaryBtn}
             onPress={() => onExit?.()}
           >
-            <Text style={styles.primaryBtnText}>Done</Text>
+            <Text style={styles.primaryBtnText}>{t('common.done')}</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.ghostBtn}
@@ -1123,7 +1149,8 @@ export default function ColorVisionTest({ onComplete, onExit }: Props) {
               setPhase('test');
             }}
           >
-            <Text style={styles.ghostBtnText}>Retake Test</Text>
+            <Text style={styles.ghostBtnText}>{t('common.retakeTest')}</Text>
+
           </TouchableOpacity>
         </View>
       </View>
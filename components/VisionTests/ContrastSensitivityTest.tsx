@@ -0,0 +1,736 @@
+import React, { useEffect, useState } from 'react';
+import {
+    BackHandler,
+    Dimensions,
+    Platform,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { BRIGHTNESS_POLICIES, useBrightnessPolicy } from '../../lib/brightnessService';
+import {
+  CONTRAST_CATEGORY_LABELS,
+  CONTRAST_CEILING,
+  CONTRAST_LEVELS,
+  LETTERS_PER_TRIPLET,
+  TRIPLET_PASS_MARK,
+  classifyContrast,
+  getNormalLimit,
+  scoreLogCS,
+} from '../../lib/contrastSensitivity';
+import { parseAge } from '../../lib/historyService';
+import { t, useI18n } from '../../lib/i18n';
+import { getDpPerMm, mmToDp } from '../../lib/screenCalibration';
+import type {
+  ContrastCategory,
+  ContrastSensitivityResults,
+  Eye,
+  EyeContrastResult,
+} from '../../lib/screeningSession';
+import { useQualityRecorder } from '../../lib/sessionQuality';
+import { useVoiceGuidance, type VoicePromptKey } from '../../lib/voiceService';
+import AmbientLightCheck from './AmbientLightCheck';
+import {
+  BottomButtons,
+  Card,
+  CoverEyePrompt,
+  Disclaimer,
+  Divider,
+  EyeBanner,
+  HeaderBanner,
+  InfoRow,
+  LimitRow,
+  MiniResultCard,
+  ProgressBar,
+  StepRow,
+  SummaryRow,
+  SwitchEyePrompt,
+  TestPage,
+  TipBox,
+  testStyles,
+} from './TestLayout';
+import { SLOAN_LETTERS, generateSloanChoices } from './VisualAcuityTest';
+
+// ─── TYPES ───────────────────────────────────────────────────────────
+type TestPhase =
+  | 'welcome'
+  | 'setup'
+  | 'test-instructions'
+  | 'test'
+  | 'switch-eye'
+  | 'results';
+
+interface Props {
+  /** Patient's age from the suite; the setup screen asks for it when left out */
+  age?: number | null;
+  onComplete?: (results: ContrastSensitivityResults) => void;
+  onExit?: () => void;
+}
+
+// Where the hardware back button goes from each phase
+const PREVIOUS_PHASE: Record<TestPhase, TestPhase | 'exit'> = {
+  'welcome': 'exit',
+  'setup': 'welcome',
+  'test-instructions': 'setup',
+  'test': 'test-instructions',
+  'switch-eye': 'test-instructions',
+  'results': 'setup',
+};
+
+// What is said on entering each phase
+function getPhasePrompts(phase: TestPhase, eye: Eye): VoicePromptKey[] {
+  switch (phase) {
+    case 'welcome': return ['voice.cs.welcome'];
+    case 'setup': return ['voice.cs.setup'];
+    case 'test-instructions': return [eye === 'right' ? 'voice.coverLeftEye' : 'voice.coverRightEye'];
+    case 'test': return ['voice.cs.read'];
+    case 'switch-eye': return ['voice.rightEyeDone', 'voice.coverRightEye'];
+    case 'results': return ['voice.cs.complete', 'voice.resultsOnScreen'];
+  }
+}
+
+// ─── SCREEN DIMENSIONS ──────────────────────────────────────────────
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+// ─── CHART CONFIGURATION ────────────────────────────────────────────
+//
+// Clinical standard (Pelli-Robson): triplets of Sloan letters, each
+// about 2.8° tall at 1 m, so acuity down to about 6/60 never limits
+// the score.  A phone is held closer: 15 mm letters at 50 cm subtend
+// 1.7°, still several times the size of any letter the acuity test
+// asks the patient to read.
+//
+// Letters are drawn at that physical size using the per-device card
+// calibration, shrunk on screens too narrow for a triplet.  Their
+// colours come from lib/contrastSensitivity.ts, corrected for the
+// screen's luminance curve.
+const LETTER_MM = 15;
+const VIEWING_DISTANCE_CM = 50;
+
+const getLetterSize = (): number =>
+  Math.min(mmToDp(LETTER_MM), (SCREEN_WIDTH - 48) / (LETTERS_PER_TRIPLET + 1));
+
+/** Height of the letters as drawn on this screen, in mm. */
+const getLetterMm = (): number => Math.round((getLetterSize() / getDpPerMm()) * 10) / 10;
+
+/** Three different Sloan letters */
+const generateTriplet = (): string[] =>
+  [...SLOAN_LETTERS].sort(() => Math.random() - 0.5).slice(0, LETTERS_PER_TRIPLET);
+
+export const formatLogCS = (logCS: number): string => logCS.toFixed(2);
+
+// ─── INTERPRETATION LOGIC ───────────────────────────────────────────
+//
+// Contrast screening logic:
+//   - logCS at or above the age norm → normal
+//   - Below the norm → reduced; common with early cataract, glaucoma
+//     and diabetic retinopathy, often while acuity is still 6/6
+//   - Below 1.05 → severe; trouble with faces, steps and night
+//     driving whatever the acuity
+
+const interpretEyeResult = (
+  lettersCorrect: number,
+  atCeiling: boolean,
+  age: number | null,
+): EyeContrastResult => {
+  const logCS = scoreLogCS(lettersCorrect);
+  return { logCS, lettersCorrect, atCeiling, category: classifyContrast(logCS, age) };
+};
+
+export const getContrastOverall = (
+  right: EyeContrastResult | null,
+  left: EyeContrastResult | null,
+): ContrastCategory => {
+  const categoryOrder = ['normal', 'reduced', 'severe'] as const;
+  const rIdx = categoryOrder.indexOf(right?.category ?? 'normal');
+  const lIdx = categoryOrder.indexOf(left?.category ?? 'normal');
+  return categoryOrder[Math.max(rIdx, lIdx)];
+};
+
+export const getContrastRecommendation = (overall: ContrastCategory): string => {
+  if (overall === 'normal') {
+    return t('cs.recNormal');
+  }
+  if (overall === 'reduced') {
+    return t('cs.recReduced');
+  }
+  return t('cs.recSevere');
+};
+
+// ─── COMPONENT ───────────────────────────────────────────────────────
+export default function ContrastSensitivityTest({ age: givenAge, onComplete, onExit }: Props) {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<TestPhase>('welcome');
+  const [currentEye, setCurrentEye] = useState<Eye>('right');
+  const [ageText, setAgeText] = useState('');
+
+  // Position on the chart for the eye being tested
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [triplet, setTriplet] = useState<string[]>(generateTriplet);
+  const [position, setPosition] = useState(0);
+  const [choices, setChoices] = useState<string[]>([]);
+  const [tripletCorrect, setTripletCorrect] = useState(0);
+  const [lettersCorrect, setLettersCorrect] = useState(0);
+
+  // Final results
+  const [rightResult, setRightResult] = useState<EyeContrastResult | null>(null);
+  const [leftResult, setLeftResult] = useState<EyeContrastResult | null>(null);
+
+  const age = givenAge !== undefined ? givenAge : parseAge(ageText);
+  const letterSize = getLetterSize();
+  const letterMm = getLetterMm();
+  const level = CONTRAST_LEVELS[levelIndex];
+
+  useVoiceGuidance(getPhasePrompts(phase, currentEye));
+
+  // ─── Session quality ────────────────────────
+  // Every letter is one stimulus, timed from when it is pointed out
+  const quality = useQualityRecorder();
+  useEffect(() => {
+    if (phase === 'test') quality.present();
+  }, [quality, phase, currentEye, levelIndex, position]);
+
+  // Held across both eyes, so the faint letters never shift between them
+  const brightnessHeld = phase !== 'welcome' && phase !== 'setup' && phase !== 'results';
+  useBrightnessPolicy(brightnessHeld ? BRIGHTNESS_POLICIES.contrastSensitivity : null, quality.brightness);
+
+  // ─── System back button handling ─────────────
+  useEffect(() => {
+    const handler = BackHandler.addEventListener('hardwareBackPress', () => {
+      quality.backPress();
+      const prev = PREVIOUS_PHASE[phase];
+      if (prev === 'exit') {
+        onExit?.();
+      } else {
+        setPhase(prev);
+      }
+      return true;
+    });
+    return () => handler.remove();
+  }, [phase, onExit, quality]);
+
+  // ─── Chart navigation ───────────────────────
+  const showTriplet = (index: number) => {
+    const letters = generateTriplet();
+    setLevelIndex(index);
+    setTriplet(letters);
+    setPosition(0);
+    setTripletCorrect(0);
+    setChoices(generateSloanChoices(letters[0]));
+  };
+
+  const startEye = () => {
+    setLettersCorrect(0);
+    showTriplet(0);
+    setPhase('test');
+  };
+
+  // `letter` is the patient's answer, or `null` for "can't see"
+  const handleAnswer = (letter: string | null) => {
+    quality.answer();
+    const correct = letter === triplet[position];
+    const newTripletCorrect = tripletCorrect + (correct ? 1 : 0);
+    const newLettersCorrect = lettersCorrect + (correct ? 1 : 0);
+    setTripletCorrect(newTripletCorrect);
+    setLettersCorrect(newLettersCorrect);
+
+    if (position < LETTERS_PER_TRIPLET - 1) {
+      setPosition(position + 1);
+      setChoices(generateSloanChoices(triplet[position + 1]));
+      return;
+    }
+
+    // Triplet finished: go fainter, or stop at the first failed triplet
+    const passed = newTripletCorrect >= TRIPLET_PASS_MARK;
+    if (passed && levelIndex < CONTRAST_LEVELS.length - 1) {
+      showTriplet(levelIndex + 1);
+      return;
+    }
+    handleEyeDone(interpretEyeResult(newLettersCorrect, passed, age));
+  };
+
+  // ─── Finish one eye ─────────────────────────
+  const handleEyeDone = (result: EyeContrastResult) => {
+    if (currentEye === 'right') {
+      setRightResult(result);
+      setCurrentEye('left');
+      setPhase('switch-eye');
+    } else {
+      setLeftResult(result);
+      finishTest(rightResult!, result);
+    }
+  };
+
+  const finishTest = (right: EyeContrastResult, left: EyeContrastResult) => {
+    setPhase('results');
+    onComplete?.(getResults(right, left));
+  };
+
+  const getResults = (
+    right: EyeContrastResult | null = rightResult,
+    left: EyeContrastResult | null = leftResult,
+  ): ContrastSensitivityResults => {
+    const overall = getContrastOverall(right, left);
+    return {
+      rightEye: right,
+      leftEye: left,
+      overall,
+      age,
+      normalLimit: getNormalLimit(age),
+      ceilingLogCS: CONTRAST_CEILING,
+      letterHeightMm: letterMm,
+      recommendation: getContrastRecommendation(overall),
+      quality: quality.summary(),
+    };
+  };
+
+  const resetTest = () => {
+    setCurrentEye('right');
+    setRightResult(null);
+    setLeftResult(null);
+    setPhase('test-instructions');
+  };
+
+  const getCategoryColor = (category: ContrastCategory): string => {
+    switch (category) {
+      case 'normal': return '#2E7D32';
+      case 'reduced': return '#F9A825';
+      case 'severe': return '#C62828';
+    }
+  };
+
+  const formatEyeLogCS = (result: EyeContrastResult): string =>
+    `${result.atCeiling ? '≥ ' : ''}${formatLogCS(result.logCS)}`;
+
+  // ===== WELCOME SCREEN =====
+  if (phase === 'welcome') {
+    return (
+      <TestPage footer={<BottomButtons label={t('common.startScreening')} onPress={() => setPhase('setup')} />}>
+        <HeaderBanner emoji="◐" title={t('cs.title')} subtitle={t('cs.subtitle')} onBack={onExit} />
+
+        <Card title={t('cs.whatIs')}>
+          <InfoRow icon="🌫️" label={t('cs.contrastLabel')} description={t('cs.contrastDesc')} />
+          <Divider />
+          <InfoRow icon="🔤" label={t('cs.howLabel')} description={t('cs.howDesc')} />
+          <Divider />
+          <InfoRow icon="⏱️" label={t('cs.durationLabel')} description={t('cs.durationDesc')} />
+        </Card>
+
+        <Card title={t('common.clinicalStandard')}>
+          <Text style={testStyles.bodyText}>{t('cs.clinicalBody')}</Text>
+          <TipBox>{t('cs.clinicalTip')}</TipBox>
+        </Card>
+      </TestPage>
+    );
+  }
+
+  // ===== SETUP SCREEN =====
+  if (phase === 'setup') {
+    return (
+      <TestPage footer={<BottomButtons label={t('common.beginTest')} onPress={resetTest} />}>
+        <HeaderBanner
+          emoji="💡"
+          title={t('common.setupInstructions')}
+          subtitle={t('common.optimalConditions')}
+          onBack={() => setPhase('welcome')}
+        />
+
+        {givenAge === undefined && (
+          <Card title={t('cs.age')}>
+            <TextInput
+              style={styles.ageInput}
+              value={ageText}
+              onChangeText={text => setAgeText(text.replace(/[^0-9]/g, ''))}
+              placeholder={t('cs.agePlaceholder')}
+              placeholderTextColor="#9E9E9E"
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.ageHint}>
+              {t('cs.ageHint', { limit: formatLogCS(getNormalLimit(age)) })}
+            </Text>
+          </Card>
+        )}
+
+        <Card title={t('common.environmentSetup')}>
+          <StepRow marker="1">{t('cs.setupStep1')}</StepRow>
+          <StepRow marker="2">{t('cs.setupStep2', { cm: VIEWING_DISTANCE_CM })}</StepRow>
+          <StepRow marker="3">{t('cs.setupStep3')}</StepRow>
+        </Card>
+
+        <AmbientLightCheck test="contrastSensitivity" onReading={quality.ambientLight} />
+
+        <Card title={t('cs.procedure')}>
+          <StepRow marker="▲" color="#00838F">{t('cs.procStep1')}</StepRow>
+          <StepRow marker="👆" color="#00838F">{t('cs.procStep2')}</StepRow>
+          <StepRow marker="◐" color="#00838F">{t('cs.procStep3')}</StepRow>
+          <TipBox>{t('cs.procTip')}</TipBox>
+        </Card>
+      </TestPage>
+    );
+  }
+
+  // ===== TEST INSTRUCTIONS (per eye) =====
+  if (phase === 'test-instructions') {
+    const isRight = currentEye === 'right';
+    return (
+      <View style={testStyles.screenFlex}>
+        <EyeBanner
+          title={t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
+          subtitle={t(isRight ? 'astig.coverLeftShort' : 'astig.coverRightShort')}
+        />
+
+        <CoverEyePrompt
+          title={t(isRight ? 'astig.coverLeftTitle' : 'astig.coverRightTitle')}
+          description={t('cs.coverDesc', {
+            eye: t(isRight ? 'astig.eyeLeft' : 'astig.eyeRight'),
+            cm: VIEWING_DISTANCE_CM,
+          })}
+          hint={t('cs.instructionHint')}
+        />
+
+        <BottomButtons label={t('cs.showLetters')} onPress={startEye} />
+      </View>
+    );
+  }
+
+  // ===== MAIN TEST SCREEN =====
+  if (phase === 'test') {
+    const isRight = currentEye === 'right';
+    const eyeProgress = levelIndex / CONTRAST_LEVELS.length;
+    const progress = Math.round(((isRight ? 0 : 1) + eyeProgress) * 50);
+
+    return (
+      <View style={[testStyles.screen, testStyles.testScreen]}>
+        <EyeBanner
+          title={t(isRight ? 'astig.rightOD' : 'astig.leftOS')}
+          subtitle={t(isRight ? 'astig.leftCovered' : 'astig.rightCovered')}
+        />
+        <ProgressBar
+          percent={progress}
+          label={t('cs.tripletProgress', { current: levelIndex + 1, total: CONTRAST_LEVELS.length })}
+        />
+
+        {/* Letter triplet */}
+        <View style={styles.letterArea}>
+          <View style={styles.letterPanel}>
+            {triplet.map((letter, idx) => (
+              <View key={`${levelIndex}-${idx}`} style={styles.letterSlot}>
+                <Text
+                  style={[
+                    styles.letterText,
+                    { color: level.color, fontSize: letterSize, lineHeight: letterSize * 1.2, width: letterSize },
+                  ]}
+                >
+                  {letter}
+                </Text>
+                <Text style={[styles.letterPointer, idx !== position && styles.letterPointerHidden]}>▲</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {/* Bottom section */}
+        <View style={testStyles.testBottomSection}>
+          <Text style={testStyles.questionText}>{t('cs.question')}</Text>
+
+          <View style={styles.choicesGrid}>
+            {choices.map((choice, idx) => (
+              <TouchableOpacity
+                key={`${choice}-${idx}`}
+                style={styles.choiceBtn}
+                onPress={() => handleAnswer(choice)}
+              >
+                <Text style={styles.choiceBtnText}>{choice}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.cantSeeBtn} onPress={() => handleAnswer(null)}>
+            <Text style={styles.cantSeeBtnText}>{t('common.cantSee')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== SWITCH EYE SCREEN =====
+  if (phase === 'switch-eye') {
+    return (
+      <View style={testStyles.screenFlex}>
+        <EyeBanner title={t('common.rightEyeComplete')} subtitle={t('common.nowTestingLeft')} />
+
+        <SwitchEyePrompt title={t('common.switchEyes')} description={t('cs.switchDesc')}>
+          {rightResult && (
+            <MiniResultCard
+              title={t('common.rightEyeResult')}
+              color={getCategoryColor(rightResult.category)}
+              text={`${t('cs.logCSValue', { value: formatEyeLogCS(rightResult) })} • ${t(CONTRAST_CATEGORY_LABELS[rightResult.category])}`}
+            />
+          )}
+        </SwitchEyePrompt>
+
+        <BottomButtons label={t('common.testLeftEye')} onPress={() => setPhase('test-instructions')} />
+      </View>
+    );
+  }
+
+  // ===== RESULTS SCREEN =====
+  if (phase === 'results') {
+    const results = getResults();
+    const { overall } = results;
+    const categoryColor = getCategoryColor(overall);
+
+    const renderEyeResult = (eye: Eye, result: EyeContrastResult | null) => {
+      if (!result) return null;
+
+      return (
+        <View style={styles.eyeResultBlock}>
+          <View style={styles.eyeResultHeader}>
+            <Text style={styles.eyeResultLabel}>{t(eye === 'right' ? 'astig.rightOD' : 'astig.leftOS')}</Text>
+            <Text style={[styles.eyeResultCategory, { color: getCategoryColor(result.category) }]}>
+              {t(CONTRAST_CATEGORY_LABELS[result.category])}
+            </Text>
+          </View>
+          <Text style={[styles.eyeResultScore, { color: getCategoryColor(result.category) }]}>
+            {t('cs.logCSValue', { value: formatEyeLogCS(result) })}
+          </Text>
+          <Text style={styles.eyeResultDetail}>
+            {t('cs.lettersCorrect', { count: result.lettersCorrect })}
+          </Text>
+          {result.atCeiling && (
+            <Text style={styles.eyeResultDetail}>{t('cs.atCeiling')}</Text>
+          )}
+        </View>
+      );
+    };
+
+    return (
+      <TestPage
+        footer={
+          <BottomButtons
+            label={t('common.done')}
+            onPress={() => onExit?.()}
+            ghostLabel={t('common.retakeTest')}
+            onGhostPress={resetTest}
+          />
+        }
+      >
+        <HeaderBanner
+          emoji={overall === 'normal' ? '✅' : '⚠️'}
+          title={t('cs.resultsTitle')}
+          subtitle={t('cs.subtitle')}
+          onBack={onExit}
+          color={overall === 'normal' ? '#2E7D32' : '#E65100'}
+        />
+
+        {/* Overall result */}
+        <Card title={t('common.overallAssessment')}>
+          <View style={styles.overallResultBox}>
+            <View style={[styles.overallIndicator, { borderColor: categoryColor }]}>
+              <Text style={[styles.overallLabel, { color: categoryColor }]}>
+                {t(CONTRAST_CATEGORY_LABELS[overall])}
+              </Text>
+            </View>
+          </View>
+          <Text style={styles.normText}>
+            {results.age === null
+              ? t('cs.normUnknownAge', { limit: formatLogCS(results.normalLimit) })
+              : t('cs.normForAge', { age: results.age, limit: formatLogCS(results.normalLimit) })}
+          </Text>
+        </Card>
+
+        {/* Per-eye results */}
+        <Card title={t('common.eyeByEye')}>
+          {renderEyeResult('right', results.rightEye)}
+          <Divider />
+          {renderEyeResult('left', results.leftEye)}
+        </Card>
+
+        {/* Diagnosis & recommendation */}
+        <Card
+          title={overall === 'normal' ? t('common.assessment') : t('common.assessmentWarning')}
+          style={[testStyles.diagnosisCard, { borderLeftColor: categoryColor }]}
+        >
+          <Text style={testStyles.diagnosisText}>{results.recommendation}</Text>
+
+          {overall !== 'normal' && (
+            <>
+              <View style={{ height: 12 }} />
+              <Text style={testStyles.recommendTitle}>{t('common.whatThisMeans')}</Text>
+              <Text style={testStyles.recommendText}>
+                {t('cs.whatMeansBody')}
+              </Text>
+            </>
+          )}
+        </Card>
+
+        {/* Methodology */}
+        <Card title={t('common.methodology')}>
+          <SummaryRow label={t('common.testMethod')} value={t('cs.testMethodValue')} />
+          <SummaryRow label={t('cs.letters')} value={t('cs.lettersValue', { mm: results.letterHeightMm })} />
+          <SummaryRow label={t('cs.viewingDistance')} value={t('cs.viewingDistanceValue', { cm: VIEWING_DISTANCE_CM })} />
+          <SummaryRow label={t('cs.range')} value={t('cs.rangeValue', { max: formatLogCS(results.ceilingLogCS) })} />
+          <SummaryRow label={t('common.eyesTested')} value={t('common.eyesTestedMonocular')} />
+        </Card>
+
+        {/* What this test cannot do */}
+        <Card title={t('common.limitations')}>
+          <LimitRow icon="❌" text={t('cs.limit1')} />
+          <LimitRow icon="❌" text={t('cs.limit2')} />
+          <Divider />
+          <LimitRow icon="✅" text={t('cs.can1')} />
+          <LimitRow icon="✅" text={t('cs.can2')} />
+        </Card>
+
+        <Disclaimer>{t('cs.disclaimer')}</Disclaimer>
+      </TestPage>
+    );
+  }
+
+  return null;
+}
+
+// ─── STYLES ──────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  // ── Age ──
+  ageInput: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  ageHint: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    marginTop: 8,
+  },
+
+  // ── Letter Display ──
+  letterArea: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  letterPanel: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 4,
+    paddingVertical: 24,
+    paddingHorizontal: 8,
+    alignSelf: 'stretch',
+  },
+  letterSlot: {
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  letterText: {
+    fontWeight: '900',
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+  },
+  letterPointer: {
+    fontSize: 16,
+    color: '#00ACC1',
+    marginTop: 8,
+  },
+  letterPointerHidden: {
+    opacity: 0,
+  },
+
+  // ── Answer Pad ──
+  choicesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 10,
+  },
+  choiceBtn: {
+    width: (SCREEN_WIDTH - 52) / 2,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#80DEEA',
+  },
+  choiceBtnText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#00838F',
+    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+  },
+  cantSeeBtn: {
+    marginTop: 10,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#FFEBEE',
+    alignItems: 'center',
+  },
+  cantSeeBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#C62828',
+  },
+
+  // ── Results ──
+  overallResultBox: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  overallIndicator: {
+    borderWidth: 3,
+    borderRadius: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 28,
+  },
+  overallLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  normText: {
+    fontSize: 13,
+    color: '#757575',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+
+  eyeResultBlock: {
+    paddingVertical: 8,
+  },
+  eyeResultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  eyeResultLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#424242',
+  },
+  eyeResultCategory: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  eyeResultScore: {
+    fontSize: 22,
+    fontWeight: '800',
+    marginBottom: 4,
+  },
+  eyeResultDetail: {
+    fontSize: 14,
+    color: '#616161',
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+});
@@ -0,0 +1,102 @@
+/**
+ * CrowdedLine.tsx
+ * ---------------
+ * Lays out a chart line of optotypes the way a printed logMAR chart
+ * does, so each one is read among neighbours.
+ *
+ * A letter is easier to recognise on its own than inside a line — the
+ * crowding effect — and amblyopic eyes are crowded far more than
+ * normal ones, so single-optotype testing overstates their acuity.
+ * Every distance here is a multiple of `size`, the optotype height:
+ *   • one optotype width between neighbours, edge to edge
+ *   • crowding bars one stroke (size / 5) thick, half an optotype out
+ *     from the line on all four sides, so the end optotypes are
+ *     flanked too
+ *   • a cursor under the optotype to read
+ * Lines too long for `maxWidth` show as many optotypes as fit, in a
+ * window that keeps the cursor near the middle.
+ */
+
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+const SPACING = 1;       // gap between optotypes, in optotype widths
+const BAR_GAP = 0.5;     // gap between the line and the bars
+const BAR_WIDTH = 0.2;   // one stroke of a 5 × 5 optotype
+
+/** Optotypes of height `size` that fit, with their bars, in `maxWidth`. */
+const fittingCount = (size: number, maxWidth: number): number =>
+  Math.max(1, Math.floor((maxWidth / size - 2 * (BAR_GAP + BAR_WIDTH) + SPACING) / (1 + SPACING)));
+
+interface Props {
+  /** Optotype height in dp */
+  size: number;
+  /** The line's optotypes, each drawn `size` high */
+  items: React.ReactNode[];
+  /** Index in `items` of the optotype to read */
+  cursor: number;
+  maxWidth: number;
+  cursorColor?: string;
+}
+
+export default function CrowdedLine({ size, items, cursor, maxWidth, cursorColor = '#00ACC1' }: Props) {
+  const count = Math.min(items.length, fittingCount(size, maxWidth));
+  const start = Math.min(Math.max(0, cursor - Math.floor(count / 2)), items.length - count);
+  const shown = items.slice(start, start + count);
+
+  const bar = Math.max(1, size * BAR_WIDTH);
+  const inset = size * BAR_GAP + bar;
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.frame, { padding: inset }]}>
+        <View style={[styles.bar, { top: 0, left: 0, right: 0, height: bar }]} />
+        <View style={[styles.bar, { bottom: 0, left: 0, right: 0, height: bar }]} />
+        <View style={[styles.bar, { top: 0, bottom: 0, left: 0, width: bar }]} />
+        <View style={[styles.bar, { top: 0, bottom: 0, right: 0, width: bar }]} />
+        <View style={[styles.row, { columnGap: size * SPACING }]}>
+          {shown.map((item, i) => (
+            <View key={start + i} style={[styles.cell, { width: size, height: size }]}>
+              {item}
+            </View>
+          ))}
+        </View>
+      </View>
+
+      <View style={[styles.row, { columnGap: size * SPACING, paddingHorizontal: inset }]}>
+        {shown.map((_, i) => (
+          <View key={start + i} style={[styles.cursorCell, { width: size }]}>
+            {start + i === cursor && <Text style={[styles.cursor, { color: cursorColor }]}>▲</Text>}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  frame: {
+    position: 'relative',
+  },
+  bar: {
+    position: 'absolute',
+    backgroundColor: '#000000',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  cell: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cursorCell: {
+    alignItems: 'center',
+    paddingTop: 6,
+  },
+  cursor: {
+    fontSize: 22,
+  },
+});
@@ -4,15 +4,22 @@
  * Shows distance instructions before a vision test, then proceeds.
  *
  * • **Distance mode (3 m)** — Tells the user to stand 3 metres away
- *   (~4 large steps) and gives practical tips.
+ *   (~4 large steps) and gives practical tips.  The helper can pace
+ *   the distance out with the step counter (StepPlacement); how the
+ *   distance was set is passed to `onCalibrated` for the result.
  * • **Near mode (40 cm)** — Tells the user to hold the phone at
- *   arm's length (~40 cm) and gives reference tips.
+ *   arm's length (~40 cm) and gives reference tips.  Where the build
+ *   has the native face detector (lib/faceDistance.ts) the front
+ *   camera also measures the distance live, speaks "closer" /
+ *   "further" until it is within tolerance, and starts the test once
+ *   the phone is held steady there.
  *
- * No sensors / GPS — just clear instructions, then "Start Test".
+ * Otherwise no sensors — just clear instructions, shown and spoken,
+ * then "Start Test".
  */
 
-import * as Speech from 'expo-speech';
-import React, { useCallback, useEffect } from 'react';
+import { useCameraPermissions } from 'expo-camera';
+import React, { Suspense, lazy, useCallback, useEffect, useRef } from 'react';
 import {
   Platform,
   ScrollView,
@@ -23,37 +30,73 @@ import {
   View,
 } from 'react-native';
 
-import { lockMaxBrightness } from '../../lib/brightnessService';
-import { DISTANCE_TARGETS, type TestMode } from '../../lib/distanceService';
+import { DISTANCE_TARGETS, VOICE_PROMPTS, type TestMode } from '../../lib/distanceService';
+import { isFaceDistanceAvailable, useFaceDistance } from '../../lib/faceDistance';
+import { useI18n } from '../../lib/i18n';
+import type { DistancePlacement } from '../../lib/screeningSession';
+import { manualPlacement } from '../../lib/stepPlacement';
+import { speak, useVoiceGuidance } from '../../lib/voiceService';
+import StepPlacement from './StepPlacement';
+
+// Loaded on demand: the module needs VisionCamera's native code, which web and Expo Go lack
+const FaceDistanceCamera = lazy(() => import('./FaceDistanceCamera'));
 
 // ─── Props ───────────────────────────────────────────────────────────
 
 interface Props {
   mode: TestMode;
-  onCalibrated: () => void;
+  /** Distance mode passes how the 3 m was set */
+  onCalibrated: (placement?: DistancePlacement) => void;
   onSkip?: () => void;
 }
 
+// How long the distance must stay in range before the near test starts by itself
+const HOLD_STEADY_MS = 1500;
+
 // ─── Component ───────────────────────────────────────────────────────
 
 export default function DistanceCalibration({ mode, onCalibrated, onSkip }: Props) {
+  const { t } = useI18n();
   const target = DISTANCE_TARGETS[mode];
+  const targetLabel = t(target.label);
 
-  // ── Brightness on mount ──
-  useEffect(() => { lockMaxBrightness(); }, []);
-
-  // ── Cleanup ──
-  useEffect(() => {
-    return () => { Speech.stop(); };
-  }, []);
+  // ── Spoken setup instructions (silenced on unmount) ──
+  useVoiceGuidance([mode === 'distance' ? 'voice.calibration.distance' : 'voice.calibration.near']);
 
   // ── Start test ──
+  const startedRef = useRef(false);
+  const pacedRef = useRef<DistancePlacement | null>(null);
   const startTest = useCallback(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
     Vibration.vibrate([0, 100, 80, 100]);
-    Speech.stop();
-    Speech.speak('Starting test now.', { language: 'en', rate: 0.9 });
-    setTimeout(() => onCalibrated(), 800);
-  }, [onCalibrated]);
+    speak('voice.startingTest', { interrupt: true });
+    const placement = mode === 'distance' ? pacedRef.current ?? manualPlacement(target.targetCm) : undefined;
+    setTimeout(() => onCalibrated(placement), 800);
+  }, [mode, target.targetCm, onCalibrated]);
+
+  // ── Live face distance (near mode, when the build has the face detector) ──
+  const canMeasure = mode === 'near' && isFaceDistanceAvailable();
+  const [permission, requestPermission] = useCameraPermissions();
+  const measuring = canMeasure && !!permission?.granted;
+  const { reading, faceFound, reportFrame } = useFaceDistance(mode);
+  const instruction = faceFound ? reading?.instruction : undefined;
+  const inRange = faceFound && !!reading?.isInRange;
+
+  useEffect(() => {
+    if (canMeasure && permission && !permission.granted && permission.canAskAgain) requestPermission();
+  }, [canMeasure, permission, requestPermission]);
+
+  // Speak each new instruction once, rather than on every frame
+  useEffect(() => {
+    if (instruction) speak(VOICE_PROMPTS[instruction], { interrupt: true });
+  }, [instruction]);
+
+  useEffect(() => {
+    if (!inRange) return;
+    const timer = setTimeout(startTest, HOLD_STEADY_MS);
+    return () => clearTimeout(timer);
+  }, [inRange, startTest]);
 
   // ═══════════════════════════════════════════════════════════════════
   // DISTANCE MODE — 3 metre instructions
@@ -64,43 +107,51 @@ export default function DistanceCalibration({ mode, onCalibrated, onSkip }: Prop
       <View style={st.root}>
         <View style={st.header}>
           <Text style={st.headerEmoji}>📏</Text>
-          <Text style={st.headerTitle}>Distance Setup</Text>
-          <Text style={st.headerSub}>Target: {target.label}</Text>
+          <Text style={st.headerTitle}>{t('calibration.distanceTitle')}</Text>
+          <Text style={st.headerSub}>{t('calibration.target', { target: targetLabel })}</Text>
         </View>
 
         <ScrollView style={st.body} contentContainerStyle={{ paddingBottom: 32 }}>
-          <Text style={st.instrTitle}>Before you begin</Text>
+          <Text style={st.instrTitle}>{t('calibration.beforeYouBegin')}</Text>
 
           <Text style={st.instrStep}>
-            1.  The person being tested should <Text style={st.bold}>stand still</Text>.
+            {t('calibration.distanceStep1Pre')}
+            <Text style={st.bold}>{t('calibration.distanceStep1Bold')}</Text>
+            {t('calibration.distanceStep1Post')}
           </Text>
           <Text style={st.instrStep}>
-            2.  A helper takes the phone and walks{' '}
-            <Text style={st.bold}>3 metres away</Text> (about 4 large steps).
+            {t('calibration.distanceStep2Pre')}
+            <Text style={st.bold}>{t('calibration.distanceStep2Bold')}</Text>
+            {t('calibration.distanceStep2Post')}
           </Text>
           <Text style={st.instrStep}>
-            3.  Face the screen towards the person being tested.
+            {t('calibration.distanceStep3')}
           </Text>
           <Text style={st.instrStep}>
-            4.  Hand the phone to the person, or hold it steady at that distance.
+            {t('calibration.distanceStep4')}
           </Text>
 
+          <StepPlacement
+            targetCm={target.targetCm}
+            onPlacementChange={placement => { pacedRef.current = placement; }}
+          />
+
           <View style={st.tipBox}>
-            <Text style={st.tipTitle}>💡 How to estimate 3 metres</Text>
-            <Text style={st.tipItem}>🚶  About 4 large adult steps</Text>
-            <Text style={st.tipItem}>📏  A standard door is ~2 m tall — add half again</Text>
-            <Text style={st.tipItem}>🛏️  Roughly the length of a single bed</Text>
-            <Text style={st.tipItem}>📐  Use a tape measure for best accuracy</Text>
+            <Text style={st.tipTitle}>{t('calibration.distanceTipTitle')}</Text>
+            <Text style={st.tipItem}>{t('calibration.distanceTipSteps')}</Text>
+            <Text style={st.tipItem}>{t('calibration.distanceTipDoor')}</Text>
+            <Text style={st.tipItem}>{t('calibration.distanceTipBed')}</Text>
+            <Text style={st.tipItem}>{t('calibration.distanceTipTape')}</Text>
           </View>
 
           <TouchableOpacity style={st.startBtn} onPress={startTest}>
-            <Text style={st.startBtnText}>✅  I'm at 3 Metres — Start Test</Text>
+            <Text style={st.startBtnText}>{t('calibration.distanceStart')}</Text>
           </TouchableOpacity>
         </ScrollView>
 
         {onSkip && (
           <TouchableOpacity style={st.skipBtnBottom} onPress={onSkip}>
-            <Text style={st.skipText}>Skip →</Text>
+            <Text style={st.skipText}>{t('common.skip')}</Text>
           </TouchableOpacity>
         )}
       </View>
@@ -115,36 +166,74 @@ export default function DistanceCalibration({ mode, onCalibrated, onSkip }: Prop
     <View style={st.root}>
       <View style={st.header}>
         <Text style={st.headerEmoji}>📐</Text>
-        <Text style={st.headerTitle}>Near Distance Setup</Text>
-        <Text style={st.headerSub}>Target: {target.label}</Text>
+        <Text style={st.headerTitle}>{t('calibration.nearTitle')}</Text>
+        <Text style={st.headerSub}>{t('calibration.target', { target: targetLabel })}</Text>
       </View>
 
       <ScrollView style={st.body} contentContainerStyle={{ paddingBottom: 32 }}>
-        <Text style={st.instrTitle}>Before you begin</Text>
+        <Text style={st.instrTitle}>{t('calibration.beforeYouBegin')}</Text>
 
         <Text style={st.instrStep}>
-          1.  Hold the phone at <Text style={st.bold}>arm's length</Text> — about{' '}
-          {target.label} from your eyes.
+          {t('calibration.nearStep1Pre')}
+          <Text style={st.bold}>{t('calibration.nearStep1Bold')}</Text>
+          {t('calibration.nearStep1Post', { target: targetLabel })}
         </Text>
         <Text style={st.instrStep}>
-          2.  The screen should be roughly at eye level.
+          {t('calibration.nearStep2')}
         </Text>
 
+        {canMeasure && (
+          <View style={st.liveBox}>
+            {measuring ? (
+              <>
+                <Suspense fallback={<View style={st.livePreview} />}>
+                  <FaceDistanceCamera style={st.livePreview} onFrame={reportFrame} />
+                </Suspense>
+                <View style={st.liveInfo}>
+                  <Text style={st.tipTitle}>{t('calibration.liveTitle')}</Text>
+                  {faceFound && reading ? (
+                    <>
+                      <Text style={[st.liveDistance, inRange && st.liveDistanceOk]}>
+                        {t('calibration.liveDistance', { cm: Math.round(reading.distanceCm) })}
+                      </Text>
+                      <Text style={st.tipItem}>{t(VOICE_PROMPTS[reading.instruction])}</Text>
+                    </>
+                  ) : (
+                    <Text style={st.tipItem}>{t('calibration.lookingForFace')}</Text>
+                  )}
+                  <Text style={st.liveHint}>{t('calibration.autoStart', { target: targetLabel })}</Text>
+                </View>
+              </>
+            ) : (
+              <View style={st.liveInfo}>
+                <Text style={st.tipTitle}>{t('calibration.liveTitle')}</Text>
+                <Text style={st.tipItem}>{t('calibration.cameraNeeded')}</Text>
+                {permission?.canAskAgain !== false && (
+                  <TouchableOpacity onPress={requestPermission}>
+                    <Text style={st.skipText}>{t('calibration.allowCamera')}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        )}
+
         <View style={st.tipBox}>
-          <Text style={st.tipTitle}>💡 How to estimate 40 cm</Text>
-          <Text style={st.tipItem}>💪  Elbow to fingertips ≈ 40–45 cm</Text>
-          <Text style={st.tipItem}>💳  5 credit cards end-to-end ≈ 42 cm</Text>
-          <Text style={st.tipItem}>📄  A4 paper long edge (29.7 cm) + about a third more</Text>
+          <Text style={st.tipTitle}>{t('calibration.nearTipTitle')}</Text>
+          <Text style={st.tipItem}>{t('calibration.nearTipArm')}</Text>
+          <Text style={st.tipItem}>{t('calibration.nearTipCards')}</Text>
+          <Text style={st.tipItem}>{t('calibration.nearTipPaper')}</Text>
         </View>
 
         <TouchableOpacity style={st.startBtn} onPress={startTest}>
-          <Text style={st.startBtnText}>✅  I'm at 40 cm — Start Test</Text>
+          <Text style={st.startBtnText}>{t('calibration.nearStart')}</Text>
         </TouchableOpacity>
       </ScrollView>
 
       {onSkip && (
         <TouchableOpacity style={st.skipBtnBottom} onPress={onSkip}>
-          <Text style={st.skipText}>Skip →</Text>
+          <Text style={st.skipText}>{t('common.skip')}</Text>
+
         </TouchableOpacity>
       )}
     </View>
@@ -181,6 +270,21 @@ const st = StyleSheet.create({
   tipTitle: { fontSize: 15, fontWeight: '700', color: '#00838F', marginBottom: 10 },
   tipItem: { fontSize: 14, color: '#424242', lineHeight: 22, marginBottom: 6 },
 
+  liveBox: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 14,
+    padding: 12,
+    marginTop: 8,
+    borderWidth: 2,
+    borderColor: '#B2EBF2',
+  },
+  livePreview: { width: 96, height: 128, borderRadius: 10, overflow: 'hidden', marginRight: 14 },
+  liveInfo: { flex: 1, justifyContent: 'center' },
+  liveDistance: { fontSize: 26, fontWeight: '800', color: '#EF6C00', marginBottom: 4 },
+  liveDistanceOk: { color: '#2E7D32' },
+  liveHint: { fontSize: 12, color: '#757575', marginTop: 4 },
+
   startBtn: {
     backgroundColor: '#2E7D32',
     paddingVertical: 20,
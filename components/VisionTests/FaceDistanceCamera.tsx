@@ -0,0 +1,78 @@
+/**
+ * FaceDistanceCamera.tsx
+ * ----------------------
+ * Front-camera preview that finds the patient's pupils in its frames
+ * with ML Kit's face detector and hands them to `onFrame` (see
+ * lib/faceDistance.ts).  Detection runs in a VisionCamera frame
+ * processor, off the JS thread, a few times a second.
+ *
+ * The worklets are compiled by the react-native-worklets Babel plugin
+ * that babel-preset-expo adds for Reanimated; VisionCamera's
+ * worklets-core runtime reads the same `__workletHash` / `__closure`
+ * / `__initData` shape, so no second worklet plugin is configured.
+ *
+ * Importing this module needs VisionCamera's native module — load it
+ * only when `isFaceDistanceAvailable()`.
+ */
+
+import React, { useEffect } from 'react';
+import type { StyleProp, ViewStyle } from 'react-native';
+import {
+  Camera,
+  runAtTargetFps,
+  useCameraDevice,
+  useCameraFormat,
+  useFrameProcessor,
+} from 'react-native-vision-camera';
+import { useFaceDetector, type FaceDetectionOptions } from 'react-native-vision-camera-face-detector';
+import { useRunOnJS } from 'react-native-worklets-core';
+
+import { DETECTIONS_PER_SECOND, type EyeLandmarks } from '../../lib/faceDistance';
+
+// Coordinates stay in frame pixels (no autoMode), which is what the geometry needs
+const DETECTION_OPTIONS: FaceDetectionOptions = {
+  performanceMode: 'fast',
+  landmarkMode: 'all',
+  cameraFacing: 'front',
+};
+
+interface Props {
+  onFrame: (landmarks: EyeLandmarks | null, frameWidth: number, frameHeight: number) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function FaceDistanceCamera({ onFrame, style }: Props) {
+  const device = useCameraDevice('front');
+  // A small frame is plenty for a face at arm's length and keeps detection cheap
+  const format = useCameraFormat(device, [{ videoResolution: { width: 640, height: 480 } }]);
+  const { detectFaces, stopListeners } = useFaceDetector(DETECTION_OPTIONS);
+  const report = useRunOnJS(onFrame, [onFrame]);
+
+  useEffect(() => stopListeners, [stopListeners]);
+
+  const frameProcessor = useFrameProcessor(frame => {
+    'worklet';
+    runAtTargetFps(DETECTIONS_PER_SECOND, () => {
+      'worklet';
+      const [face] = detectFaces(frame);
+      const eyes = face?.landmarks;
+      report(
+        eyes?.LEFT_EYE && eyes.RIGHT_EYE ? { leftPupil: eyes.LEFT_EYE, rightPupil: eyes.RIGHT_EYE } : null,
+        frame.width,
+        frame.height,
+      );
+    });
+  }, [detectFaces, report]);
+
+  if (!device) return null;
+
+  return (
+    <Camera
+      style={style}
+      device={device}
+      format={format}
+      isActive
+      frameProcessor={frameProcessor}
+    />
+  );
+}
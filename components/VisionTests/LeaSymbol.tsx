@@ -0,0 +1,56 @@
+/**
+ * LeaSymbol.tsx
+ * -------------
+ * LEA-style picture optotypes (house, apple, circle, square) for
+ * pre-school children who cannot read letters or use a Tumbling E.
+ *
+ * The four shapes are drawn as outlines on a 10 × 10 grid with a
+ * stroke of 1/5 of the symbol height, matching the 1/5 critical
+ * detail of Sloan letters.  They blur towards a similar-looking round
+ * blob at threshold, which is what makes LEA symbols equally legible
+ * to one another.  `size` is the symbol height in dp, taken from
+ * `DISTANCE_TEST_LINES`.
+ */
+
+import React from 'react';
+import Svg, { Circle, Path, Rect } from 'react-native-svg';
+import type { LeaSymbolName } from '../../lib/screeningSession';
+
+export const LEA_SYMBOLS: LeaSymbolName[] = ['house', 'apple', 'circle', 'square'];
+
+/** Random symbol, never repeating `previous` so consecutive symbols always differ. */
+export const randomLeaSymbol = (previous?: LeaSymbolName): LeaSymbolName => {
+  const pool = LEA_SYMBOLS.filter(s => s !== previous);
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+const STROKE = 2; // 1/5 of the 10-unit grid
+
+interface Props {
+  size: number;
+  symbol: LeaSymbolName;
+  color?: string;
+}
+
+export default function LeaSymbol({ size, symbol, color = '#000000' }: Props) {
+  const common = {
+    fill: 'none',
+    stroke: color,
+    strokeWidth: STROKE,
+    strokeLinejoin: 'round' as const,
+  };
+
+  return (
+    <Svg width={size} height={size} viewBox="0 0 10 10">
+      {symbol === 'circle' && <Circle cx={5} cy={5} r={4} {...common} />}
+      {symbol === 'square' && <Rect x={1} y={1} width={8} height={8} {...common} />}
+      {symbol === 'house' && <Path d="M5 1 L9 4.6 L9 9 L1 9 L1 4.6 Z" {...common} />}
+      {symbol === 'apple' && (
+        <Path
+          d="M5 3.2 C3.4 1.9 1 2.4 1 5.4 C1 7.9 2.9 9.4 5 8.7 C7.1 9.4 9 7.9 9 5.4 C9 2.4 6.6 1.9 5 3.2 Z M5 3.2 L5.9 1"
+          {...common}
+        />
+      )}
+    </Svg>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * PatientPrompt.tsx
+ * -----------------
+ * Asks for the patient's name or ID before a standalone test, so the
+ * session it saves can be found again by name in Test History.  The
+ * suite asks the same question on its overview screen.
+ */
+
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput } from 'react-native';
+
+import { useI18n } from '../../lib/i18n';
+import { BottomButtons, Card, HeaderBanner, TestPage } from './TestLayout';
+
+// ─── Props ───────────────────────────────────────────────────────────
+
+interface Props {
+  /** The test about to start, shown under the header */
+  testTitle: string;
+  /** Called with the label as typed; blank when the patient is unnamed */
+  onContinue: (patientLabel: string) => void;
+  onExit?: () => void;
+}
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function PatientPrompt({ testTitle, onContinue, onExit }: Props) {
+  const { t } = useI18n();
+  const [patientLabel, setPatientLabel] = useState('');
+
+  return (
+    <TestPage footer={<BottomButtons label={t('common.startScreening')} onPress={() => onContinue(patientLabel)} />}>
+      <HeaderBanner emoji="🧑" title={t('common.patient')} subtitle={testTitle} onBack={onExit} />
+
+      <Card title={t('common.patient')}>
+        <TextInput
+          style={styles.patientInput}
+          value={patientLabel}
+          onChangeText={setPatientLabel}
+          placeholder={t('common.patientPlaceholder')}
+          placeholderTextColor="#9E9E9E"
+          autoCorrect={false}
+        />
+        <Text style={styles.patientHint}>{t('common.patientHint')}</Text>
+      </Card>
+    </TestPage>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  patientInput: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  patientHint: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,38 @@
+/**
+ * QrCode.tsx
+ * ----------
+ * Renders a QR Code for `value`, encoded by the `qrcode` package at
+ * error-correction level L, as a single SVG path, with the four-module quiet zone readers need around it.
+ * `size` is the overall width in dp.
+ */
+
+import React, { useMemo } from 'react';
+import QRCode from 'qrcode';
+import Svg, { Path, Rect } from 'react-native-svg';
+
+const QUIET_ZONE = 4;
+
+interface Props {
+  value: string;
+  size: number;
+}
+
+export default function QrCode({ value, size }: Props) {
+  const { path, extent } = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'L' });
+    let d = '';
+    for (let y = 0; y < modules.size; y++) {
+      for (let x = 0; x < modules.size; x++) {
+        if (modules.get(y, x)) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      }
+    }
+    return { path: d, extent: modules.size + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <Svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`}>
+      <Rect x={0} y={0} width={extent} height={extent} fill="#FFFFFF" />
+      <Path d={path} fill="#000000" />
+    </Svg>
+  );
+}
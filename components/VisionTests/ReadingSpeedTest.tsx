@@ -0,0 +1,426 @@
+/**
+ * ReadingSpeedTest.tsx
+ * --------------------
+ * MNREAD-style timed reading test, offered after the near test
+ * (lib/readingSpeed.ts holds the sentences and the scoring).
+ *
+ * The patient reads with both eyes open, in their reading glasses if
+ * they have them, with the phone at 40 cm.  For each print size the
+ * examiner:
+ *   1. taps Start — the sentence is uncovered and the clock starts
+ *   2. taps Stop on the last word the patient reads
+ *   3. enters how many words were misread or skipped
+ * Print shrinks by 0.1 logMAR a sentence until the patient cannot read
+ * any of one, or the sizes run out.  The summary plots speed against
+ * print size and gives the maximum reading speed, critical print size
+ * and reading acuity.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { LANGUAGES, useI18n, type Language } from '../../lib/i18n';
+import {
+  formatPrintSize,
+  needsLowVisionReferral,
+  printSizeMm,
+  READING_PRINT_SIZES,
+  READING_SENTENCES,
+  READING_SPEED_CATEGORY_LABELS,
+  scoreReadingSpeed,
+  wordCount,
+  wordsPerMinute,
+} from '../../lib/readingSpeed';
+import { mmToDp } from '../../lib/screenCalibration';
+import type { ReadingSpeedCategory, ReadingSpeedResults, ReadingTrial } from '../../lib/screeningSession';
+import { useVoiceGuidance } from '../../lib/voiceService';
+
+// ─── Props ───────────────────────────────────────────────────────────
+
+interface Props {
+  onComplete: (results: ReadingSpeedResults) => void;
+  onSkip?: () => void;
+}
+
+type Step = 'setup' | 'reading' | 'summary';
+
+/** Where the examiner is within one sentence */
+type SentenceState = 'covered' | 'timing' | 'scoring';
+
+const CATEGORY_COLORS: Record<ReadingSpeedCategory, string> = {
+  fluent: '#2E7D32',
+  slow: '#EF6C00',
+  spot: '#C62828',
+};
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function ReadingSpeedTest({ onComplete, onSkip }: Props) {
+  const { t, language: appLanguage } = useI18n();
+
+  const [step, setStep] = useState<Step>('setup');
+  const [language, setLanguage] = useState<Language>(appLanguage);
+  const [index, setIndex] = useState(0);
+  const [sentenceState, setSentenceState] = useState<SentenceState>('covered');
+  const [seconds, setSeconds] = useState(0);
+  const [errors, setErrors] = useState(0);
+  const [trials, setTrials] = useState<ReadingTrial[]>([]);
+  const [results, setResults] = useState<ReadingSpeedResults | null>(null);
+  const startedAtRef = useRef(0);
+
+  useVoiceGuidance(step === 'setup' ? ['voice.reading.setup'] : []);
+
+  const sentence = READING_SENTENCES[language][index];
+  const logMAR = READING_PRINT_SIZES[index];
+  const words = wordCount(sentence);
+
+  const finish = (finalTrials: ReadingTrial[]) => {
+    setResults(scoreReadingSpeed(language, finalTrials));
+    setStep('summary');
+  };
+
+  const startSentence = () => {
+    startedAtRef.current = Date.now();
+    setSentenceState('timing');
+  };
+
+  const stopSentence = () => {
+    setSeconds((Date.now() - startedAtRef.current) / 1000);
+    setErrors(0);
+    setSentenceState('scoring');
+  };
+
+  const nextSentence = () => {
+    // A sentence with no word read ends the test and, never started, is left out of the score
+    if (errors >= words) {
+      finish(trials);
+      return;
+    }
+    const next = [...trials, { logMAR, words, errors, seconds, wordsPerMinute: wordsPerMinute(sentence, seconds, errors) }];
+    if (index === READING_PRINT_SIZES.length - 1) {
+      finish(next);
+      return;
+    }
+    setTrials(next);
+    setIndex(prev => prev + 1);
+    setSentenceState('covered');
+  };
+
+  // ═══════════════════════════════════════════════════════════════════
+  // SETUP
+  // ═══════════════════════════════════════════════════════════════════
+
+  if (step === 'setup') {
+    return (
+      <View style={st.root}>
+        <View style={st.header}>
+          <Text style={st.headerEmoji}>⏱️</Text>
+          <Text style={st.headerTitle}>{t('reading.title')}</Text>
+          <Text style={st.headerSub}>{t('reading.subtitle')}</Text>
+        </View>
+
+        <ScrollView style={st.body} contentContainerStyle={{ paddingBottom: 32 }}>
+          <Text style={st.instrStep}>{t('reading.step1')}</Text>
+          <Text style={st.instrStep}>{t('reading.step2')}</Text>
+          <Text style={st.instrStep}>{t('reading.step3')}</Text>
+          <Text style={st.instrStep}>{t('reading.step4')}</Text>
+
+          <View style={st.tipBox}>
+            <Text style={st.tipTitle}>{t('reading.language')}</Text>
+            <View style={st.languageRow}>
+              {LANGUAGES.map(({ code, label }) => (
+                <TouchableOpacity
+                  key={code}
+                  style={[st.languageChip, language === code && st.languageChipActive]}
+                  onPress={() => setLanguage(code)}
+                >
+                  <Text style={[st.languageText, language === code && st.languageTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={st.tipItem}>{t('reading.languageHint')}</Text>
+          </View>
+
+          <TouchableOpacity style={st.startBtn} onPress={() => setStep('reading')}>
+            <Text style={st.startBtnText}>{t('reading.begin')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+
+        {onSkip && (
+          <TouchableOpacity style={st.skipBtnBottom} onPress={onSkip}>
+            <Text style={st.skipText}>{t('common.skip')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // SUMMARY — speed against print size
+  // ═══════════════════════════════════════════════════════════════════
+
+  if (step === 'summary' && results) {
+    const fastest = Math.max(1, ...results.trials.map(trial => trial.wordsPerMinute));
+    const color = CATEGORY_COLORS[results.category];
+
+    return (
+      <View style={st.root}>
+        <View style={st.header}>
+          <Text style={st.headerEmoji}>⏱️</Text>
+          <Text style={st.headerTitle}>{t('reading.resultsTitle')}</Text>
+        </View>
+
+        <ScrollView style={st.body} contentContainerStyle={{ paddingBottom: 32 }}>
+          <View style={st.card}>
+            <View style={st.summaryRow}>
+              <Text style={st.summaryLabel}>{t('reading.maxSpeed')}</Text>
+              <Text style={[st.summaryValue, { color }]}>{t('reading.wpm', { wpm: results.maxReadingSpeed })}</Text>
+            </View>
+            <View style={st.summaryRow}>
+              <Text style={st.summaryLabel}>{t('reading.criticalPrint')}</Text>
+              <Text style={st.summaryValue}>
+                {results.criticalPrintSize !== null ? formatPrintSize(results.criticalPrintSize) : '—'}
+              </Text>
+            </View>
+            <View style={st.summaryRow}>
+              <Text style={st.summaryLabel}>{t('reading.acuity')}</Text>
+              <Text style={st.summaryValue}>
+                {results.readingAcuity !== null ? t('reading.logMAR', { value: results.readingAcuity.toFixed(2) }) : '—'}
+              </Text>
+            </View>
+            <Text style={[st.verdict, { color }]}>{t(READING_SPEED_CATEGORY_LABELS[results.category])}</Text>
+            {needsLowVisionReferral(results) && <Text style={st.tipItem}>{t('reading.referral')}</Text>}
+          </View>
+
+          {results.trials.length > 0 && (
+            <View style={st.card}>
+              <Text style={st.tipTitle}>{t('reading.curve')}</Text>
+              {results.trials.map(trial => (
+                <View key={trial.logMAR} style={st.curveRow}>
+                  <Text style={st.curveSize}>{trial.logMAR.toFixed(1)}</Text>
+                  <View style={st.curveTrack}>
+                    <View
+                      style={[
+                        st.curveBar,
+                        { width: `${(trial.wordsPerMinute / fastest) * 100}%` },
+                        trial.logMAR === results.criticalPrintSize && st.curveBarCritical,
+                      ]}
+                    />
+                  </View>
+                  <Text style={st.curveValue}>{trial.wordsPerMinute}</Text>
+                </View>
+              ))}
+              <Text style={st.liveHint}>{t('reading.curveHint')}</Text>
+            </View>
+          )}
+
+          <TouchableOpacity style={st.startBtn} onPress={() => onComplete(results)}>
+            <Text style={st.startBtnText}>{t('va.viewAssessment')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════
+  // READING — one sentence per print size
+  // ═══════════════════════════════════════════════════════════════════
+
+  const fontSize = mmToDp(printSizeMm(logMAR));
+
+  return (
+    <View style={st.root}>
+      <View style={st.header}>
+        <Text style={st.headerTitle}>{formatPrintSize(logMAR)}</Text>
+        <Text style={st.headerSub}>
+          {t('reading.sentenceOf', { current: index + 1, total: READING_PRINT_SIZES.length })}
+        </Text>
+      </View>
+
+      <ScrollView style={st.body} contentContainerStyle={st.sentenceContent}>
+        {sentenceState === 'covered' ? (
+          <View style={st.cover}>
+            <Text style={st.coverText}>{t('reading.covered')}</Text>
+          </View>
+        ) : (
+          <Text style={[st.sentence, { fontSize, lineHeight: fontSize * 1.3 }]}>{sentence}</Text>
+        )}
+      </ScrollView>
+
+      <View style={st.controls}>
+        {sentenceState === 'covered' && (
+          <TouchableOpacity style={st.startBtn} onPress={startSentence}>
+            <Text style={st.startBtnText}>{t('reading.start')}</Text>
+          </TouchableOpacity>
+        )}
+
+        {sentenceState === 'timing' && (
+          <>
+            <TouchableOpacity style={[st.startBtn, st.stopBtn]} onPress={stopSentence}>
+              <Text style={st.startBtnText}>{t('reading.stop')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={st.skipBtnBottom} onPress={() => finish(trials)}>
+              <Text style={st.skipText}>{t('reading.cannotRead')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {sentenceState === 'scoring' && (
+          <>
+            <Text style={st.timeText}>
+              {t('reading.time', { seconds: seconds.toFixed(1) })}
+              {' · '}
+              {t('reading.wpm', { wpm: wordsPerMinute(sentence, seconds, errors) })}
+            </Text>
+            <Text style={st.errorsLabel}>{t('reading.errors')}</Text>
+            <View style={st.stepperRow}>
+              <TouchableOpacity style={st.stepperBtn} onPress={() => setErrors(prev => Math.max(0, prev - 1))}>
+                <Text style={st.stepperBtnText}>−</Text>
+              </TouchableOpacity>
+              <Text style={st.stepperValue}>{errors}</Text>
+              <TouchableOpacity style={st.stepperBtn} onPress={() => setErrors(prev => Math.min(words, prev + 1))}>
+                <Text style={st.stepperBtnText}>+</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={st.startBtn} onPress={nextSentence}>
+              <Text style={st.startBtnText}>
+                {t(index === READING_PRINT_SIZES.length - 1 || errors >= words ? 'reading.finish' : 'reading.next')}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const st = StyleSheet.create({
+  root: { flex: 1, backgroundColor: '#F5F5F5' },
+
+  header: {
+    backgroundColor: '#00ACC1',
+    paddingTop: Platform.OS === 'ios' ? 56 : 44,
+    paddingBottom: 16,
+    alignItems: 'center',
+  },
+  headerEmoji: { fontSize: 32, marginBottom: 4 },
+  headerTitle: { fontSize: 20, fontWeight: '700', color: '#fff' },
+  headerSub: { fontSize: 13, color: 'rgba(255,255,255,0.85)', marginTop: 2 },
+
+  body: { flex: 1, padding: 24 },
+  instrStep: { fontSize: 16, color: '#424242', lineHeight: 25, marginBottom: 12 },
+
+  tipBox: {
+    backgroundColor: '#E0F7FA',
+    borderRadius: 14,
+    padding: 18,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  tipTitle: { fontSize: 15, fontWeight: '700', color: '#00838F', marginBottom: 10 },
+  tipItem: { fontSize: 14, color: '#424242', lineHeight: 22, marginBottom: 6 },
+  liveHint: { fontSize: 12, color: '#757575', marginTop: 4 },
+
+  languageRow: { flexDirection: 'row', gap: 10, marginBottom: 10 },
+  languageChip: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 2,
+    borderColor: '#B2EBF2',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  languageChipActive: { borderColor: '#00ACC1', backgroundColor: '#00ACC1' },
+  languageText: { fontSize: 15, fontWeight: '600', color: '#00838F' },
+  languageTextActive: { color: '#FFFFFF' },
+
+  // ── Sentence ──
+  sentenceContent: { flexGrow: 1, justifyContent: 'center', paddingBottom: 48 },
+  sentence: { color: '#000000', textAlign: 'left' },
+  cover: {
+    minHeight: 160,
+    borderRadius: 16,
+    backgroundColor: '#ECEFF1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  coverText: { fontSize: 15, color: '#607D8B', textAlign: 'center', lineHeight: 22 },
+
+  // ── Controls ──
+  controls: {
+    paddingHorizontal: 24,
+    paddingTop: 12,
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+    backgroundColor: '#FFFFFF',
+  },
+  timeText: { fontSize: 16, fontWeight: '700', color: '#212121', textAlign: 'center', marginBottom: 8 },
+  errorsLabel: { fontSize: 14, color: '#616161', textAlign: 'center' },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+    marginVertical: 12,
+  },
+  stepperBtn: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperBtnText: { fontSize: 26, fontWeight: '700', color: '#00838F' },
+  stepperValue: { fontSize: 28, fontWeight: '800', color: '#212121', minWidth: 40, textAlign: 'center' },
+
+  // ── Summary ──
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 14,
+    padding: 18,
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: { fontSize: 14, color: '#616161' },
+  summaryValue: { fontSize: 14, fontWeight: '700', color: '#212121' },
+  verdict: { fontSize: 16, fontWeight: '700', marginTop: 10, marginBottom: 6 },
+  curveRow: { flexDirection: 'row', alignItems: 'center', marginBottom: 6 },
+  curveSize: { width: 36, fontSize: 13, color: '#616161' },
+  curveTrack: { flex: 1, height: 14, borderRadius: 7, backgroundColor: '#ECEFF1', overflow: 'hidden' },
+  curveBar: { height: 14, backgroundColor: '#80DEEA' },
+  curveBarCritical: { backgroundColor: '#00ACC1' },
+  curveValue: { width: 44, fontSize: 13, fontWeight: '600', color: '#212121', textAlign: 'right' },
+
+  startBtn: {
+    backgroundColor: '#2E7D32',
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    elevation: 4,
+  },
+  stopBtn: { backgroundColor: '#C62828' },
+  startBtnText: { color: '#fff', fontSize: 18, fontWeight: '800' },
+
+  skipBtnBottom: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+  },
+  skipText: { fontSize: 14, color: '#00838F', fontWeight: '600' },
+});
@@ -0,0 +1,650 @@
+/**
+ * RemoteController.tsx
+ * --------------------
+ * The examiner's phone in two-device mode (see lib/remoteSession.ts).
+ *
+ * • **Pairing** — scan the QR Code on the display phone, or type its
+ *   session code and relay address.
+ * • **Testing** — shows the optotype currently on the chart, so the
+ *   examiner can mark the patient's answer Correct / Wrong / Can't see
+ *   without walking back to the display.
+ *
+ * The display phone scores every mark with its own threshold engine
+ * and keeps the results; this screen only mirrors them.
+ */
+
+import { CameraView, useCameraPermissions, type BarcodeScanningResult } from 'expo-camera';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useI18n, type TranslationKey } from '../../lib/i18n';
+import {
+  isValidSessionCode,
+  loadRelayUrl,
+  normaliseRelayUrl,
+  normaliseSessionCode,
+  parsePairingUri,
+  REMOTE_LINK_STATUS_LABELS,
+  saveRelayUrl,
+  SESSION_CODE_LENGTH,
+  useRemoteLink,
+  type PairingInfo,
+  type RemoteMessage,
+} from '../../lib/remoteSession';
+import type { EOrientation, Eye, EyeResult, LeaSymbolName } from '../../lib/screeningSession';
+import type { TrialOutcome } from '../../lib/thresholdEngine';
+import LeaSymbol from './LeaSymbol';
+import TumblingE from './TumblingE';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+interface Props {
+  onExit?: () => void;
+}
+
+type DisplayState = Extract<RemoteMessage, { type: 'trial' | 'status' }>;
+
+// ─── Labels ──────────────────────────────────────────────────────────
+
+const E_DIRECTION_LABELS: Record<EOrientation, TranslationKey> = {
+  up: 'spoken.up',
+  right: 'spoken.right',
+  down: 'spoken.down',
+  left: 'spoken.left',
+};
+
+const LEA_SYMBOL_LABELS: Record<LeaSymbolName, TranslationKey> = {
+  house: 'lea.house',
+  apple: 'lea.apple',
+  circle: 'lea.circle',
+  square: 'lea.square',
+};
+
+const TARGET_SIZE = 120;
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function RemoteController({ onExit }: Props) {
+  const { t } = useI18n();
+  const [pairing, setPairing] = useState<PairingInfo | null>(null);
+
+  // Pairing form
+  const [scanning, setScanning] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [codeInput, setCodeInput] = useState('');
+  const [relayInput, setRelayInput] = useState('');
+  const [formError, setFormError] = useState(false);
+
+  // Mirrored from the display
+  const [display, setDisplay] = useState<DisplayState | null>(null);
+  const [results, setResults] = useState<Partial<Record<Eye, EyeResult>>>({});
+  // Set after marking an answer, cleared when the display shows the next optotype
+  const [marked, setMarked] = useState(false);
+
+  // A scan reports the same code many times a second — only act on the first
+  const scannedRef = useRef(false);
+
+  useEffect(() => {
+    loadRelayUrl().then(stored => setRelayInput(prev => prev || stored));
+  }, []);
+
+  const handleMessage = (message: RemoteMessage) => {
+    if (message.type === 'trial' || message.type === 'status') {
+      setDisplay(message);
+      setMarked(false);
+    } else if (message.type === 'result') {
+      setResults(prev => ({ ...prev, [message.eye]: message.result }));
+    }
+  };
+
+  const { status, send } = useRemoteLink('controller', pairing, handleMessage);
+
+  // ─── Pairing ──────────────────────────────────
+  const join = (info: PairingInfo) => {
+    saveRelayUrl(info.relayUrl);
+    setDisplay(null);
+    setResults({});
+    setScanning(false);
+    setPairing(info);
+  };
+
+  const startScanning = async () => {
+    if (!permission?.granted) {
+      const response = await requestPermission();
+      if (!response.granted) return;
+    }
+    scannedRef.current = false;
+    setScanning(true);
+  };
+
+  const handleScanned = ({ data }: BarcodeScanningResult) => {
+    if (scannedRef.current) return;
+    const info = parsePairingUri(data);
+    if (!info) return;
+    scannedRef.current = true;
+    join(info);
+  };
+
+  const joinWithCode = () => {
+    const code = normaliseSessionCode(codeInput);
+    const relayUrl = normaliseRelayUrl(relayInput);
+    if (!isValidSessionCode(code) || !relayUrl) {
+      setFormError(true);
+      return;
+    }
+    setFormError(false);
+    join({ code, relayUrl });
+  };
+
+  const leave = () => {
+    setPairing(null);
+    setDisplay(null);
+  };
+
+  const mark = (outcome: TrialOutcome) => {
+    send({ type: 'response', outcome });
+    setMarked(true);
+  };
+
+  // ─── RENDER ────────────────────────────────────
+
+  // ===== SCANNING =====
+  if (!pairing && scanning) {
+    return (
+      <View style={styles.scanRoot}>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+          onBarcodeScanned={handleScanned}
+        />
+        <View style={styles.scanOverlay}>
+          <Text style={styles.scanHint}>{t('remote.scanHint')}</Text>
+          <TouchableOpacity style={styles.ghostBtn} onPress={() => setScanning(false)}>
+            <Text style={styles.ghostBtnTextLight}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== PAIRING FORM =====
+  if (!pairing) {
+    return (
+      <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent} keyboardShouldPersistTaps="handled">
+        <View style={styles.headerBanner}>
+          {onExit && (
+            <TouchableOpacity style={styles.backArrow} onPress={onExit}>
+              <Text style={styles.backArrowText}>←</Text>
+            </TouchableOpacity>
+          )}
+          <Text style={styles.headerEmoji}>📲</Text>
+          <Text style={styles.headerTitle}>{t('remote.title')}</Text>
+          <Text style={styles.headerSubtitle}>{t('remote.subtitle')}</Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('remote.scan')}</Text>
+          <Text style={styles.bodyText}>{t('remote.scanDesc')}</Text>
+          {permission && !permission.granted && !permission.canAskAgain && (
+            <Text style={styles.errorText}>{t('remote.cameraDenied')}</Text>
+          )}
+          <TouchableOpacity style={styles.primaryBtn} onPress={startScanning}>
+            <Text style={styles.primaryBtnText}>{t('remote.scanButton')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('remote.enterCode')}</Text>
+          <TextInput
+            style={[styles.input, styles.codeInput]}
+            value={codeInput}
+            onChangeText={text => setCodeInput(normaliseSessionCode(text))}
+            placeholder={t('remote.codePlaceholder')}
+            placeholderTextColor="#9E9E9E"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={SESSION_CODE_LENGTH}
+          />
+          <TextInput
+            style={styles.input}
+            value={relayInput}
+            onChangeText={setRelayInput}
+            placeholder={t('remote.relayPlaceholder')}
+            placeholderTextColor="#9E9E9E"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          {formError && <Text style={styles.errorText}>{t('remote.invalidCode')}</Text>}
+          <TouchableOpacity style={styles.secondaryBtn} onPress={joinWithCode}>
+            <Text style={styles.secondaryBtnText}>{t('remote.join')}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    );
+  }
+
+  // ===== CONNECTED =====
+  const paired = status === 'paired';
+  const trial = display?.type === 'trial' ? display : null;
+  const displayStatus = display?.type === 'status' ? display.status : 'waiting';
+  const eyeLabel = t(display?.eye === 'left' ? 'common.LEFT' : 'common.RIGHT');
+
+  const targetLabel = !trial ? '' :
+    trial.optotype === 'tumbling-e' ? t(E_DIRECTION_LABELS[trial.target as EOrientation]) :
+    trial.optotype === 'lea' ? t(LEA_SYMBOL_LABELS[trial.target as LeaSymbolName]) :
+    trial.target;
+
+  return (
+    <View style={styles.screenFlex}>
+      <View style={styles.statusBar}>
+        <Text style={[styles.statusText, paired && styles.statusTextPaired]}>
+          {t(REMOTE_LINK_STATUS_LABELS[status])} · {pairing.code}
+        </Text>
+        <TouchableOpacity onPress={leave}>
+          <Text style={styles.leaveText}>{t('remote.leave')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {trial ? (
+        <View style={styles.screenFlex}>
+          <View style={styles.eyeBanner}>
+            <Text style={styles.eyeBannerText}>{t('va.testing', { eye: eyeLabel })}</Text>
+            <Text style={styles.eyeBannerSub}>{t('va.size', { acuity: trial.acuity })}</Text>
+          </View>
+
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${trial.progress * 100}%` as any }]} />
+          </View>
+
+          <View style={styles.targetArea}>
+            <Text style={styles.targetCaption}>{t('remote.showing')}</Text>
+            {trial.optotype === 'tumbling-e' ? (
+              <TumblingE size={TARGET_SIZE} orientation={trial.target as EOrientation} />
+            ) : trial.optotype === 'lea' ? (
+              <LeaSymbol size={TARGET_SIZE} symbol={trial.target as LeaSymbolName} />
+            ) : (
+              <Text style={styles.targetLetter}>{trial.target}</Text>
+            )}
+            <Text style={styles.targetLabel}>{targetLabel}</Text>
+          </View>
+
+          <View style={styles.markRow}>
+            <TouchableOpacity
+              style={[styles.markBtn, styles.correctBtn, (marked || !paired) && styles.markBtnDisabled]}
+              onPress={() => mark('correct')}
+              disabled={marked || !paired}
+            >
+              <Text style={styles.markBtnText}>{t('remote.correct')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.markBtn, styles.wrongBtn, (marked || !paired) && styles.markBtnDisabled]}
+              onPress={() => mark('incorrect')}
+              disabled={marked || !paired}
+            >
+              <Text style={styles.markBtnText}>{t('remote.wrong')}</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity
+            style={[styles.cantSeeBtn, (marked || !paired) && styles.markBtnDisabled]}
+            onPress={() => mark('cant-see')}
+            disabled={marked || !paired}
+          >
+            <Text style={styles.cantSeeBtnText}>{t('common.cantSee')}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          {displayStatus === 'waiting' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('remote.waiting')}</Text>
+              <Text style={styles.bodyText}>{t('remote.waitingBody')}</Text>
+              <TouchableOpacity
+                style={[styles.primaryBtn, !paired && styles.markBtnDisabled]}
+                onPress={() => send({ type: 'continue' })}
+                disabled={!paired}
+              >
+                <Text style={styles.primaryBtnText}>{t('remote.start')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {displayStatus === 'switch-eye' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('remote.switchEye')}</Text>
+              <Text style={styles.bodyText}>{t('remote.switchEyeBody')}</Text>
+              <TouchableOpacity
+                style={[styles.primaryBtn, !paired && styles.markBtnDisabled]}
+                onPress={() => send({ type: 'continue' })}
+                disabled={!paired}
+              >
+                <Text style={styles.primaryBtnText}>{t('remote.continue')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {displayStatus === 'low-vision' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('remote.lowVision')}</Text>
+              <Text style={styles.bodyText}>{t('remote.lowVisionBody')}</Text>
+            </View>
+          )}
+
+          {displayStatus === 'finished' && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('remote.finished')}</Text>
+              <Text style={styles.bodyText}>{t('remote.finishedBody')}</Text>
+            </View>
+          )}
+
+          {(results.right || results.left) && (
+            <View style={styles.card}>
+              <View style={styles.resultRow}>
+                <Text style={styles.resultEyeLabel}>{t('common.rightEye')}</Text>
+                <Text style={styles.resultAcuity}>{results.right?.acuity ?? '—'}</Text>
+              </View>
+              <View style={styles.divider} />
+              <View style={styles.resultRow}>
+                <Text style={styles.resultEyeLabel}>{t('common.leftEye')}</Text>
+                <Text style={styles.resultAcuity}>{results.left?.acuity ?? '—'}</Text>
+              </View>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+// ─── STYLES ──────────────────────────────────────────────────────────
+const styles = StyleSheet.create({
+  screen: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  screenFlex: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  screenContent: {
+    paddingBottom: 40,
+  },
+  headerBanner: {
+    backgroundColor: '#00838F',
+    paddingTop: 60,
+    paddingBottom: 30,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  backArrow: {
+    position: 'absolute',
+    top: 52,
+    left: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backArrowText: {
+    fontSize: 22,
+    color: '#FFFFFF',
+  },
+  headerEmoji: {
+    fontSize: 48,
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  headerSubtitle: {
+    fontSize: 15,
+    color: '#B2EBF2',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 20,
+    borderRadius: 14,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 6,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#212121',
+    marginBottom: 10,
+  },
+  bodyText: {
+    fontSize: 15,
+    color: '#616161',
+    lineHeight: 22,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#C62828',
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  codeInput: {
+    fontSize: 24,
+    fontWeight: '700',
+    letterSpacing: 6,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+  },
+  primaryBtn: {
+    backgroundColor: '#00ACC1',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryBtnText: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  secondaryBtn: {
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  secondaryBtnText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#00838F',
+  },
+  ghostBtn: {
+    marginTop: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  ghostBtnTextLight: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+
+  // Scanner
+  scanRoot: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  scanOverlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    padding: 24,
+    paddingBottom: 48,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  scanHint: {
+    fontSize: 16,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+
+  // Connected
+  statusBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: 52,
+    paddingBottom: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF6C00',
+  },
+  statusTextPaired: {
+    color: '#2E7D32',
+  },
+  leaveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#C62828',
+  },
+  eyeBanner: {
+    backgroundColor: '#00838F',
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  eyeBannerText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  eyeBannerSub: {
+    fontSize: 13,
+    color: '#B2EBF2',
+    marginTop: 2,
+  },
+  progressBar: {
+    height: 6,
+    backgroundColor: '#E0E0E0',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#00ACC1',
+  },
+  targetArea: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  targetCaption: {
+    fontSize: 14,
+    color: '#757575',
+    marginBottom: 12,
+  },
+  targetLetter: {
+    fontSize: TARGET_SIZE,
+    fontWeight: 'bold',
+    color: '#000000',
+    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+  },
+  targetLabel: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#00838F',
+    marginTop: 12,
+  },
+  markRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+  },
+  markBtn: {
+    flex: 1,
+    paddingVertical: 22,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  correctBtn: {
+    backgroundColor: '#2E7D32',
+  },
+  wrongBtn: {
+    backgroundColor: '#C62828',
+  },
+  markBtnDisabled: {
+    opacity: 0.4,
+  },
+  markBtnText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  cantSeeBtn: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 32,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#BDBDBD',
+    alignItems: 'center',
+  },
+  cantSeeBtnText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#616161',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  resultEyeLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#424242',
+  },
+  resultAcuity: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#00838F',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#EEEEEE',
+    marginVertical: 8,
+  },
+});
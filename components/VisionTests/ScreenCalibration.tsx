@@ -0,0 +1,232 @@
+/**
+ * ScreenCalibration.tsx
+ * ---------------------
+ * Lets the user match an on-screen rectangle to a real bank / ID card
+ * so optotypes are drawn at their true physical size on this phone.
+ *
+ * The rectangle keeps the ID-1 aspect ratio.  Its width is adjusted
+ * with coarse / fine buttons or by dragging the handle on its right
+ * edge; when it matches the card, the width in dp divided by 85.6 mm
+ * is saved as the device's dp-per-mm (see lib/screenCalibration.ts).
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Dimensions,
+  PanResponder,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { useI18n } from '../../lib/i18n';
+import {
+  CARD_HEIGHT_MM,
+  CARD_WIDTH_MM,
+  getDpPerMm,
+  isPlausibleDpPerMm,
+  saveScreenCalibration,
+  type ScreenCalibration as StoredCalibration,
+} from '../../lib/screenCalibration';
+
+// ─── Props ───────────────────────────────────────────────────────────
+
+interface Props {
+  onCalibrated: (calibration: StoredCalibration) => void;
+  onSkip?: () => void;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const MAX_CARD_WIDTH = SCREEN_WIDTH - 32;
+const FINE_STEP = 0.5;   // dp
+const COARSE_STEP = 5;   // dp
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function ScreenCalibration({ onCalibrated, onSkip }: Props) {
+  const { t } = useI18n();
+  const [cardWidth, setCardWidth] = useState(() => Math.min(CARD_WIDTH_MM * getDpPerMm(), MAX_CARD_WIDTH));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dpPerMm = cardWidth / CARD_WIDTH_MM;
+  const cardHeight = CARD_HEIGHT_MM * dpPerMm;
+
+  const resize = (delta: number) => {
+    setError(null);
+    setCardWidth(prev => Math.max(40, Math.min(prev + delta, MAX_CARD_WIDTH)));
+  };
+
+  // ── Drag handle: width follows the finger from where the drag began ──
+  const dragStartWidth = useRef(cardWidth);
+  const widthRef = useRef(cardWidth);
+  widthRef.current = cardWidth;
+
+  const dragResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => { dragStartWidth.current = widthRef.current; },
+      onPanResponderMove: (_, g) => {
+        setError(null);
+        setCardWidth(Math.max(40, Math.min(dragStartWidth.current + g.dx, MAX_CARD_WIDTH)));
+      },
+    })
+  ).current;
+
+  const handleSave = async () => {
+    if (!isPlausibleDpPerMm(dpPerMm)) {
+      setError(t('screenCal.implausible'));
+      return;
+    }
+    setSaving(true);
+    const saved = await saveScreenCalibration(dpPerMm);
+    setSaving(false);
+    if (saved) {
+      onCalibrated(saved);
+    } else {
+      setError(t('screenCal.saveFailed'));
+    }
+  };
+
+  return (
+    <View style={st.root}>
+      <View style={st.header}>
+        <Text style={st.headerEmoji}>💳</Text>
+        <Text style={st.headerTitle}>{t('screenCal.title')}</Text>
+        <Text style={st.headerSub}>{t('screenCal.subtitle')}</Text>
+      </View>
+
+      <ScrollView style={st.body} contentContainerStyle={{ paddingBottom: 32 }}>
+        <Text style={st.instrStep}>
+          {t('screenCal.step1Pre')}
+          <Text style={st.bold}>{t('screenCal.step1Bold')}</Text>
+          {t('screenCal.step1Post')}
+        </Text>
+        <Text style={st.instrStep}>
+          {t('screenCal.step2')}
+        </Text>
+
+        <View style={st.cardArea}>
+          <View style={[st.card, { width: cardWidth, height: cardHeight }]}>
+            <Text style={st.cardLabel}>{t('screenCal.cardHere')}</Text>
+            <View style={st.handle} {...dragResponder.panHandlers}>
+              <Text style={st.handleText}>⇔</Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={st.stepRow}>
+          <TouchableOpacity style={st.stepBtn} onPress={() => resize(-COARSE_STEP)}>
+            <Text style={st.stepBtnText}>−−</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.stepBtn} onPress={() => resize(-FINE_STEP)}>
+            <Text style={st.stepBtnText}>−</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.stepBtn} onPress={() => resize(FINE_STEP)}>
+            <Text style={st.stepBtnText}>+</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.stepBtn} onPress={() => resize(COARSE_STEP)}>
+            <Text style={st.stepBtnText}>++</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={st.readout}>{t('screenCal.readout', { value: dpPerMm.toFixed(2) })}</Text>
+
+        {error && <Text style={st.errorText}>{error}</Text>}
+
+        <TouchableOpacity style={st.startBtn} onPress={handleSave} disabled={saving}>
+          <Text style={st.startBtnText}>{saving ? t('screenCal.saving') : t('screenCal.save')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {onSkip && (
+        <TouchableOpacity style={st.skipBtnBottom} onPress={onSkip}>
+          <Text style={st.skipText}>{t('screenCal.skip')}</Text>
+
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const st = StyleSheet.create({
+  root: { flex: 1, backgroundColor: '#F5F5F5' },
+
+  header: {
+    backgroundColor: '#00ACC1',
+    paddingTop: Platform.OS === 'ios' ? 56 : 44,
+    paddingBottom: 16,
+    alignItems: 'center',
+  },
+  headerEmoji: { fontSize: 32, marginBottom: 4 },
+  headerTitle: { fontSize: 20, fontWeight: '700', color: '#fff' },
+  headerSub: { fontSize: 13, color: 'rgba(255,255,255,0.85)', marginTop: 2 },
+
+  body: { flex: 1, padding: 16 },
+  instrStep: { fontSize: 15, color: '#424242', lineHeight: 23, marginBottom: 10 },
+  bold: { fontWeight: '700', color: '#00838F' },
+
+  cardArea: { marginVertical: 16 },
+  card: {
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    borderRadius: 8,
+    backgroundColor: '#E0F7FA',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardLabel: { fontSize: 12, color: '#00838F' },
+  handle: {
+    position: 'absolute',
+    right: -14,
+    top: '50%',
+    marginTop: -22,
+    width: 28,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#00ACC1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  handleText: { color: '#fff', fontSize: 16, fontWeight: '700' },
+
+  stepRow: { flexDirection: 'row', justifyContent: 'center', gap: 12 },
+  stepBtn: {
+    width: 56,
+    height: 48,
+    borderRadius: 12,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#80DEEA',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepBtnText: { fontSize: 20, fontWeight: '700', color: '#00838F' },
+
+  readout: { fontSize: 12, color: '#9E9E9E', textAlign: 'center', marginTop: 10 },
+  errorText: { fontSize: 13, color: '#C62828', textAlign: 'center', marginTop: 10, lineHeight: 19 },
+
+  startBtn: {
+    backgroundColor: '#2E7D32',
+    paddingVertical: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    elevation: 4,
+    marginTop: 24,
+  },
+  startBtnText: { color: '#fff', fontSize: 18, fontWeight: '800' },
+
+  skipBtnBottom: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    paddingBottom: Platform.OS === 'ios' ? 34 : 16,
+  },
+  skipText: { fontSize: 14, color: '#00838F', fontWeight: '600' },
+});
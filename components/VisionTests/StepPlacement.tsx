@@ -0,0 +1,194 @@
+/**
+ * StepPlacement.tsx
+ * -----------------
+ * Step-counted placement of the phone at the test distance (see
+ * lib/stepPlacement.ts), shown inside the distance setup screen.
+ *
+ * • **Pace out** — the helper walks away from the patient carrying the
+ *   phone; it counts steps and says "two more steps" … "stop here".
+ * • **Calibrate stride** — once per phone, the helper walks a measured
+ *   5 m so later placements use their own stride.
+ *
+ * Reports the placement as it changes, so the parent can record how
+ * the distance was set when the test starts.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { useI18n } from '../../lib/i18n';
+import type { DistancePlacement } from '../../lib/screeningSession';
+import {
+  CALIBRATION_DISTANCE_CM,
+  DEFAULT_STRIDE_CM,
+  getPlacementGuidance,
+  saveStrideCalibration,
+  stepPlacement,
+  useStepCounter,
+  useStrideCalibration,
+} from '../../lib/stepPlacement';
+import { speak } from '../../lib/voiceService';
+
+// ─── Props ───────────────────────────────────────────────────────────
+
+interface Props {
+  targetCm: number;
+  /** Called with the paced placement while pacing, and `null` when pacing stops */
+  onPlacementChange: (placement: DistancePlacement | null) => void;
+}
+
+type Mode = 'idle' | 'pacing' | 'calibrating';
+
+// ─── Component ───────────────────────────────────────────────────────
+
+export default function StepPlacement({ targetCm, onPlacementChange }: Props) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<Mode>('idle');
+  const [calibrationFailed, setCalibrationFailed] = useState(false);
+  const calibration = useStrideCalibration();
+  const strideCm = calibration?.strideCm ?? DEFAULT_STRIDE_CM;
+
+  const { steps, available, reset } = useStepCounter(mode !== 'idle');
+  const guidance = getPlacementGuidance(steps, strideCm, targetCm);
+
+  // Read through a ref so the parent's callback identity does not re-run the effect
+  const onChangeRef = useRef(onPlacementChange);
+  onChangeRef.current = onPlacementChange;
+
+  useEffect(() => {
+    onChangeRef.current(mode === 'pacing' && steps > 0 ? stepPlacement(steps) : null);
+  }, [mode, steps]);
+
+  // ── Spoken countdown while pacing ──
+  const remaining = mode === 'pacing' ? guidance.remainingSteps : null;
+  const started = steps > 0;
+  useEffect(() => {
+    if (remaining === null) return;
+    if (!started) speak('voice.steps.start', { interrupt: true, params: { count: remaining } });
+    else if (remaining === 0) speak('voice.steps.stop', { interrupt: true });
+    else if (remaining === 1) speak('voice.steps.oneMore', { interrupt: true });
+    else speak('voice.steps.more', { interrupt: true, params: { count: remaining } });
+  }, [remaining, started]);
+
+  const begin = (next: Mode) => {
+    reset();
+    setCalibrationFailed(false);
+    setMode(next);
+  };
+
+  const finishCalibration = async () => {
+    const saved = await saveStrideCalibration(steps);
+    if (saved) {
+      setMode('idle');
+    } else {
+      setCalibrationFailed(true);
+    }
+  };
+
+  if (available === false) {
+    return (
+      <View style={st.box}>
+        <Text style={st.title}>{t('steps.title')}</Text>
+        <Text style={st.body}>{t('steps.unavailable')}</Text>
+      </View>
+    );
+  }
+
+  // ===== PACING =====
+  if (mode === 'pacing') {
+    return (
+      <View style={st.box}>
+        <Text style={st.title}>{t('steps.title')}</Text>
+        <Text style={[st.bigCount, guidance.arrived && st.bigCountDone]}>
+          {guidance.arrived
+            ? t('steps.stopHere')
+            : t(guidance.remainingSteps === 1 ? 'steps.oneMore' : 'steps.more', { count: guidance.remainingSteps })}
+        </Text>
+        <Text style={st.body}>
+          {t('steps.walked', { steps, metres: (guidance.walkedCm / 100).toFixed(1) })}
+        </Text>
+        <View style={st.row}>
+          <TouchableOpacity style={st.linkBtn} onPress={() => begin('pacing')}>
+            <Text style={st.linkText}>{t('steps.restart')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.linkBtn} onPress={() => setMode('idle')}>
+            <Text style={st.linkText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== STRIDE CALIBRATION =====
+  if (mode === 'calibrating') {
+    return (
+      <View style={st.box}>
+        <Text style={st.title}>{t('steps.calibrateTitle')}</Text>
+        <Text style={st.body}>{t('steps.calibrateBody', { metres: CALIBRATION_DISTANCE_CM / 100 })}</Text>
+        <Text style={st.bigCount}>{t('steps.counted', { steps })}</Text>
+        {calibrationFailed && <Text style={st.error}>{t('steps.calibrateFailed')}</Text>}
+        <View style={st.row}>
+          <TouchableOpacity style={st.primaryBtn} onPress={finishCalibration}>
+            <Text style={st.primaryText}>{t('common.done')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.linkBtn} onPress={() => begin('calibrating')}>
+            <Text style={st.linkText}>{t('steps.restart')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={st.linkBtn} onPress={() => setMode('idle')}>
+            <Text style={st.linkText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== IDLE =====
+  return (
+    <View style={st.box}>
+      <Text style={st.title}>{t('steps.title')}</Text>
+      <Text style={st.body}>{t('steps.intro')}</Text>
+      <Text style={st.stride}>
+        {calibration
+          ? t('steps.strideCalibrated', { cm: Math.round(strideCm) })
+          : t('steps.strideDefault', { cm: DEFAULT_STRIDE_CM })}
+      </Text>
+      <View style={st.row}>
+        <TouchableOpacity style={st.primaryBtn} onPress={() => begin('pacing')}>
+          <Text style={st.primaryText}>{t('steps.paceOut')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={st.linkBtn} onPress={() => begin('calibrating')}>
+          <Text style={st.linkText}>{t(calibration ? 'steps.recalibrate' : 'steps.calibrate')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+const st = StyleSheet.create({
+  box: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 14,
+    padding: 18,
+    marginBottom: 24,
+    borderWidth: 2,
+    borderColor: '#B2EBF2',
+  },
+  title: { fontSize: 15, fontWeight: '700', color: '#00838F', marginBottom: 8 },
+  body: { fontSize: 14, color: '#424242', lineHeight: 21, marginBottom: 8 },
+  stride: { fontSize: 13, color: '#757575', marginBottom: 12 },
+  error: { fontSize: 13, color: '#C62828', marginBottom: 8 },
+  bigCount: { fontSize: 28, fontWeight: '800', color: '#EF6C00', marginVertical: 8 },
+  bigCountDone: { color: '#2E7D32' },
+  row: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 8 },
+  primaryBtn: {
+    backgroundColor: '#00ACC1',
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  primaryText: { color: '#fff', fontSize: 15, fontWeight: '700' },
+  linkBtn: { paddingVertical: 12, paddingHorizontal: 10 },
+  linkText: { fontSize: 14, color: '#00838F', fontWeight: '600' },
+});
@@ -0,0 +1,651 @@
+/**
+ * TestLayout.tsx
+ * --------------
+ * The page furniture every vision test is built from: header and eye
+ * banners, cards, info and step rows, the per-eye cover and switch
+ * screens, results rows and the pinned bottom buttons.
+ *
+ * The components cover the common layouts; `testStyles` is exported
+ * for the odd one-off (a diagnosis card, body text, the test screen's
+ * bottom section) so a test only keeps styles for what is its own.
+ */
+
+import React, { type ReactNode } from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+  type StyleProp,
+  type ViewStyle,
+} from 'react-native';
+
+// ─── Page ────────────────────────────────────────────────────────────
+
+/** Scrolling page with `footer` (usually `BottomButtons`) pinned below it */
+export function TestPage({ children, footer }: { children: ReactNode; footer?: ReactNode }) {
+  return (
+    <View style={testStyles.screenFlex}>
+      <ScrollView style={testStyles.screen} contentContainerStyle={testStyles.screenContent}>
+        {children}
+      </ScrollView>
+      {footer}
+    </View>
+  );
+}
+
+interface HeaderBannerProps {
+  emoji: string;
+  title: string;
+  subtitle?: string;
+  /** Shows the back arrow */
+  onBack?: () => void;
+  color?: string;
+}
+
+export function HeaderBanner({ emoji, title, subtitle, onBack, color }: HeaderBannerProps) {
+  return (
+    <View style={[testStyles.headerBanner, color ? { backgroundColor: color } : null]}>
+      {onBack && (
+        <TouchableOpacity style={testStyles.backArrow} onPress={onBack}>
+          <Text style={testStyles.backArrowText}>←</Text>
+        </TouchableOpacity>
+      )}
+      <Text style={testStyles.headerEmoji}>{emoji}</Text>
+      <Text style={testStyles.headerTitle}>{title}</Text>
+      {subtitle ? <Text style={testStyles.headerSubtitle}>{subtitle}</Text> : null}
+    </View>
+  );
+}
+
+/** Which eye is being tested, across the top of the per-eye screens */
+export function EyeBanner({ title, subtitle }: { title: string; subtitle: string }) {
+  return (
+    <View style={testStyles.eyeBanner}>
+      <Text style={testStyles.eyeBannerText}>{title}</Text>
+      <Text style={testStyles.eyeBannerSub}>{subtitle}</Text>
+    </View>
+  );
+}
+
+/** `label` replaces the percentage for tests that count steps instead */
+export function ProgressBar({ percent, label }: { percent: number; label?: string }) {
+  return (
+    <View style={testStyles.progressContainer}>
+      <View style={testStyles.progressBar}>
+        <View style={[testStyles.progressFill, { width: `${percent}%` }]} />
+      </View>
+      <Text style={testStyles.progressText}>{label ?? `${percent}%`}</Text>
+    </View>
+  );
+}
+
+interface BottomButtonsProps {
+  label: string;
+  onPress: () => void;
+  /** Secondary text button below the main one */
+  ghostLabel?: string;
+  onGhostPress?: () => void;
+}
+
+export function BottomButtons({ label, onPress, ghostLabel, onGhostPress }: BottomButtonsProps) {
+  return (
+    <View style={testStyles.bottomBtnContainer}>
+      <TouchableOpacity style={testStyles.primaryBtn} onPress={onPress}>
+        <Text style={testStyles.primaryBtnText}>{label}</Text>
+      </TouchableOpacity>
+      {ghostLabel && onGhostPress && (
+        <TouchableOpacity style={testStyles.ghostBtn} onPress={onGhostPress}>
+          <Text style={testStyles.ghostBtnText}>{ghostLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+// ─── Cards ───────────────────────────────────────────────────────────
+
+export function Card({ title, style, children }: { title?: string; style?: StyleProp<ViewStyle>; children?: ReactNode }) {
+  return (
+    <View style={[testStyles.card, style]}>
+      {title ? <Text style={testStyles.cardTitle}>{title}</Text> : null}
+      {children}
+    </View>
+  );
+}
+
+export const Divider = () => <View style={testStyles.divider} />;
+
+export function InfoRow({ icon, label, description }: { icon: string; label: string; description: string }) {
+  return (
+    <View style={testStyles.infoRow}>
+      <Text style={testStyles.infoIcon}>{icon}</Text>
+      <View style={testStyles.infoTextBlock}>
+        <Text style={testStyles.infoLabel}>{label}</Text>
+        <Text style={testStyles.infoDesc}>{description}</Text>
+      </View>
+    </View>
+  );
+}
+
+/** A numbered (or bulleted) instruction; `color` tints the marker */
+export function StepRow({ marker, color, children }: { marker: string; color?: string; children: ReactNode }) {
+  return (
+    <View style={testStyles.stepRow}>
+      <View style={[testStyles.stepCircle, color ? { backgroundColor: color } : null]}>
+        <Text style={testStyles.stepNumber}>{marker}</Text>
+      </View>
+      <Text style={testStyles.stepText}>{children}</Text>
+    </View>
+  );
+}
+
+export function TipBox({ children }: { children: ReactNode }) {
+  return (
+    <View style={testStyles.tipBox}>
+      <Text style={testStyles.tipText}>{children}</Text>
+    </View>
+  );
+}
+
+// ─── Per-eye screens ─────────────────────────────────────────────────
+
+interface CoverEyePromptProps {
+  title: string;
+  description: string;
+  hint?: string;
+  emoji?: string;
+}
+
+/** Body of the "cover your other eye" screen before each eye */
+export function CoverEyePrompt({ title, description, hint, emoji = '🫣' }: CoverEyePromptProps) {
+  return (
+    <View style={testStyles.instructionBody}>
+      <View style={testStyles.coverEyeContainer}>
+        <Text style={testStyles.coverEyeEmoji}>{emoji}</Text>
+        <Text style={testStyles.coverEyeTitle}>{title}</Text>
+        <Text style={testStyles.coverEyeDesc}>{description}</Text>
+      </View>
+      {hint ? <Text style={testStyles.instructionHint}>{hint}</Text> : null}
+    </View>
+  );
+}
+
+interface SwitchEyePromptProps {
+  title: string;
+  description: string;
+  emoji?: string;
+  /** Shown under the card, e.g. a `MiniResultCard` for the first eye */
+  children?: ReactNode;
+}
+
+/** Body of the screen between the right and left eye */
+export function SwitchEyePrompt({ title, description, emoji = '👁️', children }: SwitchEyePromptProps) {
+  return (
+    <View style={testStyles.switchBody}>
+      <View style={testStyles.switchCard}>
+        <Text style={testStyles.switchEmoji}>{emoji}</Text>
+        <Text style={testStyles.switchTitle}>{title}</Text>
+        <Text style={testStyles.switchDesc}>{description}</Text>
+      </View>
+      {children}
+    </View>
+  );
+}
+
+export function MiniResultCard({ title, text, color }: { title: string; text: string; color?: string }) {
+  return (
+    <View style={testStyles.miniResultCard}>
+      <Text style={testStyles.miniResultTitle}>{title}</Text>
+      <Text style={[testStyles.miniResultText, color ? { color } : null]}>{text}</Text>
+    </View>
+  );
+}
+
+// ─── Results ─────────────────────────────────────────────────────────
+
+export function SummaryRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={testStyles.summaryRow}>
+      <Text style={testStyles.summaryLabel}>{label}</Text>
+      <Text style={testStyles.summaryValue}>{value}</Text>
+    </View>
+  );
+}
+
+/** One line of "what this test can / cannot do" */
+export function LimitRow({ icon, text }: { icon: string; text: string }) {
+  return (
+    <View style={testStyles.limitRow}>
+      <Text style={testStyles.limitIcon}>{icon}</Text>
+      <Text style={testStyles.limitText}>{text}</Text>
+    </View>
+  );
+}
+
+export function Disclaimer({ children }: { children: ReactNode }) {
+  return (
+    <View style={testStyles.disclaimer}>
+      <Text style={testStyles.disclaimerText}>{children}</Text>
+    </View>
+  );
+}
+
+// ─── Styles ──────────────────────────────────────────────────────────
+
+export const testStyles = StyleSheet.create({
+  // ── Screens ──
+  screen: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  screenFlex: {
+    flex: 1,
+    backgroundColor: '#F5F5F5',
+  },
+  screenContent: {
+    paddingBottom: 20,
+  },
+  testScreen: {
+    paddingHorizontal: 0,
+  },
+
+  // ── Header Banner ──
+  headerBanner: {
+    backgroundColor: '#00ACC1',
+    paddingTop: 50,
+    paddingBottom: 25,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    position: 'relative',
+  },
+  backArrow: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: 10,
+  },
+  backArrowText: {
+    fontSize: 20,
+    color: '#FFFFFF',
+    fontWeight: 'bold',
+  },
+  headerEmoji: {
+    fontSize: 44,
+    marginBottom: 8,
+    color: '#FFFFFF',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: 'rgba(255,255,255,0.85)',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+
+  // ── Cards ──
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 14,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#212121',
+    marginBottom: 14,
+  },
+  bodyText: {
+    fontSize: 15,
+    color: '#424242',
+    lineHeight: 22,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: '#E0E0E0',
+    marginVertical: 14,
+  },
+
+  // ── Info Rows ──
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  infoIcon: {
+    fontSize: 24,
+    marginRight: 14,
+    marginTop: 2,
+  },
+  infoTextBlock: {
+    flex: 1,
+  },
+  infoLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 3,
+  },
+  infoDesc: {
+    fontSize: 14,
+    color: '#616161',
+    lineHeight: 20,
+  },
+
+  // ── Steps ──
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  stepCircle: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#00ACC1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 14,
+  },
+  stepNumber: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  stepText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#424242',
+    lineHeight: 21,
+  },
+
+  // ── Tip Box ──
+  tipBox: {
+    backgroundColor: '#E0F7FA',
+    borderRadius: 10,
+    padding: 14,
+    marginTop: 8,
+  },
+  tipText: {
+    fontSize: 14,
+    color: '#00695C',
+    lineHeight: 20,
+  },
+
+  // ── Eye Banner ──
+  eyeBanner: {
+    backgroundColor: '#00838F',
+    paddingBottom: 12,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    paddingTop: 44,
+  },
+  eyeBannerText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  eyeBannerSub: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.8)',
+    marginTop: 2,
+  },
+
+  // ── Progress ──
+  progressContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 10,
+    paddingBottom: 4,
+  },
+  progressBar: {
+    height: 6,
+    backgroundColor: '#E0E0E0',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#00ACC1',
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 6,
+    textAlign: 'right',
+  },
+
+  // ── Test Bottom Section ──
+  testBottomSection: {
+    paddingTop: 8,
+    paddingBottom: 20,
+    paddingHorizontal: 16,
+    backgroundColor: '#F5F5F5',
+  },
+  questionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    textAlign: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+
+  // ── Test Instructions (per eye) ──
+  instructionBody: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  coverEyeContainer: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  coverEyeEmoji: {
+    fontSize: 56,
+    marginBottom: 12,
+  },
+  coverEyeTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#212121',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  coverEyeDesc: {
+    fontSize: 15,
+    color: '#616161',
+    textAlign: 'center',
+    lineHeight: 22,
+    paddingHorizontal: 8,
+  },
+  instructionHint: {
+    fontSize: 14,
+    color: '#757575',
+    textAlign: 'center',
+    lineHeight: 20,
+    fontStyle: 'italic',
+  },
+
+  // ── Switch Eye Screen ──
+  switchBody: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  switchCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 28,
+    alignItems: 'center',
+    width: '100%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  switchEmoji: {
+    fontSize: 56,
+    marginBottom: 16,
+  },
+  switchTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#212121',
+    marginBottom: 12,
+  },
+  switchDesc: {
+    fontSize: 16,
+    color: '#424242',
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  miniResultCard: {
+    backgroundColor: '#E0F7FA',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 20,
+    width: '100%',
+    alignItems: 'center',
+  },
+  miniResultTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#00838F',
+    marginBottom: 4,
+  },
+  miniResultText: {
+    fontSize: 14,
+    fontWeight: '500',
+    textAlign: 'center',
+  },
+
+  // ── Summary Rows ──
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: '#616161',
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#212121',
+  },
+
+  // ── Limitations ──
+  limitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  limitIcon: {
+    fontSize: 16,
+    marginRight: 10,
+    width: 24,
+    textAlign: 'center',
+  },
+  limitText: {
+    fontSize: 14,
+    color: '#424242',
+    flex: 1,
+    lineHeight: 20,
+  },
+
+  // ── Diagnosis ──
+  diagnosisCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: '#00ACC1',
+  },
+  diagnosisText: {
+    fontSize: 15,
+    color: '#424242',
+    lineHeight: 22,
+  },
+  recommendTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#212121',
+    marginBottom: 6,
+  },
+  recommendText: {
+    fontSize: 15,
+    color: '#424242',
+    lineHeight: 22,
+  },
+
+  // ── Buttons ──
+  bottomBtnContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 36,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+  },
+  primaryBtn: {
+    backgroundColor: '#00ACC1',
+    width: '80%',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    shadowColor: '#00ACC1',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  primaryBtnText: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+  },
+  ghostBtn: {
+    marginTop: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  ghostBtnText: {
+    fontSize: 15,
+    color: '#00838F',
+    fontWeight: '600',
+  },
+
+  // ── Disclaimer ──
+  disclaimer: {
+    marginHorizontal: 16,
+    marginTop: 20,
+    padding: 14,
+    backgroundColor: '#FFF3E0',
+    borderRadius: 10,
+  },
+  disclaimerText: {
+    fontSize: 13,
+    color: '#E65100',
+    lineHeight: 19,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,51 @@
+/**
+ * TumblingE.tsx
+ * -------------
+ * Renders a single Tumbling-E optotype for patients who cannot name
+ * Latin letters.
+ *
+ * The E is drawn on the standard 5 × 5 grid: a one-unit spine and three
+ * one-unit bars separated by one-unit gaps, so the gap width is exactly
+ * 1/5 of the optotype height — the same critical detail as a Sloan
+ * letter.  `size` is the optotype height in dp, taken straight from
+ * `DISTANCE_TEST_LINES` so both charts share one angular-size table.
+ */
+
+import React from 'react';
+import Svg, { G, Rect } from 'react-native-svg';
+import type { EOrientation } from '../../lib/screeningSession';
+
+// Degrees to rotate the base (right-facing) E so its bars point this way
+const ROTATION: Record<EOrientation, number> = {
+  right: 0,
+  down: 90,
+  left: 180,
+  up: 270,
+};
+
+export const E_ORIENTATIONS: EOrientation[] = ['up', 'right', 'down', 'left'];
+
+/** Random orientation, never repeating `previous` so consecutive Es always differ. */
+export const randomOrientation = (previous?: EOrientation): EOrientation => {
+  const pool = E_ORIENTATIONS.filter(o => o !== previous);
+  return pool[Math.floor(Math.random() * pool.length)];
+};
+
+interface Props {
+  size: number;
+  orientation: EOrientation;
+  color?: string;
+}
+
+export default function TumblingE({ size, orientation, color = '#000000' }: Props) {
+  return (
+    <Svg width={size} height={size} viewBox="0 0 5 5">
+      <G transform={`rotate(${ROTATION[orientation]} 2.5 2.5)`}>
+        <Rect x={0} y={0} width={1} height={5} fill={color} />
+        <Rect x={0} y={0} width={5} height={1} fill={color} />
+        <Rect x={0} y={2} width={5} height={1} fill={color} />
+        <Rect x={0} y={4} width={5} height={1} fill={color} />
+      </G>
+    </Svg>
+  );
+}
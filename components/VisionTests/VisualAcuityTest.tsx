@@ -1,79 +1,203 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Animated,
   BackHandler,
   Dimensions,
+  PanResponder,
   PixelRatio,
   Platform,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
-import { restoreBrightness } from '../../lib/brightnessService';
+import { BRIGHTNESS_POLICIES, useBrightnessPolicy } from '../../lib/brightnessService';
+import { DISTANCE_TARGETS } from '../../lib/distanceService';
+import { parseAge } from '../../lib/historyService';
+import { t, useI18n, type TranslationKey } from '../../lib/i18n';
+import { estimateReadingAdd, READY_MADE_LABELS } from '../../lib/presbyopia';
+import {
+  formatPrintSize,
+  needsLowVisionReferral,
+  READING_SPEED_CATEGORY_LABELS,
+} from '../../lib/readingSpeed';
+import {
+  createSessionCode,
+  encodePairingUri,
+  loadRelayUrl,
+  normaliseRelayUrl,
+  REMOTE_LINK_STATUS_LABELS,
+  saveRelayUrl,
+  useRemoteLink,
+  type PairingInfo,
+  type RemoteDisplayStatus,
+  type RemoteMessage,
+} from '../../lib/remoteSession';
+import {
+  CARD_HEIGHT_MM,
+  CARD_WIDTH_MM,
+  getDpPerMm,
+  getScreenCalibration,
+  mmToDp,
+} from '../../lib/screenCalibration';
+import type {
+  AcuityCondition,
+  AcuityDiagnosis,
+  BinocularResult,
+  DistancePlacement,
+  DistanceResults,
+  EOrientation,
+  Eye,
+  EyeResult,
+  LeaSymbolName,
+  LowVisionLevel,
+  NearEyeResult,
+  NearResults,
+  OptotypePresentation,
+  OptotypeSet,
+  PinholeResult,
+  ReadingSpeedResults,
+  ThresholdInterval,
+  ThresholdStrategyKind,
+  VisualAcuityResults,
+} from '../../lib/screeningSession';
+import { useQualityRecorder } from '../../lib/sessionQuality';
+import {
+  createThresholdStrategy,
+  THRESHOLD_STRATEGY_LABELS,
+  type ThresholdEstimate,
+  type ThresholdLevel,
+  type ThresholdStrategy,
+  type Trial,
+  type TrialOutcome,
+} from '../../lib/thresholdEngine';
+import {
+  CANT_SEE,
+  E_VOCABULARY,
+  getSpeechRecognizer,
+  LEA_VOCABULARY,
+  SLOAN_VOCABULARY,
+  useSpokenAnswers,
+  type SpokenVocabulary,
+} from '../../lib/speechResponse';
+import { manualPlacement } from '../../lib/stepPlacement';
+import { useVoiceGuidance, type VoicePromptKey } from '../../lib/voiceService';
+import AmbientLightCheck from './AmbientLightCheck';
+import CrowdedLine from './CrowdedLine';
 import DistanceCalibration from './DistanceCalibration';
+import QrCode from './QrCode';
+import ReadingSpeedTest from './ReadingSpeedTest';
+import ScreenCalibration from './ScreenCalibration';
+import LeaSymbol, { LEA_SYMBOLS, randomLeaSymbol } from './LeaSymbol';
+import TumblingE, { randomOrientation } from './TumblingE';
 
 // ─── TYPES ───────────────────────────────────────────────────────────
-type Eye = 'right' | 'left';
 type TestPhase =
   | 'welcome'
   | 'distance-setup'
+  | 'remote-pairing'
   | 'distance-calibrating'
   | 'distance-calibration'
+  | 'screen-calibration'
   | 'distance-test'
+  | 'distance-low-vision'
+  | 'distance-pinhole-offer'
+  | 'distance-pinhole-setup'
   | 'distance-switch-eye'
+  | 'distance-condition'
   | 'distance-results'
   | 'near-setup'
   | 'near-calibrating'
   | 'near-test'
   | 'near-switch-eye'
   | 'near-results'
+  | 'reading-speed'
   | 'combined-results';
 
-interface EyeResult {
-  acuity: string;
-  linesRead: number;
-  decimal: number;
-}
+/** Who records the patient's answers during the distance test */
+type AnswerMode = 'tap' | 'spoken' | 'remote';
 
-interface NearEyeResult {
-  level: string;
-  equivalent: string;
-  linesRead: number;
+interface Props {
+  /** Patient's age from the suite; the welcome screen asks for it when left out */
+  age?: number | null;
+  onComplete?: (results: VisualAcuityResults) => void;
+  onExit?: () => void;
 }
 
-interface DistanceResults {
-  rightEye: EyeResult | null;
-  leftEye: EyeResult | null;
-}
+/** Phases shown at the user's own brightness; every other phase holds the test level */
+const BRIGHTNESS_FREE_PHASES: TestPhase[] = ['welcome', 'distance-setup', 'remote-pairing', 'combined-results'];
 
-interface NearResults {
-  rightEye: NearEyeResult | null;
-  leftEye: NearEyeResult | null;
-}
+// ─── SPOKEN GUIDANCE ─────────────────────────────────────────────────
+// What is said on entering each phase, so a patient 3 m away can follow
+// without reading the screen.  The calibration screens narrate themselves.
+const READ_PROMPTS: Record<OptotypeSet, VoicePromptKey> = {
+  sloan: 'voice.va.readLetters',
+  'tumbling-e': 'voice.va.readE',
+  lea: 'voice.va.readLea',
+};
 
-interface Props {
-  onComplete?: (results: any) => void;
-  onExit?: () => void;
+function getPhasePrompts(
+  phase: TestPhase,
+  eye: Eye,
+  condition: AcuityCondition,
+  optotype: OptotypeSet,
+  presentation: OptotypePresentation,
+  spoken: boolean,
+): VoicePromptKey[] {
+  const cover: VoicePromptKey =
+    condition === 'binocular' ? 'voice.va.bothEyes' : eye === 'right' ? 'voice.coverLeftEye' : 'voice.coverRightEye';
+  switch (phase) {
+    case 'welcome': return ['voice.va.welcome'];
+    case 'distance-setup': return ['voice.va.distanceSetup'];
+    case 'distance-calibration': return ['voice.va.distanceCheck'];
+    case 'distance-test': {
+      const prompts: VoicePromptKey[] = [cover, READ_PROMPTS[optotype]];
+      if (presentation === 'crowded') prompts.push('voice.va.readMarked');
+      if (spoken) prompts.push('voice.spoken.instructions');
+      return prompts;
+    }
+    case 'distance-low-vision': return ['voice.va.lowVision'];
+    case 'distance-pinhole-offer': return ['voice.va.pinholeOffer'];
+    case 'distance-pinhole-setup': return ['voice.va.pinholeSetup'];
+    case 'distance-switch-eye':
+    case 'near-switch-eye': return ['voice.rightEyeDone', 'voice.coverRightEye'];
+    case 'distance-condition': return [CONDITION_PROMPTS[condition]];
+    case 'distance-results': return ['voice.va.distanceDone', 'voice.resultsOnScreen'];
+    case 'near-setup': return ['voice.va.nearSetup'];
+    case 'near-test': return [cover, 'voice.va.readNear'];
+    case 'near-results': return ['voice.va.nearDone', 'voice.resultsOnScreen'];
+    case 'combined-results': return ['voice.va.complete', 'voice.resultsOnScreen'];
+    default: return [];
+  }
 }
 
+// Said on the interstitial before each condition after the first
+const CONDITION_PROMPTS: Record<AcuityCondition, VoicePromptKey> = {
+  uncorrected: 'voice.va.distanceCheck',
+  spectacles: 'voice.va.putOnGlasses',
+  binocular: 'voice.va.bothEyes',
+};
+
 // ─── SCREEN CALIBRATION ──────────────────────────────────────────────
 //
 // React Native fontSize is in density-independent pixels (dp).
 // 1 dp = 1/160 inch on Android (mdpi baseline) or 1/163 inch on iOS.
 //
 // To render a letter at a specific PHYSICAL height (in mm) on screen,
-// we convert:  mm → inches → dp
+// we convert:  dp = mm × dp-per-mm
 //
-//   dp = mm × (BASE_DPI / 25.4)
+// The nominal 160/163 dp-per-inch is only a density bucket, and real
+// panels can be 10–20 % off.  dp-per-mm therefore comes from the
+// per-device card calibration in lib/screenCalibration.ts, falling
+// back to the nominal density until the phone has been calibrated.
+// Sizes are computed at render time, never at import, so a fresh
+// calibration takes effect immediately.
 //
 // PixelRatio is NOT used here because fontSize already works in dp.
 // The OS handles dp → physical pixels internally.
 //
-// This gives us the correct physical size on every device, which is
-// essential because the Snellen test depends on angular subtense.
-//
 // ─── ANGULAR SIZE FORMULA ────────────────────────────────────────────
 //
 // letterHeight = 2 × tan(θ/2) × distance
@@ -85,22 +209,33 @@ interface Props {
 // General at 3 m:  height_mm = (denominator / 6) × 4.365
 //                            = denominator × 0.7275
 
-const BASE_DPI = Platform.OS === 'ios' ? 163 : 160;
-const MM_TO_DP = BASE_DPI / 25.4;  // dp per mm (~6.3 dp/mm)
-
-/** Convert a physical measurement in millimetres to dp (fontSize units). */
-const mmToDp = (mm: number): number => mm * MM_TO_DP;
-
-// For the credit-card calibration overlay we also need this:
-const SCREEN_DPI_PHYSICAL = PixelRatio.get() * BASE_DPI;
-const mmToLayoutPixels = (mm: number): number => (mm / 25.4) * BASE_DPI;
-// Layout uses dp too, so same conversion as mmToDp
+/** Physical pixels per inch of this screen, as far as we know it. */
+const getPhysicalDpi = (): number => PixelRatio.get() * getDpPerMm() * 25.4;
 
 // Maximum fontSize that fits inside the letter container
 // (screen width minus horizontal margins and padding)
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const MAX_LETTER_FONT = SCREEN_WIDTH - 80; // 20px margin each side + 20px padding each side
 
+// Room for a crowded line inside the same container (20px margin + 10px padding each side)
+const CROWDED_LINE_WIDTH = SCREEN_WIDTH - 60;
+
+// ─── RENDERING LIMITS ────────────────────────────────────────────────
+// The smallest lines (6/4.8, 6/3) are only a few physical pixels tall.
+// Once a letter's stroke width (1/5 of its height) drops under ~3
+// device pixels it is anti-aliased into grey, and rounding fontSize to
+// whole dp can change the letter's size noticeably — either way the
+// line no longer subtends the angle it claims to.
+const MIN_DETAIL_PX = 3;
+const MAX_SIZE_ERROR = 0.1;
+
+function canRenderFaithfully(letterHeight_mm: number): boolean {
+  const detailPx = (letterHeight_mm / 5) * (getPhysicalDpi() / 25.4);
+  const exactDp = mmToDp(letterHeight_mm);
+  const sizeError = Math.abs(Math.round(exactDp) - exactDp) / exactDp;
+  return detailPx >= MIN_DETAIL_PX && sizeError <= MAX_SIZE_ERROR;
+}
+
 // ─── SNELLEN STANDARD — 3-METER TEST DISTANCE ───────────────────────
 //
 // The Snellen chart specifies letter heights by the visual angle they
@@ -118,14 +253,94 @@ const MAX_LETTER_FONT = SCREEN_WIDTH - 80; // 20px margin each side + 20px paddi
 // standard — equal legibility, sans-serif, 5 × 5 grid.
 // We restrict choices to this set to avoid bias.
 
-const SLOAN_LETTERS = ['C', 'D', 'E', 'F', 'H', 'K', 'N', 'O', 'P', 'R', 'S', 'V', 'Z'];
+export const SLOAN_LETTERS = ['C', 'D', 'E', 'F', 'H', 'K', 'N', 'O', 'P', 'R', 'S', 'V', 'Z'];
 
-const generateSloanChoices = (correct: string): string[] => {
+export const generateSloanChoices = (correct: string): string[] => {
   const pool = SLOAN_LETTERS.filter(l => l !== correct);
   const shuffled = [...pool].sort(() => Math.random() - 0.5);
   return [correct, ...shuffled.slice(0, 3)].sort(() => Math.random() - 0.5);
 };
 
+// ─── TUMBLING E ──────────────────────────────────────────────────────
+// For patients who cannot name Latin letters.  Each chart position
+// gets a random orientation (never the same twice in a row) and the
+// E is drawn at the same height as the Sloan letter it replaces, so
+// DISTANCE_TEST_LINES drives both charts.
+
+const generateEChart = (): EOrientation[][] =>
+  DISTANCE_TEST_LINES.map(row => {
+    const line: EOrientation[] = [];
+    for (let i = 0; i < row.letters.length; i++) {
+      line.push(randomOrientation(line[i - 1]));
+    }
+    return line;
+  });
+
+// Minimum drag distance (dp) before a gesture on the E counts as a swipe
+const SWIPE_THRESHOLD = 40;
+
+// ─── LEA SYMBOLS CHART ───────────────────────────────────────────────
+// Picture chart for children aged roughly 3–6.  Same angular sizes as
+// the letter chart; the child names or points to the matching picture
+// on a large answer pad.
+
+const generateLeaChart = (): LeaSymbolName[][] =>
+  DISTANCE_TEST_LINES.map(row => {
+    const line: LeaSymbolName[] = [];
+    for (let i = 0; i < row.letters.length; i++) {
+      line.push(randomLeaSymbol(line[i - 1]));
+    }
+    return line;
+  });
+
+const LEA_SYMBOL_LABELS: Record<LeaSymbolName, TranslationKey> = {
+  house: 'lea.house',
+  apple: 'lea.apple',
+  circle: 'lea.circle',
+  square: 'lea.square',
+};
+
+/** What the patient may say for each chart, in spoken-answer mode */
+const SPOKEN_VOCABULARIES: Record<OptotypeSet, SpokenVocabulary> = {
+  'sloan': SLOAN_VOCABULARY,
+  'tumbling-e': E_VOCABULARY,
+  'lea': LEA_VOCABULARY,
+};
+
+const E_DIRECTION_LABELS: Record<EOrientation, TranslationKey> = {
+  up: 'spoken.up',
+  right: 'spoken.right',
+  down: 'spoken.down',
+  left: 'spoken.left',
+};
+
+/** What the remote controller should show while the display is in `phase` */
+function getRemoteStatus(phase: TestPhase): RemoteDisplayStatus {
+  switch (phase) {
+    case 'distance-switch-eye': return 'switch-eye';
+    case 'distance-low-vision': return 'low-vision';
+    case 'distance-results':
+    case 'near-setup':
+    case 'near-calibrating':
+    case 'near-test':
+    case 'near-switch-eye':
+    case 'near-results':
+    case 'reading-speed':
+    case 'combined-results': return 'finished';
+    default: return 'waiting';
+  }
+}
+
+const OPTOTYPE_LABELS: Record<OptotypeSet, TranslationKey> = {
+  'sloan': 'optotype.sloanSet',
+  'tumbling-e': 'optotype.eSet',
+  'lea': 'optotype.leaSet',
+};
+
+/** Short chart name for result headings, e.g. "Distance Vision (3 m Snellen)". */
+export const getChartName = (optotype: OptotypeSet): string =>
+  t(optotype === 'tumbling-e' ? 'optotype.tumblingE' : optotype === 'lea' ? 'optotype.lea' : 'optotype.snellen');
+
 // ─── TEST DATA ───────────────────────────────────────────────────────
 // Each line's letterHeight_mm is derived from:
 //
@@ -136,9 +351,12 @@ const generateSloanChoices = (correct: string): string[] => {
 //
 //   6/60:  43.65 mm  |  6/36: 26.19 mm  |  6/24: 17.46 mm
 //   6/18:  13.10 mm  |  6/12:  8.73 mm  |  6/9:   6.55 mm
-//   6/7.5:  5.46 mm  |  6/6:   4.37 mm
+//   6/7.5:  5.46 mm  |  6/6:   4.37 mm  |  6/4.8: 3.49 mm
+//   6/3:    2.18 mm
 //
-// fontSize is clamped to MAX_LETTER_FONT so it never overflows.
+// Rendered size comes from letterSizeDp(), clamped to MAX_LETTER_FONT
+// so it never overflows.
+// logMAR = log10(denominator / 6), e.g. 6/60 → 1.00, 6/12 → 0.30.
 const DISTANCE_TEST_LINES = [
   { line: 1, acuity: '6/60', decimal: 0.1,  letters: ['E'],                          letterHeight_mm: 43.65 },
   { line: 2, acuity: '6/36', decimal: 0.17, letters: ['F', 'P'],                     letterHeight_mm: 26.19 },
@@ -148,103 +366,446 @@ const DISTANCE_TEST_LINES = [
   { line: 6, acuity: '6/9',  decimal: 0.67, letters: ['E', 'D', 'F', 'C', 'Z', 'P'], letterHeight_mm: 6.55  },
   { line: 7, acuity: '6/7.5',decimal: 0.8,  letters: ['F', 'E', 'K', 'O', 'P', 'Z', 'D'], letterHeight_mm: 5.46 },
   { line: 8, acuity: '6/6',  decimal: 1.0,  letters: ['D', 'E', 'F', 'P', 'O', 'N', 'E', 'C'], letterHeight_mm: 4.37 },
+  { line: 9, acuity: '6/4.8',decimal: 1.25, letters: ['F', 'Z', 'O', 'C', 'D', 'N', 'P', 'E'], letterHeight_mm: 3.49 },
+  { line: 10, acuity: '6/3', decimal: 2.0,  letters: ['E', 'C', 'O', 'Z', 'D', 'P', 'N', 'F'], letterHeight_mm: 2.18 },
 ].map(row => ({
   ...row,
-  fontSize: Math.round(Math.min(mmToDp(row.letterHeight_mm), MAX_LETTER_FONT)),
+  logMAR: Math.round(Math.log10(Number(row.acuity.split('/')[1]) / 6) * 100) / 100,
+}));
+
+/** Optotype height in dp for a chart line, on this (calibrated) screen. */
+const letterSizeDp = (row: { letterHeight_mm: number }): number =>
+  Math.round(Math.min(mmToDp(row.letterHeight_mm), MAX_LETTER_FONT));
+
+// Chart lines as seen by the threshold engine
+const THRESHOLD_LEVELS: ThresholdLevel[] = DISTANCE_TEST_LINES.map(row => ({
+  logMAR: row.logMAR,
+  letters: row.letters.length,
 }));
 
+// ─── BELOW THE CHART ─────────────────────────────────────────────────
+// Patients who cannot read the 6/60 line at 3 m are walked through the
+// standard clinical fallbacks, one guided prompt at a time.  logMAR
+// equivalents for CF / HM follow Schulze-Bonsel et al. (2006); LP and
+// NLP get the conventional placeholder values used in trial databases.
+const LOW_VISION_STEPS: {
+  level: LowVisionLevel;
+  title: TranslationKey;
+  instruction: TranslationKey;
+  question: TranslationKey;
+  showOptotype?: boolean;
+}[] = [
+  {
+    level: 'half-distance',
+    title: 'lowVision.halfTitle',
+    instruction: 'lowVision.halfInstruction',
+    question: 'lowVision.halfQuestion',
+    showOptotype: true,
+  },
+  {
+    level: 'counting-fingers',
+    title: 'lowVision.cfTitle',
+    instruction: 'lowVision.cfInstruction',
+    question: 'lowVision.cfQuestion',
+  },
+  {
+    level: 'hand-motion',
+    title: 'lowVision.hmTitle',
+    instruction: 'lowVision.hmInstruction',
+    question: 'lowVision.hmQuestion',
+  },
+  {
+    level: 'light-perception',
+    title: 'lowVision.lpTitle',
+    instruction: 'lowVision.lpInstruction',
+    question: 'lowVision.lpQuestion',
+  },
+];
+
+const LOW_VISION_RESULTS: Record<LowVisionLevel, { acuity: string; decimal: number; logMAR: number }> = {
+  'half-distance':       { acuity: '3/60', decimal: 0.05,   logMAR: 1.3 },
+  'counting-fingers':    { acuity: 'CF',   decimal: 0.0125, logMAR: 1.9 },
+  'hand-motion':         { acuity: 'HM',   decimal: 0.005,  logMAR: 2.3 },
+  'light-perception':    { acuity: 'LP',   decimal: 0.002,  logMAR: 2.7 },
+  'no-light-perception': { acuity: 'NLP',  decimal: 0.001,  logMAR: 3.0 },
+};
+
+// ─── PINHOLE RETEST ──────────────────────────────────────────────────
+// An adult eye worse than 6/12 may be retested through a pinhole
+// occluder (a card with a 1–2 mm hole held close to the eye).  The
+// pinhole only passes rays through the centre of the lens, so it
+// removes most blur from glasses-correctable error but none from
+// cataract, retinal or optic nerve disease.  A gain of two lines, or
+// reaching 6/12, counts as improvement.  Young children cannot hold a
+// pinhole steady, so LEA screenings are not offered the retest.
+const PINHOLE_OFFER_DECIMAL = 0.5;      // worse than 6/12
+const PINHOLE_IMPROVEMENT_LOGMAR = 0.2; // two lines
+
+const isPinholeImprovement = (unaided: EyeResult, pinhole: { decimal: number; logMAR: number }): boolean => {
+  const gain = unaided.logMAR - pinhole.logMAR;
+  return gain >= PINHOLE_IMPROVEMENT_LOGMAR || (gain > 0 && pinhole.decimal >= PINHOLE_OFFER_DECIMAL);
+};
+
+const STRATEGY_OPTIONS: { kind: ThresholdStrategyKind; description: TranslationKey }[] = [
+  { kind: 'line-walk', description: 'strategy.lineWalkDesc' },
+  { kind: 'staircase', description: 'strategy.staircaseDesc' },
+  { kind: 'quest', description: 'strategy.questDesc' },
+];
+
+/** "0.14", "−0.02" — logMAR is always shown to two decimals. */
+export const formatLogMAR = (logMAR: number): string =>
+  logMAR < 0 ? `−${Math.abs(logMAR).toFixed(2)}` : logMAR.toFixed(2);
+
+/** "0.08–0.20" — the 95 % interval of a logMAR estimate. */
+export const formatLogMARInterval = (interval: ThresholdInterval): string =>
+  `${formatLogMAR(interval.lower)}–${formatLogMAR(interval.upper)}`;
+
+/** "6/9", or "Worse than 6/60" when the top line was not read */
+export const formatPinholeAcuity = (pinhole: PinholeResult): string =>
+  pinhole.belowChart ? t('va.worseThan', { acuity: pinhole.acuity }) : pinhole.acuity;
+
+/** "Pinhole 6/9 · improved" */
+export const formatPinhole = (pinhole: PinholeResult): string =>
+  t('pinhole.result', {
+    acuity: formatPinholeAcuity(pinhole),
+    outcome: t(pinhole.improved ? 'pinhole.improved' : 'pinhole.notImproved'),
+  });
+
 // ─── NEAR VISION — JAEGER / N-POINT STANDARD at 40 cm ───────────────
 // N-point: 1 N-point ≈ 0.375 mm cap-height.
 // Jaeger levels map to N-point sizes used worldwide.
-const NEAR_VISION_LINES = [
-  { level: 'J10', equivalent: 'N36', pointSize_mm: 13.50, text: 'THE QUICK BROWN FOX',                                       description: 'Very large print' },
-  { level: 'J8',  equivalent: 'N24', pointSize_mm: 9.00,  text: 'THE QUICK BROWN FOX JUMPS',                                  description: 'Large print' },
-  { level: 'J6',  equivalent: 'N18', pointSize_mm: 6.75,  text: 'THE QUICK BROWN FOX JUMPS OVER',                             description: 'Moderately large' },
-  { level: 'J5',  equivalent: 'N12', pointSize_mm: 4.50,  text: 'The quick brown fox jumps over the lazy',                     description: 'Book print size' },
-  { level: 'J3',  equivalent: 'N8',  pointSize_mm: 3.00,  text: 'The quick brown fox jumps over the lazy dog',                 description: 'Standard newsprint' },
-  { level: 'J2',  equivalent: 'N6',  pointSize_mm: 2.25,  text: 'The quick brown fox jumps over the lazy dog nearby',          description: 'Small newsprint' },
-  { level: 'J1',  equivalent: 'N5',  pointSize_mm: 1.875, text: 'The quick brown fox jumps over the lazy dog in the field',    description: 'Fine print (excellent)' },
-].map(row => ({
-  ...row,
-  fontSize: Math.round(mmToDp(row.pointSize_mm)),
-}));
-
-// Credit-card calibration reference (ISO/IEC 7810 ID-1)
-const CARD_WIDTH_MM = 85.6;
-const CARD_HEIGHT_MM = 53.98;
+// Reading text comes from the language catalogue, so Swahili speakers
+// read familiar words rather than an English pangram.
+const NEAR_VISION_LINES: {
+  level: string;
+  equivalent: string;
+  pointSize_mm: number;
+  text: TranslationKey;
+  description: TranslationKey;
+}[] = [
+  { level: 'J10', equivalent: 'N36', pointSize_mm: 13.50, text: 'near.text1', description: 'near.desc1' },
+  { level: 'J8',  equivalent: 'N24', pointSize_mm: 9.00,  text: 'near.text2', description: 'near.desc2' },
+  { level: 'J6',  equivalent: 'N18', pointSize_mm: 6.75,  text: 'near.text3', description: 'near.desc3' },
+  { level: 'J5',  equivalent: 'N12', pointSize_mm: 4.50,  text: 'near.text4', description: 'near.desc4' },
+  { level: 'J3',  equivalent: 'N8',  pointSize_mm: 3.00,  text: 'near.text5', description: 'near.desc5' },
+  { level: 'J2',  equivalent: 'N6',  pointSize_mm: 2.25,  text: 'near.text6', description: 'near.desc6' },
+  { level: 'J1',  equivalent: 'N5',  pointSize_mm: 1.875, text: 'near.text7', description: 'near.desc7' },
+];
+
+// Ranked past J10 so a patient who reads nothing on the card scores worst
+const NEAR_BELOW_CARD_J = 12;
+
+/** Near-card text size in dp for a Jaeger line, on this (calibrated) screen. */
+const nearSizeDp = (row: { pointSize_mm: number }): number => Math.round(mmToDp(row.pointSize_mm));
 
 // ─── HELPERS ─────────────────────────────────────────────────────────
-const getAcuityRating = (acuity: string): { label: string; color: string } => {
-  const map: Record<string, { label: string; color: string }> = {
-    '6/6':   { label: 'Excellent',  color: '#2E7D32' },
-    '6/7.5': { label: 'Very Good',  color: '#558B2F' },
-    '6/9':   { label: 'Good',       color: '#689F38' },
-    '6/12':  { label: 'Fair',       color: '#F9A825' },
-    '6/18':  { label: 'Poor',       color: '#EF6C00' },
-    '6/24':  { label: 'Poor',       color: '#E65100' },
-    '6/36':  { label: 'Very Poor',  color: '#BF360C' },
-    '6/60':  { label: 'Very Poor',  color: '#B71C1C' },
+export const getAcuityRating = (acuity: string): { label: string; color: string } => {
+  const map: Record<string, { label: TranslationKey; color: string }> = {
+    '6/3':   { label: 'rating.exceptional', color: '#1B5E20' },
+    '6/4.8': { label: 'rating.exceptional', color: '#1B5E20' },
+    '6/6':   { label: 'rating.excellent',  color: '#2E7D32' },
+    '6/7.5': { label: 'rating.veryGood',   color: '#558B2F' },
+    '6/9':   { label: 'rating.good',       color: '#689F38' },
+    '6/12':  { label: 'rating.fair',       color: '#F9A825' },
+    '6/18':  { label: 'rating.poor',       color: '#EF6C00' },
+    '6/24':  { label: 'rating.poor',       color: '#E65100' },
+    '6/36':  { label: 'rating.veryPoor',   color: '#BF360C' },
+    '6/60':  { label: 'rating.veryPoor',   color: '#B71C1C' },
+    '3/60':  { label: 'rating.severe',     color: '#B71C1C' },
+    'CF':    { label: 'rating.countingFingers',   color: '#880E4F' },
+    'HM':    { label: 'rating.handMovement',      color: '#880E4F' },
+    'LP':    { label: 'rating.lightPerception',   color: '#4A148C' },
+    'NLP':   { label: 'rating.noLightPerception', color: '#212121' },
+  };
+  const rating = map[acuity] || { label: 'rating.notTested', color: '#757575' };
+  return { label: t(rating.label), color: rating.color };
+};
+
+/** "J5", or "Worse than J10" when the largest line was not read */
+export const formatNearLevel = (eye: NearEyeResult): string =>
+  eye.belowChart ? t('va.worseThan', { acuity: eye.level }) : eye.level;
+
+export const getNearRating = (eye: NearEyeResult): { label: string; color: string } => {
+  if (eye.belowChart) return { label: t('rating.veryPoor'), color: '#B71C1C' };
+  const map: Record<string, { label: TranslationKey; color: string }> = {
+    'J1':  { label: 'rating.excellent', color: '#2E7D32' },
+    'J2':  { label: 'rating.veryGood',  color: '#558B2F' },
+    'J3':  { label: 'rating.good',      color: '#689F38' },
+    'J5':  { label: 'rating.fair',      color: '#F9A825' },
+    'J6':  { label: 'rating.fair',      color: '#EF6C00' },
+    'J8':  { label: 'rating.poor',      color: '#E65100' },
+    'J10': { label: 'rating.veryPoor',  color: '#BF360C' },
+  };
+  const rating = map[eye.level] || { label: 'rating.notTested', color: '#757575' };
+  return { label: t(rating.label), color: rating.color };
+};
+
+// ─── WHO VISUAL IMPAIRMENT CATEGORIES ───────────────────────────────
+// ICD-11 distance vision impairment, graded on the presenting acuity of
+// the better eye.  Categories 4–6 are the ICD-10 subdivisions of
+// blindness, which programmes still report separately.
+export interface WhoCategory {
+  category: 0 | 1 | 2 | 3 | 4 | 5 | 6;
+  label: string;
+  color: string;
+}
+
+const WHO_CATEGORIES: { category: WhoCategory['category']; label: TranslationKey; color: string }[] = [
+  { category: 0, label: 'who.0', color: '#2E7D32' },
+  { category: 1, label: 'who.1', color: '#F9A825' },
+  { category: 2, label: 'who.2', color: '#EF6C00' },
+  { category: 3, label: 'who.3', color: '#C62828' },
+  { category: 4, label: 'who.4', color: '#B71C1C' },
+  { category: 5, label: 'who.5', color: '#880E4F' },
+  { category: 6, label: 'who.6', color: '#212121' },
+];
+
+const whoCategoryForEye = (eye: EyeResult): WhoCategory['category'] => {
+  switch (eye.lowVision) {
+    case 'no-light-perception': return 6;
+    case 'light-perception':
+    case 'hand-motion': return 5;
+    case 'counting-fingers': return 4;
+    default: break;
+  }
+  if (eye.logMAR <= 0.3) return 0;   // 6/12 or better
+  if (eye.logMAR <= 0.48) return 1;  // to 6/18
+  if (eye.logMAR <= 1.0) return 2;   // to 6/60
+  if (eye.logMAR <= 1.3) return 3;   // to 3/60
+  return 4;
+};
+
+/**
+ * WHO category of the better eye, or `null` when neither eye was
+ * tested.  Presenting acuity is what the patient sees in the glasses
+ * they wear, so an eye's spectacle run replaces its uncorrected one.
+ */
+export const getWhoCategory = (uncorrected: DistanceResults, spectacles: DistanceResults | null = null): WhoCategory | null => {
+  const eyes = [spectacles?.rightEye ?? uncorrected.rightEye, spectacles?.leftEye ?? uncorrected.leftEye]
+    .filter((e): e is EyeResult => e !== null);
+  if (eyes.length === 0) return null;
+  const best = WHO_CATEGORIES[Math.min(...eyes.map(whoCategoryForEye))];
+  return { ...best, label: t(best.label) };
+};
+
+// ─── SPECTACLE ADEQUACY ──────────────────────────────────────────────
+// Current glasses are adequate when every eye reaches 6/12 in them.
+// When one falls short, the uncorrected pinhole result says why: an
+// eye that saw a line or more better through the pinhole than through
+// the glasses needs a new prescription; otherwise the shortfall may not be the
+// glasses' fault at all.
+const SPECTACLE_ADEQUATE_DECIMAL = 0.5; // 6/12
+const ONE_LINE_LOGMAR = 0.1;
+
+export interface SpectacleAssessment {
+  adequate: boolean;
+  label: string;
+  detail: string;
+  color: string;
+}
+
+/** Verdict on the patient's current glasses, or `null` when they were not tested. */
+export const getSpectacleAssessment = (
+  uncorrected: DistanceResults,
+  spectacles: DistanceResults | null,
+): SpectacleAssessment | null => {
+  const eyes = (['rightEye', 'leftEye'] as const).filter(eye => spectacles?.[eye]);
+  if (!spectacles || eyes.length === 0) return null;
+
+  const shortfall = eyes.filter(eye => (spectacles[eye]?.decimal ?? 1) < SPECTACLE_ADEQUATE_DECIMAL);
+  if (shortfall.length === 0) {
+    return {
+      adequate: true,
+      label: t('spectacles.adequate'),
+      detail: t('spectacles.adequateDetail'),
+      color: '#2E7D32',
+    };
+  }
+
+  const pinholeBetter = shortfall.some(eye => {
+    const pinhole = uncorrected[eye]?.pinhole;
+    return !!pinhole && pinhole.logMAR <= (spectacles[eye]?.logMAR ?? 0) - ONE_LINE_LOGMAR;
+  });
+  return {
+    adequate: false,
+    label: t('spectacles.inadequate'),
+    detail: t(pinholeBetter ? 'spectacles.updateDetail' : 'spectacles.inadequateDetail'),
+    color: '#EF6C00',
   };
-  return map[acuity] || { label: 'Not tested', color: '#757575' };
 };
 
-const getNearRating = (level: string): { label: string; color: string } => {
-  const map: Record<string, { label: string; color: string }> = {
-    'J1':  { label: 'Excellent',  color: '#2E7D32' },
-    'J2':  { label: 'Very Good',  color: '#558B2F' },
-    'J3':  { label: 'Good',       color: '#689F38' },
-    'J5':  { label: 'Fair',       color: '#F9A825' },
-    'J6':  { label: 'Fair',       color: '#EF6C00' },
-    'J8':  { label: 'Poor',       color: '#E65100' },
-    'J10': { label: 'Very Poor',  color: '#BF360C' },
+// ─── PAEDIATRIC THRESHOLDS (LEA chart, ages 3–6) ────────────────────
+// Pre-school vision is still developing, so the adult "better eye"
+// rules do not apply.  What matters is amblyopia risk: each eye must
+// reach 6/12 on its own, and the two eyes must be within one line of
+// each other.  A child who fails either criterion is referred.
+const CHILD_PASS_DECIMAL = 0.5;   // 6/12
+const CHILD_MAX_LINE_DIFFERENCE = 1;
+
+const interpretChildResults = (distance: DistanceResults): AcuityDiagnosis => {
+  const right = distance.rightEye;
+  const left = distance.leftEye;
+  const worst = Math.min(right?.decimal ?? 1, left?.decimal ?? 1);
+  const lineDifference = right && left ? Math.abs(right.linesRead - left.linesRead) : 0;
+
+  if (worst < CHILD_PASS_DECIMAL) {
+    return {
+      code: 'child-reduced',
+      condition: t('dx.childReduced.condition'),
+      severity: t(worst < 0.2 ? 'dx.childReduced.severityMarked' : 'dx.childReduced.severityBelow'),
+      description: t('dx.childReduced.description'),
+      recommendation: t('dx.childReduced.recommendation'),
+      urgency: worst < 0.2 ? 'urgent' : 'within_1_month',
+      color: worst < 0.2 ? '#C62828' : '#EF6C00',
+    };
+  }
+
+  if (lineDifference > CHILD_MAX_LINE_DIFFERENCE) {
+    return {
+      code: 'child-unequal',
+      condition: t('dx.childUnequal.condition'),
+      severity: t('dx.childUnequal.severity', { lines: lineDifference }),
+      description: t('dx.childUnequal.description'),
+      recommendation: t('dx.childUnequal.recommendation'),
+      urgency: 'within_1_month',
+      color: '#EF6C00',
+    };
+  }
+
+  return {
+    code: 'normal',
+    condition: t('dx.normal.condition'),
+    severity: t('dx.childNormal.severity'),
+    description: t('dx.childNormal.description'),
+    recommendation: t('dx.childNormal.recommendation'),
+    urgency: 'low',
+    color: '#2E7D32',
   };
-  return map[level] || { label: 'Not tested', color: '#757575' };
 };
 
-const interpretResults = (
+/** "+2.00 D" */
+export const formatReadingAdd = (add: number): string => `+${add.toFixed(2)} D`;
+
+/**
+ * Overall acuity assessment.  Results from the LEA chart are judged
+ * against paediatric thresholds; the near test is not used for them.
+ * `age` lets poor near vision from 40 on be read as presbyopia.
+ */
+export const interpretResults = (
   distance: DistanceResults,
-  near: NearResults
-): { condition: string; severity: string; description: string; recommendation: string; urgency: string; color: string } => {
+  near: NearResults,
+  optotype: OptotypeSet = 'sloan',
+  age: number | null = null,
+): AcuityDiagnosis => {
+  if (optotype === 'lea') return interpretChildResults(distance);
+
+  // Below the chart in either eye (3/60, CF, HM, LP, NLP)
+  const belowChart = [distance.rightEye, distance.leftEye].find(eye => eye?.lowVision);
+  if (belowChart) {
+    return {
+      code: 'severe-loss',
+      condition: t('dx.severeLoss.condition'),
+      severity: t('dx.severeLoss.severity', { acuity: belowChart.acuity }),
+      description: t('dx.severeLoss.description'),
+      recommendation: t('dx.severeLoss.recommendation'),
+      urgency: 'urgent',
+      color: '#C62828',
+    };
+  }
+
+  // Worse than 6/12 and no better through a pinhole — not explained by
+  // refractive error alone
+  const eyes = [distance.rightEye, distance.leftEye];
+  const pinholeFailed = eyes.find(eye => eye?.pinhole && !eye.pinhole.improved);
+  if (pinholeFailed?.pinhole) {
+    return {
+      code: 'pinhole-no-gain',
+      condition: t('dx.pinholeNoGain.condition'),
+      severity: t('dx.pinholeNoGain.severity', { acuity: pinholeFailed.acuity, pinhole: formatPinholeAcuity(pinholeFailed.pinhole) }),
+      description: t('dx.pinholeNoGain.description'),
+      recommendation: t('dx.pinholeNoGain.recommendation'),
+      urgency: 'urgent',
+      color: '#C62828',
+    };
+  }
+  const pinholeImproved = eyes.find(eye => eye?.pinhole?.improved);
+
   const dR = distance.rightEye?.decimal ?? 1;
   const dL = distance.leftEye?.decimal ?? 1;
   const bestDist = Math.max(dR, dL);
 
+  // An untested eye does not count against near vision
   const nearLevels: Record<string, number> = { J1: 1, J2: 2, J3: 3, J5: 5, J6: 6, J8: 8, J10: 10 };
-  const nR = nearLevels[near.rightEye?.level ?? 'J1'] ?? 1;
-  const nL = nearLevels[near.leftEye?.level ?? 'J1'] ?? 1;
+  const nearJ = (eye: NearEyeResult | null): number => {
+    if (!eye) return 1;
+    if (eye.belowChart) return NEAR_BELOW_CARD_J;
+    return nearLevels[eye.level] ?? 1;
+  };
+  const nR = nearJ(near.rightEye);
+  const nL = nearJ(near.leftEye);
   const bestNear = Math.min(nR, nL);
 
   // MYOPIA: Poor distance + Good near
   if (bestDist < 0.5 && bestNear <= 4) {
     return {
-      condition: 'Likely Myopia (Nearsightedness)',
-      severity: bestDist < 0.33 ? 'Moderate to Severe' : 'Mild to Moderate',
-      description: 'You can see nearby objects clearly but struggle with distant objects. This is consistent with myopia.',
-      recommendation: 'Visit an optometrist for a comprehensive refraction test. You will likely benefit from distance glasses or contact lenses.',
+      code: 'myopia',
+      condition: t('dx.myopia.condition'),
+      severity: t(bestDist < 0.33 ? 'dx.moderateToSevere' : 'dx.mildToModerate'),
+      description: t('dx.myopia.description'),
+      recommendation: t('dx.myopia.recommendation'),
       urgency: bestDist < 0.2 ? 'urgent' : 'within_1_month',
       color: bestDist < 0.2 ? '#C62828' : '#EF6C00',
     };
   }
 
+  // PRESBYOPIA: Good distance + Poor near, at reading-glasses age
+  const readingAdd = estimateReadingAdd(age, distance, near);
+  if (readingAdd && bestDist >= 0.5) {
+    return {
+      code: 'presbyopia',
+      condition: t('dx.presbyopia.condition'),
+      severity: t('dx.presbyopia.severity', { add: formatReadingAdd(readingAdd.add) }),
+      description: t('dx.presbyopia.description'),
+      recommendation: t(READY_MADE_LABELS[readingAdd.readyMade], { add: formatReadingAdd(readingAdd.add) }),
+      urgency: 'low',
+      color: '#F9A825',
+    };
+  }
+
   // HYPERMETROPIA: Good distance + Poor near
   if (bestDist >= 0.5 && bestNear >= 6) {
     return {
-      condition: 'Likely Hypermetropia (Farsightedness)',
-      severity: bestNear >= 8 ? 'Moderate to Severe' : 'Mild to Moderate',
-      description: 'You can see distant objects well but struggle with reading and close-up tasks. This is consistent with hypermetropia.',
-      recommendation: 'Visit an optometrist for near vision correction. Reading glasses or bifocals may help.',
+      code: 'hyperopia',
+      condition: t('dx.hyperopia.condition'),
+      severity: t(bestNear >= 8 ? 'dx.moderateToSevere' : 'dx.mildToModerate'),
+      description: t('dx.hyperopia.description'),
+      recommendation: t('dx.hyperopia.recommendation'),
       urgency: bestNear >= 10 ? 'urgent' : 'within_1_month',
       color: bestNear >= 10 ? '#C62828' : '#EF6C00',
     };
   }
 
+  // REFRACTIVE ERROR: reduced distance vision the pinhole corrected
+  if (pinholeImproved?.pinhole) {
+    return {
+      code: 'refractive',
+      condition: t('dx.refractive.condition'),
+      severity: t('dx.refractive.severity', { acuity: pinholeImproved.acuity, pinhole: formatPinholeAcuity(pinholeImproved.pinhole) }),
+      description: t('dx.refractive.description'),
+      recommendation: t('dx.refractive.recommendation'),
+      urgency: 'within_1_month',
+      color: '#EF6C00',
+    };
+  }
+
   // BOTH POOR
   if (bestDist < 0.5 && bestNear >= 6) {
     return {
-      condition: 'Significant Vision Impairment',
-      severity: 'Requires Professional Assessment',
-      description: 'Both distance and near vision show significant limitations. This could indicate a complex refractive error, presbyopia combined with myopia, or other eye conditions.',
-      recommendation: 'Please visit an eye care professional as soon as possible for a comprehensive examination.',
+      code: 'significant',
+      condition: t('dx.significant.condition'),
+      severity: t('dx.significant.severity'),
+      description: t('dx.significant.description'),
+      recommendation: t('dx.significant.recommendation'),
       urgency: 'urgent',
       color: '#C62828',
     };
@@ -253,10 +814,11 @@ const interpretResults = (
   // NORMAL
   if (bestDist >= 0.67 && bestNear <= 4) {
     return {
-      condition: 'Normal Vision',
-      severity: 'No Significant Issues',
-      description: 'Your distance and near vision are both within the normal range. No immediate concerns detected.',
-      recommendation: 'Continue routine eye checkups every 1-2 years. Maintain good eye health habits.',
+      code: 'normal',
+      condition: t('dx.normal.condition'),
+      severity: t('dx.normal.severity'),
+      description: t('dx.normal.description'),
+      recommendation: t('dx.normal.recommendation'),
       urgency: 'low',
       color: '#2E7D32',
     };
@@ -264,29 +826,79 @@ const interpretResults = (
 
   // BORDERLINE
   return {
-    condition: 'Borderline Vision',
-    severity: 'Minor Concerns',
-    description: 'Your vision shows some minor limitations that could be early-stage refractive error or temporary factors like eye fatigue.',
-    recommendation: 'Monitor your vision and retest in 3-6 months. Consider a professional checkup if symptoms persist.',
+    code: 'borderline',
+    condition: t('dx.borderline.condition'),
+    severity: t('dx.borderline.severity'),
+    description: t('dx.borderline.description'),
+    recommendation: t('dx.borderline.recommendation'),
     urgency: 'low',
     color: '#F9A825',
   };
 };
 
 // ─── COMPONENT ───────────────────────────────────────────────────────
-export default function VisualAcuityTest({ onComplete, onExit }: Props) {
+export default function VisualAcuityTest({ age: givenAge, onComplete, onExit }: Props) {
+  const { t } = useI18n();
   const [phase, setPhase] = useState<TestPhase>('welcome');
   const [currentEye, setCurrentEye] = useState<Eye>('right');
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
-  const [currentLetterIndex, setCurrentLetterIndex] = useState(0);
-  const [consecutiveErrors, setConsecutiveErrors] = useState(0);
   const fadeAnim = useRef(new Animated.Value(1)).current;
 
-  // Distance results
+  // Optotype chart for this session, and the E orientations / LEA symbols for the current eye
+  const [optotype, setOptotype] = useState<OptotypeSet>('sloan');
+  const [presentation, setPresentation] = useState<OptotypePresentation>('single');
+
+  // Patient age for the reading-add estimate, asked up front unless given
+  const [ageText, setAgeText] = useState('');
+  const age = givenAge !== undefined ? givenAge : parseAge(ageText);
+  const [eChart, setEChart] = useState<EOrientation[][]>(generateEChart);
+  const [leaChart, setLeaChart] = useState<LeaSymbolName[][]>(generateLeaChart);
+
+  // Threshold strategy chosen at setup; the engine instance lives for one eye's run
+  const [strategyKind, setStrategyKind] = useState<ThresholdStrategyKind>('line-walk');
+  const strategyRef = useRef<ThresholdStrategy | null>(null);
+  const [trial, setTrial] = useState<Trial>({ level: 0, position: 0 });
+
+  // Spoken answers replace the helper's taps (only offered when a recogniser
+  // is installed); remote mode moves the taps to a second phone
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('tap');
+  const spokenMode = answerMode === 'spoken';
+  const spokenAvailable = getSpeechRecognizer() !== null;
+
+  // Remote controller session: relay address being typed, and the session once started
+  const [relayInput, setRelayInput] = useState('');
+  const [pairing, setPairing] = useState<PairingInfo | null>(null);
+
+  // How the 3 m distance was set, recorded with the result
+  const [distancePlacement, setDistancePlacement] = useState<DistancePlacement | null>(null);
+
+  // Guided fallbacks below the chart: current step, and the chart estimate they extend
+  const [lowVisionStep, setLowVisionStep] = useState(0);
+  const belowChartEstimateRef = useRef<ThresholdEstimate | null>(null);
+
+  // Unaided result of an eye offered the pinhole retest, held until it is run or skipped
+  const [pinholeBase, setPinholeBase] = useState<EyeResult | null>(null);
+
+  // Test conditions: uncorrected always runs first, the others are opted in at setup
+  const [testSpectacles, setTestSpectacles] = useState(false);
+  const [testBinocular, setTestBinocular] = useState(false);
+  const conditionPlan: AcuityCondition[] = [
+    'uncorrected',
+    ...(testSpectacles ? ['spectacles' as const] : []),
+    ...(testBinocular ? ['binocular' as const] : []),
+  ];
+  const [condition, setCondition] = useState<AcuityCondition>('uncorrected');
+  const nextCondition = conditionPlan[conditionPlan.indexOf(condition) + 1] ?? null;
+
+  // Distance results, one set per condition
   const [distanceResults, setDistanceResults] = useState<DistanceResults>({
     rightEye: null,
     leftEye: null,
   });
+  const [spectacleResults, setSpectacleResults] = useState<DistanceResults>({
+    rightEye: null,
+    leftEye: null,
+  });
+  const [binocularResult, setBinocularResult] = useState<BinocularResult | null>(null);
 
   // Near vision state
   const [nearLineIndex, setNearLineIndex] = useState(0);
@@ -294,6 +906,23 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
     rightEye: null,
     leftEye: null,
   });
+  const [readingSpeed, setReadingSpeed] = useState<ReadingSpeedResults | null>(null);
+
+  // ─── Spoken guidance ────────────────────────
+  useVoiceGuidance(getPhasePrompts(phase, currentEye, condition, optotype, presentation, spokenMode));
+
+  // ─── Session quality ────────────────────────
+  // Each new optotype, near line or fallback step starts the response clock
+  const quality = useQualityRecorder(phase === 'distance-test');
+  useEffect(() => {
+    if (phase === 'distance-test' || phase === 'near-test' || phase === 'distance-low-vision') quality.present();
+  }, [quality, phase, trial, nearLineIndex, lowVisionStep]);
+
+  // ─── Brightness ─────────────────────────────
+  // Held from placement to the last chart; setup screens and the
+  // final results run at the user's own brightness
+  const brightnessHeld = !BRIGHTNESS_FREE_PHASES.includes(phase);
+  useBrightnessPolicy(brightnessHeld ? BRIGHTNESS_POLICIES.visualAcuity : null, quality.brightness);
 
   // ─── Animations ─────────────────────────────
   const animateTransition = useCallback((callback: () => void) => {
@@ -305,27 +934,35 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
   }, [fadeAnim]);
 
   // ─── System back button handling ─────────────
-  const previousPhaseMap: Record<TestPhase, TestPhase | 'exit'> = {
+  const previousPhaseMap = useMemo<Record<TestPhase, TestPhase | 'exit'>>(() => ({
     'welcome': 'exit',
     'distance-setup': 'welcome',
-    'distance-calibrating': 'distance-setup',
+    'remote-pairing': 'distance-setup',
+    'distance-calibrating': answerMode === 'remote' ? 'remote-pairing' : 'distance-setup',
     'distance-calibration': 'distance-calibrating',
+    'screen-calibration': 'distance-calibration',
     'distance-test': 'distance-calibration',
+    'distance-low-vision': 'distance-test',
+    'distance-pinhole-offer': 'distance-calibration',
+    'distance-pinhole-setup': 'distance-pinhole-offer',
     'distance-switch-eye': 'distance-test',
+    'distance-condition': 'distance-test',
     'distance-results': 'distance-test',
     'near-setup': 'distance-results',
     'near-calibrating': 'near-setup',
     'near-test': 'near-calibrating',
     'near-switch-eye': 'near-test',
     'near-results': 'near-test',
-    'combined-results': 'near-results',
-  };
+    'reading-speed': 'near-results',
+    // LEA (child) screenings skip the near test
+    'combined-results': optotype === 'lea' ? 'distance-results' : 'near-results',
+  }), [answerMode, optotype]);
 
   useEffect(() => {
     const handler = () => {
+      quality.backPress();
       const prev = previousPhaseMap[phase];
       if (prev === 'exit') {
-        restoreBrightness();
         onExit?.();
       } else {
         setPhase(prev);
@@ -335,84 +972,257 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
 
     const subscription = BackHandler.addEventListener('hardwareBackPress', handler);
     return () => subscription.remove();
-  }, [phase, onExit]);
+  }, [phase, onExit, previousPhaseMap, quality]);
 
   // ─── DISTANCE TEST LOGIC ─────────────────────
+  // The threshold engine picks the size; the chart row supplies the
+  // optotype.  Adaptive strategies may show more optotypes at one size
+  // than the row holds, so positions wrap around.
+  const currentLineIndex = trial.level;
   const currentDistanceLine = DISTANCE_TEST_LINES[currentLineIndex];
-  const currentLetter = currentDistanceLine?.letters[currentLetterIndex];
+  const rowItem = <T,>(row: T[] | undefined): T | undefined =>
+    row && row.length > 0 ? row[trial.position % row.length] : undefined;
+  const currentLetter = rowItem(currentDistanceLine?.letters);
+  const currentOrientation = rowItem(eChart[currentLineIndex]);
+  const currentSymbol = rowItem(leaChart[currentLineIndex]);
+  const currentTarget =
+    optotype === 'tumbling-e' ? currentOrientation :
+    optotype === 'lea' ? currentSymbol :
+    currentLetter;
+
+  // A pinhole retest is always a line walk, whatever strategy the
+  // unaided run used; any other run drops a retest that was pending
+  const startDistanceRun = (eye: Eye, pinhole = false) => {
+    const strategy = createThresholdStrategy(pinhole ? 'line-walk' : strategyKind, THRESHOLD_LEVELS);
+    strategyRef.current = strategy;
+    if (!pinhole) setPinholeBase(null);
+    setCurrentEye(eye);
+    setTrial(strategy.next() ?? { level: 0, position: 0 });
+    setEChart(generateEChart());
+    setLeaChart(generateLeaChart());
+    setPhase('distance-test');
+  };
+
+  // Each condition starts again from the right eye; the first one
+  // starts the whole distance test afresh
+  const startCondition = (next: AcuityCondition) => {
+    if (next === 'uncorrected') {
+      setSpectacleResults({ rightEye: null, leftEye: null });
+      setBinocularResult(null);
+    }
+    setCondition(next);
+    startDistanceRun('right');
+  };
 
   const generateDistanceChoices = (): string[] => {
     if (!currentDistanceLine || !currentLetter) return [];
     return generateSloanChoices(currentLetter);
   };
 
-  const handleDistanceAnswer = (answer: string) => {
-    const isCorrect = answer === currentLetter;
-
-    if (!isCorrect) {
-      const newErrors = consecutiveErrors + 1;
-      setConsecutiveErrors(newErrors);
+  const recordDistanceTrial = (outcome: TrialOutcome) => {
+    const strategy = strategyRef.current;
+    if (!strategy) return;
 
-      // 2 consecutive errors on the same line → stop
-      if (newErrors >= 2) {
-        const bestLine = currentLineIndex > 0 ? DISTANCE_TEST_LINES[currentLineIndex - 1] : DISTANCE_TEST_LINES[0];
-        finishDistanceEye(bestLine);
-        return;
-      }
+    quality.answer();
+    spoken.reject();
+    strategy.record(trial, outcome);
+    const next = strategy.next();
+    if (next) {
+      animateTransition(() => setTrial(next));
     } else {
-      setConsecutiveErrors(0);
+      finishDistanceEye(strategy.estimate());
     }
+  };
 
-    // Move to next letter in this line
-    if (currentLetterIndex < currentDistanceLine.letters.length - 1) {
-      animateTransition(() => setCurrentLetterIndex(prev => prev + 1));
-      return;
-    }
+  const handleDistanceAnswer = (answer: string) => {
+    recordDistanceTrial(answer === currentTarget ? 'correct' : 'incorrect');
+  };
 
-    // If incorrect on last letter, record previous line
-    if (!isCorrect) {
-      const bestLine = currentLineIndex > 0 ? DISTANCE_TEST_LINES[currentLineIndex - 1] : DISTANCE_TEST_LINES[0];
-      finishDistanceEye(bestLine);
-      return;
+  // Swipes on the E are read through a ref so the responder (created once)
+  // always scores against the optotype currently on screen.
+  const swipeAnswerRef = useRef<(direction: EOrientation) => void>(() => {});
+  swipeAnswerRef.current = (direction) => handleDistanceAnswer(direction);
+
+  const swipeResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, g) => Math.abs(g.dx) > 10 || Math.abs(g.dy) > 10,
+      onPanResponderRelease: (_, g) => {
+        if (Math.max(Math.abs(g.dx), Math.abs(g.dy)) < SWIPE_THRESHOLD) return;
+        const direction: EOrientation = Math.abs(g.dx) > Math.abs(g.dy)
+          ? (g.dx > 0 ? 'right' : 'left')
+          : (g.dy > 0 ? 'down' : 'up');
+        swipeAnswerRef.current(direction);
+      },
+    })
+  ).current;
+
+  const handleCantSee = () => recordDistanceTrial('cant-see');
+
+  const describeSpokenAnswer = (answer: string): string =>
+    optotype === 'tumbling-e' ? t(E_DIRECTION_LABELS[answer as EOrientation]) :
+    optotype === 'lea' ? t(LEA_SYMBOL_LABELS[answer as LeaSymbolName]) :
+    answer;
+
+  const spoken = useSpokenAnswers(
+    spokenMode && phase === 'distance-test',
+    SPOKEN_VOCABULARIES[optotype],
+    answer => (answer === CANT_SEE ? handleCantSee() : handleDistanceAnswer(answer)),
+    describeSpokenAnswer,
+  );
+
+  // ─── REMOTE CONTROLLER ─────────────────────────
+  // The controller phone only marks answers; this phone still scores them
+  // with its own engine, so results are stored exactly as they are for taps.
+  const handleRemoteMessage = (message: RemoteMessage) => {
+    if (message.type === 'response' && phase === 'distance-test') {
+      recordDistanceTrial(message.outcome);
+    } else if (message.type === 'continue') {
+      if (phase === 'distance-calibration') startCondition('uncorrected');
+      else if (phase === 'distance-pinhole-setup') startDistanceRun(currentEye, true);
+      else if (phase === 'distance-switch-eye') startDistanceRun('left');
+      else if (phase === 'distance-condition' && nextCondition) startCondition(nextCondition);
     }
+  };
+
+  const { status: remoteStatus, send: sendRemote } = useRemoteLink(
+    'display',
+    answerMode === 'remote' ? pairing : null,
+    handleRemoteMessage,
+  );
+  const remoteControlled = answerMode === 'remote' && remoteStatus === 'paired';
+
+  const monocularResults = condition === 'spectacles' ? spectacleResults : distanceResults;
 
-    // Move to next line
-    if (currentLineIndex < DISTANCE_TEST_LINES.length - 1) {
-      animateTransition(() => {
-        setCurrentLineIndex(prev => prev + 1);
-        setCurrentLetterIndex(0);
-        setConsecutiveErrors(0);
+  // Mirror the chart to the controller on every change, and again after re-pairing
+  useEffect(() => {
+    if (remoteStatus !== 'paired') return;
+    if (monocularResults.rightEye) sendRemote({ type: 'result', eye: 'right', result: monocularResults.rightEye });
+    if (monocularResults.leftEye) sendRemote({ type: 'result', eye: 'left', result: monocularResults.leftEye });
+    if (phase === 'distance-test' && currentTarget) {
+      sendRemote({
+        type: 'trial',
+        eye: currentEye,
+        optotype,
+        target: currentTarget,
+        acuity: currentDistanceLine.acuity,
+        progress: strategyRef.current?.progress() ?? 0,
       });
     } else {
-      // Completed all lines!
-      finishDistanceEye(DISTANCE_TEST_LINES[DISTANCE_TEST_LINES.length - 1]);
+      sendRemote({ type: 'status', status: getRemoteStatus(phase), eye: currentEye });
     }
+  }, [remoteStatus, sendRemote, phase, trial, currentEye, optotype, currentTarget, currentDistanceLine, monocularResults]);
+
+  useEffect(() => {
+    if (phase !== 'remote-pairing' || relayInput) return;
+    loadRelayUrl().then(stored => setRelayInput(prev => prev || stored));
+  }, [phase, relayInput]);
+
+  const startRemoteSession = () => {
+    const relayUrl = normaliseRelayUrl(relayInput);
+    if (!relayUrl) return;
+    saveRelayUrl(relayUrl);
+    setRelayInput(relayUrl);
+    setPairing({ code: createSessionCode(), relayUrl });
   };
 
-  const handleCantSee = () => {
-    const bestLine = currentLineIndex > 0 ? DISTANCE_TEST_LINES[currentLineIndex - 1] : null;
-    if (bestLine) {
-      finishDistanceEye(bestLine);
-    } else {
-      // Can't even see the largest letter
-      finishDistanceEye({ ...DISTANCE_TEST_LINES[0], acuity: 'Worse than 6/60', decimal: 0.05, line: 0 });
+  const finishDistanceEye = (estimate: ThresholdEstimate) => {
+    if (pinholeBase) {
+      finishPinholeRun(pinholeBase, estimate);
+      return;
     }
-  };
 
-  const finishDistanceEye = (bestLine: typeof DISTANCE_TEST_LINES[0] & { acuity: string; decimal: number }) => {
+    // Could not read the top line — continue with the guided fallbacks
+    if (estimate.bestLevel < 0) {
+      belowChartEstimateRef.current = estimate;
+      setLowVisionStep(0);
+      setPhase('distance-low-vision');
+      return;
+    }
+
+    const bestLine = DISTANCE_TEST_LINES[estimate.bestLevel];
     const result: EyeResult = {
       acuity: bestLine.acuity,
       linesRead: bestLine.line,
       decimal: bestLine.decimal,
+      logMAR: estimate.logMAR,
+      lettersCorrect: estimate.lettersCorrect,
+      strategy: strategyKind,
+      interval: estimate.interval,
+      lowVision: null,
+      pinhole: null,
     };
 
+    if (condition === 'uncorrected' && optotype !== 'lea' && result.decimal < PINHOLE_OFFER_DECIMAL) {
+      setPinholeBase(result);
+      setPhase('distance-pinhole-offer');
+    } else {
+      storeDistanceEye(result);
+    }
+  };
+
+  const finishPinholeRun = (unaided: EyeResult, estimate: ThresholdEstimate) => {
+    // Worse than the top line through the pinhole is scored as 3/60,
+    // where the engine puts it; the fallbacks are not repeated
+    const bestLine = estimate.bestLevel >= 0 ? DISTANCE_TEST_LINES[estimate.bestLevel] : null;
+    const measured = {
+      acuity: bestLine?.acuity ?? DISTANCE_TEST_LINES[0].acuity,
+      belowChart: !bestLine,
+      decimal: bestLine?.decimal ?? LOW_VISION_RESULTS['half-distance'].decimal,
+      logMAR: estimate.logMAR,
+      lettersCorrect: estimate.lettersCorrect,
+    };
+    const pinhole: PinholeResult = { ...measured, improved: isPinholeImprovement(unaided, measured) };
+    setPinholeBase(null);
+    storeDistanceEye({ ...unaided, pinhole });
+  };
+
+  const skipPinhole = () => {
+    if (!pinholeBase) return;
+    setPinholeBase(null);
+    storeDistanceEye(pinholeBase);
+  };
+
+  const handleLowVisionAnswer = (passed: boolean) => {
+    quality.answer();
+    const level: LowVisionLevel | null = passed
+      ? LOW_VISION_STEPS[lowVisionStep].level
+      : lowVisionStep < LOW_VISION_STEPS.length - 1 ? null : 'no-light-perception';
+
+    if (!level) {
+      setLowVisionStep(prev => prev + 1);
+      return;
+    }
+
+    const fallback = LOW_VISION_RESULTS[level];
+    storeDistanceEye({
+      acuity: fallback.acuity,
+      linesRead: 0,
+      decimal: fallback.decimal,
+      logMAR: fallback.logMAR,
+      lettersCorrect: belowChartEstimateRef.current?.lettersCorrect ?? 0,
+      strategy: strategyKind,
+      interval: null,
+      lowVision: level,
+      pinhole: null,
+    });
+  };
+
+  const storeDistanceEye = (result: EyeResult) => {
+    const afterCondition: TestPhase = nextCondition ? 'distance-condition' : 'distance-results';
+    if (condition === 'binocular') {
+      setBinocularResult({ ...result, withSpectacles: testSpectacles });
+      setPhase(afterCondition);
+      return;
+    }
+
+    const setResults = condition === 'spectacles' ? setSpectacleResults : setDistanceResults;
     if (currentEye === 'right') {
-      setDistanceResults(prev => ({ ...prev, rightEye: result }));
+      setResults(prev => ({ ...prev, rightEye: result }));
       // Show switch-eye interstitial before testing left eye
       setPhase('distance-switch-eye');
     } else {
-      setDistanceResults(prev => ({ ...prev, leftEye: result }));
-      setPhase('distance-results');
+      setResults(prev => ({ ...prev, leftEye: result }));
+      setPhase(afterCondition);
     }
   };
 
@@ -420,6 +1230,7 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
   const currentNearLine = NEAR_VISION_LINES[nearLineIndex];
 
   const handleNearAnswer = (canRead: boolean) => {
+    quality.answer();
     if (canRead) {
       // Move to next (smaller) line
       if (nearLineIndex < NEAR_VISION_LINES.length - 1) {
@@ -429,21 +1240,18 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         finishNearEye(NEAR_VISION_LINES[NEAR_VISION_LINES.length - 1]);
       }
     } else {
-      // Can't read this line — record previous as best
-      const bestLine = nearLineIndex > 0 ? NEAR_VISION_LINES[nearLineIndex - 1] : null;
-      if (bestLine) {
-        finishNearEye(bestLine);
-      } else {
-        finishNearEye({ ...NEAR_VISION_LINES[0], level: 'Worse than J10' });
-      }
+      // Can't read this line — record previous as best, or below the card
+      finishNearEye(nearLineIndex > 0 ? NEAR_VISION_LINES[nearLineIndex - 1] : null);
     }
   };
 
-  const finishNearEye = (bestLine: typeof NEAR_VISION_LINES[0]) => {
+  const finishNearEye = (bestLine: typeof NEAR_VISION_LINES[0] | null) => {
+    const line = bestLine ?? NEAR_VISION_LINES[0];
     const result: NearEyeResult = {
-      level: bestLine.level,
-      equivalent: bestLine.equivalent,
-      linesRead: NEAR_VISION_LINES.indexOf(bestLine) + 1,
+      level: line.level,
+      equivalent: line.equivalent,
+      linesRead: bestLine ? NEAR_VISION_LINES.indexOf(bestLine) + 1 : 0,
+      belowChart: !bestLine,
     };
 
     if (currentEye === 'right') {
@@ -458,6 +1266,43 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
 
   // ─── RENDER ────────────────────────────────────
 
+  // Spectacle and binocular runs, shown under the uncorrected results
+  const spectacleAssessment = getSpectacleAssessment(distanceResults, testSpectacles ? spectacleResults : null);
+  const renderConditionSummary = () => {
+    if (!spectacleAssessment && !binocularResult) return null;
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('va.otherConditions')}</Text>
+        {spectacleAssessment && (['rightEye', 'leftEye'] as const).map(eye => (
+          <View key={eye} style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>
+              {t(eye === 'rightEye' ? 'va.rightGlassesColon' : 'va.leftGlassesColon')}
+            </Text>
+            <Text style={styles.summaryValue}>{spectacleResults[eye]?.acuity ?? '—'}</Text>
+          </View>
+        ))}
+        {binocularResult && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>
+              {t(binocularResult.withSpectacles ? 'va.bothGlassesColon' : 'va.bothEyesColon')}
+            </Text>
+            <Text style={styles.summaryValue}>{binocularResult.acuity}</Text>
+          </View>
+        )}
+        {spectacleAssessment && (
+          <>
+            <View style={styles.divider} />
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('va.glassesVerdictColon')}</Text>
+              <Text style={[styles.summaryValue, { color: spectacleAssessment.color }]}>{spectacleAssessment.label}</Text>
+            </View>
+            <Text style={styles.bodyText}>{spectacleAssessment.detail}</Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
   // ===== WELCOME SCREEN =====
   if (phase === 'welcome') {
     return (
@@ -465,23 +1310,23 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
           <View style={styles.headerBanner}>
             {onExit && (
-              <TouchableOpacity style={styles.backArrow} onPress={() => { restoreBrightness(); onExit(); }}>
+              <TouchableOpacity style={styles.backArrow} onPress={onExit}>
                 <Text style={styles.backArrowText}>←</Text>
               </TouchableOpacity>
             )}
             <Text style={styles.headerEmoji}>👁️</Text>
-            <Text style={styles.headerTitle}>Visual Acuity Test</Text>
-            <Text style={styles.headerSubtitle}>Distance & Near Vision Screening</Text>
+            <Text style={styles.headerTitle}>{t('va.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.subtitle')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>What We'll Test</Text>
+            <Text style={styles.cardTitle}>{t('common.whatWeTest')}</Text>
 
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>📏</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>Distance Vision</Text>
-                <Text style={styles.infoDesc}>Detects myopia (nearsightedness) — difficulty seeing far objects like blackboards or road signs.</Text>
+                <Text style={styles.infoLabel}>{t('va.distanceLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('va.distanceDesc')}</Text>
               </View>
             </View>
 
@@ -490,8 +1335,8 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>📖</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>Near Vision</Text>
-                <Text style={styles.infoDesc}>Detects hypermetropia (farsightedness) — difficulty reading books or phone screens.</Text>
+                <Text style={styles.infoLabel}>{t('va.nearLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('va.nearDesc')}</Text>
               </View>
             </View>
 
@@ -500,16 +1345,32 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
             <View style={styles.infoRow}>
               <Text style={styles.infoIcon}>⏱️</Text>
               <View style={styles.infoTextBlock}>
-                <Text style={styles.infoLabel}>8–12 Minutes</Text>
-                <Text style={styles.infoDesc}>Each eye is tested separately for both distance and near vision.</Text>
+                <Text style={styles.infoLabel}>{t('va.durationLabel')}</Text>
+                <Text style={styles.infoDesc}>{t('va.durationDesc')}</Text>
               </View>
             </View>
           </View>
+
+          {givenAge === undefined && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>{t('va.age')}</Text>
+              <TextInput
+                style={styles.ageInput}
+                value={ageText}
+                onChangeText={text => setAgeText(text.replace(/[^0-9]/g, ''))}
+                placeholder={t('va.agePlaceholder')}
+                placeholderTextColor="#9E9E9E"
+                keyboardType="number-pad"
+                maxLength={3}
+              />
+              <Text style={styles.ageHint}>{t('va.ageHint')}</Text>
+            </View>
+          )}
         </ScrollView>
 
         <View style={styles.bottomBtnContainer}>
           <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('distance-setup')}>
-            <Text style={styles.primaryBtnText}>Start Screening</Text>
+            <Text style={styles.primaryBtnText}>{t('common.startScreening')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -526,42 +1387,226 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>📏</Text>
-            <Text style={styles.headerTitle}>Distance Vision Test</Text>
-            <Text style={styles.headerSubtitle}>Part 1 of 2</Text>
+            <Text style={styles.headerTitle}>{t('va.distanceTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.part1of2')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Setup Instructions</Text>
+            <Text style={styles.cardTitle}>{t('common.setupInstructions')}</Text>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>1</Text></View>
-              <Text style={styles.stepText}>Stand still and hold the phone facing you</Text>
+              <Text style={styles.stepText}>{t('va.setupStep1')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>2</Text></View>
-              <Text style={styles.stepText}>The app will guide you with voice to the correct 3-metre distance</Text>
+              <Text style={styles.stepText}>{t('va.setupStep2')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>3</Text></View>
-              <Text style={styles.stepText}>Screen brightness will be set to maximum automatically</Text>
+              <Text style={styles.stepText}>{t('va.setupStep3')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>4</Text></View>
-              <Text style={styles.stepText}>Have someone help tap answers, or use voice</Text>
+              <Text style={styles.stepText}>{t('va.setupStep4')}</Text>
             </View>
 
             <View style={styles.tipBox}>
-              <Text style={styles.tipText}>💡 The app uses motion sensors to measure distance — a helper walks the phone to the correct position</Text>
+              <Text style={styles.tipText}>{t('va.setupTip')}</Text>
             </View>
           </View>
+
+          <AmbientLightCheck test="visualAcuity" onReading={quality.ambientLight} />
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.chartType')}</Text>
+            <TouchableOpacity
+              style={[styles.optionBtn, optotype === 'sloan' && styles.optionBtnActive]}
+              onPress={() => setOptotype('sloan')}
+            >
+              <Text style={styles.optionTitle}>{t('va.chartLetters')}</Text>
+              <Text style={styles.optionDesc}>{t('va.chartLettersDesc')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.optionBtn, optotype === 'tumbling-e' && styles.optionBtnActive]}
+              onPress={() => setOptotype('tumbling-e')}
+            >
+              <Text style={styles.optionTitle}>{t('va.chartE')}</Text>
+              <Text style={styles.optionDesc}>
+                {t('va.chartEDesc')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.optionBtn, optotype === 'lea' && styles.optionBtnActive]}
+              onPress={() => setOptotype('lea')}
+            >
+              <Text style={styles.optionTitle}>{t('va.chartLea')}</Text>
+              <Text style={styles.optionDesc}>
+                {t('va.chartLeaDesc')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.presentation')}</Text>
+            <TouchableOpacity
+              style={[styles.optionBtn, presentation === 'single' && styles.optionBtnActive]}
+              onPress={() => setPresentation('single')}
+            >
+              <Text style={styles.optionTitle}>{t('va.presentSingle')}</Text>
+              <Text style={styles.optionDesc}>{t('va.presentSingleDesc')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.optionBtn, presentation === 'crowded' && styles.optionBtnActive]}
+              onPress={() => setPresentation('crowded')}
+            >
+              <Text style={styles.optionTitle}>{t('va.presentCrowded')}</Text>
+              <Text style={styles.optionDesc}>{t('va.presentCrowdedDesc')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.conditions')}</Text>
+            <Text style={styles.bodyText}>{t('va.conditionsBody')}</Text>
+            <TouchableOpacity
+              style={[styles.optionBtn, testSpectacles && styles.optionBtnActive]}
+              onPress={() => setTestSpectacles(prev => !prev)}
+            >
+              <Text style={styles.optionTitle}>{t('va.conditionSpectacles')}</Text>
+              <Text style={styles.optionDesc}>{t('va.conditionSpectaclesDesc')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.optionBtn, testBinocular && styles.optionBtnActive]}
+              onPress={() => setTestBinocular(prev => !prev)}
+            >
+              <Text style={styles.optionTitle}>{t('va.conditionBinocular')}</Text>
+              <Text style={styles.optionDesc}>{t('va.conditionBinocularDesc')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.procedure')}</Text>
+            {STRATEGY_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.kind}
+                style={[styles.optionBtn, strategyKind === option.kind && styles.optionBtnActive]}
+                onPress={() => setStrategyKind(option.kind)}
+              >
+                <Text style={styles.optionTitle}>{t(THRESHOLD_STRATEGY_LABELS[option.kind])}</Text>
+                <Text style={styles.optionDesc}>{t(option.description)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.answerMode')}</Text>
+            <TouchableOpacity
+              style={[styles.optionBtn, answerMode === 'tap' && styles.optionBtnActive]}
+              onPress={() => setAnswerMode('tap')}
+            >
+              <Text style={styles.optionTitle}>{t('va.answerTap')}</Text>
+              <Text style={styles.optionDesc}>{t('va.answerTapDesc')}</Text>
+            </TouchableOpacity>
+            {spokenAvailable && (
+              <TouchableOpacity
+                style={[styles.optionBtn, answerMode === 'spoken' && styles.optionBtnActive]}
+                onPress={() => setAnswerMode('spoken')}
+              >
+                <Text style={styles.optionTitle}>{t('va.answerSpoken')}</Text>
+                <Text style={styles.optionDesc}>{t('va.answerSpokenDesc')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.optionBtn, answerMode === 'remote' && styles.optionBtnActive]}
+              onPress={() => setAnswerMode('remote')}
+            >
+              <Text style={styles.optionTitle}>{t('va.answerRemote')}</Text>
+              <Text style={styles.optionDesc}>{t('va.answerRemoteDesc')}</Text>
+            </TouchableOpacity>
+          </View>
         </ScrollView>
 
         <View style={styles.bottomBtnContainer}>
-          <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('distance-calibrating')}>
-            <Text style={styles.primaryBtnText}>I've Positioned My Phone</Text>
+          <TouchableOpacity
+            style={styles.primaryBtn}
+            onPress={() => setPhase(answerMode === 'remote' ? 'remote-pairing' : 'distance-calibrating')}
+          >
+            <Text style={styles.primaryBtnText}>{t('va.positioned')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== REMOTE PAIRING (second phone as controller) =====
+  if (phase === 'remote-pairing') {
+    const paired = remoteStatus === 'paired';
+
+    return (
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.headerBanner}>
+            <TouchableOpacity style={styles.backArrow} onPress={() => setPhase('distance-setup')}>
+              <Text style={styles.backArrowText}>←</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerEmoji}>📲</Text>
+            <Text style={styles.headerTitle}>{t('remote.pairTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('remote.pairSub')}</Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('remote.relay')}</Text>
+            <Text style={styles.bodyText}>{t('remote.relayBody')}</Text>
+            <TextInput
+              style={styles.remoteInput}
+              value={relayInput}
+              onChangeText={setRelayInput}
+              placeholder={t('remote.relayPlaceholder')}
+              placeholderTextColor="#9E9E9E"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <TouchableOpacity
+              style={[styles.optionBtn, styles.optionBtnActive]}
+              onPress={startRemoteSession}
+              disabled={!normaliseRelayUrl(relayInput)}
+            >
+              <Text style={styles.optionTitle}>{t(pairing ? 'remote.newSession' : 'remote.startSession')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {pairing && (
+            <View style={[styles.card, styles.remotePairingCard]}>
+              <Text style={styles.bodyText}>{t('remote.scanBody')}</Text>
+              <QrCode value={encodePairingUri(pairing)} size={220} />
+              <Text style={styles.remoteCode}>{pairing.code}</Text>
+              <Text style={[styles.remoteStatus, paired && styles.remoteStatusPaired]}>
+                {t(REMOTE_LINK_STATUS_LABELS[remoteStatus])}
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity
+            style={[styles.primaryBtn, !paired && styles.primaryBtnDisabled]}
+            onPress={() => setPhase('distance-calibrating')}
+            disabled={!paired}
+          >
+            <Text style={styles.primaryBtnText}>{t('remote.continue')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.ghostBtn}
+            onPress={() => {
+              setAnswerMode('tap');
+              setPhase('distance-calibrating');
+            }}
+          >
+            <Text style={styles.ghostBtnText}>{t('remote.answerHere')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -573,14 +1618,36 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
     return (
       <DistanceCalibration
         mode="distance"
+        onCalibrated={placement => {
+          setDistancePlacement(placement ?? manualPlacement(DISTANCE_TARGETS.distance.targetCm));
+          setPhase('distance-calibration');
+        }}
+        onSkip={() => {
+          quality.skipCalibration('distance');
+          setDistancePlacement(manualPlacement(DISTANCE_TARGETS.distance.targetCm));
+          setPhase('distance-calibration');
+        }}
+      />
+    );
+  }
+
+  // ===== SCREEN CALIBRATION (card match) =====
+  if (phase === 'screen-calibration') {
+    return (
+      <ScreenCalibration
         onCalibrated={() => setPhase('distance-calibration')}
-        onSkip={() => setPhase('distance-calibration')}
+        onSkip={() => {
+          quality.skipCalibration('screen');
+          setPhase('distance-calibration');
+        }}
       />
     );
   }
 
   // ===== DISTANCE CALIBRATION =====
   if (phase === 'distance-calibration') {
+    const calibration = getScreenCalibration();
+
     return (
       <View style={styles.screenFlex}>
         <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
@@ -589,63 +1656,63 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>📐</Text>
-            <Text style={styles.headerTitle}>Distance Check</Text>
-            <Text style={styles.headerSubtitle}>Are you 3 meters away?</Text>
+            <Text style={styles.headerTitle}>{t('va.distanceCheck')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.distanceCheckSub')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Quick Check</Text>
-            <Text style={styles.bodyText}>You should be about 3 meters from the screen. Use these guides:</Text>
+            <Text style={styles.cardTitle}>{t('va.quickCheck')}</Text>
+            <Text style={styles.bodyText}>{t('va.quickCheckBody')}</Text>
 
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>🦶</Text>
-              <Text style={styles.checkText}>Walk 3-4 large steps back from the phone</Text>
+              <Text style={styles.checkText}>{t('va.checkSteps')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>🛋️</Text>
-              <Text style={styles.checkText}>About the length of a standard sofa</Text>
+              <Text style={styles.checkText}>{t('va.checkSofa')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>📏</Text>
-              <Text style={styles.checkText}>Use a measuring tape if available</Text>
+              <Text style={styles.checkText}>{t('va.checkTape')}</Text>
             </View>
 
             <View style={styles.calibrationBox}>
               <Text style={styles.calibrationLetter}>E</Text>
-              <Text style={styles.calibrationHint}>Can you see this letter clearly from where you stand?</Text>
+              <Text style={styles.calibrationHint}>{t('va.calibrationHint')}</Text>
             </View>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>� Screen Calibration Check</Text>
-            <Text style={styles.bodyText}>
-              Place a standard credit/debit card on the rectangle below. If it matches, your screen is properly calibrated for accurate results.
-            </Text>
-            <View style={{
-              width: mmToLayoutPixels(CARD_WIDTH_MM),
-              height: mmToLayoutPixels(CARD_HEIGHT_MM),
-              borderWidth: 2,
-              borderColor: '#00ACC1',
-              borderStyle: 'dashed',
-              borderRadius: 8,
-              alignSelf: 'center',
-              marginVertical: 16,
-              justifyContent: 'center',
-              alignItems: 'center',
-            }}>
-              <Text style={{ color: '#00ACC1', fontSize: 12, textAlign: 'center' }}>
-                📇 Place card here
-              </Text>
-            </View>
-            <Text style={{ fontSize: 12, color: '#9E9E9E', textAlign: 'center', lineHeight: 18 }}>
-              If the card doesn't match exactly, results may be slightly less precise. Most modern phones are well-calibrated.
-            </Text>
+            <Text style={styles.cardTitle}>{t('va.screenCalTitle')}</Text>
+            {calibration ? (
+              <>
+                <Text style={styles.bodyText}>
+                  {t('va.screenCalDone', { date: new Date(calibration.calibratedAt).toLocaleDateString() })}
+                </Text>
+                <View style={[styles.cardOutline, { width: mmToDp(CARD_WIDTH_MM), height: mmToDp(CARD_HEIGHT_MM) }]}>
+                  <Text style={styles.cardOutlineText}>{t('va.placeCard')}</Text>
+                </View>
+                <TouchableOpacity style={styles.ghostBtn} onPress={() => setPhase('screen-calibration')}>
+                  <Text style={styles.ghostBtnText}>{t('va.recalibrate')}</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.bodyText}>
+                  {t('va.screenCalNeeded')}
+                </Text>
+                <TouchableOpacity style={[styles.optionBtn, styles.optionBtnActive]} onPress={() => setPhase('screen-calibration')}>
+                  <Text style={styles.optionTitle}>{t('va.calibrateNow')}</Text>
+                </TouchableOpacity>
+              </>
+            )}
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>�👁️ Starting with Right Eye</Text>
+            <Text style={styles.cardTitle}>{t('va.startRight')}</Text>
             <Text style={styles.bodyText}>
-              Before we begin, cover your LEFT eye with your hand. Keep your RIGHT eye open.
+              {t('va.startRightBody')}
             </Text>
           </View>
         </ScrollView>
@@ -653,80 +1720,361 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         <View style={styles.bottomBtnContainer}>
           <TouchableOpacity
             style={styles.primaryBtn}
-            onPress={() => {
-              setCurrentEye('right');
-              setCurrentLineIndex(0);
-              setCurrentLetterIndex(0);
-              setConsecutiveErrors(0);
-              setPhase('distance-test');
-            }}
+            onPress={() => startCondition('uncorrected')}
           >
-            <Text style={styles.primaryBtnText}>Yes, I'm Ready</Text>
+            <Text style={styles.primaryBtnText}>{t('va.yesReady')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== DISTANCE TEST =====
+  if (phase === 'distance-test') {
+    const eyeLabel = t(currentEye === 'right' ? 'common.RIGHT' : 'common.LEFT');
+    const coverLabel = t(currentEye === 'right' ? 'common.LEFT' : 'common.RIGHT');
+    const isTumblingE = optotype === 'tumbling-e';
+    const isLea = optotype === 'lea';
+    const choices = optotype === 'sloan' ? generateDistanceChoices() : [];
+    const progress = (strategyRef.current?.progress() ?? 0) * 100;
+
+    // Every optotype of a chart line, for the crowded presentation
+    const renderChartLine = (index: number): React.ReactNode[] => {
+      const size = letterSizeDp(DISTANCE_TEST_LINES[index]);
+      if (isTumblingE) return eChart[index].map((orientation, i) => <TumblingE key={i} size={size} orientation={orientation} />);
+      if (isLea) return leaChart[index].map((symbol, i) => <LeaSymbol key={i} size={size} symbol={symbol} />);
+      return DISTANCE_TEST_LINES[index].letters.map((letter, i) => (
+        <Text
+          key={i}
+          style={[styles.testLetter, {
+            fontSize: size,
+            fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+          }]}
+        >
+          {letter}
+        </Text>
+      ));
+    };
+
+    return (
+      <View style={[styles.screen, styles.testScreen]}>
+        {/* Eye indicator */}
+        <View style={styles.eyeBanner}>
+          <Text style={styles.eyeBannerText}>
+            {condition === 'binocular' ? t('va.testingBoth') : t('va.testing', { eye: eyeLabel })}
+          </Text>
+          <Text style={styles.eyeBannerSub}>
+            {condition === 'binocular'
+              ? t('va.keepBothOpen')
+              : t(condition === 'spectacles' ? 'va.coverGlassesOn' : 'va.cover', { eye: coverLabel })}
+          </Text>
+        </View>
+
+        {/* Progress bar */}
+        <View style={styles.progressContainer}>
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${progress}%` as any }]} />
+          </View>
+          <Text style={styles.progressText}>
+            {strategyKind === 'line-walk'
+              ? t('va.lineOf', { current: currentLineIndex + 1, total: DISTANCE_TEST_LINES.length })
+              : t('va.size', { acuity: currentDistanceLine.acuity })}
+          </Text>
+        </View>
+
+        {!canRenderFaithfully(currentDistanceLine.letterHeight_mm) && (
+          <View style={styles.renderWarning}>
+            <Text style={styles.renderWarningText}>
+              {t('va.renderWarning', { acuity: currentDistanceLine.acuity })}
+            </Text>
+          </View>
+        )}
+
+        {/* Letter display — fills remaining space above the fixed bottom */}
+        <View style={styles.letterArea}>
+          <View style={styles.letterContainer} {...(isTumblingE ? swipeResponder.panHandlers : {})}>
+            {presentation === 'crowded' ? (
+              <Animated.View style={{ opacity: fadeAnim }}>
+                <CrowdedLine
+                  size={letterSizeDp(currentDistanceLine)}
+                  items={renderChartLine(currentLineIndex)}
+                  cursor={trial.position % currentDistanceLine.letters.length}
+                  maxWidth={CROWDED_LINE_WIDTH}
+                />
+              </Animated.View>
+            ) : isTumblingE && currentOrientation ? (
+              <Animated.View style={{ opacity: fadeAnim }}>
+                <TumblingE size={letterSizeDp(currentDistanceLine)} orientation={currentOrientation} />
+              </Animated.View>
+            ) : isLea && currentSymbol ? (
+              <Animated.View style={{ opacity: fadeAnim }}>
+                <LeaSymbol size={letterSizeDp(currentDistanceLine)} symbol={currentSymbol} />
+              </Animated.View>
+            ) : (
+              <Animated.Text
+                style={[styles.testLetter, {
+                  fontSize: letterSizeDp(currentDistanceLine),
+                  fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+                  opacity: fadeAnim,
+                }]}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+                minimumFontScale={0.5}
+              >
+                {currentLetter}
+              </Animated.Text>
+            )}
+          </View>
+        </View>
+
+        {/* Fixed bottom: spoken-answer status, question, choices, can't-see */}
+        <View style={styles.testBottomSection}>
+          {answerMode === 'remote' && (
+            <Text style={[styles.remoteStatus, remoteControlled && styles.remoteStatusPaired]}>
+              {t(remoteControlled ? 'remote.answersOnController' : 'remote.controllerLost')}
+            </Text>
+          )}
+
+          {spokenMode && (
+            spoken.pending ? (
+              <View style={styles.spokenConfirm}>
+                <Text style={styles.spokenConfirmText}>
+                  {spoken.pending.answer === CANT_SEE
+                    ? t('va.heardCantSee')
+                    : t('va.heardConfirm', {
+                        heard: spoken.pending.heard,
+                        answer: describeSpokenAnswer(spoken.pending.answer),
+                      })}
+
+                </Text>
+                <View style={styles.spokenConfirmRow}>
+                  <TouchableOpacity style={styles.spokenYesBtn} onPress={spoken.confirm}>
+                    <Text style={styles.spokenBtnText}>{t('common.yes')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.spokenNoBtn} onPress={spoken.reject}>
+                    <Text style={styles.spokenBtnText}>{t('common.no')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <Text style={styles.spokenListening}>{t('va.listening')}</Text>
+            )
+          )}
+
+          {presentation === 'crowded' && !remoteControlled && (
+            <Text style={styles.crowdedHint}>{t('va.crowdedHint')}</Text>
+          )}
+
+          {remoteControlled ? null : isTumblingE ? (
+            <>
+              <Text style={styles.questionText}>{t('va.questionE')}</Text>
+              <View style={styles.arrowPad}>
+                <TouchableOpacity style={styles.arrowBtn} onPress={() => handleDistanceAnswer('up')}>
+                  <Text style={styles.arrowBtnText}>↑</Text>
+                </TouchableOpacity>
+                <View style={styles.arrowRow}>
+                  <TouchableOpacity style={styles.arrowBtn} onPress={() => handleDistanceAnswer('left')}>
+                    <Text style={styles.arrowBtnText}>←</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.arrowBtn} onPress={() => handleDistanceAnswer('right')}>
+                    <Text style={styles.arrowBtnText}>→</Text>
+                  </TouchableOpacity>
+                </View>
+                <TouchableOpacity style={styles.arrowBtn} onPress={() => handleDistanceAnswer('down')}>
+                  <Text style={styles.arrowBtnText}>↓</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.swipeHint}>{t('va.swipeHint')}</Text>
+            </>
+          ) : isLea ? (
+            <>
+              <Text style={styles.questionText}>{t('va.questionLea')}</Text>
+              <View style={styles.leaPad}>
+                {LEA_SYMBOLS.map(symbol => (
+                  <TouchableOpacity
+                    key={symbol}
+                    style={styles.leaBtn}
+                    onPress={() => handleDistanceAnswer(symbol)}
+                  >
+                    <LeaSymbol size={52} symbol={symbol} color="#00838F" />
+                    <Text style={styles.leaBtnText}>{t(LEA_SYMBOL_LABELS[symbol])}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          ) : (
+            <>
+              <Text style={styles.questionText}>{t('va.questionLetter')}</Text>
+
+              <View style={styles.choicesGrid}>
+                {choices.map((choice, idx) => (
+                  <TouchableOpacity
+                    key={`${choice}-${idx}`}
+                    style={styles.choiceBtn}
+                    onPress={() => handleDistanceAnswer(choice)}
+                  >
+                    <Text style={styles.choiceBtnText}>{choice}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          {!remoteControlled && (
+            <TouchableOpacity style={styles.cantSeeBtn} onPress={handleCantSee}>
+              <Text style={styles.cantSeeBtnText}>{t('common.cantSee')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  // ===== DISTANCE LOW VISION (below the chart) =====
+  if (phase === 'distance-low-vision') {
+    const step = LOW_VISION_STEPS[lowVisionStep];
+    const topLine = DISTANCE_TEST_LINES[0];
+
+    return (
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          <View style={styles.headerBanner}>
+            <Text style={styles.headerEmoji}>🖐️</Text>
+            <Text style={styles.headerTitle}>{t(step.title)}</Text>
+            <Text style={styles.headerSubtitle}>
+              {t('lowVision.stepOf', {
+                eye: t(currentEye === 'right' ? 'common.right' : 'common.left'),
+                current: lowVisionStep + 1,
+                total: LOW_VISION_STEPS.length,
+              })}
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.bodyText}>
+              {t('lowVision.intro')}
+            </Text>
+            <View style={styles.tipBox}>
+              <Text style={styles.tipText}>{t(step.instruction)}</Text>
+            </View>
+          </View>
+
+          {step.showOptotype && (
+            <View style={[styles.card, styles.letterContainer]}>
+              {optotype === 'tumbling-e' ? (
+                <TumblingE size={letterSizeDp(topLine)} orientation={eChart[0][0]} />
+              ) : optotype === 'lea' ? (
+                <LeaSymbol size={letterSizeDp(topLine)} symbol={leaChart[0][0]} />
+              ) : (
+                <Text
+                  style={[styles.testLetter, {
+                    fontSize: letterSizeDp(topLine),
+                    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+                  }]}
+                >
+                  {topLine.letters[0]}
+                </Text>
+              )}
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t(step.question)}</Text>
+          </View>
+        </ScrollView>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => handleLowVisionAnswer(true)}>
+            <Text style={styles.primaryBtnText}>{t('common.yes')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.cantSeeBtn, styles.lowVisionNoBtn]} onPress={() => handleLowVisionAnswer(false)}>
+            <Text style={styles.cantSeeBtnText}>{t('common.no')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== PINHOLE RETEST OFFER =====
+  if (phase === 'distance-pinhole-offer' && pinholeBase) {
+    return (
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          <View style={styles.headerBanner}>
+            <Text style={styles.headerEmoji}>🔍</Text>
+            <Text style={styles.headerTitle}>{t('pinhole.offerTitle')}</Text>
+            <Text style={styles.headerSubtitle}>
+              {t('pinhole.offerSubtitle', {
+                eye: t(currentEye === 'right' ? 'common.right' : 'common.left'),
+                acuity: pinholeBase.acuity,
+              })}
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('pinhole.whyTitle')}</Text>
+            <Text style={styles.bodyText}>{t('pinhole.whyBody')}</Text>
+            <View style={styles.tipBox}>
+              <Text style={styles.tipText}>{t('pinhole.needs')}</Text>
+            </View>
+          </View>
+        </ScrollView>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('distance-pinhole-setup')}>
+            <Text style={styles.primaryBtnText}>{t('pinhole.retest')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.ghostBtn} onPress={skipPinhole}>
+            <Text style={styles.ghostBtnText}>{t('pinhole.skip')}</Text>
           </TouchableOpacity>
         </View>
       </View>
     );
   }
 
-  // ===== DISTANCE TEST =====
-  if (phase === 'distance-test') {
-    const eyeLabel = currentEye === 'right' ? 'RIGHT' : 'LEFT';
-    const coverLabel = currentEye === 'right' ? 'LEFT' : 'RIGHT';
-    const choices = generateDistanceChoices();
-    const progress = (currentLineIndex / DISTANCE_TEST_LINES.length) * 100;
+  // ===== PINHOLE RETEST SETUP =====
+  if (phase === 'distance-pinhole-setup') {
+    const eyeLabel = t(currentEye === 'right' ? 'common.RIGHT' : 'common.LEFT');
 
     return (
-      <View style={[styles.screen, styles.testScreen]}>
-        {/* Eye indicator */}
-        <View style={styles.eyeBanner}>
-          <Text style={styles.eyeBannerText}>Testing: {eyeLabel} EYE</Text>
-          <Text style={styles.eyeBannerSub}>Cover your {coverLabel} eye with your hand</Text>
-        </View>
-
-        {/* Progress bar */}
-        <View style={styles.progressContainer}>
-          <View style={styles.progressBar}>
-            <View style={[styles.progressFill, { width: `${progress}%` as any }]} />
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          <View style={styles.headerBanner}>
+            <TouchableOpacity style={styles.backArrow} onPress={() => setPhase('distance-pinhole-offer')}>
+              <Text style={styles.backArrowText}>←</Text>
+            </TouchableOpacity>
+            <Text style={styles.headerEmoji}>🔍</Text>
+            <Text style={styles.headerTitle}>{t('pinhole.setupTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('pinhole.setupSubtitle', { eye: eyeLabel })}</Text>
           </View>
-          <Text style={styles.progressText}>Line {currentLineIndex + 1} of {DISTANCE_TEST_LINES.length}</Text>
-        </View>
 
-        {/* Letter display — fills remaining space above the fixed bottom */}
-        <View style={styles.letterArea}>
-          <View style={styles.letterContainer}>
-            <Animated.Text
-              style={[styles.testLetter, {
-                fontSize: currentDistanceLine.fontSize,
-                fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
-                opacity: fadeAnim,
-              }]}
-              numberOfLines={1}
-              adjustsFontSizeToFit
-              minimumFontScale={0.5}
-            >
-              {currentLetter}
-            </Animated.Text>
-          </View>
-        </View>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('common.setupInstructions')}</Text>
 
-        {/* Fixed bottom: question, choices, can't-see */}
-        <View style={styles.testBottomSection}>
-          <Text style={styles.questionText}>What letter do you see?</Text>
+            <View style={styles.stepRow}>
+              <View style={styles.stepCircle}><Text style={styles.stepNumber}>1</Text></View>
+              <Text style={styles.stepText}>{t('pinhole.step1')}</Text>
+            </View>
 
-          <View style={styles.choicesGrid}>
-            {choices.map((choice, idx) => (
-              <TouchableOpacity
-                key={`${choice}-${idx}`}
-                style={styles.choiceBtn}
-                onPress={() => handleDistanceAnswer(choice)}
-              >
-                <Text style={styles.choiceBtnText}>{choice}</Text>
-              </TouchableOpacity>
-            ))}
+            <View style={styles.stepRow}>
+              <View style={styles.stepCircle}><Text style={styles.stepNumber}>2</Text></View>
+              <Text style={styles.stepText}>{t('pinhole.step2', { eye: eyeLabel })}</Text>
+            </View>
+
+            <View style={styles.stepRow}>
+              <View style={styles.stepCircle}><Text style={styles.stepNumber}>3</Text></View>
+              <Text style={styles.stepText}>{t('pinhole.step3')}</Text>
+            </View>
+
+            <View style={styles.tipBox}>
+              <Text style={styles.tipText}>{t('pinhole.tip')}</Text>
+            </View>
           </View>
+        </ScrollView>
 
-          <TouchableOpacity style={styles.cantSeeBtn} onPress={handleCantSee}>
-            <Text style={styles.cantSeeBtnText}>Can't See Clearly</Text>
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => startDistanceRun(currentEye, true)}>
+            <Text style={styles.primaryBtnText}>{t('common.imReady')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -740,33 +2088,33 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
           <View style={styles.headerBanner}>
             <Text style={styles.headerEmoji}>🔄</Text>
-            <Text style={styles.headerTitle}>Switch to Left Eye</Text>
-            <Text style={styles.headerSubtitle}>Distance Vision — Part 1 of 2</Text>
+            <Text style={styles.headerTitle}>{t('va.switchLeft')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.switchDistanceSub')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Great job on the right eye!</Text>
+            <Text style={styles.cardTitle}>{t('va.greatJobRight')}</Text>
             <Text style={styles.bodyText}>
-              Now we need to test your left eye. Please:
+              {t('va.nowLeft')}
             </Text>
 
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>🤚</Text>
-              <Text style={styles.checkText}>Cover your RIGHT eye with your hand</Text>
+              <Text style={styles.checkText}>{t('va.coverRight')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>👁️</Text>
-              <Text style={styles.checkText}>Keep your LEFT eye open</Text>
+              <Text style={styles.checkText}>{t('va.keepLeftOpen')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>📏</Text>
-              <Text style={styles.checkText}>Stay 3 meters from the screen</Text>
+              <Text style={styles.checkText}>{t('va.stay3m')}</Text>
             </View>
           </View>
 
           <View style={styles.card}>
             <Text style={styles.bodyText}>
-              Tap "I'm Ready" once your right eye is covered and you can only see the screen with your left eye.
+              {t('va.tapReady')}
             </Text>
           </View>
         </ScrollView>
@@ -774,15 +2122,71 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         <View style={styles.bottomBtnContainer}>
           <TouchableOpacity
             style={styles.primaryBtn}
-            onPress={() => {
-              setCurrentEye('left');
-              setCurrentLineIndex(0);
-              setCurrentLetterIndex(0);
-              setConsecutiveErrors(0);
-              setPhase('distance-test');
-            }}
+            onPress={() => startDistanceRun('left')}
           >
-            <Text style={styles.primaryBtnText}>I'm Ready</Text>
+            <Text style={styles.primaryBtnText}>{t('common.imReady')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // ===== NEXT TEST CONDITION =====
+  if (phase === 'distance-condition' && nextCondition) {
+    const binocular = nextCondition === 'binocular';
+
+    return (
+      <View style={styles.screenFlex}>
+        <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
+          <View style={styles.headerBanner}>
+            <Text style={styles.headerEmoji}>{binocular ? '👀' : '👓'}</Text>
+            <Text style={styles.headerTitle}>{t(binocular ? 'va.bothEyesTitle' : 'va.glassesTitle')}</Text>
+            <Text style={styles.headerSubtitle}>
+              {t('va.conditionOf', {
+                current: conditionPlan.indexOf(nextCondition) + 1,
+                total: conditionPlan.length,
+              })}
+            </Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.bodyText}>{t(binocular ? 'va.bothEyesBody' : 'va.glassesBody')}</Text>
+
+            {binocular ? (
+              <>
+                <View style={styles.checkItem}>
+                  <Text style={styles.checkEmoji}>👀</Text>
+                  <Text style={styles.checkText}>{t('va.keepBothOpen')}</Text>
+                </View>
+                {testSpectacles && (
+                  <View style={styles.checkItem}>
+                    <Text style={styles.checkEmoji}>👓</Text>
+                    <Text style={styles.checkText}>{t('va.keepGlassesOn')}</Text>
+                  </View>
+                )}
+              </>
+            ) : (
+              <>
+                <View style={styles.checkItem}>
+                  <Text style={styles.checkEmoji}>👓</Text>
+                  <Text style={styles.checkText}>{t('va.putOnGlasses')}</Text>
+                </View>
+                <View style={styles.checkItem}>
+                  <Text style={styles.checkEmoji}>🤚</Text>
+                  <Text style={styles.checkText}>{t('va.coverLeft')}</Text>
+                </View>
+              </>
+            )}
+            <View style={styles.checkItem}>
+              <Text style={styles.checkEmoji}>📏</Text>
+              <Text style={styles.checkText}>{t('va.stay3m')}</Text>
+            </View>
+          </View>
+        </ScrollView>
+
+        <View style={styles.bottomBtnContainer}>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => startCondition(nextCondition)}>
+            <Text style={styles.primaryBtnText}>{t('common.imReady')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -793,53 +2197,92 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
   if (phase === 'distance-results') {
     const rRating = distanceResults.rightEye ? getAcuityRating(distanceResults.rightEye.acuity) : null;
     const lRating = distanceResults.leftEye ? getAcuityRating(distanceResults.leftEye.acuity) : null;
+    const pinholeNoGain = [distanceResults.rightEye, distanceResults.leftEye].some(eye => eye?.pinhole && !eye.pinhole.improved);
 
     return (
       <View style={styles.screenFlex}>
       <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
         <View style={styles.headerBanner}>
           <Text style={styles.headerEmoji}>📏</Text>
-          <Text style={styles.headerTitle}>Distance Vision Results</Text>
-          <Text style={styles.headerSubtitle}>Part 1 Complete</Text>
+          <Text style={styles.headerTitle}>{t('va.distanceResults')}</Text>
+          <Text style={styles.headerSubtitle}>{t('va.part1Complete')}</Text>
         </View>
 
         <View style={styles.card}>
           <View style={styles.resultRow}>
-            <Text style={styles.resultEyeLabel}>Right Eye</Text>
+            <Text style={styles.resultEyeLabel}>{t('common.rightEye')}</Text>
             <View style={styles.resultValueBlock}>
               <Text style={styles.resultAcuity}>{distanceResults.rightEye?.acuity ?? '—'}</Text>
               {rRating && <Text style={[styles.resultRating, { color: rRating.color }]}>{rRating.label}</Text>}
+              {distanceResults.rightEye && (
+                <Text style={styles.resultLogMAR}>
+                  {distanceResults.rightEye.interval
+                    ? t('common.logMARInterval', {
+                        value: formatLogMAR(distanceResults.rightEye.logMAR),
+                        interval: formatLogMARInterval(distanceResults.rightEye.interval),
+                      })
+                    : t('common.logMAR', { value: formatLogMAR(distanceResults.rightEye.logMAR) })}
+                </Text>
+              )}
+              {distanceResults.rightEye?.pinhole && (
+                <Text style={styles.resultLogMAR}>{formatPinhole(distanceResults.rightEye.pinhole)}</Text>
+              )}
             </View>
           </View>
 
           <View style={styles.divider} />
 
           <View style={styles.resultRow}>
-            <Text style={styles.resultEyeLabel}>Left Eye</Text>
+            <Text style={styles.resultEyeLabel}>{t('common.leftEye')}</Text>
             <View style={styles.resultValueBlock}>
               <Text style={styles.resultAcuity}>{distanceResults.leftEye?.acuity ?? '—'}</Text>
               {lRating && <Text style={[styles.resultRating, { color: lRating.color }]}>{lRating.label}</Text>}
+              {distanceResults.leftEye && (
+                <Text style={styles.resultLogMAR}>
+                  {distanceResults.leftEye.interval
+                    ? t('common.logMARInterval', {
+                        value: formatLogMAR(distanceResults.leftEye.logMAR),
+                        interval: formatLogMARInterval(distanceResults.leftEye.interval),
+                      })
+                    : t('common.logMAR', { value: formatLogMAR(distanceResults.leftEye.logMAR) })}
+                </Text>
+              )}
+              {distanceResults.leftEye?.pinhole && (
+                <Text style={styles.resultLogMAR}>{formatPinhole(distanceResults.leftEye.pinhole)}</Text>
+              )}
             </View>
           </View>
         </View>
 
+        {renderConditionSummary()}
+
         <View style={styles.card}>
           <Text style={styles.bodyText}>
-            {(distanceResults.rightEye?.decimal ?? 1) < 0.5 || (distanceResults.leftEye?.decimal ?? 1) < 0.5
-              ? '⚠️ Your distance vision may indicate myopia (nearsightedness). Continue to the near vision test for a complete assessment.'
-              : '✅ Your distance vision appears to be in a healthy range. Continue to the near vision test to complete the screening.'}
+            {optotype === 'lea'
+              ? t('va.childNoNear')
+              : pinholeNoGain
+                ? t('va.distancePinholeConcern')
+                : (distanceResults.rightEye?.decimal ?? 1) < 0.5 || (distanceResults.leftEye?.decimal ?? 1) < 0.5
+                  ? t('va.distanceConcern')
+                  : t('va.distanceHealthy')}
           </Text>
         </View>
       </ScrollView>
 
       <View style={styles.bottomBtnContainer}>
-        <TouchableOpacity style={styles.primaryBtn} onPress={() => {
-          setCurrentEye('right');
-          setNearLineIndex(0);
-          setPhase('near-setup');
-        }}>
-          <Text style={styles.primaryBtnText}>Continue to Near Vision Test</Text>
-        </TouchableOpacity>
+        {optotype === 'lea' ? (
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('combined-results')}>
+            <Text style={styles.primaryBtnText}>{t('va.viewChildResult')}</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => {
+            setCurrentEye('right');
+            setNearLineIndex(0);
+            setPhase('near-setup');
+          }}>
+            <Text style={styles.primaryBtnText}>{t('va.continueNear')}</Text>
+          </TouchableOpacity>
+        )}
       </View>
       </View>
     );
@@ -855,37 +2298,37 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
               <Text style={styles.backArrowText}>←</Text>
             </TouchableOpacity>
             <Text style={styles.headerEmoji}>📖</Text>
-            <Text style={styles.headerTitle}>Near Vision Test</Text>
-            <Text style={styles.headerSubtitle}>Part 2 of 2</Text>
+            <Text style={styles.headerTitle}>{t('va.nearTitle')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.part2of2')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Setup Instructions</Text>
+            <Text style={styles.cardTitle}>{t('common.setupInstructions')}</Text>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>1</Text></View>
-              <Text style={styles.stepText}>Hold the phone facing you — the app will guide you to 40 cm</Text>
+              <Text style={styles.stepText}>{t('va.nearStep1')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>2</Text></View>
-              <Text style={styles.stepText}>Brightness will stay at maximum for best contrast</Text>
+              <Text style={styles.stepText}>{t('va.nearStep2')}</Text>
             </View>
 
             <View style={styles.stepRow}>
               <View style={styles.stepCircle}><Text style={styles.stepNumber}>3</Text></View>
-              <Text style={styles.stepText}>We'll show text in decreasing sizes — read each aloud</Text>
+              <Text style={styles.stepText}>{t('va.nearStep3')}</Text>
             </View>
 
             <View style={styles.tipBox}>
-              <Text style={styles.tipText}>💡 40 cm is roughly the length from your elbow to your fingertips</Text>
+              <Text style={styles.tipText}>{t('va.nearTip')}</Text>
             </View>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>👁️ Starting with Right Eye</Text>
+            <Text style={styles.cardTitle}>{t('va.startRight')}</Text>
             <Text style={styles.bodyText}>
-              Before we begin, cover your LEFT eye with your hand. Keep your RIGHT eye open.
+              {t('va.startRightBody')}
             </Text>
           </View>
         </ScrollView>
@@ -899,7 +2342,7 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
               setPhase('near-calibrating');
             }}
           >
-            <Text style={styles.primaryBtnText}>I'm Ready</Text>
+            <Text style={styles.primaryBtnText}>{t('common.imReady')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -912,23 +2355,26 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
       <DistanceCalibration
         mode="near"
         onCalibrated={() => setPhase('near-test')}
-        onSkip={() => setPhase('near-test')}
+        onSkip={() => {
+          quality.skipCalibration('near');
+          setPhase('near-test');
+        }}
       />
     );
   }
 
   // ===== NEAR VISION TEST =====
   if (phase === 'near-test') {
-    const eyeLabel = currentEye === 'right' ? 'RIGHT' : 'LEFT';
-    const coverLabel = currentEye === 'right' ? 'LEFT' : 'RIGHT';
+    const eyeLabel = t(currentEye === 'right' ? 'common.RIGHT' : 'common.LEFT');
+    const coverLabel = t(currentEye === 'right' ? 'common.LEFT' : 'common.RIGHT');
     const progress = (nearLineIndex / NEAR_VISION_LINES.length) * 100;
 
     return (
       <View style={[styles.screen, styles.testScreen]}>
         {/* Eye indicator */}
         <View style={styles.eyeBanner}>
-          <Text style={styles.eyeBannerText}>Testing: {eyeLabel} EYE (Near)</Text>
-          <Text style={styles.eyeBannerSub}>Cover your {coverLabel} eye with your hand</Text>
+          <Text style={styles.eyeBannerText}>{t('va.testingNear', { eye: eyeLabel })}</Text>
+          <Text style={styles.eyeBannerSub}>{t('va.cover', { eye: coverLabel })}</Text>
         </View>
 
         {/* Progress bar */}
@@ -936,25 +2382,27 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
           <View style={styles.progressBar}>
             <View style={[styles.progressFill, { width: `${progress}%` as any }]} />
           </View>
-          <Text style={styles.progressText}>Level {nearLineIndex + 1} of {NEAR_VISION_LINES.length}</Text>
+          <Text style={styles.progressText}>
+            {t('va.levelOf', { current: nearLineIndex + 1, total: NEAR_VISION_LINES.length })}
+          </Text>
         </View>
 
         {/* Text display — fades between levels */}
         <View style={styles.nearTextContainer}>
           <Animated.Text style={[styles.nearTestText, {
-            fontSize: currentNearLine.fontSize,
-            lineHeight: Math.round(currentNearLine.fontSize * 1.4),
+            fontSize: nearSizeDp(currentNearLine),
+            lineHeight: Math.round(nearSizeDp(currentNearLine) * 1.4),
             opacity: fadeAnim,
           }]}>
-            {currentNearLine.text}
+            {t(currentNearLine.text)}
           </Animated.Text>
           <Animated.Text style={[styles.nearLevelLabel, { opacity: fadeAnim }]}>
-            {currentNearLine.level} — {currentNearLine.description}
+            {currentNearLine.level} — {t(currentNearLine.description)}
           </Animated.Text>
         </View>
 
         {/* Question */}
-        <Text style={styles.questionText}>Can you read this text clearly?</Text>
+        <Text style={styles.questionText}>{t('va.nearQuestion')}</Text>
 
         {/* Answers */}
         <View style={styles.nearChoicesRow}>
@@ -962,14 +2410,14 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
             style={[styles.nearChoiceBtn, styles.nearYesBtn]}
             onPress={() => handleNearAnswer(true)}
           >
-            <Text style={styles.nearChoiceBtnText}>✅ Yes, clearly</Text>
+            <Text style={styles.nearChoiceBtnText}>{t('va.nearYes')}</Text>
           </TouchableOpacity>
 
           <TouchableOpacity
             style={[styles.nearChoiceBtn, styles.nearNoBtn]}
             onPress={() => handleNearAnswer(false)}
           >
-            <Text style={styles.nearChoiceBtnText}>❌ No, it's blurry</Text>
+            <Text style={styles.nearChoiceBtnText}>{t('va.nearNo')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -983,33 +2431,33 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
           <View style={styles.headerBanner}>
             <Text style={styles.headerEmoji}>🔄</Text>
-            <Text style={styles.headerTitle}>Switch to Left Eye</Text>
-            <Text style={styles.headerSubtitle}>Near Vision — Part 2 of 2</Text>
+            <Text style={styles.headerTitle}>{t('va.switchLeft')}</Text>
+            <Text style={styles.headerSubtitle}>{t('va.switchNearSub')}</Text>
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.cardTitle}>Right eye complete!</Text>
+            <Text style={styles.cardTitle}>{t('va.rightComplete')}</Text>
             <Text style={styles.bodyText}>
-              Now we'll test your left eye's near vision. Please:
+              {t('va.nowLeftNear')}
             </Text>
 
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>🤚</Text>
-              <Text style={styles.checkText}>Cover your RIGHT eye with your hand</Text>
+              <Text style={styles.checkText}>{t('va.coverRight')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>👁️</Text>
-              <Text style={styles.checkText}>Keep your LEFT eye open</Text>
+              <Text style={styles.checkText}>{t('va.keepLeftOpen')}</Text>
             </View>
             <View style={styles.checkItem}>
               <Text style={styles.checkEmoji}>📖</Text>
-              <Text style={styles.checkText}>Hold the phone at 40 cm (arm's length)</Text>
+              <Text style={styles.checkText}>{t('va.hold40')}</Text>
             </View>
           </View>
 
           <View style={styles.card}>
             <Text style={styles.bodyText}>
-              Tap "I'm Ready" once your right eye is covered and you can only see the screen with your left eye.
+              {t('va.tapReady')}
             </Text>
           </View>
         </ScrollView>
@@ -1023,7 +2471,7 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
               setPhase('near-test');
             }}
           >
-            <Text style={styles.primaryBtnText}>I'm Ready</Text>
+            <Text style={styles.primaryBtnText}>{t('common.imReady')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -1032,23 +2480,23 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
 
   // ===== NEAR RESULTS =====
   if (phase === 'near-results') {
-    const rRating = nearResults.rightEye ? getNearRating(nearResults.rightEye.level) : null;
-    const lRating = nearResults.leftEye ? getNearRating(nearResults.leftEye.level) : null;
+    const rRating = nearResults.rightEye ? getNearRating(nearResults.rightEye) : null;
+    const lRating = nearResults.leftEye ? getNearRating(nearResults.leftEye) : null;
 
     return (
       <View style={styles.screenFlex}>
       <ScrollView style={styles.screen} contentContainerStyle={styles.screenContent}>
         <View style={styles.headerBanner}>
           <Text style={styles.headerEmoji}>📖</Text>
-          <Text style={styles.headerTitle}>Near Vision Results</Text>
-          <Text style={styles.headerSubtitle}>Part 2 Complete</Text>
+          <Text style={styles.headerTitle}>{t('va.nearResults')}</Text>
+          <Text style={styles.headerSubtitle}>{t('va.part2Complete')}</Text>
         </View>
 
         <View style={styles.card}>
           <View style={styles.resultRow}>
-            <Text style={styles.resultEyeLabel}>Right Eye</Text>
+            <Text style={styles.resultEyeLabel}>{t('common.rightEye')}</Text>
             <View style={styles.resultValueBlock}>
-              <Text style={styles.resultAcuity}>{nearResults.rightEye?.level ?? '—'}</Text>
+              <Text style={styles.resultAcuity}>{nearResults.rightEye ? formatNearLevel(nearResults.rightEye) : '—'}</Text>
               {rRating && <Text style={[styles.resultRating, { color: rRating.color }]}>{rRating.label}</Text>}
             </View>
           </View>
@@ -1056,9 +2504,9 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
           <View style={styles.divider} />
 
           <View style={styles.resultRow}>
-            <Text style={styles.resultEyeLabel}>Left Eye</Text>
+            <Text style={styles.resultEyeLabel}>{t('common.leftEye')}</Text>
             <View style={styles.resultValueBlock}>
-              <Text style={styles.resultAcuity}>{nearResults.leftEye?.level ?? '—'}</Text>
+              <Text style={styles.resultAcuity}>{nearResults.leftEye ? formatNearLevel(nearResults.leftEye) : '—'}</Text>
               {lRating && <Text style={[styles.resultRating, { color: lRating.color }]}>{lRating.label}</Text>}
             </View>
           </View>
@@ -1067,30 +2515,63 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
 
       <View style={styles.bottomBtnContainer}>
         <TouchableOpacity style={styles.primaryBtn} onPress={() => setPhase('combined-results')}>
-          <Text style={styles.primaryBtnText}>View Complete Assessment</Text>
+          <Text style={styles.primaryBtnText}>{t('va.viewAssessment')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.ghostBtn} onPress={() => setPhase('reading-speed')}>
+          <Text style={styles.ghostBtnText}>{t(readingSpeed ? 'va.retestReadingSpeed' : 'va.testReadingSpeed')}</Text>
         </TouchableOpacity>
       </View>
       </View>
     );
   }
 
+  // ===== READING SPEED (timed sentences, both eyes) =====
+  if (phase === 'reading-speed') {
+    return (
+      <ReadingSpeedTest
+        onComplete={results => {
+          setReadingSpeed(results);
+          setPhase('combined-results');
+        }}
+        onSkip={() => setPhase('near-results')}
+      />
+    );
+  }
+
   // ===== COMBINED RESULTS =====
   if (phase === 'combined-results') {
-    const diagnosis = interpretResults(distanceResults, nearResults);
+    const diagnosis = interpretResults(distanceResults, nearResults, optotype, age);
+    const isChild = optotype === 'lea';
+    const readingAdd = isChild ? null : estimateReadingAdd(age, distanceResults, nearResults);
+    const who = getWhoCategory(distanceResults, testSpectacles ? spectacleResults : null);
 
-    const allResults = {
+    const allResults: VisualAcuityResults = {
+      optotype,
       distanceVision: distanceResults,
+      spectacleVision: testSpectacles ? spectacleResults : null,
+      binocularVision: binocularResult,
       nearVision: nearResults,
+      age,
+      readingAdd,
+      readingSpeed: isChild ? null : readingSpeed,
       diagnosis,
       testDate: new Date().toISOString(),
       methodology: {
-        distanceTest: '3-metre Snellen chart (DPI-calibrated, face-distance verified)',
-        nearTest: '40 cm Jaeger scale (DPI-calibrated, face-distance verified)',
-        brightnessControl: 'Auto-maxed to 100% during test',
-        letterSet: 'Sloan optotype letters',
-        screenDPI: Math.round(SCREEN_DPI_PHYSICAL),
+        distanceTest: t('va.methodDistance', {
+          chart: getChartName(optotype),
+          strategy: t(THRESHOLD_STRATEGY_LABELS[strategyKind]).toLowerCase(),
+        }),
+        nearTest: t(isChild ? 'va.methodNearChild' : 'va.methodNear'),
+        brightnessControl: t('va.methodBrightness'),
+        letterSet: t(OPTOTYPE_LABELS[optotype]),
+        presentation,
+        screenDPI: Math.round(getPhysicalDpi()),
+        dpPerMm: Math.round(getDpPerMm() * 1000) / 1000,
+        screenCalibrated: getScreenCalibration() !== null,
+        distancePlacement: distancePlacement ?? manualPlacement(DISTANCE_TARGETS.distance.targetCm),
         pixelRatio: PixelRatio.get(),
       },
+      quality: quality.summary(),
     };
 
     return (
@@ -1105,72 +2586,129 @@ export default function VisualAcuityTest({ onComplete, onExit }: Props) {
         {/* Test Methodology */}
         <View style={[styles.card, { backgroundColor: '#E0F7FA' }]}>
           <Text style={{ fontSize: 13, color: '#00695C', lineHeight: 19, textAlign: 'center' }}>
-            📐 Tested at verified distances (camera-calibrated) with auto-max brightness • Snellen 3 m + Jaeger 40 cm
+            {t('va.methodNote')}
+            {isChild ? t('va.methodChild') : t('va.methodCharts', { chart: getChartName(optotype) })}
+            {t(allResults.methodology.screenCalibrated ? 'va.cardCalibrated' : 'va.notCalibrated')}
+            {presentation === 'crowded' ? t('va.crowdedNote') : ''}
+            {distancePlacement?.method === 'steps'
+              ? t(distancePlacement.strideCalibrated ? 'va.placedSteps' : 'va.placedStepsDefault', {
+                  steps: distancePlacement.steps ?? 0,
+                  metres: (distancePlacement.distanceCm / 100).toFixed(1),
+                })
+              : distancePlacement ? t('va.placedManual') : ''}
           </Text>
         </View>
 
         {/* Distance Summary */}
         <View style={styles.card}>
-          <Text style={styles.cardTitle}>📏 Distance Vision (3 m Snellen)</Text>
+          <Text style={styles.cardTitle}>
+            {t('va.distanceSummary', { chart: getChartName(optotype) })}
+          </Text>
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Right Eye:</Text>
+            <Text style={styles.summaryLabel}>{t('common.rightEyeColon')}</Text>
             <Text style={styles.summaryValue}>
               {distanceResults.rightEye?.acuity ?? '—'}
               {distanceResults.rightEye ? ` (${getAcuityRating(distanceResults.rightEye.acuity).label})` : ''}
+              {distanceResults.rightEye ? ` · ${t('common.logMAR', { value: formatLogMAR(distanceResults.rightEye.logMAR) })}` : ''}
             </Text>
           </View>
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Left Eye:</Text>
+            <Text style={styles.summaryLabel}>{t('common.leftEyeColon')}</Text>
             <Text style={styles.summaryValue}>
               {distanceResults.leftEye?.acuity ?? '—'}
               {distanceResults.leftEye ? ` (${getAcuityRating(distanceResults.leftEye.acuity).label})` : ''}
+              {distanceResults.leftEye ? ` · ${t('common.logMAR', { value: formatLogMAR(distanceResults.leftEye.logMAR) })}` : ''}
             </Text>
           </View>
+          {who && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('va.whoColon')}</Text>
+              <Text style={[styles.summaryValue, { color: who.color }]}>
+                {who.category} — {who.label}
+              </Text>
+            </View>
+          )}
         </View>
 
+        {renderConditionSummary()}
+
         {/* Near Summary */}
-        <View style={styles.card}>
-          <Text style={styles.cardTitle}>📖 Near Vision (40 cm Jaeger)</Text>
-          <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Right Eye:</Text>
-            <Text style={styles.summaryValue}>
-              {nearResults.rightEye?.level ?? '—'} ({nearResults.rightEye?.equivalent ?? '—'})
-              {nearResults.rightEye ? ` — ${getNearRating(nearResults.rightEye.level).label}` : ''}
+        {!isChild && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.nearSummary')}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('common.rightEyeColon')}</Text>
+              <Text style={styles.summaryValue}>
+                {nearResults.rightEye ? formatNearLevel(nearResults.rightEye) : '—'} ({nearResults.rightEye?.equivalent ?? '—'})
+                {nearResults.rightEye ? ` — ${getNearRating(nearResults.rightEye).label}` : ''}
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('common.leftEyeColon')}</Text>
+              <Text style={styles.summaryValue}>
+                {nearResults.leftEye ? formatNearLevel(nearResults.leftEye) : '—'} ({nearResults.leftEye?.equivalent ?? '—'})
+                {nearResults.leftEye ? ` — ${getNearRating(nearResults.leftEye).label}` : ''}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Reading glasses */}
+        {readingAdd && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.readingGlasses')}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('va.readingAddColon')}</Text>
+              <Text style={styles.summaryValue}>{formatReadingAdd(readingAdd.add)}</Text>
+            </View>
+            <Text style={styles.bodyText}>
+              {t(READY_MADE_LABELS[readingAdd.readyMade], { add: formatReadingAdd(readingAdd.add) })}
             </Text>
           </View>
-          <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Left Eye:</Text>
-            <Text style={styles.summaryValue}>
-              {nearResults.leftEye?.level ?? '—'} ({nearResults.leftEye?.equivalent ?? '—'})
-              {nearResults.leftEye ? ` — ${getNearRating(nearResults.leftEye.level).label}` : ''}
+        )}
+
+        {/* Reading speed */}
+        {allResults.readingSpeed && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('va.readingSpeed')}</Text>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('va.maxReadingSpeedColon')}</Text>
+              <Text style={styles.summaryValue}>{t('reading.wpm', { wpm: allResults.readingSpeed.maxReadingSpeed })}</Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('va.criticalPrintColon')}</Text>
+              <Text style={styles.summaryValue}>
+                {allResults.readingSpeed.criticalPrintSize !== null ? formatPrintSize(allResults.readingSpeed.criticalPrintSize) : '—'}
+              </Text>
+            </View>
+            <Text style={styles.bodyText}>
+              {t(READING_SPEED_CATEGORY_LABELS[allResults.readingSpeed.category])}
+              {needsLowVisionReferral(allResults.readingSpeed) ? ` ${t('reading.referral')}` : ''}
             </Text>
           </View>
-        </View>
+        )}
 
         {/* Diagnosis */}
         <View style={[styles.card, styles.diagnosisCard]}>
-          <Text style={styles.cardTitle}>Assessment</Text>
+          <Text style={styles.cardTitle}>{t('common.assessment')}</Text>
           <Text style={styles.diagnosisText}>{diagnosis.description}</Text>
           <View style={styles.divider} />
-          <Text style={styles.recommendTitle}>📋 Recommendation</Text>
+          <Text style={styles.recommendTitle}>{t('va.recommendation')}</Text>
           <Text style={styles.recommendText}>{diagnosis.recommendation}</Text>
         </View>
 
         <View style={styles.disclaimer}>
           <Text style={styles.disclaimerText}>
-            ⚠️ This screening is not a substitute for a professional eye examination. 
-            Please visit a qualified optometrist for a comprehensive assessment.
+            {t('va.disclaimer')}
           </Text>
         </View>
       </ScrollView>
 
       <View style={styles.bottomBtnContainer}>
         {onComplete && (
-          <TouchableOpacity style={styles.primaryBtn} onPress={() => {
-            restoreBrightness();
-            onComplete(allResults);
-          }}>
-            <Text style={styles.primaryBtnText}>Done — Save Results</Text>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => onComplete(allResults)}>
+            <Text style={styles.primaryBtnText}>{t('va.save')}</Text>
+
           </TouchableOpacity>
         )}
       </View>
@@ -1339,6 +2877,21 @@ const styles = StyleSheet.create({
   },
 
   // ── Calibration ──
+  cardOutline: {
+    borderWidth: 2,
+    borderColor: '#00ACC1',
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    alignSelf: 'center',
+    marginVertical: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardOutlineText: {
+    color: '#00ACC1',
+    fontSize: 12,
+    textAlign: 'center',
+  },
   calibrationBox: {
     alignItems: 'center',
     marginTop: 20,
@@ -1488,6 +3041,64 @@ const styles = StyleSheet.create({
     color: '#00838F',
     fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
   },
+  arrowPad: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  arrowRow: {
+    flexDirection: 'row',
+    gap: 72,
+  },
+  arrowBtn: {
+    width: 64,
+    height: 56,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#80DEEA',
+  },
+  arrowBtnText: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#00838F',
+  },
+  leaPad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+  },
+  leaBtn: {
+    width: (width - 64) / 2,
+    height: 96,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#80DEEA',
+  },
+  leaBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#00838F',
+    marginTop: 4,
+  },
+  swipeHint: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  crowdedHint: {
+    fontSize: 13,
+    color: '#00838F',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
   cantSeeBtn: {
     marginTop: 10,
     marginHorizontal: 20,
@@ -1502,6 +3113,140 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#C62828',
   },
+  lowVisionNoBtn: {
+    width: '80%',
+    marginHorizontal: 0,
+    marginBottom: 0,
+  },
+  ageInput: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  ageHint: {
+    fontSize: 12,
+    color: '#9E9E9E',
+    marginTop: 8,
+  },
+  remoteInput: {
+    borderWidth: 1,
+    borderColor: '#B2EBF2',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 12,
+    fontSize: 16,
+    color: '#212121',
+    backgroundColor: '#FAFAFA',
+  },
+  remotePairingCard: {
+    alignItems: 'center',
+  },
+  remoteCode: {
+    fontSize: 32,
+    fontWeight: '800',
+    letterSpacing: 6,
+    color: '#006064',
+    marginTop: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Courier-Bold' : 'monospace',
+  },
+  remoteStatus: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#EF6C00',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  remoteStatusPaired: {
+    color: '#2E7D32',
+  },
+  spokenListening: {
+
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#00838F',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  spokenConfirm: {
+    marginHorizontal: 20,
+    marginBottom: 10,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#E0F7FA',
+  },
+  spokenConfirmText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#006064',
+    textAlign: 'center',
+    marginBottom: 10,
+  },
+  spokenConfirmRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  spokenYesBtn: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#2E7D32',
+    alignItems: 'center',
+  },
+  spokenNoBtn: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#C62828',
+    alignItems: 'center',
+  },
+  spokenBtnText: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  renderWarning: {
+    marginHorizontal: 20,
+    marginTop: 6,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: '#FFF3E0',
+  },
+  renderWarningText: {
+    fontSize: 12,
+    color: '#E65100',
+    lineHeight: 17,
+  },
+
+  // ── Chart Type ──
+  optionBtn: {
+    borderWidth: 1.5,
+    borderColor: '#E0E0E0',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionBtnActive: {
+    borderColor: '#00ACC1',
+    backgroundColor: '#E0F7FA',
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#212121',
+    marginBottom: 4,
+  },
+  optionDesc: {
+    fontSize: 13,
+    color: '#616161',
+    lineHeight: 18,
+  },
 
   // ── Near Vision Test ──
   nearTextContainer: {
@@ -1584,6 +3329,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: 2,
   },
+  resultLogMAR: {
+    fontSize: 12,
+    color: '#757575',
+    marginTop: 2,
+  },
 
   // ── Summary Rows ──
   summaryRow: {
@@ -1643,6 +3393,11 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 4,
   },
+  primaryBtnDisabled: {
+    backgroundColor: '#B0BEC5',
+    shadowOpacity: 0,
+    elevation: 0,
+  },
   primaryBtnText: {
     fontSize: 17,
     fontWeight: 'bold',
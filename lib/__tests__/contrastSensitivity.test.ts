@@ -0,0 +1,109 @@
+import {
+  CONTRAST_CEILING,
+  CONTRAST_LEVELS,
+  CS_STEP,
+  SCREEN_LUMINANCE_TABLE,
+  classifyContrast,
+  getNormalLimit,
+  renderContrast,
+  scoreLogCS,
+} from '../contrastSensitivity';
+
+/** Luminance of a CSS colour on an sRGB screen, worked out afresh */
+function luminanceOf(color: string): number {
+  const levels = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+  const linear = levels.map(level => {
+    const c = level / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+}
+
+describe('renderContrast', () => {
+  it('draws full contrast black and no contrast white', () => {
+    expect(renderContrast(1)).toEqual({ color: '#000000', contrast: 1 });
+    expect(renderContrast(0)).toEqual({ color: '#ffffff', contrast: 0 });
+  });
+
+  it('corrects for the sRGB curve rather than scaling the gray level', () => {
+    // Half luminance is near gray level 188, not 128
+    expect(SCREEN_LUMINANCE_TABLE[188]).toBeCloseTo(0.5, 2);
+    const { color, contrast } = renderContrast(0.5);
+    expect(color).toMatch(/^#b[bc]b[bc]b[bc]$/);
+    expect(contrast).toBeCloseTo(0.5, 2);
+  });
+
+  it('reports the contrast its colour really shows', () => {
+    for (const contrast of [0.5, 0.1, 0.02, 0.008]) {
+      const rendered = renderContrast(contrast);
+      expect(rendered.contrast).toBeCloseTo(1 - luminanceOf(rendered.color), 6);
+    }
+  });
+
+  it('steals bits for contrasts finer than one gray level', () => {
+    const { color, contrast } = renderContrast(0.0056);
+    const [r, g, b] = [1, 3, 5].map(i => color.slice(i, i + 2));
+    expect(new Set([r, g, b]).size).toBeGreaterThan(1);
+    expect(Math.abs(contrast - 0.0056)).toBeLessThan(0.001);
+  });
+});
+
+describe('CONTRAST_LEVELS', () => {
+  it('steps down 0.15 log units from 100 % contrast', () => {
+    CONTRAST_LEVELS.forEach((level, i) => expect(level.logCS).toBeCloseTo(i * CS_STEP));
+    expect(CONTRAST_CEILING).toBe(CONTRAST_LEVELS[CONTRAST_LEVELS.length - 1].logCS);
+  });
+
+  it('reaches the faintest triplet on an 8-bit sRGB screen', () => {
+    expect(CONTRAST_CEILING).toBe(2.25);
+  });
+
+  it.each(CONTRAST_LEVELS.map(level => [level.logCS, level]))(
+    'renders logCS %s within half a step of nominal',
+    (logCS, level) => {
+      const shown = -Math.log10(1 - luminanceOf(level.color));
+      expect(Math.abs(shown - logCS)).toBeLessThan(CS_STEP / 2);
+      expect(level.renderedLogCS).toBeCloseTo(shown, 2);
+    },
+  );
+});
+
+describe('scoreLogCS', () => {
+  it.each([
+    [6, 0.15],
+    [9, 0.3],
+    [10, 0.35],
+    [25, 1.1],
+    [48, 2.25],
+  ])('scores %s letters as logCS %s', (letters, logCS) => {
+    expect(scoreLogCS(letters)).toBe(logCS);
+  });
+
+  it('never scores below zero', () => {
+    expect(scoreLogCS(0)).toBe(0);
+    expect(scoreLogCS(2)).toBe(0);
+    expect(scoreLogCS(3)).toBe(0);
+  });
+});
+
+describe('classifyContrast', () => {
+  it.each([
+    [20, 1.65],
+    [49, 1.65],
+    [50, 1.5],
+    [69, 1.5],
+    [70, 1.35],
+    [null, 1.5],
+  ])('sets the normal limit at age %s to logCS %s', (age, limit) => {
+    expect(getNormalLimit(age)).toBe(limit);
+    expect(classifyContrast(limit, age)).toBe('normal');
+    expect(classifyContrast(limit - 0.15, age)).toBe('reduced');
+  });
+
+  it('calls anything below 1.05 severe at every age', () => {
+    for (const age of [25, 60, 80, null]) {
+      expect(classifyContrast(1.05, age)).toBe('reduced');
+      expect(classifyContrast(0.9, age)).toBe('severe');
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { evaluateDistance } from '../distanceService';
+import {
+  AVERAGE_IPD_MM,
+  estimateDistanceCm,
+  focalLengthPx,
+  pixelDistance,
+  type EyeLandmarks,
+} from '../faceDistance';
+
+/**
+ * A still of `width` × `height` with the pupils `ipdPx` apart, centred
+ * and turned `angleDeg` from horizontal — what the face detector
+ * reports for a face in that image.
+ */
+function still(width: number, height: number, ipdPx: number, angleDeg = 0) {
+  const dx = (ipdPx / 2) * Math.cos((angleDeg * Math.PI) / 180);
+  const dy = (ipdPx / 2) * Math.sin((angleDeg * Math.PI) / 180);
+  const landmarks: EyeLandmarks = {
+    rightPupil: { x: width / 2 - dx, y: height / 2 - dy },
+    leftPupil: { x: width / 2 + dx, y: height / 2 + dy },
+  };
+  return { landmarks, width, height };
+}
+
+/** Pupil separation in pixels of an average adult face `distanceCm` from a 67° camera */
+const ipdPxAt = (distanceCm: number, longSidePx: number) =>
+  (focalLengthPx(longSidePx) * AVERAGE_IPD_MM) / (distanceCm * 10);
+
+describe('focalLengthPx', () => {
+  it('puts half the long side at half the field of view', () => {
+    expect(focalLengthPx(640, 90)).toBeCloseTo(320);
+    expect(focalLengthPx(640)).toBeCloseTo(483.5, 1);
+  });
+});
+
+describe('estimateDistanceCm', () => {
+  it('reads 40 cm for a 640 × 480 frame with the pupils 76 px apart', () => {
+    const { landmarks, width, height } = still(640, 480, 76.15);
+    expect(estimateDistanceCm(landmarks, width, height)).toBeCloseTo(40, 1);
+  });
+
+  it('does not depend on which way round the camera returns the frame', () => {
+    const landscape = still(640, 480, 76.15);
+    const portrait = still(480, 640, 76.15, 90);
+    expect(estimateDistanceCm(portrait.landmarks, portrait.width, portrait.height))
+      .toBeCloseTo(estimateDistanceCm(landscape.landmarks, landscape.width, landscape.height) as number, 6);
+  });
+
+  it('does not depend on the frame resolution', () => {
+    for (const [width, height] of [[640, 480], [1280, 720], [1920, 1080]]) {
+      const { landmarks } = still(width, height, ipdPxAt(40, width));
+      expect(estimateDistanceCm(landmarks, width, height)).toBeCloseTo(40, 6);
+    }
+  });
+
+  it('is unaffected by a tilted head or a mirrored frame', () => {
+    const level = still(1280, 720, ipdPxAt(40, 1280));
+    const tilted = still(1280, 720, ipdPxAt(40, 1280), 25);
+    const mirrored: EyeLandmarks = { leftPupil: level.landmarks.rightPupil, rightPupil: level.landmarks.leftPupil };
+    expect(estimateDistanceCm(tilted.landmarks, 1280, 720)).toBeCloseTo(40, 6);
+    expect(estimateDistanceCm(mirrored, 1280, 720)).toBeCloseTo(40, 6);
+  });
+
+  it('scales inversely with the pupil separation', () => {
+    const near = still(640, 480, ipdPxAt(20, 640));
+    const far = still(640, 480, ipdPxAt(80, 640));
+    expect(estimateDistanceCm(near.landmarks, 640, 480)).toBeCloseTo(20, 6);
+    expect(estimateDistanceCm(far.landmarks, 640, 480)).toBeCloseTo(80, 6);
+  });
+
+  it('reads a turned head as further away', () => {
+    const { landmarks } = still(640, 480, ipdPxAt(40, 640) * Math.cos((30 * Math.PI) / 180));
+    expect(estimateDistanceCm(landmarks, 640, 480)).toBeGreaterThan(45);
+  });
+
+  it('uses the given IPD and field of view', () => {
+    const { landmarks } = still(640, 480, 76.15);
+    const child = estimateDistanceCm(landmarks, 640, 480, { ipdMm: 55 }) as number;
+    expect(child).toBeCloseTo((40 * 55) / AVERAGE_IPD_MM, 1);
+    expect(estimateDistanceCm(landmarks, 640, 480, { fovDeg: 90 })).toBeCloseTo((320 * 63) / 76.15 / 10, 6);
+  });
+
+  it('gives up on pupils too close together to measure', () => {
+    const { landmarks } = still(640, 480, 5);
+    expect(estimateDistanceCm(landmarks, 640, 480)).toBeNull();
+    const nan: EyeLandmarks = { leftPupil: { x: NaN, y: 0 }, rightPupil: { x: 0, y: 0 } };
+    expect(estimateDistanceCm(nan, 640, 480)).toBeNull();
+  });
+});
+
+describe('near-test guidance from a still', () => {
+  it.each([
+    [30, 'move_further'],
+    [40, 'hold_still'],
+    [44, 'hold_still'],
+    [60, 'too_far'],
+  ])('a face at %i cm gives "%s"', (distanceCm, instruction) => {
+    const { landmarks, width, height } = still(1280, 720, ipdPxAt(distanceCm, 1280));
+    const estimate = estimateDistanceCm(landmarks, width, height) as number;
+    expect(evaluateDistance(estimate, 'near').instruction).toBe(instruction);
+  });
+});
+
+describe('pixelDistance', () => {
+  it('is the straight-line distance', () => {
+    expect(pixelDistance({ x: 0, y: 0 }, { x: 3, y: 4 })).toBe(5);
+  });
+});
@@ -0,0 +1,127 @@
+import { estimateReadingAdd, nearPointSize } from '../presbyopia';
+import type { DistanceResults, EyeResult, NearEyeResult, NearResults } from '../screeningSession';
+
+/** A distance eye at the given decimal acuity */
+const distanceEye = (decimal: number): EyeResult => ({
+  acuity: `6/${Math.round(6 / decimal)}`,
+  linesRead: 0,
+  decimal,
+  logMAR: Math.round(-Math.log10(decimal) * 100) / 100,
+  lettersCorrect: 0,
+  strategy: 'line-walk',
+  interval: null,
+  lowVision: null,
+  pinhole: null,
+});
+
+/** The near card, largest print first, as `linesRead` counts it */
+const NEAR_CARD = [
+  { level: 'J10', equivalent: 'N36' },
+  { level: 'J8', equivalent: 'N24' },
+  { level: 'J6', equivalent: 'N18' },
+  { level: 'J5', equivalent: 'N12' },
+  { level: 'J3', equivalent: 'N8' },
+];
+
+/** A near eye that read down to `equivalent`, or nothing at all */
+function nearEye(equivalent: string | null): NearEyeResult {
+  if (equivalent === null) return { ...NEAR_CARD[0], linesRead: 0, belowChart: true };
+  const index = NEAR_CARD.findIndex(line => line.equivalent === equivalent);
+  return { ...NEAR_CARD[index], linesRead: index + 1, belowChart: false };
+}
+
+const GOOD_DISTANCE: DistanceResults = { rightEye: distanceEye(1), leftEye: distanceEye(1) };
+const bothNear = (equivalent: string | null): NearResults => ({
+  rightEye: nearEye(equivalent),
+  leftEye: nearEye(equivalent),
+});
+
+describe('nearPointSize', () => {
+  it('reads the N-point size of the smallest line read', () => {
+    expect(nearPointSize(nearEye('N12'))).toBe(12);
+  });
+
+  it('counts a below-card result as larger than any print', () => {
+    expect(nearPointSize(nearEye(null))).toBe(Infinity);
+  });
+});
+
+describe('estimateReadingAdd', () => {
+  it.each([
+    [40, 1.0],
+    [44, 1.0],
+    [45, 1.5],
+    [49, 1.5],
+    [50, 2.0],
+    [54, 2.0],
+    [55, 2.5],
+    [59, 2.5],
+    [60, 3.0],
+    [85, 3.0],
+  ])('gives a %s-year-old reading N12 an add of %s D', (age, add) => {
+    expect(estimateReadingAdd(age, GOOD_DISTANCE, bothNear('N12'))?.add).toBe(add);
+  });
+
+  it('adds another 0.50 D when nothing smaller than N18 is read', () => {
+    expect(estimateReadingAdd(47, GOOD_DISTANCE, bothNear('N18'))?.add).toBe(2.0);
+    expect(estimateReadingAdd(47, GOOD_DISTANCE, bothNear(null))?.add).toBe(2.0);
+  });
+
+  it('caps the add at the strongest ready-made reader', () => {
+    expect(estimateReadingAdd(57, GOOD_DISTANCE, bothNear('N24'))?.add).toBe(3.0);
+    expect(estimateReadingAdd(70, GOOD_DISTANCE, bothNear('N36'))?.add).toBe(3.0);
+  });
+
+  it('goes by the better-reading eye', () => {
+    const near = { rightEye: nearEye('N18'), leftEye: nearEye('N12') };
+    expect(estimateReadingAdd(47, GOOD_DISTANCE, near)?.add).toBe(1.5);
+  });
+
+  it('gives no add under 40 or when the age is unknown', () => {
+    expect(estimateReadingAdd(39, GOOD_DISTANCE, bothNear('N36'))).toBeNull();
+    expect(estimateReadingAdd(null, GOOD_DISTANCE, bothNear('N36'))).toBeNull();
+  });
+
+  it('gives no add when either eye already reads N8', () => {
+    expect(estimateReadingAdd(60, GOOD_DISTANCE, bothNear('N8'))).toBeNull();
+    expect(estimateReadingAdd(60, GOOD_DISTANCE, { rightEye: nearEye('N24'), leftEye: nearEye('N8') })).toBeNull();
+  });
+
+  it('gives no add without a near result', () => {
+    expect(estimateReadingAdd(60, GOOD_DISTANCE, { rightEye: null, leftEye: null })).toBeNull();
+  });
+
+  describe('ready-made readers', () => {
+    it('suit 6/12 or better in each eye with the eyes reading alike', () => {
+      const distance = { rightEye: distanceEye(0.5), leftEye: distanceEye(1) };
+      expect(estimateReadingAdd(50, distance, bothNear('N12'))?.readyMade).toBe('suitable');
+    });
+
+    it('do not suit an eye worse than 6/12 at distance', () => {
+      const distance = { rightEye: distanceEye(1), leftEye: distanceEye(0.4) };
+      expect(estimateReadingAdd(50, distance, bothNear('N12'))?.readyMade).toBe('distance-error');
+    });
+
+    it('are not recommended when a distance eye was not tested', () => {
+      const distance = { rightEye: distanceEye(1), leftEye: null };
+      expect(estimateReadingAdd(50, distance, bothNear('N12'))?.readyMade).toBe('distance-untested');
+      expect(estimateReadingAdd(50, { rightEye: null, leftEye: null }, bothNear('N12'))?.readyMade)
+        .toBe('distance-untested');
+    });
+
+    it('report a distance error before an untested eye', () => {
+      const distance = { rightEye: distanceEye(0.2), leftEye: null };
+      expect(estimateReadingAdd(50, distance, bothNear('N12'))?.readyMade).toBe('distance-error');
+    });
+
+    it('do not suit eyes reading more than two lines apart', () => {
+      const near = { rightEye: nearEye('N12'), leftEye: nearEye(null) };
+      expect(estimateReadingAdd(50, GOOD_DISTANCE, near)?.readyMade).toBe('unequal-eyes');
+    });
+
+    it('suit eyes reading two lines apart', () => {
+      const near = { rightEye: nearEye('N12'), leftEye: nearEye('N24') };
+      expect(estimateReadingAdd(50, GOOD_DISTANCE, near)?.readyMade).toBe('suitable');
+    });
+  });
+});
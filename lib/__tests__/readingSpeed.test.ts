@@ -0,0 +1,100 @@
+import {
+  READING_SENTENCES,
+  needsLowVisionReferral,
+  scoreReadingSpeed,
+  wordsPerMinute,
+} from '../readingSpeed';
+import type { ReadingTrial } from '../screeningSession';
+
+/** Sentences read at these speeds, from the largest print (1.0 logMAR) down */
+const readAt = (speeds: number[], errors: number[] = []): ReadingTrial[] =>
+  speeds.map((wordsPerMinute, i) => ({
+    logMAR: Math.round((1 - i / 10) * 10) / 10,
+    words: 10,
+    errors: errors[i] ?? 0,
+    seconds: 6,
+    wordsPerMinute,
+  }));
+
+describe('wordsPerMinute', () => {
+  // 57 characters in 9 words: 9.5 standard-length words
+  const sentence = READING_SENTENCES.sw[0];
+
+  it('counts a Swahili sentence in six-character standard words', () => {
+    expect(sentence.length).toBe(57);
+    expect(wordsPerMinute(sentence, 6, 0)).toBe(95);
+  });
+
+  it('takes each misread word off its share of the sentence', () => {
+    expect(wordsPerMinute(sentence, 6, 3)).toBe(63);
+  });
+
+  it('gives nothing for a sentence with every word misread or no time taken', () => {
+    expect(wordsPerMinute(sentence, 6, 9)).toBe(0);
+    expect(wordsPerMinute(sentence, 0, 0)).toBe(0);
+  });
+});
+
+describe('scoreReadingSpeed', () => {
+  it('takes the maximum speed as the mean over the plateau', () => {
+    const results = scoreReadingSpeed('en', readAt([100, 120, 110, 70, 40]));
+    // Plateau: within 80 % of 120, so 100, 120 and 110
+    expect(results.maxReadingSpeed).toBe(110);
+    expect(results.category).toBe('fluent');
+  });
+
+  it('puts the critical print size at the smallest print before the first slowdown', () => {
+    const results = scoreReadingSpeed('en', readAt([100, 100, 60, 100, 40]));
+    expect(results.maxReadingSpeed).toBe(100);
+    // 0.7 is read at full speed again, but after 0.8 has slowed down
+    expect(results.criticalPrintSize).toBe(0.9);
+  });
+
+  it('adds a share of a line to the reading acuity for each misread word', () => {
+    const results = scoreReadingSpeed('en', readAt([100, 100, 90, 80, 50], [0, 0, 2, 0, 3]));
+    // Last size read 0.6, plus 0.02 and 0.03 for five words misread out of ten
+    expect(results.readingAcuity).toBeCloseTo(0.65);
+  });
+
+  it('scores a patient who could start no sentence as spot reading with no print size', () => {
+    expect(scoreReadingSpeed('sw', [])).toEqual({
+      language: 'sw',
+      trials: [],
+      maxReadingSpeed: 0,
+      criticalPrintSize: null,
+      readingAcuity: null,
+      category: 'spot',
+    });
+  });
+
+  it('grades the maximum speed as fluent, slow or spot reading', () => {
+    expect(scoreReadingSpeed('en', readAt([80])).category).toBe('fluent');
+    expect(scoreReadingSpeed('en', readAt([79])).category).toBe('slow');
+    expect(scoreReadingSpeed('en', readAt([40])).category).toBe('slow');
+    expect(scoreReadingSpeed('en', readAt([39])).category).toBe('spot');
+  });
+});
+
+describe('needsLowVisionReferral', () => {
+  // `sentences` read at full speed from 1.0 logMAR, then one read slowly
+  const fullSpeedFor = (sentences: number) => readAt([...Array(sentences).fill(100), 50]);
+
+  it('does not refer fluent reading of newspaper print', () => {
+    // Full speed down to 0.4 logMAR, newspaper print
+    expect(needsLowVisionReferral(scoreReadingSpeed('en', fullSpeedFor(7)))).toBe(false);
+  });
+
+  it('refers fluent reading that needs print larger than a newspaper', () => {
+    expect(needsLowVisionReferral(scoreReadingSpeed('en', fullSpeedFor(6)))).toBe(true);
+  });
+
+  it('refers reading too slow to sustain', () => {
+    const results = scoreReadingSpeed('en', readAt([70, 70, 70, 70, 70, 70, 70, 70]));
+    expect(results.criticalPrintSize).toBe(0.3);
+    expect(needsLowVisionReferral(results)).toBe(true);
+  });
+
+  it('refers a patient who could start no sentence', () => {
+    expect(needsLowVisionReferral(scoreReadingSpeed('en', []))).toBe(true);
+  });
+});
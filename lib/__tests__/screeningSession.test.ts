@@ -0,0 +1,68 @@
+import { SCREENING_SESSION_SCHEMA_VERSION, migrateSession, type ScreeningSession } from '../screeningSession';
+
+/** A version 1 record as `saveSession` stores it */
+const V1_RECORD: ScreeningSession = {
+  schemaVersion: 1,
+  id: 'm1abc-x7y8z9',
+  createdAt: '2026-03-14T09:30:00.000Z',
+  source: 'color-vision',
+  patientLabel: 'Amina J.',
+  age: 52,
+  visualAcuity: null,
+  colorVision: null,
+  astigmatism: null,
+  amsler: null,
+  contrastSensitivity: null,
+  reliability: null,
+  device: {
+    platform: 'android',
+    osVersion: '14',
+    appVersion: '1.0.0',
+    screenWidth: 411,
+    screenHeight: 914,
+    pixelRatio: 2.625,
+    fontScale: 1,
+  },
+};
+
+/** The stored form: what comes back out of JSON */
+const stored = (record: object): unknown => JSON.parse(JSON.stringify(record));
+
+describe('migrateSession', () => {
+  it('reads a version 1 record unchanged', () => {
+    expect(migrateSession(stored(V1_RECORD))).toEqual(V1_RECORD);
+  });
+
+  it('is at version 1, so a schema bump must come with a migration and a test here', () => {
+    expect(SCREENING_SESSION_SCHEMA_VERSION).toBe(1);
+  });
+
+  it('drops a record from a newer app version', () => {
+    expect(migrateSession(stored({ ...V1_RECORD, schemaVersion: SCREENING_SESSION_SCHEMA_VERSION + 1 }))).toBeNull();
+  });
+
+  it('drops a record with no migration path to the current version', () => {
+    const { schemaVersion: _, ...unversioned } = V1_RECORD;
+    expect(migrateSession(stored(unversioned))).toBeNull();
+    expect(migrateSession(stored({ ...V1_RECORD, schemaVersion: 0 }))).toBeNull();
+    expect(migrateSession(stored({ ...V1_RECORD, schemaVersion: '1' }))).toBeNull();
+  });
+
+  it.each([
+    ['null', null],
+    ['a string', 'm1abc-x7y8z9'],
+    ['a number', 1],
+    ['an array', [V1_RECORD]],
+  ])('drops a record that is %s', (_, raw) => {
+    expect(migrateSession(raw)).toBeNull();
+  });
+
+  it('drops a record without a string id or creation time', () => {
+    const { id: _id, ...noId } = V1_RECORD;
+    const { createdAt: _createdAt, ...noCreatedAt } = V1_RECORD;
+    expect(migrateSession(stored(noId))).toBeNull();
+    expect(migrateSession(stored(noCreatedAt))).toBeNull();
+    expect(migrateSession(stored({ ...V1_RECORD, id: 42 }))).toBeNull();
+    expect(migrateSession(stored({ ...V1_RECORD, createdAt: null }))).toBeNull();
+  });
+});
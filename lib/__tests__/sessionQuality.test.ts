@@ -0,0 +1,156 @@
+import { getQualityIssues, gradeReliability } from '../sessionQuality';
+import type {
+  AmslerResults,
+  AstigmatismResults,
+  ColorVisionResults,
+  ContrastSensitivityResults,
+  EyeAstigmatismResult,
+  ScreeningSession,
+  TestQuality,
+  VisualAcuityResults,
+} from '../screeningSession';
+
+/** A cleanly run test, with `changes` spoiling it */
+const quality = (changes: Partial<TestQuality> = {}): TestQuality => ({
+  responses: { answers: 20, medianMs: 1500, fastAnswers: 0, slowAnswers: 0 },
+  brightnessLocked: true,
+  skippedCalibrations: [],
+  maxTiltDeg: 5,
+  tiltedFraction: 0,
+  backPresses: 0,
+  ambientLight: { lux: 300, status: 'ok' },
+  ...changes,
+});
+
+const answers = (fastAnswers: number, slowAnswers: number) => ({
+  responses: { answers: 20, medianMs: 1500, fastAnswers, slowAnswers },
+});
+
+type Tests = Pick<ScreeningSession, 'visualAcuity' | 'contrastSensitivity' | 'colorVision' | 'astigmatism' | 'amsler'>;
+
+const NO_TESTS: Tests = {
+  visualAcuity: null,
+  contrastSensitivity: null,
+  colorVision: null,
+  astigmatism: null,
+  amsler: null,
+};
+
+// Grading reads only `quality` and the astigmatism eyes' `consistent`
+const acuityRun = (q: TestQuality) => ({ quality: q }) as VisualAcuityResults;
+const colorRun = (q: TestQuality) => ({ quality: q }) as ColorVisionResults;
+const contrastRun = (q: TestQuality | null) => ({ quality: q }) as ContrastSensitivityResults;
+const amslerRun = (q: TestQuality | null) => ({ quality: q }) as AmslerResults;
+const astigmatismEye = (consistent: boolean) => ({ consistent }) as EyeAstigmatismResult;
+const astigmatismRun = (q: TestQuality, right: boolean, left: boolean | null) =>
+  ({
+    rightEye: astigmatismEye(right),
+    leftEye: left === null ? null : astigmatismEye(left),
+    quality: q,
+  }) as AstigmatismResults;
+
+describe('getQualityIssues', () => {
+  it('finds nothing in a cleanly run test', () => {
+    expect(getQualityIssues(quality())).toEqual([]);
+  });
+
+  it.each([
+    ['fast-answers', answers(5, 0), answers(4, 0)],
+    ['slow-answers', answers(0, 6), answers(0, 5)],
+    ['brightness-unlocked', { brightnessLocked: false }, { brightnessLocked: null }],
+    ['calibration-skipped', { skippedCalibrations: ['distance' as const] }, { skippedCalibrations: [] }],
+    ['tilted', { tiltedFraction: 0.25 }, { tiltedFraction: 0.2 }],
+    ['back-presses', { backPresses: 3 }, { backPresses: 2 }],
+    ['lighting', { ambientLight: { lux: 20, status: 'too-dark' as const } }, { ambientLight: null }],
+  ])('flags %s only past its limit', (issue, over, within) => {
+    expect(getQualityIssues(quality(over))).toEqual([issue]);
+    expect(getQualityIssues(quality(within))).toEqual([]);
+  });
+
+  it('does not judge answer times when nothing was answered', () => {
+    const unanswered = { responses: { answers: 0, medianMs: null, fastAnswers: 0, slowAnswers: 0 } };
+    expect(getQualityIssues(quality(unanswered))).toEqual([]);
+  });
+
+  it('does not judge tilt without an accelerometer', () => {
+    expect(getQualityIssues(quality({ maxTiltDeg: null, tiltedFraction: null }))).toEqual([]);
+  });
+});
+
+describe('gradeReliability', () => {
+  it('grades a cleanly run session good', () => {
+    const session = { ...NO_TESTS, visualAcuity: acuityRun(quality()), colorVision: colorRun(quality()) };
+    expect(gradeReliability(session)).toEqual({ grade: 'good', issues: [] });
+  });
+
+  it.each([
+    ['fast-answers', answers(10, 0), 'fair'],
+    ['tilted', { tiltedFraction: 0.5 }, 'fair'],
+    ['slow-answers', answers(0, 10), 'fair'],
+    ['brightness-unlocked', { brightnessLocked: false }, 'fair'],
+    ['calibration-skipped', { skippedCalibrations: ['screen' as const] }, 'fair'],
+    ['back-presses', { backPresses: 5 }, 'fair'],
+    ['lighting', { ambientLight: { lux: 5000, status: 'too-bright' as const } }, 'fair'],
+  ])('grades %s on its own %s', (issue, changes, grade) => {
+    const session = { ...NO_TESTS, visualAcuity: acuityRun(quality(changes)) };
+    expect(gradeReliability(session)).toEqual({ grade, issues: [issue] });
+  });
+
+  it('grades an inconsistent astigmatism repeat like a corrupted answer', () => {
+    const session = { ...NO_TESTS, astigmatism: astigmatismRun(quality(), true, false) };
+    expect(gradeReliability(session)).toEqual({ grade: 'fair', issues: ['inconsistent'] });
+  });
+
+  it('adds up issue weights across the tests: up to 2 is fair, above is poor', () => {
+    const twoMinor = {
+      ...NO_TESTS,
+      visualAcuity: acuityRun(quality({ backPresses: 3 })),
+      colorVision: colorRun(quality({ brightnessLocked: false })),
+    };
+    expect(gradeReliability(twoMinor)?.grade).toBe('fair');
+
+    const majorAndMinor = { ...twoMinor, contrastSensitivity: contrastRun(quality(answers(10, 0))) };
+    expect(gradeReliability(majorAndMinor)).toEqual({
+      grade: 'poor',
+      issues: ['back-presses', 'fast-answers', 'brightness-unlocked'],
+    });
+  });
+
+  it('counts an issue once however many tests share it', () => {
+    const session = {
+      ...NO_TESTS,
+      visualAcuity: acuityRun(quality({ brightnessLocked: false })),
+      colorVision: colorRun(quality({ brightnessLocked: false })),
+      amsler: amslerRun(quality({ brightnessLocked: false })),
+    };
+    expect(gradeReliability(session)).toEqual({ grade: 'fair', issues: ['brightness-unlocked'] });
+  });
+
+  it('grades only the tests that were run', () => {
+    const session = { ...NO_TESTS, colorVision: colorRun(quality()) };
+    expect(gradeReliability(session)).toEqual({ grade: 'good', issues: [] });
+  });
+
+  it('ignores an astigmatism eye that was not tested', () => {
+    const session = { ...NO_TESTS, astigmatism: astigmatismRun(quality(), true, null) };
+    expect(gradeReliability(session)).toEqual({ grade: 'good', issues: [] });
+  });
+
+  it('grades on the instrumented tests when others have no quality record', () => {
+    const session = {
+      ...NO_TESTS,
+      contrastSensitivity: contrastRun(null),
+      amsler: amslerRun(null),
+      colorVision: colorRun(quality({ backPresses: 4 })),
+    };
+    expect(gradeReliability(session)).toEqual({ grade: 'fair', issues: ['back-presses'] });
+  });
+
+  it('gives no grade when every test was skipped', () => {
+    expect(gradeReliability(NO_TESTS)).toBeNull();
+  });
+
+  it('gives no grade when no test run was instrumented', () => {
+    expect(gradeReliability({ ...NO_TESTS, contrastSensitivity: contrastRun(null), amsler: amslerRun(null) })).toBeNull();
+  });
+});
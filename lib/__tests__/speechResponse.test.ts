@@ -0,0 +1,61 @@
+import {
+  CANT_SEE,
+  CONFIRM_THRESHOLD,
+  E_VOCABULARY,
+  LEA_VOCABULARY,
+  matchSpokenAnswer,
+  SLOAN_VOCABULARY,
+} from '../speechResponse';
+
+// i18n keeps the chosen language in AsyncStorage, which has no native module under jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+/** Every letter on the distance chart (DISTANCE_TEST_LINES in VisualAcuityTest) */
+const CHART_LETTERS = ['C', 'D', 'E', 'F', 'H', 'K', 'N', 'O', 'P', 'Z'];
+
+const heard = (text: string, confidence = 0.9) => [{ text, confidence }];
+
+describe('matchSpokenAnswer', () => {
+  it.each(CHART_LETTERS)('scores every spoken form of %s as that letter', letter => {
+    expect(SLOAN_VOCABULARY[letter]).toBeDefined();
+    for (const form of SLOAN_VOCABULARY[letter]) {
+      expect(matchSpokenAnswer(heard(form), SLOAN_VOCABULARY)?.answer).toBe(letter);
+    }
+  });
+
+  it('scores a clearly named letter without asking to confirm', () => {
+    const match = matchSpokenAnswer(heard("it's an eff"), SLOAN_VOCABULARY);
+    expect(match?.answer).toBe('F');
+    expect(match!.confidence).toBeGreaterThanOrEqual(CONFIRM_THRESHOLD);
+  });
+
+  it('asks to confirm an easily misheard form', () => {
+    const match = matchSpokenAnswer(heard('i'), SLOAN_VOCABULARY);
+    expect(match?.answer).toBe('E');
+    expect(match!.confidence).toBeLessThan(CONFIRM_THRESHOLD);
+  });
+
+  it.each([
+    ['juu', 'up'],
+    ['chini', 'down'],
+    ['kushoto', 'left'],
+    ['kulia', 'right'],
+  ])('scores the Swahili direction "%s" as %s', (word, direction) => {
+    expect(matchSpokenAnswer(heard(word), E_VOCABULARY)?.answer).toBe(direction);
+  });
+
+  it('scores Swahili picture names', () => {
+    expect(matchSpokenAnswer(heard('nyumba'), LEA_VOCABULARY)?.answer).toBe('house');
+    expect(matchSpokenAnswer(heard('mpira'), LEA_VOCABULARY)?.answer).toBe('circle');
+  });
+
+  it.each(["I can't see", 'siwezi kuona', 'sioni'])('hears "%s" as cannot see', phrase => {
+    expect(matchSpokenAnswer(heard(phrase), SLOAN_VOCABULARY)?.answer).toBe(CANT_SEE);
+  });
+
+  it('returns null when no answer is named', () => {
+    expect(matchSpokenAnswer(heard('hello'), SLOAN_VOCABULARY)).toBeNull();
+  });
+});
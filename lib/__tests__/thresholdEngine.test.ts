@@ -0,0 +1,130 @@
+import {
+  createThresholdStrategy,
+  type ThresholdLevel,
+  type ThresholdStrategy,
+  type Trial,
+  type TrialOutcome,
+} from '../thresholdEngine';
+
+/** The distance chart: 6/60 down to 6/3, with its letters per line */
+const LEVELS: ThresholdLevel[] = [
+  { logMAR: 1.0, letters: 1 },   // 6/60
+  { logMAR: 0.78, letters: 2 },  // 6/36
+  { logMAR: 0.6, letters: 3 },   // 6/24
+  { logMAR: 0.48, letters: 4 },  // 6/18
+  { logMAR: 0.3, letters: 5 },   // 6/12
+  { logMAR: 0.18, letters: 6 },  // 6/9
+  { logMAR: 0.1, letters: 7 },   // 6/7.5
+  { logMAR: 0, letters: 8 },     // 6/6
+  { logMAR: -0.1, letters: 8 },  // 6/4.8
+  { logMAR: -0.3, letters: 8 },  // 6/3
+];
+
+/** Answer every trial the strategy asks for until it stops. */
+function run(strategy: ThresholdStrategy, answer: (trial: Trial) => TrialOutcome) {
+  for (let shown = 0; shown < 200; shown++) {
+    const trial = strategy.next();
+    if (!trial) return strategy.estimate();
+    strategy.record(trial, answer(trial));
+  }
+  throw new Error('strategy never stopped');
+}
+
+/** Line walk answers from a script per line: 'c' correct, 'x' incorrect */
+const scripted = (lines: string[]) => (trial: Trial): TrialOutcome =>
+  lines[trial.level]?.[trial.position] === 'c' ? 'correct' : 'incorrect';
+
+describe('line walk', () => {
+  it('credits 0.02 logMAR per letter read on the line below', () => {
+    const estimate = run(
+      createThresholdStrategy('line-walk', LEVELS),
+      scripted(['c', 'cc', 'ccc', 'cccc', 'ccccc', 'cccccc', 'ccxx']),
+    );
+    expect(estimate.bestLevel).toBe(5);
+    expect(estimate.logMAR).toBeCloseTo(0.14);
+    expect(estimate.interval).toEqual({ lower: 0.1, upper: 0.3 });
+  });
+
+  it('takes 0.02 logMAR off for each letter missed on the line passed', () => {
+    const estimate = run(
+      createThresholdStrategy('line-walk', LEVELS),
+      scripted(['c', 'cc', 'ccc', 'cccc', 'ccccc', 'cxcccc', 'xx']),
+    );
+    expect(estimate.bestLevel).toBe(5);
+    expect(estimate.logMAR).toBeCloseTo(0.2);
+  });
+
+  it('never scores past the next line down', () => {
+    const estimate = run(
+      createThresholdStrategy('line-walk', LEVELS),
+      scripted(['c', 'cc', 'ccc', 'cccc', 'ccccc', 'cccccc', 'ccccccc', 'ccccccxx']),
+    );
+    expect(estimate.bestLevel).toBe(6);
+    expect(estimate.logMAR).toBeCloseTo(0);
+  });
+
+  it('reports worse than the chart when the top line is missed', () => {
+    const estimate = run(createThresholdStrategy('line-walk', LEVELS), () => 'incorrect');
+    expect(estimate.bestLevel).toBe(-1);
+    expect(estimate.logMAR).toBeCloseTo(1.3);
+  });
+
+  it('credits the 6/3 line when every letter is read', () => {
+    const estimate = run(createThresholdStrategy('line-walk', LEVELS), () => 'correct');
+    expect(estimate.bestLevel).toBe(LEVELS.length - 1);
+    expect(estimate.logMAR).toBeCloseTo(-0.3);
+  });
+});
+
+/** A patient who reads every letter at or above `threshold` and none below it */
+const sharpObserver = (threshold: number) => (trial: Trial): TrialOutcome =>
+  LEVELS[trial.level].logMAR >= threshold - 0.005 ? 'correct' : 'incorrect';
+
+/**
+ * A patient who guesses: letters well above `threshold` are nearly
+ * always read, letters well below it are right one time in four.
+ * Seeded so every run sees the same answers.
+ */
+function noisyObserver(threshold: number, seed: number) {
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  return (trial: Trial): TrialOutcome => {
+    const p = 0.25 + 0.73 / (1 + Math.exp(-(LEVELS[trial.level].logMAR - threshold) / 0.05));
+    return random() < p ? 'correct' : 'incorrect';
+  };
+}
+
+describe.each([
+  ['staircase', 30],
+  ['quest', 25],
+] as const)('%s', (kind, maxTrials) => {
+  it.each([0.6, 0.3, 0.1])('converges on a true threshold of %s logMAR', threshold => {
+    const estimate = run(createThresholdStrategy(kind, LEVELS), sharpObserver(threshold));
+    expect(Math.abs(estimate.logMAR - threshold)).toBeLessThanOrEqual(0.12);
+    expect(estimate.trials).toBeLessThanOrEqual(maxTrials);
+  });
+
+  it.each([1, 2, 3, 4, 5])('stops within the trial limit for a guessing patient (seed %s)', seed => {
+    const estimate = run(createThresholdStrategy(kind, LEVELS), noisyObserver(0.3, seed));
+    expect(estimate.trials).toBeLessThanOrEqual(maxTrials);
+    expect(Math.abs(estimate.logMAR - 0.3)).toBeLessThanOrEqual(0.25);
+  });
+
+  it('reports worse than 6/60 when nothing is read', () => {
+    const estimate = run(createThresholdStrategy(kind, LEVELS), () => 'incorrect');
+    expect(estimate.bestLevel).toBe(-1);
+    expect(estimate.logMAR).toBeGreaterThan(LEVELS[0].logMAR);
+    expect(estimate.logMAR).toBeLessThanOrEqual(1.3);
+    expect(estimate.trials).toBeLessThanOrEqual(maxTrials);
+  });
+
+  it('credits the 6/3 line when everything is read', () => {
+    const estimate = run(createThresholdStrategy(kind, LEVELS), () => 'correct');
+    expect(estimate.bestLevel).toBe(LEVELS.length - 1);
+    expect(estimate.logMAR).toBeLessThanOrEqual(-0.3);
+    expect(estimate.trials).toBeLessThanOrEqual(maxTrials);
+  });
+});
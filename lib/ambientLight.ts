@@ -0,0 +1,101 @@
+/**
+ * ambientLight.ts
+ * ----------------
+ * Room-lighting check before the acuity, contrast and colour tests,
+ * from the device's ambient light sensor.
+ *
+ * Clinical charts are read under standardised lighting; our clinics
+ * and homes range from a dim hut to a sunlit doorway.  Too dark and
+ * the patient's pupils dilate, blurring acuity, and colour judgement
+ * fades.  Too bright and glare washes out the screen's contrast.
+ *
+ * ─── Limits ─────────────────────────────────────────────────────
+ * `AMBIENT_LIGHT_LIMITS` holds each test's range in lux.  Colour
+ * plates need a well-lit room (ordinary indoor lighting is about
+ * 300–500 lux); acuity tolerates a dimmer one.  Above a few thousand
+ * lux — outdoors, or sun on the screen — all are washed out, and the
+ * faint contrast letters go first, so that test stops at 2000 lux.
+ *
+ * ─── Availability ───────────────────────────────────────────────
+ * Only Android exposes the light sensor.  Elsewhere `useAmbientLight`
+ * reports it unavailable and the check falls back to advice.
+ */
+
+import { LightSensor } from 'expo-sensors';
+import { useEffect, useState } from 'react';
+
+import type { TranslationKey } from './i18n';
+import type { AmbientLightReading, AmbientLightStatus } from './screeningSession';
+import { median } from './stats';
+
+// ─── Limits ──────────────────────────────────────────────────────────
+
+export type AmbientLightTest = 'visualAcuity' | 'contrastSensitivity' | 'colorVision';
+
+export interface AmbientLightLimits {
+  minLux: number;
+  maxLux: number;
+}
+
+export const AMBIENT_LIGHT_LIMITS: Record<AmbientLightTest, AmbientLightLimits> = {
+  visualAcuity: { minLux: 80, maxLux: 5000 },
+  contrastSensitivity: { minLux: 80, maxLux: 2000 },
+  colorVision: { minLux: 300, maxLux: 5000 },
+};
+
+export const AMBIENT_LIGHT_STATUS_LABELS: Record<AmbientLightStatus, TranslationKey> = {
+  'too-dark': 'light.tooDark',
+  'ok': 'light.ok',
+  'too-bright': 'light.tooBright',
+};
+
+// Readings are the median of the last few, so a passing shadow does not flip the warning
+const SMOOTHING_WINDOW = 5;
+const SAMPLE_INTERVAL_MS = 500;
+
+// ─── Classification ──────────────────────────────────────────────────
+
+export function classifyAmbientLight(lux: number, test: AmbientLightTest): AmbientLightStatus {
+  const { minLux, maxLux } = AMBIENT_LIGHT_LIMITS[test];
+  if (lux < minLux) return 'too-dark';
+  if (lux > maxLux) return 'too-bright';
+  return 'ok';
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+export interface AmbientLight {
+  /** Smoothed reading, or `null` until the sensor has reported */
+  reading: AmbientLightReading | null;
+  /** `false` if the device has no light sensor; `null` while checking */
+  available: boolean | null;
+}
+
+/** Live room lighting, classified against `test`'s limits. */
+export function useAmbientLight(test: AmbientLightTest): AmbientLight {
+  const [reading, setReading] = useState<AmbientLightReading | null>(null);
+  const [available, setAvailable] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    LightSensor.isAvailableAsync()
+      .then(setAvailable)
+      .catch(() => setAvailable(false));
+  }, []);
+
+  useEffect(() => {
+    if (!available) return;
+    const recent: number[] = [];
+    LightSensor.setUpdateInterval(SAMPLE_INTERVAL_MS);
+    const subscription = LightSensor.addListener(({ illuminance }) => {
+      recent.push(illuminance);
+      if (recent.length > SMOOTHING_WINDOW) recent.shift();
+      const lux = Math.round(median(recent) as number);
+      setReading(prev =>
+        prev?.lux === lux ? prev : { lux, status: classifyAmbientLight(lux, test) },
+      );
+    });
+    return () => subscription.remove();
+  }, [available, test]);
+
+  return { reading, available };
+}
@@ -1,55 +1,186 @@
 /**
  * brightnessService.ts
  * ---------------------
- * Locks screen brightness to 100 % before vision tests begin and
- * restores the user's original brightness when the test ends.
+ * Holds screen brightness at a fixed level while a vision test is on
+ * screen and restores the user's original brightness when it ends.
  *
  * ─── Why this matters ───────────────────────────────────────────
  * Low screen brightness reduces contrast of Snellen letters, making
  * them harder to read and artificially worsening acuity scores.
  * Clinical light-boxes run at a standardised 120 cd/m². We can't
- * control cd/m² on every phone, but maxing the backlight gets us
- * as close as possible to repeatable contrast conditions.
+ * control cd/m² on every phone, but a fixed backlight gets us as
+ * close as possible to repeatable contrast conditions.
+ *
+ * ─── Policies ───────────────────────────────────────────────────
+ * Each test has its own level (`BRIGHTNESS_POLICIES`).  Acuity,
+ * contrast sensitivity, astigmatism and the Amsler grid want maximum
+ * contrast — the faintest contrast triplets are lost in a dim screen's
+ * reflections; colour
+ * plates are designed for daylight viewing, and a saturated backlight
+ * washes out the confusion colours, so they run lower.
+ *
+ * ─── Restoring ──────────────────────────────────────────────────
+ * On iOS the level set is the system brightness, so a phone left at
+ * 100 % after a test stays there.  The original level is therefore
+ *   • written to storage before the first change, so a crash or a
+ *     kill mid-test is undone by `recoverBrightness()` at next launch
+ *   • restored whenever the app leaves the foreground, and the test's
+ *     level re-applied when it returns
+ *   • restored when the test using `useBrightnessPolicy()` unmounts
+ * Changes run one at a time, so a restore from one test always lands
+ * before the next test reads the "original" level.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Brightness from 'expo-brightness';
-import { Platform } from 'react-native';
+import { useEffect, useRef } from 'react';
+import { AppState, Platform, type AppStateStatus } from 'react-native';
+
+const STORAGE_KEY = '@visioncheck/original-brightness';
+
+// ─── Policies ────────────────────────────────────────────────────────
+
+export interface BrightnessPolicy {
+  /** Backlight level, 0–1, held while the test is on screen */
+  level: number;
+}
+
+export type BrightnessTest =
+  | 'visualAcuity'
+  | 'contrastSensitivity'
+  | 'colorVision'
+  | 'astigmatism'
+  | 'amsler';
+
+export const BRIGHTNESS_POLICIES: Record<BrightnessTest, BrightnessPolicy> = {
+  visualAcuity: { level: 1.0 },
+  contrastSensitivity: { level: 1.0 },
+  colorVision: { level: 0.7 },
+  astigmatism: { level: 1.0 },
+  amsler: { level: 1.0 },
+};
+
+// ─── State ───────────────────────────────────────────────────────────
 
 let _originalBrightness: number | null = null;
+let _activePolicy: BrightnessPolicy | null = null;
+let _appStateSubscription: { remove: () => void } | null = null;
+let _queue: Promise<unknown> = Promise.resolve();
+
+/** Run brightness changes one after another, in call order. */
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = _queue.then(task);
+  _queue = run.catch(() => undefined);
+  return run;
+}
+
+async function setLevel(level: number): Promise<void> {
+  await Brightness.setBrightnessAsync(level);
+}
+
+function handleAppStateChange(state: AppStateStatus) {
+  enqueue(async () => {
+    try {
+      if (state === 'active') {
+        if (_activePolicy) await setLevel(_activePolicy.level);
+      } else if (_originalBrightness !== null) {
+        await setLevel(_originalBrightness);
+      }
+    } catch (err) {
+      console.warn('[Brightness] Could not follow app state:', err);
+    }
+  });
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
 
 /**
- * Save the current brightness and push it to 100 %.
- * Returns `true` if brightness was successfully locked.
+ * Save the current brightness (once, until restored) and hold the
+ * screen at `policy`'s level.  Returns `true` if the level was set.
  */
-export async function lockMaxBrightness(): Promise<boolean> {
-  try {
-    if (Platform.OS === 'android') {
-      const { status } = await Brightness.requestPermissionsAsync();
-      if (status !== 'granted') {
-        console.warn('[Brightness] Permission denied');
-        return false;
+export function applyBrightness(policy: BrightnessPolicy): Promise<boolean> {
+  return enqueue(async () => {
+    try {
+      if (Platform.OS === 'android') {
+        const { status } = await Brightness.requestPermissionsAsync();
+        if (status !== 'granted') {
+          console.warn('[Brightness] Permission denied');
+          return false;
+        }
+      }
+
+      if (_originalBrightness === null) {
+        _originalBrightness = await Brightness.getBrightnessAsync();
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(_originalBrightness));
       }
+      _appStateSubscription ??= AppState.addEventListener('change', handleAppStateChange);
+
+      _activePolicy = policy;
+      await setLevel(policy.level);
+      return true;
+    } catch (err) {
+      console.warn('[Brightness] Could not apply:', err);
+      return false;
     }
+  });
+}
 
-    _originalBrightness = await Brightness.getBrightnessAsync();
-    await Brightness.setBrightnessAsync(1.0);
-    return true;
-  } catch (err) {
-    console.warn('[Brightness] Could not lock:', err);
-    return false;
-  }
+/**
+ * Restore the brightness that was active before `applyBrightness()`
+ * and stop following the app state.
+ */
+export function restoreBrightness(): Promise<void> {
+  return enqueue(async () => {
+    _activePolicy = null;
+    _appStateSubscription?.remove();
+    _appStateSubscription = null;
+    try {
+      if (_originalBrightness !== null) {
+        await setLevel(_originalBrightness);
+        _originalBrightness = null;
+        await AsyncStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (err) {
+      console.warn('[Brightness] Could not restore:', err);
+    }
+  });
 }
 
 /**
- * Restore the brightness that was active before `lockMaxBrightness()`.
+ * Undo a brightness change left behind by a crash or a killed app.
+ * Call once at startup.
  */
-export async function restoreBrightness(): Promise<void> {
-  try {
-    if (_originalBrightness !== null) {
-      await Brightness.setBrightnessAsync(_originalBrightness);
-      _originalBrightness = null;
+export function recoverBrightness(): Promise<void> {
+  return enqueue(async () => {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (raw === null || _originalBrightness !== null) return;
+      const stored = JSON.parse(raw);
+      if (typeof stored === 'number') await setLevel(stored);
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (err) {
+      console.warn('[Brightness] Could not recover:', err);
     }
-  } catch (err) {
-    console.warn('[Brightness] Could not restore:', err);
-  }
+  });
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+/**
+ * Hold `policy`'s brightness while it is non-null, restoring the
+ * original when it becomes `null` or the caller unmounts.  `onApplied`
+ * hears whether the level could be set.
+ */
+export function useBrightnessPolicy(
+  policy: BrightnessPolicy | null,
+  onApplied?: (applied: boolean) => void,
+): void {
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  useEffect(() => {
+    if (!policy) return;
+    applyBrightness(policy).then(applied => onAppliedRef.current?.(applied));
+    return () => { restoreBrightness(); };
+  }, [policy]);
 }
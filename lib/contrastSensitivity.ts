@@ -0,0 +1,173 @@
+/**
+ * contrastSensitivity.ts
+ * -----------------------
+ * Display correction, scoring and age norms for the Pelli-Robson
+ * style contrast sensitivity test.
+ *
+ * Acuity is measured with black letters on white; early cataract,
+ * glaucoma and diabetic retinopathy first show as trouble seeing
+ * large letters at low contrast.  The chart shows Sloan letter
+ * triplets whose contrast falls by 0.15 log units each step, from
+ * 100 % (logCS 0.00) to 0.56 % (logCS 2.25).
+ *
+ * ─── Display correction ─────────────────────────────────────────
+ * A letter of Weber contrast C on a white background must have 1 − C
+ * of white's luminance.  Phones render colours through the sRGB
+ * transfer curve (about gamma 2.2), so that is not gray level
+ * 255 × (1 − C): `SCREEN_LUMINANCE_TABLE` maps each 8-bit level to
+ * its relative luminance and the letter colour is looked up from it.
+ * Near white one gray level is about 0.9 % contrast — too coarse for
+ * the faintest triplets — so each colour channel may sit one level
+ * above the others ("bit stealing"), giving steps about a tenth as
+ * large with no visible tint.
+ *
+ * ─── Scoring ────────────────────────────────────────────────────
+ * Letter by letter: every correct letter is worth 0.05 log units,
+ * less the 0.15 of the first triplet (logCS = 0.05 × correct − 0.15).
+ * A triplet is failed when fewer than two of its letters are named,
+ * and the test stops there.
+ *
+ * ─── Norms ──────────────────────────────────────────────────────
+ * Contrast sensitivity falls slowly with age, so the lower limit of
+ * normal depends on it (`CONTRAST_NORMS`).  Below 1.05 is a visual
+ * disability at any age.
+ */
+
+import type { TranslationKey } from './i18n';
+import type { ContrastCategory } from './screeningSession';
+
+// ─── Display luminance ───────────────────────────────────────────────
+
+/** sRGB electro-optical transfer: 8-bit level → relative luminance. */
+const srgbToLinear = (level: number): number => {
+  const c = level / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+/** Relative luminance (0–1) of each 8-bit level on an sRGB screen */
+export const SCREEN_LUMINANCE_TABLE: readonly number[] = Array.from({ length: 256 }, (_, level) => srgbToLinear(level));
+
+// Rec. 709 weights of the red, green and blue channels in luminance
+const CHANNEL_WEIGHTS = [0.2126, 0.7152, 0.0722] as const;
+
+export interface RenderedContrast {
+  /** CSS colour of the letter */
+  color: string;
+  /** Weber contrast the screen actually shows, 0–1 */
+  contrast: number;
+}
+
+const toHex = (level: number): string => level.toString(16).padStart(2, '0');
+
+/**
+ * Letter colour for a Weber contrast `contrast` against white, and the
+ * contrast it really renders at.
+ */
+export function renderContrast(contrast: number): RenderedContrast {
+  const target = 1 - contrast;
+
+  // Nearest gray level at or below the target luminance
+  let base = 0;
+  while (base < 255 && SCREEN_LUMINANCE_TABLE[base + 1] <= target) base++;
+
+  // Try raising each channel by one level; keep the closest luminance
+  let best = { rgb: [base, base, base], luminance: SCREEN_LUMINANCE_TABLE[base] };
+  for (let bits = 1; bits < 8; bits++) {
+    const rgb = [0, 1, 2].map(ch => Math.min(255, base + ((bits >> ch) & 1)));
+    const luminance = rgb.reduce((sum, level, ch) => sum + CHANNEL_WEIGHTS[ch] * SCREEN_LUMINANCE_TABLE[level], 0);
+    if (Math.abs(luminance - target) < Math.abs(best.luminance - target)) best = { rgb, luminance };
+  }
+
+  return {
+    color: `#${best.rgb.map(toHex).join('')}`,
+    contrast: 1 - best.luminance,
+  };
+}
+
+// ─── Chart ───────────────────────────────────────────────────────────
+
+/** Contrast step between triplets, in log units */
+export const CS_STEP = 0.15;
+
+const CS_LEVEL_COUNT = 16; // logCS 0.00 … 2.25
+
+export interface ContrastLevel {
+  /** Nominal log contrast sensitivity of the triplet */
+  logCS: number;
+  color: string;
+  /** logCS the screen actually renders */
+  renderedLogCS: number;
+}
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/**
+ * Triplet levels this screen can show, in order.  A level whose
+ * rendered contrast is off by half a step or more is dropped with
+ * every level after it; the last one left is the test's ceiling.
+ */
+export const CONTRAST_LEVELS: readonly ContrastLevel[] = (() => {
+  const levels: ContrastLevel[] = [];
+  for (let i = 0; i < CS_LEVEL_COUNT; i++) {
+    const logCS = round2(i * CS_STEP);
+    const { color, contrast } = renderContrast(10 ** -logCS);
+    const renderedLogCS = contrast > 0 ? -Math.log10(contrast) : Infinity;
+    if (Math.abs(renderedLogCS - logCS) >= CS_STEP / 2) break;
+    levels.push({ logCS, color, renderedLogCS: round2(renderedLogCS) });
+  }
+  return levels;
+})();
+
+export const CONTRAST_CEILING = CONTRAST_LEVELS[CONTRAST_LEVELS.length - 1].logCS;
+
+// ─── Scoring ─────────────────────────────────────────────────────────
+
+export const LETTERS_PER_TRIPLET = 3;
+
+/** Fewer correct letters than this fails the triplet and ends the test */
+export const TRIPLET_PASS_MARK = 2;
+
+export const LOG_CS_PER_LETTER = 0.05;
+
+/** Letter-by-letter logCS for `lettersCorrect` across the whole test. */
+export function scoreLogCS(lettersCorrect: number): number {
+  return Math.max(0, round2(lettersCorrect * LOG_CS_PER_LETTER - CS_STEP));
+}
+
+// ─── Norms ───────────────────────────────────────────────────────────
+
+export interface ContrastNorm {
+  /** Oldest age, in years, the norm applies to */
+  maxAge: number;
+  /** Lowest normal logCS */
+  normalLimit: number;
+}
+
+export const CONTRAST_NORMS: readonly ContrastNorm[] = [
+  { maxAge: 49, normalLimit: 1.65 },
+  { maxAge: 69, normalLimit: 1.5 },
+  { maxAge: Infinity, normalLimit: 1.35 },
+];
+
+/** Lowest normal logCS for adults of unknown age */
+export const DEFAULT_NORMAL_LIMIT = 1.5;
+
+/** Below this logCS is a visual disability whatever the age */
+export const SEVERE_LIMIT = 1.05;
+
+export const CONTRAST_CATEGORY_LABELS: Record<ContrastCategory, TranslationKey> = {
+  normal: 'cs.normal',
+  reduced: 'cs.reduced',
+  severe: 'cs.severe',
+};
+
+export function getNormalLimit(age: number | null): number {
+  if (age === null) return DEFAULT_NORMAL_LIMIT;
+  return (CONTRAST_NORMS.find(norm => age <= norm.maxAge) ?? CONTRAST_NORMS[CONTRAST_NORMS.length - 1]).normalLimit;
+}
+
+export function classifyContrast(logCS: number, age: number | null): ContrastCategory {
+  if (logCS < SEVERE_LIMIT) return 'severe';
+  if (logCS < getNormalLimit(age)) return 'reduced';
+  return 'normal';
+}
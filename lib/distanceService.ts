@@ -3,24 +3,30 @@
  * -------------------
  * Distance-measurement helpers for the VisionCheck distance calibration.
  *
- * • Distance test (3 m) — uses GPS (expo-location) to measure the
- *   straight-line distance between two tapped points.
- * • Near test (40 cm)   — uses a visual arm-length guide (no sensor).
+ * • Distance test (3 m) — paced out with the step counter and a
+ *   calibrated stride (lib/stepPlacement.ts).
+ * • Near test (40 cm)   — uses a visual arm-length guide, plus a live
+ *   front-camera estimate where a face detector is available
+ *   (lib/faceDistance.ts).
  */
 
+import type { TranslationKey } from './i18n';
+import type { VoicePromptKey } from './voiceService';
+
 // ─── Distance targets ────────────────────────────────────────────────
 
 export interface DistanceTarget {
   targetCm: number;
   toleranceCm: number;
-  label: string;
+  /** Catalogue key of the spoken / displayed distance, e.g. "3 metres" */
+  label: TranslationKey;
 }
 
 export const DISTANCE_TARGETS = {
   /** Near-vision Jaeger test at ~40 cm */
-  near: { targetCm: 40, toleranceCm: 5, label: '40 cm' } as DistanceTarget,
+  near: { targetCm: 40, toleranceCm: 5, label: 'distance.near' } as DistanceTarget,
   /** 3-metre Snellen distance test */
-  distance: { targetCm: 300, toleranceCm: 50, label: '3 metres' } as DistanceTarget,
+  distance: { targetCm: 300, toleranceCm: 50, label: 'distance.far' } as DistanceTarget,
 } as const;
 
 export type TestMode = keyof typeof DISTANCE_TARGETS;
@@ -35,31 +41,6 @@ export interface DistanceReading {
   instruction: Instruction;
 }
 
-// ─── GPS distance (Haversine) ────────────────────────────────────────
-
-/**
- * Calculate the distance in **centimetres** between two GPS coordinates
- * using the Haversine formula.  Returns a float with full precision.
- */
-export function haversineDistanceCm(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number,
-): number {
-  const R = 6_371_000; // Earth radius in metres
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c * 100; // metres → cm (full precision, no rounding)
-}
-
 // ─── Evaluate distance reading ───────────────────────────────────────
 
 /**
@@ -83,11 +64,13 @@ export function evaluateDistance(
 }
 
 /**
- * Human-readable voice prompt for each instruction.
+ * Voice prompt for each instruction — speak it with
+ * `speak(VOICE_PROMPTS[instruction])` (lib/voiceService.ts).
  */
-export const VOICE_PROMPTS: Record<Instruction, string> = {
-  move_closer: 'Move the phone closer.',
-  move_further: 'Keep moving away.',
-  hold_still: 'Perfect distance. Hold steady.',
-  too_far: 'Too far. Move the phone a little closer.',
+export const VOICE_PROMPTS: Record<Instruction, VoicePromptKey> = {
+  move_closer: 'voice.moveCloser',
+  move_further: 'voice.moveFurther',
+  hold_still: 'voice.holdStill',
+  too_far: 'voice.tooFar',
 };
+
@@ -0,0 +1,152 @@
+/**
+ * faceDistance.ts
+ * ----------------
+ * Live eye-to-screen distance from the front camera, for the 40 cm
+ * near test.
+ *
+ * ─── Geometry ───────────────────────────────────────────────────
+ * Adult interpupillary distance (IPD) clusters tightly around 63 mm,
+ * so the pupils are a ruler the patient always carries.  With a
+ * pinhole camera, an object of real size S at distance D spans
+ *
+ *     pixels = focalPx × S / D   ⇒   D = focalPx × S / pixels
+ *
+ * where focalPx = (imageSidePx / 2) / tan(fov / 2).  Field of view is
+ * taken along the image's LONG side so it does not matter which way
+ * round the camera returns the frame.  Front cameras are close to
+ * 67° on that side; a phone 10 % off reads 36 cm instead of 40, still
+ * inside the near test's tolerance.  Turning the head shortens the
+ * apparent IPD and reads as "too far", which is the safe direction.
+ *
+ * The geometry is pure (`estimateDistanceCm`) and works on any image
+ * with known pupil positions.
+ *
+ * ─── Landmark detection ─────────────────────────────────────────
+ * The pupils come from Google ML Kit's on-device face detector, run
+ * on the front camera's preview frames through a VisionCamera frame
+ * processor (components/VisionTests/FaceDistanceCamera.tsx) a few
+ * times a second.  No photo is taken and no frame leaves the phone.
+ * ML Kit's eye landmarks are the centres of the eyes, close enough to
+ * the pupils.  Where VisionCamera is not in the build — web, or Expo
+ * Go — the near test falls back to arm's-length instructions.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { NativeModules, Platform, TurboModuleRegistry } from 'react-native';
+
+import { evaluateDistance, type DistanceReading, type TestMode } from './distanceService';
+import { median } from './stats';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Pupil centres in image pixels.  Left / right are the patient's. */
+export interface EyeLandmarks {
+  leftPupil: Point;
+  rightPupil: Point;
+}
+
+export interface DistanceEstimateOptions {
+  /** Assumed interpupillary distance; default `AVERAGE_IPD_MM` */
+  ipdMm?: number;
+  /** Camera field of view along the image's long side; default `DEFAULT_CAMERA_FOV_DEG` */
+  fovDeg?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Mean adult interpupillary distance */
+export const AVERAGE_IPD_MM = 63;
+
+/** Typical phone front camera, measured along the long side of the image */
+export const DEFAULT_CAMERA_FOV_DEG = 67;
+
+// Pupils closer than this are a false detection or a face across the room
+const MIN_IPD_PX = 8;
+
+/** Frames a second handed to the face detector; the preview itself runs at full rate */
+export const DETECTIONS_PER_SECOND = 3;
+
+// Readings are the median of the last few frames, so one bad frame cannot flip the prompt
+const SMOOTHING_WINDOW = 5;
+
+// ─── Geometry ────────────────────────────────────────────────────────
+
+export const pixelDistance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Pinhole focal length in pixels for an image whose long side is `longSidePx`. */
+export function focalLengthPx(longSidePx: number, fovDeg: number = DEFAULT_CAMERA_FOV_DEG): number {
+  return longSidePx / 2 / Math.tan((fovDeg * Math.PI) / 360);
+}
+
+/**
+ * Eye-to-camera distance in cm for pupils found in an image of
+ * `imageWidth` × `imageHeight`, or `null` if the pupils are too close
+ * together to measure.
+ */
+export function estimateDistanceCm(
+  landmarks: EyeLandmarks,
+  imageWidth: number,
+  imageHeight: number,
+  { ipdMm = AVERAGE_IPD_MM, fovDeg = DEFAULT_CAMERA_FOV_DEG }: DistanceEstimateOptions = {},
+): number | null {
+  const ipdPx = pixelDistance(landmarks.leftPupil, landmarks.rightPupil);
+  if (!Number.isFinite(ipdPx) || ipdPx < MIN_IPD_PX) return null;
+  const focal = focalLengthPx(Math.max(imageWidth, imageHeight), fovDeg);
+  return (focal * ipdMm) / ipdPx / 10; // mm → cm
+}
+
+// ─── Availability ────────────────────────────────────────────────────
+
+/**
+ * Whether this build can measure the distance live: VisionCamera's
+ * camera and device modules and the worklets-core runtime its frame
+ * processors run on are linked (not web, not Expo Go).  Only then may
+ * FaceDistanceCamera be loaded.  expo-camera registers as `ExpoCamera`,
+ * so it never passes this check on its own.
+ */
+export const isFaceDistanceAvailable = (): boolean =>
+  Platform.OS !== 'web' &&
+  NativeModules.CameraView != null &&
+  NativeModules.CameraDevices != null &&
+  TurboModuleRegistry.get('Worklets') != null;
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+export interface FaceDistance {
+  /** Smoothed reading, or `null` until a face has been measured */
+  reading: DistanceReading | null;
+  /** Whether the latest frame contained a measurable face */
+  faceFound: boolean;
+  /** Hand the pupils found in a `frameWidth` × `frameHeight` frame, or `null` if none */
+  reportFrame: (landmarks: EyeLandmarks | null, frameWidth: number, frameHeight: number) => void;
+}
+
+/**
+ * Turns the pupils reported for each camera frame into a smoothed
+ * distance, evaluated against `mode`'s target.
+ */
+export function useFaceDistance(mode: TestMode, options?: DistanceEstimateOptions): FaceDistance {
+  const [state, setState] = useState<Pick<FaceDistance, 'reading' | 'faceFound'>>({ reading: null, faceFound: false });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const recentRef = useRef<number[]>([]);
+
+  const reportFrame = useCallback((landmarks: EyeLandmarks | null, frameWidth: number, frameHeight: number) => {
+    const distanceCm = landmarks ? estimateDistanceCm(landmarks, frameWidth, frameHeight, optionsRef.current) : null;
+    if (distanceCm === null) {
+      setState(prev => (prev.faceFound ? { ...prev, faceFound: false } : prev));
+      return;
+    }
+    const recent = recentRef.current;
+    recent.push(distanceCm);
+    if (recent.length > SMOOTHING_WINDOW) recent.shift();
+    setState({ reading: evaluateDistance(median(recent) as number, mode), faceFound: true });
+  }, [mode]);
+
+  return { ...state, reportFrame };
+}
@@ -0,0 +1,178 @@
+/**
+ * historyService.ts
+ * ------------------
+ * Offline, on-device storage for completed screening sessions.
+ *
+ * Every time a screening finishes (the full suite or a standalone
+ * test) the results are written here together with a timestamp and
+ * a snapshot of the device that ran the test, and graded for
+ * reliability (lib/sessionQuality.ts).  Community health workers use
+ * this to look up a patient's previous result when they revisit a
+ * village — no network connection is needed.
+ *
+ * ─── Storage layout ─────────────────────────────────────────────
+ * All sessions live under a single AsyncStorage key as a JSON array,
+ * newest first.  A screening is a few KB at most, so even several
+ * thousand records stay well inside AsyncStorage limits.
+ *
+ * Records are migrated to the current `ScreeningSession` schema on
+ * read.  The raw array is what gets written back, so a record this
+ * app version cannot read (e.g. from a newer build) is never lost.
+ *
+ * Saves and deletes are read-modify-write, so they run one at a time
+ * through a single promise chain.  If the stored array cannot be read
+ * or parsed the write is abandoned rather than starting a new, empty
+ * history over the top of the old one.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { Dimensions, PixelRatio, Platform } from 'react-native';
+import {
+  migrateSession,
+  SCREENING_SESSION_SCHEMA_VERSION,
+  type DeviceInfo,
+  type ScreeningSession,
+} from './screeningSession';
+import { gradeReliability } from './sessionQuality';
+
+const STORAGE_KEY = '@visioncheck/sessions';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type NewSession = Pick<
+  ScreeningSession,
+  'source' | 'visualAcuity' | 'contrastSensitivity' | 'colorVision' | 'astigmatism' | 'amsler'
+> & {
+  patientLabel?: string | null;
+  age?: number | null;
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+const generateId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Snapshot of the device the screening ran on. */
+export function getDeviceInfo(): DeviceInfo {
+  const { width, height } = Dimensions.get('window');
+  return {
+    platform: Platform.OS,
+    osVersion: String(Platform.Version),
+    appVersion: Constants.expoConfig?.version ?? 'unknown',
+    screenWidth: Math.round(width),
+    screenHeight: Math.round(height),
+    pixelRatio: PixelRatio.get(),
+    fontScale: PixelRatio.getFontScale(),
+  };
+}
+
+/** The stored array.  Throws if it cannot be read or is not an array. */
+async function readRaw(): Promise<unknown[]> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) throw new Error('Stored sessions are not an array');
+  return parsed;
+}
+
+async function writeRaw(records: unknown[]): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+}
+
+// Tail of the save/delete chain; each write starts after the last one settles
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const next = writeQueue.then(task, task);
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+async function readAll(): Promise<ScreeningSession[]> {
+  let records: unknown[];
+  try {
+    records = await readRaw();
+  } catch (err) {
+    console.warn('[History] Could not read sessions:', err);
+    return [];
+  }
+  return records
+    .map(migrateSession)
+    .filter((s): s is ScreeningSession => s !== null);
+}
+
+const getRecordId = (record: unknown): unknown =>
+  record && typeof record === 'object' ? (record as { id?: unknown }).id : undefined;
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/** Age in whole years from a patient form field, or `null` if blank or implausible. */
+export const parseAge = (text: string): number | null => {
+  const age = parseInt(text, 10);
+  return Number.isFinite(age) && age > 0 && age <= 120 ? age : null;
+};
+
+/**
+ * Persist a completed session.  Returns the stored record, or `null`
+ * if the write failed (the screening itself is never blocked by this).
+ */
+export async function saveSession(input: NewSession): Promise<ScreeningSession | null> {
+  const session: ScreeningSession = {
+    schemaVersion: SCREENING_SESSION_SCHEMA_VERSION,
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    source: input.source,
+    patientLabel: input.patientLabel?.trim() || null,
+    age: input.age ?? null,
+    visualAcuity: input.visualAcuity ?? null,
+    colorVision: input.colorVision ?? null,
+    astigmatism: input.astigmatism ?? null,
+    amsler: input.amsler ?? null,
+    contrastSensitivity: input.contrastSensitivity ?? null,
+    reliability: gradeReliability(input),
+    device: getDeviceInfo(),
+  };
+
+  try {
+    await enqueueWrite(async () => {
+      const records = await readRaw();
+      await writeRaw([session, ...records]);
+    });
+    return session;
+  } catch (err) {
+    console.warn('[History] Could not save session:', err);
+    return null;
+  }
+}
+
+/** All stored sessions, newest first. */
+export async function listSessions(): Promise<ScreeningSession[]> {
+  const sessions = await readAll();
+  return [...sessions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** A single session by id, or `null` if it no longer exists. */
+export async function getSession(id: string): Promise<ScreeningSession | null> {
+  const sessions = await readAll();
+  return sessions.find(s => s.id === id) ?? null;
+}
+
+/**
+ * Remove a session.  Returns `true` if a record was deleted, `false`
+ * if it was not found or the history could not be read or written.
+ */
+export async function deleteSession(id: string): Promise<boolean> {
+  try {
+    return await enqueueWrite(async () => {
+      const records = await readRaw();
+      const remaining = records.filter(r => getRecordId(r) !== id);
+      if (remaining.length === records.length) return false;
+      await writeRaw(remaining);
+      return true;
+    });
+  } catch (err) {
+    console.warn('[History] Could not delete session:', err);
+    return false;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * i18n.ts
+ * --------
+ * English / Kiswahili localisation for every screen, prompt and result.
+ *
+ * ─── How it works ───────────────────────────────────────────────
+ * Strings live in flat catalogues keyed by dotted ids
+ * (lib/locales/en.ts, lib/locales/sw.ts).  English defines the keys;
+ * the Kiswahili catalogue is typed against them, so a missing
+ * translation is a type error rather than a blank label.
+ *
+ *   • Components call `useI18n()` — it re-renders them when the
+ *     language changes.
+ *   • Plain functions (result interpretation, voice prompts) call
+ *     `t()` directly and get the current language.
+ *   • `speechLanguage()` gives the matching expo-speech voice.
+ *
+ * The chosen language is stored in AsyncStorage.  `loadLanguage()`
+ * runs once at startup; until it resolves, or if nothing is stored,
+ * the phone's own locale picks the initial language.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useSyncExternalStore } from 'react';
+
+import en, { type TranslationKey } from './locales/en';
+import sw from './locales/sw';
+
+export type { TranslationKey } from './locales/en';
+
+const STORAGE_KEY = '@visioncheck/language';
+
+// ─── Languages ───────────────────────────────────────────────────────
+
+export type Language = 'en' | 'sw';
+
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'sw', label: 'Kiswahili' },
+];
+
+const CATALOGUES: Record<Language, Record<TranslationKey, string>> = { en, sw };
+
+/** expo-speech voice for each language (Kenyan Swahili where available) */
+const SPEECH_LANGUAGES: Record<Language, string> = {
+  en: 'en',
+  sw: 'sw-KE',
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+// ─── Internal state ──────────────────────────────────────────────────
+
+const detectDeviceLanguage = (): Language => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    return locale.toLowerCase().startsWith('sw') ? 'sw' : 'en';
+  } catch {
+    return 'en';
+  }
+};
+
+let _language: Language = detectDeviceLanguage();
+const _listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  _listeners.add(listener);
+  return () => { _listeners.delete(listener); };
+};
+
+const isLanguage = (value: unknown): value is Language =>
+  value === 'en' || value === 'sw';
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Look up a string in the current language.  `{name}` placeholders are
+ * filled from `params`; unknown placeholders are left as-is.
+ */
+export function t(key: TranslationKey, params?: TranslationParams): string {
+  const template = CATALOGUES[_language][key] ?? en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function getLanguage(): Language {
+  return _language;
+}
+
+/** expo-speech `language` option matching the current language. */
+export function speechLanguage(): string {
+  return SPEECH_LANGUAGES[_language];
+}
+
+/** Switch language, notify mounted screens and remember the choice. */
+export async function setLanguage(language: Language): Promise<void> {
+  if (language !== _language) {
+    _language = language;
+    _listeners.forEach(listener => listener());
+  }
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, language);
+  } catch (err) {
+    console.warn('[i18n] Could not save language:', err);
+  }
+}
+
+/** Restore the stored language.  Call once at startup. */
+export async function loadLanguage(): Promise<Language> {
+  try {
+    const stored = await AsyncStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored) && stored !== _language) {
+      _language = stored;
+      _listeners.forEach(listener => listener());
+    }
+  } catch (err) {
+    console.warn('[i18n] Could not read language:', err);
+  }
+  return _language;
+}
+
+/** Current language plus `t`, re-rendering the caller when it changes. */
+export function useI18n() {
+  const language = useSyncExternalStore(subscribe, getLanguage, getLanguage);
+  return { language, t, setLanguage };
+}
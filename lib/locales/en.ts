@@ -0,0 +1,1177 @@
+/**
+ * en.ts
+ * ------
+ * English catalogue — the reference set of keys.  Every other
+ * catalogue must provide the same keys (see lib/i18n.ts).
+ *
+ * Keys are grouped by screen; `{name}` marks an interpolated value.
+ */
+
+const en = {
+  // ── Shared ──
+  'common.rightEye': 'Right Eye',
+  'common.leftEye': 'Left Eye',
+  'common.rightEyeColon': 'Right Eye:',
+  'common.leftEyeColon': 'Left Eye:',
+  'common.right': 'Right',
+  'common.left': 'Left',
+  'common.RIGHT': 'RIGHT',
+  'common.LEFT': 'LEFT',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.done': 'Done',
+  'common.skip': 'Skip →',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.notTested': 'Not tested',
+  'common.startScreening': 'Start Screening',
+  'common.imReady': "I'm Ready",
+  'common.whatWeTest': "What We'll Test",
+  'common.setupInstructions': 'Setup Instructions',
+  'common.assessment': 'Assessment',
+  'common.assessmentWarning': '⚠️ Assessment',
+  'common.recommendation': 'Recommendation',
+  'common.methodology': 'Methodology',
+  'common.severity': 'Severity',
+  'common.result': 'Result',
+  'common.normal': 'Normal',
+  'common.unnamedPatient': 'Unnamed patient',
+  'common.patient': 'Patient',
+  'common.patientPlaceholder': 'Name or ID (optional)',
+  'common.patientHint': 'Used to find this patient again in Test History.',
+  'common.viewFullResults': 'View Full Results',
+  'common.findClinics': 'Find Nearby Eye Clinics',
+  'common.visualAcuity': 'Visual Acuity',
+  'common.colorVision': 'Color Vision',
+  'common.astigmatism': 'Astigmatism',
+  'common.amsler': 'Amsler Grid',
+  'common.contrastSensitivity': 'Contrast Sensitivity',
+  'common.completeScreening': 'Complete Screening',
+  'common.clinicalStandard': 'Clinical Standard',
+  'common.optimalConditions': 'Optimal Conditions for Accurate Results',
+  'common.environmentSetup': 'Environment Setup',
+  'common.beginTest': 'Begin Test',
+  'common.retakeTest': 'Retake Test',
+  'common.who': 'WHO category',
+  'common.logMAR': 'logMAR {value}',
+  'common.logMARInterval': 'logMAR {value} (95% {interval})',
+  'common.skipped': 'Skipped',
+  'common.notCompleted': 'Not completed',
+  // Shared by the per-eye tests' switch and results screens
+  'common.rightEyeComplete': 'Right Eye Complete ✓',
+  'common.nowTestingLeft': 'Now testing the left eye',
+  'common.switchEyes': 'Switch Eyes',
+  'common.rightEyeResult': 'Right Eye Result',
+  'common.testLeftEye': 'Test Left Eye',
+  'common.overallAssessment': 'Overall Assessment',
+  'common.eyeByEye': 'Eye-by-Eye Results',
+  'common.whatThisMeans': 'What This Means',
+  'common.testMethod': 'Test Method',
+  'common.eyesTested': 'Eyes Tested',
+  'common.eyesTestedMonocular': 'Both (monocular)',
+  'common.cantSee': "Can't See Clearly",
+  'common.limitations': 'Limitations',
+
+  // ── Home ──
+  'home.subtitle': 'Bringing eye screening to every smartphone',
+  'home.language': 'Language',
+  'home.voice': 'Voice',
+  'home.voiceOff': 'Off',
+  'home.voiceOn': 'On',
+  'home.voiceSlow': 'Slow',
+  'home.quickTitle': 'Quick Vision Screening',
+  'home.quickDesc': 'Complete a comprehensive eye screening in just 5 minutes',
+  'home.startTest': 'Start Test Now',
+  'home.whatWeTest': 'What We Test',
+  'home.vaDesc': 'Test clarity of vision for both eyes',
+  'home.cvDesc': 'Screen for color blindness',
+  'home.astigDesc': 'Detect corneal irregularities',
+  'home.amslerDesc': 'Spot macular disease early',
+  'home.csDesc': 'Catch cataract and glaucoma before acuity drops',
+  'home.photosTitle': 'Eye Photos',
+  'home.photosDesc': 'AI analysis of eye health',
+  'home.clinicsTitle': 'Find Clinics',
+  'home.clinicsDesc': 'Locate nearby eye care',
+  'home.tapToTest': 'Tap to test →',
+  'home.tapToTry': 'Tap to try →',
+  'home.tapToSearch': 'Tap to search →',
+  'home.history': '📊 View Test History',
+  'home.clinics': '🗺️ Find Eye Clinics',
+  'home.remote': '📲 Remote Controller',
+  'home.about': 'ℹ️ About VisionCheck',
+  'home.banner': '💡 Over 4 million Kenyans have undiagnosed vision problems. Early screening can make a huge difference!',
+
+  // ── About ──
+  'about.version': 'Version {version}',
+  'about.title': 'About',
+  'about.body': 'VisionCheck Kenya is a mobile vision screening tool designed to make basic eye testing accessible to everyone in Kenya and beyond. It is not a substitute for a professional eye examination.',
+  'about.testsTitle': 'Tests Included',
+  'about.testVA': '• Visual Acuity (Snellen + Jaeger)',
+  'about.testCV': '• Colour Vision (Ishihara plates)',
+  'about.testAstig': '• Astigmatism (Fan chart)',
+  'about.disclaimer': '⚠️ This app is for screening purposes only. Please visit a qualified optometrist for a comprehensive eye examination.',
+
+  // ── Distance targets & voice prompts ──
+  'distance.near': '40 cm',
+  'distance.far': '3 metres',
+  'voice.moveCloser': 'Move the phone closer.',
+  'voice.moveFurther': 'Keep moving away.',
+  'voice.holdStill': 'Perfect distance. Hold steady.',
+  'voice.tooFar': 'Too far. Move the phone a little closer.',
+  'voice.steps.start': 'Walk away from the patient at a normal pace. About {count} steps.',
+  'voice.steps.more': '{count} more steps.',
+  'voice.steps.oneMore': 'One more step.',
+  'voice.steps.stop': 'Stop here. This is about three metres.',
+  'voice.startingTest': 'Starting test now.',
+  'voice.coverLeftEye': 'Cover your left eye and keep your right eye open.',
+  'voice.coverRightEye': 'Cover your right eye and keep your left eye open.',
+  'voice.rightEyeDone': 'Well done. The right eye is finished.',
+  'voice.resultsOnScreen': 'The results are on the screen.',
+  'voice.calibration.distance': 'Stand still. A helper will carry the phone three metres away and turn the screen towards you.',
+  'voice.calibration.near': "Hold the phone at arm's length, about forty centimetres from your eyes.",
+  'voice.va.welcome': 'Visual acuity test. Each eye is tested on its own, first at a distance and then up close.',
+  'voice.va.distanceSetup': 'Choose the chart type. A helper will then place the phone three metres away.',
+  'voice.va.distanceCheck': 'Check that you are three metres from the screen.',
+  'voice.va.readLetters': 'Say each letter as it appears. If you cannot see it, say so.',
+  'voice.va.readE': 'Show which way the bars of the E are pointing: up, down, left or right.',
+  'voice.va.readLea': 'Say or point to the picture you see.',
+  'voice.va.readMarked': 'Read only the one with the marker under it.',
+  'voice.va.lowVision': 'The top line could not be read. Helper, please follow the steps on the screen.',
+  'voice.va.pinholeOffer': 'This eye read below six twelve. A retest through a pinhole can show whether glasses would help.',
+  'voice.va.pinholeSetup': 'Hold the pinhole card close to the open eye and look at the screen through the hole.',
+  'voice.va.putOnGlasses': 'Now put on your glasses. Each eye is tested again with them on.',
+  'voice.va.bothEyes': 'Keep both eyes open.',
+  'voice.va.distanceDone': 'The distance test is finished.',
+  'voice.va.nearSetup': 'Near vision test. You will read lines of text up close.',
+  'voice.va.readNear': 'Read each line aloud, then say whether it was clear.',
+  'voice.va.nearDone': 'The near test is finished.',
+  'voice.reading.setup': 'Reading speed test. Keep both eyes open and wear your reading glasses if you have them. Read each sentence aloud as quickly and carefully as you can.',
+  'voice.va.complete': 'The visual acuity test is complete.',
+  'voice.cv.welcome': 'Colour vision test. Each plate hides a number in coloured dots.',
+  'voice.cv.setup': "Turn off night mode and colour filters, and hold the phone at arm's length.",
+  'voice.cv.test': 'Say the number you see in each plate. If there is no number, say so.',
+  'voice.cv.complete': 'The colour vision test is complete.',
+  'voice.astig.welcome': 'Astigmatism test. You will look at a dial of lines, like a clock face.',
+  'voice.astig.setup': "Hold the phone at arm's length. If you wear glasses for distance, keep them on.",
+  'voice.astig.look': 'Look at the red dot in the centre. Tap any lines that look darker or sharper than the rest.',
+  'voice.astig.confirm': 'Now we will look once more to confirm your answer.',
+  'voice.astig.lookAgain': 'Look at the centre dot again and tap the darker lines once more.',
+  'voice.astig.complete': 'The astigmatism test is complete.',
+  'voice.amsler.welcome': 'Amsler grid test. You will look at a grid of squares with a dot in the middle.',
+  'voice.amsler.setup': 'Wear your reading glasses if you use them, and hold the phone at the distance shown.',
+  'voice.amsler.centre': 'Look only at the dot in the centre. Can you see it?',
+  'voice.amsler.mark': 'Keep looking at the centre dot. Trace over any lines that look wavy, blurred or missing.',
+  'voice.amsler.complete': 'The Amsler grid test is complete.',
+  'voice.cs.welcome': 'Contrast sensitivity test. You will read letters that get fainter and fainter.',
+  'voice.cs.setup': 'Wear your distance glasses if you use them, and hold the phone about half a metre away.',
+  'voice.cs.read': 'Name the letter above the marker. Guess if you are not sure.',
+  'voice.cs.complete': 'The contrast sensitivity test is complete.',
+  'voice.spoken.instructions': 'Say your answer out loud. If you cannot see it, say "I can\'t see".',
+  'voice.spoken.confirm': 'Did you say {answer}?',
+  'voice.spoken.confirmCantSee': 'Did you say you cannot see it?',
+
+  // ── Distance setup (DistanceCalibration) ──
+  'calibration.distanceTitle': 'Distance Setup',
+  'calibration.nearTitle': 'Near Distance Setup',
+  'calibration.target': 'Target: {target}',
+  'calibration.beforeYouBegin': 'Before you begin',
+  'calibration.distanceStep1Pre': '1.  The person being tested should ',
+  'calibration.distanceStep1Bold': 'stand still',
+  'calibration.distanceStep1Post': '.',
+  'calibration.distanceStep2Pre': '2.  A helper takes the phone and walks ',
+  'calibration.distanceStep2Bold': '3 metres away',
+  'calibration.distanceStep2Post': ' (about 4 large steps).',
+  'calibration.distanceStep3': '3.  Face the screen towards the person being tested.',
+  'calibration.distanceStep4': '4.  Hand the phone to the person, or hold it steady at that distance.',
+  'calibration.distanceTipTitle': '💡 How to estimate 3 metres',
+  'calibration.distanceTipSteps': '🚶  About 4 large adult steps',
+  'calibration.distanceTipDoor': '📏  A standard door is ~2 m tall — add half again',
+  'calibration.distanceTipBed': '🛏️  Roughly the length of a single bed',
+  'calibration.distanceTipTape': '📐  Use a tape measure for best accuracy',
+  'calibration.distanceStart': "✅  I'm at 3 Metres — Start Test",
+  'steps.title': '🚶 Pace out 3 m with the phone',
+  'steps.intro': 'Stand beside the patient, then walk away carrying the phone. It counts your steps and tells you when to stop.',
+  'steps.strideCalibrated': 'Your stride: {cm} cm (calibrated)',
+  'steps.strideDefault': 'Stride: {cm} cm (typical adult — calibrate for better accuracy)',
+  'steps.paceOut': 'Start pacing',
+  'steps.calibrate': 'Calibrate stride',
+  'steps.recalibrate': 'Recalibrate stride',
+  'steps.more': '{count} more steps',
+  'steps.oneMore': '1 more step',
+  'steps.stopHere': '✋ Stop here',
+  'steps.walked': '{steps} steps ≈ {metres} m',
+  'steps.restart': 'Start again',
+  'steps.calibrateTitle': '📏 Calibrate your stride',
+  'steps.calibrateBody': 'Measure {metres} m on the floor with a tape. Hold the phone and walk it at your normal pace, then tap Done.',
+  'steps.counted': '{steps} steps',
+  'steps.calibrateFailed': 'That step count does not look right. Walk the measured distance again.',
+  'steps.unavailable': 'This phone has no motion sensor, so steps cannot be counted. Use the tips below or a tape measure.',
+  'calibration.nearStep1Pre': '1.  Hold the phone at ',
+  'calibration.nearStep1Bold': "arm's length",
+  'calibration.nearStep1Post': ' — about {target} from your eyes.',
+  'calibration.nearStep2': '2.  The screen should be roughly at eye level.',
+  'calibration.nearTipTitle': '💡 How to estimate 40 cm',
+  'calibration.nearTipArm': '💪  Elbow to fingertips ≈ 40–45 cm',
+  'calibration.nearTipCards': '💳  5 credit cards end-to-end ≈ 42 cm',
+  'calibration.nearTipPaper': '📄  A4 paper long edge (29.7 cm) + about a third more',
+  'calibration.nearStart': "✅  I'm at 40 cm — Start Test",
+  'calibration.liveTitle': '📷 Live distance',
+  'calibration.liveDistance': '{cm} cm from your eyes',
+  'calibration.lookingForFace': 'Looking for your face — hold the phone in front of you with both eyes in view.',
+  'calibration.autoStart': 'The test starts by itself once you hold steady at {target}.',
+  'calibration.cameraNeeded': 'Allow the camera to measure your distance automatically.',
+  'calibration.allowCamera': 'Allow camera',
+
+  // ── Screen calibration (card match) ──
+  'screenCal.title': 'Screen Calibration',
+  'screenCal.subtitle': 'Match the card — once per phone',
+  'screenCal.step1Pre': 'Place any ',
+  'screenCal.step1Bold': 'bank card or national ID card',
+  'screenCal.step1Post': ' flat on the screen, lined up with the top-left corner of the blue rectangle.',
+  'screenCal.step2': 'Make the rectangle exactly as wide as the card using the buttons or by dragging the handle.',
+  'screenCal.cardHere': '💳 Card goes here',
+  'screenCal.readout': '{value} dp per mm',
+  'screenCal.implausible': 'That size does not look like a real card. Place the card flat on the screen and try again.',
+  'screenCal.saveFailed': 'Could not save the calibration. Please try again.',
+  'screenCal.saving': 'Saving…',
+  'screenCal.save': '✅  It Matches — Save',
+  'screenCal.skip': 'No card? Skip →',
+
+  // ── Threshold strategies ──
+  'strategy.lineWalk': 'Line by line',
+  'strategy.staircase': 'Adaptive staircase',
+  'strategy.quest': 'Adaptive (QUEST)',
+  'strategy.lineWalkDesc': 'Every letter of every line, largest first — the same as a wall chart',
+  'strategy.staircaseDesc': 'Letter size goes up and down with each answer. Faster for people who see well',
+  'strategy.questDesc': 'Chooses the most informative size each time and stops once the result is precise',
+
+  // ── Optotypes ──
+  'optotype.sloanSet': 'Sloan optotype letters',
+  'optotype.eSet': 'Tumbling E (4 orientations)',
+  'optotype.leaSet': 'LEA picture symbols (4 symbols)',
+  'optotype.snellen': 'Snellen',
+  'optotype.tumblingE': 'Tumbling E',
+  'optotype.lea': 'LEA Symbols',
+  'lea.house': 'House',
+  'lea.apple': 'Apple',
+  'lea.circle': 'Ball',
+  'lea.square': 'Box',
+
+  // ── Spoken answers ──
+  'spoken.up': 'up',
+  'spoken.down': 'down',
+  'spoken.left': 'left',
+  'spoken.right': 'right',
+
+  // ── Acuity / near ratings ──
+  'rating.exceptional': 'Exceptional',
+  'rating.excellent': 'Excellent',
+  'rating.veryGood': 'Very Good',
+  'rating.good': 'Good',
+  'rating.fair': 'Fair',
+  'rating.poor': 'Poor',
+  'rating.veryPoor': 'Very Poor',
+  'rating.severe': 'Severe',
+  'rating.countingFingers': 'Counting Fingers',
+  'rating.handMovement': 'Hand Movement',
+  'rating.lightPerception': 'Light Perception',
+  'rating.noLightPerception': 'No Light Perception',
+  'rating.notTested': 'Not tested',
+
+  // ── WHO categories ──
+  'who.0': 'No visual impairment',
+  'who.1': 'Mild visual impairment',
+  'who.2': 'Moderate visual impairment',
+  'who.3': 'Severe visual impairment',
+  'who.4': 'Blindness (3/60 – 1/60)',
+  'who.5': 'Blindness (below 1/60, light perception)',
+  'who.6': 'Blindness (no light perception)',
+
+  // ── Low-vision fallbacks ──
+  'lowVision.halfTitle': 'Move Closer — 1.5 m',
+  'lowVision.halfInstruction': 'Bring the phone to half the distance (1.5 metres, about two steps) from the patient. The large letter is shown again.',
+  'lowVision.halfQuestion': 'Did the patient read the letter correctly?',
+  'lowVision.cfTitle': 'Counting Fingers',
+  'lowVision.cfInstruction': 'Stand 1 metre from the patient. Hold up 1 to 5 fingers against a plain background and ask how many. Repeat 3 times with different counts.',
+  'lowVision.cfQuestion': 'Did the patient count correctly at least 2 times out of 3?',
+  'lowVision.hmTitle': 'Hand Movement',
+  'lowVision.hmInstruction': 'Hold your hand 50 cm from the patient. Either wave it slowly or hold it still, and ask "Is my hand moving?" Repeat 3 times.',
+  'lowVision.hmQuestion': 'Did the patient answer correctly at least 2 times out of 3?',
+  'lowVision.lpTitle': 'Light Perception',
+  'lowVision.lpInstruction': 'Cover the other eye well. Shine a torch (or the phone flashlight) into the eye from 50 cm, switching it on and off, and ask "Is the light on?"',
+  'lowVision.lpQuestion': 'Could the patient tell when the light was on?',
+  'lowVision.stepOf': '{eye} eye • Step {current} of {total}',
+  'lowVision.intro': 'The patient could not read the top line at 3 metres. Helper, please follow these steps.',
+
+  // ── Pinhole retest ──
+  'pinhole.offerTitle': 'Pinhole Retest',
+  'pinhole.offerSubtitle': '{eye} eye read {acuity}',
+  'pinhole.whyTitle': 'Would glasses help?',
+  'pinhole.whyBody': 'This eye read worse than 6/12. Looking through a tiny hole removes most of the blur that glasses correct. If the eye reads better through the pinhole, glasses are likely to help. If it does not, the cause may be an eye condition that needs a closer look.',
+  'pinhole.needs': '📎 You will need a piece of card and a pin, or a pinhole occluder. The retest takes about a minute.',
+  'pinhole.retest': 'Retest With Pinhole',
+  'pinhole.skip': 'Skip the Retest',
+  'pinhole.setupTitle': 'Pinhole Setup',
+  'pinhole.setupSubtitle': 'Retesting the {eye} eye',
+  'pinhole.step1': 'Push a pin through the card to make a round hole 1–2 mm wide, or use a pinhole occluder',
+  'pinhole.step2': 'Keep the other eye covered. Hold the card close to the {eye} eye and look at the screen through the hole',
+  'pinhole.step3': 'Stay 3 metres from the screen. The chart starts again from the top line',
+  'pinhole.tip': '💡 Move the card slightly until the screen looks brightest through the hole. Glasses may stay on',
+  'pinhole.result': 'Pinhole {acuity} · {outcome}',
+  'pinhole.improved': 'improved',
+  'pinhole.notImproved': 'no improvement',
+
+  // ── Spectacle adequacy ──
+  'spectacles.adequate': 'Adequate',
+  'spectacles.adequateDetail': 'Each eye reaches 6/12 or better in the current glasses.',
+  'spectacles.inadequate': 'Not adequate',
+  'spectacles.inadequateDetail': 'At least one eye sees worse than 6/12 in the current glasses. Have the glasses and the eyes checked.',
+  'spectacles.updateDetail': 'At least one eye sees worse than 6/12 in the current glasses but better through a pinhole. A new prescription is likely to help.',
+
+  // ── Reading glasses ──
+  'presbyopia.readyMadeSuitable': 'Ready-made reading glasses of {add} are likely to help.',
+  'presbyopia.readyMadeDistance': 'Ready-made readers alone are unlikely to be enough, because distance vision also needs correcting. Refer for a refraction.',
+  'presbyopia.readyMadeUntested': 'Distance vision was not measured in both eyes, so ready-made readers cannot be recommended. Test distance vision or refer for a refraction.',
+  'presbyopia.readyMadeUnequal': 'The two eyes read too differently for ready-made readers. Refer for glasses made to prescription.',
+
+  // ── Reading speed ──
+  'reading.title': 'Reading Speed',
+  'reading.subtitle': 'Timed sentences at 40 cm, both eyes',
+  'reading.step1': '1. The patient keeps both eyes open and wears their reading glasses, if they have them.',
+  'reading.step2': '2. Hold the phone at 40 cm. Tap Start — the sentence appears and the clock starts.',
+  'reading.step3': '3. The patient reads the sentence aloud, as quickly as they can without mistakes. Tap Stop on the last word.',
+  'reading.step4': '4. Count the words misread or skipped. The print gets smaller with each sentence.',
+  'reading.language': 'Sentence language',
+  'reading.languageHint': 'Choose the language the patient reads most easily.',
+  'reading.begin': 'Begin',
+  'reading.sentenceOf': 'Sentence {current} of {total}',
+  'reading.covered': 'The sentence is hidden. Tap Start when the patient is ready to read.',
+  'reading.start': '▶ Start',
+  'reading.stop': '■ Stop',
+  'reading.cannotRead': 'Cannot read any words — finish',
+  'reading.time': '{seconds} s',
+  'reading.wpm': '{wpm} words/min',
+  'reading.errors': 'Words misread or skipped',
+  'reading.next': 'Next Sentence',
+  'reading.finish': 'Finish',
+  'reading.resultsTitle': 'Reading Speed Results',
+  'reading.maxSpeed': 'Maximum reading speed',
+  'reading.criticalPrint': 'Critical print size',
+  'reading.acuity': 'Reading acuity',
+  'reading.logMAR': '{value} logMAR',
+  'reading.curve': 'Speed by print size (logMAR)',
+  'reading.curveHint': 'The darker bar marks the critical print size — the smallest print read at full speed.',
+  'reading.fluent': 'Fluent reading: fast enough for everyday reading.',
+  'reading.slow': 'Slow reading: short texts only.',
+  'reading.spot': 'Spot reading only: labels and prices at most.',
+  'reading.referral': 'Refer for a low-vision assessment. Magnifiers and larger print can help.',
+
+  // ── Acuity diagnoses ──
+  'dx.childReduced.condition': 'Reduced Vision (Child)',
+  'dx.childReduced.severityMarked': 'Marked',
+  'dx.childReduced.severityBelow': 'Below Age Threshold',
+  'dx.childReduced.description': 'At least one eye could not see the 6/12 picture line. In a young child this may be a refractive error or early amblyopia (lazy eye).',
+  'dx.childReduced.recommendation': 'Refer the child to an eye care professional. Amblyopia responds best to treatment before school age, so do not wait.',
+  'dx.childUnequal.condition': 'Unequal Vision Between Eyes',
+  'dx.childUnequal.severity': '{lines} lines difference',
+  'dx.childUnequal.description': 'Both eyes passed 6/12, but one eye sees noticeably less than the other. This is a common early sign of amblyopia.',
+  'dx.childUnequal.recommendation': 'Refer the child to an eye care professional for a full examination.',
+  'dx.childNormal.severity': 'Passed Child Screening',
+  'dx.childNormal.description': 'Each eye reached the expected level for a pre-school child and both eyes are similar.',
+  'dx.childNormal.recommendation': 'Rescreen every year until school age, or sooner if parents or teachers notice squinting or sitting close to the TV.',
+  'dx.severeLoss.condition': 'Severe Vision Loss',
+  'dx.severeLoss.severity': '{acuity} in at least one eye',
+  'dx.severeLoss.description': 'At least one eye could not read the largest letter on the chart. Vision this low can be caused by cataract, advanced refractive error or eye disease.',
+  'dx.severeLoss.recommendation': 'Refer to an eye care professional as soon as possible for a full examination.',
+  'dx.pinholeNoGain.condition': 'Reduced Vision Not Corrected by Pinhole',
+  'dx.pinholeNoGain.severity': '{acuity} unaided, {pinhole} through pinhole',
+  'dx.pinholeNoGain.description': 'At least one eye sees worse than 6/12 and did not improve through a pinhole. Glasses alone are unlikely to fix this; it can be caused by cataract, glaucoma or a retinal condition.',
+  'dx.pinholeNoGain.recommendation': 'Refer to an eye care professional as soon as possible for a full eye examination.',
+  'dx.refractive.condition': 'Likely Uncorrected Refractive Error',
+  'dx.refractive.severity': '{acuity} unaided, {pinhole} through pinhole',
+  'dx.refractive.description': 'Distance vision is reduced but improved through a pinhole. This usually means the eye needs glasses rather than treatment for disease.',
+  'dx.refractive.recommendation': 'Visit an optometrist for a refraction test. Glasses are likely to restore clear distance vision.',
+  'dx.myopia.condition': 'Likely Myopia (Nearsightedness)',
+  'dx.myopia.description': 'You can see nearby objects clearly but struggle with distant objects. This is consistent with myopia.',
+  'dx.myopia.recommendation': 'Visit an optometrist for a comprehensive refraction test. You will likely benefit from distance glasses or contact lenses.',
+  'dx.hyperopia.condition': 'Likely Hypermetropia (Farsightedness)',
+  'dx.hyperopia.description': 'You can see distant objects well but struggle with reading and close-up tasks. This is consistent with hypermetropia.',
+  'dx.hyperopia.recommendation': 'Visit an optometrist for near vision correction. Reading glasses or bifocals may help.',
+  'dx.presbyopia.condition': 'Likely Presbyopia',
+  'dx.presbyopia.severity': 'Estimated reading add {add}',
+  'dx.presbyopia.description': 'Distance vision is good but small print is hard to read up close. From about age 40 the eye gradually loses its ability to focus near, and reading glasses restore it.',
+  'dx.moderateToSevere': 'Moderate to Severe',
+  'dx.mildToModerate': 'Mild to Moderate',
+  'dx.significant.condition': 'Significant Vision Impairment',
+  'dx.significant.severity': 'Requires Professional Assessment',
+  'dx.significant.description': 'Both distance and near vision show significant limitations. This could indicate a complex refractive error, presbyopia combined with myopia, or other eye conditions.',
+  'dx.significant.recommendation': 'Please visit an eye care professional as soon as possible for a comprehensive examination.',
+  'dx.normal.condition': 'Normal Vision',
+  'dx.normal.severity': 'No Significant Issues',
+  'dx.normal.description': 'Your distance and near vision are both within the normal range. No immediate concerns detected.',
+  'dx.normal.recommendation': 'Continue routine eye checkups every 1-2 years. Maintain good eye health habits.',
+  'dx.borderline.condition': 'Borderline Vision',
+  'dx.borderline.severity': 'Minor Concerns',
+  'dx.borderline.description': 'Your vision shows some minor limitations that could be early-stage refractive error or temporary factors like eye fatigue.',
+  'dx.borderline.recommendation': 'Monitor your vision and retest in 3-6 months. Consider a professional checkup if symptoms persist.',
+
+  // ── Near-vision card ──
+  'near.text1': 'THE QUICK BROWN FOX',
+  'near.text2': 'THE QUICK BROWN FOX JUMPS',
+  'near.text3': 'THE QUICK BROWN FOX JUMPS OVER',
+  'near.text4': 'The quick brown fox jumps over the lazy',
+  'near.text5': 'The quick brown fox jumps over the lazy dog',
+  'near.text6': 'The quick brown fox jumps over the lazy dog nearby',
+  'near.text7': 'The quick brown fox jumps over the lazy dog in the field',
+  'near.desc1': 'Very large print',
+  'near.desc2': 'Large print',
+  'near.desc3': 'Moderately large',
+  'near.desc4': 'Book print size',
+  'near.desc5': 'Standard newsprint',
+  'near.desc6': 'Small newsprint',
+  'near.desc7': 'Fine print (excellent)',
+
+  // ── Visual acuity test ──
+  'va.title': 'Visual Acuity Test',
+  'va.subtitle': 'Distance & Near Vision Screening',
+  'va.distanceLabel': 'Distance Vision',
+  'va.distanceDesc': 'Detects myopia (nearsightedness) — difficulty seeing far objects like blackboards or road signs.',
+  'va.nearLabel': 'Near Vision',
+  'va.nearDesc': 'Detects hypermetropia (farsightedness) — difficulty reading books or phone screens.',
+  'va.durationLabel': '8–12 Minutes',
+  'va.durationDesc': 'Each eye is tested separately for both distance and near vision.',
+  'va.age': 'Patient Age',
+  'va.agePlaceholder': 'Age in years (optional)',
+  'va.ageHint': 'From age 40 the near test also estimates the strength of reading glasses needed.',
+  'va.distanceTitle': 'Distance Vision Test',
+  'va.part1of2': 'Part 1 of 2',
+  'va.part2of2': 'Part 2 of 2',
+  'va.setupStep1': 'Stand still and hold the phone facing you',
+  'va.setupStep2': 'The app will guide you with voice to the correct 3-metre distance',
+  'va.setupStep3': 'Screen brightness will be set to maximum automatically',
+  'va.setupStep4': 'Have someone help tap answers, or use voice',
+  'va.setupTip': '💡 The app uses motion sensors to measure distance — a helper walks the phone to the correct position',
+  'va.chartType': 'Chart Type',
+  'va.presentation': 'Presentation',
+  'va.presentSingle': 'Single optotype',
+  'va.presentSingleDesc': 'One letter or symbol at a time. Quickest, but it can overstate vision in a lazy eye',
+  'va.presentCrowded': 'Full line (crowded)',
+  'va.presentCrowdedDesc': 'The whole line with bars around it and a marker on the one to read. Recommended for children and amblyopia screening',
+  'va.chartLetters': '🔤 Letters',
+  'va.chartLettersDesc': 'The patient names each letter they see',
+  'va.chartE': 'Ш Tumbling E',
+  'va.chartEDesc': 'For patients who cannot read letters — they point in the direction the bars of the E face',
+  'va.chartLea': '🏠 Pictures (ages 3–6)',
+  'va.chartLeaDesc': 'LEA symbols for young children — they name or point to the matching picture. Child pass/refer levels are used and the near test is skipped.',
+  'va.procedure': 'Test Procedure',
+  'va.conditions': 'Test Conditions',
+  'va.conditionsBody': 'Each eye is always tested first without glasses. Add the runs below if they apply.',
+  'va.conditionSpectacles': 'With current glasses',
+  'va.conditionSpectaclesDesc': 'Test each eye again in the glasses the patient wears for distance, to check they are still good enough',
+  'va.conditionBinocular': 'Both eyes open',
+  'va.conditionBinocularDesc': 'One more run with both eyes open, as the patient normally sees',
+  'va.answerMode': 'How Answers Are Given',
+  'va.answerTap': '👆 Helper taps answers',
+  'va.answerTapDesc': 'The patient calls out each answer and a helper taps it in',
+  'va.answerSpoken': '🎤 Spoken answers',
+  'va.answerSpokenDesc': 'The phone listens to the patient directly — no helper needed. Unclear answers are read back and confirmed before they count.',
+  'va.answerRemote': 'Second Phone',
+  'va.answerRemoteDesc': 'The examiner stands beside the patient and marks answers on a paired phone. Needs both phones on the same Wi-Fi.',
+  'va.listening': '🎤 Listening — say the answer out loud',
+  'va.heardConfirm': 'Heard “{heard}” — was that {answer}?',
+  'va.heardCantSee': 'Heard “can\'t see” — is that right?',
+  'va.positioned': "I've Positioned My Phone",
+  'va.distanceCheck': 'Distance Check',
+  'va.distanceCheckSub': 'Are you 3 meters away?',
+  'va.quickCheck': 'Quick Check',
+  'va.quickCheckBody': 'You should be about 3 meters from the screen. Use these guides:',
+  'va.checkSteps': 'Walk 3-4 large steps back from the phone',
+  'va.checkSofa': 'About the length of a standard sofa',
+  'va.checkTape': 'Use a measuring tape if available',
+  'va.calibrationHint': 'Can you see this letter clearly from where you stand?',
+  'va.screenCalTitle': '💳 Screen Calibration',
+  'va.screenCalDone': 'This phone was calibrated on {date}. A bank or ID card placed on the rectangle below should match it exactly.',
+  'va.placeCard': '📇 Place card here',
+  'va.recalibrate': "It doesn't match — Recalibrate",
+  'va.screenCalNeeded': 'This phone has not been calibrated yet, so letter sizes are estimated. On some phones they will be visibly wrong. Calibrating takes 30 seconds with any bank or ID card and only needs doing once.',
+  'va.calibrateNow': 'Calibrate Screen Now',
+  'va.startRight': '👁️ Starting with Right Eye',
+  'va.startRightBody': 'Before we begin, cover your LEFT eye with your hand. Keep your RIGHT eye open.',
+  'va.yesReady': "Yes, I'm Ready",
+  'va.testing': 'Testing: {eye} EYE',
+  'va.testingNear': 'Testing: {eye} EYE (Near)',
+  'va.cover': 'Cover your {eye} eye with your hand',
+  'va.coverGlassesOn': 'Cover your {eye} eye • keep your glasses on',
+  'va.testingBoth': 'Testing: BOTH EYES',
+  'va.keepBothOpen': 'Keep both eyes open',
+  'va.lineOf': 'Line {current} of {total}',
+  'va.size': 'Size {acuity}',
+  'va.renderWarning': '⚠️ This screen cannot draw {acuity} letters accurately. A result on this line may not be reliable.',
+  'va.questionE': 'Which way are the bars of the E pointing?',
+  'va.swipeHint': '…or swipe across the E in the same direction',
+  'va.crowdedHint': 'Read only the one marked ▲',
+  'va.questionLea': 'Which picture do you see?',
+  'va.questionLetter': 'What letter do you see?',
+  'va.worseThan': 'Worse than {acuity}',
+  'va.switchLeft': 'Switch to Left Eye',
+  'va.switchDistanceSub': 'Distance Vision — Part 1 of 2',
+  'va.switchNearSub': 'Near Vision — Part 2 of 2',
+  'va.greatJobRight': 'Great job on the right eye!',
+  'va.nowLeft': 'Now we need to test your left eye. Please:',
+  'va.coverRight': 'Cover your RIGHT eye with your hand',
+  'va.coverLeft': 'Cover your LEFT eye with your hand',
+  'va.glassesTitle': 'Put On Glasses',
+  'va.glassesBody': 'Now test each eye again with the glasses you wear for distance.',
+  'va.bothEyesTitle': 'Both Eyes Open',
+  'va.bothEyesBody': 'Last run: read the chart with both eyes open.',
+  'va.conditionOf': 'Test condition {current} of {total}',
+  'va.putOnGlasses': 'Put on the glasses you normally wear for distance',
+  'va.keepGlassesOn': 'Keep your glasses on',
+  'va.keepLeftOpen': 'Keep your LEFT eye open',
+  'va.stay3m': 'Stay 3 meters from the screen',
+  'va.tapReady': 'Tap "I\'m Ready" once your right eye is covered and you can only see the screen with your left eye.',
+  'va.distanceResults': 'Distance Vision Results',
+  'va.part1Complete': 'Part 1 Complete',
+  'va.part2Complete': 'Part 2 Complete',
+  'va.childNoNear': 'Young children are not given the near reading test. Continue to see the child screening result.',
+  'va.distanceConcern': '⚠️ Your distance vision may indicate myopia (nearsightedness). Continue to the near vision test for a complete assessment.',
+  'va.distancePinholeConcern': '⚠️ Vision in at least one eye did not improve through the pinhole. This should be checked by an eye care professional. Continue to the near vision test to complete the screening.',
+  'va.distanceHealthy': '✅ Your distance vision appears to be in a healthy range. Continue to the near vision test to complete the screening.',
+  'va.viewChildResult': 'View Child Screening Result',
+  'va.continueNear': 'Continue to Near Vision Test',
+  'va.nearTitle': 'Near Vision Test',
+  'va.nearStep1': 'Hold the phone facing you — the app will guide you to 40 cm',
+  'va.nearStep2': 'Brightness will stay at maximum for best contrast',
+  'va.nearStep3': "We'll show text in decreasing sizes — read each aloud",
+  'va.nearTip': '💡 40 cm is roughly the length from your elbow to your fingertips',
+  'va.levelOf': 'Level {current} of {total}',
+  'va.nearQuestion': 'Can you read this text clearly?',
+  'va.nearYes': '✅ Yes, clearly',
+  'va.nearNo': "❌ No, it's blurry",
+  'va.rightComplete': 'Right eye complete!',
+  'va.nowLeftNear': "Now we'll test your left eye's near vision. Please:",
+  'va.hold40': "Hold the phone at 40 cm (arm's length)",
+  'va.nearResults': 'Near Vision Results',
+  'va.viewAssessment': 'View Complete Assessment',
+  'va.methodDistance': '3-metre {chart} chart, {strategy} (DPI-calibrated, face-distance verified)',
+  'va.methodNearChild': 'Not performed (child screening)',
+  'va.methodNear': '40 cm Jaeger scale (DPI-calibrated, face-distance verified)',
+  'va.methodBrightness': 'Auto-maxed to 100% during test',
+  'va.methodNote': '📐 Tested at verified distances (camera-calibrated) with auto-max brightness • ',
+  'va.methodChild': 'LEA Symbols 3 m, child thresholds',
+  'va.methodCharts': '{chart} 3 m + Jaeger 40 cm',
+  'va.cardCalibrated': ' • card-calibrated screen',
+  'va.crowdedNote': ' • crowded full lines',
+  'va.notCalibrated': ' • screen not calibrated',
+  'va.placedSteps': ' • 3 m paced out: {steps} steps ≈ {metres} m',
+  'va.placedStepsDefault': ' • 3 m paced out: {steps} steps ≈ {metres} m (uncalibrated stride)',
+  'va.placedManual': ' • distance set without the step counter',
+  'va.distanceSummary': '📏 Distance Vision (3 m {chart})',
+  'va.otherConditions': '👓 Other Test Conditions',
+  'va.rightGlassesColon': 'Right Eye, glasses:',
+  'va.leftGlassesColon': 'Left Eye, glasses:',
+  'va.bothEyesColon': 'Both Eyes:',
+  'va.bothGlassesColon': 'Both Eyes, glasses:',
+  'va.glassesVerdictColon': 'Current glasses:',
+  'va.whoColon': 'WHO Category:',
+  'va.nearSummary': '📖 Near Vision (40 cm Jaeger)',
+  'va.readingGlasses': '👓 Reading Glasses',
+  'va.readingAddColon': 'Estimated add:',
+  'va.readingSpeed': '⏱️ Reading Speed (both eyes)',
+  'va.maxReadingSpeedColon': 'Maximum speed:',
+  'va.criticalPrintColon': 'Critical print size:',
+  'va.testReadingSpeed': '⏱️ Test Reading Speed',
+  'va.retestReadingSpeed': '⏱️ Retest Reading Speed',
+  'va.recommendation': '📋 Recommendation',
+  'va.disclaimer': '⚠️ This screening is not a substitute for a professional eye examination. Please visit a qualified optometrist for a comprehensive assessment.',
+  'va.save': 'Done — Save Results',
+
+  // ── Colour vision test ──
+  'cv.protan': 'Protanopia (Red-weak)',
+  'cv.deutan': 'Deuteranopia (Green-weak)',
+  'cv.tritan': 'Tritanopia (Blue-yellow)',
+  'cv.normal': 'Normal Color Vision',
+  'cv.title': 'Color Vision Test',
+  'cv.subtitle': 'Ishihara Pseudoisochromatic Screening',
+  'cv.redGreenLabel': 'Red-Green Vision',
+  'cv.redGreenDesc': 'Detects protanopia and deuteranopia — the most common color vision deficiencies (8% of males).',
+  'cv.blueYellowLabel': 'Blue-Yellow Vision',
+  'cv.blueYellowDesc': 'Screens for tritanopia — a rarer condition affecting blue-yellow color perception.',
+  'cv.durationLabel': '3–5 Minutes',
+  'cv.durationDesc': '14 Ishihara-style plates. Identify the number hidden in each dot pattern.',
+  'cv.clinicalBody': 'Based on the Ishihara 14-plate screening edition, the international standard for color vision testing used by ophthalmologists worldwide.',
+  'cv.clinicalTip': '🔬 Colors calibrated to CIE 1931 chromaticity standards for accurate pseudoisochromatic testing.',
+  'cv.setupStep1': 'Screen brightness is set automatically while the plates are shown',
+  'cv.setupStep2': 'Ensure good indoor lighting (1,000–2,500 lux recommended)',
+  'cv.setupStep3': "Hold phone at 50–75 cm (~arm's length) from your eyes",
+  'cv.setupStep4': 'Disable any color filters, night mode, or blue light filters',
+  'cv.setupWarning': '⚠️ Night mode, blue light filters, or screen tints will invalidate the test. Please disable them before proceeding.',
+  'light.title': '💡 Room lighting',
+  'light.measuring': 'Measuring the room light…',
+  'light.lux': '{lux} lux',
+  'light.range': 'Suitable for this test: {min}–{max} lux',
+  'light.ok': 'Lighting is good',
+  'light.tooDark': 'Too dark',
+  'light.tooBright': 'Too bright',
+  'light.tooDarkAdvice': 'Turn on a light or move nearer a window. Results in a dark room are less reliable.',
+  'light.tooBrightAdvice': 'Move into the shade so that no sunlight falls on the screen.',
+  'light.noSensor': 'This phone has no light sensor. Test in an evenly lit room, out of direct sunlight, with no lamp reflecting on the screen.',
+  'cv.howItWorks': 'How It Works',
+  'cv.howBody': 'You\'ll see circular plates filled with colored dots. A number is hidden within each plate. Tap the number you see, or "Can\'t See a Number" if you can\'t identify one.',
+  'cv.howDemo': 'The first plate is a demonstration — everyone should be able to read it. This confirms your screen is displaying colors correctly.',
+  'cv.plateOf': 'Plate {current} of {total}',
+  'cv.demoPlate': 'Demonstration Plate',
+  'cv.blueYellowScreening': 'Blue-Yellow Screening',
+  'cv.redGreenScreening': 'Red-Green Screening',
+  'cv.question': 'What number do you see?',
+  'cv.cantSee': "Can't See a Number",
+  'cv.resultsTitle': 'Color Vision Results',
+  'cv.resultsSubtitle': 'Ishihara 14-Plate Screening',
+  'cv.overallScore': 'Overall Score',
+  'cv.correctOf': '{correct}/{total} correct',
+  'cv.classification': 'Classification',
+  'cv.noDeficiency': 'No deficiency',
+  'cv.mildDeficiency': 'Mild deficiency',
+  'cv.moderateDeficiency': 'Moderate deficiency',
+  'cv.strongDeficiency': 'Strong deficiency',
+  'cv.plateByPlate': 'Plate-by-Plate Results',
+  'cv.plate': 'Plate {number}',
+  'cv.catDemo': 'Demo',
+  'cv.catBlueYellow': 'Blue-Yellow',
+  'cv.catRedGreen': 'Red-Green',
+  'cv.correct': '✓ Correct',
+  'cv.was': '✗ (was {answer})',
+  'cv.normalBody': 'Your color vision appears normal. You correctly identified numbers across all color axes tested, including red-green and blue-yellow plates. No signs of color vision deficiency were detected.',
+  'cv.possible': 'Results suggest a possible {severity} {type} color vision deficiency.',
+  'cv.severity.mild': 'mild',
+  'cv.severity.moderate': 'moderate',
+  'cv.severity.strong': 'strong',
+  'cv.type.protan': 'protan (red-weak)',
+  'cv.type.deutan': 'deutan (green-weak)',
+  'cv.type.tritan': 'tritan (blue-yellow)',
+  'cv.recommendBody': 'This screening suggests you may have difficulty distinguishing certain colors. Please consult an eye care professional for a comprehensive color vision evaluation using full Ishihara 38-plate or Farnsworth-Munsell 100 Hue tests.',
+  'cv.testStandard': 'Test Standard',
+  'cv.testStandardValue': 'Ishihara 14-plate',
+  'cv.plateCategories': 'Plate Categories',
+  'cv.plateCategoriesValue': 'Demo, Vanishing, Transform',
+  'cv.colorStandard': 'Color Standard',
+  'cv.colorStandardValue': 'CIE 1931 chromaticity',
+  'cv.deficiencyTypes': 'Deficiency Types',
+  'cv.deficiencyTypesValue': 'Protan, Deutan, Tritan',
+  'cv.disclaimer': '⚠️ This is a screening tool, not a medical diagnosis. Smartphone screens may not reproduce Ishihara colors with full clinical accuracy. Results may vary with screen calibration, brightness, and ambient lighting. Consult a qualified eye care professional for definitive testing.',
+
+  // ── Astigmatism test ──
+  'astig.recNone': 'No signs of astigmatism detected. Your vision appears to focus evenly in all directions. Continue routine eye checkups every 1–2 years.',
+  'astig.recInconsistent': 'Results were slightly inconsistent. This could be due to eye fatigue or testing conditions. Consider retesting after resting your eyes, or visit an eye care professional if you notice distorted or stretched vision.',
+  'astig.recMild': 'Mild directional focus difference detected. This may indicate a small amount of astigmatism. While often not vision-affecting, consider an optometric examination if you experience headaches, eye strain, or difficulty with fine detail.',
+  'astig.recModerate': 'Moderate directional focus imbalance detected in one or both eyes. This is consistent with astigmatism that may benefit from corrective lenses. We recommend visiting an optometrist for a comprehensive refraction test with a Jackson Cross Cylinder to determine the exact prescription.',
+  'astig.recSignificant': 'Significant directional focus imbalance detected. This strongly suggests astigmatism that likely affects your daily vision. Please visit an eye care professional promptly for a full refraction assessment. Corrective glasses or contact lenses (toric lenses) can substantially improve your vision clarity.',
+  'astig.none': 'No Astigmatism Detected',
+  'astig.mild': 'Mild Suspicion',
+  'astig.moderate': 'Moderate Suspicion',
+  'astig.significant': 'Significant Suspicion',
+  'astig.unknown': 'Unknown',
+  'astig.title': 'Astigmatism Screening',
+  'astig.subtitle': 'Astigmatic Dial Test',
+  'astig.whatIs': 'What Is Astigmatism?',
+  'astig.unevenLabel': 'Uneven Focus',
+  'astig.unevenDesc': "Astigmatism means the eye doesn't focus light evenly in all directions. Some angles appear sharper while others look blurry or distorted.",
+  'astig.howLabel': 'How We Test',
+  'astig.howDesc': "You'll look at a dial with lines radiating in all directions, like a clock. If some lines look darker or clearer than others, it may indicate astigmatism.",
+  'astig.durationLabel': '3–4 Minutes',
+  'astig.durationDesc': 'Each eye tested separately, with a confirmation round for accuracy. Quick and non-invasive.',
+  'astig.clinicalBody': 'Based on the Astigmatic Dial (Clock Dial) method — the most widely used clinical screening tool for astigmatism. Uses 12 equally-spaced meridian lines at 15° intervals.',
+  'astig.clinicalTip': '🔬 This is a screening tool that detects directional focus differences. It does NOT measure prescription power — only an optometrist with a Jackson Cross Cylinder can do that.',
+  'astig.setupStep1': "Hold your phone at arm's length (~50–75 cm) or the same distance used for your visual acuity test",
+  'astig.setupStep2': 'Set screen brightness to maximum — glare or dim screens can hide astigmatism',
+  'astig.setupStep3': 'Ensure neutral indoor lighting — avoid direct sunlight or shadows on the screen',
+  'astig.setupStep4': 'If you normally wear glasses for distance, wear them during the test',
+  'astig.procedure': 'Testing Procedure',
+  'astig.procStep1': "Cover your LEFT eye first. We'll test the RIGHT eye, then switch.",
+  'astig.procStep2': 'Look at the center red dot. Then tap any lines that appear darker, thicker, or clearer than the others.',
+  'astig.procStep3': 'If all lines look equally clear, tap "All Lines Equal". You\'ll be asked to confirm your answer once.',
+  'astig.procTip': "⚠️ Focus on the center dot, not on individual lines. Let your peripheral awareness judge which lines stand out. Don't squint — use your natural relaxed vision.",
+  'astig.rightOD': 'Right Eye (OD)',
+  'astig.leftOS': 'Left Eye (OS)',
+  'astig.coverLeftShort': 'Cover your LEFT eye',
+  'astig.coverRightShort': 'Cover your RIGHT eye',
+  'astig.coverLeftTitle': 'Cover Your Left Eye',
+  'astig.coverRightTitle': 'Cover Your Right Eye',
+  'astig.coverDesc': 'Use your palm or an occluder to gently cover your {eye} eye. Do not press on the eye — just block the vision.',
+  'astig.eyeLeft': 'left',
+  'astig.eyeRight': 'right',
+  'astig.instructionHint': 'Focus on the red center dot.\nTap any lines that look darker, thicker, or clearer.',
+  'astig.showDial': "I'm Ready — Show the Dial",
+  'astig.firstLook': 'First Look',
+  'astig.confirmation': 'Confirmation',
+  'astig.eyeRound': '{eye} — {round}',
+  'astig.leftCovered': 'Left eye covered',
+  'astig.rightCovered': 'Right eye covered',
+  'astig.round1Question': 'Tap any lines that appear darker or clearer',
+  'astig.round2Question': 'Confirm: tap the darker/clearer lines again',
+  'astig.selectedOne': '1 line selected: {angles}',
+  'astig.selectedMany': '{count} lines selected: {angles}',
+  'astig.allEqual': 'All Lines Equal',
+  'astig.next': 'Next →',
+  'astig.confirm': 'Confirm →',
+  'astig.eyeConfirm': '{eye} — Confirm',
+  'astig.repeat': 'Repeat the test for accuracy',
+  'astig.confirmTitle': 'Confirmation Round',
+  'astig.confirmEqual': "You reported all lines looked equal. Let's verify — look at the dial again and confirm whether all lines truly appear the same.",
+  'astig.confirmOne': 'You identified 1 darker line. Now look at the dial again with fresh eyes and tell us what you see.',
+  'astig.confirmMany': 'You identified {count} darker lines. Now look at the dial again with fresh eyes and tell us what you see.',
+  'astig.confirmTip': '💡 This repeat helps ensure accuracy. Blink a few times and refocus on the center dot before proceeding.',
+  'astig.showAgain': 'Show Dial Again',
+  'astig.rightComplete': 'Right Eye Complete ✓',
+  'astig.nowLeft': 'Now testing the left eye',
+  'astig.switchEyes': 'Switch Eyes',
+  'astig.switchDesc': 'Now cover your RIGHT eye and keep your LEFT eye open.',
+  'astig.switchHint': 'Take a moment to rest your eyes before continuing.',
+  'astig.rightResult': 'Right Eye Result',
+  'astig.miniEqual': 'All lines appeared equal — no astigmatism signs',
+  'astig.miniOne': '1 direction appeared darker',
+  'astig.miniMany': '{count} directions appeared darker',
+  'astig.testLeft': 'Test Left Eye',
+  'astig.uniform': 'All lines appeared equally clear — no directional focus difference detected.',
+  'astig.darkerAt': 'Darker lines reported at: {angles}',
+  'astig.axis': 'Suspected astigmatic axis: ~{axis}°',
+  'astig.consistent': '✓ Consistent across both rounds',
+  'astig.inconsistent': '⚠ Inconsistent between rounds — retest recommended',
+  'astig.resultsTitle': 'Astigmatism Results',
+  'astig.resultsSubtitle': 'Astigmatic Dial Screening',
+  'astig.overall': 'Overall Assessment',
+  'astig.eyeByEye': 'Eye-by-Eye Results',
+  'astig.affected': 'Affected Meridians',
+  'astig.affectedBody': 'Lines that appeared darker are highlighted in orange below. The astigmatic axis is perpendicular to these lines.',
+  'astig.whatMeans': 'What This Means',
+  'astig.whatMeansBody': 'Some lines on the dial appeared darker or clearer than others. This suggests the eye may not be focusing light equally in all directions. An optometrist can precisely measure the degree and axis of astigmatism and, if needed, prescribe cylindrical corrective lenses.',
+  'astig.testMethod': 'Test Method',
+  'astig.testMethodValue': 'Astigmatic Dial',
+  'astig.meridians': 'Meridians Tested',
+  'astig.meridiansValue': '12 (every 15°)',
+  'astig.eyesTested': 'Eyes Tested',
+  'astig.eyesTestedValue': 'Both (monocular)',
+  'astig.confirmationValue': '2 rounds per eye',
+  'astig.standard': 'Standard',
+  'astig.standardValue': 'ISO 8596 principles',
+  'astig.limitations': 'Limitations',
+  'astig.limit1': 'Cannot measure cylinder power (diopters)',
+  'astig.limit2': 'Cannot prescribe corrective lenses',
+  'astig.limit3': 'Cannot replace a clinical refraction test',
+  'astig.can1': 'Can reliably screen for astigmatism',
+  'astig.can2': 'Can flag patients needing referral',
+  'astig.can3': 'Suitable for community & school screening',
+  'astig.disclaimer': '⚠️ This is a screening tool, not a medical diagnosis. Smartphone screens, ambient lighting, and viewing distance can affect results. Consult a qualified eye care professional for definitive astigmatism assessment and prescription.',
+
+  // ── Amsler grid test ──
+  'amsler.recNone': 'All lines looked straight and complete in both eyes. No sign of macular disease. Repeat this check every few months if you are over 50 or have diabetes.',
+  'amsler.recMild': 'Some lines away from the centre looked wavy or blurred. This can be an early sign of macular disease. Please see an eye care professional within a month, and sooner if it gets worse.',
+  'amsler.recSignificant': 'Lines near the centre looked distorted, or parts of the grid were missing. This can be a sign of wet macular degeneration or another macular disease that needs treatment quickly. Please see an eye care professional within days.',
+  'amsler.none': 'Lines Straight',
+  'amsler.mild': 'Peripheral Distortion',
+  'amsler.significant': 'Central Distortion or Missing Area',
+  'amsler.title': 'Amsler Grid',
+  'amsler.subtitle': 'Macular Screening',
+  'amsler.whatIs': 'What is the Amsler Grid?',
+  'amsler.maculaLabel': 'The Macula',
+  'amsler.maculaDesc': 'The centre of the retina, used for reading and recognising faces. Diseases such as macular degeneration and diabetic macular oedema bend or blank out straight lines there.',
+  'amsler.howLabel': 'How It Works',
+  'amsler.howDesc': 'You look at a dot in the middle of a grid and mark any lines that look wavy, blurred or missing.',
+  'amsler.durationLabel': 'Duration',
+  'amsler.durationDesc': 'About 1–2 minutes per eye',
+  'amsler.clinicalBody': 'The Amsler grid is a 10 cm chart of 20 × 20 squares with a central dot. At the right distance each square covers 1° of vision, so the grid maps the central 20° — the whole macula.',
+  'amsler.clinicalTip': '💡 The grid is sized to this phone using the card calibration. Hold it at the distance shown so each square covers 1°.',
+  'amsler.setupStep1': 'Sit in a well-lit room. Wear your reading glasses if you use them.',
+  'amsler.setupStep2': 'Hold the phone {cm} cm from your eyes — about the length of a school ruler.',
+  'amsler.setupStep3': 'Each eye is tested on its own. Keep the other eye covered.',
+  'amsler.procedure': 'Test Procedure',
+  'amsler.procStep1': 'Look only at the dot in the centre of the grid — do not look around.',
+  'amsler.procStep2': 'Trace or tap any squares where lines look wavy, blurred, faded or missing.',
+  'amsler.procStep3': 'Press Done. If all lines look straight, say so.',
+  'amsler.procTip': '💡 Choose "Wavy" for bent or blurred lines and "Missing" for gaps or faded patches before you mark them.',
+  'amsler.coverDesc': 'Cover your {eye} eye with your palm. Hold the phone {cm} cm away and look at the centre dot.',
+  'amsler.instructionHint': 'Keep your eye on the centre dot the whole time. Moving your eye hides the problem areas.',
+  'amsler.showGrid': 'Show Grid',
+  'amsler.centreQuestion': 'Looking at the centre, can you see the dot?',
+  'amsler.markQuestion': 'Keep looking at the dot. Trace over any lines that look wavy, blurred or missing.',
+  'amsler.brushDistorted': 'Wavy',
+  'amsler.brushMissing': 'Missing',
+  'amsler.markedOne': '1 square marked',
+  'amsler.markedMany': '{count} squares marked',
+  'amsler.allStraight': 'All Lines Straight',
+  'amsler.clear': 'Clear',
+  'amsler.switchDesc': 'Uncover your left eye and cover your right eye. Hold the phone at the same distance.',
+  'amsler.miniNone': 'All lines straight',
+  'amsler.resultsTitle': 'Amsler Grid Results',
+  'amsler.noCentreDot': 'Centre dot not seen',
+  'amsler.allStraightResult': 'All lines looked straight and complete.',
+  'amsler.markCounts': 'Wavy: {distorted} squares • Missing: {missing} squares',
+  'amsler.centralInvolved': 'Affects the central 10° of vision',
+  'amsler.mapTitle': 'Distortion Map',
+  'amsler.whatMeansBody': 'Straight lines that look bent, blurred or missing mean the macula may be swollen, scarred or thinned. An eye care professional can examine the retina and, for wet macular degeneration, start treatment that can save sight if given early.',
+  'amsler.testMethodValue': 'Amsler Grid',
+  'amsler.grid': 'Grid',
+  'amsler.gridValue': '20 × 20, {mm} mm squares',
+  'amsler.viewingDistance': 'Viewing Distance',
+  'amsler.viewingDistanceValue': '{cm} cm',
+  'amsler.limit1': 'Cannot diagnose the cause of distortion',
+  'amsler.limit2': 'Cannot detect early disease that has not yet bent lines',
+  'amsler.can1': 'Can flag macular changes needing referral',
+  'amsler.can2': 'Can be repeated at home to watch for new changes',
+  'amsler.disclaimer': '⚠️ This is a screening tool, not a medical diagnosis. Viewing distance, fixation and lighting affect results. Consult a qualified eye care professional for a retinal examination.',
+
+  // ── Contrast sensitivity test ──
+  'cs.normal': 'Normal',
+  'cs.reduced': 'Reduced',
+  'cs.severe': 'Severely Reduced',
+  'cs.recNormal': 'Contrast sensitivity is normal for your age in both eyes. Continue routine eye checkups every 1–2 years.',
+  'cs.recReduced': 'Contrast sensitivity is below normal for your age. This can be an early sign of cataract, glaucoma or diabetic eye disease, even when letters on an eye chart look sharp. Please book an eye examination.',
+  'cs.recSevere': 'Contrast sensitivity is severely reduced. This makes faces, steps and kerbs hard to see and night travel unsafe. Please see an eye care professional within a month.',
+  'cs.title': 'Contrast Sensitivity',
+  'cs.subtitle': 'Pelli-Robson Letter Chart',
+  'cs.whatIs': 'What is Contrast Sensitivity?',
+  'cs.contrastLabel': 'Seeing Faint Detail',
+  'cs.contrastDesc': 'How faint an object can be before you lose it — a grey step on a grey floor, a face in shade. Cataract, glaucoma and diabetic eye disease often reduce it before they blur the eye chart.',
+  'cs.howLabel': 'How It Works',
+  'cs.howDesc': 'You read groups of three large letters. Each group is fainter than the last, until the letters fade away.',
+  'cs.durationLabel': 'Duration',
+  'cs.durationDesc': 'About 1–2 minutes per eye',
+  'cs.clinicalBody': 'The Pelli-Robson chart shows groups of three letters, each group 0.15 log units fainter than the one before, from black down to barely-there grey. The score is the log contrast sensitivity (logCS): 2.0 is excellent, below 1.5 is reduced.',
+  'cs.clinicalTip': '💡 The letter shades are corrected for how phone screens display grey, so the faintest groups show at the right contrast.',
+  'cs.age': 'Patient Age',
+  'cs.agePlaceholder': 'Age in years (optional)',
+  'cs.ageHint': 'Contrast sensitivity falls with age. Lowest normal score for this age: {limit}',
+  'cs.setupStep1': 'Sit in a well-lit room with no light or window reflected in the screen.',
+  'cs.setupStep2': 'Hold the phone about {cm} cm from your eyes. Wear your distance glasses if you use them.',
+  'cs.setupStep3': 'Each eye is tested on its own. Keep the other eye covered.',
+  'cs.procedure': 'Test Procedure',
+  'cs.procStep1': 'The marker shows which of the three letters to name.',
+  'cs.procStep2': 'Tap the letter you see, or ask a helper to tap it for you.',
+  'cs.procStep3': 'Keep going as the letters get fainter. Guess if you can see something but are not sure.',
+  'cs.procTip': '💡 Take your time — faint letters can take a few seconds to appear. The test stops when you miss two letters of a group.',
+  'cs.coverDesc': 'Cover your {eye} eye with your palm. Hold the phone about {cm} cm away.',
+  'cs.instructionHint': 'Look steadily at each letter for a few seconds before answering. Blinking can help faint letters appear.',
+  'cs.showLetters': 'Show Letters',
+  'cs.tripletProgress': 'Group {current} of {total}',
+  'cs.question': 'Which letter is above the marker?',
+  'cs.switchDesc': 'Uncover your left eye and cover your right eye. Hold the phone at the same distance.',
+  'cs.logCSValue': 'logCS {value}',
+  'cs.lettersCorrect': '{count} letters read correctly',
+  'cs.atCeiling': 'Read the faintest letters this screen can show — true sensitivity may be higher',
+  'cs.resultsTitle': 'Contrast Sensitivity Results',
+  'cs.normForAge': 'Lowest normal for age {age}: logCS {limit}',
+  'cs.normUnknownAge': 'Lowest normal for adults: logCS {limit} (no age given)',
+  'cs.whatMeansBody': 'Reduced contrast sensitivity means faint edges and shades are lost. It is common with cataract, glaucoma, diabetic eye disease and optic nerve problems, and can make daily tasks hard even when the eye chart is read well. An eye examination can find the cause.',
+  'cs.testMethodValue': 'Pelli-Robson (letter-by-letter)',
+  'cs.letters': 'Letters',
+  'cs.lettersValue': 'Sloan, {mm} mm tall',
+  'cs.viewingDistance': 'Viewing Distance',
+  'cs.viewingDistanceValue': '{cm} cm',
+  'cs.range': 'Range',
+  'cs.rangeValue': 'logCS 0.00–{max}',
+  'cs.limit1': 'Cannot find the cause of reduced contrast sensitivity',
+  'cs.limit2': 'Screen reflections and glare can lower the score',
+  'cs.can1': 'Can flag cataract, glaucoma and retinal disease that acuity misses',
+  'cs.can2': 'Can show how well a patient will manage in dim light',
+  'cs.disclaimer': '⚠️ This is a screening tool, not a medical diagnosis. Screen quality, lighting and reflections affect results. Consult a qualified eye care professional for a full eye examination.',
+
+  // ── Test suite ──
+  'suite.completed': 'Completed',
+  'suite.skipped': 'Skipped',
+  'suite.pending': 'Pending',
+  'suite.title': 'Complete Eye Screening',
+  'suite.subtitle': '5 tests • ~16 minutes total',
+  'suite.plan': 'Your Screening Plan',
+  'suite.planBody': "We'll guide you through five clinically-standard tests in sequence. You can skip any test you'd like.",
+  'suite.agePlaceholder': 'Age in years (optional)',
+  'suite.ageHint': 'Sets the contrast norm, and from age 40 the near test also estimates the reading glasses needed.',
+  'suite.vaTitle': '👓 Visual Acuity',
+  'suite.vaDesc': 'Distance & near vision clarity • Snellen & Jaeger standard',
+  'suite.csTitle': '◐ Contrast Sensitivity',
+  'suite.csDesc': 'Reading faint letters • Pelli-Robson chart',
+  'suite.cvTitle': '🎨 Color Vision',
+  'suite.cvDesc': 'Red-green & blue-yellow screening • Ishihara 14-plate',
+  'suite.astigTitle': '◎ Astigmatism',
+  'suite.astigDesc': 'Directional focus balance • Astigmatic dial method',
+  'suite.amslerTitle': '▦ Amsler Grid',
+  'suite.amslerDesc': 'Macular distortion & missing areas • Amsler chart method',
+  'suite.minutes5': '~5 min',
+  'suite.minutes3': '~3 min',
+  'suite.tip': '💡 You can skip any test and return to it later from the home screen. Each test can also be run independently.',
+  'suite.begin': 'Begin Screening',
+  'suite.vaSkipped': 'Visual Acuity Skipped',
+  'suite.vaComplete': 'Visual Acuity Complete',
+  'suite.upNext': 'Up Next',
+  'suite.csNextTitle': 'Contrast Sensitivity Test',
+  'suite.csNextDesc': 'Read groups of letters that get fainter and fainter. Finds cataract and glaucoma that can hide behind a good eye chart score.',
+  'suite.startCs': 'Start Contrast Sensitivity Test',
+  'suite.csSkipped': 'Contrast Sensitivity Skipped',
+  'suite.csComplete': 'Contrast Sensitivity Complete',
+  'suite.cvNextTitle': 'Color Vision Test',
+  'suite.cvNextDesc': 'Identify numbers hidden in colored dot patterns. Tests for red-green and blue-yellow color vision deficiencies.',
+  'suite.threeMinutes': '~3 minutes',
+  'suite.startCv': 'Start Color Vision Test',
+  'suite.skipTest': 'Skip This Test',
+  'suite.cvSkipped': 'Color Vision Skipped',
+  'suite.cvComplete': 'Color Vision Complete',
+  'suite.finalTest': 'Final Test',
+  'suite.astigNextTitle': 'Astigmatism Screening',
+  'suite.astigNextDesc': 'Look at a dial of radiating lines and identify any that appear darker or clearer. Tests for directional focus imbalance.',
+  'suite.startAstig': 'Start Astigmatism Test',
+  'suite.astigSkipped': 'Astigmatism Skipped',
+  'suite.astigComplete': 'Astigmatism Complete',
+  'suite.amslerNextTitle': 'Amsler Grid Test',
+  'suite.amslerNextDesc': 'Look at the dot in the middle of a grid and mark any lines that look wavy or missing. Tests the macula, the centre of your vision.',
+  'suite.startAmsler': 'Start Amsler Grid Test',
+  'suite.vaQuick': 'RE: {right} / LE: {left}',
+  'suite.cvQuick': '{score}% — {type}',
+  'suite.complete': 'Screening Complete',
+  'suite.progress': '{completed} of {total} tests completed',
+  'suite.progressSkipped': '{completed} of {total} tests completed • {skipped} skipped',
+  'suite.resultsSummary': 'Results Summary',
+  'suite.overall': 'Overall Assessment',
+  'suite.overallWarning': '⚠️ Overall Assessment',
+  'suite.allSkipped': 'All tests were skipped. No screening data available. Consider running individual tests from the home screen.',
+  'suite.allClear': 'All completed tests show results within normal range. No immediate vision concerns detected. Continue routine eye checkups every 1–2 years.',
+  'suite.concern': 'One or more tests flagged potential concerns. We recommend consulting an eye care professional for a comprehensive examination. Detailed results for each test are shown above.',
+  'suite.saved': '✓ Saved to Test History',
+  'suite.savedFor': '✓ Saved to Test History for {name}',
+  'suite.skippedOne': '💡 You skipped 1 test. You can run it individually from the home screen at any time.',
+  'suite.skippedMany': '💡 You skipped {count} tests. You can run them individually from the home screen at any time.',
+  'suite.disclaimer': '⚠️ This is a screening tool, not a medical diagnosis. Results may vary with device, lighting, and testing conditions. Consult a qualified eye care professional for definitive assessment and treatment.',
+  'suite.clinicsConcern': 'Get your results reviewed by a professional near you',
+  'suite.clinicsSkipped': 'Complete your screening with a professional eye exam',
+  'suite.clinicsDefault': 'Locate eye care professionals in your area',
+  'suite.returnHome': 'Return Home',
+
+  // ── Results ──
+  'results.noReferral': 'No Referral Needed',
+  'results.routine': 'Routine Eye Check',
+  'results.soon': 'Refer Within 1 Month',
+  'results.urgent': 'Urgent Referral',
+  'results.csSevere': 'Severely reduced contrast sensitivity',
+  'results.csReduced': 'Contrast sensitivity below normal for age',
+  'results.csNormal': 'Normal contrast sensitivity',
+  'results.cvNormal': 'Normal color vision',
+  'results.cvBlueYellow': 'Possible blue-yellow color deficiency',
+  'results.cvRedGreen': 'Possible red-green color deficiency',
+  'results.astigSignificant': 'Significant astigmatism suspicion',
+  'results.astigModerate': 'Moderate astigmatism suspicion',
+  'results.astigMild': 'Mild astigmatism suspicion',
+  'results.astigNone': 'No astigmatism detected',
+  'results.amslerSignificant': 'Central distortion or missing area on the Amsler grid',
+  'results.amslerMild': 'Peripheral distortion on the Amsler grid',
+  'results.amslerNone': 'Amsler grid lines straight',
+  'results.notFound': 'Results not found',
+  'results.deleted': 'This screening is no longer stored on this device. It may have been deleted.',
+  'results.noneSelected': 'No screening was selected. Open a result from Test History.',
+  'results.goHistory': 'Go to Test History',
+  'results.title': 'Screening Results',
+  'results.urgency': 'Referral Urgency',
+  'results.allNormal': 'All completed tests are within the normal range. Continue routine eye checkups every 1–2 years.',
+  'results.reliability': 'Session Reliability',
+  'results.reliabilityNoIssues': 'The tests ran under good conditions.',
+  'reliability.good': 'Good',
+  'reliability.fair': 'Fair — interpret with care',
+  'reliability.poor': 'Poor — consider retesting',
+  'reliability.fastAnswers': 'Many answers came too quickly to be real readings',
+  'reliability.slowAnswers': 'Many answers came after long pauses',
+  'reliability.brightnessUnlocked': 'Screen brightness could not be set for the test',
+  'reliability.calibrationSkipped': 'A calibration step was skipped',
+  'reliability.tilted': 'The screen was tilted away from the patient for much of the test',
+  'reliability.backPresses': 'The test was interrupted with the back button several times',
+  'reliability.inconsistent': 'Astigmatism answers changed between the two rounds',
+  'reliability.lighting': 'The room was too dark or too bright for the test',
+  'results.va': '👓 Visual Acuity',
+  'results.distance': 'Distance (3 m {chart})',
+  'results.near': 'Near (40 cm Jaeger)',
+  'results.withGlasses': 'Distance, current glasses',
+  'results.glassesVerdict': 'Current glasses',
+  'results.binocular': 'Both eyes',
+  'results.binocularGlasses': 'Both eyes, glasses',
+  'results.readingGlasses': 'Reading glasses',
+  'results.readingAdd': 'Estimated add',
+  'results.readingSpeed': 'Reading speed (both eyes)',
+  'results.maxReadingSpeed': 'Maximum speed',
+  'results.criticalPrint': 'Critical print size',
+  'results.readingAcuity': 'Reading acuity',
+  'results.readingSlow': 'Slow reading — low-vision assessment',
+  'results.readingFluent': 'Fluent reading',
+  'results.pinhole': 'Through pinhole',
+  'results.cs': '◐ Contrast Sensitivity',
+  'results.csNorm': 'Lowest normal',
+  'results.csNormAge': '{limit} (age {age})',
+  'results.cv': '🎨 Color Vision',
+  'results.platesCorrect': 'Plates correct',
+  'results.bothEyes': 'Color vision is tested with both eyes open.',
+  'results.astig': '◎ Astigmatism',
+  'results.amsler': '▦ Amsler Grid',
+  'results.amslerCentral': ' • central',
+  'results.axis': ' • axis ~{axis}°',
+  'results.inconsistent': ' • inconsistent',
+  'results.clinicsDesc': 'Get these results reviewed by a professional near you',
+
+  // ── History ──
+  'history.vaSummary': 'RE {right} / LE {left}',
+  'history.amslerSummary': 'Amsler: {result}',
+  'history.csSummary': 'Contrast: {result}',
+  'history.logCS': 'logCS (RE / LE)',
+  'history.amslerMarked': 'Squares marked (RE / LE)',
+  'history.deleteTitle': 'Delete this record?',
+  'history.deleteFailedTitle': 'Could not delete',
+  'history.deleteFailedBody': 'The record is still saved on this device. Please try again.',
+  'history.saveFailedTitle': 'Could not save',
+  'history.saveFailedBody': 'The screening was not stored on this device. Please try again.',
+  'history.deleteBody': '{patient} — {date}\n\nThis cannot be undone.',
+  'history.distance': 'Distance (RE / LE)',
+  'history.logMAR': 'logMAR (RE / LE)',
+  'history.pinhole': 'Pinhole (RE / LE)',
+  'history.withGlasses': 'Glasses (RE / LE)',
+  'history.bothEyes': 'Both eyes',
+  'history.readingAdd': 'Reading add',
+  'history.readingSpeed': 'Reading speed',
+  'history.near': 'Near (RE / LE)',
+  'history.score': 'Score',
+  'history.cvResult': '{type} ({severity})',
+  'history.device': '📱 Device',
+  'history.platform': 'Platform',
+  'history.screen': 'Screen',
+  'history.appVersion': 'App Version',
+  'history.deleteRecord': 'Delete Record',
+  'history.title': 'Test History',
+  'history.countOne': '1 saved screening on this device',
+  'history.countMany': '{count} saved screenings on this device',
+  'history.search': 'Search by patient name or ID',
+  'history.empty': 'Your past vision screening results will appear here.',
+  'history.noMatch': 'No records match this search.',
+
+  // ── Clinics ──
+  'clinics.hospital': 'Hospital',
+  'clinics.optical': 'Optical',
+  'clinics.eyeClinic': 'Eye Clinic',
+  'clinics.healthCentre': 'Health Centre',
+  'clinics.svcEyeExams': 'Eye exams',
+  'clinics.svcEmergency': 'Emergency eye care',
+  'clinics.svcReferrals': 'Specialist referrals',
+  'clinics.svcGlasses': 'Prescription glasses',
+  'clinics.svcContacts': 'Contact lenses',
+  'clinics.svcScreening': 'Vision screening',
+  'clinics.svcLasik': 'LASIK surgery',
+  'clinics.svcGeneral': 'General health',
+  'clinics.svcBasicScreening': 'Basic eye screening',
+  'clinics.svcOphthalmology': 'Ophthalmology',
+  'clinics.svcOptometry': 'Optometry',
+  'clinics.onMap': 'Location available on map',
+  'clinics.filterAll': 'All',
+  'clinics.filterHospitals': '🏥 Hospitals',
+  'clinics.filterOptical': '👓 Optical',
+  'clinics.filterEyeClinics': '👁️ Eye Clinics',
+  'clinics.filterHealthCentres': '🏨 Health Centres',
+  'clinics.servicesOff': 'Location services are turned off on your device.',
+  'clinics.permissionDenied': 'Location permission was denied.',
+  'clinics.permissionFailed': 'Could not request location permission.',
+  'clinics.currentLocation': 'Your current location',
+  'clinics.gpsTimeout': 'GPS took too long. You may be indoors or have weak signal.',
+  'clinics.locationFailed': 'Could not determine your location.',
+  'clinics.fetchFailed': 'Could not fetch nearby clinics. Check your internet connection.',
+  'clinics.justNow': 'just now',
+  'clinics.minutesAgo': '{count}m ago',
+  'clinics.hoursAgo': '{count}h ago',
+  'clinics.services': 'Services',
+  'clinics.directions': '🗺️ Directions',
+  'clinics.call': '📞 Call',
+  'clinics.tapHint': 'Tap for details & directions',
+  'clinics.title': 'Find Eye Clinics',
+  'clinics.nearestTo': '{count} nearest to {place}',
+  'clinics.nearYou': '{count} clinics near you',
+  'clinics.searching': 'Searching for nearby clinics…',
+  'clinics.enableLocation': 'Enable location to find clinics near you',
+  'clinics.filterPlaceholder': 'Filter results...',
+  'clinics.requesting': 'Requesting location access…',
+  'clinics.acquiring': 'Acquiring GPS signal…',
+  'clinics.identifying': 'Identifying your area…',
+  'clinics.requestingDesc': 'Please allow location permission when prompted',
+  'clinics.acquiringDesc': 'Finding your coordinates via satellite',
+  'clinics.identifyingDesc': 'Resolving your address for nearby results',
+  'clinics.stepPermission': 'Permission',
+  'clinics.stepGps': 'GPS',
+  'clinics.stepAddress': 'Address',
+  'clinics.searchingNearby': 'Searching nearby clinics…',
+  'clinics.findingWithin': 'Finding eye care facilities within {radius} km',
+  'clinics.yourLocation': 'Your location',
+  'clinics.updated': 'Updated {time} · within {radius} km',
+  'clinics.deniedTitle': 'Location Permission Denied',
+  'clinics.offTitle': 'Location Services Off',
+  'clinics.timeoutTitle': 'GPS Signal Timeout',
+  'clinics.errorTitle': 'Location Error',
+  'clinics.tryAgain': '🔄 Try Again',
+  'clinics.openSettings': '⚙️ Open Settings',
+  'clinics.locationRequired': 'Location is required to find clinics near you.',
+  'clinics.searchGoogle': '🗺️ Search Google Maps Instead',
+  'clinics.networkError': 'Network Error',
+  'clinics.retry': '🔄 Retry',
+  'clinics.googleMaps': '🗺️ Google Maps',
+  'clinics.noneFound': 'No clinics found nearby',
+  'clinics.noneFoundDesc': "We couldn't find eye care facilities within {radius} km.\nTry expanding the search or use Google Maps.",
+  'clinics.searchWider': '🔍 Search wider ({radius} km)',
+  'clinics.openGoogle': '🗺️ Open Google Maps',
+  'clinics.noMatches': 'No matches',
+  'clinics.noResultsFor': 'No results for "{query}".',
+  'clinics.changeFilter': 'Try changing the filter.',
+  'clinics.withinOne': '1 clinic within {radius} km',
+  'clinics.withinMany': '{count} clinics within {radius} km',
+  'clinics.findMore': 'Find More on Google Maps',
+  'clinics.findMoreDesc': 'Search for additional eye clinics, opticians & hospitals near you',
+  'clinics.disclaimer': 'ℹ️ Results sourced from OpenStreetMap. Information may be incomplete — always call ahead to confirm.',
+
+  // ── Eye photo ──
+  'eyePhoto.title': '📷 Eye Photo Capture',
+  'eyePhoto.body': 'This screen will allow you to capture an eye photo for AI analysis.',
+
+  // ── Remote controller ──
+  'remote.title': 'Remote Controller',
+  'remote.subtitle': 'Mark answers from beside the patient',
+  'remote.scan': 'Scan the Display Phone',
+  'remote.scanDesc': 'On the phone showing the chart, choose "Second Phone" as the answer mode. Then scan the code it shows.',
+  'remote.scanButton': '📷 Scan QR Code',
+  'remote.scanHint': 'Point the camera at the QR code on the display phone.',
+  'remote.cameraDenied': 'Camera access is turned off. Enter the code below, or allow camera access in Settings.',
+  'remote.enterCode': 'Or Enter the Code',
+  'remote.codePlaceholder': 'CODE',
+  'remote.join': 'Join Session',
+  'remote.invalidCode': 'Enter the 6-character code and the relay address shown on the display phone.',
+  'remote.leave': 'Leave',
+  'remote.showing': 'On the chart now',
+  'remote.correct': '✓ Correct',
+  'remote.wrong': '✗ Wrong',
+  'remote.waiting': 'Waiting for the Display',
+  'remote.waitingBody': 'Ask the patient to stand 3 metres from the display phone with their LEFT eye covered. Tap Start when they are ready.',
+  'remote.start': 'Start',
+  'remote.switchEye': 'Right Eye Done',
+  'remote.switchEyeBody': 'Ask the patient to cover their RIGHT eye and keep the left eye open. Tap Continue when they are ready.',
+  'remote.continue': 'Continue',
+  'remote.lowVision': 'Below-Chart Checks',
+  'remote.lowVisionBody': 'The patient could not read the top line. Finish the guided checks on the display phone.',
+  'remote.finished': 'Distance Test Complete',
+  'remote.finishedBody': 'The results are saved on the display phone.',
+  'remote.pairTitle': 'Pair a Second Phone',
+  'remote.pairSub': 'The examiner marks answers from beside the patient',
+  'remote.relay': 'Relay Address',
+  'remote.relayBody': 'Both phones must be on the same Wi-Fi as the relay, for example a laptop running the clinic relay.',
+  'remote.relayPlaceholder': 'e.g. 192.168.1.20:8080',
+  'remote.startSession': 'Start Session',
+  'remote.newSession': 'New Session Code',
+  'remote.scanBody': 'On the examiner\'s phone, open Remote Controller from the home screen. Scan this code, or type the code below.',
+  'remote.answerHere': 'Answer on this phone instead',
+  'remote.answersOnController': '📲 Answers are marked on the second phone',
+  'remote.controllerLost': '⚠️ Second phone not connected — answer on this phone',
+  'remote.connecting': 'Connecting…',
+  'remote.waitingForPeer': 'Waiting for the other phone…',
+  'remote.paired': '✓ Phones paired',
+  'remote.disconnected': 'Connection lost — retrying…',
+  'remote.error': 'Cannot reach the relay — check the address and Wi-Fi',
+};
+
+export type TranslationKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,1178 @@
+/**
+ * sw.ts
+ * ------
+ * Kiswahili catalogue.  Typed against the English keys, so adding a
+ * key to en.ts without translating it here fails the type-check.
+ *
+ * Clinical terms with no everyday Kiswahili word (logMAR, Snellen,
+ * Jaeger, Ishihara, LEA) are kept as-is.
+ */
+
+import type { TranslationKey } from './en';
+
+const sw: Record<TranslationKey, string> = {
+  // ── Shared ──
+  'common.rightEye': 'Jicho la Kulia',
+  'common.leftEye': 'Jicho la Kushoto',
+  'common.rightEyeColon': 'Jicho la Kulia:',
+  'common.leftEyeColon': 'Jicho la Kushoto:',
+  'common.right': 'Kulia',
+  'common.left': 'Kushoto',
+  'common.RIGHT': 'KULIA',
+  'common.LEFT': 'KUSHOTO',
+  'common.yes': 'Ndiyo',
+  'common.no': 'Hapana',
+  'common.done': 'Imekamilika',
+  'common.skip': 'Ruka →',
+  'common.cancel': 'Ghairi',
+  'common.delete': 'Futa',
+  'common.notTested': 'Haijapimwa',
+  'common.startScreening': 'Anza Uchunguzi',
+  'common.imReady': 'Niko Tayari',
+  'common.whatWeTest': 'Tutakachopima',
+  'common.setupInstructions': 'Maelekezo ya Maandalizi',
+  'common.assessment': 'Tathmini',
+  'common.assessmentWarning': '⚠️ Tathmini',
+  'common.recommendation': 'Ushauri',
+  'common.methodology': 'Mbinu',
+  'common.severity': 'Kiwango',
+  'common.result': 'Matokeo',
+  'common.normal': 'Kawaida',
+  'common.unnamedPatient': 'Mgonjwa bila jina',
+  'common.patient': 'Mgonjwa',
+  'common.patientPlaceholder': 'Jina au namba (si lazima)',
+  'common.patientHint': 'Hutumika kumpata mgonjwa huyu tena katika Historia ya Vipimo.',
+  'common.viewFullResults': 'Tazama Matokeo Kamili',
+  'common.findClinics': 'Tafuta Kliniki za Macho Karibu',
+  'common.visualAcuity': 'Uwezo wa Kuona',
+  'common.colorVision': 'Kuona Rangi',
+  'common.astigmatism': 'Astigmatism',
+  'common.amsler': 'Gridi ya Amsler',
+  'common.contrastSensitivity': 'Kuona Utofauti wa Mwanga',
+  'common.completeScreening': 'Uchunguzi Kamili',
+  'common.clinicalStandard': 'Kiwango cha Kitabibu',
+  'common.optimalConditions': 'Mazingira Bora kwa Matokeo Sahihi',
+  'common.environmentSetup': 'Maandalizi ya Mazingira',
+  'common.beginTest': 'Anza Kipimo',
+  'common.retakeTest': 'Rudia Kipimo',
+  'common.who': 'Kundi la WHO',
+  'common.logMAR': 'logMAR {value}',
+  'common.logMARInterval': 'logMAR {value} (95% {interval})',
+  'common.skipped': 'Kimerukwa',
+  'common.notCompleted': 'Hakijakamilika',
+  // Shared by the per-eye tests' switch and results screens
+  'common.rightEyeComplete': 'Jicho la Kulia Limekamilika ✓',
+  'common.nowTestingLeft': 'Sasa tunapima jicho la kushoto',
+  'common.switchEyes': 'Badilisha Macho',
+  'common.rightEyeResult': 'Matokeo ya Jicho la Kulia',
+  'common.testLeftEye': 'Pima Jicho la Kushoto',
+  'common.overallAssessment': 'Tathmini ya Jumla',
+  'common.eyeByEye': 'Matokeo ya Kila Jicho',
+  'common.whatThisMeans': 'Hii Inamaanisha Nini',
+  'common.testMethod': 'Mbinu ya Kipimo',
+  'common.eyesTested': 'Macho Yaliyopimwa',
+  'common.eyesTestedMonocular': 'Yote (moja moja)',
+  'common.cantSee': 'Sioni Vizuri',
+  'common.limitations': 'Mipaka',
+
+  // ── Home ──
+  'home.subtitle': 'Uchunguzi wa macho kwenye kila simu janja',
+  'home.language': 'Lugha',
+  'home.voice': 'Sauti',
+  'home.voiceOff': 'Zima',
+  'home.voiceOn': 'Washa',
+  'home.voiceSlow': 'Polepole',
+  'home.quickTitle': 'Uchunguzi wa Haraka wa Macho',
+  'home.quickDesc': 'Kamilisha uchunguzi kamili wa macho kwa dakika 5 tu',
+  'home.startTest': 'Anza Kipimo Sasa',
+  'home.whatWeTest': 'Tunachopima',
+  'home.vaDesc': 'Pima uwazi wa kuona kwa macho yote mawili',
+  'home.cvDesc': 'Chunguza upofu wa rangi',
+  'home.astigDesc': 'Gundua kasoro za konea',
+  'home.amslerDesc': 'Gundua magonjwa ya makula mapema',
+  'home.csDesc': 'Gundua mtoto wa jicho na glakoma kabla uwezo wa kuona haujashuka',
+  'home.photosTitle': 'Picha za Macho',
+  'home.photosDesc': 'Uchambuzi wa AI wa afya ya macho',
+  'home.clinicsTitle': 'Tafuta Kliniki',
+  'home.clinicsDesc': 'Pata huduma za macho karibu nawe',
+  'home.tapToTest': 'Gusa kupima →',
+  'home.tapToTry': 'Gusa kujaribu →',
+  'home.tapToSearch': 'Gusa kutafuta →',
+  'home.history': '📊 Tazama Historia ya Vipimo',
+  'home.clinics': '🗺️ Tafuta Kliniki za Macho',
+  'home.remote': '📲 Kidhibiti cha Mbali',
+  'home.about': 'ℹ️ Kuhusu VisionCheck',
+  'home.banner': '💡 Zaidi ya Wakenya milioni 4 wana matatizo ya kuona ambayo hayajagunduliwa. Uchunguzi wa mapema unaweza kuleta tofauti kubwa!',
+
+  // ── About ──
+  'about.version': 'Toleo {version}',
+  'about.title': 'Kuhusu',
+  'about.body': 'VisionCheck Kenya ni chombo cha simu cha kuchunguza macho kilichoundwa ili kila mtu nchini Kenya na kwingineko aweze kupata kipimo cha msingi cha macho. Si mbadala wa uchunguzi wa kitaalamu wa macho.',
+  'about.testsTitle': 'Vipimo Vilivyomo',
+  'about.testVA': '• Uwezo wa Kuona (Snellen + Jaeger)',
+  'about.testCV': '• Kuona Rangi (bamba za Ishihara)',
+  'about.testAstig': '• Astigmatism (chati ya feni)',
+  'about.disclaimer': '⚠️ Programu hii ni kwa uchunguzi tu. Tafadhali mwone daktari wa macho aliyehitimu kwa uchunguzi kamili.',
+
+  // ── Distance targets & voice prompts ──
+  'distance.near': 'sentimita 40',
+  'distance.far': 'mita 3',
+  'voice.moveCloser': 'Sogeza simu karibu.',
+  'voice.moveFurther': 'Endelea kusogea mbali.',
+  'voice.holdStill': 'Umbali ni sawa. Shikilia bila kusogea.',
+  'voice.tooFar': 'Uko mbali sana. Sogeza simu karibu kidogo.',
+  'voice.steps.start': 'Tembea mbali na mgonjwa kwa mwendo wa kawaida. Takriban hatua {count}.',
+  'voice.steps.more': 'Hatua {count} zaidi.',
+  'voice.steps.oneMore': 'Hatua moja zaidi.',
+  'voice.steps.stop': 'Simama hapa. Huu ni takriban mita tatu.',
+  'voice.startingTest': 'Kipimo kinaanza sasa.',
+  'voice.coverLeftEye': 'Funika jicho lako la kushoto na uache jicho la kulia wazi.',
+  'voice.coverRightEye': 'Funika jicho lako la kulia na uache jicho la kushoto wazi.',
+  'voice.rightEyeDone': 'Umefanya vizuri. Jicho la kulia limekamilika.',
+  'voice.resultsOnScreen': 'Matokeo yako kwenye skrini.',
+  'voice.calibration.distance': 'Simama tuli. Msaidizi atapeleka simu mita tatu mbali na kuelekeza skrini kwako.',
+  'voice.calibration.near': 'Shikilia simu kwa urefu wa mkono, takriban sentimita arobaini kutoka machoni.',
+  'voice.va.welcome': 'Kipimo cha uwezo wa kuona. Kila jicho hupimwa peke yake, kwanza kwa mbali kisha kwa karibu.',
+  'voice.va.distanceSetup': 'Chagua aina ya chati. Kisha msaidizi ataweka simu mita tatu mbali.',
+  'voice.va.distanceCheck': 'Hakikisha uko mita tatu kutoka kwenye skrini.',
+  'voice.va.readLetters': 'Taja kila herufi inapoonekana. Kama huioni, sema hivyo.',
+  'voice.va.readE': 'Onyesha upande ambao miguu ya E inaelekea: juu, chini, kushoto au kulia.',
+  'voice.va.readLea': 'Taja au onyesha picha unayoiona.',
+  'voice.va.readMarked': 'Soma ile tu yenye alama chini yake.',
+  'voice.va.lowVision': 'Mstari wa juu haukuweza kusomwa. Msaidizi, tafadhali fuata hatua zilizo kwenye skrini.',
+  'voice.va.pinholeOffer': 'Jicho hili limesoma chini ya sita kumi na mbili. Kipimo tena kupitia tundu dogo kinaweza kuonyesha kama miwani itasaidia.',
+  'voice.va.pinholeSetup': 'Shika kadi yenye tundu karibu na jicho lililo wazi na uangalie skrini kupitia tundu.',
+  'voice.va.putOnGlasses': 'Sasa vaa miwani yako. Kila jicho linapimwa tena ukiwa umeivaa.',
+  'voice.va.bothEyes': 'Acha macho yote mawili wazi.',
+  'voice.va.distanceDone': 'Kipimo cha mbali kimekamilika.',
+  'voice.va.nearSetup': 'Kipimo cha kuona karibu. Utasoma mistari ya maandishi kwa karibu.',
+  'voice.va.readNear': 'Soma kila mstari kwa sauti, kisha sema kama ulikuwa wazi.',
+  'voice.va.nearDone': 'Kipimo cha karibu kimekamilika.',
+  'voice.reading.setup': 'Kipimo cha kasi ya kusoma. Weka macho yote mawili wazi na vaa miwani yako ya kusomea kama unayo. Soma kila sentensi kwa sauti, haraka na kwa uangalifu kadiri uwezavyo.',
+  'voice.va.complete': 'Kipimo cha uwezo wa kuona kimekamilika.',
+  'voice.cv.welcome': 'Kipimo cha kuona rangi. Kila bamba lina namba iliyofichwa kwenye vitone vya rangi.',
+  'voice.cv.setup': 'Zima hali ya usiku na vichujio vya rangi, na ushikilie simu kwa urefu wa mkono.',
+  'voice.cv.test': 'Taja namba unayoiona katika kila bamba. Kama hakuna namba, sema hivyo.',
+  'voice.cv.complete': 'Kipimo cha kuona rangi kimekamilika.',
+  'voice.astig.welcome': 'Kipimo cha astigmatism. Utatazama dial ya mistari, kama uso wa saa.',
+  'voice.astig.setup': 'Shikilia simu kwa urefu wa mkono. Kama unavaa miwani ya kuona mbali, endelea kuivaa.',
+  'voice.astig.look': 'Tazama kitone chekundu cha katikati. Gusa mistari yoyote inayoonekana myeusi au wazi zaidi kuliko mingine.',
+  'voice.astig.confirm': 'Sasa tutatazama tena kuthibitisha jibu lako.',
+  'voice.astig.lookAgain': 'Tazama kitone cha katikati tena na uguse mistari myeusi zaidi mara nyingine.',
+  'voice.astig.complete': 'Kipimo cha astigmatism kimekamilika.',
+  'voice.amsler.welcome': 'Kipimo cha gridi ya Amsler. Utatazama gridi ya miraba yenye nukta katikati.',
+  'voice.amsler.setup': 'Vaa miwani yako ya kusomea kama unaitumia, na ushike simu kwa umbali ulioonyeshwa.',
+  'voice.amsler.centre': 'Tazama nukta ya katikati tu. Je, unaiona?',
+  'voice.amsler.mark': 'Endelea kutazama nukta ya katikati. Pitisha kidole juu ya mistari yoyote inayoonekana kupinda, kufifia au kukosekana.',
+  'voice.amsler.complete': 'Kipimo cha gridi ya Amsler kimekamilika.',
+  'voice.cs.welcome': 'Kipimo cha kuona utofauti wa mwanga. Utasoma herufi zinazozidi kufifia.',
+  'voice.cs.setup': 'Vaa miwani yako ya mbali kama unaitumia, na ushike simu takriban nusu mita mbali.',
+  'voice.cs.read': 'Taja herufi iliyo juu ya alama. Kisia kama huna uhakika.',
+  'voice.cs.complete': 'Kipimo cha kuona utofauti wa mwanga kimekamilika.',
+  'voice.spoken.instructions': 'Sema jibu lako kwa sauti. Kama huioni, sema "siwezi kuona".',
+  'voice.spoken.confirm': 'Je, umesema {answer}?',
+  'voice.spoken.confirmCantSee': 'Je, umesema huwezi kuona?',
+
+  // ── Distance setup (DistanceCalibration) ──
+  'calibration.distanceTitle': 'Kuweka Umbali',
+  'calibration.nearTitle': 'Kuweka Umbali wa Karibu',
+  'calibration.target': 'Lengo: {target}',
+  'calibration.beforeYouBegin': 'Kabla ya kuanza',
+  'calibration.distanceStep1Pre': '1.  Anayepimwa ',
+  'calibration.distanceStep1Bold': 'asimame tuli',
+  'calibration.distanceStep1Post': '.',
+  'calibration.distanceStep2Pre': '2.  Msaidizi achukue simu na atembee ',
+  'calibration.distanceStep2Bold': 'mita 3 mbali',
+  'calibration.distanceStep2Post': ' (takriban hatua 4 kubwa).',
+  'calibration.distanceStep3': '3.  Elekeza skrini kwa anayepimwa.',
+  'calibration.distanceStep4': '4.  Mpe anayepimwa simu, au ishikilie tuli kwa umbali huo.',
+  'calibration.distanceTipTitle': '💡 Jinsi ya kukadiria mita 3',
+  'calibration.distanceTipSteps': '🚶  Takriban hatua 4 kubwa za mtu mzima',
+  'calibration.distanceTipDoor': '📏  Mlango wa kawaida una urefu wa ~m 2 — ongeza nusu yake',
+  'calibration.distanceTipBed': '🛏️  Karibu urefu wa kitanda cha mtu mmoja',
+  'calibration.distanceTipTape': '📐  Tumia utepe wa kupimia kwa usahihi zaidi',
+  'calibration.distanceStart': '✅  Niko Mita 3 — Anza Kipimo',
+  'steps.title': '🚶 Pima mita 3 kwa hatua ukiwa na simu',
+  'steps.intro': 'Simama karibu na mgonjwa, kisha tembea mbali ukibeba simu. Inahesabu hatua zako na kukuambia wakati wa kusimama.',
+  'steps.strideCalibrated': 'Hatua yako: sm {cm} (imepimwa)',
+  'steps.strideDefault': 'Hatua: sm {cm} (kawaida ya mtu mzima — pima kwa usahihi zaidi)',
+  'steps.paceOut': 'Anza kutembea',
+  'steps.calibrate': 'Pima urefu wa hatua',
+  'steps.recalibrate': 'Pima hatua upya',
+  'steps.more': 'Hatua {count} zaidi',
+  'steps.oneMore': 'Hatua 1 zaidi',
+  'steps.stopHere': '✋ Simama hapa',
+  'steps.walked': 'Hatua {steps} ≈ mita {metres}',
+  'steps.restart': 'Anza upya',
+  'steps.calibrateTitle': '📏 Pima urefu wa hatua yako',
+  'steps.calibrateBody': 'Pima mita {metres} sakafuni kwa utepe. Shika simu na utembee kwa mwendo wako wa kawaida, kisha gusa Imekamilika.',
+  'steps.counted': 'Hatua {steps}',
+  'steps.calibrateFailed': 'Idadi hiyo ya hatua haionekani sawa. Tembea umbali uliopimwa tena.',
+  'steps.unavailable': 'Simu hii haina kihisi cha mwendo, kwa hiyo hatua haziwezi kuhesabiwa. Tumia vidokezo vilivyo hapa chini au utepe wa kupimia.',
+  'calibration.nearStep1Pre': '1.  Shikilia simu ',
+  'calibration.nearStep1Bold': 'kwa urefu wa mkono',
+  'calibration.nearStep1Post': ' — takriban {target} kutoka machoni.',
+  'calibration.nearStep2': '2.  Skrini iwe takriban usawa wa macho.',
+  'calibration.nearTipTitle': '💡 Jinsi ya kukadiria sentimita 40',
+  'calibration.nearTipArm': '💪  Kiwiko hadi ncha za vidole ≈ sm 40–45',
+  'calibration.nearTipCards': '💳  Kadi 5 za benki zikipangwa mfululizo ≈ sm 42',
+  'calibration.nearTipPaper': '📄  Upande mrefu wa karatasi A4 (sm 29.7) + karibu theluthi moja zaidi',
+  'calibration.nearStart': '✅  Niko sm 40 — Anza Kipimo',
+  'calibration.liveTitle': '📷 Umbali wa moja kwa moja',
+  'calibration.liveDistance': 'Sentimita {cm} kutoka macho yako',
+  'calibration.lookingForFace': 'Inatafuta uso wako — shika simu mbele yako macho yote mawili yakionekana.',
+  'calibration.autoStart': 'Kipimo kitaanza chenyewe ukishika simu bila kutikisika kwa {target}.',
+  'calibration.cameraNeeded': 'Ruhusu kamera ipime umbali wako moja kwa moja.',
+  'calibration.allowCamera': 'Ruhusu kamera',
+
+  // ── Screen calibration (card match) ──
+  'screenCal.title': 'Kurekebisha Skrini',
+  'screenCal.subtitle': 'Linganisha na kadi — mara moja kwa kila simu',
+  'screenCal.step1Pre': 'Weka ',
+  'screenCal.step1Bold': 'kadi yoyote ya benki au kitambulisho',
+  'screenCal.step1Post': ' juu ya skrini, ikilingana na kona ya juu kushoto ya mstatili wa buluu.',
+  'screenCal.step2': 'Fanya mstatili uwe na upana sawa kabisa na kadi kwa kutumia vitufe au kwa kuvuta kishikio.',
+  'screenCal.cardHere': '💳 Weka kadi hapa',
+  'screenCal.readout': 'dp {value} kwa mm',
+  'screenCal.implausible': 'Ukubwa huo hauonekani kama wa kadi halisi. Weka kadi juu ya skrini na ujaribu tena.',
+  'screenCal.saveFailed': 'Imeshindwa kuhifadhi marekebisho. Tafadhali jaribu tena.',
+  'screenCal.saving': 'Inahifadhi…',
+  'screenCal.save': '✅  Zinalingana — Hifadhi',
+  'screenCal.skip': 'Huna kadi? Ruka →',
+
+  // ── Threshold strategies ──
+  'strategy.lineWalk': 'Mstari kwa mstari',
+  'strategy.staircase': 'Ngazi inayobadilika',
+  'strategy.quest': 'Inayobadilika (QUEST)',
+  'strategy.lineWalkDesc': 'Kila herufi ya kila mstari, kubwa kwanza — sawa na chati ya ukutani',
+  'strategy.staircaseDesc': 'Ukubwa wa herufi hupanda na kushuka kwa kila jibu. Ni haraka kwa wanaoona vizuri',
+  'strategy.questDesc': 'Huchagua ukubwa wenye taarifa zaidi kila mara na husimama matokeo yakishakuwa sahihi',
+
+  // ── Optotypes ──
+  'optotype.sloanSet': 'Herufi za Sloan',
+  'optotype.eSet': 'E Inayogeuka (mielekeo 4)',
+  'optotype.leaSet': 'Picha za LEA (alama 4)',
+  'optotype.snellen': 'Snellen',
+  'optotype.tumblingE': 'E Inayogeuka',
+  'optotype.lea': 'Alama za LEA',
+  'lea.house': 'Nyumba',
+  'lea.apple': 'Tufaha',
+  'lea.circle': 'Mpira',
+  'lea.square': 'Sanduku',
+
+  // ── Spoken answers ──
+  'spoken.up': 'juu',
+  'spoken.down': 'chini',
+  'spoken.left': 'kushoto',
+  'spoken.right': 'kulia',
+
+  // ── Acuity / near ratings ──
+  'rating.exceptional': 'Bora Kabisa',
+  'rating.excellent': 'Bora Sana',
+  'rating.veryGood': 'Nzuri Sana',
+  'rating.good': 'Nzuri',
+  'rating.fair': 'Wastani',
+  'rating.poor': 'Dhaifu',
+  'rating.veryPoor': 'Dhaifu Sana',
+  'rating.severe': 'Kali',
+  'rating.countingFingers': 'Kuhesabu Vidole',
+  'rating.handMovement': 'Mwendo wa Mkono',
+  'rating.lightPerception': 'Kuhisi Mwanga',
+  'rating.noLightPerception': 'Hahisi Mwanga',
+  'rating.notTested': 'Haijapimwa',
+
+  // ── WHO categories ──
+  'who.0': 'Hakuna ulemavu wa kuona',
+  'who.1': 'Ulemavu mdogo wa kuona',
+  'who.2': 'Ulemavu wa wastani wa kuona',
+  'who.3': 'Ulemavu mkubwa wa kuona',
+  'who.4': 'Upofu (3/60 – 1/60)',
+  'who.5': 'Upofu (chini ya 1/60, anahisi mwanga)',
+  'who.6': 'Upofu (hahisi mwanga)',
+
+  // ── Low-vision fallbacks ──
+  'lowVision.halfTitle': 'Sogea Karibu — m 1.5',
+  'lowVision.halfInstruction': 'Leta simu hadi nusu ya umbali (mita 1.5, takriban hatua mbili) kutoka kwa mgonjwa. Herufi kubwa inaonyeshwa tena.',
+  'lowVision.halfQuestion': 'Je, mgonjwa alisoma herufi kwa usahihi?',
+  'lowVision.cfTitle': 'Kuhesabu Vidole',
+  'lowVision.cfInstruction': 'Simama mita 1 kutoka kwa mgonjwa. Inua vidole 1 hadi 5 mbele ya mandhari tupu na uulize ni vingapi. Rudia mara 3 kwa idadi tofauti.',
+  'lowVision.cfQuestion': 'Je, mgonjwa alihesabu sawa angalau mara 2 kati ya 3?',
+  'lowVision.hmTitle': 'Mwendo wa Mkono',
+  'lowVision.hmInstruction': 'Weka mkono wako sm 50 kutoka kwa mgonjwa. Upunge polepole au uushikilie tuli, kisha uulize "Je, mkono wangu unasogea?" Rudia mara 3.',
+  'lowVision.hmQuestion': 'Je, mgonjwa alijibu sawa angalau mara 2 kati ya 3?',
+  'lowVision.lpTitle': 'Kuhisi Mwanga',
+  'lowVision.lpInstruction': 'Funika jicho lingine vizuri. Mulika tochi (au tochi ya simu) kwenye jicho kutoka sm 50, ukiiwasha na kuizima, na uulize "Je, taa imewaka?"',
+  'lowVision.lpQuestion': 'Je, mgonjwa aliweza kutambua taa ilipowaka?',
+  'lowVision.stepOf': 'Jicho la {eye} • Hatua {current} kati ya {total}',
+  'lowVision.intro': 'Mgonjwa hakuweza kusoma mstari wa juu kwa mita 3. Msaidizi, tafadhali fuata hatua hizi.',
+
+  // ── Pinhole retest ──
+  'pinhole.offerTitle': 'Kipimo Tena kwa Tundu Dogo',
+  'pinhole.offerSubtitle': 'Jicho la {eye} limesoma {acuity}',
+  'pinhole.whyTitle': 'Je, miwani itasaidia?',
+  'pinhole.whyBody': 'Jicho hili limesoma chini ya 6/12. Kuangalia kupitia tundu dogo sana huondoa ukungu mwingi ambao miwani hurekebisha. Jicho likisoma vizuri zaidi kupitia tundu, huenda miwani ikasaidia. Lisipoboreka, chanzo kinaweza kuwa ugonjwa wa macho unaohitaji uchunguzi zaidi.',
+  'pinhole.needs': '📎 Utahitaji kipande cha kadi na pini, au kifuniko chenye tundu. Kipimo tena huchukua takriban dakika moja.',
+  'pinhole.retest': 'Pima Tena kwa Tundu',
+  'pinhole.skip': 'Ruka Kipimo Tena',
+  'pinhole.setupTitle': 'Maandalizi ya Tundu',
+  'pinhole.setupSubtitle': 'Kupima tena jicho la {eye}',
+  'pinhole.step1': 'Toboa kadi kwa pini kutengeneza tundu la duara lenye upana wa mm 1–2, au tumia kifuniko chenye tundu',
+  'pinhole.step2': 'Funika jicho lingine. Shika kadi karibu na jicho la {eye} na uangalie skrini kupitia tundu',
+  'pinhole.step3': 'Baki mita 3 kutoka kwenye skrini. Chati inaanza tena kutoka mstari wa juu',
+  'pinhole.tip': '💡 Sogeza kadi kidogo hadi skrini ionekane angavu zaidi kupitia tundu. Miwani inaweza kubaki',
+  'pinhole.result': 'Tundu {acuity} · {outcome}',
+  'pinhole.improved': 'imeboreka',
+  'pinhole.notImproved': 'haijaboreka',
+
+  // ── Spectacle adequacy ──
+  'spectacles.adequate': 'Inatosha',
+  'spectacles.adequateDetail': 'Kila jicho linafikia 6/12 au zaidi kwa miwani ya sasa.',
+  'spectacles.inadequate': 'Haitoshi',
+  'spectacles.inadequateDetail': 'Angalau jicho moja linaona chini ya 6/12 kwa miwani ya sasa. Miwani na macho yachunguzwe.',
+  'spectacles.updateDetail': 'Angalau jicho moja linaona chini ya 6/12 kwa miwani ya sasa lakini vizuri zaidi kupitia tundu. Miwani mipya huenda ikasaidia.',
+
+  // ── Reading glasses ──
+  'presbyopia.readyMadeSuitable': 'Miwani ya kusomea iliyo tayari ya {add} huenda ikasaidia.',
+  'presbyopia.readyMadeDistance': 'Miwani ya kusomea iliyo tayari peke yake huenda isitoshe, kwa sababu kuona mbali pia kunahitaji kurekebishwa. Mpeleke kwa kipimo cha miwani.',
+  'presbyopia.readyMadeUntested': 'Kuona mbali hakukupimwa kwa macho yote mawili, kwa hiyo miwani ya kusomea iliyo tayari haiwezi kupendekezwa. Pima kuona mbali au mpeleke kwa kipimo cha miwani.',
+  'presbyopia.readyMadeUnequal': 'Macho mawili yanasoma kwa tofauti kubwa mno kwa miwani iliyo tayari. Mpeleke kwa miwani ya kuagiza.',
+
+  // ── Reading speed ──
+  'reading.title': 'Kasi ya Kusoma',
+  'reading.subtitle': 'Sentensi zinazopimwa muda kwa sm 40, macho yote',
+  'reading.step1': '1. Mgonjwa aweke macho yote mawili wazi na avae miwani yake ya kusomea, kama anayo.',
+  'reading.step2': '2. Shika simu umbali wa sm 40. Gusa Anza — sentensi inaonekana na saa inaanza.',
+  'reading.step3': '3. Mgonjwa asome sentensi kwa sauti, haraka kadiri awezavyo bila makosa. Gusa Simama kwenye neno la mwisho.',
+  'reading.step4': '4. Hesabu maneno aliyosoma vibaya au kuruka. Maandishi yanakuwa madogo kwa kila sentensi.',
+  'reading.language': 'Lugha ya sentensi',
+  'reading.languageHint': 'Chagua lugha ambayo mgonjwa anasoma kwa urahisi zaidi.',
+  'reading.begin': 'Anza Kipimo',
+  'reading.sentenceOf': 'Sentensi {current} kati ya {total}',
+  'reading.covered': 'Sentensi imefichwa. Gusa Anza mgonjwa akiwa tayari kusoma.',
+  'reading.start': '▶ Anza',
+  'reading.stop': '■ Simama',
+  'reading.cannotRead': 'Hawezi kusoma neno lolote — maliza',
+  'reading.time': 'sek {seconds}',
+  'reading.wpm': 'maneno {wpm}/dak',
+  'reading.errors': 'Maneno yaliyosomwa vibaya au kurukwa',
+  'reading.next': 'Sentensi Inayofuata',
+  'reading.finish': 'Maliza',
+  'reading.resultsTitle': 'Matokeo ya Kasi ya Kusoma',
+  'reading.maxSpeed': 'Kasi ya juu ya kusoma',
+  'reading.criticalPrint': 'Ukubwa muhimu wa maandishi',
+  'reading.acuity': 'Uwezo wa kusoma',
+  'reading.logMAR': 'logMAR {value}',
+  'reading.curve': 'Kasi kwa ukubwa wa maandishi (logMAR)',
+  'reading.curveHint': 'Mstari mweusi zaidi unaonyesha ukubwa muhimu wa maandishi — maandishi madogo zaidi yaliyosomwa kwa kasi kamili.',
+  'reading.fluent': 'Anasoma kwa ufasaha: kasi inatosha kwa usomaji wa kila siku.',
+  'reading.slow': 'Anasoma polepole: maandishi mafupi tu.',
+  'reading.spot': 'Anasoma vipande tu: lebo na bei, si zaidi.',
+  'reading.referral': 'Mpeleke kwa tathmini ya uoni hafifu. Miwani ya kukuza na maandishi makubwa yanaweza kusaidia.',
+
+  // ── Acuity diagnoses ──
+  'dx.childReduced.condition': 'Kuona Kumepungua (Mtoto)',
+  'dx.childReduced.severityMarked': 'Kwa Kiasi Kikubwa',
+  'dx.childReduced.severityBelow': 'Chini ya Kiwango cha Umri',
+  'dx.childReduced.description': 'Angalau jicho moja halikuweza kuona mstari wa picha wa 6/12. Kwa mtoto mdogo hii inaweza kuwa kasoro ya kuakisi mwanga au dalili za mwanzo za amblyopia (jicho legevu).',
+  'dx.childReduced.recommendation': 'Mpeleke mtoto kwa mtaalamu wa macho. Amblyopia hutibika vizuri zaidi kabla ya umri wa shule, kwa hivyo usisubiri.',
+  'dx.childUnequal.condition': 'Kuona Tofauti Kati ya Macho',
+  'dx.childUnequal.severity': 'Tofauti ya mistari {lines}',
+  'dx.childUnequal.description': 'Macho yote mawili yalipita 6/12, lakini jicho moja linaona kwa kiasi kidogo kuliko lingine. Hii ni dalili ya kawaida ya mwanzo ya amblyopia.',
+  'dx.childUnequal.recommendation': 'Mpeleke mtoto kwa mtaalamu wa macho kwa uchunguzi kamili.',
+  'dx.childNormal.severity': 'Amepita Uchunguzi wa Mtoto',
+  'dx.childNormal.description': 'Kila jicho lilifikia kiwango kinachotarajiwa kwa mtoto wa chekechea na macho yote yanafanana.',
+  'dx.childNormal.recommendation': 'Mchunguze tena kila mwaka hadi umri wa shule, au mapema zaidi wazazi au walimu wakiona anakodoa macho au anakaa karibu sana na TV.',
+  'dx.severeLoss.condition': 'Upotevu Mkubwa wa Kuona',
+  'dx.severeLoss.severity': '{acuity} katika angalau jicho moja',
+  'dx.severeLoss.description': 'Angalau jicho moja halikuweza kusoma herufi kubwa zaidi kwenye chati. Kuona kwa kiwango hiki kunaweza kusababishwa na mtoto wa jicho, kasoro kubwa ya kuakisi mwanga au ugonjwa wa macho.',
+  'dx.severeLoss.recommendation': 'Mpeleke kwa mtaalamu wa macho haraka iwezekanavyo kwa uchunguzi kamili.',
+  'dx.pinholeNoGain.condition': 'Kuona Hafifu Kusikorekebishwa na Tundu',
+  'dx.pinholeNoGain.severity': '{acuity} bila msaada, {pinhole} kupitia tundu',
+  'dx.pinholeNoGain.description': 'Angalau jicho moja linaona chini ya 6/12 na halikuboreka kupitia tundu dogo. Miwani peke yake huenda isirekebishe hili; linaweza kusababishwa na mtoto wa jicho, glakoma au tatizo la retina.',
+  'dx.pinholeNoGain.recommendation': 'Mpeleke kwa mtaalamu wa macho haraka iwezekanavyo kwa uchunguzi kamili wa macho.',
+  'dx.refractive.condition': 'Huenda ni Kasoro ya Kuakisi Isiyorekebishwa',
+  'dx.refractive.severity': '{acuity} bila msaada, {pinhole} kupitia tundu',
+  'dx.refractive.description': 'Kuona mbali kumepungua lakini kuliboreka kupitia tundu dogo. Kwa kawaida hii inamaanisha jicho linahitaji miwani badala ya matibabu ya ugonjwa.',
+  'dx.refractive.recommendation': 'Mwone daktari wa macho kwa kipimo cha miwani. Miwani huenda ikarudisha kuona mbali vizuri.',
+  'dx.myopia.condition': 'Huenda ni Myopia (Kutoona Mbali)',
+  'dx.myopia.description': 'Unaona vitu vya karibu vizuri lakini unatatizika kuona vitu vya mbali. Hii inaendana na myopia.',
+  'dx.myopia.recommendation': 'Mwone daktari wa macho kwa kipimo kamili cha miwani. Huenda ukafaidika na miwani ya kuona mbali au lenzi za mguso.',
+  'dx.hyperopia.condition': 'Huenda ni Hypermetropia (Kutoona Karibu)',
+  'dx.hyperopia.description': 'Unaona vitu vya mbali vizuri lakini unatatizika kusoma na kazi za karibu. Hii inaendana na hypermetropia.',
+  'dx.hyperopia.recommendation': 'Mwone daktari wa macho kwa marekebisho ya kuona karibu. Miwani ya kusomea au bifokali zinaweza kusaidia.',
+  'dx.presbyopia.condition': 'Huenda ni Presbyopia (Kuzeeka kwa Macho)',
+  'dx.presbyopia.severity': 'Nyongeza ya kusomea inayokadiriwa {add}',
+  'dx.presbyopia.description': 'Kuona mbali ni kuzuri lakini maandishi madogo ni magumu kusoma karibu. Kuanzia takriban miaka 40 jicho hupoteza polepole uwezo wa kulenga karibu, na miwani ya kusomea huurudisha.',
+  'dx.moderateToSevere': 'Wastani hadi Kali',
+  'dx.mildToModerate': 'Kidogo hadi Wastani',
+  'dx.significant.condition': 'Ulemavu Mkubwa wa Kuona',
+  'dx.significant.severity': 'Inahitaji Tathmini ya Kitaalamu',
+  'dx.significant.description': 'Kuona mbali na karibu kote kuna mapungufu makubwa. Hii inaweza kuashiria kasoro changamano ya kuakisi mwanga, presbyopia pamoja na myopia, au hali nyingine za macho.',
+  'dx.significant.recommendation': 'Tafadhali mwone mtaalamu wa macho haraka iwezekanavyo kwa uchunguzi kamili.',
+  'dx.normal.condition': 'Kuona kwa Kawaida',
+  'dx.normal.severity': 'Hakuna Tatizo Kubwa',
+  'dx.normal.description': 'Kuona kwako mbali na karibu kuko ndani ya kiwango cha kawaida. Hakuna wasiwasi wa haraka uliogunduliwa.',
+  'dx.normal.recommendation': 'Endelea na uchunguzi wa kawaida wa macho kila mwaka 1-2. Dumisha tabia nzuri za afya ya macho.',
+  'dx.borderline.condition': 'Kuona kwa Mpakani',
+  'dx.borderline.severity': 'Wasiwasi Mdogo',
+  'dx.borderline.description': 'Kuona kwako kuna mapungufu madogo ambayo yanaweza kuwa kasoro ya mwanzo ya kuakisi mwanga au mambo ya muda kama uchovu wa macho.',
+  'dx.borderline.recommendation': 'Fuatilia kuona kwako na upime tena baada ya miezi 3-6. Fikiria uchunguzi wa kitaalamu dalili zikiendelea.',
+
+  // ── Near-vision card ──
+  'near.text1': 'MTOTO ANASOMA KITABU',
+  'near.text2': 'MTOTO ANASOMA KITABU CHAKE',
+  'near.text3': 'MTOTO ANASOMA KITABU CHAKE KIZURI',
+  'near.text4': 'Mtoto anasoma kitabu chake kizuri darasani',
+  'near.text5': 'Mtoto anasoma kitabu chake kizuri darasani leo',
+  'near.text6': 'Mtoto anasoma kitabu chake kizuri darasani leo asubuhi',
+  'near.text7': 'Mtoto anasoma kitabu chake kizuri darasani leo asubuhi na mwalimu',
+  'near.desc1': 'Maandishi makubwa sana',
+  'near.desc2': 'Maandishi makubwa',
+  'near.desc3': 'Makubwa kiasi',
+  'near.desc4': 'Ukubwa wa maandishi ya kitabu',
+  'near.desc5': 'Maandishi ya kawaida ya gazeti',
+  'near.desc6': 'Maandishi madogo ya gazeti',
+  'near.desc7': 'Maandishi madogo sana (bora)',
+
+  // ── Visual acuity test ──
+  'va.title': 'Kipimo cha Uwezo wa Kuona',
+  'va.subtitle': 'Uchunguzi wa Kuona Mbali na Karibu',
+  'va.distanceLabel': 'Kuona Mbali',
+  'va.distanceDesc': 'Hugundua myopia (kutoona mbali) — ugumu wa kuona vitu vya mbali kama ubao au alama za barabarani.',
+  'va.nearLabel': 'Kuona Karibu',
+  'va.nearDesc': 'Hugundua hypermetropia (kutoona karibu) — ugumu wa kusoma vitabu au skrini za simu.',
+  'va.durationLabel': 'Dakika 8–12',
+  'va.durationDesc': 'Kila jicho hupimwa peke yake kwa kuona mbali na karibu.',
+  'va.age': 'Umri wa Mgonjwa',
+  'va.agePlaceholder': 'Umri kwa miaka (si lazima)',
+  'va.ageHint': 'Kuanzia miaka 40 kipimo cha karibu pia hukadiria nguvu ya miwani ya kusomea inayohitajika.',
+  'va.distanceTitle': 'Kipimo cha Kuona Mbali',
+  'va.part1of2': 'Sehemu 1 kati ya 2',
+  'va.part2of2': 'Sehemu 2 kati ya 2',
+  'va.setupStep1': 'Simama tuli na ushikilie simu ikikuelekea',
+  'va.setupStep2': 'Programu itakuongoza kwa sauti hadi umbali sahihi wa mita 3',
+  'va.setupStep3': 'Mwangaza wa skrini utawekwa kiwango cha juu kabisa wenyewe',
+  'va.setupStep4': 'Mtu akusaidie kugusa majibu, au tumia sauti',
+  'va.setupTip': '💡 Programu hutumia vihisi mwendo kupima umbali — msaidizi hupeleka simu hadi mahali sahihi',
+  'va.chartType': 'Aina ya Chati',
+  'va.presentation': 'Mpangilio',
+  'va.presentSingle': 'Alama moja',
+  'va.presentSingleDesc': 'Herufi au picha moja kwa wakati. Ni haraka zaidi, lakini inaweza kukadiria kuona kwa jicho vivu kupita kiasi',
+  'va.presentCrowded': 'Mstari mzima (uliosongamana)',
+  'va.presentCrowdedDesc': 'Mstari mzima ukiwa na mistari kuuzunguka na alama kwenye ile ya kusoma. Inapendekezwa kwa watoto na uchunguzi wa jicho vivu',
+  'va.chartLetters': '🔤 Herufi',
+  'va.chartLettersDesc': 'Mgonjwa anataja kila herufi anayoiona',
+  'va.chartE': 'Ш E Inayogeuka',
+  'va.chartEDesc': 'Kwa wagonjwa wasioweza kusoma herufi — wanaonyesha upande ambao miguu ya E inaelekea',
+  'va.chartLea': '🏠 Picha (umri 3–6)',
+  'va.chartLeaDesc': 'Alama za LEA kwa watoto wadogo — wanataja au wanaonyesha picha inayolingana. Viwango vya watoto vya kupita/kupeleka hutumika na kipimo cha karibu kinarukwa.',
+  'va.procedure': 'Utaratibu wa Kipimo',
+  'va.conditions': 'Hali za Kipimo',
+  'va.conditionsBody': 'Kila jicho hupimwa kwanza bila miwani. Ongeza vipimo vilivyo hapa chini ikiwa vinahusika.',
+  'va.conditionSpectacles': 'Na miwani ya sasa',
+  'va.conditionSpectaclesDesc': 'Pima kila jicho tena kwa miwani ambayo mgonjwa huvaa kuona mbali, kuhakikisha bado inatosha',
+  'va.conditionBinocular': 'Macho yote mawili wazi',
+  'va.conditionBinocularDesc': 'Kipimo kimoja zaidi macho yote yakiwa wazi, kama mgonjwa anavyoona kwa kawaida',
+  'va.answerMode': 'Jinsi Majibu Yanavyotolewa',
+  'va.answerTap': '👆 Msaidizi anagusa majibu',
+  'va.answerTapDesc': 'Mgonjwa anataja kila jibu na msaidizi analigusa',
+  'va.answerSpoken': '🎤 Majibu ya sauti',
+  'va.answerSpokenDesc': 'Simu inamsikiliza mgonjwa moja kwa moja — hakuna haja ya msaidizi. Majibu yasiyo wazi husomwa tena na kuthibitishwa kabla ya kuhesabiwa.',
+  'va.answerRemote': 'Simu ya Pili',
+  'va.answerRemoteDesc': 'Mpimaji anasimama karibu na mgonjwa na kuweka alama kwenye simu iliyounganishwa. Simu zote mbili zinahitaji Wi-Fi moja.',
+  'va.listening': '🎤 Inasikiliza — sema jibu kwa sauti',
+  'va.heardConfirm': 'Imesikia “{heard}” — ulimaanisha {answer}?',
+  'va.heardCantSee': 'Imesikia “siwezi kuona” — ni sahihi?',
+  'va.positioned': 'Nimeweka Simu Yangu',
+  'va.distanceCheck': 'Kuhakiki Umbali',
+  'va.distanceCheckSub': 'Je, uko mita 3 mbali?',
+  'va.quickCheck': 'Ukaguzi wa Haraka',
+  'va.quickCheckBody': 'Unapaswa kuwa takriban mita 3 kutoka kwenye skrini. Tumia miongozo hii:',
+  'va.checkSteps': 'Rudi nyuma hatua 3-4 kubwa kutoka kwenye simu',
+  'va.checkSofa': 'Karibu urefu wa sofa ya kawaida',
+  'va.checkTape': 'Tumia utepe wa kupimia kama upo',
+  'va.calibrationHint': 'Je, unaiona herufi hii vizuri ukiwa hapo ulipo?',
+  'va.screenCalTitle': '💳 Kurekebisha Skrini',
+  'va.screenCalDone': 'Simu hii ilirekebishwa tarehe {date}. Kadi ya benki au kitambulisho ikiwekwa juu ya mstatili ulio hapa chini inapaswa kulingana nao kabisa.',
+  'va.placeCard': '📇 Weka kadi hapa',
+  'va.recalibrate': 'Hazilingani — Rekebisha Tena',
+  'va.screenCalNeeded': 'Simu hii bado haijarekebishwa, kwa hivyo ukubwa wa herufi unakadiriwa. Kwenye simu nyingine utakuwa si sahihi waziwazi. Kurekebisha huchukua sekunde 30 kwa kadi yoyote ya benki au kitambulisho na hufanywa mara moja tu.',
+  'va.calibrateNow': 'Rekebisha Skrini Sasa',
+  'va.startRight': '👁️ Tunaanza na Jicho la Kulia',
+  'va.startRightBody': 'Kabla hatujaanza, funika jicho lako la KUSHOTO kwa mkono. Acha jicho la KULIA wazi.',
+  'va.yesReady': 'Ndiyo, Niko Tayari',
+  'va.testing': 'Inapima: JICHO LA {eye}',
+  'va.testingNear': 'Inapima: JICHO LA {eye} (Karibu)',
+  'va.cover': 'Funika jicho lako la {eye} kwa mkono',
+  'va.coverGlassesOn': 'Funika jicho lako la {eye} • baki na miwani',
+  'va.testingBoth': 'Inapima: MACHO YOTE MAWILI',
+  'va.keepBothOpen': 'Acha macho yote mawili wazi',
+  'va.lineOf': 'Mstari {current} kati ya {total}',
+  'va.size': 'Ukubwa {acuity}',
+  'va.renderWarning': '⚠️ Skrini hii haiwezi kuchora herufi za {acuity} kwa usahihi. Matokeo ya mstari huu huenda yasiaminike.',
+  'va.questionE': 'Miguu ya E inaelekea upande gani?',
+  'va.swipeHint': '…au telezesha kidole juu ya E kwa upande huo huo',
+  'va.crowdedHint': 'Soma ile tu yenye alama ▲',
+  'va.questionLea': 'Unaona picha gani?',
+  'va.questionLetter': 'Unaona herufi gani?',
+  'va.worseThan': 'Chini ya {acuity}',
+  'va.switchLeft': 'Badilisha kwa Jicho la Kushoto',
+  'va.switchDistanceSub': 'Kuona Mbali — Sehemu 1 kati ya 2',
+  'va.switchNearSub': 'Kuona Karibu — Sehemu 2 kati ya 2',
+  'va.greatJobRight': 'Kazi nzuri kwa jicho la kulia!',
+  'va.nowLeft': 'Sasa tunahitaji kupima jicho lako la kushoto. Tafadhali:',
+  'va.coverRight': 'Funika jicho lako la KULIA kwa mkono',
+  'va.coverLeft': 'Funika jicho lako la KUSHOTO kwa mkono',
+  'va.glassesTitle': 'Vaa Miwani',
+  'va.glassesBody': 'Sasa pima kila jicho tena kwa miwani unayovaa kuona mbali.',
+  'va.bothEyesTitle': 'Macho Yote Wazi',
+  'va.bothEyesBody': 'Kipimo cha mwisho: soma chati macho yote mawili yakiwa wazi.',
+  'va.conditionOf': 'Hali ya kipimo {current} kati ya {total}',
+  'va.putOnGlasses': 'Vaa miwani unayovaa kwa kawaida kuona mbali',
+  'va.keepGlassesOn': 'Baki na miwani yako',
+  'va.keepLeftOpen': 'Acha jicho lako la KUSHOTO wazi',
+  'va.stay3m': 'Baki mita 3 kutoka kwenye skrini',
+  'va.tapReady': 'Gusa "Niko Tayari" jicho lako la kulia likishafunikwa na unaona skrini kwa jicho la kushoto tu.',
+  'va.distanceResults': 'Matokeo ya Kuona Mbali',
+  'va.part1Complete': 'Sehemu 1 Imekamilika',
+  'va.part2Complete': 'Sehemu 2 Imekamilika',
+  'va.childNoNear': 'Watoto wadogo hawapewi kipimo cha kusoma karibu. Endelea kuona matokeo ya uchunguzi wa mtoto.',
+  'va.distanceConcern': '⚠️ Kuona kwako mbali kunaweza kuashiria myopia (kutoona mbali). Endelea na kipimo cha kuona karibu kwa tathmini kamili.',
+  'va.distancePinholeConcern': '⚠️ Kuona kwa angalau jicho moja hakukuboreka kupitia tundu. Hili linapaswa kuchunguzwa na mtaalamu wa macho. Endelea na kipimo cha kuona karibu kukamilisha uchunguzi.',
+  'va.distanceHealthy': '✅ Kuona kwako mbali kunaonekana kuwa katika kiwango kizuri. Endelea na kipimo cha kuona karibu kukamilisha uchunguzi.',
+  'va.viewChildResult': 'Tazama Matokeo ya Uchunguzi wa Mtoto',
+  'va.continueNear': 'Endelea na Kipimo cha Kuona Karibu',
+  'va.nearTitle': 'Kipimo cha Kuona Karibu',
+  'va.nearStep1': 'Shikilia simu ikikuelekea — programu itakuongoza hadi sm 40',
+  'va.nearStep2': 'Mwangaza utabaki juu kabisa kwa utofautishaji bora',
+  'va.nearStep3': 'Tutaonyesha maandishi yanayopungua ukubwa — soma kila moja kwa sauti',
+  'va.nearTip': '💡 Sentimita 40 ni karibu urefu kutoka kiwikoni hadi ncha za vidole',
+  'va.levelOf': 'Kiwango {current} kati ya {total}',
+  'va.nearQuestion': 'Je, unaweza kusoma maandishi haya vizuri?',
+  'va.nearYes': '✅ Ndiyo, vizuri',
+  'va.nearNo': '❌ Hapana, yana ukungu',
+  'va.rightComplete': 'Jicho la kulia limekamilika!',
+  'va.nowLeftNear': 'Sasa tutapima kuona karibu kwa jicho lako la kushoto. Tafadhali:',
+  'va.hold40': 'Shikilia simu sm 40 (urefu wa mkono)',
+  'va.nearResults': 'Matokeo ya Kuona Karibu',
+  'va.viewAssessment': 'Tazama Tathmini Kamili',
+  'va.methodDistance': 'Chati ya {chart} ya mita 3, {strategy} (imerekebishwa DPI, umbali wa uso umehakikiwa)',
+  'va.methodNearChild': 'Hakikufanywa (uchunguzi wa mtoto)',
+  'va.methodNear': 'Kipimo cha Jaeger sm 40 (imerekebishwa DPI, umbali wa uso umehakikiwa)',
+  'va.methodBrightness': 'Imewekwa 100% wakati wa kipimo',
+  'va.methodNote': '📐 Imepimwa kwa umbali uliohakikiwa (kwa kamera) na mwangaza wa juu kabisa • ',
+  'va.methodChild': 'Alama za LEA m 3, viwango vya watoto',
+  'va.methodCharts': '{chart} m 3 + Jaeger sm 40',
+  'va.cardCalibrated': ' • skrini imerekebishwa kwa kadi',
+  'va.crowdedNote': ' • mistari mizima iliyosongamana',
+  'va.notCalibrated': ' • skrini haijarekebishwa',
+  'va.placedSteps': ' • mita 3 zimepimwa kwa hatua: hatua {steps} ≈ mita {metres}',
+  'va.placedStepsDefault': ' • mita 3 zimepimwa kwa hatua: hatua {steps} ≈ mita {metres} (hatua haijapimwa)',
+  'va.placedManual': ' • umbali uliwekwa bila kihesabu hatua',
+  'va.distanceSummary': '📏 Kuona Mbali (m 3 {chart})',
+  'va.otherConditions': '👓 Hali Nyingine za Kipimo',
+  'va.rightGlassesColon': 'Jicho la Kulia, miwani:',
+  'va.leftGlassesColon': 'Jicho la Kushoto, miwani:',
+  'va.bothEyesColon': 'Macho Yote:',
+  'va.bothGlassesColon': 'Macho Yote, miwani:',
+  'va.glassesVerdictColon': 'Miwani ya sasa:',
+  'va.whoColon': 'Kundi la WHO:',
+  'va.nearSummary': '📖 Kuona Karibu (sm 40 Jaeger)',
+  'va.readingGlasses': '👓 Miwani ya Kusomea',
+  'va.readingAddColon': 'Nyongeza inayokadiriwa:',
+  'va.readingSpeed': '⏱️ Kasi ya Kusoma (macho yote)',
+  'va.maxReadingSpeedColon': 'Kasi ya juu:',
+  'va.criticalPrintColon': 'Ukubwa muhimu wa maandishi:',
+  'va.testReadingSpeed': '⏱️ Pima Kasi ya Kusoma',
+  'va.retestReadingSpeed': '⏱️ Pima Kasi ya Kusoma Tena',
+  'va.recommendation': '📋 Ushauri',
+  'va.disclaimer': '⚠️ Uchunguzi huu si mbadala wa uchunguzi wa kitaalamu wa macho. Tafadhali mwone daktari wa macho aliyehitimu kwa tathmini kamili.',
+  'va.save': 'Imekamilika — Hifadhi Matokeo',
+
+  // ── Colour vision test ──
+  'cv.protan': 'Protanopia (Udhaifu wa nyekundu)',
+  'cv.deutan': 'Deuteranopia (Udhaifu wa kijani)',
+  'cv.tritan': 'Tritanopia (Buluu-njano)',
+  'cv.normal': 'Kuona Rangi kwa Kawaida',
+  'cv.title': 'Kipimo cha Kuona Rangi',
+  'cv.subtitle': 'Uchunguzi wa Ishihara',
+  'cv.redGreenLabel': 'Kuona Nyekundu-Kijani',
+  'cv.redGreenDesc': 'Hugundua protanopia na deuteranopia — kasoro za kuona rangi zinazotokea zaidi (8% ya wanaume).',
+  'cv.blueYellowLabel': 'Kuona Buluu-Njano',
+  'cv.blueYellowDesc': 'Huchunguza tritanopia — hali adimu zaidi inayoathiri kuona rangi za buluu na njano.',
+  'cv.durationLabel': 'Dakika 3–5',
+  'cv.durationDesc': 'Bamba 14 za mtindo wa Ishihara. Tambua namba iliyofichwa katika kila mchoro wa vitone.',
+  'cv.clinicalBody': 'Kimejengwa juu ya toleo la uchunguzi la Ishihara la bamba 14, kiwango cha kimataifa cha kupima kuona rangi kinachotumiwa na madaktari wa macho duniani kote.',
+  'cv.clinicalTip': '🔬 Rangi zimerekebishwa kwa viwango vya CIE 1931 kwa kipimo sahihi.',
+  'cv.setupStep1': 'Mwangaza wa skrini huwekwa wenyewe wakati picha zinaonyeshwa',
+  'cv.setupStep2': 'Hakikisha mwanga mzuri wa ndani (lux 1,000–2,500 inapendekezwa)',
+  'cv.setupStep3': 'Shikilia simu sm 50–75 (~urefu wa mkono) kutoka machoni',
+  'cv.setupStep4': 'Zima vichujio vyovyote vya rangi, hali ya usiku, au vichujio vya mwanga wa buluu',
+  'cv.setupWarning': '⚠️ Hali ya usiku, vichujio vya mwanga wa buluu, au rangi za skrini zitaharibu kipimo. Tafadhali vizime kabla ya kuendelea.',
+  'light.title': '💡 Mwanga wa chumba',
+  'light.measuring': 'Inapima mwanga wa chumba…',
+  'light.lux': 'lux {lux}',
+  'light.range': 'Inafaa kwa kipimo hiki: lux {min}–{max}',
+  'light.ok': 'Mwanga ni mzuri',
+  'light.tooDark': 'Giza mno',
+  'light.tooBright': 'Mwanga mkali mno',
+  'light.tooDarkAdvice': 'Washa taa au sogea karibu na dirisha. Matokeo katika chumba chenye giza hayaaminiki sana.',
+  'light.tooBrightAdvice': 'Sogea kivulini ili jua lisiangukie skrini.',
+  'light.noSensor': 'Simu hii haina kihisi cha mwanga. Pima katika chumba chenye mwanga sawa, mbali na jua moja kwa moja, bila taa inayoakisi kwenye skrini.',
+  'cv.howItWorks': 'Jinsi Inavyofanya Kazi',
+  'cv.howBody': 'Utaona bamba za duara zilizojaa vitone vya rangi. Namba imefichwa ndani ya kila bamba. Gusa namba unayoiona, au "Sioni Namba" kama huwezi kuitambua.',
+  'cv.howDemo': 'Bamba la kwanza ni la mfano — kila mtu anapaswa kuweza kulisoma. Hii inathibitisha kuwa skrini yako inaonyesha rangi kwa usahihi.',
+  'cv.plateOf': 'Bamba {current} kati ya {total}',
+  'cv.demoPlate': 'Bamba la Mfano',
+  'cv.blueYellowScreening': 'Uchunguzi wa Buluu-Njano',
+  'cv.redGreenScreening': 'Uchunguzi wa Nyekundu-Kijani',
+  'cv.question': 'Unaona namba gani?',
+  'cv.cantSee': 'Sioni Namba',
+  'cv.resultsTitle': 'Matokeo ya Kuona Rangi',
+  'cv.resultsSubtitle': 'Uchunguzi wa Ishihara wa Bamba 14',
+  'cv.overallScore': 'Alama ya Jumla',
+  'cv.correctOf': '{correct}/{total} sahihi',
+  'cv.classification': 'Uainishaji',
+  'cv.noDeficiency': 'Hakuna kasoro',
+  'cv.mildDeficiency': 'Kasoro ndogo',
+  'cv.moderateDeficiency': 'Kasoro ya wastani',
+  'cv.strongDeficiency': 'Kasoro kubwa',
+  'cv.plateByPlate': 'Matokeo ya Kila Bamba',
+  'cv.plate': 'Bamba {number}',
+  'cv.catDemo': 'Mfano',
+  'cv.catBlueYellow': 'Buluu-Njano',
+  'cv.catRedGreen': 'Nyekundu-Kijani',
+  'cv.correct': '✓ Sahihi',
+  'cv.was': '✗ (ilikuwa {answer})',
+  'cv.normalBody': 'Kuona kwako rangi kunaonekana kuwa kwa kawaida. Ulitambua namba kwa usahihi katika mihimili yote ya rangi iliyopimwa, ikiwemo bamba za nyekundu-kijani na buluu-njano. Hakuna dalili za kasoro ya kuona rangi zilizogunduliwa.',
+  'cv.possible': 'Matokeo yanaashiria uwezekano wa kasoro {severity} ya kuona rangi ya aina ya {type}.',
+  'cv.severity.mild': 'ndogo',
+  'cv.severity.moderate': 'ya wastani',
+  'cv.severity.strong': 'kubwa',
+  'cv.type.protan': 'protan (udhaifu wa nyekundu)',
+  'cv.type.deutan': 'deutan (udhaifu wa kijani)',
+  'cv.type.tritan': 'tritan (buluu-njano)',
+  'cv.recommendBody': 'Uchunguzi huu unaashiria kuwa huenda ukawa na ugumu wa kutofautisha rangi fulani. Tafadhali mwone mtaalamu wa macho kwa tathmini kamili ya kuona rangi kwa kutumia Ishihara ya bamba 38 au Farnsworth-Munsell 100 Hue.',
+  'cv.testStandard': 'Kiwango cha Kipimo',
+  'cv.testStandardValue': 'Ishihara bamba 14',
+  'cv.plateCategories': 'Aina za Bamba',
+  'cv.plateCategoriesValue': 'Mfano, Kutoweka, Kubadilika',
+  'cv.colorStandard': 'Kiwango cha Rangi',
+  'cv.colorStandardValue': 'CIE 1931',
+  'cv.deficiencyTypes': 'Aina za Kasoro',
+  'cv.deficiencyTypesValue': 'Protan, Deutan, Tritan',
+  'cv.disclaimer': '⚠️ Hiki ni chombo cha uchunguzi, si utambuzi wa kitabibu. Skrini za simu huenda zisionyeshe rangi za Ishihara kwa usahihi kamili wa kitabibu. Matokeo yanaweza kutofautiana kutegemea marekebisho ya skrini, mwangaza na mwanga wa mazingira. Mwone mtaalamu wa macho aliyehitimu kwa kipimo cha uhakika.',
+
+  // ── Astigmatism test ──
+  'astig.recNone': 'Hakuna dalili za astigmatism zilizogunduliwa. Macho yako yanaonekana kulenga sawasawa pande zote. Endelea na uchunguzi wa kawaida wa macho kila mwaka 1–2.',
+  'astig.recInconsistent': 'Matokeo hayakuwa thabiti kidogo. Hii inaweza kusababishwa na uchovu wa macho au mazingira ya kipimo. Fikiria kupima tena baada ya kupumzisha macho, au mwone mtaalamu wa macho ukiona picha zilizopotoka au kuvutika.',
+  'astig.recMild': 'Tofauti ndogo ya kulenga kwa mwelekeo imegunduliwa. Huenda ikaashiria astigmatism kidogo. Ingawa mara nyingi haiathiri kuona, fikiria uchunguzi wa macho ukipata maumivu ya kichwa, uchovu wa macho, au ugumu wa kuona vitu vidogo.',
+  'astig.recModerate': 'Kutolingana kwa wastani kwa kulenga kwa mwelekeo kumegunduliwa katika jicho moja au yote mawili. Hii inaendana na astigmatism ambayo inaweza kufaidika na lenzi za kurekebisha. Tunashauri umwone daktari wa macho kwa kipimo kamili kwa Jackson Cross Cylinder ili kujua kipimo halisi cha miwani.',
+  'astig.recSignificant': 'Kutolingana kukubwa kwa kulenga kwa mwelekeo kumegunduliwa. Hii inaashiria kwa nguvu astigmatism ambayo huenda inaathiri kuona kwako kila siku. Tafadhali mwone mtaalamu wa macho haraka kwa tathmini kamili. Miwani au lenzi za mguso (toric) zinaweza kuboresha sana uwazi wa kuona kwako.',
+  'astig.none': 'Hakuna Astigmatism Iliyogunduliwa',
+  'astig.mild': 'Shaka Ndogo',
+  'astig.moderate': 'Shaka ya Wastani',
+  'astig.significant': 'Shaka Kubwa',
+  'astig.unknown': 'Haijulikani',
+  'astig.title': 'Uchunguzi wa Astigmatism',
+  'astig.subtitle': 'Kipimo cha Dial ya Astigmatism',
+  'astig.whatIs': 'Astigmatism ni Nini?',
+  'astig.unevenLabel': 'Kulenga Kusikolingana',
+  'astig.unevenDesc': 'Astigmatism inamaanisha jicho halilengi mwanga sawasawa pande zote. Pembe fulani huonekana wazi zaidi na nyingine huonekana na ukungu au kupotoka.',
+  'astig.howLabel': 'Jinsi Tunavyopima',
+  'astig.howDesc': 'Utatazama dial yenye mistari inayotoka katikati kwenda pande zote, kama saa. Mistari fulani ikionekana myeusi zaidi au wazi zaidi kuliko mingine, huenda ikaashiria astigmatism.',
+  'astig.durationLabel': 'Dakika 3–4',
+  'astig.durationDesc': 'Kila jicho hupimwa peke yake, pamoja na mzunguko wa kuthibitisha kwa usahihi. Haraka na bila maumivu.',
+  'astig.clinicalBody': 'Kimejengwa juu ya mbinu ya Dial ya Astigmatism (Dial ya Saa) — chombo cha uchunguzi wa astigmatism kinachotumiwa zaidi kitabibu. Hutumia mistari 12 iliyo na nafasi sawa kila 15°.',
+  'astig.clinicalTip': '🔬 Hiki ni chombo cha uchunguzi kinachogundua tofauti za kulenga kwa mwelekeo. HAKIPIMI nguvu ya miwani — ni daktari wa macho mwenye Jackson Cross Cylinder tu anayeweza kufanya hivyo.',
+  'astig.setupStep1': 'Shikilia simu kwa urefu wa mkono (~sm 50–75) au umbali ule ule uliotumia kwa kipimo cha uwezo wa kuona',
+  'astig.setupStep2': 'Weka mwangaza wa skrini juu kabisa — mng\'ao au skrini hafifu zinaweza kuficha astigmatism',
+  'astig.setupStep3': 'Hakikisha mwanga wa ndani wa kawaida — epuka jua moja kwa moja au vivuli kwenye skrini',
+  'astig.setupStep4': 'Kama kwa kawaida unavaa miwani ya kuona mbali, ivae wakati wa kipimo',
+  'astig.procedure': 'Utaratibu wa Kupima',
+  'astig.procStep1': 'Funika jicho lako la KUSHOTO kwanza. Tutapima jicho la KULIA, kisha tubadilishe.',
+  'astig.procStep2': 'Tazama kitone chekundu cha katikati. Kisha gusa mistari yoyote inayoonekana myeusi zaidi, minene zaidi, au wazi zaidi kuliko mingine.',
+  'astig.procStep3': 'Kama mistari yote inaonekana wazi sawasawa, gusa "Mistari Yote Sawa". Utaombwa kuthibitisha jibu lako mara moja.',
+  'astig.procTip': '⚠️ Lenga kitone cha katikati, si mistari moja moja. Acha uoni wa pembeni uamue mistari ipi inajitokeza. Usikodoe macho — tumia uoni wako wa kawaida ukiwa umetulia.',
+  'astig.rightOD': 'Jicho la Kulia (OD)',
+  'astig.leftOS': 'Jicho la Kushoto (OS)',
+  'astig.coverLeftShort': 'Funika jicho lako la KUSHOTO',
+  'astig.coverRightShort': 'Funika jicho lako la KULIA',
+  'astig.coverLeftTitle': 'Funika Jicho Lako la Kushoto',
+  'astig.coverRightTitle': 'Funika Jicho Lako la Kulia',
+  'astig.coverDesc': 'Tumia kiganja au kifuniko kufunika jicho lako la {eye} taratibu. Usibonyeze jicho — zuia tu kuona.',
+  'astig.eyeLeft': 'kushoto',
+  'astig.eyeRight': 'kulia',
+  'astig.instructionHint': 'Lenga kitone chekundu cha katikati.\nGusa mistari yoyote inayoonekana myeusi, minene, au wazi zaidi.',
+  'astig.showDial': 'Niko Tayari — Onyesha Dial',
+  'astig.firstLook': 'Mtazamo wa Kwanza',
+  'astig.confirmation': 'Uthibitisho',
+  'astig.eyeRound': '{eye} — {round}',
+  'astig.leftCovered': 'Jicho la kushoto limefunikwa',
+  'astig.rightCovered': 'Jicho la kulia limefunikwa',
+  'astig.round1Question': 'Gusa mistari yoyote inayoonekana myeusi zaidi au wazi zaidi',
+  'astig.round2Question': 'Thibitisha: gusa tena mistari myeusi/wazi zaidi',
+  'astig.selectedOne': 'Mstari 1 umechaguliwa: {angles}',
+  'astig.selectedMany': 'Mistari {count} imechaguliwa: {angles}',
+  'astig.allEqual': 'Mistari Yote Sawa',
+  'astig.next': 'Endelea →',
+  'astig.confirm': 'Thibitisha →',
+  'astig.eyeConfirm': '{eye} — Thibitisha',
+  'astig.repeat': 'Rudia kipimo kwa usahihi',
+  'astig.confirmTitle': 'Mzunguko wa Uthibitisho',
+  'astig.confirmEqual': 'Ulisema mistari yote ilionekana sawa. Tuhakikishe — tazama dial tena na uthibitishe kama mistari yote kweli inaonekana sawa.',
+  'astig.confirmOne': 'Ulitambua mstari 1 mweusi zaidi. Sasa tazama dial tena kwa macho mapya na utuambie unachokiona.',
+  'astig.confirmMany': 'Ulitambua mistari {count} myeusi zaidi. Sasa tazama dial tena kwa macho mapya na utuambie unachokiona.',
+  'astig.confirmTip': '💡 Kurudia huku kunasaidia usahihi. Pepesa macho mara chache na ulenge tena kitone cha katikati kabla ya kuendelea.',
+  'astig.showAgain': 'Onyesha Dial Tena',
+  'astig.rightComplete': 'Jicho la Kulia Limekamilika ✓',
+  'astig.nowLeft': 'Sasa tunapima jicho la kushoto',
+  'astig.switchEyes': 'Badilisha Macho',
+  'astig.switchDesc': 'Sasa funika jicho lako la KULIA na uache jicho la KUSHOTO wazi.',
+  'astig.switchHint': 'Pumzisha macho yako kidogo kabla ya kuendelea.',
+  'astig.rightResult': 'Matokeo ya Jicho la Kulia',
+  'astig.miniEqual': 'Mistari yote ilionekana sawa — hakuna dalili za astigmatism',
+  'astig.miniOne': 'Mwelekeo 1 ulionekana mweusi zaidi',
+  'astig.miniMany': 'Mielekeo {count} ilionekana myeusi zaidi',
+  'astig.testLeft': 'Pima Jicho la Kushoto',
+  'astig.uniform': 'Mistari yote ilionekana wazi sawasawa — hakuna tofauti ya kulenga kwa mwelekeo iliyogunduliwa.',
+  'astig.darkerAt': 'Mistari myeusi zaidi iliripotiwa kwenye: {angles}',
+  'astig.axis': 'Mhimili unaoshukiwa wa astigmatism: ~{axis}°',
+  'astig.consistent': '✓ Thabiti katika mizunguko yote miwili',
+  'astig.inconsistent': '⚠ Si thabiti kati ya mizunguko — inashauriwa kupima tena',
+  'astig.resultsTitle': 'Matokeo ya Astigmatism',
+  'astig.resultsSubtitle': 'Uchunguzi wa Dial ya Astigmatism',
+  'astig.overall': 'Tathmini ya Jumla',
+  'astig.eyeByEye': 'Matokeo ya Kila Jicho',
+  'astig.affected': 'Mielekeo Iliyoathirika',
+  'astig.affectedBody': 'Mistari iliyoonekana myeusi zaidi imeangaziwa kwa rangi ya machungwa hapa chini. Mhimili wa astigmatism ni pembe mraba kwa mistari hii.',
+  'astig.whatMeans': 'Hii Inamaanisha Nini',
+  'astig.whatMeansBody': 'Mistari fulani kwenye dial ilionekana myeusi zaidi au wazi zaidi kuliko mingine. Hii inaashiria kuwa huenda jicho halilengi mwanga sawasawa pande zote. Daktari wa macho anaweza kupima kwa usahihi kiwango na mhimili wa astigmatism na, ikihitajika, kuandika lenzi za silinda.',
+  'astig.testMethod': 'Mbinu ya Kipimo',
+  'astig.testMethodValue': 'Dial ya Astigmatism',
+  'astig.meridians': 'Mielekeo Iliyopimwa',
+  'astig.meridiansValue': '12 (kila 15°)',
+  'astig.eyesTested': 'Macho Yaliyopimwa',
+  'astig.eyesTestedValue': 'Yote (moja moja)',
+  'astig.confirmationValue': 'Mizunguko 2 kwa kila jicho',
+  'astig.standard': 'Kiwango',
+  'astig.standardValue': 'Kanuni za ISO 8596',
+  'astig.limitations': 'Mipaka',
+  'astig.limit1': 'Hakiwezi kupima nguvu ya silinda (diopta)',
+  'astig.limit2': 'Hakiwezi kuandika lenzi za kurekebisha',
+  'astig.limit3': 'Hakiwezi kuchukua nafasi ya kipimo cha kitabibu cha miwani',
+  'astig.can1': 'Kinaweza kuchunguza astigmatism kwa uhakika',
+  'astig.can2': 'Kinaweza kuonyesha wagonjwa wanaohitaji rufaa',
+  'astig.can3': 'Kinafaa kwa uchunguzi wa jamii na shule',
+  'astig.disclaimer': '⚠️ Hiki ni chombo cha uchunguzi, si utambuzi wa kitabibu. Skrini za simu, mwanga wa mazingira na umbali wa kutazama vinaweza kuathiri matokeo. Mwone mtaalamu wa macho aliyehitimu kwa tathmini ya uhakika ya astigmatism na kipimo cha miwani.',
+
+  // ── Amsler grid test ──
+  'amsler.recNone': 'Mistari yote ilionekana iliyonyooka na kamili kwa macho yote mawili. Hakuna dalili ya ugonjwa wa makula. Rudia ukaguzi huu kila baada ya miezi michache kama una zaidi ya miaka 50 au una kisukari.',
+  'amsler.recMild': 'Baadhi ya mistari iliyo mbali na katikati ilionekana kupinda au kufifia. Hii inaweza kuwa dalili ya mapema ya ugonjwa wa makula. Tafadhali mwone mtaalamu wa macho ndani ya mwezi mmoja, na mapema zaidi hali ikizidi.',
+  'amsler.recSignificant': 'Mistari karibu na katikati ilionekana kupinda, au sehemu za gridi zilikosekana. Hii inaweza kuwa dalili ya kuzorota kwa makula kwa aina ya majimaji au ugonjwa mwingine wa makula unaohitaji matibabu haraka. Tafadhali mwone mtaalamu wa macho ndani ya siku chache.',
+  'amsler.none': 'Mistari Imenyooka',
+  'amsler.mild': 'Upindaji wa Pembeni',
+  'amsler.significant': 'Upindaji wa Katikati au Eneo Lililokosekana',
+  'amsler.title': 'Gridi ya Amsler',
+  'amsler.subtitle': 'Uchunguzi wa Makula',
+  'amsler.whatIs': 'Gridi ya Amsler ni Nini?',
+  'amsler.maculaLabel': 'Makula',
+  'amsler.maculaDesc': 'Katikati ya retina, inayotumika kusoma na kutambua nyuso. Magonjwa kama kuzorota kwa makula na uvimbe wa makula wa kisukari hupinda au kufuta mistari iliyonyooka hapo.',
+  'amsler.howLabel': 'Jinsi Kinavyofanya Kazi',
+  'amsler.howDesc': 'Unatazama nukta katikati ya gridi na kuweka alama kwenye mistari yoyote inayoonekana kupinda, kufifia au kukosekana.',
+  'amsler.durationLabel': 'Muda',
+  'amsler.durationDesc': 'Takriban dakika 1–2 kwa kila jicho',
+  'amsler.clinicalBody': 'Gridi ya Amsler ni chati ya sm 10 yenye miraba 20 × 20 na nukta katikati. Kwa umbali sahihi kila mraba hufunika 1° ya uoni, hivyo gridi hupima 20° za katikati — makula yote.',
+  'amsler.clinicalTip': '💡 Gridi imepimwa kulingana na simu hii kwa kutumia kipimo cha kadi. Ishike kwa umbali ulioonyeshwa ili kila mraba ufunike 1°.',
+  'amsler.setupStep1': 'Kaa kwenye chumba chenye mwanga mzuri. Vaa miwani yako ya kusomea kama unaitumia.',
+  'amsler.setupStep2': 'Shika simu sm {cm} kutoka machoni — takriban urefu wa rula ya shule.',
+  'amsler.setupStep3': 'Kila jicho linapimwa peke yake. Funika jicho lingine.',
+  'amsler.procedure': 'Utaratibu wa Kipimo',
+  'amsler.procStep1': 'Tazama nukta ya katikati ya gridi tu — usitazame huku na huku.',
+  'amsler.procStep2': 'Pitisha kidole au gusa miraba yoyote ambapo mistari inaonekana kupinda, kufifia au kukosekana.',
+  'amsler.procStep3': 'Bonyeza Imekamilika. Kama mistari yote inaonekana imenyooka, sema hivyo.',
+  'amsler.procTip': '💡 Chagua "Imepinda" kwa mistari iliyopinda au kufifia na "Imekosekana" kwa mapengo au sehemu zilizofifia kabla ya kuweka alama.',
+  'amsler.coverDesc': 'Funika jicho lako la {eye} kwa kiganja. Shika simu sm {cm} mbali na utazame nukta ya katikati.',
+  'amsler.instructionHint': 'Endelea kutazama nukta ya katikati muda wote. Kusogeza jicho huficha maeneo yenye tatizo.',
+  'amsler.showGrid': 'Onyesha Gridi',
+  'amsler.centreQuestion': 'Ukitazama katikati, unaiona nukta?',
+  'amsler.markQuestion': 'Endelea kutazama nukta. Pitisha kidole juu ya mistari yoyote inayoonekana kupinda, kufifia au kukosekana.',
+  'amsler.brushDistorted': 'Imepinda',
+  'amsler.brushMissing': 'Imekosekana',
+  'amsler.markedOne': 'Mraba 1 umewekwa alama',
+  'amsler.markedMany': 'Miraba {count} imewekwa alama',
+  'amsler.allStraight': 'Mistari Yote Imenyooka',
+  'amsler.clear': 'Futa',
+  'amsler.switchDesc': 'Funua jicho lako la kushoto na ufunike jicho la kulia. Shika simu kwa umbali uleule.',
+  'amsler.miniNone': 'Mistari yote imenyooka',
+  'amsler.resultsTitle': 'Matokeo ya Gridi ya Amsler',
+  'amsler.noCentreDot': 'Nukta ya katikati haikuonekana',
+  'amsler.allStraightResult': 'Mistari yote ilionekana imenyooka na kamili.',
+  'amsler.markCounts': 'Imepinda: miraba {distorted} • Imekosekana: miraba {missing}',
+  'amsler.centralInvolved': 'Inaathiri 10° za katikati ya uoni',
+  'amsler.mapTitle': 'Ramani ya Upindaji',
+  'amsler.whatMeansBody': 'Mistari iliyonyooka inayoonekana kupinda, kufifia au kukosekana inamaanisha makula huenda imevimba, ina kovu au imepungua unene. Mtaalamu wa macho anaweza kuchunguza retina na, kwa kuzorota kwa makula kwa aina ya majimaji, kuanza matibabu yanayoweza kuokoa uoni yakitolewa mapema.',
+  'amsler.testMethodValue': 'Gridi ya Amsler',
+  'amsler.grid': 'Gridi',
+  'amsler.gridValue': '20 × 20, miraba ya mm {mm}',
+  'amsler.viewingDistance': 'Umbali wa Kutazama',
+  'amsler.viewingDistanceValue': 'sm {cm}',
+  'amsler.limit1': 'Hakiwezi kutambua chanzo cha upindaji',
+  'amsler.limit2': 'Hakiwezi kugundua ugonjwa wa mapema ambao bado haujapinda mistari',
+  'amsler.can1': 'Kinaweza kuonyesha mabadiliko ya makula yanayohitaji rufaa',
+  'amsler.can2': 'Kinaweza kurudiwa nyumbani kufuatilia mabadiliko mapya',
+  'amsler.disclaimer': '⚠️ Hiki ni chombo cha uchunguzi, si utambuzi wa kitabibu. Umbali wa kutazama, mtazamo na mwanga huathiri matokeo. Mwone mtaalamu wa macho aliyehitimu kwa uchunguzi wa retina.',
+
+  // ── Contrast sensitivity test ──
+  'cs.normal': 'Kawaida',
+  'cs.reduced': 'Imepungua',
+  'cs.severe': 'Imepungua Sana',
+  'cs.recNormal': 'Uwezo wa kuona utofauti wa mwanga ni wa kawaida kwa umri wako kwa macho yote mawili. Endelea na uchunguzi wa kawaida wa macho kila baada ya mwaka 1–2.',
+  'cs.recReduced': 'Uwezo wa kuona utofauti wa mwanga uko chini ya kawaida kwa umri wako. Hii inaweza kuwa dalili ya mapema ya mtoto wa jicho, glakoma au ugonjwa wa macho wa kisukari, hata herufi za chati ya macho zikionekana wazi. Tafadhali panga uchunguzi wa macho.',
+  'cs.recSevere': 'Uwezo wa kuona utofauti wa mwanga umepungua sana. Hii inafanya nyuso, ngazi na kingo za barabara kuwa vigumu kuona na kusafiri usiku kuwa hatari. Tafadhali mwone mtaalamu wa macho ndani ya mwezi mmoja.',
+  'cs.title': 'Kuona Utofauti wa Mwanga',
+  'cs.subtitle': 'Chati ya Herufi ya Pelli-Robson',
+  'cs.whatIs': 'Kuona Utofauti wa Mwanga ni Nini?',
+  'cs.contrastLabel': 'Kuona Vitu Vilivyofifia',
+  'cs.contrastDesc': 'Jinsi kitu kinavyoweza kufifia kabla hujakipoteza — ngazi ya kijivu kwenye sakafu ya kijivu, uso kivulini. Mtoto wa jicho, glakoma na ugonjwa wa macho wa kisukari mara nyingi hupunguza uwezo huu kabla ya kufifisha chati ya macho.',
+  'cs.howLabel': 'Jinsi Kinavyofanya Kazi',
+  'cs.howDesc': 'Unasoma vikundi vya herufi tatu kubwa. Kila kikundi kimefifia zaidi kuliko kilichotangulia, hadi herufi zitoweke.',
+  'cs.durationLabel': 'Muda',
+  'cs.durationDesc': 'Takriban dakika 1–2 kwa kila jicho',
+  'cs.clinicalBody': 'Chati ya Pelli-Robson ina vikundi vya herufi tatu, kila kikundi kimefifia kwa kipimo cha log 0.15 kuliko kilichotangulia, kutoka nyeusi hadi kijivu kisichoonekana karibu. Alama ni logCS: 2.0 ni bora sana, chini ya 1.5 imepungua.',
+  'cs.clinicalTip': '💡 Rangi za herufi zimerekebishwa kulingana na jinsi skrini za simu zinavyoonyesha kijivu, ili vikundi vilivyofifia zaidi vionekane kwa utofauti sahihi.',
+  'cs.age': 'Umri wa Mgonjwa',
+  'cs.agePlaceholder': 'Umri kwa miaka (si lazima)',
+  'cs.ageHint': 'Uwezo wa kuona utofauti hupungua kadiri umri unavyoongezeka. Alama ya chini kabisa ya kawaida kwa umri huu: {limit}',
+  'cs.setupStep1': 'Kaa kwenye chumba chenye mwanga mzuri bila taa wala dirisha kuakisiwa kwenye skrini.',
+  'cs.setupStep2': 'Shika simu takriban sm {cm} kutoka machoni. Vaa miwani yako ya mbali kama unaitumia.',
+  'cs.setupStep3': 'Kila jicho linapimwa peke yake. Funika jicho lingine.',
+  'cs.procedure': 'Utaratibu wa Kipimo',
+  'cs.procStep1': 'Alama inaonyesha ni herufi ipi kati ya tatu ya kutaja.',
+  'cs.procStep2': 'Gusa herufi unayoiona, au mwombe msaidizi akuguse.',
+  'cs.procStep3': 'Endelea huku herufi zikizidi kufifia. Kisia kama unaona kitu lakini huna uhakika.',
+  'cs.procTip': '💡 Usiharakishe — herufi zilizofifia zinaweza kuchukua sekunde chache kuonekana. Kipimo kinasimama ukikosa herufi mbili za kikundi.',
+  'cs.coverDesc': 'Funika jicho lako la {eye} kwa kiganja. Shika simu takriban sm {cm} mbali.',
+  'cs.instructionHint': 'Tazama kila herufi kwa utulivu kwa sekunde chache kabla ya kujibu. Kupepesa macho kunaweza kusaidia herufi zilizofifia zionekane.',
+  'cs.showLetters': 'Onyesha Herufi',
+  'cs.tripletProgress': 'Kikundi {current} kati ya {total}',
+  'cs.question': 'Ni herufi gani iliyo juu ya alama?',
+  'cs.switchDesc': 'Fungua jicho lako la kushoto na ufunike jicho la kulia. Shika simu kwa umbali ule ule.',
+  'cs.logCSValue': 'logCS {value}',
+  'cs.lettersCorrect': 'Herufi {count} zimesomwa sahihi',
+  'cs.atCeiling': 'Alisoma herufi zilizofifia zaidi ambazo skrini hii inaweza kuonyesha — uwezo halisi unaweza kuwa juu zaidi',
+  'cs.resultsTitle': 'Matokeo ya Kuona Utofauti wa Mwanga',
+  'cs.normForAge': 'Kiwango cha chini cha kawaida kwa umri wa miaka {age}: logCS {limit}',
+  'cs.normUnknownAge': 'Kiwango cha chini cha kawaida kwa watu wazima: logCS {limit} (umri haukutolewa)',
+  'cs.whatMeansBody': 'Kupungua kwa uwezo wa kuona utofauti kunamaanisha kingo na vivuli hafifu vinapotea. Ni kawaida kwa mtoto wa jicho, glakoma, ugonjwa wa macho wa kisukari na matatizo ya neva ya macho, na kunaweza kufanya kazi za kila siku kuwa ngumu hata chati ya macho ikisomwa vizuri. Uchunguzi wa macho unaweza kupata chanzo.',
+  'cs.testMethodValue': 'Pelli-Robson (herufi kwa herufi)',
+  'cs.letters': 'Herufi',
+  'cs.lettersValue': 'Sloan, urefu mm {mm}',
+  'cs.viewingDistance': 'Umbali wa Kutazama',
+  'cs.viewingDistanceValue': 'sm {cm}',
+  'cs.range': 'Kiwango',
+  'cs.rangeValue': 'logCS 0.00–{max}',
+  'cs.limit1': 'Hakiwezi kupata chanzo cha kupungua kwa uwezo wa kuona utofauti',
+  'cs.limit2': 'Mwakisiko na mng\'ao kwenye skrini vinaweza kushusha alama',
+  'cs.can1': 'Kinaweza kuashiria mtoto wa jicho, glakoma na magonjwa ya retina ambayo kipimo cha uwezo wa kuona hukosa',
+  'cs.can2': 'Kinaweza kuonyesha jinsi mgonjwa atakavyomudu kwenye mwanga hafifu',
+  'cs.disclaimer': '⚠️ Hiki ni chombo cha uchunguzi, si utambuzi wa kitabibu. Ubora wa skrini, mwanga na mwakisiko huathiri matokeo. Mwone mtaalamu wa macho aliyehitimu kwa uchunguzi kamili wa macho.',
+
+  // ── Test suite ──
+  'suite.completed': 'Kimekamilika',
+  'suite.skipped': 'Kimerukwa',
+  'suite.pending': 'Kinasubiri',
+  'suite.title': 'Uchunguzi Kamili wa Macho',
+  'suite.subtitle': 'Vipimo 5 • ~dakika 16 kwa jumla',
+  'suite.plan': 'Mpango Wako wa Uchunguzi',
+  'suite.planBody': 'Tutakuongoza katika vipimo vitano vya viwango vya kitabibu kwa mfuatano. Unaweza kuruka kipimo chochote unachotaka.',
+  'suite.agePlaceholder': 'Umri kwa miaka (si lazima)',
+  'suite.ageHint': 'Huweka kiwango cha kawaida cha utofauti, na kuanzia miaka 40 kipimo cha karibu pia hukadiria miwani ya kusomea inayohitajika.',
+  'suite.vaTitle': '👓 Uwezo wa Kuona',
+  'suite.vaDesc': 'Uwazi wa kuona mbali na karibu • kiwango cha Snellen na Jaeger',
+  'suite.csTitle': '◐ Kuona Utofauti wa Mwanga',
+  'suite.csDesc': 'Kusoma herufi zilizofifia • chati ya Pelli-Robson',
+  'suite.cvTitle': '🎨 Kuona Rangi',
+  'suite.cvDesc': 'Uchunguzi wa nyekundu-kijani na buluu-njano • Ishihara bamba 14',
+  'suite.astigTitle': '◎ Astigmatism',
+  'suite.astigDesc': 'Usawa wa kulenga kwa mwelekeo • mbinu ya dial ya astigmatism',
+  'suite.amslerTitle': '▦ Gridi ya Amsler',
+  'suite.amslerDesc': 'Upindaji na maeneo yaliyokosekana kwenye makula • mbinu ya chati ya Amsler',
+  'suite.minutes5': '~dak 5',
+  'suite.minutes3': '~dak 3',
+  'suite.tip': '💡 Unaweza kuruka kipimo chochote na kukirudia baadaye kutoka skrini ya mwanzo. Kila kipimo kinaweza pia kufanywa peke yake.',
+  'suite.begin': 'Anza Uchunguzi',
+  'suite.vaSkipped': 'Uwezo wa Kuona Umerukwa',
+  'suite.vaComplete': 'Uwezo wa Kuona Umekamilika',
+  'suite.upNext': 'Kinachofuata',
+  'suite.csNextTitle': 'Kipimo cha Kuona Utofauti wa Mwanga',
+  'suite.csNextDesc': 'Soma vikundi vya herufi zinazozidi kufifia. Hugundua mtoto wa jicho na glakoma ambayo yanaweza kujificha nyuma ya alama nzuri ya chati ya macho.',
+  'suite.startCs': 'Anza Kipimo cha Kuona Utofauti',
+  'suite.csSkipped': 'Kuona Utofauti Kumerukwa',
+  'suite.csComplete': 'Kuona Utofauti Kumekamilika',
+  'suite.cvNextTitle': 'Kipimo cha Kuona Rangi',
+  'suite.cvNextDesc': 'Tambua namba zilizofichwa katika michoro ya vitone vya rangi. Hupima kasoro za kuona nyekundu-kijani na buluu-njano.',
+  'suite.threeMinutes': '~dakika 3',
+  'suite.startCv': 'Anza Kipimo cha Kuona Rangi',
+  'suite.skipTest': 'Ruka Kipimo Hiki',
+  'suite.cvSkipped': 'Kuona Rangi Kumerukwa',
+  'suite.cvComplete': 'Kuona Rangi Kumekamilika',
+  'suite.finalTest': 'Kipimo cha Mwisho',
+  'suite.astigNextTitle': 'Uchunguzi wa Astigmatism',
+  'suite.astigNextDesc': 'Tazama dial yenye mistari inayotoka katikati na utambue yoyote inayoonekana myeusi au wazi zaidi. Hupima kutolingana kwa kulenga kwa mwelekeo.',
+  'suite.startAstig': 'Anza Kipimo cha Astigmatism',
+  'suite.astigSkipped': 'Astigmatism Imerukwa',
+  'suite.astigComplete': 'Astigmatism Imekamilika',
+  'suite.amslerNextTitle': 'Kipimo cha Gridi ya Amsler',
+  'suite.amslerNextDesc': 'Tazama nukta katikati ya gridi na uweke alama kwenye mistari yoyote inayoonekana kupinda au kukosekana. Hupima makula, katikati ya uoni wako.',
+  'suite.startAmsler': 'Anza Kipimo cha Gridi ya Amsler',
+  'suite.vaQuick': 'JK: {right} / JS: {left}',
+  'suite.cvQuick': '{score}% — {type}',
+  'suite.complete': 'Uchunguzi Umekamilika',
+  'suite.progress': 'Vipimo {completed} kati ya {total} vimekamilika',
+  'suite.progressSkipped': 'Vipimo {completed} kati ya {total} vimekamilika • {skipped} vimerukwa',
+  'suite.resultsSummary': 'Muhtasari wa Matokeo',
+  'suite.overall': 'Tathmini ya Jumla',
+  'suite.overallWarning': '⚠️ Tathmini ya Jumla',
+  'suite.allSkipped': 'Vipimo vyote vilirukwa. Hakuna data ya uchunguzi. Fikiria kufanya vipimo moja moja kutoka skrini ya mwanzo.',
+  'suite.allClear': 'Vipimo vyote vilivyokamilika vinaonyesha matokeo ya kawaida. Hakuna wasiwasi wa haraka wa kuona uliogunduliwa. Endelea na uchunguzi wa kawaida wa macho kila mwaka 1–2.',
+  'suite.concern': 'Kipimo kimoja au zaidi kimeonyesha wasiwasi. Tunashauri umwone mtaalamu wa macho kwa uchunguzi kamili. Matokeo ya kina ya kila kipimo yameonyeshwa hapo juu.',
+  'suite.saved': '✓ Imehifadhiwa katika Historia ya Vipimo',
+  'suite.savedFor': '✓ Imehifadhiwa katika Historia ya Vipimo kwa {name}',
+  'suite.skippedOne': '💡 Uliruka kipimo 1. Unaweza kukifanya peke yake kutoka skrini ya mwanzo wakati wowote.',
+  'suite.skippedMany': '💡 Uliruka vipimo {count}. Unaweza kuvifanya peke yake kutoka skrini ya mwanzo wakati wowote.',
+  'suite.disclaimer': '⚠️ Hiki ni chombo cha uchunguzi, si utambuzi wa kitabibu. Matokeo yanaweza kutofautiana kutegemea kifaa, mwanga na mazingira ya kipimo. Mwone mtaalamu wa macho aliyehitimu kwa tathmini na matibabu ya uhakika.',
+  'suite.clinicsConcern': 'Matokeo yako yakaguliwe na mtaalamu aliye karibu nawe',
+  'suite.clinicsSkipped': 'Kamilisha uchunguzi wako kwa kipimo cha kitaalamu cha macho',
+  'suite.clinicsDefault': 'Pata wataalamu wa macho katika eneo lako',
+  'suite.returnHome': 'Rudi Mwanzo',
+
+  // ── Results ──
+  'results.noReferral': 'Hakuna Rufaa Inayohitajika',
+  'results.routine': 'Uchunguzi wa Kawaida wa Macho',
+  'results.soon': 'Rufaa Ndani ya Mwezi 1',
+  'results.urgent': 'Rufaa ya Haraka',
+  'results.csSevere': 'Uwezo wa kuona utofauti umepungua sana',
+  'results.csReduced': 'Uwezo wa kuona utofauti uko chini ya kawaida kwa umri',
+  'results.csNormal': 'Uwezo wa kuona utofauti ni wa kawaida',
+  'results.cvNormal': 'Kuona rangi kwa kawaida',
+  'results.cvBlueYellow': 'Uwezekano wa kasoro ya rangi ya buluu-njano',
+  'results.cvRedGreen': 'Uwezekano wa kasoro ya rangi ya nyekundu-kijani',
+  'results.astigSignificant': 'Shaka kubwa ya astigmatism',
+  'results.astigModerate': 'Shaka ya wastani ya astigmatism',
+  'results.astigMild': 'Shaka ndogo ya astigmatism',
+  'results.astigNone': 'Hakuna astigmatism iliyogunduliwa',
+  'results.amslerSignificant': 'Upindaji wa katikati au eneo lililokosekana kwenye gridi ya Amsler',
+  'results.amslerMild': 'Upindaji wa pembeni kwenye gridi ya Amsler',
+  'results.amslerNone': 'Mistari ya gridi ya Amsler imenyooka',
+  'results.notFound': 'Matokeo hayakupatikana',
+  'results.deleted': 'Uchunguzi huu haujahifadhiwa tena kwenye kifaa hiki. Huenda umefutwa.',
+  'results.noneSelected': 'Hakuna uchunguzi uliochaguliwa. Fungua matokeo kutoka Historia ya Vipimo.',
+  'results.goHistory': 'Nenda kwenye Historia ya Vipimo',
+  'results.title': 'Matokeo ya Uchunguzi',
+  'results.urgency': 'Uharaka wa Rufaa',
+  'results.allNormal': 'Vipimo vyote vilivyokamilika viko ndani ya kiwango cha kawaida. Endelea na uchunguzi wa kawaida wa macho kila mwaka 1–2.',
+  'results.reliability': 'Uaminifu wa Kipimo',
+  'results.reliabilityNoIssues': 'Vipimo vilifanyika katika hali nzuri.',
+  'reliability.good': 'Nzuri',
+  'reliability.fair': 'Wastani — tafsiri kwa uangalifu',
+  'reliability.poor': 'Duni — fikiria kupima tena',
+  'reliability.fastAnswers': 'Majibu mengi yalikuja haraka mno kuwa usomaji halisi',
+  'reliability.slowAnswers': 'Majibu mengi yalikuja baada ya kusita kwa muda mrefu',
+  'reliability.brightnessUnlocked': 'Mwangaza wa skrini haukuweza kuwekwa kwa ajili ya kipimo',
+  'reliability.calibrationSkipped': 'Hatua ya urekebishaji iliachwa',
+  'reliability.tilted': 'Skrini ilikuwa imeinama mbali na mgonjwa kwa sehemu kubwa ya kipimo',
+  'reliability.backPresses': 'Kipimo kilikatizwa kwa kitufe cha kurudi mara kadhaa',
+  'reliability.inconsistent': 'Majibu ya astigmatism yalibadilika kati ya mizunguko miwili',
+  'reliability.lighting': 'Chumba kilikuwa na giza au mwanga mkali mno kwa kipimo',
+  'results.va': '👓 Uwezo wa Kuona',
+  'results.distance': 'Mbali (m 3 {chart})',
+  'results.near': 'Karibu (sm 40 Jaeger)',
+  'results.withGlasses': 'Mbali, miwani ya sasa',
+  'results.glassesVerdict': 'Miwani ya sasa',
+  'results.binocular': 'Macho yote',
+  'results.binocularGlasses': 'Macho yote, miwani',
+  'results.readingGlasses': 'Miwani ya kusomea',
+  'results.readingAdd': 'Nyongeza inayokadiriwa',
+  'results.readingSpeed': 'Kasi ya kusoma (macho yote)',
+  'results.maxReadingSpeed': 'Kasi ya juu',
+  'results.criticalPrint': 'Ukubwa muhimu wa maandishi',
+  'results.readingAcuity': 'Uwezo wa kusoma',
+  'results.readingSlow': 'Anasoma polepole — tathmini ya uoni hafifu',
+  'results.readingFluent': 'Anasoma kwa ufasaha',
+  'results.pinhole': 'Kupitia tundu',
+  'results.cs': '◐ Kuona Utofauti wa Mwanga',
+  'results.csNorm': 'Kiwango cha chini cha kawaida',
+  'results.csNormAge': '{limit} (umri {age})',
+  'results.cv': '🎨 Kuona Rangi',
+  'results.platesCorrect': 'Bamba sahihi',
+  'results.bothEyes': 'Kuona rangi hupimwa macho yote yakiwa wazi.',
+  'results.astig': '◎ Astigmatism',
+  'results.amsler': '▦ Gridi ya Amsler',
+  'results.amslerCentral': ' • katikati',
+  'results.axis': ' • mhimili ~{axis}°',
+  'results.inconsistent': ' • si thabiti',
+  'results.clinicsDesc': 'Matokeo haya yakaguliwe na mtaalamu aliye karibu nawe',
+
+  // ── History ──
+  'history.vaSummary': 'JK {right} / JS {left}',
+  'history.amslerSummary': 'Amsler: {result}',
+  'history.csSummary': 'Utofauti: {result}',
+  'history.logCS': 'logCS (JK / JS)',
+  'history.amslerMarked': 'Miraba yenye alama (JK / JS)',
+  'history.deleteTitle': 'Futa rekodi hii?',
+  'history.deleteFailedTitle': 'Imeshindwa kufuta',
+  'history.deleteFailedBody': 'Rekodi bado imehifadhiwa kwenye kifaa hiki. Tafadhali jaribu tena.',
+  'history.saveFailedTitle': 'Imeshindwa kuhifadhi',
+  'history.saveFailedBody': 'Kipimo hakijahifadhiwa kwenye kifaa hiki. Tafadhali jaribu tena.',
+  'history.deleteBody': '{patient} — {date}\n\nHaiwezi kurudishwa.',
+  'history.distance': 'Mbali (JK / JS)',
+  'history.logMAR': 'logMAR (JK / JS)',
+  'history.pinhole': 'Tundu (JK / JS)',
+  'history.withGlasses': 'Miwani (JK / JS)',
+  'history.bothEyes': 'Macho yote',
+  'history.readingAdd': 'Nyongeza ya kusomea',
+  'history.readingSpeed': 'Kasi ya kusoma',
+  'history.near': 'Karibu (JK / JS)',
+  'history.score': 'Alama',
+  'history.cvResult': '{type} ({severity})',
+  'history.device': '📱 Kifaa',
+  'history.platform': 'Mfumo',
+  'history.screen': 'Skrini',
+  'history.appVersion': 'Toleo la Programu',
+  'history.deleteRecord': 'Futa Rekodi',
+  'history.title': 'Historia ya Vipimo',
+  'history.countOne': 'Uchunguzi 1 umehifadhiwa kwenye kifaa hiki',
+  'history.countMany': 'Chunguzi {count} zimehifadhiwa kwenye kifaa hiki',
+  'history.search': 'Tafuta kwa jina au namba ya mgonjwa',
+  'history.empty': 'Matokeo yako ya awali ya uchunguzi wa macho yataonekana hapa.',
+  'history.noMatch': 'Hakuna rekodi zinazolingana na utafutaji huu.',
+
+  // ── Clinics ──
+  'clinics.hospital': 'Hospitali',
+  'clinics.optical': 'Duka la Miwani',
+  'clinics.eyeClinic': 'Kliniki ya Macho',
+  'clinics.healthCentre': 'Kituo cha Afya',
+  'clinics.svcEyeExams': 'Uchunguzi wa macho',
+  'clinics.svcEmergency': 'Huduma ya dharura ya macho',
+  'clinics.svcReferrals': 'Rufaa kwa wataalamu',
+  'clinics.svcGlasses': 'Miwani ya kuandikiwa',
+  'clinics.svcContacts': 'Lenzi za mguso',
+  'clinics.svcScreening': 'Uchunguzi wa kuona',
+  'clinics.svcLasik': 'Upasuaji wa LASIK',
+  'clinics.svcGeneral': 'Afya ya jumla',
+  'clinics.svcBasicScreening': 'Uchunguzi wa msingi wa macho',
+  'clinics.svcOphthalmology': 'Ophthalmolojia',
+  'clinics.svcOptometry': 'Optometria',
+  'clinics.onMap': 'Mahali panapatikana kwenye ramani',
+  'clinics.filterAll': 'Zote',
+  'clinics.filterHospitals': '🏥 Hospitali',
+  'clinics.filterOptical': '👓 Maduka ya Miwani',
+  'clinics.filterEyeClinics': '👁️ Kliniki za Macho',
+  'clinics.filterHealthCentres': '🏨 Vituo vya Afya',
+  'clinics.servicesOff': 'Huduma za mahali zimezimwa kwenye kifaa chako.',
+  'clinics.permissionDenied': 'Ruhusa ya mahali ilikataliwa.',
+  'clinics.permissionFailed': 'Imeshindwa kuomba ruhusa ya mahali.',
+  'clinics.currentLocation': 'Mahali ulipo sasa',
+  'clinics.gpsTimeout': 'GPS imechukua muda mrefu sana. Huenda uko ndani ya jengo au mtandao ni dhaifu.',
+  'clinics.locationFailed': 'Imeshindwa kujua mahali ulipo.',
+  'clinics.fetchFailed': 'Imeshindwa kupata kliniki zilizo karibu. Angalia muunganisho wako wa intaneti.',
+  'clinics.justNow': 'sasa hivi',
+  'clinics.minutesAgo': 'dak {count} zilizopita',
+  'clinics.hoursAgo': 'saa {count} zilizopita',
+  'clinics.services': 'Huduma',
+  'clinics.directions': '🗺️ Maelekezo',
+  'clinics.call': '📞 Piga Simu',
+  'clinics.tapHint': 'Gusa kwa maelezo na maelekezo',
+  'clinics.title': 'Tafuta Kliniki za Macho',
+  'clinics.nearestTo': '{count} zilizo karibu zaidi na {place}',
+  'clinics.nearYou': 'Kliniki {count} karibu nawe',
+  'clinics.searching': 'Inatafuta kliniki zilizo karibu…',
+  'clinics.enableLocation': 'Washa huduma za mahali kupata kliniki karibu nawe',
+  'clinics.filterPlaceholder': 'Chuja matokeo...',
+  'clinics.requesting': 'Inaomba ruhusa ya mahali…',
+  'clinics.acquiring': 'Inapata ishara ya GPS…',
+  'clinics.identifying': 'Inatambua eneo lako…',
+  'clinics.requestingDesc': 'Tafadhali ruhusu huduma za mahali ukiombwa',
+  'clinics.acquiringDesc': 'Inatafuta mahali ulipo kupitia setilaiti',
+  'clinics.identifyingDesc': 'Inatafuta anwani yako kwa matokeo ya karibu',
+  'clinics.stepPermission': 'Ruhusa',
+  'clinics.stepGps': 'GPS',
+  'clinics.stepAddress': 'Anwani',
+  'clinics.searchingNearby': 'Inatafuta kliniki zilizo karibu…',
+  'clinics.findingWithin': 'Inatafuta huduma za macho ndani ya km {radius}',
+  'clinics.yourLocation': 'Mahali ulipo',
+  'clinics.updated': 'Imesasishwa {time} · ndani ya km {radius}',
+  'clinics.deniedTitle': 'Ruhusa ya Mahali Imekataliwa',
+  'clinics.offTitle': 'Huduma za Mahali Zimezimwa',
+  'clinics.timeoutTitle': 'Muda wa GPS Umekwisha',
+  'clinics.errorTitle': 'Hitilafu ya Mahali',
+  'clinics.tryAgain': '🔄 Jaribu Tena',
+  'clinics.openSettings': '⚙️ Fungua Mipangilio',
+  'clinics.locationRequired': 'Huduma za mahali zinahitajika kupata kliniki karibu nawe.',
+  'clinics.searchGoogle': '🗺️ Tafuta kwenye Google Maps Badala Yake',
+  'clinics.networkError': 'Hitilafu ya Mtandao',
+  'clinics.retry': '🔄 Jaribu Tena',
+  'clinics.googleMaps': '🗺️ Google Maps',
+  'clinics.noneFound': 'Hakuna kliniki zilizopatikana karibu',
+  'clinics.noneFoundDesc': 'Hatukupata huduma za macho ndani ya km {radius}.\nJaribu kupanua utafutaji au tumia Google Maps.',
+  'clinics.searchWider': '🔍 Tafuta mbali zaidi (km {radius})',
+  'clinics.openGoogle': '🗺️ Fungua Google Maps',
+  'clinics.noMatches': 'Hakuna zinazolingana',
+  'clinics.noResultsFor': 'Hakuna matokeo ya "{query}".',
+  'clinics.changeFilter': 'Jaribu kubadilisha kichujio.',
+  'clinics.withinOne': 'Kliniki 1 ndani ya km {radius}',
+  'clinics.withinMany': 'Kliniki {count} ndani ya km {radius}',
+  'clinics.findMore': 'Tafuta Zaidi kwenye Google Maps',
+  'clinics.findMoreDesc': 'Tafuta kliniki zaidi za macho, maduka ya miwani na hospitali karibu nawe',
+  'clinics.disclaimer': 'ℹ️ Matokeo yanatoka OpenStreetMap. Taarifa huenda hazijakamilika — piga simu kwanza kuthibitisha.',
+
+  // ── Eye photo ──
+  'eyePhoto.title': '📷 Kupiga Picha ya Jicho',
+  'eyePhoto.body': 'Skrini hii itakuwezesha kupiga picha ya jicho kwa uchambuzi wa AI.',
+
+  // ── Remote controller ──
+  'remote.title': 'Kidhibiti cha Mbali',
+  'remote.subtitle': 'Weka alama za majibu ukiwa karibu na mgonjwa',
+  'remote.scan': 'Changanua Simu ya Chati',
+  'remote.scanDesc': 'Kwenye simu inayoonyesha chati, chagua "Simu ya Pili" kama njia ya kujibu. Kisha changanua msimbo inaoonyesha.',
+  'remote.scanButton': '📷 Changanua Msimbo wa QR',
+  'remote.scanHint': 'Elekeza kamera kwenye msimbo wa QR ulio kwenye simu ya chati.',
+  'remote.cameraDenied': 'Ruhusa ya kamera imezimwa. Andika msimbo hapa chini, au ruhusu kamera kwenye Mipangilio.',
+  'remote.enterCode': 'Au Andika Msimbo',
+  'remote.codePlaceholder': 'MSIMBO',
+  'remote.join': 'Jiunge na Kipindi',
+  'remote.invalidCode': 'Andika msimbo wa herufi 6 na anwani ya relay inayoonyeshwa kwenye simu ya chati.',
+  'remote.leave': 'Ondoka',
+  'remote.showing': 'Kwenye chati sasa',
+  'remote.correct': '✓ Sahihi',
+  'remote.wrong': '✗ Si sahihi',
+  'remote.waiting': 'Inasubiri Simu ya Chati',
+  'remote.waitingBody': 'Mwambie mgonjwa asimame mita 3 kutoka simu ya chati, jicho la KUSHOTO likiwa limefunikwa. Gusa Anza akiwa tayari.',
+  'remote.start': 'Anza',
+  'remote.switchEye': 'Jicho la Kulia Limekamilika',
+  'remote.switchEyeBody': 'Mwambie mgonjwa afunike jicho la KULIA na aache la kushoto wazi. Gusa Endelea akiwa tayari.',
+  'remote.continue': 'Endelea',
+  'remote.lowVision': 'Vipimo Chini ya Chati',
+  'remote.lowVisionBody': 'Mgonjwa hakuweza kusoma mstari wa juu. Maliza vipimo vinavyoongozwa kwenye simu ya chati.',
+  'remote.finished': 'Kipimo cha Mbali Kimekamilika',
+  'remote.finishedBody': 'Matokeo yamehifadhiwa kwenye simu ya chati.',
+  'remote.pairTitle': 'Unganisha Simu ya Pili',
+  'remote.pairSub': 'Mpimaji anaweka alama za majibu akiwa karibu na mgonjwa',
+  'remote.relay': 'Anwani ya Relay',
+  'remote.relayBody': 'Simu zote mbili lazima ziwe kwenye Wi-Fi moja na relay, kwa mfano kompyuta inayoendesha relay ya kliniki.',
+  'remote.relayPlaceholder': 'mf. 192.168.1.20:8080',
+  'remote.startSession': 'Anzisha Kipindi',
+  'remote.newSession': 'Msimbo Mpya wa Kipindi',
+  'remote.scanBody': 'Kwenye simu ya mpimaji, fungua Kidhibiti cha Mbali kutoka skrini ya mwanzo. Changanua msimbo huu, au andika msimbo ulio hapa chini.',
+  'remote.answerHere': 'Jibu kwenye simu hii badala yake',
+  'remote.answersOnController': '📲 Majibu yanawekwa alama kwenye simu ya pili',
+  'remote.controllerLost': '⚠️ Simu ya pili haijaunganishwa — jibu kwenye simu hii',
+  'remote.connecting': 'Inaunganisha…',
+  'remote.waitingForPeer': 'Inasubiri simu nyingine…',
+  'remote.paired': '✓ Simu zimeunganishwa',
+  'remote.disconnected': 'Muunganisho umekatika — inajaribu tena…',
+  'remote.error': 'Haiwezi kufikia relay — kagua anwani na Wi-Fi',
+};
+
+export default sw;
@@ -0,0 +1,109 @@
+/**
+ * presbyopia.ts
+ * --------------
+ * Reading-add estimate from age and the near test, and whether
+ * ready-made reading glasses are likely to be enough.
+ *
+ * ─── Presbyopia ─────────────────────────────────────────────────
+ * The eye's focusing range shrinks steadily with age, and from about
+ * 40 most people need extra plus power (an "add") to read at 40 cm.
+ * The add follows age closely (`AGE_ADDS`), so age sets the estimate
+ * and the near test confirms the need: anyone who still reads N8 at
+ * 40 cm needs no add yet.  Reading nothing smaller than N18 asks for
+ * a further +0.50 D.
+ *
+ * ─── Ready-made readers ─────────────────────────────────────────
+ * Ready-made readers have the same power in both lenses and correct
+ * no distance error.  They suit a patient who sees 6/12 or better in
+ * each eye at distance, unaided, and whose eyes read within two lines
+ * of each other up close.  Anyone else needs a refraction, and so
+ * does a patient whose distance vision was not measured in both eyes.
+ */
+
+import type { TranslationKey } from './i18n';
+import type {
+  DistanceResults,
+  NearEyeResult,
+  NearResults,
+  ReadingAddEstimate,
+  ReadyMadeVerdict,
+} from './screeningSession';
+
+// ─── Age norms ───────────────────────────────────────────────────────
+
+/** Youngest age at which poor near vision is put down to presbyopia */
+export const PRESBYOPIA_ONSET_AGE = 40;
+
+export interface AgeAdd {
+  /** Oldest age, in years, the add applies to */
+  maxAge: number;
+  /** Typical add in dioptres */
+  add: number;
+}
+
+export const AGE_ADDS: readonly AgeAdd[] = [
+  { maxAge: 44, add: 1.0 },
+  { maxAge: 49, add: 1.5 },
+  { maxAge: 54, add: 2.0 },
+  { maxAge: 59, add: 2.5 },
+  { maxAge: Infinity, add: 3.0 },
+];
+
+// Strongest ready-made reader commonly stocked
+const MAX_ADD = 3.0;
+
+// ─── Near thresholds ─────────────────────────────────────────────────
+
+/** Largest print, in N-points, that counts as adequate near vision */
+export const NEAR_ADEQUATE_POINT = 8;
+
+// Reading only this size or larger adds another half dioptre
+const POOR_NEAR_POINT = 18;
+const POOR_NEAR_EXTRA_ADD = 0.5;
+
+// ─── Ready-made suitability ──────────────────────────────────────────
+
+const DISTANCE_ADEQUATE_DECIMAL = 0.5; // 6/12
+const MAX_NEAR_LINE_DIFFERENCE = 2;
+
+export const READY_MADE_LABELS: Record<ReadyMadeVerdict, TranslationKey> = {
+  'suitable': 'presbyopia.readyMadeSuitable',
+  'distance-untested': 'presbyopia.readyMadeUntested',
+  'distance-error': 'presbyopia.readyMadeDistance',
+  'unequal-eyes': 'presbyopia.readyMadeUnequal',
+};
+
+/** N-point size of a near result; worse than the largest line counts as larger than any. */
+export function nearPointSize(eye: NearEyeResult): number {
+  return eye.linesRead > 0 ? Number(eye.equivalent.replace(/^N/, '')) : Infinity;
+}
+
+/**
+ * Reading add for a presbyopic patient, or `null` when none is
+ * indicated: age unknown or under 40, no near result, or near vision
+ * already adequate.
+ */
+export function estimateReadingAdd(
+  age: number | null,
+  distance: DistanceResults,
+  near: NearResults,
+): ReadingAddEstimate | null {
+  if (age === null || age < PRESBYOPIA_ONSET_AGE) return null;
+
+  const nearEyes = [near.rightEye, near.leftEye].filter((e): e is NearEyeResult => e !== null);
+  if (nearEyes.length === 0) return null;
+  const bestPoint = Math.min(...nearEyes.map(nearPointSize));
+  if (bestPoint <= NEAR_ADEQUATE_POINT) return null;
+
+  const ageAdd = (AGE_ADDS.find(norm => age <= norm.maxAge) ?? AGE_ADDS[AGE_ADDS.length - 1]).add;
+  const add = Math.min(MAX_ADD, ageAdd + (bestPoint >= POOR_NEAR_POINT ? POOR_NEAR_EXTRA_ADD : 0));
+
+  const distanceEyes = [distance.rightEye, distance.leftEye];
+  const readyMade: ReadyMadeVerdict =
+    distanceEyes.some(eye => eye && eye.decimal < DISTANCE_ADEQUATE_DECIMAL) ? 'distance-error' :
+    distanceEyes.some(eye => !eye) ? 'distance-untested' :
+    near.rightEye && near.leftEye && Math.abs(near.rightEye.linesRead - near.leftEye.linesRead) > MAX_NEAR_LINE_DIFFERENCE ? 'unequal-eyes' :
+    'suitable';
+
+  return { add, readyMade };
+}
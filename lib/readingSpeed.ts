@@ -0,0 +1,163 @@
+/**
+ * readingSpeed.ts
+ * ----------------
+ * Sentences, print sizes and scoring for the MNREAD-style timed
+ * reading test.
+ *
+ * The Jaeger card says only whether a line can be read; a low-vision
+ * patient may read N8 word by word, far too slowly to read anything
+ * for real.  Here the patient reads short standardised sentences
+ * aloud, largest print first, while the examiner times each one.
+ * Print falls by 0.1 logMAR per sentence, from 1.0 to 0.0 at 40 cm —
+ * the paper MNREAD chart starts at 1.3, which no phone screen holds.
+ *
+ * ─── Sentences ──────────────────────────────────────────────────
+ * One set per language, all everyday vocabulary and close to 60
+ * characters.  Swahili words run longer than English ones, so speed
+ * is counted in standard-length words — six characters, spaces
+ * included — and a sentence of 60 characters is 10 words in either
+ * language.  Misread or skipped words take their share off.
+ *
+ * ─── Scoring ────────────────────────────────────────────────────
+ *   • maximum reading speed — mean speed over the sizes read within
+ *     80 % of the fastest (the plateau)
+ *   • critical print size — the smallest print read at 80 % of the
+ *     maximum speed, before reading first slows down
+ *   • reading acuity — the smallest print readable at all: the last
+ *     size read, plus a share of a line for each misread word
+ * Sustained reading needs about 80 words a minute; below 40, text can
+ * only be spotted, not read.
+ */
+
+import type { Language, TranslationKey } from './i18n';
+import type { ReadingSpeedCategory, ReadingSpeedResults, ReadingTrial } from './screeningSession';
+
+// ─── Sentences ───────────────────────────────────────────────────────
+
+export const READING_SENTENCES: Record<Language, readonly string[]> = {
+  en: [
+    'My mother went to the market early to buy fresh fish for us',
+    'The children walked home together after the heavy rain stopped',
+    'We planted maize in the big field near the river last month',
+    'Her brother rode his bicycle to town to visit an old friend',
+    'The old man sat under the tree and told stories to everyone',
+    'After dinner the whole family listened to music on the radio',
+    'The doctor told him to drink clean water and rest for a week',
+    'Every morning she carries water from the well to the house',
+    'The bus to the city leaves at seven and comes back at night',
+    'Our teacher gave us many books to read during the holiday',
+    'They cooked rice and beans for the visitors who came today',
+  ],
+  sw: [
+    'Mama alienda sokoni asubuhi kununua samaki kwa ajili yetu',
+    'Watoto walitembea pamoja kurudi nyumbani baada ya mvua kukatika',
+    'Tulipanda mahindi shambani karibu na mto mkubwa mwezi uliopita',
+    'Kaka yake aliendesha baiskeli hadi mjini kumtembelea rafiki',
+    'Mzee aliketi chini ya mti akawasimulia watu wote hadithi nzuri',
+    'Baada ya chakula cha jioni familia nzima ilisikiliza redio',
+    'Daktari alimwambia anywe maji safi na apumzike kwa wiki moja',
+    'Kila asubuhi yeye huchota maji kisimani na kuyaleta nyumbani',
+    'Basi la kwenda mjini huondoka saa moja na kurudi usiku sana',
+    'Mwalimu wetu alitupa vitabu vingi vya kusoma wakati wa likizo',
+    'Walipika wali na maharagwe kwa ajili ya wageni waliofika leo',
+  ],
+};
+
+/** Words in a sentence, as the examiner counts misreadings */
+export const wordCount = (sentence: string): number => sentence.split(/\s+/).length;
+
+// Characters, spaces included, in one standard-length word
+const STANDARD_WORD_LENGTH = 6;
+
+// ─── Print sizes ─────────────────────────────────────────────────────
+
+/** One print size per sentence, logMAR at 40 cm, largest first */
+export const READING_PRINT_SIZES: readonly number[] = READING_SENTENCES.en.map((_, i) => (10 - i) / 10);
+
+// x-height of logMAR 0.0 print at 40 cm: 5 arc minutes
+const X_HEIGHT_MM_AT_LOGMAR_0 = 0.582;
+// x-height of the system sans-serif fonts, as a fraction of the font size
+const X_HEIGHT_RATIO = 0.52;
+// Font size in mm of N1 print (one typographic point)
+const POINT_MM = 0.3528;
+
+/** Font size in mm that draws `logMAR` print at 40 cm. */
+export const printSizeMm = (logMAR: number): number =>
+  (X_HEIGHT_MM_AT_LOGMAR_0 * 10 ** logMAR) / X_HEIGHT_RATIO;
+
+/** Nearest N-point size, e.g. "N8", for a logMAR print size. */
+export const nPointEquivalent = (logMAR: number): string => `N${Math.round(printSizeMm(logMAR) / POINT_MM)}`;
+
+/** "0.4 logMAR (N8)" */
+export const formatPrintSize = (logMAR: number): string => `${logMAR.toFixed(1)} logMAR (${nPointEquivalent(logMAR)})`;
+
+// ─── Scoring ─────────────────────────────────────────────────────────
+
+// Share of the fastest (or maximum) speed that still counts as the plateau
+const PLATEAU_FRACTION = 0.8;
+
+export const FLUENT_READING_WPM = 80;
+export const SPOT_READING_WPM = 40;
+
+/** Newspaper print at 40 cm; a larger critical print size rules out everyday reading */
+export const EVERYDAY_PRINT_LOGMAR = 0.4;
+
+export const READING_SPEED_CATEGORY_LABELS: Record<ReadingSpeedCategory, TranslationKey> = {
+  'fluent': 'reading.fluent',
+  'slow': 'reading.slow',
+  'spot': 'reading.spot',
+};
+
+/** Standard-length words per minute for one timed sentence. */
+export function wordsPerMinute(sentence: string, seconds: number, errors: number): number {
+  if (seconds <= 0) return 0;
+  const words = wordCount(sentence);
+  const standardWords = (sentence.length / STANDARD_WORD_LENGTH) * (Math.max(0, words - errors) / words);
+  return Math.round((60 * standardWords) / seconds);
+}
+
+export const getReadingSpeedCategory = (maxReadingSpeed: number): ReadingSpeedCategory =>
+  maxReadingSpeed >= FLUENT_READING_WPM ? 'fluent' : maxReadingSpeed >= SPOT_READING_WPM ? 'slow' : 'spot';
+
+/**
+ * Score a run of sentences, largest print first.  Sentences the
+ * patient could not start are left out of `trials`.
+ */
+export function scoreReadingSpeed(language: Language, trials: ReadingTrial[]): ReadingSpeedResults {
+  if (trials.length === 0) {
+    return { language, trials, maxReadingSpeed: 0, criticalPrintSize: null, readingAcuity: null, category: 'spot' };
+  }
+
+  const fastest = Math.max(...trials.map(trial => trial.wordsPerMinute));
+  const plateau = trials.filter(trial => trial.wordsPerMinute >= PLATEAU_FRACTION * fastest);
+  const maxReadingSpeed = Math.round(plateau.reduce((sum, trial) => sum + trial.wordsPerMinute, 0) / plateau.length);
+
+  let criticalPrintSize: number | null = null;
+  for (const trial of trials) {
+    if (trial.wordsPerMinute >= PLATEAU_FRACTION * maxReadingSpeed) criticalPrintSize = trial.logMAR;
+    else if (criticalPrintSize !== null) break;
+  }
+
+  // Each sentence is a 0.1 logMAR line, each misread word its share of it
+  const missed = trials.reduce((sum, trial) => sum + (0.1 * trial.errors) / trial.words, 0);
+  const readingAcuity = Math.round((trials[trials.length - 1].logMAR + missed) * 100) / 100;
+
+  return {
+    language,
+    trials,
+    maxReadingSpeed,
+    criticalPrintSize,
+    readingAcuity,
+    category: getReadingSpeedCategory(maxReadingSpeed),
+  };
+}
+
+/**
+ * Whether the reading test on its own calls for a low-vision
+ * assessment: reading too slow to sustain, or only print larger than
+ * a newspaper's read at full speed.
+ */
+export const needsLowVisionReferral = (results: ReadingSpeedResults): boolean =>
+  results.category !== 'fluent' ||
+  results.criticalPrintSize === null ||
+  results.criticalPrintSize > EVERYDAY_PRINT_LOGMAR;
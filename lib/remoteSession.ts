@@ -0,0 +1,276 @@
+/**
+ * remoteSession.ts
+ * -----------------
+ * Two-device mode for the distance test: one phone shows the optotypes
+ * 3 m from the patient (the *display*), a second phone in the
+ * examiner's hand (the *controller*) shows what is on the chart and
+ * marks each answer right or wrong.  The examiner can stand beside the
+ * patient instead of walking back to the chart for every letter.
+ *
+ * ─── Pairing ────────────────────────────────────────────────────
+ * The display makes up a six-character session code and shows it, with
+ * the relay address, as a QR Code (`visioncheck://remote?code=…&relay=…`).
+ * The controller scans it — or the examiner types the code — and both
+ * phones join the same session on the relay.
+ *
+ * ─── Transport ──────────────────────────────────────────────────
+ * Phones cannot reliably accept incoming connections, so both sides
+ * connect out to a WebSocket relay on the local network (a laptop or
+ * clinic router) at `<relay>?session=<code>`.  The relay only has to
+ * forward each text message to the other sockets in the same session;
+ * scripts/remote-relay.js does that (`npm run relay`, see the README).
+ * Messages are JSON `RemoteMessage`s; the display stays the single
+ * source of truth and scores answers with its own threshold engine, so
+ * results reach the normal `EyeResult` pipeline unchanged.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { TranslationKey } from './i18n';
+import type { Eye, EyeResult, OptotypeSet } from './screeningSession';
+import type { TrialOutcome } from './thresholdEngine';
+
+const STORAGE_KEY = '@visioncheck/remote-relay';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type RemoteRole = 'display' | 'controller';
+
+/** What the display is doing, for the controller's screen */
+export type RemoteDisplayStatus = 'waiting' | 'switch-eye' | 'low-vision' | 'finished';
+
+export type RemoteMessage =
+  /** Sent on connecting; answered once with `reply: true` so both sides know they are paired */
+  | { type: 'hello'; role: RemoteRole; reply: boolean }
+  /** display → controller: the optotype now on screen */
+  | { type: 'trial'; eye: Eye; optotype: OptotypeSet; target: string; acuity: string; progress: number }
+  | { type: 'status'; status: RemoteDisplayStatus; eye: Eye }
+  | { type: 'result'; eye: Eye; result: EyeResult }
+  /** controller → display: the examiner's mark for the current optotype */
+  | { type: 'response'; outcome: TrialOutcome }
+  /** controller → display: "patient is ready", for the start / switch-eye screens */
+  | { type: 'continue' };
+
+export interface PairingInfo {
+  code: string;
+  /** WebSocket relay, e.g. `ws://192.168.1.20:8080` */
+  relayUrl: string;
+}
+
+export type RemoteLinkStatus = 'connecting' | 'waiting-for-peer' | 'paired' | 'disconnected' | 'error';
+
+export interface RemoteTransport {
+  send(message: RemoteMessage): void;
+  close(): void;
+}
+
+export interface RemoteTransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: RemoteMessage) => void;
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+// No 0/O or 1/I/L, so a code read aloud or typed is never ambiguous
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const SESSION_CODE_LENGTH = 6;
+
+const PAIRING_SCHEME = 'visioncheck://remote';
+const RECONNECT_DELAY_MS = 2000;
+
+export const REMOTE_LINK_STATUS_LABELS: Record<RemoteLinkStatus, TranslationKey> = {
+  'connecting': 'remote.connecting',
+  'waiting-for-peer': 'remote.waitingForPeer',
+  'paired': 'remote.paired',
+  'disconnected': 'remote.disconnected',
+  'error': 'remote.error',
+};
+
+// ─── Pairing ─────────────────────────────────────────────────────────
+
+export function createSessionCode(): string {
+  let code = '';
+  for (let i = 0; i < SESSION_CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Upper-cases a typed code and drops anything outside the alphabet. */
+export function normaliseSessionCode(text: string): string {
+  return text
+    .toUpperCase()
+    .split('')
+    .filter(char => CODE_ALPHABET.includes(char))
+    .join('')
+    .slice(0, SESSION_CODE_LENGTH);
+}
+
+export const isValidSessionCode = (code: string): boolean =>
+  code.length === SESSION_CODE_LENGTH && normaliseSessionCode(code) === code;
+
+/** Adds `ws://` to a bare host[:port] and trims whitespace. */
+export function normaliseRelayUrl(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed) return '';
+  return /^wss?:\/\//i.test(trimmed) ? trimmed : `ws://${trimmed}`;
+}
+
+/** The link encoded in the display's QR Code. */
+export function encodePairingUri({ code, relayUrl }: PairingInfo): string {
+  return `${PAIRING_SCHEME}?code=${code}&relay=${encodeURIComponent(relayUrl)}`;
+}
+
+/** Reads a scanned pairing link, or `null` if it is not one. */
+export function parsePairingUri(uri: string): PairingInfo | null {
+  if (!uri.startsWith(`${PAIRING_SCHEME}?`)) return null;
+  const params: Record<string, string> = {};
+  for (const part of uri.slice(PAIRING_SCHEME.length + 1).split('&')) {
+    const [key, value = ''] = part.split('=');
+    try {
+      params[key] = decodeURIComponent(value);
+    } catch {
+      return null;
+    }
+  }
+  const code = normaliseSessionCode(params.code ?? '');
+  const relayUrl = normaliseRelayUrl(params.relay ?? '');
+  return isValidSessionCode(code) && relayUrl ? { code, relayUrl } : null;
+}
+
+// ─── Relay address ───────────────────────────────────────────────────
+
+/** The relay used last time, or `''` if none has been entered. */
+export async function loadRelayUrl(): Promise<string> {
+  try {
+    return (await AsyncStorage.getItem(STORAGE_KEY)) ?? '';
+  } catch (err) {
+    console.warn('[remote] Could not read relay address:', err);
+    return '';
+  }
+}
+
+export async function saveRelayUrl(relayUrl: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, relayUrl);
+  } catch (err) {
+    console.warn('[remote] Could not save relay address:', err);
+  }
+}
+
+// ─── Transport ───────────────────────────────────────────────────────
+
+const isRemoteMessage = (value: unknown): value is RemoteMessage =>
+  typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string';
+
+/** Join `pairing.code` on the WebSocket relay. */
+export function createRelayTransport(pairing: PairingInfo, handlers: RemoteTransportHandlers): RemoteTransport {
+  const separator = pairing.relayUrl.includes('?') ? '&' : '?';
+  const socket = new WebSocket(`${pairing.relayUrl}${separator}session=${pairing.code}`);
+
+  socket.onopen = () => handlers.onOpen();
+  socket.onclose = () => handlers.onClose();
+  socket.onerror = () => handlers.onError(new Error(`Could not reach relay ${pairing.relayUrl}`));
+  socket.onmessage = event => {
+    try {
+      const message: unknown = JSON.parse(String(event.data));
+      if (isRemoteMessage(message)) handlers.onMessage(message);
+    } catch (err) {
+      console.warn('[remote] Ignored malformed message:', err);
+    }
+  };
+
+  return {
+    send(message) {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close() {
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+export interface RemoteLink {
+  status: RemoteLinkStatus;
+  /** Dropped silently while not connected; the display resends its state on pairing */
+  send: (message: RemoteMessage) => void;
+}
+
+/**
+ * Keep this phone joined to `pairing` (or disconnected while it is
+ * `null`), reconnecting after drops.  `onMessage` receives everything
+ * except the pairing handshake.
+ */
+export function useRemoteLink(
+  role: RemoteRole,
+  pairing: PairingInfo | null,
+  onMessage: (message: RemoteMessage) => void,
+): RemoteLink {
+  const [status, setStatus] = useState<RemoteLinkStatus>('disconnected');
+  const transportRef = useRef<RemoteTransport | null>(null);
+
+  // Read through a ref so the socket (opened once per pairing) calls the current handler
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  const code = pairing?.code ?? null;
+  const relayUrl = pairing?.relayUrl ?? null;
+
+  useEffect(() => {
+    if (!code || !relayUrl) {
+      setStatus('disconnected');
+      return;
+    }
+
+    let closed = false;
+    let retry: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      setStatus('connecting');
+      const transport = createRelayTransport({ code, relayUrl }, {
+        onOpen: () => {
+          setStatus('waiting-for-peer');
+          transport.send({ type: 'hello', role, reply: false });
+        },
+        onMessage: message => {
+          if (message.type === 'hello') {
+            if (message.role === role) return; // another phone in the same role
+            if (!message.reply) transport.send({ type: 'hello', role, reply: true });
+            setStatus('paired');
+            return;
+          }
+          onMessageRef.current(message);
+        },
+        onClose: () => {
+          if (closed) return;
+          // Keep showing a failed connection as an error while retrying
+          setStatus(prev => (prev === 'error' ? 'error' : 'disconnected'));
+          retry = setTimeout(connect, RECONNECT_DELAY_MS);
+        },
+        onError: err => {
+          console.warn('[remote]', err.message);
+          setStatus('error');
+        },
+      });
+      transportRef.current = transport;
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      transportRef.current?.close();
+      transportRef.current = null;
+    };
+  }, [role, code, relayUrl]);
+
+  const send = useCallback((message: RemoteMessage) => transportRef.current?.send(message), []);
+
+  return { status, send };
+}
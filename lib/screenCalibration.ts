@@ -0,0 +1,140 @@
+/**
+ * screenCalibration.ts
+ * ---------------------
+ * Physical screen calibration: how many dp make one millimetre on
+ * THIS phone.
+ *
+ * ─── Why this matters ───────────────────────────────────────────
+ * React Native assumes 160 dp per inch (163 on iOS), but real panels
+ * range from well under to well over that — budget Android phones in
+ * particular report a density bucket rather than their true density.
+ * Optotype size is the whole test: a letter drawn 15 % too large
+ * reads a line better than the patient really sees.
+ *
+ * The user matches an on-screen rectangle to a real ISO/IEC 7810 ID-1
+ * card (any bank, ID or SIM-carrier card — they are all 85.60 ×
+ * 53.98 mm).  The rectangle's width in dp divided by 85.6 mm is the
+ * device's true dp-per-mm, which every test then uses for sizing.
+ *
+ * ─── Storage ────────────────────────────────────────────────────
+ * The calibration is stored in AsyncStorage together with a key made
+ * from the screen geometry, so a value restored from a backup onto a
+ * different phone is ignored rather than silently mis-sizing letters.
+ * `loadScreenCalibration()` runs once at startup; after that the
+ * synchronous `getDpPerMm()` / `mmToDp()` read the cached value.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Dimensions, PixelRatio, Platform } from 'react-native';
+
+const STORAGE_KEY = '@visioncheck/screen-calibration';
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** ISO/IEC 7810 ID-1 card (bank / ID card) */
+export const CARD_WIDTH_MM = 85.6;
+export const CARD_HEIGHT_MM = 53.98;
+
+/** React Native's assumed density: 160 dp/inch (Android), 163 (iOS) */
+export const DEFAULT_DP_PER_MM = (Platform.OS === 'ios' ? 163 : 160) / 25.4;
+
+// A card match outside this range is a mis-tap, not a real screen
+const MIN_DP_PER_MM = DEFAULT_DP_PER_MM * 0.6;
+const MAX_DP_PER_MM = DEFAULT_DP_PER_MM * 1.6;
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ScreenCalibration {
+  dpPerMm: number;
+  /** ISO-8601 timestamp of when the card was matched */
+  calibratedAt: string;
+  /** Screen geometry the calibration was made on */
+  deviceKey: string;
+}
+
+// ─── Internal state ──────────────────────────────────────────────────
+
+let _calibration: ScreenCalibration | null = null;
+
+/** Screen geometry of this phone, independent of orientation. */
+const getDeviceKey = (): string => {
+  const { width, height } = Dimensions.get('screen');
+  const short = Math.round(Math.min(width, height));
+  const long = Math.round(Math.max(width, height));
+  return `${Platform.OS}:${short}x${long}@${PixelRatio.get()}`;
+};
+
+export const isPlausibleDpPerMm = (dpPerMm: number): boolean =>
+  Number.isFinite(dpPerMm) && dpPerMm >= MIN_DP_PER_MM && dpPerMm <= MAX_DP_PER_MM;
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Read the stored calibration into memory.  Call once at startup.
+ * Returns `null` if this phone has never been calibrated.
+ */
+export async function loadScreenCalibration(): Promise<ScreenCalibration | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as ScreenCalibration) : null;
+    _calibration =
+      stored && stored.deviceKey === getDeviceKey() && isPlausibleDpPerMm(stored.dpPerMm)
+        ? stored
+        : null;
+  } catch (err) {
+    console.warn('[Calibration] Could not read calibration:', err);
+    _calibration = null;
+  }
+  return _calibration;
+}
+
+/**
+ * Store a new calibration.  Returns the stored value, or `null` if the
+ * value is implausible or could not be written.
+ */
+export async function saveScreenCalibration(dpPerMm: number): Promise<ScreenCalibration | null> {
+  if (!isPlausibleDpPerMm(dpPerMm)) {
+    console.warn('[Calibration] Rejected implausible dp/mm:', dpPerMm);
+    return null;
+  }
+
+  const calibration: ScreenCalibration = {
+    dpPerMm,
+    calibratedAt: new Date().toISOString(),
+    deviceKey: getDeviceKey(),
+  };
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    _calibration = calibration;
+    return calibration;
+  } catch (err) {
+    console.warn('[Calibration] Could not save calibration:', err);
+    return null;
+  }
+}
+
+/** Forget this phone's calibration and fall back to the default density. */
+export async function clearScreenCalibration(): Promise<void> {
+  _calibration = null;
+  try {
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  } catch (err) {
+    console.warn('[Calibration] Could not clear calibration:', err);
+  }
+}
+
+/** The calibration in use, or `null` when running on the default density. */
+export function getScreenCalibration(): ScreenCalibration | null {
+  return _calibration;
+}
+
+/** dp per millimetre on this screen — calibrated if available. */
+export function getDpPerMm(): number {
+  return _calibration?.dpPerMm ?? DEFAULT_DP_PER_MM;
+}
+
+/** Convert a physical measurement in millimetres to dp (layout / fontSize units). */
+export function mmToDp(mm: number): number {
+  return mm * getDpPerMm();
+}
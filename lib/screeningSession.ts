@@ -0,0 +1,556 @@
+/**
+ * screeningSession.ts
+ * --------------------
+ * The shared result model for every VisionCheck screening.
+ *
+ * Each test component emits its own typed result (`VisualAcuityResults`,
+ * `ColorVisionResults`, `AstigmatismResults`, `AmslerResults`,
+ * `ContrastSensitivityResults`) and the suite bundles them into a `ScreeningSession`.  History, the results
+ * screen, export and sync all read this one shape — nothing downstream
+ * should re-declare result types of its own.
+ *
+ * ─── Schema versions ────────────────────────────────────────────
+ * Sessions are stored on-device for months and may be synced to a
+ * server later, so every record carries `schemaVersion`.  When the
+ * model changes:
+ *   1. bump `SCREENING_SESSION_SCHEMA_VERSION`
+ *   2. add a migration from the previous version to `MIGRATIONS`
+ * `migrateSession()` walks a stored record up one version at a time
+ * until it reaches the current schema.
+ */
+
+import type { Language } from './i18n';
+
+// ─── Shared primitives ───────────────────────────────────────────────
+
+export type Eye = 'right' | 'left';
+
+// ─── Visual acuity ───────────────────────────────────────────────────
+
+/**
+ * Optotype chart used for the distance test.
+ *   sloan      — Sloan letters, patient names the letter
+ *   tumbling-e — Tumbling E, patient shows which way the bars point
+ *   lea        — LEA picture symbols for pre-school children; results
+ *                are interpreted against paediatric thresholds
+ */
+export type OptotypeSet = 'sloan' | 'tumbling-e' | 'lea';
+
+/**
+ * How the distance chart shows its optotypes.
+ *   single  — one optotype at a time
+ *   crowded — the whole line with crowding bars and a cursor on the
+ *             optotype to read; single optotypes overstate the acuity
+ *             of amblyopic eyes
+ */
+export type OptotypePresentation = 'single' | 'crowded';
+
+export type EOrientation = 'up' | 'right' | 'down' | 'left';
+
+export type LeaSymbolName = 'house' | 'apple' | 'circle' | 'square';
+
+/**
+ * How the distance threshold was found (see lib/thresholdEngine.ts).
+ *   line-walk — classic top-to-bottom chart walk
+ *   staircase — adaptive 2-down / 1-up staircase
+ *   quest     — adaptive Bayesian (QUEST-style) procedure
+ */
+export type ThresholdStrategyKind = 'line-walk' | 'staircase' | 'quest';
+
+/** 95 % interval around a logMAR estimate */
+export interface ThresholdInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Result of the guided fallbacks for patients who cannot read the top
+ * line of the chart at 3 m.
+ *   half-distance       — read the 6/60 optotype at 1.5 m (3/60)
+ *   counting-fingers    — CF at 1 m
+ *   hand-motion         — HM
+ *   light-perception    — LP
+ *   no-light-perception — NLP
+ */
+export type LowVisionLevel =
+  | 'half-distance'
+  | 'counting-fingers'
+  | 'hand-motion'
+  | 'light-perception'
+  | 'no-light-perception';
+
+/**
+ * Line-walk repeat through a pinhole, offered when an eye reads worse
+ * than 6/12.  A pinhole cancels most refractive blur, so acuity that
+ * improves points to a need for glasses and acuity that does not
+ * points to eye disease.
+ */
+export interface PinholeResult {
+  /** Snellen fraction of the last line passed; the top line when `belowChart` */
+  acuity: string;
+  /** Set when not even the top line was read through the pinhole */
+  belowChart: boolean;
+  decimal: number;
+  logMAR: number;
+  lettersCorrect: number;
+  /** Whether the pinhole raised acuity enough to suggest refractive error */
+  improved: boolean;
+}
+
+export interface EyeResult {
+  /** Snellen fraction of the last line passed, e.g. "6/9", or "CF" / "HM" / "LP" / "NLP" */
+  acuity: string;
+  linesRead: number;
+  decimal: number;
+  /** Letter-by-letter logMAR score (ETDRS style), 2 decimal places */
+  logMAR: number;
+  /** Letters read correctly */
+  lettersCorrect: number;
+  strategy: ThresholdStrategyKind;
+  /** `null` for below-chart fallbacks, which have no threshold run */
+  interval: ThresholdInterval | null;
+  /** Set when the patient could not read the chart and a fallback was used */
+  lowVision: LowVisionLevel | null;
+  /** Pinhole retest; `null` when none was run */
+  pinhole: PinholeResult | null;
+}
+
+/**
+ * How a distance measurement was taken.
+ *   uncorrected — one eye at a time, without glasses
+ *   spectacles  — one eye at a time, in the patient's current glasses
+ *   binocular   — both eyes open, as the patient normally sees (in
+ *                 their glasses if they have them)
+ */
+export type AcuityCondition = 'uncorrected' | 'spectacles' | 'binocular';
+
+export interface BinocularResult extends EyeResult {
+  /** Whether the patient wore their glasses for the run */
+  withSpectacles: boolean;
+}
+
+export interface NearEyeResult {
+  /** Jaeger level of the smallest line read; the largest line when `belowChart` */
+  level: string;
+  equivalent: string;
+  linesRead: number;
+  /** Set when not even the largest line could be read */
+  belowChart: boolean;
+}
+
+export interface DistanceResults {
+  rightEye: EyeResult | null;
+  leftEye: EyeResult | null;
+}
+
+export interface NearResults {
+  rightEye: NearEyeResult | null;
+  leftEye: NearEyeResult | null;
+}
+
+/**
+ * Whether ready-made readers of the estimated add are likely to help.
+ *   suitable          — equal-power readers should do
+ *   distance-error    — distance vision needs correcting too; refer for
+ *                       a refraction
+ *   distance-untested — distance vision was not measured in both eyes,
+ *                       so readers cannot be recommended
+ *   unequal-eyes      — the eyes read too differently for equal lenses
+ */
+export type ReadyMadeVerdict = 'suitable' | 'distance-error' | 'distance-untested' | 'unequal-eyes';
+
+/** Reading add estimated for presbyopia (see lib/presbyopia.ts) */
+export interface ReadingAddEstimate {
+  /** Dioptres, +1.00 to +3.00 in the 0.50 D steps ready-made readers come in */
+  add: number;
+  readyMade: ReadyMadeVerdict;
+}
+
+/**
+ * Sustained reading speed at the patient's best print size.
+ *   fluent — 80 words a minute or more, enough for everyday reading
+ *   slow   — 40–80, short texts only
+ *   spot   — under 40, labels and prices at most
+ */
+export type ReadingSpeedCategory = 'fluent' | 'slow' | 'spot';
+
+/** One timed sentence of the reading test (see lib/readingSpeed.ts) */
+export interface ReadingTrial {
+  /** Print size, logMAR at 40 cm */
+  logMAR: number;
+  /** Words in the sentence */
+  words: number;
+  /** Words misread or skipped */
+  errors: number;
+  seconds: number;
+  /** Standard-length (6-character) words per minute */
+  wordsPerMinute: number;
+}
+
+/** MNREAD-style reading test, both eyes open */
+export interface ReadingSpeedResults {
+  /** Language of the sentences read */
+  language: Language;
+  /** Largest print first; sentences the patient could not read are left out */
+  trials: ReadingTrial[];
+  /** Words per minute */
+  maxReadingSpeed: number;
+  /** logMAR at 40 cm; `null` when no sentence was read */
+  criticalPrintSize: number | null;
+  /** logMAR at 40 cm; `null` when no sentence was read */
+  readingAcuity: number | null;
+  category: ReadingSpeedCategory;
+}
+
+export type AcuityUrgency = 'urgent' | 'within_1_month' | 'low';
+
+/**
+ * Which assessment `interpretResults()` reached.  Stable across
+ * languages, unlike the translated `condition` shown with it.
+ */
+export type AcuityDiagnosisCode =
+  | 'normal'
+  | 'borderline'
+  | 'myopia'
+  | 'hyperopia'
+  | 'presbyopia'
+  | 'refractive'
+  | 'pinhole-no-gain'
+  | 'significant'
+  | 'severe-loss'
+  | 'child-reduced'
+  | 'child-unequal';
+
+export interface AcuityDiagnosis {
+  code: AcuityDiagnosisCode;
+  condition: string;
+  severity: string;
+  description: string;
+  recommendation: string;
+  urgency: AcuityUrgency;
+  color: string;
+}
+
+/**
+ * How the 3 m test distance was set.
+ *   steps  — paced out with the step counter and the helper's stride
+ *   manual — tape measure, floor marks or an estimate; nothing measured
+ */
+export type PlacementMethod = 'steps' | 'manual';
+
+export interface DistancePlacement {
+  method: PlacementMethod;
+  /** Distance the chart was placed at — the target distance for manual placement */
+  distanceCm: number;
+  /** Steps counted and stride used; `null` for manual placement */
+  steps: number | null;
+  strideCm: number | null;
+  /** Whether the stride came from a calibration walk rather than the default */
+  strideCalibrated: boolean;
+}
+
+export interface AcuityMethodology {
+  distanceTest: string;
+  nearTest: string;
+  brightnessControl: string;
+  letterSet: string;
+  presentation: OptotypePresentation;
+  screenDPI: number;
+  pixelRatio: number;
+  /** dp per millimetre used to size optotypes */
+  dpPerMm: number;
+  /** Whether `dpPerMm` came from a card calibration or the nominal density */
+  screenCalibrated: boolean;
+  /** How the 3 m distance was set */
+  distancePlacement: DistancePlacement;
+}
+
+export interface VisualAcuityResults {
+  optotype: OptotypeSet;
+  /** Uncorrected, one eye at a time */
+  distanceVision: DistanceResults;
+  /** One eye at a time in the patient's current glasses; `null` when not run */
+  spectacleVision: DistanceResults | null;
+  /** Both eyes open; `null` when not run */
+  binocularVision: BinocularResult | null;
+  nearVision: NearResults;
+  /** Years; `null` when not given */
+  age: number | null;
+  /** `null` when no add is needed or the age is unknown */
+  readingAdd: ReadingAddEstimate | null;
+  /** `null` when not run */
+  readingSpeed: ReadingSpeedResults | null;
+  diagnosis: AcuityDiagnosis;
+  testDate: string;
+  methodology: AcuityMethodology;
+  quality: TestQuality;
+}
+
+// ─── Colour vision ───────────────────────────────────────────────────
+
+export type DeficiencyType = 'protan' | 'deutan' | 'tritan' | 'normal';
+export type ColorSeverity = 'none' | 'mild' | 'moderate' | 'strong';
+
+export interface PlateResult {
+  plateIndex: number;
+  plateNumber: number;
+  userAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  category: string;
+}
+
+export interface ColorVisionResults {
+  totalPlates: number;
+  correctCount: number;
+  incorrectCount: number;
+  score: number;
+  deficiencyType: DeficiencyType;
+  severity: ColorSeverity;
+  plateResults: PlateResult[];
+  quality: TestQuality;
+}
+
+// ─── Astigmatism ─────────────────────────────────────────────────────
+
+export type AstigmatismSeverity = 'none' | 'mild' | 'moderate' | 'significant';
+
+export interface EyeAstigmatismResult {
+  selectedAngles: number[];      // Angles the user said looked darker/clearer
+  isUniform: boolean;            // True = all lines equally clear
+  suspectedAxis: number | null;  // Estimated axis in degrees (perpendicular to darkest line)
+  severity: AstigmatismSeverity;
+  consistent: boolean;           // Was the repeat test consistent with the first?
+}
+
+export interface AstigmatismResults {
+  rightEye: EyeAstigmatismResult | null;
+  leftEye: EyeAstigmatismResult | null;
+  overallSuspicion: AstigmatismSeverity;
+  recommendation: string;
+  quality: TestQuality;
+}
+
+// ─── Amsler grid ─────────────────────────────────────────────────────
+
+/**
+ * What the patient marked on a grid square:
+ *   distorted — lines looked wavy, bent or blurred
+ *   missing   — lines faded or there was a gap
+ */
+export type AmslerFinding = 'distorted' | 'missing';
+
+/** One marked square; columns and rows count from the top-left */
+export interface AmslerMark {
+  col: number;
+  row: number;
+  finding: AmslerFinding;
+}
+
+export type AmslerSeverity = 'none' | 'mild' | 'significant';
+
+export interface EyeAmslerResult {
+  /** Whether the patient could see the centre dot while fixating */
+  sawCentreDot: boolean;
+  /** Distortion map — every square the patient marked */
+  marks: AmslerMark[];
+  /** Any mark within the central 10° around fixation */
+  centralInvolvement: boolean;
+  severity: AmslerSeverity;
+}
+
+export interface AmslerResults {
+  rightEye: EyeAmslerResult | null;
+  leftEye: EyeAmslerResult | null;
+  overall: AmslerSeverity;
+  recommendation: string;
+  /** Side of one grid square as drawn, in mm */
+  gridSquareMm: number;
+  /** Distance at which each square subtends 1°, in cm */
+  viewingDistanceCm: number;
+  quality: TestQuality | null;
+}
+
+// ─── Contrast sensitivity ────────────────────────────────────────────
+
+/**
+ * Log contrast sensitivity against the age norm (see
+ * lib/contrastSensitivity.ts).
+ *   normal  — at or above the lower limit for the patient's age
+ *   reduced — below it
+ *   severe  — below 1.05, a visual disability at any age
+ */
+export type ContrastCategory = 'normal' | 'reduced' | 'severe';
+
+export interface EyeContrastResult {
+  /** Letter-by-letter log contrast sensitivity */
+  logCS: number;
+  lettersCorrect: number;
+  /** Whether the patient passed the faintest triplet the screen can show */
+  atCeiling: boolean;
+  category: ContrastCategory;
+}
+
+export interface ContrastSensitivityResults {
+  rightEye: EyeContrastResult | null;
+  leftEye: EyeContrastResult | null;
+  /** Category of the worse eye */
+  overall: ContrastCategory;
+  /** Patient's age in years, if given; sets the norm */
+  age: number | null;
+  /** Lowest normal logCS for that age */
+  normalLimit: number;
+  /** Faintest triplet this screen could render, in logCS */
+  ceilingLogCS: number;
+  /** Height of the letters as drawn, in mm */
+  letterHeightMm: number;
+  recommendation: string;
+  quality: TestQuality | null;
+}
+
+// ─── Session quality ─────────────────────────────────────────────────
+
+/**
+ * Calibration steps a test offers to skip.
+ *   screen   — credit-card match for the screen density
+ *   distance — 3 m placement
+ *   near     — 40 cm placement
+ */
+export type CalibrationStep = 'screen' | 'distance' | 'near';
+
+export interface ResponseTimeSummary {
+  answers: number;
+  /** Median time from stimulus to answer; `null` with no answers */
+  medianMs: number | null;
+  /** Answers quicker than anyone can read the stimulus — guesses or double taps */
+  fastAnswers: number;
+  /** Answers after a long pause — the patient or helper was distracted */
+  slowAnswers: number;
+}
+
+/**
+ * Room lighting against the test's limits (see lib/ambientLight.ts).
+ *   too-dark   — pupils dilate and colours fade
+ *   ok         — within the test's limits
+ *   too-bright — glare washes out the screen
+ */
+export type AmbientLightStatus = 'too-dark' | 'ok' | 'too-bright';
+
+export interface AmbientLightReading {
+  lux: number;
+  status: AmbientLightStatus;
+}
+
+/** How one test was run, recorded alongside its result (see lib/sessionQuality.ts). */
+export interface TestQuality {
+  responses: ResponseTimeSummary;
+  /** Whether brightness was held at the test's level; `null` if the test did not try */
+  brightnessLocked: boolean | null;
+  skippedCalibrations: CalibrationStep[];
+  /** Largest tilt of the screen away from upright, in degrees; `null` without an accelerometer or for hand-held tests */
+  maxTiltDeg: number | null;
+  /** Share of the test spent tilted past the limit, 0–1; `null` without an accelerometer or for hand-held tests */
+  tiltedFraction: number | null;
+  /** Hardware back presses during the test */
+  backPresses: number;
+  /** Room lighting when the test started; `null` without a light sensor or for tests that do not check */
+  ambientLight: AmbientLightReading | null;
+}
+
+export type ReliabilityGrade = 'good' | 'fair' | 'poor';
+
+export type ReliabilityIssue =
+  | 'fast-answers'
+  | 'slow-answers'
+  | 'brightness-unlocked'
+  | 'calibration-skipped'
+  | 'tilted'
+  | 'back-presses'
+  | 'inconsistent'
+  | 'lighting';
+
+/** Whether a poor score can be trusted to reflect the eye rather than the session */
+export interface SessionReliability {
+  grade: ReliabilityGrade;
+  issues: ReliabilityIssue[];
+}
+
+// ─── Session ─────────────────────────────────────────────────────────
+
+export const SCREENING_SESSION_SCHEMA_VERSION = 1;
+
+export type SessionSource =
+  | 'suite'
+  | 'visual-acuity'
+  | 'contrast-sensitivity'
+  | 'color-vision'
+  | 'astigmatism'
+  | 'amsler';
+
+export interface DeviceInfo {
+  platform: string;
+  osVersion: string;
+  appVersion: string;
+  screenWidth: number;
+  screenHeight: number;
+  pixelRatio: number;
+  fontScale: number;
+}
+
+export interface ScreeningSession {
+  schemaVersion: typeof SCREENING_SESSION_SCHEMA_VERSION;
+  id: string;
+  /** ISO-8601 timestamp of when the session was saved */
+  createdAt: string;
+  source: SessionSource;
+  /** Free-text patient name or ID entered by the health worker */
+  patientLabel: string | null;
+  /** Patient's age in years, if given */
+  age: number | null;
+  visualAcuity: VisualAcuityResults | null;
+  colorVision: ColorVisionResults | null;
+  astigmatism: AstigmatismResults | null;
+  amsler: AmslerResults | null;
+  contrastSensitivity: ContrastSensitivityResults | null;
+  /** Reliability of the whole screening; `null` when it holds no test results */
+  reliability: SessionReliability | null;
+  device: DeviceInfo;
+}
+
+// ─── Migrations ──────────────────────────────────────────────────────
+
+type StoredRecord = Record<string, unknown>;
+
+const isStoredRecord = (value: unknown): value is StoredRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Each entry upgrades a record FROM the keyed version to the next one.
+ * Version 1 is the first stored schema, so nothing needs upgrading yet.
+ */
+const MIGRATIONS: Record<number, (record: StoredRecord) => StoredRecord> = {};
+
+/**
+ * Upgrade a stored record to the current schema.
+ * Returns `null` for records that are unreadable or come from a newer
+ * app version than this one understands.
+ */
+export function migrateSession(raw: unknown): ScreeningSession | null {
+  if (!isStoredRecord(raw)) return null;
+
+  let record = raw;
+  let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+
+  if (version > SCREENING_SESSION_SCHEMA_VERSION) return null;
+
+  while (version < SCREENING_SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    record = migrate(record);
+    if (typeof record.schemaVersion !== 'number' || record.schemaVersion <= version) return null;
+    version = record.schemaVersion;
+  }
+
+  if (typeof record.id !== 'string' || typeof record.createdAt !== 'string') return null;
+  return record as unknown as ScreeningSession;
+}
@@ -0,0 +1,267 @@
+/**
+ * sessionQuality.ts
+ * ------------------
+ * Instrumentation of how each test was run, and the reliability grade
+ * it rolls up into.
+ *
+ * A poor score means little if the patient tapped at random, the phone
+ * lay flat on a table or the brightness never locked.  Each test keeps
+ * a `QualityRecorder` while it runs and stores its `summary()` with the
+ * result as `quality`; `gradeReliability()` turns those into the
+ * session's grade when it is saved.
+ *
+ * ─── What is recorded ───────────────────────────────────────────
+ * • Response time — from the stimulus appearing to the answer.
+ * • Brightness    — whether the test's brightness policy applied.
+ * • Calibration   — which calibration steps were skipped.
+ * • Tilt          — the screen's angle away from upright, from the
+ *   accelerometer, for the distance chart only.  A screen tilted by θ
+ *   shows the patient its optotypes foreshortened by cos θ; past 30°
+ *   that is over half a chart line.  Hand-held tests are not sampled:
+ *   a phone held to the eyes is tilted toward them by design.
+ * • Back presses  — hardware back presses, i.e. restarted steps.
+ * • Lighting      — the room's lux when the test started, from the
+ *   setup screen's check (lib/ambientLight.ts).
+ * Astigmatism results already carry their own `consistent` flags.
+ *
+ * ─── Grade ──────────────────────────────────────────────────────
+ * Each issue found adds its weight: 2 for issues that corrupt the
+ * answers themselves (guessing, tilt, an inconsistent repeat), 1 for
+ * the rest.  A total of 0 is good, up to 2 fair, above that poor.
+ */
+
+import { Accelerometer } from 'expo-sensors';
+import { useEffect, useRef } from 'react';
+
+import type { TranslationKey } from './i18n';
+import type {
+  AmbientLightReading,
+  CalibrationStep,
+  ReliabilityGrade,
+  ReliabilityIssue,
+  ScreeningSession,
+  SessionReliability,
+  TestQuality,
+} from './screeningSession';
+import { median } from './stats';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface GravitySample {
+  /** Acceleration in g along each axis */
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface QualityRecorder {
+  /** A stimulus is now on screen; the next answer is timed from here */
+  present(): void;
+  /** The patient answered the stimulus on screen */
+  answer(): void;
+  brightness(locked: boolean): void;
+  skipCalibration(step: CalibrationStep): void;
+  backPress(): void;
+  tilt(sample: GravitySample): void;
+  /** Latest room-lighting reading; the last one before the test is kept */
+  ambientLight(reading: AmbientLightReading): void;
+  summary(): TestQuality;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Quicker than this is faster than anyone reads an optotype */
+export const FAST_ANSWER_MS = 400;
+
+/** Slower than this the patient or helper has looked away */
+export const SLOW_ANSWER_MS = 15_000;
+
+/** Screen tilt past which optotypes shrink by more than half a line */
+export const TILT_LIMIT_DEG = 30;
+
+const FAST_ANSWER_SHARE = 0.2;
+const SLOW_ANSWER_SHARE = 0.25;
+const TILTED_SHARE = 0.2;
+const MAX_BACK_PRESSES = 2;
+const TILT_SAMPLE_INTERVAL_MS = 500;
+
+const ISSUE_WEIGHTS: Record<ReliabilityIssue, number> = {
+  'fast-answers': 2,
+  'tilted': 2,
+  'inconsistent': 2,
+  'slow-answers': 1,
+  'brightness-unlocked': 1,
+  'calibration-skipped': 1,
+  'back-presses': 1,
+  'lighting': 1,
+};
+
+export const RELIABILITY_GRADE_LABELS: Record<ReliabilityGrade, TranslationKey> = {
+  good: 'reliability.good',
+  fair: 'reliability.fair',
+  poor: 'reliability.poor',
+};
+
+export const RELIABILITY_ISSUE_LABELS: Record<ReliabilityIssue, TranslationKey> = {
+  'fast-answers': 'reliability.fastAnswers',
+  'slow-answers': 'reliability.slowAnswers',
+  'brightness-unlocked': 'reliability.brightnessUnlocked',
+  'calibration-skipped': 'reliability.calibrationSkipped',
+  'tilted': 'reliability.tilted',
+  'back-presses': 'reliability.backPresses',
+  'inconsistent': 'reliability.inconsistent',
+  'lighting': 'reliability.lighting',
+};
+
+// ─── Recording ───────────────────────────────────────────────────────
+
+/** Angle in degrees between the screen and upright, from the direction of gravity. */
+export function screenTiltDeg({ x, y, z }: GravitySample): number {
+  const magnitude = Math.sqrt(x * x + y * y + z * z);
+  if (magnitude === 0) return 0;
+  return (Math.asin(Math.min(1, Math.abs(z) / magnitude)) * 180) / Math.PI;
+}
+
+export function createQualityRecorder(): QualityRecorder {
+  const responseTimes: number[] = [];
+  let presentedAt: number | null = null;
+  let brightnessLocked: boolean | null = null;
+  const skipped = new Set<CalibrationStep>();
+  let backPresses = 0;
+  let tiltSamples = 0;
+  let tiltedSamples = 0;
+  let maxTiltDeg = 0;
+  let ambientLight: AmbientLightReading | null = null;
+
+  return {
+    present() {
+      presentedAt = Date.now();
+    },
+    answer() {
+      // A second tap before the next stimulus is not a new answer
+      if (presentedAt === null) return;
+      responseTimes.push(Date.now() - presentedAt);
+      presentedAt = null;
+    },
+    brightness(locked) {
+      brightnessLocked = (brightnessLocked ?? true) && locked;
+    },
+    skipCalibration(step) {
+      skipped.add(step);
+    },
+    backPress() {
+      backPresses += 1;
+    },
+    tilt(sample) {
+      const deg = screenTiltDeg(sample);
+      tiltSamples += 1;
+      if (deg > TILT_LIMIT_DEG) tiltedSamples += 1;
+      maxTiltDeg = Math.max(maxTiltDeg, deg);
+    },
+    ambientLight(reading) {
+      ambientLight = reading;
+    },
+    summary() {
+      const medianMs = median(responseTimes);
+      return {
+        responses: {
+          answers: responseTimes.length,
+          medianMs: medianMs === null ? null : Math.round(medianMs),
+          fastAnswers: responseTimes.filter(ms => ms < FAST_ANSWER_MS).length,
+          slowAnswers: responseTimes.filter(ms => ms > SLOW_ANSWER_MS).length,
+        },
+        brightnessLocked,
+        skippedCalibrations: [...skipped],
+        maxTiltDeg: tiltSamples ? Math.round(maxTiltDeg) : null,
+        tiltedFraction: tiltSamples ? Math.round((tiltedSamples / tiltSamples) * 100) / 100 : null,
+        backPresses,
+        ambientLight,
+      };
+    },
+  };
+}
+
+// ─── Grading ─────────────────────────────────────────────────────────
+
+/** Issues found in one test's quality record. */
+export function getQualityIssues(quality: TestQuality): ReliabilityIssue[] {
+  const { answers, fastAnswers, slowAnswers } = quality.responses;
+  const issues: ReliabilityIssue[] = [];
+  if (answers > 0 && fastAnswers / answers > FAST_ANSWER_SHARE) issues.push('fast-answers');
+  if (answers > 0 && slowAnswers / answers > SLOW_ANSWER_SHARE) issues.push('slow-answers');
+  if (quality.brightnessLocked === false) issues.push('brightness-unlocked');
+  if (quality.skippedCalibrations.length > 0) issues.push('calibration-skipped');
+  if (quality.tiltedFraction !== null && quality.tiltedFraction > TILTED_SHARE) issues.push('tilted');
+  if (quality.backPresses > MAX_BACK_PRESSES) issues.push('back-presses');
+  if (quality.ambientLight && quality.ambientLight.status !== 'ok') issues.push('lighting');
+
+  return issues;
+}
+
+/**
+ * Reliability of a screening from the quality records of its tests,
+ * or `null` if none of them was instrumented.
+ */
+export function gradeReliability(
+  { visualAcuity, contrastSensitivity, colorVision, astigmatism, amsler }:
+    Pick<ScreeningSession, 'visualAcuity' | 'contrastSensitivity' | 'colorVision' | 'astigmatism' | 'amsler'>,
+): SessionReliability | null {
+  const qualities = [
+    visualAcuity?.quality,
+    contrastSensitivity?.quality,
+    colorVision?.quality,
+    astigmatism?.quality,
+    amsler?.quality,
+  ].filter((q): q is TestQuality => !!q);
+  if (qualities.length === 0) return null;
+
+  const issues = new Set(qualities.flatMap(getQualityIssues));
+  if (astigmatism && [astigmatism.rightEye, astigmatism.leftEye].some(eye => eye && !eye.consistent)) {
+    issues.add('inconsistent');
+  }
+
+  const score = [...issues].reduce((sum, issue) => sum + ISSUE_WEIGHTS[issue], 0);
+  const grade: ReliabilityGrade = score === 0 ? 'good' : score <= 2 ? 'fair' : 'poor';
+  return { grade, issues: [...issues] };
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+/**
+ * One recorder for the lifetime of a test component.  Screen tilt is
+ * sampled only while `measuringTilt` — a chart standing 3 m from the
+ * patient — so handling the phone between stimuli is not counted.
+ */
+export function useQualityRecorder(measuringTilt = false): QualityRecorder {
+  const recorderRef = useRef<QualityRecorder | null>(null);
+  if (!recorderRef.current) recorderRef.current = createQualityRecorder();
+  const recorder = recorderRef.current;
+
+  useEffect(() => {
+    if (!measuringTilt) return;
+    let cancelled = false;
+    let subscription: { remove: () => void } | null = null;
+    let lastSampleAt = 0;
+
+    Accelerometer.isAvailableAsync()
+      .then(available => {
+        if (!available || cancelled) return;
+        // The update interval is shared by every listener (the step counter
+        // needs 20 ms), so thin the samples here rather than set it
+        subscription = Accelerometer.addListener(sample => {
+          const now = Date.now();
+          if (now - lastSampleAt < TILT_SAMPLE_INTERVAL_MS) return;
+          lastSampleAt = now;
+          recorder.tilt(sample);
+        });
+      })
+      .catch(err => console.warn('[quality] Accelerometer unavailable:', err));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [measuringTilt, recorder]);
+
+  return recorder;
+}
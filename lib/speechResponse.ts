@@ -0,0 +1,405 @@
+/**
+ * speechResponse.ts
+ * ------------------
+ * Spoken answers for the distance test: the patient standing 3 m away
+ * calls out what they see and the phone scores it, instead of a helper
+ * relaying every answer with a tap.
+ *
+ * ─── Recognisers ────────────────────────────────────────────────
+ * Turning audio into text sits behind the `SpeechRecognizer`
+ * interface.  On Android and iOS it is the phone's own speech service
+ * through expo-speech-recognition, which asks for the microphone and
+ * speech permissions on first use; on web it is the browser's Web
+ * Speech API.  Where neither exists — Expo Go, which lacks the native
+ * module, or a phone without a speech service — the mode is simply
+ * not offered.
+ *
+ * ─── Matching ───────────────────────────────────────────────────
+ * Transcripts are matched against a vocabulary of spoken forms per
+ * answer: letters and their English or Kiswahili names ("kay", "ke"),
+ * directions ("up", "juu"), picture names ("house", "nyumba"), and
+ * "I can't see" / "siwezi kuona".  A match's confidence is the
+ * recogniser's confidence scaled down for words that are easily
+ * misheard ("see", "oh") or utterances naming more than one answer.
+ * Anything under `CONFIRM_THRESHOLD` is read back to the patient and
+ * only scored once they (or the helper) confirm it.
+ */
+
+import { requireOptionalNativeModule } from 'expo';
+import type { ExpoSpeechRecognitionModule } from 'expo-speech-recognition';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Platform } from 'react-native';
+
+import { speechLanguage } from './i18n';
+import type { EOrientation, LeaSymbolName } from './screeningSession';
+import { isSpeaking, speak } from './voiceService';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** One recognition hypothesis; `confidence` is 0–1, or 0 when unknown */
+export interface Transcript {
+  text: string;
+  confidence: number;
+}
+
+export interface SpeechRecognizer {
+  /**
+   * Listen until `stop()`, calling `onResult` with the alternatives
+   * for each utterance, best first.
+   */
+  start(
+    language: string,
+    onResult: (alternatives: Transcript[]) => void,
+    onError?: (error: Error) => void,
+  ): void;
+  stop(): void;
+}
+
+/** Spoken forms for each answer value */
+export type SpokenVocabulary = Record<string, string[]>;
+
+export interface SpokenMatch {
+  /** Answer value from the vocabulary, or `CANT_SEE` */
+  answer: string;
+  confidence: number;
+  /** What the recogniser heard */
+  heard: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Answer value for "I can't see it" */
+export const CANT_SEE = 'cant-see';
+
+/** Matches below this confidence are confirmed before scoring */
+export const CONFIRM_THRESHOLD = 0.75;
+
+// Confidence assumed when a recogniser does not report one
+const UNKNOWN_CONFIDENCE = 0.5;
+
+// Everyday words that double as letter names and are often misheard
+const AMBIGUOUS_FORMS = new Set(['see', 'sea', 'oh', 'are', 'he', 'es', 'en', 'i', 'pi']);
+const AMBIGUOUS_WEIGHT = 0.7;
+const MULTIPLE_ANSWER_WEIGHT = 0.5;
+
+const CANT_SEE_PHRASES = [
+  'cant see', 'cannot see', 'can not see', 'dont see', 'dont know',
+  'siwezi kuona', 'siwezi', 'sioni', 'sijui',
+];
+
+const YES_FORMS = ['yes', 'yeah', 'yep', 'correct', 'ndiyo', 'ndio', 'sawa', 'ehe'];
+const NO_FORMS = ['no', 'nope', 'wrong', 'hapana', 'siyo', 'sio'];
+
+// ─── Vocabularies ────────────────────────────────────────────────────
+
+/** Sloan letters: the letter, its English name and its Kiswahili name */
+export const SLOAN_VOCABULARY: SpokenVocabulary = {
+  C: ['c', 'see', 'sea', 'si', 'che'],
+  D: ['d', 'dee', 'di', 'de'],
+  E: ['e', 'ee', 'i'],
+  F: ['f', 'ef', 'eff', 'efu'],
+  H: ['h', 'aitch', 'haitch', 'eich', 'he'],
+  K: ['k', 'kay', 'kei', 'ke'],
+  N: ['n', 'en', 'enn', 'ne'],
+  O: ['o', 'oh', 'ou'],
+  P: ['p', 'pee', 'pi', 'pe'],
+  R: ['r', 'are', 'ar', 'arr', 're'],
+  S: ['s', 'ess', 'es', 'se'],
+  V: ['v', 'vee', 'vi', 've'],
+  Z: ['z', 'zed', 'zee', 'ze'],
+};
+
+export const E_VOCABULARY: Record<EOrientation, string[]> = {
+  up: ['up', 'upward', 'upwards', 'top', 'juu'],
+  down: ['down', 'downward', 'downwards', 'bottom', 'chini'],
+  left: ['left', 'kushoto'],
+  right: ['right', 'kulia'],
+};
+
+export const LEA_VOCABULARY: Record<LeaSymbolName, string[]> = {
+  house: ['house', 'home', 'nyumba'],
+  apple: ['apple', 'heart', 'tufaha'],
+  circle: ['ball', 'circle', 'mpira', 'duara'],
+  square: ['box', 'square', 'sanduku', 'mraba'],
+};
+
+// ─── Matching ────────────────────────────────────────────────────────
+
+const normalise = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const recogniserConfidence = (transcript: Transcript): number =>
+  transcript.confidence > 0 ? Math.min(1, transcript.confidence) : UNKNOWN_CONFIDENCE;
+
+const containsPhrase = (text: string, phrase: string): boolean =>
+  ` ${text} `.includes(` ${phrase} `);
+
+/**
+ * Best answer heard across the recogniser's alternatives, or `null`
+ * if none of them names an answer.
+ */
+export function matchSpokenAnswer(
+  alternatives: Transcript[],
+  vocabulary: SpokenVocabulary,
+): SpokenMatch | null {
+  let best: SpokenMatch | null = null;
+
+  for (const transcript of alternatives) {
+    const text = normalise(transcript.text);
+    if (!text) continue;
+    const base = recogniserConfidence(transcript);
+
+    let match: SpokenMatch | null = null;
+    if (CANT_SEE_PHRASES.some(phrase => containsPhrase(text, phrase))) {
+      match = { answer: CANT_SEE, confidence: base, heard: transcript.text };
+    } else {
+      // The last answer named wins ("it's a … K"); naming several is a guess
+      const named: { answer: string; weight: number }[] = [];
+      for (const word of text.split(' ')) {
+        for (const [answer, forms] of Object.entries(vocabulary)) {
+          if (forms.includes(word)) {
+            named.push({ answer, weight: AMBIGUOUS_FORMS.has(word) ? AMBIGUOUS_WEIGHT : 1 });
+          }
+        }
+      }
+      const last = named[named.length - 1];
+      if (last) {
+        const distinct = new Set(named.map(n => n.answer)).size;
+        const weight = last.weight * (distinct > 1 ? MULTIPLE_ANSWER_WEIGHT : 1);
+        match = { answer: last.answer, confidence: base * weight, heard: transcript.text };
+      }
+    }
+
+    if (match && (!best || match.confidence > best.confidence)) best = match;
+  }
+
+  return best;
+}
+
+/** `true` for "yes" / "ndiyo", `false` for "no" / "hapana", otherwise `null`. */
+export function matchConfirmation(alternatives: Transcript[]): boolean | null {
+  for (const transcript of alternatives) {
+    const words = normalise(transcript.text).split(' ');
+    if (words.some(word => YES_FORMS.includes(word))) return true;
+    if (words.some(word => NO_FORMS.includes(word))) return false;
+  }
+  return null;
+}
+
+// ─── Recognisers ─────────────────────────────────────────────────────
+
+// The parts of the browser's Web Speech API used here
+interface WebSpeechAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface WebSpeechResultEvent {
+  results: ArrayLike<ArrayLike<WebSpeechAlternative>>;
+}
+
+interface WebSpeechErrorEvent {
+  error: string;
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: WebSpeechErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+interface WebSpeechGlobals {
+  SpeechRecognition?: new () => WebSpeechRecognition;
+  webkitSpeechRecognition?: new () => WebSpeechRecognition;
+}
+
+/**
+ * Recogniser backed by the browser's Web Speech API, or `null` where
+ * it is not available.
+ */
+export function createWebSpeechRecognizer(): SpeechRecognizer | null {
+  const scope = globalThis as WebSpeechGlobals;
+  const Recognition = scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+  if (!Recognition) return null;
+
+  let active: WebSpeechRecognition | null = null;
+
+  return {
+    start(language, onResult, onError) {
+      const recognition = new Recognition();
+      recognition.lang = language;
+      recognition.continuous = true;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = 3;
+      recognition.onresult = event => {
+        const result = event.results[event.results.length - 1];
+        onResult(Array.from(result, alt => ({ text: alt.transcript, confidence: alt.confidence })));
+      };
+      recognition.onerror = event => onError?.(new Error(event.error));
+      // Browsers end "continuous" sessions after a pause — keep listening until stopped
+      recognition.onend = () => {
+        if (active === recognition) recognition.start();
+      };
+      active = recognition;
+      recognition.start();
+    },
+    stop() {
+      const recognition = active;
+      active = null;
+      recognition?.stop();
+    },
+  };
+}
+
+// Silence and our own stop() end a session without anything being wrong
+const QUIET_NATIVE_ERRORS: readonly string[] = ['no-speech', 'speech-timeout', 'aborted'];
+
+/**
+ * Recogniser backed by the platform's own speech service (Android's
+ * SpeechRecognizer, iOS's SFSpeechRecognizer) through
+ * expo-speech-recognition, or `null` where the app was built without
+ * the module or the phone has no speech service.
+ */
+export function createNativeSpeechRecognizer(): SpeechRecognizer | null {
+  const native = requireOptionalNativeModule<typeof ExpoSpeechRecognitionModule>('ExpoSpeechRecognition');
+  if (!native?.isRecognitionAvailable()) return null;
+
+  let subscriptions: { remove(): void }[] = [];
+  let listening = false;
+
+  const stopListening = () => {
+    listening = false;
+    subscriptions.forEach(subscription => subscription.remove());
+    subscriptions = [];
+  };
+
+  return {
+    start(language, onResult, onError) {
+      stopListening();
+      listening = true;
+      const listen = () => native.start({ lang: language, interimResults: false, continuous: true, maxAlternatives: 3 });
+
+      subscriptions = [
+        native.addListener('result', event => {
+          if (!event.isFinal) return;
+          // -1 means the service gave no confidence
+          onResult(event.results.map(result => ({ text: result.transcript, confidence: Math.max(0, result.confidence) })));
+        }),
+        native.addListener('error', event => {
+          if (!QUIET_NATIVE_ERRORS.includes(event.error)) onError?.(new Error(`${event.error}: ${event.message}`));
+        }),
+        // Older Android services end after each utterance — keep listening until stopped
+        native.addListener('end', () => {
+          if (listening) listen();
+        }),
+      ];
+
+      native.requestPermissionsAsync().then(({ granted }) => {
+        if (!listening) return;
+        if (granted) {
+          listen();
+        } else {
+          stopListening();
+          onError?.(new Error('not-allowed: microphone or speech permission denied'));
+        }
+      }, error => onError?.(error instanceof Error ? error : new Error(String(error))));
+    },
+    stop() {
+      stopListening();
+      native.stop();
+    },
+  };
+}
+
+const _recognizer: SpeechRecognizer | null =
+  Platform.OS === 'web' ? createWebSpeechRecognizer() : createNativeSpeechRecognizer();
+
+export function getSpeechRecognizer(): SpeechRecognizer | null {
+  return _recognizer;
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+export interface SpokenAnswers {
+  /** A low-confidence match waiting to be confirmed */
+  pending: SpokenMatch | null;
+  confirm: () => void;
+  reject: () => void;
+}
+
+/**
+ * Listen for spoken answers while `enabled`.  Confident matches go
+ * straight to `onAnswer` (with `CANT_SEE` for "I can't see"); others
+ * are read back with `describe()` and wait for a spoken or tapped
+ * yes / no.
+ */
+export function useSpokenAnswers(
+  enabled: boolean,
+  vocabulary: SpokenVocabulary,
+  onAnswer: (answer: string) => void,
+  describe: (answer: string) => string,
+): SpokenAnswers {
+  const [pending, setPending] = useState<SpokenMatch | null>(null);
+
+  // Read through refs so the recogniser (started once) sees current values
+  const latest = useRef({ vocabulary, onAnswer, describe, pending });
+  latest.current = { vocabulary, onAnswer, describe, pending };
+
+  const accept = useCallback((match: SpokenMatch) => {
+    setPending(null);
+    latest.current.onAnswer(match.answer);
+  }, []);
+
+  const ask = useCallback((match: SpokenMatch) => {
+    setPending(match);
+    if (match.answer === CANT_SEE) {
+      speak('voice.spoken.confirmCantSee', { interrupt: true });
+    } else {
+      speak('voice.spoken.confirm', { interrupt: true, params: { answer: latest.current.describe(match.answer) } });
+    }
+  }, []);
+
+  useEffect(() => {
+    const recognizer = enabled ? getSpeechRecognizer() : null;
+    if (!recognizer) return;
+
+    recognizer.start(
+      speechLanguage(),
+      alternatives => {
+        // Ignore the phone hearing its own prompts
+        if (isSpeaking()) return;
+
+        const waiting = latest.current.pending;
+        if (waiting) {
+          const reply = matchConfirmation(alternatives);
+          if (reply === true) return accept(waiting);
+          if (reply === false) return setPending(null);
+        }
+
+        const match = matchSpokenAnswer(alternatives, latest.current.vocabulary);
+        if (!match) return;
+        if (match.confidence >= CONFIRM_THRESHOLD) accept(match);
+        else ask(match);
+      },
+      error => console.warn('[speech] Recogniser error:', error),
+    );
+    return () => recognizer.stop();
+  }, [enabled, accept, ask]);
+
+  return {
+    pending,
+    confirm: () => { if (pending) accept(pending); },
+    reject: () => setPending(null),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * stats.ts
+ * ---------
+ * Small numeric helpers shared by the sensor and scoring modules.
+ */
+
+/** Median of `values`, or `null` for an empty list. */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
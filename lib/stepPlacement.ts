@@ -0,0 +1,251 @@
+/**
+ * stepPlacement.ts
+ * -----------------
+ * Pacing out the 3 m test distance with the phone's accelerometer.
+ *
+ * GPS cannot resolve 3 m, and a tape measure is rarely at hand, but
+ * every helper can walk.  The helper stands beside the patient and
+ * carries the phone away at a normal pace; each step is detected from
+ * the accelerometer and multiplied by the helper's stride, and the
+ * phone says "two more steps" … "stop here".
+ *
+ * ─── Step detection ─────────────────────────────────────────────
+ * Steps are peaks in the smoothed magnitude of acceleration: a step
+ * is counted when it rises above `STEP_HIGH_G` after having fallen
+ * below `STEP_LOW_G`, and never sooner than `MIN_STEP_INTERVAL_MS`
+ * after the last one.  The platform pedometers are not used — Android
+ * batches their reports several seconds late, too slow for four steps.
+ * `createStepDetector()` is pure, so it can be fed recorded samples.
+ *
+ * ─── Stride calibration ─────────────────────────────────────────
+ * Stride varies from about 55 to 85 cm between adults.  Once per
+ * phone, the helper walks a measured `CALIBRATION_DISTANCE_CM` and the
+ * stride is that distance over the steps counted.  Until then
+ * `DEFAULT_STRIDE_CM` is used and the placement is marked uncalibrated.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Accelerometer } from 'expo-sensors';
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+
+import type { DistancePlacement } from './screeningSession';
+
+const STORAGE_KEY = '@visioncheck/stride-calibration';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface AccelerationSample {
+  /** Acceleration in g along each axis */
+  x: number;
+  y: number;
+  z: number;
+  /** Seconds */
+  timestamp: number;
+}
+
+export interface StepDetector {
+  /** Feed one sample; returns `true` when it completes a step */
+  push(sample: AccelerationSample): boolean;
+  reset(): void;
+}
+
+export interface StrideCalibration {
+  strideCm: number;
+  steps: number;
+  distanceCm: number;
+  /** ISO-8601 timestamp of the calibration walk */
+  calibratedAt: string;
+}
+
+export interface PlacementGuidance {
+  /** Distance walked so far */
+  walkedCm: number;
+  /** Whole steps still to take; 0 once within half a stride of the target */
+  remainingSteps: number;
+  arrived: boolean;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+/** Typical adult walking stride, used until a calibration walk */
+export const DEFAULT_STRIDE_CM = 70;
+
+/** Measured distance walked to calibrate the stride */
+export const CALIBRATION_DISTANCE_CM = 500;
+
+/** Fewer steps than this over the calibration walk is a miscount */
+export const MIN_CALIBRATION_STEPS = 4;
+
+const MIN_STRIDE_CM = 40;
+const MAX_STRIDE_CM = 120;
+
+const STEP_HIGH_G = 1.12;
+const STEP_LOW_G = 1.0;
+const MIN_STEP_INTERVAL_MS = 300;
+const SMOOTHING = 0.25; // weight of the newest sample in the moving average
+const SAMPLE_INTERVAL_MS = 20;
+
+// ─── Step detection ──────────────────────────────────────────────────
+
+export function createStepDetector(): StepDetector {
+  let smoothed = 1;
+  let armed = true;
+  let lastStepMs = -Infinity;
+
+  return {
+    push({ x, y, z, timestamp }) {
+      const magnitude = Math.sqrt(x * x + y * y + z * z);
+      smoothed += SMOOTHING * (magnitude - smoothed);
+
+      if (smoothed < STEP_LOW_G) armed = true;
+      const nowMs = timestamp * 1000;
+      if (armed && smoothed > STEP_HIGH_G && nowMs - lastStepMs >= MIN_STEP_INTERVAL_MS) {
+        armed = false;
+        lastStepMs = nowMs;
+        return true;
+      }
+      return false;
+    },
+    reset() {
+      smoothed = 1;
+      armed = true;
+      lastStepMs = -Infinity;
+    },
+  };
+}
+
+// ─── Guidance ────────────────────────────────────────────────────────
+
+/** How far `steps` of `strideCm` have come, and how many are left to `targetCm`. */
+export function getPlacementGuidance(steps: number, strideCm: number, targetCm: number): PlacementGuidance {
+  const walkedCm = steps * strideCm;
+  const remainingSteps = Math.max(0, Math.round((targetCm - walkedCm) / strideCm));
+  return { walkedCm, remainingSteps, arrived: remainingSteps === 0 };
+}
+
+/** Stride from a calibration walk, or `null` if the count is implausible. */
+export function strideFromWalk(steps: number, distanceCm: number = CALIBRATION_DISTANCE_CM): number | null {
+  if (steps < MIN_CALIBRATION_STEPS) return null;
+  const strideCm = distanceCm / steps;
+  return strideCm >= MIN_STRIDE_CM && strideCm <= MAX_STRIDE_CM ? strideCm : null;
+}
+
+/** Placement record for a distance paced out with `steps`. */
+export function stepPlacement(steps: number): DistancePlacement {
+  const strideCm = getStrideCm();
+  return {
+    method: 'steps',
+    distanceCm: Math.round(steps * strideCm),
+    steps,
+    strideCm: Math.round(strideCm * 10) / 10,
+    strideCalibrated: _calibration !== null,
+  };
+}
+
+/** Placement record for a distance set without the step counter. */
+export function manualPlacement(targetCm: number): DistancePlacement {
+  return { method: 'manual', distanceCm: targetCm, steps: null, strideCm: null, strideCalibrated: false };
+}
+
+// ─── Stride calibration ──────────────────────────────────────────────
+
+let _calibration: StrideCalibration | null = null;
+const _listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  _listeners.add(listener);
+  return () => { _listeners.delete(listener); };
+};
+
+/** Read the stored stride into memory.  Call once at startup. */
+export async function loadStrideCalibration(): Promise<StrideCalibration | null> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as StrideCalibration) : null;
+    _calibration = stored && strideFromWalk(stored.steps, stored.distanceCm) !== null ? stored : null;
+    _listeners.forEach(listener => listener());
+  } catch (err) {
+    console.warn('[steps] Could not read stride calibration:', err);
+  }
+  return _calibration;
+}
+
+/**
+ * Store the stride from a calibration walk.  Returns the calibration,
+ * or `null` if the step count is implausible or could not be saved.
+ */
+export async function saveStrideCalibration(
+  steps: number,
+  distanceCm: number = CALIBRATION_DISTANCE_CM,
+): Promise<StrideCalibration | null> {
+  const strideCm = strideFromWalk(steps, distanceCm);
+  if (strideCm === null) {
+    console.warn('[steps] Rejected implausible calibration walk:', steps, 'steps');
+    return null;
+  }
+
+  const calibration: StrideCalibration = {
+    strideCm,
+    steps,
+    distanceCm,
+    calibratedAt: new Date().toISOString(),
+  };
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(calibration));
+    _calibration = calibration;
+    _listeners.forEach(listener => listener());
+    return calibration;
+  } catch (err) {
+    console.warn('[steps] Could not save stride calibration:', err);
+    return null;
+  }
+}
+
+export function getStrideCalibration(): StrideCalibration | null {
+  return _calibration;
+}
+
+/** Stride in cm — calibrated if available. */
+export function getStrideCm(): number {
+  return _calibration?.strideCm ?? DEFAULT_STRIDE_CM;
+}
+
+/** Current calibration, re-rendering the caller when it changes. */
+export function useStrideCalibration(): StrideCalibration | null {
+  return useSyncExternalStore(subscribe, getStrideCalibration, getStrideCalibration);
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────
+
+export interface StepCounter {
+  steps: number;
+  /** `false` if the phone has no usable accelerometer; `null` while checking */
+  available: boolean | null;
+  reset: () => void;
+}
+
+/** Count steps from the accelerometer while `enabled`. */
+export function useStepCounter(enabled: boolean): StepCounter {
+  const [steps, setSteps] = useState(0);
+  const [available, setAvailable] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    Accelerometer.isAvailableAsync()
+      .then(setAvailable)
+      .catch(() => setAvailable(false));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !available) return;
+    const detector = createStepDetector();
+    Accelerometer.setUpdateInterval(SAMPLE_INTERVAL_MS);
+    const subscription = Accelerometer.addListener(sample => {
+      if (detector.push(sample)) setSteps(prev => prev + 1);
+    });
+    return () => subscription.remove();
+  }, [enabled, available]);
+
+  const reset = useCallback(() => setSteps(0), []);
+
+  return { steps, available, reset };
+}
@@ -0,0 +1,411 @@
+/**
+ * thresholdEngine.ts
+ * -------------------
+ * Threshold-estimation strategies for the distance acuity test.
+ *
+ * A strategy decides which letter size to show next from the answers
+ * given so far, decides when to stop, and reports a logMAR estimate
+ * with a 95 % interval.  The test component only presents optotypes
+ * and reports right/wrong — it never knows which procedure is running.
+ *
+ *   line-walk — the classic chart walk: every letter of a line, top to
+ *               bottom, stopping after two consecutive misses.  Scored
+ *               letter-by-letter (0.02 logMAR per letter).
+ *   staircase — 2-down / 1-up staircase over the chart sizes.  Starts
+ *               mid-chart and takes two-line steps until the first
+ *               reversal, so good-sighted patients finish quickly.
+ *   quest     — Bayesian QUEST-style procedure: keeps a posterior over
+ *               the threshold and always tests the size closest to its
+ *               mean, stopping once the posterior is narrow enough.
+ *
+ * ─── Levels ─────────────────────────────────────────────────────
+ * Strategies work on `levels`, the chart lines from largest (index 0)
+ * to smallest.  Only `logMAR` and the number of letters on each line
+ * are needed, so the same engine drives Sloan, Tumbling E and LEA.
+ */
+
+import type { TranslationKey } from './i18n';
+import type { ThresholdInterval, ThresholdStrategyKind } from './screeningSession';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export interface ThresholdLevel {
+  logMAR: number;
+  letters: number;
+}
+
+/** One optotype to present: chart line, and how many were already shown at that size. */
+export interface Trial {
+  level: number;
+  position: number;
+}
+
+export type TrialOutcome = 'correct' | 'incorrect' | 'cant-see';
+
+export interface ThresholdEstimate {
+  /** Estimated threshold in logMAR, 2 decimal places */
+  logMAR: number;
+  /** 95 % interval around `logMAR` */
+  interval: ThresholdInterval;
+  /** Smallest line the patient can be credited with; -1 = worse than the top line */
+  bestLevel: number;
+  lettersCorrect: number;
+  trials: number;
+}
+
+export interface ThresholdStrategy {
+  readonly kind: ThresholdStrategyKind;
+  /** Next optotype to show, or `null` when the estimate is final. */
+  next(): Trial | null;
+  record(trial: Trial, outcome: TrialOutcome): void;
+  /** Rough completion, 0–1, for the progress bar. */
+  progress(): number;
+  estimate(): ThresholdEstimate;
+}
+
+/** Catalogue keys of each strategy's display name */
+export const THRESHOLD_STRATEGY_LABELS: Record<ThresholdStrategyKind, TranslationKey> = {
+  'line-walk': 'strategy.lineWalk',
+  'staircase': 'strategy.staircase',
+  'quest': 'strategy.quest',
+};
+
+// ─── Shared helpers ──────────────────────────────────────────────────
+
+const WORSE_THAN_CHART_LOGMAR = 1.3; // 3/60 — below this the low-vision fallbacks take over
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/** Smallest line whose size is at or above a logMAR threshold, or -1. */
+const levelForLogMAR = (levels: ThresholdLevel[], logMAR: number): number => {
+  let best = -1;
+  levels.forEach((level, i) => {
+    if (level.logMAR >= logMAR - 0.005) best = i;
+  });
+  return best;
+};
+
+// ─── Line walk ───────────────────────────────────────────────────────
+// Letter-by-letter credit, ETDRS style: every letter is worth 0.02
+// logMAR.  The score starts from the last line passed, loses 0.02 for
+// each letter missed on that line and gains 0.02 for each letter read
+// on the line below — the "6/9 −1 +2" notation clinics write down.
+// It is clamped between the neighbouring lines so a handful of letters
+// can never outscore a line the patient did not pass; those same
+// neighbours are the reported interval.
+
+const LOGMAR_PER_LETTER = 0.02;
+
+function createLineWalk(levels: ThresholdLevel[]): ThresholdStrategy {
+  const correctByLine: number[] = [];
+  let line = 0;
+  let position = 0;
+  let consecutiveErrors = 0;
+  let trials = 0;
+  let bestLevel: number | null = null; // set when the walk stops
+
+  const lineBounds = (index: number): ThresholdInterval => ({
+    lower: levels[index + 1]?.logMAR ?? levels[index].logMAR,
+    upper: levels[index - 1]?.logMAR ?? WORSE_THAN_CHART_LOGMAR,
+  });
+
+  return {
+    kind: 'line-walk',
+
+    next: () => (bestLevel === null ? { level: line, position } : null),
+
+    record: (_trial, outcome) => {
+      trials++;
+
+      // "I can't see" ends the walk at the line above
+      if (outcome === 'cant-see') {
+        bestLevel = line - 1;
+        return;
+      }
+
+      // Failing the top line leaves -1: the patient is below the chart
+      const stopAtPreviousLine = () => {
+        bestLevel = line - 1;
+      };
+
+      if (outcome === 'correct') {
+        correctByLine[line] = (correctByLine[line] ?? 0) + 1;
+        consecutiveErrors = 0;
+      } else {
+        consecutiveErrors++;
+        // 2 consecutive errors on the same line → stop
+        if (consecutiveErrors >= 2) return stopAtPreviousLine();
+      }
+
+      // Move to next letter in this line
+      if (position < levels[line].letters - 1) {
+        position++;
+        return;
+      }
+
+      // If incorrect on last letter, record previous line
+      if (outcome === 'incorrect') return stopAtPreviousLine();
+
+      // Move to next line, or finish after the smallest
+      if (line < levels.length - 1) {
+        line++;
+        position = 0;
+        consecutiveErrors = 0;
+      } else {
+        bestLevel = line;
+      }
+    },
+
+    progress: () => (bestLevel === null ? line / levels.length : 1),
+
+    estimate: () => {
+      const best = bestLevel ?? Math.max(line - 1, 0);
+      const lettersCorrect = correctByLine.reduce((sum, n) => sum + (n ?? 0), 0);
+
+      if (best < 0) {
+        return {
+          logMAR: WORSE_THAN_CHART_LOGMAR,
+          interval: { lower: levels[0].logMAR, upper: WORSE_THAN_CHART_LOGMAR },
+          bestLevel: -1,
+          lettersCorrect,
+          trials,
+        };
+      }
+
+      const missed = levels[best].letters - (correctByLine[best] ?? 0);
+      const bonus = best < levels.length - 1 ? (correctByLine[best + 1] ?? 0) : 0;
+      const raw = levels[best].logMAR + LOGMAR_PER_LETTER * (missed - bonus);
+      const interval = lineBounds(best);
+
+      return {
+        logMAR: round2(Math.min(Math.max(raw, interval.lower), interval.upper)),
+        interval,
+        bestLevel: best,
+        lettersCorrect,
+        trials,
+      };
+    },
+  };
+}
+
+// ─── Staircase ───────────────────────────────────────────────────────
+// 2-down / 1-up converges on the size read correctly ~71 % of the time,
+// comfortably above the 25 % guess rate of a 4-choice answer pad.
+// The threshold is the mean logMAR of the last reversals; its interval
+// is ±1.96 standard errors of that mean.
+
+const STAIRCASE_START_LEVEL = 2;      // 6/24
+const STAIRCASE_REVERSALS = 6;
+const STAIRCASE_AVERAGED = 4;
+const STAIRCASE_MAX_TRIALS = 30;
+const STAIRCASE_FLOOR_RUN = 4;        // correct in a row at the smallest size → done
+
+function createStaircase(levels: ThresholdLevel[]): ThresholdStrategy {
+  const shownAt: number[] = [];
+  const reversals: number[] = [];
+  let level = Math.min(STAIRCASE_START_LEVEL, levels.length - 1);
+  let step = 2;                          // halves to 1 after the first reversal
+  let direction: 'down' | 'up' | null = null;
+  let missedYet = false;                 // 1-down until the first miss, then 2-down
+  let correctRun = 0;
+  let missesAtTop = 0;
+  let lettersCorrect = 0;
+  let trials = 0;
+  let worseThanChart = false;
+  let floorRun = 0;
+
+  const finished = () =>
+    worseThanChart ||
+    reversals.length >= STAIRCASE_REVERSALS ||
+    trials >= STAIRCASE_MAX_TRIALS ||
+    floorRun >= STAIRCASE_FLOOR_RUN;
+
+  const move = (to: 'down' | 'up') => {
+    if (direction && direction !== to) {
+      reversals.push(levels[level].logMAR);
+      step = 1;
+    }
+    direction = to;
+    level = to === 'down'
+      ? Math.min(level + step, levels.length - 1)
+      : Math.max(level - step, 0);
+  };
+
+  return {
+    kind: 'staircase',
+
+    next: () => (finished() ? null : { level, position: shownAt[level] ?? 0 }),
+
+    record: (trial, outcome) => {
+      trials++;
+      shownAt[trial.level] = (shownAt[trial.level] ?? 0) + 1;
+
+      if (outcome === 'correct') {
+        lettersCorrect++;
+        correctRun++;
+        floorRun = level === levels.length - 1 ? floorRun + 1 : 0;
+        if (correctRun >= 2 || !missedYet) {
+          correctRun = 0;
+          move('down');
+        }
+        return;
+      }
+
+      correctRun = 0;
+      floorRun = 0;
+      missedYet = true;
+      if (level === 0) {
+        // Missing the largest letter twice means the patient is off the chart
+        missesAtTop++;
+        if (outcome === 'cant-see' || missesAtTop >= 2) worseThanChart = true;
+        return;
+      }
+      move('up');
+    },
+
+    progress: () =>
+      finished() ? 1 : Math.max(reversals.length / STAIRCASE_REVERSALS, trials / STAIRCASE_MAX_TRIALS),
+
+    estimate: () => {
+      if (worseThanChart) {
+        return {
+          logMAR: WORSE_THAN_CHART_LOGMAR,
+          interval: { lower: levels[0].logMAR, upper: WORSE_THAN_CHART_LOGMAR },
+          bestLevel: -1,
+          lettersCorrect,
+          trials,
+        };
+      }
+
+      const used = reversals.slice(-STAIRCASE_AVERAGED);
+      // No reversals at all: the patient read straight down to the smallest line
+      const samples = used.length > 0 ? used : [levels[level].logMAR];
+      const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+      const sd = samples.length > 1
+        ? Math.sqrt(samples.reduce((a, b) => a + (b - mean) ** 2, 0) / (samples.length - 1))
+        : 0.1;
+      const halfWidth = 1.96 * sd / Math.sqrt(samples.length);
+
+      return {
+        logMAR: round2(mean),
+        interval: { lower: round2(mean - halfWidth), upper: round2(mean + halfWidth) },
+        bestLevel: levelForLogMAR(levels, mean),
+        lettersCorrect,
+        trials,
+      };
+    },
+  };
+}
+
+// ─── QUEST ───────────────────────────────────────────────────────────
+// Posterior over the threshold on a 0.02 logMAR grid.  The psychometric
+// function is a logistic in logMAR with a 25 % guess rate (4 choices)
+// and a 2 % lapse rate.  Each answer multiplies the posterior by the
+// likelihood of that answer at the size shown.
+
+const QUEST_GRID_MIN = -0.4;
+const QUEST_GRID_MAX = WORSE_THAN_CHART_LOGMAR + 0.2;
+const QUEST_GRID_STEP = 0.02;
+const QUEST_PRIOR_MEAN = 0.3;          // 6/12
+const QUEST_PRIOR_SD = 0.5;
+const QUEST_GUESS = 0.25;
+const QUEST_LAPSE = 0.02;
+const QUEST_SLOPE = 0.05;              // logMAR per logistic unit
+const QUEST_MIN_TRIALS = 8;
+const QUEST_MAX_TRIALS = 25;
+const QUEST_TARGET_SD = 0.06;
+
+function createQuest(levels: ThresholdLevel[]): ThresholdStrategy {
+  const grid: number[] = [];
+  for (let t = QUEST_GRID_MIN; t <= QUEST_GRID_MAX + 1e-9; t += QUEST_GRID_STEP) grid.push(t);
+
+  let posterior = grid.map(t => Math.exp(-0.5 * ((t - QUEST_PRIOR_MEAN) / QUEST_PRIOR_SD) ** 2));
+  const shownAt: number[] = [];
+  let lettersCorrect = 0;
+  let trials = 0;
+
+  const pCorrect = (size: number, threshold: number) =>
+    QUEST_GUESS + (1 - QUEST_GUESS - QUEST_LAPSE) / (1 + Math.exp(-(size - threshold) / QUEST_SLOPE));
+
+  const normalised = () => {
+    const total = posterior.reduce((a, b) => a + b, 0);
+    return posterior.map(p => p / total);
+  };
+
+  const stats = () => {
+    const p = normalised();
+    const mean = p.reduce((acc, w, i) => acc + w * grid[i], 0);
+    const sd = Math.sqrt(p.reduce((acc, w, i) => acc + w * (grid[i] - mean) ** 2, 0));
+    const quantile = (q: number) => {
+      let cumulative = 0;
+      for (let i = 0; i < grid.length; i++) {
+        cumulative += p[i];
+        if (cumulative >= q) return grid[i];
+      }
+      return grid[grid.length - 1];
+    };
+    return { mean, sd, lower: quantile(0.025), upper: quantile(0.975) };
+  };
+
+  const finished = () => {
+    if (trials >= QUEST_MAX_TRIALS) return true;
+    return trials >= QUEST_MIN_TRIALS && stats().sd <= QUEST_TARGET_SD;
+  };
+
+  const closestLevel = (logMAR: number) =>
+    levels.reduce((best, level, i) =>
+      Math.abs(level.logMAR - logMAR) < Math.abs(levels[best].logMAR - logMAR) ? i : best, 0);
+
+  return {
+    kind: 'quest',
+
+    next: () => {
+      if (finished()) return null;
+      const level = closestLevel(stats().mean);
+      return { level, position: shownAt[level] ?? 0 };
+    },
+
+    record: (trial, outcome) => {
+      trials++;
+      shownAt[trial.level] = (shownAt[trial.level] ?? 0) + 1;
+      const size = levels[trial.level].logMAR;
+      const correct = outcome === 'correct';
+      if (correct) lettersCorrect++;
+      posterior = posterior.map((w, i) => {
+        const p = pCorrect(size, grid[i]);
+        return w * (correct ? p : 1 - p);
+      });
+    },
+
+    progress: () => {
+      if (finished()) return 1;
+      const narrowing = (QUEST_PRIOR_SD - stats().sd) / (QUEST_PRIOR_SD - QUEST_TARGET_SD);
+      return Math.min(1, Math.max(trials / QUEST_MAX_TRIALS, narrowing));
+    },
+
+    estimate: () => {
+      const { mean, lower, upper } = stats();
+      const logMAR = round2(Math.min(mean, WORSE_THAN_CHART_LOGMAR));
+      return {
+        logMAR,
+        interval: { lower: round2(lower), upper: round2(Math.min(upper, WORSE_THAN_CHART_LOGMAR)) },
+        bestLevel: levelForLogMAR(levels, logMAR),
+        lettersCorrect,
+        trials,
+      };
+    },
+  };
+}
+
+// ─── Factory ─────────────────────────────────────────────────────────
+
+export function createThresholdStrategy(
+  kind: ThresholdStrategyKind,
+  levels: ThresholdLevel[],
+): ThresholdStrategy {
+  switch (kind) {
+    case 'line-walk': return createLineWalk(levels);
+    case 'staircase': return createStaircase(levels);
+    case 'quest': return createQuest(levels);
+  }
+}
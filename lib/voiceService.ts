@@ -0,0 +1,198 @@
+/**
+ * voiceService.ts
+ * ----------------
+ * Spoken guidance for the vision tests.
+ *
+ * A patient doing the distance test stands 3 m from the phone and
+ * cannot read instructions off the screen, so every phase of every
+ * test is also spoken.  Prompts are catalogue keys under `voice.*`;
+ * they are translated at the moment they are spoken and read with the
+ * expo-speech voice for the current language (see lib/i18n.ts).
+ *
+ * ─── Queue ──────────────────────────────────────────────────────
+ * Prompts play one after another in the order they were queued.
+ * `speak(..., { interrupt: true })` cuts off the prompt being spoken
+ * and drops anything still waiting — tests use it on every phase
+ * change so a patient who taps ahead never hears stale instructions.
+ *
+ * ─── Settings ───────────────────────────────────────────────────
+ * Guidance can be switched off and its rate changed.  Settings are
+ * stored in AsyncStorage; `loadVoiceSettings()` runs once at startup.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Speech from 'expo-speech';
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { speechLanguage, t, type TranslationKey, type TranslationParams } from './i18n';
+
+const STORAGE_KEY = '@visioncheck/voice-settings';
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** Catalogue keys the service may speak — everything under `voice.` */
+export type VoicePromptKey = Extract<TranslationKey, `voice.${string}`>;
+
+export interface VoiceSettings {
+  enabled: boolean;
+  /** expo-speech rate; 1 is the platform's normal speed */
+  rate: number;
+}
+
+export interface SpeakOptions {
+  /** Stop the current prompt and drop queued ones before speaking */
+  interrupt?: boolean;
+  /** Interpolation values, shared by every prompt in the call */
+  params?: TranslationParams;
+}
+
+interface QueuedPrompt {
+  key: VoicePromptKey;
+  params?: TranslationParams;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────
+
+export const VOICE_RATES = {
+  normal: 0.9,
+  slow: 0.7,
+} as const;
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: true,
+  rate: VOICE_RATES.normal,
+};
+
+const MIN_RATE = 0.5;
+const MAX_RATE = 1.5;
+
+// ─── Internal state ──────────────────────────────────────────────────
+
+let _settings: VoiceSettings = DEFAULT_VOICE_SETTINGS;
+const _listeners = new Set<() => void>();
+
+let _queue: QueuedPrompt[] = [];
+let _speaking = false;
+// Bumped on every interrupt, so callbacks from a cut-off utterance are ignored
+let _generation = 0;
+
+const subscribe = (listener: () => void) => {
+  _listeners.add(listener);
+  return () => { _listeners.delete(listener); };
+};
+
+const clampRate = (rate: number): number =>
+  Number.isFinite(rate) ? Math.min(MAX_RATE, Math.max(MIN_RATE, rate)) : DEFAULT_VOICE_SETTINGS.rate;
+
+const playNext = () => {
+  const next = _queue.shift();
+  if (!next) {
+    _speaking = false;
+    return;
+  }
+
+  _speaking = true;
+  const generation = _generation;
+  const advance = () => {
+    if (generation === _generation) playNext();
+  };
+
+  Speech.speak(t(next.key, next.params), {
+    language: speechLanguage(),
+    rate: _settings.rate,
+    onDone: advance,
+    onStopped: advance,
+    onError: advance,
+  });
+};
+
+// ─── Speaking ────────────────────────────────────────────────────────
+
+/**
+ * Queue one or more prompts.  Does nothing while guidance is switched
+ * off.
+ */
+export function speak(prompts: VoicePromptKey | VoicePromptKey[], options: SpeakOptions = {}): void {
+  if (!_settings.enabled) return;
+
+  if (options.interrupt) stopSpeaking();
+
+  const keys = Array.isArray(prompts) ? prompts : [prompts];
+  _queue.push(...keys.map(key => ({ key, params: options.params })));
+  if (!_speaking) playNext();
+}
+
+/** Stop the current prompt and clear the queue. */
+export function stopSpeaking(): void {
+  _generation += 1;
+  _queue = [];
+  _speaking = false;
+  Speech.stop();
+}
+
+export function isSpeaking(): boolean {
+  return _speaking;
+}
+
+/**
+ * Speak `prompts` whenever they change, interrupting whatever was
+ * playing, and go quiet when the caller unmounts.  Tests pass the
+ * prompts for their current phase; an empty list leaves speech alone
+ * (e.g. while a child screen narrates itself).
+ */
+export function useVoiceGuidance(prompts: readonly VoicePromptKey[]): void {
+  // Keys never contain spaces, so the joined list identifies the prompts
+  const signature = prompts.join(' ');
+
+  useEffect(() => {
+    if (signature) speak(signature.split(' ') as VoicePromptKey[], { interrupt: true });
+  }, [signature]);
+
+  useEffect(() => stopSpeaking, []);
+}
+
+// ─── Settings ────────────────────────────────────────────────────────
+
+export function getVoiceSettings(): VoiceSettings {
+  return _settings;
+}
+
+/** Change settings, notify mounted screens and remember the choice. */
+export async function setVoiceSettings(changes: Partial<VoiceSettings>): Promise<void> {
+  _settings = {
+    ..._settings,
+    ...changes,
+    rate: clampRate(changes.rate ?? _settings.rate),
+  };
+  if (!_settings.enabled) stopSpeaking();
+  _listeners.forEach(listener => listener());
+
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(_settings));
+  } catch (err) {
+    console.warn('[voice] Could not save settings:', err);
+  }
+}
+
+/** Restore stored settings.  Call once at startup. */
+export async function loadVoiceSettings(): Promise<VoiceSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw) as Partial<VoiceSettings>;
+      _settings = {
+        enabled: typeof stored.enabled === 'boolean' ? stored.enabled : DEFAULT_VOICE_SETTINGS.enabled,
+        rate: clampRate(Number(stored.rate)),
+      };
+      _listeners.forEach(listener => listener());
+    }
+  } catch (err) {
+    console.warn('[voice] Could not read settings:', err);
+  }
+  return _settings;
+}
+
+/** Current settings, re-rendering the caller when they change. */
+export function useVoiceSettings(): VoiceSettings {
+  return useSyncExternalStore(subscribe, getVoiceSettings, getVoiceSettings);
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * WebSocket relay for the two-device distance test (see
+ * lib/remoteSession.ts).  The display and controller phones both
+ * connect to `ws://<this machine>:<port>?session=<code>`; every text
+ * message is forwarded to the other sockets in the same session.
+ * Nothing is stored or logged beyond sessions opening and closing.
+ *
+ * Usage: npm run relay            (port 8080)
+ *        PORT=9000 npm run relay
+ */
+
+const os = require('os');
+const { WebSocketServer } = require('ws');
+
+const PORT = Number(process.env.PORT) || 8080;
+// Same alphabet and length as createSessionCode() in lib/remoteSession.ts
+const SESSION_CODE = /^[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{6}$/;
+// A session is one display and one controller; allow a reconnect overlapping a stale socket
+const MAX_PEERS = 4;
+// Remote messages are small JSON objects
+const MAX_MESSAGE_BYTES = 64 * 1024;
+
+const sessions = new Map();
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_MESSAGE_BYTES });
+
+server.on('connection', (socket, request) => {
+  const code = new URL(request.url ?? '/', 'ws://relay').searchParams.get('session') ?? '';
+  if (!SESSION_CODE.test(code)) {
+    socket.close(1008, 'invalid session code');
+    return;
+  }
+
+  const peers = sessions.get(code) ?? new Set();
+  if (peers.size >= MAX_PEERS) {
+    socket.close(1013, 'session full');
+    return;
+  }
+  if (peers.size === 0) console.log(`[relay] session ${code} opened`);
+  peers.add(socket);
+  sessions.set(code, peers);
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    for (const peer of peers) {
+      if (peer !== socket && peer.readyState === peer.OPEN) peer.send(data.toString());
+    }
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) {
+      sessions.delete(code);
+      console.log(`[relay] session ${code} closed`);
+    }
+  });
+
+  socket.on('error', err => console.warn(`[relay] session ${code}:`, err.message));
+});
+
+server.on('listening', () => {
+  const addresses = Object.values(os.networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `ws://${address.address}:${PORT}`);
+  console.log(`[relay] listening on port ${PORT}`);
+  console.log('[relay] enter one of these as the relay address on the display phone:');
+  (addresses.length ? addresses : [`ws://<this machine's address>:${PORT}`]).forEach(url => console.log(`  ${url}`));
+});